@@ -0,0 +1,13 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  roots: ['<rootDir>/src'],
+  testMatch: ['<rootDir>/src/main/**/__tests__/**/*.test.ts'],
+  testEnvironment: 'node',
+  // Pinned to ts-jest: suites rely on jest.mock being hoisted above imports
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: 'tsconfig.main.json' }]
+  },
+  moduleNameMapper: {
+    '^@shared/(.*)$': '<rootDir>/src/shared/$1'
+  }
+};
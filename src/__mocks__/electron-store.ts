@@ -0,0 +1,36 @@
+/**
+ * In-memory electron-store for tests
+ * One shared data object per store name and directory, like files on disk
+ */
+
+const files: Record<string, Record<string, any>> = {};
+
+class MemoryStore {
+  path: string;
+  private data: Record<string, any>;
+
+  constructor(options: { name?: string; cwd?: string; defaults?: Record<string, any> } = {}) {
+    const name = `${options.cwd || ''}/${options.name || 'config'}`;
+    files[name] = files[name] || JSON.parse(JSON.stringify(options.defaults || {}));
+    this.data = files[name];
+    this.path = name;
+  }
+
+  get(key: string, defaultValue?: any) {
+    return this.data[key] === undefined ? defaultValue : this.data[key];
+  }
+
+  set(key: string | Record<string, any>, value?: any) {
+    if (typeof key === 'object') {
+      Object.assign(this.data, key);
+    } else {
+      this.data[key] = value;
+    }
+  }
+
+  delete(key: string) {
+    delete this.data[key];
+  }
+}
+
+export = MemoryStore;
@@ -0,0 +1,111 @@
+/**
+ * Wallet IPC handler tests: vault creation, unlock and password change
+ * Run with: npm test (after setting up testing environment)
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+
+const mockHandlers = new Map<string, (...args: any[]) => any>();
+
+jest.mock('electron', () => ({
+  ipcMain: {
+    handle: (channel: string, handler: (...args: any[]) => any) => mockHandlers.set(channel, handler),
+    on: () => undefined
+  },
+  app: { on: () => undefined },
+  powerMonitor: { on: () => undefined },
+  webContents: { getAllWebContents: () => [] }
+}));
+
+jest.mock('../services/aleo-crypto.service', () => ({
+  aleoCryptoService: {
+    isValidPrivateKey: () => true,
+    importFromPrivateKey: async (privateKey: string) => ({ address: 'aleo1ipc', privateKey, viewKey: 'AViewKey1ipc' })
+  }
+}));
+
+// Services the wallet handlers only notify
+jest.mock('../window', () => ({ getMainWindow: () => null, getAllTabIds: () => [], initAutoSuspend: () => undefined }));
+jest.mock('../services/aleo.service', () => ({ aleoService: { onNetworkChanged: () => undefined } }));
+jest.mock('../services/record-scanner.service', () => ({
+  recordScannerService: { startAutoSync: () => undefined, stopAutoSync: () => undefined }
+}));
+jest.mock('../services/transaction-history.service', () => ({ transactionHistoryService: { init: () => undefined } }));
+jest.mock('../services/permission.service', () => ({
+  permissionService: {
+    getAllConnectedSites: () => [],
+    rejectAllPendingRequests: () => undefined,
+    isConnected: () => false,
+    onSiteExpired: () => () => undefined
+  }
+}));
+jest.mock('../services/credential.service', () => ({ credentialService: { clearSavePrompts: () => undefined } }));
+jest.mock('../services/bookmark.service', () => ({ bookmarkService: { retryLegacyMigration: () => undefined } }));
+jest.mock('../services/history.service', () => ({ historyService: { retryLegacyMigration: () => undefined } }));
+jest.mock('../services/note-attachment.service', () => ({ noteAttachmentService: {} }));
+jest.mock('../services/key-hierarchy.service', () => ({ keyHierarchyService: {} }));
+jest.mock('../services/privacy.service', () => ({ privacyService: {} }));
+jest.mock('../services/filter-list.service', () => ({ filterListService: {} }));
+jest.mock('../services/tab-suspend.service', () => ({ tabSuspendService: {} }));
+jest.mock('../services/reader.service', () => ({ readerService: {} }));
+
+import Store from 'electron-store';
+import { setupIpcHandlers } from '../ipc';
+import { walletService } from '../services/wallet.service';
+import { createVault, openVault } from '../utils/vault';
+
+const PRIVATE_KEY = 'APrivateKey1ipc';
+const invoke = (channel: string, ...args: any[]) => mockHandlers.get(channel)!({}, ...args);
+const storageKey = () => Buffer.from(walletService.getEncryptionKey()!);
+
+let configStore: any;
+
+beforeAll(() => {
+  setupIpcHandlers();
+  configStore = new Store({});
+});
+
+afterAll(async () => {
+  // Clears the auto-lock timer
+  await invoke('wallet:lock');
+});
+
+describe('wallet IPC handlers', () => {
+  it('keeps the storage key across lock, unlock and password change', async () => {
+    expect(await invoke('wallet:import', PRIVATE_KEY, 'first-password')).toMatchObject({ success: true, address: 'aleo1ipc' });
+    const key = storageKey();
+
+    await invoke('wallet:lock');
+    expect(walletService.getEncryptionKey()).toBeNull();
+    expect(await invoke('wallet:unlock', 'first-password')).toEqual({ success: true });
+    expect(storageKey().equals(key)).toBe(true);
+
+    expect(await invoke('wallet:changePassword', 'first-password', 'second-password')).toEqual({ success: true });
+    await invoke('wallet:lock');
+    expect((await invoke('wallet:unlock', 'first-password')).success).toBe(false);
+    expect(await invoke('wallet:unlock', 'second-password')).toEqual({ success: true });
+    expect(storageKey().equals(key)).toBe(true);
+  }, 30000);
+
+  it('adds a storage key to a stored keyring that has none', async () => {
+    await invoke('wallet:lock');
+    const keyring = {
+      accounts: [{ id: 'a1', name: 'Account 1', address: 'aleo1old', privateKey: 'APrivateKey1old', viewKey: 'AViewKey1old', source: 'imported' }],
+      selectedAccountId: 'a1',
+      createdAt: 1
+    };
+    const { vault, key } = await createVault(JSON.stringify(keyring), 'old-password');
+    key.fill(0);
+    configStore.set('wallet', { ...vault, createdAt: 1, lastAccessed: 1 });
+
+    expect(await invoke('wallet:unlock', 'old-password')).toEqual({ success: true });
+    const added = storageKey();
+
+    const stored = JSON.parse((await openVault(configStore.get('wallet'), 'old-password')).plaintext);
+    expect(stored.storageKey).toBe(added.toString('hex'));
+
+    await invoke('wallet:lock');
+    await invoke('wallet:unlock', 'old-password');
+    expect(storageKey().equals(added)).toBe(true);
+  }, 30000);
+});
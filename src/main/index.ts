@@ -33,6 +33,8 @@ import {
 import { setupIpcHandlers } from './ipc';
 import { setupDownloadHandler, getDownloads, cancelDownload, pauseDownload, resumeDownload } from './services/download.service';
 import { sessionService } from './services/session.service';
+import { privacyService } from './services/privacy.service';
+import { filterListService } from './services/filter-list.service';
 
 // Lazy load electron modules to avoid initialization issues
 let electronModule: typeof import('electron') | null = null;
@@ -95,18 +97,10 @@ function setupSecurity(): void {
     // Note: CSP is NOT applied to BrowserView content to allow normal web browsing
     // Only the main renderer UI should have strict CSP (handled by Electron's defaults)
 
-    // Block ads and trackers (basic implementation)
-    const adBlockFilters = [
-      '*://*.doubleclick.net/*',
-      '*://*.googleadservices.com/*',
-      '*://*.googlesyndication.com/*',
-      '*://*.google-analytics.com/*',
-      '*://*.facebook.com/tr/*',
-      '*://*.facebook.net/*'
-    ];
-
-    defaultSession.webRequest.onBeforeRequest({ urls: adBlockFilters }, (details, callback) => {
-      callback({ cancel: true });
+    // Block ads and trackers with the Shields filter lists
+    privacyService.attachToSession(defaultSession);
+    filterListService.initialize().catch((error) => {
+      console.error('Failed to load filter lists:', error);
     });
 
     // Enable privacy features - but allow basic browsing
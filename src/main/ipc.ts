@@ -1,7 +1,12 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
 import { v4 as uuidv4 } from 'uuid';
-import { encrypt, decrypt, hashPassword, constantTimeCompare, EncryptedData } from './utils/crypto';
+import { encrypt, decrypt, secureWipe, EncryptedData } from './utils/crypto';
+import { createVault, openVault, sealVault, Vault } from './utils/vault';
 import { aleoCryptoService } from './services/aleo-crypto.service';
 import { transactionHistoryService } from './services/transaction-history.service';
+import { createKeyring, parseKeyring } from './services/wallet.service';
+import type { TransferKind, Keyring, Bookmark, BookmarkFolder, BookmarkCollection, BookmarkImportResult, HistoryEntry, HistorySearchOptions, HistorySearchResponse, HistorySettings, Suggestion, SuggestionContext, NoteAttachment, PageClip, NoteShare, ReceivedNote, KeyPurpose, KeyVersionInfo, KeyRotationResult, FilterList, FilterListCategory, ElementHidingRule, SiteShieldsOverrides, SiteShieldsSetting, SiteShieldsStats, WebRTCIPPolicy } from '@shared/types';
 
 // Lazy load electron modules to avoid initialization issues
 let electronModule: typeof import('electron') | null = null;
@@ -26,46 +31,33 @@ interface WalletData {
   createdAt: number;
 }
 
-interface EncryptedWallet {
-  data: EncryptedData;
-  passwordHash: string;
+// Stored wallet: a versioned vault (see utils/vault) holding the keyring
+interface EncryptedWallet extends Vault {
   createdAt: number;
   lastAccessed: number;
 }
 
-interface Bookmark {
-  id: string;
-  url: string;
-  title: string;
-  favicon?: string;
-  createdAt: number;
-  folder?: string;
-  tags?: string[];
-  aleoPinned?: boolean;
-}
-
-interface HistoryEntry {
-  id: string;
-  url: string;
-  title: string;
-  visitedAt: number;
-  favicon?: string;
-}
-
 interface SendTransactionParams {
   recipient: string;
   amount: number;
   fee?: number;
   memo?: string;
+  transferKind?: TransferKind;
 }
 
+const TRANSFER_KINDS: TransferKind[] = [
+  'transfer_public',
+  'transfer_private',
+  'transfer_public_to_private',
+  'transfer_private_to_public',
+  'transfer_public_as_signer'
+];
+
 /**
  * Store configuration - lazily initialized
  */
 interface StoreSchema {
   wallet?: EncryptedWallet;
-  bookmarks: Bookmark[];
-  history: HistoryEntry[];
   settings: Record<string, unknown>;
 }
 
@@ -77,8 +69,6 @@ function getConfigStore(): any {
     const Store = require('electron-store');
     storeInstance = new Store({
       defaults: {
-        bookmarks: [],
-        history: [],
         settings: {}
       }
     });
@@ -90,46 +80,293 @@ function getConfigStore(): any {
  * Runtime state (in-memory only)
  */
 let walletSession: {
-  wallet: WalletData | null;
+  wallet: WalletData | null; // Selected keyring account
   isLocked: boolean;
   unlockTime: number | null;
   autoLockTimer: NodeJS.Timeout | null;
+  lastActivity: number;      // Last wallet, dApp or user input activity
+  vaultKey: Buffer | null;   // Derived from the password so keyring changes can be saved
+  vaultSalt: Buffer | null;
 } = {
   wallet: null,
   isLocked: true,
   unlockTime: null,
-  autoLockTimer: null
+  autoLockTimer: null,
+  lastActivity: 0,
+  vaultKey: null,
+  vaultSalt: null
 };
 
 const AUTO_LOCK_DURATION = 15 * 60 * 1000; // 15 minutes
+let autoLockDuration: number | null = null; // Cached from the config store
+
+/**
+ * Idle time before the wallet locks, from WalletSettingsData.autoLockTimeout (0 = never)
+ */
+function getAutoLockDuration(): number {
+  if (autoLockDuration === null) {
+    const minutes = getConfigStore().get('settings.autoLockTimeout');
+    autoLockDuration = typeof minutes === 'number' ? minutes * 60 * 1000 : AUTO_LOCK_DURATION;
+  }
+  return autoLockDuration;
+}
 
 /**
- * Auto-lock the wallet after inactivity
+ * Record wallet activity, pushing back the auto-lock.
+ * Cheap enough to call on every input event: the timer is only armed once
+ * and re-checks the idle time when it fires.
  */
 function resetAutoLockTimer(): void {
+  if (walletSession.isLocked) {
+    return;
+  }
+
+  walletSession.lastActivity = Date.now();
+  if (!walletSession.autoLockTimer) {
+    scheduleAutoLock(getAutoLockDuration());
+  }
+}
+
+/**
+ * Arm the auto-lock timer; on expiry lock if idle long enough, otherwise re-arm
+ * for the remaining time
+ */
+function scheduleAutoLock(delay: number): void {
   if (walletSession.autoLockTimer) {
     clearTimeout(walletSession.autoLockTimer);
+    walletSession.autoLockTimer = null;
+  }
+
+  if (walletSession.isLocked || getAutoLockDuration() === 0) {
+    return;
   }
 
-  if (!walletSession.isLocked) {
-    walletSession.autoLockTimer = setTimeout(() => {
+  walletSession.autoLockTimer = setTimeout(() => {
+    walletSession.autoLockTimer = null;
+
+    const duration = getAutoLockDuration();
+    const idle = Date.now() - walletSession.lastActivity;
+    if (duration === 0) {
+      return;
+    }
+    if (idle >= duration) {
+      console.log('[Wallet] Auto-locking after inactivity');
+      lockWallet();
+    } else {
+      scheduleAutoLock(duration - idle);
+    }
+  }, delay);
+}
+
+/**
+ * Lock the wallet on idle, system suspend and screen lock, and treat user
+ * input in the browser window or its tabs as activity
+ */
+function setupAutoLock(): void {
+  const { app, powerMonitor, webContents } = getElectron();
+
+  const onSystemLock = (reason: string) => () => {
+    if (!walletSession.isLocked) {
+      console.log(`[Wallet] Locking on ${reason}`);
       lockWallet();
-    }, AUTO_LOCK_DURATION);
+    }
+  };
+  powerMonitor.on('suspend', onSystemLock('system suspend'));
+  powerMonitor.on('lock-screen', onSystemLock('screen lock'));
+
+  const trackInput = (contents: Electron.WebContents) => {
+    contents.on('input-event', (_event, input) => {
+      if (input.type !== 'mouseMove') {
+        resetAutoLockTimer();
+      }
+    });
+  };
+  webContents.getAllWebContents().forEach(trackInput);
+  app.on('web-contents-created', (_event, contents) => trackInput(contents));
+}
+
+/**
+ * Scan the unlocked account's records in the background and push
+ * private balance changes to the renderer
+ */
+function startRecordSync(): void {
+  const wallet = walletSession.wallet;
+  if (!wallet) {
+    return;
+  }
+
+  const { recordScannerService } = require('./services/record-scanner.service');
+  const { aleoService: aleoSvc } = require('./services/aleo.service');
+  const keys = { viewKey: wallet.viewKey, privateKey: wallet.privateKey };
+
+  recordScannerService.startAutoSync(keys, async () => {
+    const balance = await aleoSvc.getBalance(wallet.address, keys);
+    const { getMainWindow } = require('./window');
+    getMainWindow()?.webContents.send('wallet:balanceChanged', balance);
+  });
+}
+
+/**
+ * Get the web contents of every open tab whose origin matches the filter
+ */
+function getTabContents(matches: (origin: string) => boolean): Electron.WebContents[] {
+  const windowModule = require('./window');
+  const contents: Electron.WebContents[] = [];
+
+  for (const tabId of windowModule.getAllTabIds()) {
+    const view: Electron.BrowserView | null = windowModule.getBrowserView(tabId);
+    if (!view || view.webContents.isDestroyed()) {
+      continue;
+    }
+
+    try {
+      if (matches(new URL(view.webContents.getURL()).origin)) {
+        contents.push(view.webContents);
+      }
+    } catch {
+      // Tab has no parseable URL yet
+    }
+  }
+
+  return contents;
+}
+
+/**
+ * Push a provider event to every tab of a connected dApp
+ */
+function notifyConnectedSites(channel: string, ...args: any[]): void {
+  const { permissionService } = require('./services/permission.service');
+  const tabs = getTabContents(origin => permissionService.isConnected(origin));
+  tabs.forEach(webContents => webContents.send(channel, ...args));
+}
+
+/**
+ * Re-resolve the account each connected site is bound to and push
+ * accountChanged to its tabs. Unbound sites follow the selected account.
+ * @param notifyAll - Notify every site, not only those whose account changed (after unlock)
+ */
+function refreshSiteAccounts(notifyAll: boolean = false): void {
+  const { permissionService } = require('./services/permission.service');
+  const { walletService } = require('./services/wallet.service');
+
+  for (const site of permissionService.getAllConnectedSites()) {
+    const accountId = site.accountId && walletService.hasAccount(site.accountId) ? site.accountId : undefined;
+    const wallet = walletService.getAccountWallet(accountId);
+    if (!wallet) {
+      continue;
+    }
+
+    const changed = wallet.address !== site.address || accountId !== site.accountId;
+    if (changed) {
+      permissionService.setSiteAccount(site.origin, wallet.address, accountId);
+    }
+    if (changed || notifyAll) {
+      getTabContents(origin => origin === site.origin)
+        .forEach(webContents => webContents.send('dapp:accountChanged', wallet.address));
+    }
+  }
+}
+
+/**
+ * Unlock the session with a decrypted keyring
+ */
+function openWalletSession(keyring: Keyring, vaultKey: Buffer, vaultSalt: Buffer): void {
+  const { walletService } = require('./services/wallet.service');
+  walletService.openKeyring(keyring);
+
+  walletSession.vaultKey = vaultKey;
+  walletSession.vaultSalt = vaultSalt;
+  walletSession.isLocked = false;
+  walletSession.unlockTime = Date.now();
+  applySelectedAccount();
+  resetAutoLockTimer();
+}
+
+/**
+ * Point the session at the keyring's selected account
+ */
+function applySelectedAccount(): void {
+  const { walletService } = require('./services/wallet.service');
+  const wallet = walletService.getCurrentWallet();
+  walletSession.wallet = wallet
+    ? { ...wallet, createdAt: walletService.getKeyring().createdAt }
+    : null;
+}
+
+/**
+ * Encrypt the keyring into the config store with the session's vault key
+ */
+function saveKeyring(): void {
+  if (!walletSession.vaultKey || !walletSession.vaultSalt) {
+    throw new Error('Wallet is locked');
   }
+
+  const { walletService } = require('./services/wallet.service');
+  const store = getConfigStore();
+  const stored: EncryptedWallet = store.get('wallet');
+  const keyring = JSON.stringify(walletService.getKeyring());
+
+  store.set('wallet', {
+    ...stored,
+    ...sealVault(keyring, walletSession.vaultKey, walletSession.vaultSalt, stored.kdf)
+  });
+}
+
+/**
+ * Encrypt a new keyring and store it as the wallet, then unlock the session with it
+ */
+async function storeNewWallet(keyring: Keyring, password: string): Promise<void> {
+  keyring.storageKey = keyring.storageKey || crypto.randomBytes(32).toString('hex');
+  const { vault, key, salt } = await createVault(JSON.stringify(keyring), password);
+
+  const encryptedWallet: EncryptedWallet = {
+    ...vault,
+    createdAt: Date.now(),
+    lastAccessed: Date.now()
+  };
+  getConfigStore().set('wallet', encryptedWallet);
+
+  openWalletSession(keyring, key, salt);
 }
 
 /**
  * Lock the wallet and clear sensitive data from memory
  */
 function lockWallet(): void {
+  const { recordScannerService } = require('./services/record-scanner.service');
+  const { walletService } = require('./services/wallet.service');
+  recordScannerService.stopAutoSync();
+  walletService.lock();
+
+  const wasUnlocked = !walletSession.isLocked;
+
   walletSession.wallet = null;
   walletSession.isLocked = true;
   walletSession.unlockTime = null;
 
+  if (walletSession.vaultKey) {
+    secureWipe(walletSession.vaultKey);
+    walletSession.vaultKey = null;
+    walletSession.vaultSalt = null;
+  }
+
   if (walletSession.autoLockTimer) {
     clearTimeout(walletSession.autoLockTimer);
     walletSession.autoLockTimer = null;
   }
+
+  if (wasUnlocked) {
+    // Approvals can't be completed while locked
+    const { permissionService } = require('./services/permission.service');
+    permissionService.rejectAllPendingRequests('Wallet locked');
+
+    const { credentialService } = require('./services/credential.service');
+    credentialService.clearSavePrompts();
+
+    const { getMainWindow } = require('./window');
+    getMainWindow()?.webContents.send('wallet:locked');
+    notifyConnectedSites('dapp:accountChanged', null);
+  }
 }
 
 /**
@@ -139,6 +376,8 @@ export function setupIpcHandlers(): void {
   const { ipcMain } = getElectron();
   const store = getConfigStore();
 
+  setupAutoLock();
+
   // ============================================
   // WALLET HANDLERS
   // ============================================
@@ -161,31 +400,27 @@ export function setupIpcHandlers(): void {
       // Generate a new Aleo wallet using real SDK with mnemonic (12 words)
       const account = await aleoCryptoService.generateAccountFromSeed();
 
-      const walletData: WalletData = {
-        address: account.address,
-        privateKey: account.privateKey,
-        viewKey: account.viewKey,
-        createdAt: Date.now()
-      };
-
-      // Encrypt wallet data
-      const encryptedData = encrypt(JSON.stringify(walletData), password);
-      const passwordHash = hashPassword(password);
+      // Keep the mnemonic in the vault so more accounts can be derived later
+      const keyring = createKeyring(account, account.seed);
 
-      const encryptedWallet: EncryptedWallet = {
-        data: encryptedData,
-        passwordHash,
-        createdAt: Date.now(),
-        lastAccessed: Date.now()
-      };
+      // Store the vault and unlock the wallet in session
+      await storeNewWallet(keyring, password);
+      const walletData = walletSession.wallet!;
 
-      store.set('wallet', encryptedWallet);
-
-      // Unlock the wallet in session
-      walletSession.wallet = walletData;
-      walletSession.isLocked = false;
-      walletSession.unlockTime = Date.now();
-      resetAutoLockTimer();
+      // A freshly generated account has no records before the current tip
+      const { aleoService: aleoSvc } = require('./services/aleo.service');
+      const { recordScannerService } = require('./services/record-scanner.service');
+      // Without the tip the scan just starts from the beginning
+      aleoSvc.getLatestBlockHeight()
+        .then((height: number) => {
+          if (height > 0) {
+            recordScannerService.setScanStartHeight(account.viewKey, height);
+          }
+        })
+        .catch((error: unknown) => console.error('Failed to set record scan start height:', error))
+        .then(() => startRecordSync())
+        .catch((error: unknown) => console.error('Failed to start record sync:', error));
+      refreshSiteAccounts(true);
 
       console.log('Wallet created with real SDK:', account.address);
       return { success: true, address: walletData.address, mnemonic: account.seed };
@@ -219,31 +454,13 @@ export function setupIpcHandlers(): void {
       // Import wallet using mnemonic
       const account = await aleoCryptoService.generateAccountFromSeed(mnemonic.trim());
 
-      const walletData: WalletData = {
-        address: account.address,
-        privateKey: account.privateKey,
-        viewKey: account.viewKey,
-        createdAt: Date.now()
-      };
-
-      // Encrypt wallet data
-      const encryptedData = encrypt(JSON.stringify(walletData), password);
-      const passwordHash = hashPassword(password);
-
-      const encryptedWallet: EncryptedWallet = {
-        data: encryptedData,
-        passwordHash,
-        createdAt: Date.now(),
-        lastAccessed: Date.now()
-      };
-
-      store.set('wallet', encryptedWallet);
+      const keyring = createKeyring(account, mnemonic.trim());
 
-      // Unlock the wallet in session
-      walletSession.wallet = walletData;
-      walletSession.isLocked = false;
-      walletSession.unlockTime = Date.now();
-      resetAutoLockTimer();
+      // Store the vault and unlock the wallet in session
+      await storeNewWallet(keyring, password);
+      const walletData = walletSession.wallet!;
+      startRecordSync();
+      refreshSiteAccounts(true);
 
       console.log('Wallet imported from mnemonic:', account.address);
       return { success: true, address: walletData.address };
@@ -278,31 +495,13 @@ export function setupIpcHandlers(): void {
       // Import wallet using real SDK - derives view key and address from private key
       const account = await aleoCryptoService.importFromPrivateKey(privateKey);
 
-      const walletData: WalletData = {
-        address: account.address,
-        privateKey: account.privateKey,
-        viewKey: account.viewKey,
-        createdAt: Date.now()
-      };
-
-      // Encrypt wallet data
-      const encryptedData = encrypt(JSON.stringify(walletData), password);
-      const passwordHash = hashPassword(password);
-
-      const encryptedWallet: EncryptedWallet = {
-        data: encryptedData,
-        passwordHash,
-        createdAt: Date.now(),
-        lastAccessed: Date.now()
-      };
+      const keyring = createKeyring(account);
 
-      store.set('wallet', encryptedWallet);
-
-      // Unlock the wallet in session
-      walletSession.wallet = walletData;
-      walletSession.isLocked = false;
-      walletSession.unlockTime = Date.now();
-      resetAutoLockTimer();
+      // Store the vault and unlock the wallet in session
+      await storeNewWallet(keyring, password);
+      const walletData = walletSession.wallet!;
+      startRecordSync();
+      refreshSiteAccounts(true);
 
       console.log('Wallet imported with real SDK:', account.address);
       return { success: true, address: walletData.address };
@@ -336,7 +535,7 @@ export function setupIpcHandlers(): void {
   /**
    * Get wallet balance from real Aleo network
    */
-  ipcMain.handle('wallet:getBalance', async (): Promise<{ success: boolean; balance?: number; public?: number; private?: number; error?: string }> => {
+  ipcMain.handle('wallet:getBalance', async (): Promise<{ success: boolean; balance?: number; public?: number; private?: number; privatePending?: number; privateSyncing?: boolean; error?: string }> => {
     try {
       if (walletSession.isLocked || !walletSession.wallet) {
         return { success: false, error: 'Wallet is locked' };
@@ -346,13 +545,18 @@ export function setupIpcHandlers(): void {
 
       // Fetch real balance from Aleo network
       const { aleoService: aleoSvc } = require('./services/aleo.service');
-      const balanceData = await aleoSvc.getBalance(walletSession.wallet.address);
+      const balanceData = await aleoSvc.getBalance(walletSession.wallet.address, {
+        viewKey: walletSession.wallet.viewKey,
+        privateKey: walletSession.wallet.privateKey
+      });
 
       return {
         success: true,
         balance: balanceData.public + balanceData.private,
         public: balanceData.public,
-        private: balanceData.private
+        private: balanceData.private,
+        privatePending: balanceData.privatePending,
+        privateSyncing: balanceData.privateSyncing
       };
     } catch (error) {
       return {
@@ -371,7 +575,11 @@ export function setupIpcHandlers(): void {
         return { success: false, error: 'Wallet is locked' };
       }
 
-      const { recipient, amount, fee = 0.01, memo } = params;
+      const { recipient, amount, fee = 0.01, memo, transferKind = 'transfer_public' } = params;
+
+      if (!TRANSFER_KINDS.includes(transferKind)) {
+        return { success: false, error: `Unsupported transfer type: ${transferKind}` };
+      }
 
       if (!recipient || !recipient.startsWith('aleo1') || recipient.length !== 63) {
         return { success: false, error: 'Invalid recipient address. Must start with "aleo1" and be 63 characters.' };
@@ -387,15 +595,17 @@ export function setupIpcHandlers(): void {
 
       resetAutoLockTimer();
 
-      console.log(`[Wallet] Preparing transfer: ${amount} ALEO to ${recipient}, fee: ${fee} ALEO`);
+      console.log(`[Wallet] Preparing ${transferKind}: ${amount} ALEO to ${recipient}, fee: ${fee} ALEO`);
 
       // Execute real transfer using Aleo service
       const { aleoService: aleoSvc } = require('./services/aleo.service');
       const txHash = await aleoSvc.transfer({
         privateKey: walletSession.wallet.privateKey,
+        viewKey: walletSession.wallet.viewKey,
         to: recipient,
         amount: amount,
-        fee: fee
+        fee: fee,
+        transferKind
       });
 
       // Record the sent transaction in history
@@ -405,6 +615,7 @@ export function setupIpcHandlers(): void {
         amount: amount,
         fee: fee,
         memo: memo,
+        transferKind
       });
 
       console.log(`[Wallet] Transfer of ${amount} ALEO to ${recipient} initiated: ${txHash}`);
@@ -438,25 +649,52 @@ export function setupIpcHandlers(): void {
         return { success: false, error: 'No wallet found' };
       }
 
-      // Verify password hash
-      const passwordHash = hashPassword(password);
-      if (!constantTimeCompare(passwordHash, encryptedWallet.passwordHash)) {
-        return { success: false, error: 'Invalid password' };
+      // Decrypting verifies the password; a wrong one fails authentication
+      let unlocked;
+      try {
+        unlocked = await openVault(encryptedWallet, password);
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Invalid password' };
+      }
+
+      // Older vault formats are re-encrypted with the current KDF
+      if (unlocked.migrated) {
+        const { passwordHash: _legacyHash, ...metadata } = encryptedWallet;
+        store.set('wallet', { ...metadata, ...unlocked.vault });
+        console.log(`[Wallet] Migrated vault to version ${unlocked.vault.version}`);
       }
 
-      // Decrypt wallet data
-      const decryptedData = decrypt(encryptedWallet.data, password);
-      const walletData: WalletData = JSON.parse(decryptedData);
+      const decryptedData = JSON.parse(unlocked.plaintext);
+      const keyring = parseKeyring(decryptedData);
+
+      // The storage key stays in the keyring so it survives password changes.
+      // Data stored before it existed used the local key, which is still tried.
+      const addStorageKey = !keyring.storageKey;
+      if (addStorageKey) {
+        keyring.storageKey = crypto.randomBytes(32).toString('hex');
+      }
 
       // Update session
-      walletSession.wallet = walletData;
-      walletSession.isLocked = false;
-      walletSession.unlockTime = Date.now();
+      openWalletSession(keyring, unlocked.key, unlocked.salt);
+      const walletData = walletSession.wallet!;
+
+      // Wallets saved before the keyring or its storage key existed are upgraded in place
+      if (!Array.isArray(decryptedData.accounts) || addStorageKey) {
+        saveKeyring();
+        console.log('[Wallet] Upgraded stored keyring');
+      }
 
       // Update last accessed time
       store.set('wallet.lastAccessed', Date.now());
 
-      resetAutoLockTimer();
+      // Encrypted legacy data left behind while locked may open with the wallet's key
+      const { bookmarkService } = require('./services/bookmark.service');
+      const { historyService } = require('./services/history.service');
+      bookmarkService.retryLegacyMigration();
+      historyService.retryLegacyMigration();
+
+      startRecordSync();
+      refreshSiteAccounts(true);
 
       // Initialize transaction history with wallet address
       try {
@@ -475,6 +713,54 @@ export function setupIpcHandlers(): void {
     }
   });
 
+  /**
+   * Change the wallet password, re-encrypting the vault under a new key
+   */
+  ipcMain.handle('wallet:changePassword', async (_event, currentPassword: string, newPassword: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const encryptedWallet: EncryptedWallet | undefined = store.get('wallet');
+      if (!encryptedWallet) {
+        return { success: false, error: 'No wallet found' };
+      }
+
+      if (!newPassword || newPassword.length < 8) {
+        return { success: false, error: 'New password must be at least 8 characters long' };
+      }
+
+      let unlocked;
+      try {
+        unlocked = await openVault(encryptedWallet, currentPassword);
+      } catch {
+        return { success: false, error: 'Current password is incorrect' };
+      }
+      unlocked.key.fill(0);
+
+      const { vault, key, salt } = await createVault(unlocked.plaintext, newPassword);
+      const { passwordHash: _legacyHash, ...metadata } = encryptedWallet;
+      store.set('wallet', { ...metadata, ...vault });
+
+      // Keep an unlocked session able to save keyring changes
+      if (!walletSession.isLocked) {
+        if (walletSession.vaultKey) {
+          secureWipe(walletSession.vaultKey);
+        }
+        walletSession.vaultKey = key;
+        walletSession.vaultSalt = salt;
+        resetAutoLockTimer();
+      } else {
+        key.fill(0);
+      }
+
+      console.log('[Wallet] Password changed');
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to change password'
+      };
+    }
+  });
+
   /**
    * Check if wallet is locked
    */
@@ -483,6 +769,32 @@ export function setupIpcHandlers(): void {
     return { isLocked: walletSession.isLocked, hasWallet };
   });
 
+  /**
+   * Get the auto-lock timeout in minutes (0 = never)
+   */
+  ipcMain.handle('wallet:getAutoLockTimeout', async (): Promise<{ success: boolean; minutes: number }> => {
+    return { success: true, minutes: getAutoLockDuration() / 60000 };
+  });
+
+  /**
+   * Set the auto-lock timeout in minutes (0 = never)
+   */
+  ipcMain.handle('wallet:setAutoLockTimeout', async (_event, minutes: number): Promise<{ success: boolean; error?: string }> => {
+    if (typeof minutes !== 'number' || !Number.isFinite(minutes) || minutes < 0) {
+      return { success: false, error: 'Invalid auto-lock timeout' };
+    }
+
+    store.set('settings.autoLockTimeout', minutes);
+    autoLockDuration = minutes * 60 * 1000;
+
+    // Re-arm with the new duration, counting time already idle
+    if (!walletSession.isLocked) {
+      const duration = getAutoLockDuration();
+      scheduleAutoLock(Math.max(0, duration - (Date.now() - walletSession.lastActivity)));
+    }
+    return { success: true };
+  });
+
   /**
    * Export private key (requires unlocked wallet)
    */
@@ -519,594 +831,1579 @@ export function setupIpcHandlers(): void {
     }
   });
 
+  // ============================================
+  // ACCOUNT (KEYRING) HANDLERS
+  // ============================================
+
+  const { walletService } = require('./services/wallet.service');
+
   /**
-   * Delete wallet (dangerous - requires confirmation)
+   * Make the keyring's selected account the active session account
    */
-  ipcMain.handle('wallet:delete', async (): Promise<{ success: boolean; error?: string }> => {
-    try {
-      // Lock and clear session
-      lockWallet();
+  function activateSelectedAccount(): void {
+    applySelectedAccount();
+    startRecordSync();
+    refreshSiteAccounts();
 
-      // Delete stored wallet
-      store.delete('wallet');
+    try {
+      transactionHistoryService.init(walletSession.wallet!.address, 'testnet');
+    } catch (txErr) {
+      console.error('[Wallet] Failed to init transaction history:', txErr);
+    }
+  }
 
-      console.log('[Wallet] Wallet deleted');
-      return { success: true };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to delete wallet'
-      };
+  /**
+   * List wallet accounts (no key material)
+   */
+  ipcMain.handle('wallet:getAccounts', async (): Promise<{ success: boolean; accounts?: any[]; selectedAccountId?: string; error?: string }> => {
+    if (walletSession.isLocked) {
+      return { success: false, error: 'Wallet is locked' };
     }
+    return {
+      success: true,
+      accounts: walletService.getAccounts(),
+      selectedAccountId: walletService.getSelectedAccount()?.id
+    };
   });
 
   /**
-   * Refresh wallet balance from network
+   * Derive the next account from the wallet's recovery phrase
    */
-  ipcMain.handle('wallet:refreshBalance', async (): Promise<{ success: boolean; public?: number; private?: number; error?: string }> => {
+  ipcMain.handle('wallet:addAccount', async (_event, name?: string): Promise<{ success: boolean; account?: any; error?: string }> => {
     try {
-      if (walletSession.isLocked || !walletSession.wallet) {
+      if (walletSession.isLocked) {
         return { success: false, error: 'Wallet is locked' };
       }
       resetAutoLockTimer();
 
-      const { aleoService: aleoSvc } = require('./services/aleo.service');
-      const balance = await aleoSvc.getBalance(walletSession.wallet.address);
-
-      return { success: true, public: balance.public, private: balance.private };
+      const account = await walletService.addDerivedAccount(name);
+      saveKeyring();
+      return { success: true, account };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to refresh balance'
+        error: error instanceof Error ? error.message : 'Failed to add account'
       };
     }
   });
 
-  // ============================================
-  // BOOKMARKS HANDLERS
-  // ============================================
-
-  /**
-   * Get all bookmarks
-   */
-  ipcMain.handle('bookmarks:getAll', async (): Promise<Bookmark[]> => {
-    return store.get('bookmarks', []);
-  });
-
   /**
-   * Add a bookmark
+   * Add an account from a private key
    */
-  ipcMain.handle('bookmarks:add', async (_event, bookmark: Omit<Bookmark, 'id' | 'createdAt'>): Promise<{ success: boolean; bookmark?: Bookmark; error?: string }> => {
+  ipcMain.handle('wallet:importAccount', async (_event, privateKey: string, name?: string): Promise<{ success: boolean; account?: any; error?: string }> => {
     try {
-      const newBookmark: Bookmark = {
-        ...bookmark,
-        id: uuidv4(),
-        createdAt: Date.now()
-      };
-
-      const bookmarks = store.get('bookmarks', []);
-      bookmarks.push(newBookmark);
-      store.set('bookmarks', bookmarks);
+      if (walletSession.isLocked) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+      resetAutoLockTimer();
 
-      return { success: true, bookmark: newBookmark };
+      const account = await walletService.importAccount(privateKey, name);
+      saveKeyring();
+      return { success: true, account };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to add bookmark'
+        error: error instanceof Error ? error.message : 'Failed to import account'
       };
     }
   });
 
   /**
-   * Update a bookmark
+   * Switch the active account
    */
-  ipcMain.handle('bookmarks:update', async (_event, id: string, updates: Partial<Bookmark>): Promise<{ success: boolean; error?: string }> => {
+  ipcMain.handle('wallet:selectAccount', async (_event, accountId: string): Promise<{ success: boolean; address?: string; error?: string }> => {
     try {
-      const bookmarks = store.get('bookmarks', []);
-      const index = bookmarks.findIndex((b: Bookmark) => b.id === id);
-
-      if (index === -1) {
-        return { success: false, error: 'Bookmark not found' };
+      if (walletSession.isLocked) {
+        return { success: false, error: 'Wallet is locked' };
       }
+      resetAutoLockTimer();
 
-      bookmarks[index] = { ...bookmarks[index], ...updates };
-      store.set('bookmarks', bookmarks);
+      const account = walletService.selectAccount(accountId);
+      saveKeyring();
+      activateSelectedAccount();
 
-      return { success: true };
+      return { success: true, address: account.address };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to update bookmark'
+        error: error instanceof Error ? error.message : 'Failed to switch account'
       };
     }
   });
 
   /**
-   * Delete a bookmark
+   * Rename an account
    */
-  ipcMain.handle('bookmarks:delete', async (_event, id: string): Promise<{ success: boolean; error?: string }> => {
+  ipcMain.handle('wallet:renameAccount', async (_event, accountId: string, name: string): Promise<{ success: boolean; error?: string }> => {
     try {
-      const bookmarks = store.get('bookmarks', []);
-      const filtered = bookmarks.filter((b: Bookmark) => b.id !== id);
-
-      if (filtered.length === bookmarks.length) {
-        return { success: false, error: 'Bookmark not found' };
+      if (walletSession.isLocked) {
+        return { success: false, error: 'Wallet is locked' };
       }
 
-      store.set('bookmarks', filtered);
+      walletService.renameAccount(accountId, name);
+      saveKeyring();
       return { success: true };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to delete bookmark'
+        error: error instanceof Error ? error.message : 'Failed to rename account'
       };
     }
   });
 
   /**
-   * Sync a single bookmark to Aleo blockchain
-   * Encrypts bookmark data client-side and stores on-chain using bookmark_v1.aleo
+   * Remove an account. Sites bound to it fall back to the selected account.
    */
-  ipcMain.handle('bookmarks:syncToAleo', async (_event, bookmarkId?: string): Promise<{ success: boolean; txHash?: string; error?: string }> => {
+  ipcMain.handle('wallet:removeAccount', async (_event, accountId: string): Promise<{ success: boolean; error?: string }> => {
     try {
-      if (walletSession.isLocked || !walletSession.wallet) {
+      if (walletSession.isLocked) {
         return { success: false, error: 'Wallet is locked' };
       }
+      resetAutoLockTimer();
 
-      const bookmarks = store.get('bookmarks', []);
-
-      // If bookmarkId provided, sync just that one; otherwise sync all aleoPinned bookmarks
-      const toSync = bookmarkId
-        ? bookmarks.filter((b: Bookmark) => b.id === bookmarkId)
-        : bookmarks.filter((b: Bookmark) => b.aleoPinned);
-
-      if (toSync.length === 0) {
-        return { success: false, error: 'No bookmarks to sync' };
-      }
-
-      const { aleoService: aleoSvc } = require('./services/aleo.service');
-      const results: string[] = [];
-
-      for (const bookmark of toSync) {
-        // Generate a unique field ID from bookmark ID
-        const bookmarkIdHash = hashPassword(bookmark.id).substring(0, 16);
-        const bookmarkIdField = `${parseInt(bookmarkIdHash, 16) % 10000000000}field`;
-
-        // Encrypt URL and title to fields (simple hash-based encryption for demo)
-        const urlHash = hashPassword(bookmark.url).substring(0, 16);
-        const titleHash = hashPassword(bookmark.title).substring(0, 16);
-        const encryptedUrl = `${parseInt(urlHash, 16) % 10000000000}field`;
-        const encryptedTitle = `${parseInt(titleHash, 16) % 10000000000}field`;
-
-        // Timestamp
-        const createdAt = `${Math.floor(bookmark.createdAt / 1000)}u32`;
-
-        try {
-          const txHash = await aleoSvc.executeProgram({
-            programId: 'bookmark_v1.aleo',
-            functionName: 'add_bookmark',
-            inputs: [bookmarkIdField, encryptedUrl, encryptedTitle, createdAt],
-            fee: 0.1,
-            privateKey: walletSession.wallet!.privateKey,
-          });
-
-          // Record the transaction in history
-          transactionHistoryService.recordExecuteTransaction({
-            txId: txHash,
-            programId: 'bookmark_v1.aleo',
-            functionName: 'add_bookmark',
-            fee: 0.1,
-          });
-
-          results.push(txHash);
-          console.log(`[Bookmark Sync] Synced bookmark ${bookmark.id}: ${txHash}`);
-        } catch (err) {
-          console.error(`[Bookmark Sync] Failed to sync bookmark ${bookmark.id}:`, err);
-        }
-      }
+      const wasSelected = walletService.getSelectedAccount()?.id === accountId;
+      walletService.removeAccount(accountId);
+      saveKeyring();
 
-      if (results.length === 0) {
-        return { success: false, error: 'Failed to sync any bookmarks' };
+      if (wasSelected) {
+        activateSelectedAccount();
+      } else {
+        refreshSiteAccounts();
       }
 
-      console.log(`[Bookmark Sync] Synced ${results.length} bookmarks to Aleo blockchain`);
-      return { success: true, txHash: results[0] };
+      return { success: true };
     } catch (error) {
-      console.error('[Bookmark Sync] Error:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to sync bookmarks'
+        error: error instanceof Error ? error.message : 'Failed to remove account'
       };
     }
   });
 
   /**
-   * Pin bookmark for Aleo sync
+   * Delete wallet (dangerous - requires confirmation)
    */
-  ipcMain.handle('bookmarks:pinToAleo', async (_event, id: string, pinned: boolean): Promise<{ success: boolean; error?: string }> => {
+  ipcMain.handle('wallet:delete', async (): Promise<{ success: boolean; error?: string }> => {
     try {
-      const bookmarks = store.get('bookmarks', []);
-      const index = bookmarks.findIndex((b: Bookmark) => b.id === id);
+      // Lock and clear session
+      lockWallet();
+
+      // Delete stored wallet
+      store.delete('wallet');
+
+      // Drop the local record index
+      const { recordScannerService } = require('./services/record-scanner.service');
+      recordScannerService.clearAll();
+
+      console.log('[Wallet] Wallet deleted');
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete wallet'
+      };
+    }
+  });
+
+  // ============================================
+  // BACKUP HANDLERS
+  // ============================================
+
+  /**
+   * Export an encrypted backup of the unlocked wallet to a file chosen by the user
+   * @param addressBook - Address book entries, which live in renderer storage
+   */
+  ipcMain.handle('backup:export', async (_event, password: string, addressBook: any[]): Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }> => {
+    try {
+      if (walletSession.isLocked) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+      resetAutoLockTimer();
+
+      const { backupService } = require('./services/backup.service');
+      const content = await backupService.createBackup(addressBook, password);
+
+      const { dialog } = getElectron();
+      const { getMainWindow } = require('./window');
+      const date = new Date().toISOString().slice(0, 10);
+      const result = await dialog.showSaveDialog(getMainWindow(), {
+        title: 'Save Wallet Backup',
+        defaultPath: `aleo-wallet-backup-${date}.json`,
+        filters: [{ name: 'Wallet Backup', extensions: ['json'] }]
+      });
+
+      if (result.canceled || !result.filePath) {
+        return { success: false, canceled: true };
+      }
+
+      await fs.writeFile(result.filePath, content, { encoding: 'utf8', mode: 0o600 });
+      console.log('[Wallet] Backup exported');
+      return { success: true, filePath: result.filePath };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to export backup'
+      };
+    }
+  });
+
+  /**
+   * Restore a backup file chosen by the user. Merges into the unlocked wallet,
+   * or becomes the wallet (protected by the backup password) when none exists.
+   * @param addressBook - Current address book entries from renderer storage
+   */
+  ipcMain.handle('backup:import', async (_event, password: string, addressBook: any[]): Promise<{ success: boolean; report?: any; addressBook?: any[]; canceled?: boolean; error?: string }> => {
+    try {
+      const hasWallet = !!store.get('wallet');
+      if (hasWallet && walletSession.isLocked) {
+        return { success: false, error: 'Unlock your wallet to restore a backup into it' };
+      }
+
+      const { dialog } = getElectron();
+      const { getMainWindow } = require('./window');
+      const result = await dialog.showOpenDialog(getMainWindow(), {
+        title: 'Restore Wallet Backup',
+        properties: ['openFile'],
+        filters: [{ name: 'Wallet Backup', extensions: ['json'] }]
+      });
+
+      if (result.canceled || result.filePaths.length === 0) {
+        return { success: false, canceled: true };
+      }
+
+      const { backupService } = require('./services/backup.service');
+      const content = await fs.readFile(result.filePaths[0], 'utf8');
+      const backup = await backupService.readBackup(content, password);
+
+      if (!hasWallet) {
+        await storeNewWallet(backup.keyring, password);
+      }
+
+      const restored = backupService.restoreBackup(backup, addressBook);
+      if (!hasWallet) {
+        restored.report.accounts = { added: backup.keyring.accounts.length, skipped: 0 };
+      }
+
+      saveKeyring();
+      if (!hasWallet) {
+        startRecordSync();
+      }
+      refreshSiteAccounts(true);
+      resetAutoLockTimer();
+
+      console.log('[Wallet] Backup restored');
+      return { success: true, report: restored.report, addressBook: restored.addressBook };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to restore backup'
+      };
+    }
+  });
+
+  /**
+   * Refresh wallet balance from network
+   */
+  ipcMain.handle('wallet:refreshBalance', async (): Promise<{ success: boolean; public?: number; private?: number; privatePending?: number; privateSyncing?: boolean; error?: string }> => {
+    try {
+      if (walletSession.isLocked || !walletSession.wallet) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+      resetAutoLockTimer();
+
+      const { aleoService: aleoSvc } = require('./services/aleo.service');
+      const balance = await aleoSvc.getBalance(walletSession.wallet.address, {
+        viewKey: walletSession.wallet.viewKey,
+        privateKey: walletSession.wallet.privateKey
+      });
+
+      return {
+        success: true,
+        public: balance.public,
+        private: balance.private,
+        privatePending: balance.privatePending,
+        privateSyncing: balance.privateSyncing
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to refresh balance'
+      };
+    }
+  });
+
+  // ============================================
+  // BOOKMARKS HANDLERS
+  // ============================================
+
+  // Bookmarks, folders, ordering and favorites live in one repository
+  const { bookmarkService } = require('./services/bookmark.service');
+
+  /**
+   * Get all bookmarks and folders, in display order
+   */
+  ipcMain.handle('bookmarks:getAll', async (): Promise<BookmarkCollection> => {
+    return bookmarkService.getAll();
+  });
+
+  /**
+   * Add a bookmark
+   */
+  ipcMain.handle('bookmarks:add', async (_event, bookmark: Omit<Bookmark, 'id' | 'createdAt' | 'updatedAt'>): Promise<{ success: boolean; bookmark?: Bookmark; error?: string }> => {
+    try {
+      return { success: true, bookmark: bookmarkService.addBookmark(bookmark) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add bookmark'
+      };
+    }
+  });
+
+  /**
+   * Update a bookmark
+   */
+  ipcMain.handle('bookmarks:update', async (_event, id: string, updates: Partial<Bookmark>): Promise<{ success: boolean; bookmark?: Bookmark; error?: string }> => {
+    try {
+      return { success: true, bookmark: bookmarkService.updateBookmark(id, updates) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update bookmark'
+      };
+    }
+  });
+
+  /**
+   * Delete a bookmark
+   */
+  ipcMain.handle('bookmarks:delete', async (_event, id: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      bookmarkService.deleteBookmark(id);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete bookmark'
+      };
+    }
+  });
+
+  /**
+   * Move a bookmark into a folder at a position
+   * @param index - Position within the folder (end when omitted)
+   */
+  ipcMain.handle('bookmarks:move', async (_event, id: string, folderId: string, index?: number): Promise<{ success: boolean; error?: string }> => {
+    try {
+      bookmarkService.moveBookmark(id, folderId, index);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to move bookmark'
+      };
+    }
+  });
+
+  /**
+   * Create a bookmark folder
+   * @param parentId - Parent folder (root when omitted)
+   */
+  ipcMain.handle('bookmarks:createFolder', async (_event, name: string, parentId?: string): Promise<{ success: boolean; folder?: BookmarkFolder; error?: string }> => {
+    try {
+      return { success: true, folder: bookmarkService.createFolder(name, parentId) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create folder'
+      };
+    }
+  });
+
+  /**
+   * Rename a folder or change whether it is expanded
+   */
+  ipcMain.handle('bookmarks:updateFolder', async (_event, id: string, updates: { name?: string; isExpanded?: boolean }): Promise<{ success: boolean; error?: string }> => {
+    try {
+      bookmarkService.updateFolder(id, updates);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update folder'
+      };
+    }
+  });
+
+  /**
+   * Move a folder under a new parent at a position
+   */
+  ipcMain.handle('bookmarks:moveFolder', async (_event, id: string, parentId?: string, index?: number): Promise<{ success: boolean; error?: string }> => {
+    try {
+      bookmarkService.moveFolder(id, parentId || undefined, index);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to move folder'
+      };
+    }
+  });
+
+  /**
+   * Delete a folder; its contents move up to the parent folder
+   */
+  ipcMain.handle('bookmarks:deleteFolder', async (_event, id: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      bookmarkService.deleteFolder(id);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete folder'
+      };
+    }
+  });
+
+  /**
+   * Import a Netscape bookmark HTML file (Chrome, Firefox, Safari, Edge) or a
+   * JSON export chosen by the user. Duplicate URLs are reported, not imported.
+   */
+  ipcMain.handle('bookmarks:import', async (): Promise<{ success: boolean; result?: BookmarkImportResult; canceled?: boolean; error?: string }> => {
+    try {
+      const { dialog } = getElectron();
+      const { getMainWindow } = require('./window');
+      const dialogResult = await dialog.showOpenDialog(getMainWindow(), {
+        title: 'Import Bookmarks',
+        properties: ['openFile'],
+        filters: [
+          { name: 'Bookmark Files', extensions: ['html', 'htm', 'json'] },
+          { name: 'All Files', extensions: ['*'] }
+        ]
+      });
+
+      if (dialogResult.canceled || dialogResult.filePaths.length === 0) {
+        return { success: false, canceled: true };
+      }
+
+      const content = await fs.readFile(dialogResult.filePaths[0], 'utf8');
+      const result = content.trimStart().startsWith('{')
+        ? bookmarkService.importJson(content)
+        : bookmarkService.importHtml(content);
+
+      return { success: true, result };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to import bookmarks'
+      };
+    }
+  });
+
+  /**
+   * Export all bookmarks to a file chosen by the user
+   * @param format - 'html' for the Netscape format other browsers import,
+   *                 'json' for a lossless copy with tags and favorites
+   */
+  ipcMain.handle('bookmarks:export', async (_event, format: 'html' | 'json'): Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }> => {
+    try {
+      const { dialog } = getElectron();
+      const { getMainWindow } = require('./window');
+      const date = new Date().toISOString().slice(0, 10);
+      const result = await dialog.showSaveDialog(getMainWindow(), {
+        title: 'Export Bookmarks',
+        defaultPath: `aleo-bookmarks-${date}.${format === 'json' ? 'json' : 'html'}`,
+        filters: format === 'json'
+          ? [{ name: 'JSON', extensions: ['json'] }]
+          : [{ name: 'Bookmark HTML', extensions: ['html'] }]
+      });
+
+      if (result.canceled || !result.filePath) {
+        return { success: false, canceled: true };
+      }
+
+      const content = format === 'json' ? bookmarkService.exportJson() : bookmarkService.exportHtml();
+      await fs.writeFile(result.filePath, content, 'utf8');
+      console.log(`[Bookmarks] Exported as ${format}`);
+      return { success: true, filePath: result.filePath };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to export bookmarks'
+      };
+    }
+  });
+
+  /**
+   * Sync Aleo-pinned bookmarks to the blockchain
+   * Each bookmark is encrypted client-side into its own bookmark_v1.aleo records;
+   * edited bookmarks are updated and deleted or unpinned ones removed on-chain
+   * @param bookmarkId - Optional bookmark to pin before syncing
+   */
+  ipcMain.handle('bookmarks:syncToAleo', async (_event, bookmarkId?: string): Promise<{ success: boolean; txHash?: string; result?: any; error?: string }> => {
+    try {
+      if (walletSession.isLocked || !walletSession.wallet) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+      resetAutoLockTimer();
+
+      if (bookmarkId) {
+        bookmarkService.updateBookmark(bookmarkId, { aleoPinned: true });
+      }
+
+      // Folders are synced by path so they can be recreated on restore
+      const { bookmarkSyncService } = require('./services/bookmark-sync.service');
+      const pinned = (bookmarkService.getAll().bookmarks as Bookmark[])
+        .filter(b => b.aleoPinned)
+        .map(b => ({
+          id: b.id,
+          url: b.url,
+          title: b.title,
+          createdAt: b.createdAt,
+          tags: b.tags,
+          folderId: b.folderId && bookmarkService.getFolderPath(b.folderId)
+        }));
+      const result = await bookmarkSyncService.sync(pinned, walletSession.wallet);
+
+      if (result.failed.length > 0 && result.txIds.length === 0) {
+        return { success: false, result, error: result.failed[0].error };
+      }
+
+      return { success: true, txHash: result.txIds[0], result };
+    } catch (error) {
+      console.error('[Bookmark Sync] Error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to sync bookmarks'
+      };
+    }
+  });
+
+  /**
+   * Restore bookmarks from the account's on-chain Bookmark records
+   * Restored bookmarks are added as Aleo-pinned; existing ones (by id or URL) are kept
+   */
+  ipcMain.handle('bookmarks:restoreFromChain', async (): Promise<{ success: boolean; restored?: number; skipped?: number; incomplete?: number; scanComplete?: boolean; error?: string }> => {
+    try {
+      if (walletSession.isLocked || !walletSession.wallet) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+      resetAutoLockTimer();
+
+      const { bookmarkSyncService } = require('./services/bookmark-sync.service');
+      const result = await bookmarkSyncService.restore(walletSession.wallet);
+      const restored: number = bookmarkService.addRestored(result.bookmarks);
+
+      return {
+        success: true,
+        restored,
+        skipped: result.bookmarks.length - restored,
+        incomplete: result.incomplete,
+        scanComplete: result.scanComplete
+      };
+    } catch (error) {
+      console.error('[Bookmark Sync] Restore error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to restore bookmarks'
+      };
+    }
+  });
+
+  /**
+   * Pin bookmark for Aleo sync
+   */
+  ipcMain.handle('bookmarks:pinToAleo', async (_event, id: string, pinned: boolean): Promise<{ success: boolean; error?: string }> => {
+    try {
+      bookmarkService.updateBookmark(id, { aleoPinned: pinned });
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to pin bookmark'
+      };
+    }
+  });
+
+  // ============================================
+  // NOTES HANDLERS (ZK Private Notes)
+  // ============================================
+
+  // In-memory notes store (for local storage before blockchain sync)
+  interface Note {
+    id: string;
+    title: string;
+    content: string;
+    tags: string[];
+    createdAt: number;
+    updatedAt: number;
+    syncedToAleo: boolean;
+    syncStatus?: 'local' | 'syncing' | 'on-chain' | 'failed';
+    txHash?: string;
+    // Encryption data (stored locally for decryption)
+    encryptedData?: {
+      title: EncryptedData;
+      content: EncryptedData;
+      tags: EncryptedData;
+    };
+    isEncrypted?: boolean;
+    keyVersion?: number; // Notes key version of encryptedData (missing: raw private key)
+    attachments?: NoteAttachment[];
+  }
+
+  // Images and PDFs kept with notes, encrypted like the synced note payload
+  const { noteAttachmentService, ATTACHMENT_TYPES } = require('./services/note-attachment.service');
+  const { keyHierarchyService } = require('./services/key-hierarchy.service');
+
+  /**
+   * Encrypt a note's fields for local storage with the current notes key
+   */
+  const encryptNoteFields = (note: Note, wallet: WalletData): Pick<Note, 'encryptedData' | 'keyVersion' | 'isEncrypted'> => {
+    const keyVersion: number = keyHierarchyService.getVersion(wallet.address, 'notes');
+    const key = keyHierarchyService.getKey(wallet, 'notes', keyVersion).toString('hex');
+    return {
+      encryptedData: {
+        title: encrypt(note.title, key),
+        content: encrypt(note.content, key),
+        tags: encrypt(JSON.stringify(note.tags || []), key),
+      },
+      keyVersion,
+      isEncrypted: true,
+    };
+  };
+
+  /**
+   * Key a note's local encrypted fields were written with
+   */
+  const noteDecryptionKey = (note: Note, wallet: WalletData): string => {
+    // Earlier releases used the private key string itself
+    return note.keyVersion
+      ? keyHierarchyService.getKey(wallet, 'notes', note.keyVersion).toString('hex')
+      : wallet.privateKey;
+  };
+
+  /**
+   * Get all notes
+   */
+  ipcMain.handle('notes:getAll', async (): Promise<Note[]> => {
+    return store.get('notes', []);
+  });
+
+  /**
+   * Add a new note
+   */
+  ipcMain.handle('notes:add', async (_event, note: { title: string; content: string; tags?: string[] }): Promise<{ success: boolean; note?: Note; error?: string }> => {
+    try {
+      const newNote: Note = {
+        id: uuidv4(),
+        title: note.title,
+        content: note.content,
+        tags: note.tags || [],
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        syncedToAleo: false,
+        syncStatus: 'local' as const,
+      };
+
+      const notes = store.get('notes', []);
+      notes.push(newNote);
+      store.set('notes', notes);
+
+      // Auto-sync to blockchain if wallet is unlocked
+      if (walletSession.wallet && !walletSession.isLocked) {
+        console.log('[Notes] Auto-syncing new note to Aleo blockchain...');
+
+        // Update status to syncing
+        const notesUpdated = store.get('notes', []);
+        const idx = notesUpdated.findIndex((n: Note) => n.id === newNote.id);
+        if (idx !== -1) {
+          notesUpdated[idx].syncStatus = 'syncing';
+          store.set('notes', notesUpdated);
+        }
+
+        // Sync in background (don't block the response)
+        (async () => {
+          try {
+            // ============================================
+            // REAL AES-256-GCM ENCRYPTION
+            // ============================================
+            console.log('[Notes] Encrypting note with AES-256-GCM...');
+
+            // Encrypt title, content, and tags with the notes data key
+            const encrypted = encryptNoteFields(newNote, walletSession.wallet!);
+
+            console.log('[Notes] Note encrypted successfully');
+
+            // Store encrypted data locally for future decryption
+            const notesForEncryption = store.get('notes', []);
+            const encIdx = notesForEncryption.findIndex((n: Note) => n.id === newNote.id);
+            if (encIdx !== -1) {
+              notesForEncryption[encIdx] = { ...notesForEncryption[encIdx], ...encrypted };
+              store.set('notes', notesForEncryption);
+            }
+
+            // Full ciphertext goes on-chain, chunked into Note records
+            console.log('[Notes] Syncing note to privacybrowser_notes_v1.aleo...');
+            const { noteSyncService } = require('./services/note-sync.service');
+            const outcome = await noteSyncService.sync(newNote, walletSession.wallet!);
+            const txHash = outcome.txIds[outcome.txIds.length - 1];
+
+            console.log('[Notes] Transactions submitted:', outcome.txIds);
+
+            // Update note status to on-chain
+            const notesAfterSync = store.get('notes', []);
+            const noteIdx = notesAfterSync.findIndex((n: Note) => n.id === newNote.id);
+            if (noteIdx !== -1) {
+              notesAfterSync[noteIdx].syncedToAleo = true;
+              notesAfterSync[noteIdx].syncStatus = 'on-chain';
+              notesAfterSync[noteIdx].txHash = txHash;
+              store.set('notes', notesAfterSync);
+            }
+
+            console.log(`[Notes] Successfully synced encrypted note ${newNote.id} to Aleo`);
+          } catch (syncError) {
+            console.error('[Notes] Auto-sync failed:', syncError);
+            // Update status to failed
+            const notesAfterFail = store.get('notes', []);
+            const noteIdx = notesAfterFail.findIndex((n: Note) => n.id === newNote.id);
+            if (noteIdx !== -1) {
+              notesAfterFail[noteIdx].syncStatus = 'failed';
+              store.set('notes', notesAfterFail);
+            }
+          }
+        })();
+      }
+
+      return { success: true, note: newNote };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add note'
+      };
+    }
+  });
+
+  /**
+   * Update an existing note
+   */
+  ipcMain.handle('notes:update', async (_event, id: string, updates: Partial<Note>): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const notes = store.get('notes', []);
+      const index = notes.findIndex((n: Note) => n.id === id);
+
+      if (index === -1) {
+        return { success: false, error: 'Note not found' };
+      }
+
+      notes[index] = {
+        ...notes[index],
+        ...updates,
+        updatedAt: Date.now(),
+        syncedToAleo: false, // Mark as needing re-sync
+      };
+      store.set('notes', notes);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update note'
+      };
+    }
+  });
+
+  /**
+   * Delete a note
+   */
+  ipcMain.handle('notes:delete', async (_event, id: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const notes = store.get('notes', []);
+      const filtered = notes.filter((n: Note) => n.id !== id);
+
+      if (filtered.length === notes.length) {
+        return { success: false, error: 'Note not found' };
+      }
+
+      store.set('notes', filtered);
+      noteAttachmentService.removeAll(id);
+
+      // Consume the note's records so it is not restored later
+      const deleted = notes.find((n: Note) => n.id === id);
+      if (deleted?.syncedToAleo && walletSession.wallet && !walletSession.isLocked) {
+        const { noteSyncService } = require('./services/note-sync.service');
+        noteSyncService.remove(id, walletSession.wallet).catch((error: unknown) => {
+          console.error('[Notes] Failed to delete note on-chain:', error);
+        });
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete note'
+      };
+    }
+  });
+
+  /**
+   * Decrypt a note's encrypted data
+   * Requires wallet to be unlocked (uses the notes data key for decryption)
+   */
+  ipcMain.handle('notes:decrypt', async (_event, noteId: string): Promise<{ success: boolean; decryptedNote?: { title: string; content: string; tags: string[] }; error?: string }> => {
+    try {
+      if (walletSession.isLocked || !walletSession.wallet) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+
+      const notes = store.get('notes', []);
+      const note = notes.find((n: Note) => n.id === noteId);
+
+      if (!note) {
+        return { success: false, error: 'Note not found' };
+      }
+
+      if (!note.encryptedData || !note.isEncrypted) {
+        // Note not encrypted, return plaintext
+        return {
+          success: true,
+          decryptedNote: {
+            title: note.title,
+            content: note.content,
+            tags: note.tags || [],
+          },
+        };
+      }
+
+      const decryptionKey = noteDecryptionKey(note, walletSession.wallet!);
+
+      const decryptedTitle = decrypt(note.encryptedData.title, decryptionKey);
+      const decryptedContent = decrypt(note.encryptedData.content, decryptionKey);
+      const decryptedTags = JSON.parse(decrypt(note.encryptedData.tags, decryptionKey));
+
+      console.log(`[Notes] Decrypted note ${noteId} successfully`);
+
+      return {
+        success: true,
+        decryptedNote: {
+          title: decryptedTitle,
+          content: decryptedContent,
+          tags: decryptedTags,
+        },
+      };
+    } catch (error) {
+      console.error('[Notes] Decryption failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to decrypt note',
+      };
+    }
+  });
+
+  /**
+   * Sync a note to Aleo blockchain using notes_v1.aleo contract
+   * The encrypted note is stored losslessly, so it can be restored from chain
+   */
+  ipcMain.handle('notes:syncToAleo', async (_event, noteId: string): Promise<{ success: boolean; txHash?: string; error?: string }> => {
+    try {
+      if (walletSession.isLocked || !walletSession.wallet) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+
+      const notes = store.get('notes', []);
+      const note = notes.find((n: Note) => n.id === noteId);
+
+      if (!note) {
+        return { success: false, error: 'Note not found' };
+      }
+
+      // ============================================
+      // REAL AES-256-GCM ENCRYPTION
+      // ============================================
+      console.log('[Notes Sync] Encrypting note with AES-256-GCM...');
+
+      // Store encrypted data locally for future decryption
+      const noteIndex = notes.findIndex((n: Note) => n.id === noteId);
+      if (noteIndex !== -1) {
+        notes[noteIndex] = { ...notes[noteIndex], ...encryptNoteFields(note, walletSession.wallet!) };
+      }
+
+      console.log('[Notes Sync] Submitting encrypted note to Aleo...');
+
+      // Full ciphertext goes on-chain, chunked into Note records
+      const { noteSyncService } = require('./services/note-sync.service');
+      const outcome = await noteSyncService.sync(note, walletSession.wallet!);
+      if (outcome.status === 'pending') {
+        store.set('notes', notes);
+        return { success: false, error: 'Previous sync of this note is not confirmed yet' };
+      }
+      const txHash = outcome.txIds[outcome.txIds.length - 1] || note.txHash;
+
+      // Mark note as synced
+      if (noteIndex !== -1) {
+        notes[noteIndex].syncedToAleo = true;
+        notes[noteIndex].syncStatus = 'on-chain';
+        notes[noteIndex].txHash = txHash;
+        store.set('notes', notes);
+      }
+
+      console.log(`[Notes Sync] Synced encrypted note ${noteId}: ${txHash}`);
+      return { success: true, txHash };
+    } catch (error) {
+      console.error('[Notes Sync] Error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to sync note'
+      };
+    }
+  });
+
+  /**
+   * Restore notes from the account's on-chain Note records
+   * Notes that already exist locally are kept as they are
+   */
+  ipcMain.handle('notes:restoreFromChain', async (): Promise<{ success: boolean; restored?: number; skipped?: number; incomplete?: number; scanComplete?: boolean; error?: string }> => {
+    try {
+      if (walletSession.isLocked || !walletSession.wallet) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+      resetAutoLockTimer();
+
+      const { noteSyncService } = require('./services/note-sync.service');
+      const result = await noteSyncService.restore(walletSession.wallet);
+
+      const notes: Note[] = store.get('notes', []);
+      let restored = 0;
+      for (const note of result.notes) {
+        if (notes.some(n => n.id === note.id)) {
+          continue;
+        }
+        notes.push({ ...note, syncedToAleo: true, syncStatus: 'on-chain' });
+        restored++;
+      }
+      store.set('notes', notes);
+
+      return {
+        success: true,
+        restored,
+        skipped: result.notes.length - restored,
+        incomplete: result.incomplete,
+        scanComplete: result.scanComplete
+      };
+    } catch (error) {
+      console.error('[Notes Sync] Restore error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to restore notes'
+      };
+    }
+  });
+
+  /**
+   * Share a private copy of a note with another address (transfer_note)
+   * The copy is sent once its records are confirmed; see notes:getShares
+   */
+  ipcMain.handle('notes:share', async (_event, noteId: string, recipient: string): Promise<{ success: boolean; share?: NoteShare; error?: string }> => {
+    try {
+      if (walletSession.isLocked || !walletSession.wallet) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+      resetAutoLockTimer();
+
+      const note = store.get('notes', []).find((n: Note) => n.id === noteId);
+      if (!note) {
+        return { success: false, error: 'Note not found' };
+      }
+
+      const { noteSyncService } = require('./services/note-sync.service');
+      const share = await noteSyncService.share(note, recipient, walletSession.wallet);
+      return { success: true, share };
+    } catch (error) {
+      console.error('[Notes Sync] Share error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to share note'
+      };
+    }
+  });
+
+  /**
+   * List notes shared by this account, sending those whose copies are confirmed
+   */
+  ipcMain.handle('notes:getShares', async (): Promise<{ success: boolean; shares?: NoteShare[]; error?: string }> => {
+    try {
+      if (walletSession.isLocked || !walletSession.wallet) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+
+      const { noteSyncService } = require('./services/note-sync.service');
+      const shares = await noteSyncService.sendPendingShares(walletSession.wallet);
+      return { success: true, shares };
+    } catch (error) {
+      console.error('[Notes Sync] Share transfer error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to send shared notes'
+      };
+    }
+  });
+
+  /**
+   * Notes other addresses shared with this account
+   */
+  ipcMain.handle('notes:getInbox', async (): Promise<{ success: boolean; notes?: ReceivedNote[]; incomplete?: number; unreadable?: number; scanComplete?: boolean; error?: string }> => {
+    try {
+      if (walletSession.isLocked || !walletSession.wallet) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+      resetAutoLockTimer();
+
+      const { noteSyncService } = require('./services/note-sync.service');
+      const inbox = await noteSyncService.getInbox(walletSession.wallet);
+      return { success: true, ...inbox };
+    } catch (error) {
+      console.error('[Notes Sync] Inbox error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load shared notes'
+      };
+    }
+  });
+
+  /**
+   * Remove a received note from the inbox by consuming its records
+   */
+  ipcMain.handle('notes:removeReceived', async (_event, chainId: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      if (walletSession.isLocked || !walletSession.wallet) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+      resetAutoLockTimer();
+
+      const { noteSyncService } = require('./services/note-sync.service');
+      await noteSyncService.removeReceived(chainId, walletSession.wallet);
+      return { success: true };
+    } catch (error) {
+      console.error('[Notes Sync] Remove received note error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to remove shared note'
+      };
+    }
+  });
+
+  /**
+   * Attach an image or PDF chosen by the user to a saved note
+   */
+  ipcMain.handle('notes:addAttachment', async (_event, noteId: string): Promise<{ success: boolean; attachment?: NoteAttachment; canceled?: boolean; error?: string }> => {
+    try {
+      if (walletSession.isLocked || !walletSession.wallet) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+
+      const notes: Note[] = store.get('notes', []);
+      const note = notes.find(n => n.id === noteId);
+      if (!note) {
+        return { success: false, error: 'Note not found' };
+      }
+
+      const { dialog } = getElectron();
+      const { getMainWindow } = require('./window');
+      const dialogResult = await dialog.showOpenDialog(getMainWindow(), {
+        title: 'Attach File',
+        properties: ['openFile'],
+        filters: [{ name: 'Images and PDFs', extensions: Object.keys(ATTACHMENT_TYPES) }]
+      });
+
+      if (dialogResult.canceled || dialogResult.filePaths.length === 0) {
+        return { success: false, canceled: true };
+      }
+
+      const filePath = dialogResult.filePaths[0];
+      const data = await fs.readFile(filePath);
+      const attachment = noteAttachmentService.add(
+        noteId,
+        { name: require('path').basename(filePath), data },
+        note.attachments || [],
+        walletSession.wallet
+      );
+
+      note.attachments = [...(note.attachments || []), attachment];
+      note.updatedAt = Date.now();
+      store.set('notes', notes);
+      resetAutoLockTimer();
+
+      return { success: true, attachment };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to attach file'
+      };
+    }
+  });
 
-      if (index === -1) {
-        return { success: false, error: 'Bookmark not found' };
+  /**
+   * Decrypt an attachment for display, as a data URL
+   */
+  ipcMain.handle('notes:getAttachment', async (_event, noteId: string, attachmentId: string): Promise<{ success: boolean; dataUrl?: string; error?: string }> => {
+    try {
+      if (walletSession.isLocked || !walletSession.wallet) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+
+      const note = (store.get('notes', []) as Note[]).find(n => n.id === noteId);
+      const attachment = note?.attachments?.find(a => a.id === attachmentId);
+      if (!attachment) {
+        return { success: false, error: 'Attachment not found' };
+      }
+
+      const data: Buffer = noteAttachmentService.read(noteId, attachmentId, walletSession.wallet);
+      return { success: true, dataUrl: `data:${attachment.mimeType};base64,${data.toString('base64')}` };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to read attachment'
+      };
+    }
+  });
+
+  /**
+   * Save a decrypted copy of an attachment where the user chooses
+   */
+  ipcMain.handle('notes:saveAttachment', async (_event, noteId: string, attachmentId: string): Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }> => {
+    try {
+      if (walletSession.isLocked || !walletSession.wallet) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+
+      const note = (store.get('notes', []) as Note[]).find(n => n.id === noteId);
+      const attachment = note?.attachments?.find(a => a.id === attachmentId);
+      if (!attachment) {
+        return { success: false, error: 'Attachment not found' };
+      }
+
+      const data: Buffer = noteAttachmentService.read(noteId, attachmentId, walletSession.wallet);
+
+      const { dialog } = getElectron();
+      const { getMainWindow } = require('./window');
+      const result = await dialog.showSaveDialog(getMainWindow(), {
+        title: 'Save Attachment',
+        defaultPath: attachment.name
+      });
+
+      if (result.canceled || !result.filePath) {
+        return { success: false, canceled: true };
+      }
+
+      await fs.writeFile(result.filePath, data);
+      return { success: true, filePath: result.filePath };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save attachment'
+      };
+    }
+  });
+
+  /**
+   * Remove an attachment from a note
+   */
+  ipcMain.handle('notes:removeAttachment', async (_event, noteId: string, attachmentId: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const notes: Note[] = store.get('notes', []);
+      const note = notes.find(n => n.id === noteId);
+      if (!note?.attachments?.some(a => a.id === attachmentId)) {
+        return { success: false, error: 'Attachment not found' };
       }
 
-      bookmarks[index].aleoPinned = pinned;
-      store.set('bookmarks', bookmarks);
+      noteAttachmentService.remove(noteId, attachmentId);
+      note.attachments = note.attachments.filter(a => a.id !== attachmentId);
+      note.updatedAt = Date.now();
+      store.set('notes', notes);
 
       return { success: true };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to pin bookmark'
+        error: error instanceof Error ? error.message : 'Failed to remove attachment'
+      };
+    }
+  });
+
+  /**
+   * Address, title and selected text of the active tab, for clipping into a note
+   */
+  ipcMain.handle('notes:clipPage', async (): Promise<{ success: boolean; clip?: PageClip; error?: string }> => {
+    try {
+      const { getActiveBrowserView } = require('./window');
+      const view = getActiveBrowserView();
+      const url: string = view?.webContents.getURL() || '';
+
+      if (!view || !/^https?:/.test(url)) {
+        return { success: false, error: 'Open a web page to clip it' };
+      }
+
+      // Isolated world: the page cannot see or tamper with this script
+      const selection = await view.webContents.executeJavaScriptInIsolatedWorld(999, [
+        { code: 'window.getSelection ? window.getSelection().toString() : ""' }
+      ]);
+
+      return {
+        success: true,
+        clip: { url, title: view.webContents.getTitle() || url, selection: String(selection || '').trim() }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to clip page'
       };
     }
   });
 
   // ============================================
-  // NOTES HANDLERS (ZK Private Notes)
+  // CREDENTIALS HANDLERS (Password Manager)
   // ============================================
 
-  // In-memory notes store (for local storage before blockchain sync)
-  interface Note {
-    id: string;
-    title: string;
-    content: string;
-    tags: string[];
-    createdAt: number;
-    updatedAt: number;
-    syncedToAleo: boolean;
-    syncStatus?: 'local' | 'syncing' | 'on-chain' | 'failed';
-    txHash?: string;
-    // Encryption data (stored locally for decryption)
-    encryptedData?: {
-      title: EncryptedData;
-      content: EncryptedData;
-      tags: EncryptedData;
-    };
-    isEncrypted?: boolean;
-  }
+  const { credentialService, toOrigin } = require('./services/credential.service');
 
   /**
-   * Get all notes
+   * Origin of the top-level page in a browser tab that sent a message.
+   * Returns null for the browser UI, subframes and non-http(s) pages, so
+   * logins are never offered to anything but the site they belong to.
    */
-  ipcMain.handle('notes:getAll', async (): Promise<Note[]> => {
-    return store.get('notes', []);
-  });
+  function getTabPageOrigin(event: Electron.IpcMainInvokeEvent): string | null {
+    const isTab = getTabContents(() => true).includes(event.sender);
+    if (!isTab || event.senderFrame !== event.sender.mainFrame) {
+      return null;
+    }
+
+    try {
+      return toOrigin(event.sender.getURL());
+    } catch {
+      return null;
+    }
+  }
 
   /**
-   * Add a new note
+   * List saved logins (without passwords)
    */
-  ipcMain.handle('notes:add', async (_event, note: { title: string; content: string; tags?: string[] }): Promise<{ success: boolean; note?: Note; error?: string }> => {
+  ipcMain.handle('credentials:list', async (_event, query?: string): Promise<{ success: boolean; credentials?: any[]; error?: string }> => {
     try {
-      const newNote: Note = {
-        id: uuidv4(),
-        title: note.title,
-        content: note.content,
-        tags: note.tags || [],
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
-        syncedToAleo: false,
-        syncStatus: 'local' as const,
+      if (walletSession.isLocked || !walletSession.wallet) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+      resetAutoLockTimer();
+
+      return { success: true, credentials: credentialService.list(walletSession.wallet, query) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load credentials'
       };
+    }
+  });
 
-      const notes = store.get('notes', []);
-      notes.push(newNote);
-      store.set('notes', notes);
+  /**
+   * Get one login including its password
+   */
+  ipcMain.handle('credentials:get', async (_event, id: string): Promise<{ success: boolean; credential?: any; error?: string }> => {
+    try {
+      if (walletSession.isLocked || !walletSession.wallet) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+      resetAutoLockTimer();
 
-      // Auto-sync to blockchain if wallet is unlocked
-      if (walletSession.wallet && !walletSession.isLocked) {
-        console.log('[Notes] Auto-syncing new note to Aleo blockchain...');
+      const credential = credentialService.get(walletSession.wallet, id);
+      if (!credential) {
+        return { success: false, error: 'Credential not found' };
+      }
+      return { success: true, credential };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load credential'
+      };
+    }
+  });
 
-        // Update status to syncing
-        const notesUpdated = store.get('notes', []);
-        const idx = notesUpdated.findIndex((n: Note) => n.id === newNote.id);
-        if (idx !== -1) {
-          notesUpdated[idx].syncStatus = 'syncing';
-          store.set('notes', notesUpdated);
-        }
+  ipcMain.handle('credentials:add', async (_event, input: { origin: string; username: string; password: string; notes?: string }): Promise<{ success: boolean; credential?: any; error?: string }> => {
+    try {
+      if (walletSession.isLocked || !walletSession.wallet) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+      resetAutoLockTimer();
 
-        // Sync in background (don't block the response)
-        (async () => {
-          try {
-            const { aleoService: aleoSvc } = require('./services/aleo.service');
+      return { success: true, credential: credentialService.add(walletSession.wallet, input) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save credential'
+      };
+    }
+  });
 
-            // ============================================
-            // REAL AES-256-GCM ENCRYPTION
-            // ============================================
-            // Derive encryption key from wallet private key
-            const encryptionKey = walletSession.wallet!.privateKey;
+  ipcMain.handle('credentials:update', async (_event, id: string, updates: { origin?: string; username?: string; password?: string; notes?: string }): Promise<{ success: boolean; credential?: any; error?: string }> => {
+    try {
+      if (walletSession.isLocked || !walletSession.wallet) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+      resetAutoLockTimer();
 
-            console.log('[Notes] Encrypting note with AES-256-GCM...');
+      return { success: true, credential: credentialService.update(walletSession.wallet, id, updates) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update credential'
+      };
+    }
+  });
 
-            // Encrypt title, content, and tags with real encryption
-            const encryptedTitleData = encrypt(newNote.title, encryptionKey);
-            const encryptedContentData = encrypt(newNote.content, encryptionKey);
-            const encryptedTagsData = encrypt(JSON.stringify(newNote.tags || []), encryptionKey);
+  /**
+   * Delete a login; synced logins are also removed on-chain in the background
+   */
+  ipcMain.handle('credentials:delete', async (_event, id: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      if (walletSession.isLocked || !walletSession.wallet) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+      resetAutoLockTimer();
 
-            console.log('[Notes] Note encrypted successfully');
+      const wallet = walletSession.wallet;
+      if (!credentialService.remove(wallet, id)) {
+        return { success: false, error: 'Credential not found' };
+      }
 
-            // Store encrypted data locally for future decryption
-            const notesForEncryption = store.get('notes', []);
-            const encIdx = notesForEncryption.findIndex((n: Note) => n.id === newNote.id);
-            if (encIdx !== -1) {
-              notesForEncryption[encIdx].encryptedData = {
-                title: encryptedTitleData,
-                content: encryptedContentData,
-                tags: encryptedTagsData,
-              };
-              notesForEncryption[encIdx].isEncrypted = true;
-              store.set('notes', notesForEncryption);
-            }
+      if (credentialService.isSynced(wallet.address, id)) {
+        credentialService.removeFromChain(wallet, id).catch((error: unknown) => {
+          console.error('[Credentials] Failed to delete credential on-chain:', error);
+        });
+      }
 
-            // Generate field values for on-chain storage
-            // Use hash of encrypted ciphertext as unique identifier (verifiable on-chain)
-            const noteIdField = `${BigInt('0x' + hashPassword(newNote.id).substring(0, 15)) % BigInt('10000000000')}field`;
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete credential'
+      };
+    }
+  });
 
-            // Hash of encrypted ciphertext (proves encryption happened, verifiable)
-            const titleCipherHash = hashPassword(encryptedTitleData.encrypted).substring(0, 15);
-            const encryptedTitleField = `${BigInt('0x' + titleCipherHash) % BigInt('10000000000')}field`;
+  ipcMain.handle('credentials:generatePassword', async (_event, options?: { length?: number; uppercase?: boolean; lowercase?: boolean; numbers?: boolean; symbols?: boolean }): Promise<{ success: boolean; password?: string; strength?: any; error?: string }> => {
+    try {
+      return { success: true, ...credentialService.generatePassword(options) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to generate password'
+      };
+    }
+  });
 
-            const contentCipherHash = hashPassword(encryptedContentData.encrypted).substring(0, 15);
-            const encryptedContentField = `${BigInt('0x' + contentCipherHash) % BigInt('10000000000')}field`;
+  ipcMain.handle('credentials:checkStrength', async (_event, password: string) => {
+    const { verifyPasswordStrength } = require('./utils/crypto');
+    return verifyPasswordStrength(password || '');
+  });
 
-            const tagsCipherHash = hashPassword(encryptedTagsData.encrypted).substring(0, 15);
-            const encryptedTagsField = `${BigInt('0x' + tagsCipherHash) % BigInt('10000000000')}field`;
+  /**
+   * Store a login in privacybrowser_credentials_v1.aleo
+   */
+  ipcMain.handle('credentials:syncToAleo', async (_event, id: string): Promise<{ success: boolean; txHash?: string; status?: string; error?: string }> => {
+    try {
+      if (walletSession.isLocked || !walletSession.wallet) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+      resetAutoLockTimer();
 
-            const createdAt = `${newNote.createdAt}u64`;
+      const outcome = await credentialService.syncToChain(walletSession.wallet, id);
+      if (outcome.status === 'pending') {
+        return { success: false, status: outcome.status, error: 'Previous sync of this login is not confirmed yet' };
+      }
 
-            console.log('[Notes] Executing add_note on privacybrowser_notes_v1.aleo...');
-            console.log('[Notes] Inputs:', { noteIdField, encryptedTitleField, encryptedContentField, encryptedTagsField, createdAt });
+      return { success: true, status: outcome.status, txHash: outcome.txIds[outcome.txIds.length - 1] };
+    } catch (error) {
+      console.error('[Credentials] Sync error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to sync credential'
+      };
+    }
+  });
 
-            const txHash = await aleoSvc.executeProgram({
-              programId: 'privacybrowser_notes_v1.aleo',
-              functionName: 'add_note',
-              inputs: [noteIdField, encryptedTitleField, encryptedContentField, encryptedTagsField, createdAt],
-              fee: 0.1,
-              privateKey: walletSession.wallet!.privateKey,
-            });
+  ipcMain.handle('credentials:restoreFromChain', async (): Promise<{ success: boolean; restored?: number; skipped?: number; incomplete?: number; scanComplete?: boolean; error?: string }> => {
+    try {
+      if (walletSession.isLocked || !walletSession.wallet) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+      resetAutoLockTimer();
 
-            console.log('[Notes] Transaction submitted:', txHash);
+      const result = await credentialService.restoreFromChain(walletSession.wallet);
+      return { success: true, ...result };
+    } catch (error) {
+      console.error('[Credentials] Restore error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to restore credentials'
+      };
+    }
+  });
 
-            // Record the transaction in history
-            transactionHistoryService.recordExecuteTransaction({
-              txId: txHash,
-              programId: 'privacybrowser_notes_v1.aleo',
-              functionName: 'add_note',
-              fee: 0.1,
-            });
-            console.log('[TxHistory] Recorded note sync transaction');
+  /**
+   * Page: logins available for the page's own origin (usernames only)
+   */
+  ipcMain.handle('credentials:pageLogins', async (event): Promise<Array<{ id: string; username: string }>> => {
+    const origin = getTabPageOrigin(event);
+    if (!origin || walletSession.isLocked || !walletSession.wallet) {
+      return [];
+    }
 
-            // Update note status to on-chain
-            const notesAfterSync = store.get('notes', []);
-            const noteIdx = notesAfterSync.findIndex((n: Note) => n.id === newNote.id);
-            if (noteIdx !== -1) {
-              notesAfterSync[noteIdx].syncedToAleo = true;
-              notesAfterSync[noteIdx].syncStatus = 'on-chain';
-              notesAfterSync[noteIdx].txHash = txHash;
-              store.set('notes', notesAfterSync);
-            }
+    try {
+      return credentialService.findForOrigin(walletSession.wallet, origin)
+        .map((c: { id: string; username: string }) => ({ id: c.id, username: c.username }));
+    } catch (error) {
+      console.error('[Credentials] Failed to look up logins:', error);
+      return [];
+    }
+  });
 
-            console.log(`[Notes] Successfully synced encrypted note ${newNote.id} to Aleo`);
-          } catch (syncError) {
-            console.error('[Notes] Auto-sync failed:', syncError);
-            // Update status to failed
-            const notesAfterFail = store.get('notes', []);
-            const noteIdx = notesAfterFail.findIndex((n: Note) => n.id === newNote.id);
-            if (noteIdx !== -1) {
-              notesAfterFail[noteIdx].syncStatus = 'failed';
-              store.set('notes', notesAfterFail);
-            }
-          }
-        })();
+  /**
+   * Page: fill a login the user picked. The login must belong to the page's origin.
+   */
+  ipcMain.handle('credentials:pageFill', async (event, id: string): Promise<{ username: string; password: string } | null> => {
+    const origin = getTabPageOrigin(event);
+    if (!origin || walletSession.isLocked || !walletSession.wallet) {
+      return null;
+    }
+
+    try {
+      const credential = credentialService.get(walletSession.wallet, id);
+      if (!credential || credential.origin !== origin) {
+        return null;
       }
 
-      return { success: true, note: newNote };
+      resetAutoLockTimer();
+      credentialService.markUsed(walletSession.wallet, id);
+      return { username: credential.username, password: credential.password };
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to add note'
-      };
+      console.error('[Credentials] Autofill failed:', error);
+      return null;
     }
   });
 
   /**
-   * Update an existing note
+   * Page: a login form was submitted. Offers to save new or changed logins.
    */
-  ipcMain.handle('notes:update', async (_event, id: string, updates: Partial<Note>): Promise<{ success: boolean; error?: string }> => {
-    try {
-      const notes = store.get('notes', []);
-      const index = notes.findIndex((n: Note) => n.id === id);
+  ipcMain.handle('credentials:pageSubmitted', async (event, login: { username: string; password: string }): Promise<void> => {
+    const origin = getTabPageOrigin(event);
+    if (!origin || walletSession.isLocked || !walletSession.wallet || typeof login?.password !== 'string') {
+      return;
+    }
 
-      if (index === -1) {
-        return { success: false, error: 'Note not found' };
+    try {
+      const prompt = credentialService.createSavePrompt(walletSession.wallet, origin, String(login.username || ''), login.password);
+      if (prompt) {
+        const { getMainWindow } = require('./window');
+        getMainWindow()?.webContents.send('credentials:savePrompt', prompt);
       }
-
-      notes[index] = {
-        ...notes[index],
-        ...updates,
-        updatedAt: Date.now(),
-        syncedToAleo: false, // Mark as needing re-sync
-      };
-      store.set('notes', notes);
-
-      return { success: true };
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to update note'
-      };
+      console.error('[Credentials] Failed to handle submitted login:', error);
     }
   });
 
   /**
-   * Delete a note
+   * Answer a save-password prompt
    */
-  ipcMain.handle('notes:delete', async (_event, id: string): Promise<{ success: boolean; error?: string }> => {
+  ipcMain.handle('credentials:respondSavePrompt', async (_event, promptId: string, action: 'save' | 'never' | 'dismiss'): Promise<{ success: boolean; error?: string }> => {
     try {
-      const notes = store.get('notes', []);
-      const filtered = notes.filter((n: Note) => n.id !== id);
-
-      if (filtered.length === notes.length) {
-        return { success: false, error: 'Note not found' };
+      if (walletSession.isLocked || !walletSession.wallet) {
+        return { success: false, error: 'Wallet is locked' };
       }
 
-      store.set('notes', filtered);
+      credentialService.resolveSavePrompt(walletSession.wallet, promptId, action);
       return { success: true };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to delete note'
+        error: error instanceof Error ? error.message : 'Failed to save login'
       };
     }
   });
 
+  // ============================================
+  // DATA KEY HANDLERS
+  // ============================================
+
   /**
-   * Decrypt a note's encrypted data
-   * Requires wallet to be unlocked (uses private key for decryption)
+   * Key versions of the selected account's data keys
    */
-  ipcMain.handle('notes:decrypt', async (_event, noteId: string): Promise<{ success: boolean; decryptedNote?: { title: string; content: string; tags: string[] }; error?: string }> => {
+  ipcMain.handle('keys:getStatus', async (): Promise<{ success: boolean; keys?: KeyVersionInfo[]; error?: string }> => {
     try {
       if (walletSession.isLocked || !walletSession.wallet) {
         return { success: false, error: 'Wallet is locked' };
       }
 
-      const notes = store.get('notes', []);
-      const note = notes.find((n: Note) => n.id === noteId);
-
-      if (!note) {
-        return { success: false, error: 'Note not found' };
-      }
-
-      if (!note.encryptedData || !note.isEncrypted) {
-        // Note not encrypted, return plaintext
-        return {
-          success: true,
-          decryptedNote: {
-            title: note.title,
-            content: note.content,
-            tags: note.tags || [],
-          },
-        };
-      }
-
-      // Decrypt using wallet private key
-      const decryptionKey = walletSession.wallet!.privateKey;
-
-      const decryptedTitle = decrypt(note.encryptedData.title, decryptionKey);
-      const decryptedContent = decrypt(note.encryptedData.content, decryptionKey);
-      const decryptedTags = JSON.parse(decrypt(note.encryptedData.tags, decryptionKey));
-
-      console.log(`[Notes] Decrypted note ${noteId} successfully`);
-
-      return {
-        success: true,
-        decryptedNote: {
-          title: decryptedTitle,
-          content: decryptedContent,
-          tags: decryptedTags,
-        },
-      };
+      return { success: true, keys: keyHierarchyService.getVersions(walletSession.wallet.address) };
     } catch (error) {
-      console.error('[Notes] Decryption failed:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to decrypt note',
+        error: error instanceof Error ? error.message : 'Failed to get data keys'
       };
     }
   });
 
   /**
-   * Sync a note to Aleo blockchain using notes_v1.aleo contract
-   * Uses REAL AES-256-GCM encryption
+   * Rotate data keys and re-encrypt what is stored on this device.
+   * On-chain copies are rewritten with the new key the next time they sync.
+   * @param purposes - Keys to rotate (default: all)
    */
-  ipcMain.handle('notes:syncToAleo', async (_event, noteId: string): Promise<{ success: boolean; txHash?: string; error?: string }> => {
+  ipcMain.handle('keys:rotate', async (_event, purposes?: KeyPurpose[]): Promise<{ success: boolean; results?: KeyRotationResult[]; error?: string }> => {
     try {
       if (walletSession.isLocked || !walletSession.wallet) {
         return { success: false, error: 'Wallet is locked' };
       }
+      resetAutoLockTimer();
 
-      const notes = store.get('notes', []);
-      const note = notes.find((n: Note) => n.id === noteId);
-
-      if (!note) {
-        return { success: false, error: 'Note not found' };
-      }
-
-      const { aleoService: aleoSvc } = require('./services/aleo.service');
-
-      // ============================================
-      // REAL AES-256-GCM ENCRYPTION
-      // ============================================
-      const encryptionKey = walletSession.wallet!.privateKey;
-
-      console.log('[Notes Sync] Encrypting note with AES-256-GCM...');
-
-      // Encrypt title, content, and tags with real encryption
-      const encryptedTitleData = encrypt(note.title, encryptionKey);
-      const encryptedContentData = encrypt(note.content, encryptionKey);
-      const encryptedTagsData = encrypt(JSON.stringify(note.tags || []), encryptionKey);
-
-      // Store encrypted data locally for future decryption
-      const noteIndex = notes.findIndex((n: Note) => n.id === noteId);
-      if (noteIndex !== -1) {
-        notes[noteIndex].encryptedData = {
-          title: encryptedTitleData,
-          content: encryptedContentData,
-          tags: encryptedTagsData,
-        };
-        notes[noteIndex].isEncrypted = true;
-      }
-
-      // Generate field values for on-chain storage
-      const noteIdField = `${BigInt('0x' + hashPassword(note.id).substring(0, 15)) % BigInt('10000000000')}field`;
-
-      // Hash of encrypted ciphertext (verifiable on-chain)
-      const titleCipherHash = hashPassword(encryptedTitleData.encrypted).substring(0, 15);
-      const encryptedTitleField = `${BigInt('0x' + titleCipherHash) % BigInt('10000000000')}field`;
-
-      const contentCipherHash = hashPassword(encryptedContentData.encrypted).substring(0, 15);
-      const encryptedContentField = `${BigInt('0x' + contentCipherHash) % BigInt('10000000000')}field`;
-
-      const tagsCipherHash = hashPassword(encryptedTagsData.encrypted).substring(0, 15);
-      const encryptedTagsField = `${BigInt('0x' + tagsCipherHash) % BigInt('10000000000')}field`;
-
-      const createdAt = `${note.createdAt}u64`;
-
-      console.log('[Notes Sync] Submitting encrypted note to Aleo...');
-
-      const txHash = await aleoSvc.executeProgram({
-        programId: 'privacybrowser_notes_v1.aleo',
-        functionName: 'add_note',
-        inputs: [noteIdField, encryptedTitleField, encryptedContentField, encryptedTagsField, createdAt],
-        fee: 0.1,
-        privateKey: walletSession.wallet!.privateKey,
-      });
-
-      // Record the transaction in history
-      transactionHistoryService.recordExecuteTransaction({
-        txId: txHash,
-        programId: 'privacybrowser_notes_v1.aleo',
-        functionName: 'add_note',
-        fee: 0.1,
-      });
+      const { KEY_PURPOSES } = require('./services/key-hierarchy.service');
+      const wallet = walletSession.wallet;
+      const selected: KeyPurpose[] = (purposes?.length ? purposes : KEY_PURPOSES)
+        .filter((purpose: KeyPurpose) => KEY_PURPOSES.includes(purpose));
+      const results: KeyRotationResult[] = [];
+
+      for (const purpose of selected) {
+        const version: number = keyHierarchyService.rotate(wallet.address, purpose);
+        const result: KeyRotationResult = { purpose, version, reencrypted: 0, needsSync: 0 };
+
+        if (purpose === 'notes') {
+          const notes: Note[] = store.get('notes', []);
+          for (let i = 0; i < notes.length; i++) {
+            if (notes[i].isEncrypted) {
+              notes[i] = { ...notes[i], ...encryptNoteFields(notes[i], wallet) };
+              result.reencrypted++;
+            }
+            if (notes[i].attachments?.length) {
+              result.reencrypted += noteAttachmentService.reencrypt(notes[i].id, wallet);
+            }
+            // Synced copies are under the old key until written again
+            if (notes[i].syncedToAleo) {
+              notes[i].syncedToAleo = false;
+              result.needsSync++;
+            }
+          }
+          store.set('notes', notes);
+        } else if (purpose === 'bookmarks') {
+          const { bookmarkSyncService } = require('./services/bookmark-sync.service');
+          result.needsSync = bookmarkSyncService.countStale(wallet.address);
+        } else if (purpose === 'credentials') {
+          result.reencrypted = credentialService.reencryptVault(wallet);
+          result.needsSync = credentialService.countStale(wallet.address);
+        }
 
-      // Mark note as synced
-      if (noteIndex !== -1) {
-        notes[noteIndex].syncedToAleo = true;
-        notes[noteIndex].syncStatus = 'on-chain';
-        notes[noteIndex].txHash = txHash;
-        store.set('notes', notes);
+        results.push(result);
       }
 
-      console.log(`[Notes Sync] Synced encrypted note ${noteId}: ${txHash}`);
-      return { success: true, txHash };
+      return { success: true, results };
     } catch (error) {
-      console.error('[Notes Sync] Error:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to sync note'
+        error: error instanceof Error ? error.message : 'Failed to rotate data keys'
       };
     }
   });
@@ -1115,12 +2412,19 @@ export function setupIpcHandlers(): void {
   // HISTORY HANDLERS
   // ============================================
 
+  // Visits are kept in monthly segments with a full-text index
+  const { historyService } = require('./services/history.service');
+
   /**
-   * Get all history entries
+   * Get the most recent history entries
    */
   ipcMain.handle('history:getAll', async (_event, limit?: number): Promise<HistoryEntry[]> => {
-    const history = store.get('history', []);
-    return limit ? history.slice(0, limit) : history;
+    try {
+      return historyService.getRecent(limit);
+    } catch (error) {
+      console.error('Failed to load history:', error);
+      return [];
+    }
   });
 
   /**
@@ -1128,21 +2432,7 @@ export function setupIpcHandlers(): void {
    */
   ipcMain.handle('history:add', async (_event, entry: Omit<HistoryEntry, 'id' | 'visitedAt'>): Promise<{ success: boolean }> => {
     try {
-      const newEntry: HistoryEntry = {
-        ...entry,
-        id: uuidv4(),
-        visitedAt: Date.now()
-      };
-
-      const history = store.get('history', []);
-
-      // Keep only last 1000 entries
-      history.unshift(newEntry);
-      if (history.length > 1000) {
-        history.pop();
-      }
-
-      store.set('history', history);
+      historyService.addVisit(entry);
       return { success: true };
     } catch (error) {
       console.error('Failed to add history entry:', error);
@@ -1155,7 +2445,7 @@ export function setupIpcHandlers(): void {
    */
   ipcMain.handle('history:clear', async (): Promise<{ success: boolean }> => {
     try {
-      store.set('history', []);
+      historyService.clear();
       return { success: true };
     } catch (error) {
       console.error('Failed to clear history:', error);
@@ -1168,9 +2458,7 @@ export function setupIpcHandlers(): void {
    */
   ipcMain.handle('history:delete', async (_event, id: string): Promise<{ success: boolean }> => {
     try {
-      const history = store.get('history', []);
-      const filtered = history.filter((h: HistoryEntry) => h.id !== id);
-      store.set('history', filtered);
+      historyService.deleteEntry(id);
       return { success: true };
     } catch (error) {
       console.error('Failed to delete history entry:', error);
@@ -1178,6 +2466,54 @@ export function setupIpcHandlers(): void {
     }
   });
 
+  /**
+   * Full-text search over history, ranked, with date range and site filters
+   */
+  ipcMain.handle('history:search', async (_event, query: string, options?: HistorySearchOptions): Promise<{ success: boolean; response?: HistorySearchResponse; error?: string }> => {
+    try {
+      return { success: true, response: historyService.search(query || '', options || {}) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to search history'
+      };
+    }
+  });
+
+  /**
+   * Get history retention and indexing settings
+   */
+  ipcMain.handle('history:getSettings', async (): Promise<HistorySettings> => {
+    return historyService.getSettings();
+  });
+
+  /**
+   * Update history retention and indexing settings
+   */
+  ipcMain.handle('history:updateSettings', async (_event, updates: Partial<HistorySettings>): Promise<{ success: boolean; settings?: HistorySettings; error?: string }> => {
+    try {
+      return { success: true, settings: historyService.updateSettings(updates) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update history settings'
+      };
+    }
+  });
+
+  /**
+   * Address bar suggestions from history, bookmarks, open tabs and search keywords
+   */
+  ipcMain.handle('suggestions:get', async (_event, input: string, context?: SuggestionContext): Promise<Suggestion[]> => {
+    try {
+      const { suggestionService } = require('./services/suggestion.service');
+      return suggestionService.suggest(input || '', context || {});
+    } catch (error) {
+      console.error('Failed to get suggestions:', error);
+      return [];
+    }
+  });
+
   // ============================================
   // BROWSER HANDLERS - Defined in index.ts setupBrowserControls()
   // DO NOT add browser handlers here - they conflict with index.ts
@@ -1189,10 +2525,27 @@ export function setupIpcHandlers(): void {
 
   // Import services for dApp handlers
   const { permissionService } = require('./services/permission.service');
-  const { walletService } = require('./services/wallet.service');
   const { aleoService } = require('./services/aleo.service');
   const { getMainWindow } = require('./window');
 
+  // Forward network switches to connected dApps
+  aleoService.onNetworkChanged((network: string) => {
+    notifyConnectedSites('dapp:networkChanged', network);
+  });
+
+  /**
+   * Let any open tabs of a disconnected site know
+   */
+  function notifySiteDisconnected(origin: string): void {
+    getTabContents(tabOrigin => tabOrigin === origin)
+      .forEach(webContents => webContents.send('dapp:disconnect'));
+  }
+
+  // Expired connections end like a manual disconnect
+  permissionService.onSiteExpired((origin: string) => {
+    notifySiteDisconnected(origin);
+  });
+
   /**
    * Get origin from sender
    */
@@ -1205,6 +2558,48 @@ export function setupIpcHandlers(): void {
     }
   }
 
+  /**
+   * Keys of the account a connected site is bound to
+   */
+  function getSiteWallet(origin: string): { address: string; privateKey: string; viewKey: string } | null {
+    return walletService.getAccountWallet(getSiteAccountId(origin));
+  }
+
+  /**
+   * Keyring account ID a site is bound to (undefined = selected account).
+   * Every dApp use of the keys goes through here, so it counts as wallet activity.
+   */
+  function getSiteAccountId(origin: string): string | undefined {
+    resetAutoLockTimer();
+    return permissionService.getSitePermission(origin)?.accountId;
+  }
+
+  /**
+   * Credits moved by a credits.aleo transfer, read from its u64 amount input
+   */
+  function getCreditsTransferAmount(params: { programId: string; functionName: string; inputs: string[] }): number {
+    if (params.programId !== 'credits.aleo' || !params.functionName.startsWith('transfer_')) {
+      return 0;
+    }
+
+    const amountInput = [...params.inputs].reverse().find(input => /^\d+u64(\.(public|private))?$/.test(input.trim()));
+    return amountInput ? parseInt(amountInput, 10) / 1_000_000 : 0;
+  }
+
+  /**
+   * Fee a page asked for in credits, or the default when it gave none.
+   * Null when it is not a finite, non-negative number.
+   */
+  function getRequestedFee(fee: unknown, defaultFee: number): number | null {
+    if (fee === undefined || fee === null) {
+      return defaultFee;
+    }
+    if (typeof fee !== 'number' || !Number.isFinite(fee) || fee < 0) {
+      return null;
+    }
+    return fee || defaultFee;
+  }
+
   /**
    * dApp: Connect request
    * Shows permission popup and returns address if approved
@@ -1244,9 +2639,11 @@ export function setupIpcHandlers(): void {
       const approved = await permissionService.createPermissionRequest(origin, ['connect']);
 
       if (approved) {
-        const address = walletService.getAddress();
-        permissionService.grantPermission(origin, ['connect'], address!);
-        return { success: true, address: address! };
+        // Bind the site to the account that was selected when it connected
+        const account = walletService.getSelectedAccount();
+        permissionService.grantPermission(origin, ['connect'], account!.address, { accountId: account!.id });
+        resetAutoLockTimer();
+        return { success: true, address: account!.address };
       }
 
       return { success: false, error: 'Connection rejected by user' };
@@ -1319,12 +2716,105 @@ export function setupIpcHandlers(): void {
   });
 
   /**
-   * dApp: Request transaction
+   * dApp: Request transaction
+   */
+  ipcMain.handle('dapp:requestTransaction', async (event, params: {
+    programId: string;
+    functionName: string;
+    inputs: string[];
+    fee?: number;
+  }): Promise<{ success: boolean; transactionId?: string; error?: string }> => {
+    let origin = '';
+    let reserved: { day: string; amount: number } | undefined;
+    try {
+      origin = getOriginFromSender(event);
+
+      if (!permissionService.isConnected(origin)) {
+        return { success: false, error: 'Not connected' };
+      }
+
+      const walletState = walletService.getState();
+      if (!walletState.isUnlocked) {
+        return { success: false, error: 'Wallet is locked' };
+      }
+
+      const fee = getRequestedFee(params.fee, 0.1);
+      if (fee === null) {
+        return { success: false, error: 'Invalid fee' };
+      }
+
+      // Enforce program scopes and the daily spending cap before prompting.
+      // The amount stays reserved against the cap unless the request fails.
+      const amount = fee + getCreditsTransferAmount(params);
+      const authorization = permissionService.authorizeTransaction(origin, {
+        programId: params.programId,
+        functionName: params.functionName,
+        amount,
+      });
+
+      if (!authorization.allowed) {
+        return { success: false, error: authorization.reason };
+      }
+      reserved = authorization.reserved;
+
+      if (!authorization.autoApprove) {
+        // Get the main window to show transaction approval
+        const mainWindow = getMainWindow();
+        if (!mainWindow) {
+          return { success: false, error: 'Browser window not available' };
+        }
+
+        // Send transaction request to renderer for approval
+        mainWindow.webContents.send('permission:request', {
+          type: 'transaction',
+          origin,
+          transaction: params,
+        });
+
+        // Wait for user approval
+        const approved = await permissionService.createPermissionRequest(origin, ['transaction']);
+
+        if (!approved) {
+          permissionService.releaseSpending(origin, reserved!);
+          return { success: false, error: 'Transaction rejected by user' };
+        }
+      } else {
+        console.log(`[dApp] Auto-approved ${params.programId}/${params.functionName} for ${origin}`);
+      }
+
+      // Execute the transaction
+      const wallet = getSiteWallet(origin);
+      if (!wallet) {
+        permissionService.releaseSpending(origin, reserved!);
+        return { success: false, error: 'Wallet not available' };
+      }
+
+      const transactionId = await aleoService.executeProgram({
+        programId: params.programId,
+        functionName: params.functionName,
+        inputs: params.inputs,
+        fee,
+        privateKey: wallet.privateKey,
+      });
+
+      return { success: true, transactionId };
+    } catch (error) {
+      if (reserved) {
+        permissionService.releaseSpending(origin, reserved);
+      }
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Transaction failed'
+      };
+    }
+  });
+
+  /**
+   * dApp: Request program deployment
+   * Shows the deployment approval modal, then deploys via the SDK
    */
-  ipcMain.handle('dapp:requestTransaction', async (event, params: {
-    programId: string;
-    functionName: string;
-    inputs: string[];
+  ipcMain.handle('dapp:requestDeploy', async (event, params: {
+    program: string;
     fee?: number;
   }): Promise<{ success: boolean; transactionId?: string; error?: string }> => {
     try {
@@ -1339,45 +2829,68 @@ export function setupIpcHandlers(): void {
         return { success: false, error: 'Wallet is locked' };
       }
 
-      // Get the main window to show transaction approval
       const mainWindow = getMainWindow();
       if (!mainWindow) {
         return { success: false, error: 'Browser window not available' };
       }
 
-      // Send transaction request to renderer for approval
+      const priorityFee = getRequestedFee(params.fee, 0);
+      if (priorityFee === null) {
+        return { success: false, error: 'Invalid fee' };
+      }
+
+      const preview = await aleoService.prepareDeployment(params.program);
+
+      // Send deployment request to renderer for approval
       mainWindow.webContents.send('permission:request', {
-        type: 'transaction',
+        type: 'deploy',
         origin,
-        transaction: params,
+        deployment: { ...preview, priorityFee },
       });
 
-      // Wait for user approval
-      const approved = await permissionService.createPermissionRequest(origin, ['transaction']);
+      // The preview was checked against one network; a switch while the
+      // modal is open voids the approval
+      let networkChanged = false;
+      const stopWatchingNetwork = aleoService.onNetworkChanged(() => {
+        networkChanged = true;
+      });
+      let approved: boolean;
+      try {
+        approved = await permissionService.createPermissionRequest(origin, ['deploy']);
+      } finally {
+        stopWatchingNetwork();
+      }
 
       if (!approved) {
-        return { success: false, error: 'Transaction rejected by user' };
+        return { success: false, error: 'Deployment rejected by user' };
+      }
+      if (networkChanged) {
+        return { success: false, error: `Network changed while the deployment to ${preview.network} was awaiting approval` };
       }
 
-      // Execute the transaction
-      const wallet = walletService.getCurrentWallet();
+      const wallet = getSiteWallet(origin);
       if (!wallet) {
         return { success: false, error: 'Wallet not available' };
       }
 
-      const transactionId = await aleoService.executeProgram({
-        programId: params.programId,
-        functionName: params.functionName,
-        inputs: params.inputs,
-        fee: params.fee || 0.1,
+      const transactionId = await aleoService.deployProgram({
+        program: params.program,
+        priorityFee,
         privateKey: wallet.privateKey,
+        network: preview.network,
+      });
+
+      transactionHistoryService.recordDeployTransaction({
+        txId: transactionId,
+        programId: preview.programId,
+        fee: preview.estimatedFee + priorityFee,
       });
 
       return { success: true, transactionId };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Transaction failed'
+        error: error instanceof Error ? error.message : 'Deployment failed'
       };
     }
   });
@@ -1387,7 +2900,7 @@ export function setupIpcHandlers(): void {
    */
   ipcMain.handle('dapp:requestRecords', async (event, params: {
     programId?: string;
-  }): Promise<{ success: boolean; records?: any[]; error?: string }> => {
+  }): Promise<{ success: boolean; records?: any[]; syncing?: boolean; error?: string }> => {
     try {
       const origin = getOriginFromSender(event);
 
@@ -1400,13 +2913,14 @@ export function setupIpcHandlers(): void {
         return { success: false, error: 'Wallet is locked' };
       }
 
-      // For now, return empty records (full record scanning would require more work)
-      const records = await aleoService.getRecords(
-        walletService.exportViewKey(),
-        params.programId
+      const wallet = getSiteWallet(origin)!;
+      const { records, syncing } = aleoService.getRecords(
+        wallet.viewKey,
+        params.programId,
+        wallet.privateKey
       );
 
-      return { success: true, records };
+      return { success: true, records, syncing };
     } catch (error) {
       return {
         success: false,
@@ -1450,7 +2964,7 @@ export function setupIpcHandlers(): void {
         return { success: false, error: 'Signing rejected by user' };
       }
 
-      const signature = await walletService.signMessage(params.message);
+      const signature = await walletService.signMessage(params.message, getSiteAccountId(origin));
       return { success: true, signature };
     } catch (error) {
       return {
@@ -1478,7 +2992,7 @@ export function setupIpcHandlers(): void {
         return { success: false, error: 'Wallet is locked' };
       }
 
-      const plaintext = await walletService.decryptRecord(params.ciphertext);
+      const plaintext = await walletService.decryptRecord(params.ciphertext, getSiteAccountId(origin));
       return { success: true, plaintext };
     } catch (error) {
       return {
@@ -1491,7 +3005,7 @@ export function setupIpcHandlers(): void {
   /**
    * dApp: Get balance
    */
-  ipcMain.handle('dapp:getBalance', async (event): Promise<{ success: boolean; balance?: { public: number; private: number }; error?: string }> => {
+  ipcMain.handle('dapp:getBalance', async (event): Promise<{ success: boolean; balance?: { public: number; private: number; privatePending?: number; privateSyncing?: boolean }; error?: string }> => {
     try {
       const origin = getOriginFromSender(event);
 
@@ -1499,12 +3013,15 @@ export function setupIpcHandlers(): void {
         return { success: false, error: 'Not connected' };
       }
 
-      const walletState = walletService.getState();
-      if (!walletState.isUnlocked || !walletState.address) {
+      const wallet = getSiteWallet(origin);
+      if (!wallet) {
         return { success: false, error: 'Wallet is locked' };
       }
 
-      const balance = await aleoService.getBalance(walletState.address);
+      const balance = await aleoService.getBalance(wallet.address, {
+        viewKey: wallet.viewKey,
+        privateKey: wallet.privateKey
+      });
       return { success: true, balance };
     } catch (error) {
       return {
@@ -1574,7 +3091,7 @@ export function setupIpcHandlers(): void {
       }
 
       permissionService.grantPermission(origin, ['viewKey'], walletState.address!);
-      const viewKey = walletService.exportViewKey();
+      const viewKey = walletService.exportViewKey(getSiteAccountId(origin));
       return { success: true, viewKey };
     } catch (error) {
       return {
@@ -1593,7 +3110,10 @@ export function setupIpcHandlers(): void {
    */
   ipcMain.handle('permissions:getConnectedSites', async (): Promise<{ sites: any[] }> => {
     try {
-      const sites = permissionService.getAllConnectedSites();
+      const sites = permissionService.getAllConnectedSites().map((site: any) => ({
+        ...site,
+        spentToday: permissionService.getSpentToday(site.origin),
+      }));
       return { sites };
     } catch {
       return { sites: [] };
@@ -1606,12 +3126,51 @@ export function setupIpcHandlers(): void {
   ipcMain.handle('permissions:disconnectSite', async (_event, origin: string): Promise<{ success: boolean }> => {
     try {
       permissionService.disconnectSite(origin);
+      notifySiteDisconnected(origin);
       return { success: true };
     } catch {
       return { success: false };
     }
   });
 
+  /**
+   * Bind a site to a wallet account
+   */
+  ipcMain.handle('permissions:setSiteAccount', async (_event, origin: string, accountId: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const wallet = walletService.getAccountWallet(accountId);
+      if (!wallet || !walletService.hasAccount(accountId)) {
+        return { success: false, error: 'Account not found' };
+      }
+
+      permissionService.setSiteAccount(origin, wallet.address, accountId);
+      getTabContents(tabOrigin => tabOrigin === origin)
+        .forEach(webContents => webContents.send('dapp:accountChanged', wallet.address));
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to change site account'
+      };
+    }
+  });
+
+  /**
+   * Update a site's program scopes, daily spending cap and expiry
+   */
+  ipcMain.handle('permissions:updateRestrictions', async (_event, origin: string, restrictions: any): Promise<{ success: boolean; error?: string }> => {
+    try {
+      permissionService.updateRestrictions(origin, restrictions);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update site restrictions'
+      };
+    }
+  });
+
   /**
    * Resolve a pending permission request
    */
@@ -1667,6 +3226,7 @@ export function setupIpcHandlers(): void {
         blockTrackers: settings.blockTrackers,
         httpsEverywhere: true, // Default enabled
         blockFingerprinting: settings.blockFingerprinting,
+        fingerprintProtection: settings.strictMode ? 'strict' : 'standard',
         blockCookies: 'third-party' // Default
       };
     } catch (error) {
@@ -1677,6 +3237,7 @@ export function setupIpcHandlers(): void {
         blockTrackers: true,
         httpsEverywhere: true,
         blockFingerprinting: true,
+        fingerprintProtection: 'standard',
         blockCookies: 'third-party'
       };
     }
@@ -1710,6 +3271,8 @@ export function setupIpcHandlers(): void {
 
       if (settingMap[key]) {
         privacyService.updateSettings({ [settingMap[key]]: value });
+      } else if (key === 'fingerprintProtection') {
+        privacyService.updateSettings({ strictMode: value === 'strict' });
       }
       return { success: true };
     } catch (error) {
@@ -1719,19 +3282,65 @@ export function setupIpcHandlers(): void {
   });
 
   /**
-   * Get stats for a specific site
+   * Get stats for a site, with the requests blocked on the active tab's page
    */
-  ipcMain.handle('privacy:getSiteStats', async (_event, hostname: string): Promise<any> => {
+  ipcMain.handle('privacy:getSiteStats', async (_event, hostname: string): Promise<{ success: boolean; stats?: SiteShieldsStats; error?: string }> => {
     try {
-      // Return session stats for now (per-site tracking can be added later)
-      const stats = privacyService.getStats();
+      const { getActiveBrowserView } = require('./window');
+      const view = getActiveBrowserView();
+      return { success: true, stats: privacyService.getSiteStats(hostname, view?.webContents.id) };
+    } catch (error) {
       return {
-        adsBlocked: stats.adsBlocked || 0,
-        trackersBlocked: stats.trackersBlocked || 0
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get site stats'
+      };
+    }
+  });
+
+  /**
+   * Get the Shields settings on a site and which of them the site overrides
+   */
+  ipcMain.handle('privacy:getSiteSettings', async (_event, hostname: string): Promise<{ success: boolean; settings?: Required<SiteShieldsOverrides>; overrides?: SiteShieldsOverrides; error?: string }> => {
+    try {
+      return {
+        success: true,
+        settings: privacyService.getSiteSettings(hostname),
+        overrides: privacyService.getSiteOverrides(hostname)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get site settings'
+      };
+    }
+  });
+
+  /**
+   * Override a Shields setting on a site (null follows the global setting)
+   */
+  ipcMain.handle('privacy:setSiteOverride', async (_event, hostname: string, key: SiteShieldsSetting, value: boolean | null): Promise<{ success: boolean; overrides?: SiteShieldsOverrides; error?: string }> => {
+    try {
+      return { success: true, overrides: privacyService.setSiteOverride(hostname, key, value) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update site settings'
       };
+    }
+  });
+
+  /**
+   * Make a site follow the global Shields settings again
+   */
+  ipcMain.handle('privacy:resetSiteOverrides', async (_event, hostname: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      privacyService.resetSiteOverrides(hostname);
+      return { success: true };
     } catch (error) {
-      console.error('Failed to get site stats:', error);
-      return { adsBlocked: 0, trackersBlocked: 0 };
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to reset site settings'
+      };
     }
   });
 
@@ -1748,6 +3357,242 @@ export function setupIpcHandlers(): void {
     }
   });
 
+  // ============================================
+  // FILTER LIST HANDLERS
+  // ============================================
+
+  const { filterListService } = require('./services/filter-list.service');
+
+  /**
+   * Get the Shields filter lists and how often they update
+   */
+  ipcMain.handle('privacy:getFilterLists', async (): Promise<{ success: boolean; lists?: FilterList[]; updateIntervalHours?: number; error?: string }> => {
+    try {
+      return {
+        success: true,
+        lists: filterListService.getLists(),
+        updateIntervalHours: filterListService.getUpdateInterval()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get filter lists'
+      };
+    }
+  });
+
+  /**
+   * Subscribe to a filter list by URL
+   */
+  ipcMain.handle('privacy:addFilterList', async (_event, url: string, category: FilterListCategory): Promise<{ success: boolean; list?: FilterList; error?: string }> => {
+    try {
+      return { success: true, list: await filterListService.addList(url, category) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add filter list'
+      };
+    }
+  });
+
+  /**
+   * Add a filter list from a file chosen by the user
+   */
+  ipcMain.handle('privacy:importFilterList', async (_event, category: FilterListCategory): Promise<{ success: boolean; list?: FilterList; canceled?: boolean; error?: string }> => {
+    try {
+      const { dialog } = getElectron();
+      const { getMainWindow } = require('./window');
+      const dialogResult = await dialog.showOpenDialog(getMainWindow(), {
+        title: 'Import Filter List',
+        properties: ['openFile'],
+        filters: [
+          { name: 'Filter Lists', extensions: ['txt'] },
+          { name: 'All Files', extensions: ['*'] }
+        ]
+      });
+
+      if (dialogResult.canceled || dialogResult.filePaths.length === 0) {
+        return { success: false, canceled: true };
+      }
+
+      return { success: true, list: await filterListService.importList(dialogResult.filePaths[0], category) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to import filter list'
+      };
+    }
+  });
+
+  /**
+   * Enable or disable a filter list, or change its update URL
+   */
+  ipcMain.handle('privacy:updateFilterList', async (_event, id: string, updates: { enabled?: boolean; url?: string }): Promise<{ success: boolean; list?: FilterList; error?: string }> => {
+    try {
+      return { success: true, list: await filterListService.updateList(id, updates) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update filter list'
+      };
+    }
+  });
+
+  /**
+   * Remove a downloaded or imported filter list
+   */
+  ipcMain.handle('privacy:removeFilterList', async (_event, id: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      await filterListService.removeList(id);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to remove filter list'
+      };
+    }
+  });
+
+  /**
+   * Download every filter list with an update URL now
+   */
+  ipcMain.handle('privacy:refreshFilterLists', async (): Promise<{ success: boolean; lists?: FilterList[]; error?: string }> => {
+    try {
+      return { success: true, lists: await filterListService.updateLists(true) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update filter lists'
+      };
+    }
+  });
+
+  /**
+   * Set how many hours filter lists are kept before downloading them again
+   */
+  ipcMain.handle('privacy:setFilterUpdateInterval', async (_event, hours: number): Promise<{ success: boolean; error?: string }> => {
+    try {
+      filterListService.setUpdateInterval(hours);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to set update interval'
+      };
+    }
+  });
+
+  // ============================================
+  // ELEMENT HIDING HANDLERS
+  // ============================================
+
+  /**
+   * Pick an element of the active tab's page and hide it on that site.
+   * Settles once the user clicks an element or presses Escape.
+   */
+  ipcMain.handle('privacy:pickElement', async (): Promise<{ success: boolean; rule?: ElementHidingRule; canceled?: boolean; error?: string }> => {
+    try {
+      const { getActiveBrowserView } = require('./window');
+      const view = getActiveBrowserView();
+      if (!view) {
+        return { success: false, error: 'Open a web page to hide elements on it' };
+      }
+
+      const rule = await privacyService.pickElement(view.webContents);
+      return rule ? { success: true, rule } : { success: false, canceled: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to hide element'
+      };
+    }
+  });
+
+  /**
+   * Elements the user hid on a page's site
+   */
+  ipcMain.handle('privacy:getHidingRules', async (_event, url: string): Promise<{ success: boolean; rules?: ElementHidingRule[]; error?: string }> => {
+    try {
+      return { success: true, rules: filterListService.getHidingRules(new URL(url).hostname) };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get hidden elements'
+      };
+    }
+  });
+
+  /**
+   * Show a hidden element again, on the active tab right away
+   */
+  ipcMain.handle('privacy:removeHidingRule', async (_event, id: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      filterListService.removeHidingRule(id);
+
+      const { getActiveBrowserView } = require('./window');
+      const view = getActiveBrowserView();
+      if (view) {
+        await privacyService.applyCosmeticFilters(view.webContents);
+      }
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to remove element hiding rule'
+      };
+    }
+  });
+
+  // ============================================
+  // FINGERPRINTING PROTECTION HANDLERS
+  // ============================================
+
+  /**
+   * Fingerprinting protection script for a tab's page, or null. Synchronous:
+   * the tab's preload must install it before any page script runs.
+   */
+  ipcMain.on('privacy:getFarblingScript', (event, url: string) => {
+    try {
+      event.returnValue = event.sender.getType() === 'browserView' ? privacyService.getFarblingScript(url) : null;
+    } catch (error) {
+      console.error('Failed to get fingerprinting protection script:', error);
+      event.returnValue = null;
+    }
+  });
+
+  // ============================================
+  // WEBRTC HANDLERS
+  // ============================================
+
+  /**
+   * Get the WebRTC IP handling policy of tabs
+   */
+  ipcMain.handle('privacy:getWebRTCPolicy', async (): Promise<{ success: boolean; policy?: WebRTCIPPolicy; error?: string }> => {
+    try {
+      return { success: true, policy: privacyService.getWebRTCPolicy() };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get WebRTC policy'
+      };
+    }
+  });
+
+  /**
+   * Set the WebRTC IP handling policy of tabs, open ones included
+   */
+  ipcMain.handle('privacy:setWebRTCPolicy', async (_event, policy: WebRTCIPPolicy): Promise<{ success: boolean; error?: string }> => {
+    try {
+      privacyService.setWebRTCPolicy(policy);
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to set WebRTC policy'
+      };
+    }
+  });
+
   // ============================================================================
   // Tab Suspend / Memory Saver Handlers
   // ============================================================================
@@ -2424,6 +4269,11 @@ export function setupIpcHandlers(): void {
         return { success: false, error: 'Browser window not available' };
       }
 
+      const fee = getRequestedFee(params.fee, 0.1);
+      if (fee === null) {
+        return { success: false, error: 'Invalid fee' };
+      }
+
       console.log('[IPC] Sending permission:request event to renderer');
 
       // Use consistent origin for both the UI and the permission request
@@ -2441,7 +4291,7 @@ export function setupIpcHandlers(): void {
           programId: params.programId,
           functionName: params.functionName,
           inputs: params.inputs,
-          fee: params.fee || 0.1,
+          fee,
         },
       });
 
@@ -2464,7 +4314,7 @@ export function setupIpcHandlers(): void {
         programId: params.programId,
         functionName: params.functionName,
         inputs: params.inputs,
-        fee: params.fee || 0.1,
+        fee,
         privateKey: walletSession.wallet.privateKey,
       });
 
@@ -2473,7 +4323,7 @@ export function setupIpcHandlers(): void {
         txId: transactionId,
         programId: params.programId,
         functionName: params.functionName,
-        fee: params.fee || 0.1,
+        fee,
       });
 
       return { success: true, transactionId };
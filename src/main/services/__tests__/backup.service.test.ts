@@ -0,0 +1,50 @@
+/**
+ * Wallet backup tests: validation of restored accounts
+ * Run with: npm test (after setting up testing environment)
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../aleo-crypto.service', () => ({
+  aleoCryptoService: {
+    isValidPrivateKey: () => true,
+    importFromPrivateKey: async (privateKey: string) => ({
+      privateKey,
+      address: privateKey.replace('APrivateKey1', 'aleo1'),
+      viewKey: privateKey.replace('APrivateKey1', 'AViewKey1')
+    })
+  }
+}));
+
+import { backupService, BACKUP_VERSION } from '../backup.service';
+import { createVault } from '../../utils/vault';
+
+const PASSWORD = 'backup-password';
+
+async function backupFile(account: { address: string; privateKey: string; viewKey: string }): Promise<string> {
+  const keyring = {
+    accounts: [{ id: 'a1', name: 'Account 1', source: 'imported', ...account }],
+    selectedAccountId: 'a1',
+    createdAt: 1
+  };
+  const { vault, key } = await createVault(JSON.stringify({ keyring, addressBook: [], sites: {}, transactions: [] }), PASSWORD);
+  key.fill(0);
+  return JSON.stringify({ format: 'aleo-browser-backup', version: BACKUP_VERSION, createdAt: 1, vault });
+}
+
+describe('BackupService', () => {
+  it('reads a backup whose accounts match their private keys', async () => {
+    const content = await backupFile({ address: 'aleo1alice', privateKey: 'APrivateKey1alice', viewKey: 'AViewKey1alice' });
+
+    const backup = await backupService.readBackup(content, PASSWORD);
+    expect(backup.keyring.accounts[0].address).toBe('aleo1alice');
+  }, 30000);
+
+  it('rejects an account whose address or view key does not match its private key', async () => {
+    const wrongAddress = await backupFile({ address: 'aleo1mallory', privateKey: 'APrivateKey1alice', viewKey: 'AViewKey1alice' });
+    const wrongViewKey = await backupFile({ address: 'aleo1alice', privateKey: 'APrivateKey1alice', viewKey: 'AViewKey1mallory' });
+
+    await expect(backupService.readBackup(wrongAddress, PASSWORD)).rejects.toThrow('does not match its private key');
+    await expect(backupService.readBackup(wrongViewKey, PASSWORD)).rejects.toThrow('does not match its private key');
+  }, 30000);
+});
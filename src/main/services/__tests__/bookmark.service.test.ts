@@ -0,0 +1,163 @@
+/**
+ * Bookmark repository tests
+ * Run with: npm test (after setting up testing environment)
+ */
+
+import { describe, it, expect, beforeAll, jest } from '@jest/globals';
+import { encrypt } from '../../utils/crypto';
+
+// Wallet starts locked; a test unlocks it by setting the storage key
+let mockWalletKey: Buffer | null = null;
+jest.mock('../wallet.service', () => ({
+  WalletService: { getInstance: () => ({ getEncryptionKey: () => mockWalletKey }) }
+}));
+
+const walletKey = Buffer.alloc(32, 7);
+
+let bookmarkService: any;
+let configStore: any;
+let storageStore: any;
+
+beforeAll(() => {
+  // Seed the plain bookmarks the old `bookmarks:*` handlers wrote
+  const Store = require('electron-store');
+  configStore = new Store({});
+  configStore.set('bookmarks', [
+    { id: 'a', url: 'https://aleo.org', title: 'Aleo', createdAt: 1, folder: 'Crypto', aleoPinned: true },
+    { id: 'b', url: 'https://example.com', title: 'Example', createdAt: 2, folder: 'Bookmarks Bar' },
+    { id: 'c', url: 'https://aleo.org', title: 'Aleo (renamed)', createdAt: 3, tags: ['zk'] }
+  ]);
+
+  // Encrypted bookmarks the storage service wrote under the wallet's key
+  storageStore = new Store({ name: 'storage' });
+  storageStore.set('encryptedBookmarks', encrypt(JSON.stringify([
+    { id: 'w', url: 'https://wallet.test', title: 'Wallet', createdAt: 4 }
+  ]), walletKey.toString('hex')));
+
+  ({ bookmarkService } = require('../bookmark.service'));
+});
+
+describe('BookmarkService', () => {
+  it('merges legacy bookmarks once and removes the old list', () => {
+    const { bookmarks, folders } = bookmarkService.getAll();
+
+    expect(configStore.get('bookmarks')).toBeUndefined();
+    expect(bookmarks).toHaveLength(2);
+
+    const aleo = bookmarks.find((b: any) => b.url === 'https://aleo.org');
+    expect(aleo.title).toBe('Aleo (renamed)');
+    expect(aleo.createdAt).toBe(1);
+    expect(aleo.tags).toEqual(['zk']);
+    expect(aleo.aleoPinned).toBe(true);
+    expect(folders.find((f: any) => f.id === aleo.folderId).name).toBe('Crypto');
+
+    const example = bookmarks.find((b: any) => b.url === 'https://example.com');
+    expect(example.folderId).toBe('bookmarks-bar');
+  });
+
+  it('merges encrypted legacy bookmarks once the wallet unlocks', () => {
+    expect(bookmarkService.findByUrl('https://wallet.test')).toBeUndefined();
+    expect(storageStore.get('encryptedBookmarks')).not.toBeUndefined();
+
+    mockWalletKey = walletKey;
+    bookmarkService.retryLegacyMigration();
+
+    expect(bookmarkService.findByUrl('https://wallet.test').title).toBe('Wallet');
+    expect(storageStore.get('encryptedBookmarks')).toBeUndefined();
+  });
+
+  it('rejects duplicate URLs and defaults to Other Bookmarks', () => {
+    const bookmark = bookmarkService.addBookmark({ url: 'https://docs.aleo.org', title: 'Docs' });
+    expect(bookmark.folderId).toBe('other-bookmarks');
+    expect(() => bookmarkService.addBookmark({ url: 'https://docs.aleo.org', title: 'Again' })).toThrow();
+  });
+
+  it('reorders bookmarks within a folder', () => {
+    const first = bookmarkService.addBookmark({ url: 'https://one.test', title: 'One', folderId: 'aleo-apps' });
+    const second = bookmarkService.addBookmark({ url: 'https://two.test', title: 'Two', folderId: 'aleo-apps' });
+
+    bookmarkService.moveBookmark(second.id, 'aleo-apps', 0);
+    expect(bookmarkService.getBookmarksInFolder('aleo-apps').map((b: any) => b.id)).toEqual([second.id, first.id]);
+  });
+
+  it('keeps favorites', () => {
+    const bookmark = bookmarkService.findByUrl('https://example.com');
+    bookmarkService.updateBookmark(bookmark.id, { isFavorite: true });
+    expect(bookmarkService.getFavorites().map((b: any) => b.id)).toEqual([bookmark.id]);
+  });
+
+  it('nests folders and refuses cycles', () => {
+    const parent = bookmarkService.createFolder('Research');
+    const child = bookmarkService.createFolder('Papers', parent.id);
+
+    expect(bookmarkService.getFolderPath(child.id)).toBe('Research/Papers');
+    expect(() => bookmarkService.moveFolder(parent.id, child.id)).toThrow('Cannot move a folder into itself');
+  });
+
+  it('moves a deleted folder\'s contents up to its parent', () => {
+    const parent = bookmarkService.createFolder('Reading');
+    const child = bookmarkService.createFolder('Later', parent.id);
+    const grandchild = bookmarkService.createFolder('Someday', child.id);
+    const bookmark = bookmarkService.addBookmark({ url: 'https://later.test', title: 'Later', folderId: child.id });
+
+    bookmarkService.deleteFolder(child.id);
+
+    const { folders } = bookmarkService.getAll();
+    expect(folders.find((f: any) => f.id === grandchild.id).parentId).toBe(parent.id);
+    expect(bookmarkService.getBookmark(bookmark.id).folderId).toBe(parent.id);
+  });
+
+  it('protects the default folders', () => {
+    expect(() => bookmarkService.deleteFolder('bookmarks-bar')).toThrow();
+    expect(() => bookmarkService.updateFolder('other-bookmarks', { name: 'Misc' })).toThrow();
+  });
+
+  it('recreates synced folder paths when restoring', () => {
+    const added = bookmarkService.addRestored([
+      { id: 'r1', url: 'https://restored.test', title: 'Restored', createdAt: 5, folderId: 'Research/Papers' },
+      { id: 'r2', url: 'https://aleo.org', title: 'Duplicate', createdAt: 6 }
+    ]);
+
+    expect(added).toBe(1);
+    const restored = bookmarkService.getBookmark('r1');
+    expect(bookmarkService.getFolderPath(restored.folderId)).toBe('Research/Papers');
+    expect(restored.aleoPinned).toBe(true);
+  });
+
+  it('imports a browser export into the default folders and reports duplicates', () => {
+    const result = bookmarkService.importHtml(`
+      <DL><p>
+        <DT><H3 PERSONAL_TOOLBAR_FOLDER="true">Bookmarks bar</H3>
+        <DL><p>
+          <DT><A HREF="https://example.com">Example again</A>
+          <DT><H3>Research</H3>
+          <DL><p><DT><A HREF="https://imported.test" TAGS="zk">Imported</A></DL><p>
+        </DL><p>
+        <DT><A HREF="https://loose.test">Loose</A>
+        <DT><A HREF="javascript:void(0)">Bookmarklet</A>
+      </DL><p>
+    `);
+
+    expect(result.added).toBe(2);
+    expect(result.skipped).toBe(1);
+    expect(result.duplicates).toEqual([{ url: 'https://example.com', title: 'Example again', folder: 'Bookmarks bar' }]);
+
+    const imported = bookmarkService.findByUrl('https://imported.test');
+    expect(bookmarkService.getFolderPath(imported.folderId)).toBe('Bookmarks Bar/Research');
+    expect(imported.tags).toEqual(['zk']);
+    expect(imported.aleoPinned).toBeUndefined();
+    expect(bookmarkService.findByUrl('https://loose.test').folderId).toBe('other-bookmarks');
+  });
+
+  it('exports JSON that imports losslessly', () => {
+    const json = bookmarkService.exportJson();
+    const before = bookmarkService.getAll();
+
+    // Everything is already present, so every bookmark is a duplicate
+    const result = bookmarkService.importJson(json);
+    expect(result.added).toBe(0);
+    expect(result.foldersCreated).toBe(0);
+    expect(result.duplicates).toHaveLength(before.bookmarks.length);
+    expect(JSON.parse(json).bookmarks.find((b: any) => b.url === 'https://example.com').isFavorite).toBe(true);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * History index tests
+ * Run with: npm test (after setting up testing environment)
+ */
+
+import { describe, it, expect, beforeAll, jest } from '@jest/globals';
+
+const legacyEncrypted = [
+  { id: 'e1', url: 'https://aleo.org/docs', title: 'Aleo Documentation', visitedAt: Date.now() - 3 * 60 * 60 * 1000 }
+];
+
+// Cleared to model a blob that only the wallet's key decrypts
+let mockLegacyKeyAvailable = true;
+
+jest.mock('../storage.service', () => ({
+  StorageService: {
+    getInstance: () => ({
+      getLocalEncryptionKey: () => 'test-key',
+      readLegacyHistory: () => {
+        if (!mockLegacyKeyAvailable && legacyEncrypted.length) {
+          throw new Error('Unsupported state or unable to authenticate data');
+        }
+        return legacyEncrypted.splice(0);
+      },
+      clearLegacyHistory: () => undefined
+    })
+  }
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+let historyService: any;
+let configStore: any;
+
+beforeAll(() => {
+  // Seed the plain history the old `history:*` handlers wrote
+  const Store = require('electron-store');
+  configStore = new Store({});
+  configStore.set('history', [
+    { id: 'p1', url: 'https://aleo.org/docs', title: 'Aleo Documentation', visitedAt: legacyEncrypted[0].visitedAt },
+    { id: 'p2', url: 'https://example.com/zero-knowledge', title: 'Zero-Knowledge Proofs', visitedAt: Date.now() - 40 * DAY }
+  ]);
+
+  ({ historyService } = require('../history.service'));
+});
+
+describe('HistoryService', () => {
+  it('merges both legacy histories once, keeping shared visits once', () => {
+    const recent = historyService.getRecent();
+
+    expect(configStore.get('history')).toBeUndefined();
+    expect(recent).toHaveLength(2);
+    expect(recent[0].url).toBe('https://aleo.org/docs');
+    expect(recent[0].visitCount).toBe(1);
+  });
+
+  it('matches every word, accents and case aside, and the last word as a prefix', () => {
+    historyService.addVisit({ url: 'https://café.example/menu', title: 'Café Menu' });
+
+    expect(historyService.search('cafe').results[0].title).toBe('Café Menu');
+    expect(historyService.search('zero proofs').results[0].url).toBe('https://example.com/zero-knowledge');
+    expect(historyService.search('zero know').total).toBe(1);
+    expect(historyService.search('zero know ').total).toBe(0);
+    expect(historyService.search('aleo proofs').total).toBe(0);
+  });
+
+  it('ranks title matches above URL-only matches and folds visits by page', () => {
+    const now = Date.now();
+    historyService.addVisit({ url: 'https://news.example/leo', title: 'Compiler release notes' }, now - 2 * DAY);
+    historyService.addVisit({ url: 'https://leo-lang.org/', title: 'Leo Language' }, now - 2 * DAY);
+    historyService.addVisit({ url: 'https://leo-lang.org/', title: 'Leo Language' }, now - DAY);
+
+    const { results } = historyService.search('leo');
+    expect(results[0].url).toBe('https://leo-lang.org/');
+    expect(results[0].visitCount).toBe(2);
+    expect(results[1].url).toBe('https://news.example/leo');
+
+    const page = historyService.getPageStats().find((p: any) => p.url === 'https://leo-lang.org/');
+    expect(page.visitCount).toBe(2);
+    expect(page.lastVisitedAt).toBe(now - DAY);
+  });
+
+  it('filters by date and domain and reports sites for the whole match', () => {
+    const lastWeek = historyService.search('', { from: Date.now() - 7 * DAY });
+    expect(lastWeek.results.some((r: any) => r.domain === 'example.com')).toBe(false);
+
+    const leo = historyService.search('leo', { domain: 'leo-lang.org' });
+    expect(leo.total).toBe(1);
+    expect(leo.facets.map((f: any) => f.domain).sort()).toEqual(['leo-lang.org', 'news.example']);
+  });
+
+  it('indexes page text only when enabled, even if it arrives before the visit', () => {
+    historyService.attachPageText('https://blog.example/post', 'Recursive snarks explained');
+    historyService.addVisit({ url: 'https://blog.example/post', title: 'Blog' });
+    expect(historyService.search('snarks').total).toBe(0);
+
+    historyService.updateSettings({ indexPageText: true });
+    historyService.attachPageText('https://blog.example/post', 'Recursive snarks explained');
+    expect(historyService.search('snarks').results[0].url).toBe('https://blog.example/post');
+  });
+
+  it('drops visits past the retention period', () => {
+    expect(() => historyService.updateSettings({ maxEntries: 10 })).toThrow();
+
+    historyService.updateSettings({ retentionDays: 30 });
+    expect(historyService.search('zero').total).toBe(0);
+    expect(historyService.search('leo').total).toBe(2);
+  });
+
+  it('deletes a visit and clears everything', () => {
+    const [visit] = historyService.search('cafe').results;
+    historyService.deleteEntry(visit.id);
+    expect(historyService.search('cafe').total).toBe(0);
+    expect(historyService.getPageStats().some((p: any) => p.url === visit.url)).toBe(false);
+
+    historyService.clear();
+    expect(historyService.getRecent()).toEqual([]);
+  });
+
+  it('moves encrypted legacy history once the wallet unlocks', () => {
+    mockLegacyKeyAvailable = false;
+    legacyEncrypted.push({ id: 'e2', url: 'https://wallet.test', title: 'Wallet', visitedAt: Date.now() - DAY });
+    historyService.retryLegacyMigration();
+    expect(historyService.search('wallet').total).toBe(0);
+
+    mockLegacyKeyAvailable = true;
+    historyService.retryLegacyMigration();
+    expect(historyService.search('wallet').results[0].url).toBe('https://wallet.test');
+  });
+});
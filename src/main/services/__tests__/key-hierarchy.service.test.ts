@@ -0,0 +1,47 @@
+/**
+ * Data key hierarchy tests
+ * Run with: npm test (after setting up testing environment)
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import crypto from 'crypto';
+import { encryptBytes } from '../../utils/crypto';
+import { keyHierarchyService } from '../key-hierarchy.service';
+
+const wallet = { address: 'aleo1keys', privateKey: 'APrivateKey1keys', viewKey: 'AViewKey1keys' };
+const otherWallet = { address: 'aleo1other', privateKey: 'APrivateKey1other', viewKey: 'AViewKey1other' };
+const secret = Buffer.from('meeting notes');
+
+describe('KeyHierarchyService', () => {
+  it('derives separate keys per purpose and account', () => {
+    const notesKey = keyHierarchyService.getKey(wallet, 'notes');
+
+    expect(notesKey.equals(keyHierarchyService.getKey(wallet, 'notes'))).toBe(true);
+    expect(notesKey.equals(keyHierarchyService.getKey(wallet, 'bookmarks'))).toBe(false);
+    expect(notesKey.equals(keyHierarchyService.getKey(otherWallet, 'notes'))).toBe(false);
+  });
+
+  it('opens sealed data for the same purpose only', () => {
+    const sealed = keyHierarchyService.seal(wallet, 'notes', secret);
+
+    expect(keyHierarchyService.open(wallet, 'notes', sealed)).toEqual({ plaintext: secret, version: 1 });
+    expect(() => keyHierarchyService.open(wallet, 'credentials', sealed)).toThrow();
+    expect(() => keyHierarchyService.open(otherWallet, 'notes', sealed)).toThrow();
+  });
+
+  it('keeps data from older key versions readable after rotation', () => {
+    const before = keyHierarchyService.seal(wallet, 'bookmarks', secret);
+
+    expect(keyHierarchyService.rotate(wallet.address, 'bookmarks')).toBe(2);
+    const after = keyHierarchyService.seal(wallet, 'bookmarks', secret);
+
+    expect(keyHierarchyService.open(wallet, 'bookmarks', before).version).toBe(1);
+    expect(keyHierarchyService.open(wallet, 'bookmarks', after).version).toBe(2);
+    expect(keyHierarchyService.getVersions(wallet.address).find((k: any) => k.purpose === 'bookmarks'))
+      .toMatchObject({ version: 2 });
+  });
+
+  it('rejects data that was not sealed by the hierarchy', () => {
+    expect(() => keyHierarchyService.open(wallet, 'credentials', encryptBytes(secret, crypto.randomBytes(32)))).toThrow();
+  });
+});
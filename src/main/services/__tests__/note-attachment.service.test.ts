@@ -0,0 +1,48 @@
+/**
+ * Note attachment tests
+ * Run with: npm test (after setting up testing environment)
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+// Note sync reaches the chain through these; attachments never do
+jest.mock('../record-scanner.service', () => ({ recordScannerService: {} }));
+jest.mock('../transaction-history.service', () => ({ transactionHistoryService: {} }));
+
+const { noteAttachmentService, attachmentType, MAX_ATTACHMENT_SIZE } = require('../note-attachment.service');
+
+const wallet = { address: 'aleo1test', privateKey: 'APrivateKey1test', viewKey: 'AViewKey1test' };
+const otherWallet = { address: 'aleo1other', privateKey: 'APrivateKey1other', viewKey: 'AViewKey1other' };
+const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe('NoteAttachmentService', () => {
+  it('encrypts a file and reads it back with the same wallet only', () => {
+    const attachment = noteAttachmentService.add('note-1', { name: 'Diagram.PNG', data: png }, [], wallet);
+
+    expect(attachment).toMatchObject({ name: 'Diagram.PNG', mimeType: 'image/png', size: png.length });
+    expect(noteAttachmentService.read('note-1', attachment.id, wallet).equals(png)).toBe(true);
+    expect(() => noteAttachmentService.read('note-1', attachment.id, otherWallet)).toThrow();
+  });
+
+  it('accepts only small images and PDFs', () => {
+    expect(attachmentType('paper.pdf')).toBe('application/pdf');
+    expect(attachmentType('logo.svg')).toBe(null);
+    expect(attachmentType('archive')).toBe(null);
+
+    expect(() => noteAttachmentService.add('note-2', { name: 'page.html', data: png }, [], wallet)).toThrow();
+    expect(() =>
+      noteAttachmentService.add('note-2', { name: 'big.jpg', data: Buffer.alloc(MAX_ATTACHMENT_SIZE + 1) }, [], wallet)
+    ).toThrow();
+  });
+
+  it('removes one attachment and rejects note ids that are not names', () => {
+    const first = noteAttachmentService.add('note-3', { name: 'a.png', data: png }, [], wallet);
+    const second = noteAttachmentService.add('note-3', { name: 'b.png', data: png }, [first], wallet);
+
+    noteAttachmentService.remove('note-3', first.id);
+    expect(() => noteAttachmentService.read('note-3', first.id, wallet)).toThrow('Attachment not found');
+    expect(noteAttachmentService.read('note-3', second.id, wallet).equals(png)).toBe(true);
+
+    expect(() => noteAttachmentService.read('../config', first.id, wallet)).toThrow('Invalid note id');
+  });
+});
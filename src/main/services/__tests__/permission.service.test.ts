@@ -0,0 +1,45 @@
+/**
+ * Site permission tests: connection expiry
+ * Run with: npm test (after setting up testing environment)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { permissionService } from '../permission.service';
+
+const ORIGIN = 'https://dapp.example';
+
+describe('PermissionService', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    permissionService.disconnectAllSites();
+    permissionService.grantPermission(ORIGIN, ['connect'], 'aleo1site');
+  });
+
+  afterEach(() => {
+    permissionService.disconnectAllSites();
+    jest.useRealTimers();
+  });
+
+  it('disconnects a site when its connection expires and tells listeners', () => {
+    const expired: string[] = [];
+    const unsubscribe = permissionService.onSiteExpired(origin => expired.push(origin));
+
+    permissionService.updateRestrictions(ORIGIN, { expiresAt: Date.now() + 60_000 });
+    jest.advanceTimersByTime(59_000);
+    expect(permissionService.isConnected(ORIGIN)).toBe(true);
+    expect(expired).toEqual([]);
+
+    jest.advanceTimersByTime(1_000);
+    expect(expired).toEqual([ORIGIN]);
+    expect(permissionService.getSitePermission(ORIGIN)).toBeNull();
+    unsubscribe();
+  });
+
+  it('treats an expired connection as disconnected without changing it', () => {
+    permissionService.updateRestrictions(ORIGIN, { expiresAt: Date.now() + 1_000 });
+    jest.setSystemTime(Date.now() + 2_000);
+
+    expect(permissionService.isConnected(ORIGIN)).toBe(false);
+    expect(permissionService.getSitePermission(ORIGIN)).not.toBeNull();
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Shields privacy service tests: site settings, stats, fingerprinting and WebRTC
+ * Run with: npm test (after setting up testing environment)
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+// Blocks any URL with /ads/ in it, as the ads list would
+jest.mock('../filter-list.service', () => ({
+  filterListService: {
+    match: (request: { url: string }, categories: Set<string>) =>
+      request.url.includes('/ads/') && categories.has('ads')
+        ? { filter: '/ads/*', listId: 'easylist', category: 'ads', listTitle: 'EasyList' }
+        : null
+  }
+}));
+
+import { privacyService } from '../privacy.service';
+
+// A tab whose requests go through the session's onBeforeRequest listener
+function openTab(id: number, pageUrl: string) {
+  let listener: (details: any, callback: (response: any) => void) => void = () => undefined;
+  const session = { webRequest: { onBeforeRequest: (fn: typeof listener) => { listener = fn; } } };
+  privacyService.attachToSession(session as any);
+
+  const webContents = { id, getType: () => 'browserView', getURL: () => pageUrl, once: () => undefined };
+  const request = (requestUrl: string, resourceType: string) => {
+    let response: any;
+    listener({ url: requestUrl, resourceType, referrer: '', webContents }, (r) => { response = r; });
+    return response;
+  };
+
+  request(pageUrl, 'mainFrame');
+  return { request };
+}
+
+describe('Shields site overrides', () => {
+  it('overrides a setting on one site only', () => {
+    privacyService.setSiteOverride('news.com', 'blockAds', false);
+    expect(privacyService.getSiteSettings('news.com').blockAds).toBe(false);
+    expect(privacyService.getSiteSettings('blog.com').blockAds).toBe(true);
+    expect(privacyService.getSiteOverrides('news.com')).toEqual({ blockAds: false });
+  });
+
+  it('drops an override set back to the global value', () => {
+    privacyService.setSiteOverride('news.com', 'blockAds', true);
+    expect(privacyService.getSiteOverrides('news.com')).toEqual({});
+  });
+
+  it('blocks by the settings of the page, not of the request', () => {
+    privacyService.setSiteOverride('news.com', 'blockAds', false);
+    const news = openTab(1, 'https://news.com/');
+    const blog = openTab(2, 'https://blog.com/');
+
+    expect(news.request('https://cdn.example.com/ads/1.js', 'script')).toEqual({});
+    expect(blog.request('https://cdn.example.com/ads/1.js', 'script')).toEqual({ cancel: true });
+    privacyService.resetSiteOverrides('news.com');
+  });
+});
+
+describe('Shields stats', () => {
+  it('counts blocked requests for the page and the site, with the rule that blocked them', () => {
+    privacyService.resetStats();
+    const tab = openTab(3, 'https://shop.com/');
+    tab.request('https://cdn.example.com/ads/1.js', 'script');
+    tab.request('https://cdn.example.com/ads/2.png', 'image');
+    tab.request('https://cdn.example.com/app.js', 'script');
+
+    const stats = privacyService.getSiteStats('shop.com', 3);
+    expect(stats.page.adsBlocked).toBe(2);
+    expect(stats.site.totalBlocked).toBe(2);
+    expect(stats.blocked.map((b) => b.url)).toEqual(['https://cdn.example.com/ads/2.png', 'https://cdn.example.com/ads/1.js']);
+    expect(stats.blocked[0]).toMatchObject({ category: 'ads', rule: '/ads/*', list: 'EasyList', resourceType: 'image' });
+  });
+
+  it('starts the page count over on navigation and keeps the site total', () => {
+    const tab = openTab(3, 'https://shop.com/cart');
+    tab.request('https://cdn.example.com/ads/3.js', 'script');
+
+    const stats = privacyService.getSiteStats('shop.com', 3);
+    expect(stats.page.totalBlocked).toBe(1);
+    expect(stats.site.totalBlocked).toBe(3);
+  });
+
+  it('has no page stats for a tab on another site', () => {
+    const stats = privacyService.getSiteStats('news.com', 3);
+    expect(stats.page.totalBlocked).toBe(0);
+    expect(stats.blocked).toEqual([]);
+  });
+});
+
+describe('Fingerprinting protection', () => {
+  it('follows the site settings and strict mode', () => {
+    expect(privacyService.getFingerprintProtection('news.com')).toBe('standard');
+    privacyService.updateSettings({ strictMode: true });
+    expect(privacyService.getFingerprintProtection('news.com')).toBe('strict');
+    privacyService.updateSettings({ strictMode: false });
+
+    privacyService.setSiteOverride('news.com', 'blockFingerprinting', false);
+    expect(privacyService.getFingerprintProtection('news.com')).toBe('off');
+    expect(privacyService.getFarblingScript('https://news.com/')).toBeNull();
+    privacyService.resetSiteOverrides('news.com');
+  });
+
+  it('has no script for pages that are not on the web', () => {
+    expect(privacyService.getFarblingScript('https://news.com/')).toContain('"standard"');
+    expect(privacyService.getFarblingScript('file:///home/user/page.html')).toBeNull();
+  });
+});
+
+describe('WebRTC IP handling', () => {
+  // A tab that records the policy it was given
+  function webRTCTab() {
+    const tab = {
+      policy: '',
+      destroy: () => undefined as void,
+      setWebRTCIPHandlingPolicy(policy: string) { tab.policy = policy; },
+      isDestroyed: () => false,
+      once(_event: string, listener: () => void) { tab.destroy = listener; }
+    };
+    return tab;
+  }
+
+  it('applies the policy to new tabs and live to open ones', () => {
+    const tab = webRTCTab();
+    privacyService.applyWebRTCPolicy(tab as any);
+    expect(tab.policy).toBe('default_public_interface_only');
+
+    privacyService.setWebRTCPolicy('disable_non_proxied_udp');
+    expect(tab.policy).toBe('disable_non_proxied_udp');
+    expect(privacyService.getWebRTCPolicy()).toBe('disable_non_proxied_udp');
+  });
+
+  it('leaves closed tabs alone', () => {
+    const tab = webRTCTab();
+    privacyService.applyWebRTCPolicy(tab as any);
+    tab.destroy();
+
+    privacyService.setWebRTCPolicy('default');
+    expect(tab.policy).toBe('disable_non_proxied_udp');
+  });
+
+  it('refuses unknown policies', () => {
+    expect(() => privacyService.setWebRTCPolicy('public' as any)).toThrow('Unknown WebRTC IP handling policy');
+  });
+});
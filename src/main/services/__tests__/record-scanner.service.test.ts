@@ -0,0 +1,220 @@
+/**
+ * Record scanner tests against a local fixture node
+ * Run with: npm test (after setting up testing environment)
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import http from 'http';
+import { AddressInfo } from 'net';
+
+import { recordScannerService, RecordDecryptor } from '../record-scanner.service';
+
+const VIEW_KEY = 'AViewKey1fixture';
+const OWNER = 'aleo1fixtureowner';
+
+const CREDITS_PROGRAM = [
+  'program credits.aleo;',
+  'function transfer_private:',
+  '    input r0 as credits.record;',
+  '    output r3 as credits.record;',
+  '    output r4 as credits.record;',
+].join('\n');
+
+function recordOutput(id: string, value: string) {
+  return { type: 'record', id, checksum: `${id}checksum`, value };
+}
+
+function block(height: number, transitions: any[]) {
+  return {
+    header: { metadata: { height } },
+    transactions: [{
+      status: 'accepted',
+      type: 'execute',
+      transaction: { id: `at1tx${height}`, execution: { transitions } }
+    }]
+  };
+}
+
+// Block 1 pays us 5 credits; block 2 spends it, pays 3 to someone else and 2 back to us
+const BLOCKS = [
+  block(0, []),
+  block(1, [{
+    id: 'au1first', program: 'credits.aleo', function: 'transfer_private',
+    inputs: [{ type: 'record', id: '1serial', tag: 'othertag' }],
+    outputs: [recordOutput('10field', 'record1mine5'), recordOutput('11field', 'record1theirs')]
+  }]),
+  block(2, [{
+    id: 'au1second', program: 'credits.aleo', function: 'transfer_private',
+    inputs: [{ type: 'record', id: '2serial', tag: 'tag-10field' }],
+    outputs: [recordOutput('20field', 'record1theirs'), recordOutput('21field', 'record1mine2')]
+  }]),
+  // Block 3 rejects a transaction that would have spent the 2 credits. As on a
+  // real node, only its fee is confirmed, as a fee transaction with a new ID.
+  {
+    header: { metadata: { height: 3 } },
+    transactions: [{
+      status: 'rejected',
+      type: 'execute',
+      index: 0,
+      transaction: {
+        type: 'fee',
+        id: 'at1feeofrejected',
+        fee: {
+          transition: {
+            id: 'au1fee', program: 'credits.aleo', function: 'fee_public',
+            inputs: [{ type: 'public', id: '30field', value: '100000u64' }],
+            outputs: [{ type: 'future', id: '31field', value: '{ program_id: credits.aleo }' }]
+          },
+          global_state_root: 'sr1fixture',
+          proof: 'proof1fixture'
+        }
+      },
+      rejected: {
+        type: 'execution',
+        execution: {
+          transitions: [{
+            id: 'au1rejected', program: 'credits.aleo', function: 'transfer_private',
+            inputs: [{ type: 'record', id: '3serial', tag: 'tag-21field' }],
+            outputs: [recordOutput('32field', 'record1theirs'), recordOutput('33field', 'record1mine9')]
+          }],
+          global_state_root: 'sr1fixture',
+          proof: 'proof1fixture'
+        }
+      },
+      finalize: []
+    }]
+  },
+];
+
+// The transaction as it was broadcast, before rejection
+const UNCONFIRMED_TRANSACTIONS: Record<string, { id: string }> = {
+  at1feeofrejected: { id: 'at1rejected' }
+};
+
+const fixtureDecryptor: RecordDecryptor = {
+  async decrypt(output) {
+    const match = output.ciphertext.match(/^record1mine(\d+)$/);
+    if (!match) return null;
+    return {
+      plaintext: `{\n  owner: ${OWNER}.private,\n  microcredits: ${match[1]}000000u64.private,\n  _nonce: ${output.commitment}nonce.public\n}`,
+      nonce: `${output.commitment}nonce`,
+      tag: `tag-${output.commitment}`
+    };
+  }
+};
+
+describe('RecordScannerService', () => {
+  let server: http.Server;
+  let latestHeight = 1;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      if (url.pathname === '/latest/height') {
+        res.end(String(latestHeight));
+      } else if (url.pathname === '/blocks') {
+        const start = Number(url.searchParams.get('start'));
+        const end = Number(url.searchParams.get('end'));
+        res.end(JSON.stringify(BLOCKS.slice(start, Math.min(end, latestHeight + 1))));
+      } else if (UNCONFIRMED_TRANSACTIONS[url.pathname.replace('/transaction/unconfirmed/', '')]) {
+        res.end(JSON.stringify({ type: 'execute', ...UNCONFIRMED_TRANSACTIONS[url.pathname.replace('/transaction/unconfirmed/', '')] }));
+      } else if (url.pathname === '/program/credits.aleo') {
+        res.end(JSON.stringify(CREDITS_PROGRAM));
+      } else {
+        res.statusCode = 404;
+        res.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    const { port } = server.address() as AddressInfo;
+    recordScannerService.setEndpoint(`http://127.0.0.1:${port}`, 'testnet');
+    recordScannerService.setDecryptor(fixtureDecryptor);
+  });
+
+  afterAll(async () => {
+    recordScannerService.setDecryptor(null);
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    recordScannerService.clearAll();
+    latestHeight = 1;
+  });
+
+  it('should index owned records and name them from the program source', async () => {
+    const result = await recordScannerService.sync({ viewKey: VIEW_KEY });
+
+    expect(result.newRecords).toBe(1);
+    expect(result.complete).toBe(true);
+
+    const records = recordScannerService.getRecords(VIEW_KEY, { programId: 'credits.aleo' });
+    expect(records.length).toBe(1);
+    expect(records[0].recordName).toBe('credits');
+    expect(records[0].owner).toBe(OWNER);
+    expect(records[0].microcredits).toBe(5_000_000);
+  });
+
+  it('should resume from the last synced height and mark spent records', async () => {
+    await recordScannerService.sync({ viewKey: VIEW_KEY });
+    expect(recordScannerService.getLastSyncedBlockHeight(VIEW_KEY)).toBe(1);
+
+    latestHeight = 2;
+    const result = await recordScannerService.sync({ viewKey: VIEW_KEY });
+
+    expect(result.fromHeight).toBe(2);
+    expect(result.spentRecords).toBe(1);
+
+    const unspent = recordScannerService.getRecords(VIEW_KEY);
+    expect(unspent.map(r => r.id)).toEqual(['21field']);
+
+    const all = recordScannerService.getRecords(VIEW_KEY, { includeSpent: true });
+    expect(all.find(r => r.id === '10field')?.spentInTransactionId).toBe('at1tx2');
+  });
+
+  it('should scan in the background and flag the index until it catches up', async () => {
+    recordScannerService.syncInBackground({ viewKey: VIEW_KEY });
+
+    expect(recordScannerService.isSyncing(VIEW_KEY)).toBe(true);
+    expect(recordScannerService.getRecords(VIEW_KEY)).toEqual([]);
+
+    // Joins the scan already running
+    await recordScannerService.sync({ viewKey: VIEW_KEY });
+    expect(recordScannerService.isSyncing(VIEW_KEY)).toBe(false);
+    expect(recordScannerService.getRecords(VIEW_KEY).map(r => r.id)).toEqual(['10field']);
+
+    // Routine scans of a caught-up index are not reported as syncing
+    latestHeight = 2;
+    recordScannerService.syncInBackground({ viewKey: VIEW_KEY });
+    expect(recordScannerService.isSyncing(VIEW_KEY)).toBe(false);
+    await recordScannerService.sync({ viewKey: VIEW_KEY });
+  });
+
+  it('should skip blocks before the scan start height', async () => {
+    latestHeight = 2;
+    recordScannerService.setScanStartHeight(VIEW_KEY, 2);
+
+    const result = await recordScannerService.sync({ viewKey: VIEW_KEY });
+
+    expect(result.fromHeight).toBe(2);
+    expect(recordScannerService.getRecords(VIEW_KEY).map(r => r.id)).toEqual(['21field']);
+  });
+
+  it('should release records held by a failed or rejected transaction', async () => {
+    latestHeight = 2;
+    await recordScannerService.sync({ viewKey: VIEW_KEY });
+
+    recordScannerService.markPendingSpend(VIEW_KEY, ['21field'], 'hold-failed');
+    expect(recordScannerService.selectCreditsRecord(VIEW_KEY, 1_000_000)).toBeNull();
+    recordScannerService.releasePendingSpend(VIEW_KEY, 'hold-failed');
+    expect(recordScannerService.selectCreditsRecord(VIEW_KEY, 1_000_000)?.id).toBe('21field');
+
+    recordScannerService.markPendingSpend(VIEW_KEY, ['21field'], 'at1rejected');
+    latestHeight = 3;
+    await recordScannerService.sync({ viewKey: VIEW_KEY });
+
+    // Neither spent nor paid out by the rejected execution
+    expect(recordScannerService.getPrivateCreditsBalance(VIEW_KEY)).toEqual({ confirmed: 2_000_000, pendingSpend: 0 });
+    expect(recordScannerService.getRecords(VIEW_KEY).map(r => r.id)).toEqual(['21field']);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Address bar suggestion tests
+ * Run with: npm test (after setting up testing environment)
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = Date.now();
+
+jest.mock('../history.service', () => ({
+  historyService: {
+    getPageStats: () => [
+      // Visited often, but not for months
+      { url: 'https://github.com/old-project', title: 'Old Project', visitCount: 30, lastVisitedAt: now - 200 * DAY, recentVisits: Array(10).fill(now - 200 * DAY) },
+      // Visited a few times this week
+      { url: 'https://github.com/', title: 'GitHub', visitCount: 5, lastVisitedAt: now - DAY, recentVisits: Array(5).fill(now - DAY) },
+      { url: 'https://docs.example.com/guide', title: 'Leo Guide', visitCount: 1, lastVisitedAt: now - 2 * DAY, recentVisits: [now - 2 * DAY] },
+      { url: 'https://news.example/', title: 'News', visitCount: 2, lastVisitedAt: now, recentVisits: [now, now - DAY] }
+    ]
+  }
+}));
+
+jest.mock('../bookmark.service', () => ({
+  bookmarkService: {
+    getAll: () => ({
+      bookmarks: [{ id: 'b1', url: 'https://developer.aleo.org/', title: 'Aleo Developer Docs', tags: ['zk'] }],
+      folders: []
+    })
+  }
+}));
+
+const { suggestionService, frecency } = require('../suggestion.service');
+
+describe('SuggestionService', () => {
+  it('weighs recent visits above old ones', () => {
+    const recent = { url: 'a', title: '', visitCount: 5, lastVisitedAt: now, recentVisits: Array(5).fill(now - DAY) };
+    const old = { url: 'b', title: '', visitCount: 30, lastVisitedAt: now, recentVisits: Array(10).fill(now - 200 * DAY) };
+
+    expect(frecency(recent, now)).toBe(500);
+    expect(frecency(old, now)).toBe(300);
+  });
+
+  it('puts the typed address first, then pages by frecency', () => {
+    const suggestions = suggestionService.suggest('github');
+
+    expect(suggestions[0].type).toBe('search');
+    expect(suggestions.slice(1).map((s: any) => s.url)).toEqual([
+      'https://github.com/',
+      'https://github.com/old-project'
+    ]);
+  });
+
+  it('uses the chosen search engine and keyword shortcuts', () => {
+    expect(suggestionService.suggest('zero knowledge', { searchEngine: 'brave' })[0].url)
+      .toBe('https://search.brave.com/search?q=zero%20knowledge');
+
+    const [keyword] = suggestionService.suggest('w zero knowledge');
+    expect(keyword.type).toBe('keyword');
+    expect(keyword.url).toBe('https://en.wikipedia.org/w/index.php?search=zero%20knowledge');
+
+    expect(suggestionService.suggest('localhost:3000')[0].url).toBe('https://localhost:3000');
+  });
+
+  it('matches bookmark titles and tags, and offers to switch to open tabs', () => {
+    expect(suggestionService.suggest('zk')[1].type).toBe('bookmark');
+
+    const suggestions = suggestionService.suggest('news', {
+      openTabs: [{ id: 'tab-2', url: 'https://news.example/', title: 'News' }]
+    });
+    expect(suggestions[1]).toMatchObject({ type: 'tab', tabId: 'tab-2', url: 'https://news.example/' });
+  });
+
+  it('requires every word and lists top sites for an empty input', () => {
+    expect(suggestionService.suggest('leo guide')).toHaveLength(2);
+    expect(suggestionService.suggest('leo missing')).toHaveLength(1);
+    expect(suggestionService.suggest('', { limit: 2 }).map((s: any) => s.url)).toEqual([
+      'https://github.com/',
+      'https://github.com/old-project'
+    ]);
+  });
+});
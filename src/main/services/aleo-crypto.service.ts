@@ -120,10 +120,45 @@ export async function generateAccount(): Promise<AleoAccount> {
   }
 }
 
+const HARDENED_OFFSET = 0x80000000;
+const ALEO_COIN_TYPE = 683;
+
+/**
+ * SLIP-10 hardened derivation (ed25519 curve parameters) of the key at a path
+ * of hardened indexes, e.g. [44, 683, 1] for m/44'/683'/1'
+ */
+function slip10DeriveHardened(seedBuffer: Buffer, path: number[]): Buffer {
+  let node = crypto.createHmac('sha512', 'ed25519 seed').update(seedBuffer).digest();
+
+  for (const index of path) {
+    const data = Buffer.alloc(37);
+    node.copy(data, 1, 0, 32);                       // 0x00 || parent key
+    data.writeUInt32BE((index + HARDENED_OFFSET) >>> 0, 33);
+    node = crypto.createHmac('sha512', node.subarray(32)).update(data).digest();
+  }
+
+  return node.subarray(0, 32);
+}
+
+/**
+ * Derive the 32 private key seed bytes for an HD account index.
+ * Index 0 keeps the original derivation (first 32 bytes of the BIP39 seed) so
+ * existing wallets keep their address; later indexes use SLIP-10 hardened
+ * derivation along m/44'/683'/index' (683 = Aleo coin type).
+ */
+function deriveAccountSeedBytes(seedBuffer: Buffer, index: number): Uint8Array {
+  if (index === 0) {
+    return new Uint8Array(seedBuffer.buffer.slice(0, 32));
+  }
+
+  return new Uint8Array(slip10DeriveHardened(seedBuffer, [44, ALEO_COIN_TYPE, index]));
+}
+
 /**
  * Generate an Aleo account from a BIP39 mnemonic seed
+ * @param index - HD account index (0 = primary account)
  */
-export async function generateAccountFromSeed(mnemonic?: string): Promise<AleoAccount> {
+export async function generateAccountFromSeed(mnemonic?: string, index: number = 0): Promise<AleoAccount> {
   try {
     // Generate or validate mnemonic
     const seed = mnemonic || bip39.generateMnemonic(256); // 24 words
@@ -137,8 +172,11 @@ export async function generateAccountFromSeed(mnemonic?: string): Promise<AleoAc
 
     const sdk = await initSdk();
 
-    // Use the first 32 bytes of the seed to create a private key
-    const seedBytes = new Uint8Array(seedBuffer.buffer.slice(0, 32));
+    if (!Number.isInteger(index) || index < 0) {
+      throw new Error('Account index must be a non-negative integer');
+    }
+
+    const seedBytes = deriveAccountSeedBytes(seedBuffer, index);
     const privateKey = sdk.PrivateKey.from_seed_unchecked(seedBytes);
     const privateKeyString = privateKey.to_string();
 
@@ -272,6 +310,86 @@ export async function decryptRecord(viewKeyString: string, ciphertext: string):
   }
 }
 
+/**
+ * A record ciphertext that was successfully decrypted with the owner's view key
+ */
+export interface OwnedRecordPlaintext {
+  plaintext: string;
+  nonce: string;
+  tag: string;
+  serialNumber?: string;
+}
+
+/**
+ * Trial-decrypt a record ciphertext from a transition output.
+ * Returns null when the view key does not own the record. The record tag is always
+ * derived (it only needs the view key); the serial number additionally needs the
+ * private key and is omitted when none is supplied.
+ */
+export async function decryptOwnedRecord(
+  viewKeyString: string,
+  ciphertextString: string,
+  commitment: string,
+  programId: string,
+  recordName: string,
+  privateKeyString?: string
+): Promise<OwnedRecordPlaintext | null> {
+  try {
+    const sdk = await initSdk();
+
+    const viewKey = sdk.ViewKey.from_string(viewKeyString);
+    const ciphertext = sdk.RecordCiphertext.fromString(ciphertextString);
+
+    if (!ciphertext.isOwner(viewKey)) {
+      return null;
+    }
+
+    const plaintext = ciphertext.decrypt(viewKey);
+    const graphKey = sdk.GraphKey.from_view_key(viewKey);
+    const tag = sdk.RecordCiphertext.tag(graphKey, sdk.Field.fromString(commitment)).toString();
+
+    let serialNumber: string | undefined;
+    if (privateKeyString) {
+      const recordViewKey = ciphertext.recordViewKey(viewKey).toString();
+      serialNumber = plaintext.serialNumberString(
+        sdk.PrivateKey.from_string(privateKeyString),
+        programId,
+        recordName,
+        recordViewKey
+      );
+    }
+
+    return {
+      plaintext: plaintext.toString(),
+      nonce: plaintext.nonce(),
+      tag,
+      serialNumber
+    };
+  } catch (error) {
+    console.error('Error decrypting owned record:', error);
+    throw new Error(`Failed to decrypt record: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Diffie-Hellman secret between an account and another address. An address is
+ * its view key times the generator, so either side multiplying the other's
+ * address by its own view key gets the same point; its x-coordinate is returned.
+ */
+export async function deriveSharedSecret(viewKeyString: string, addressString: string): Promise<string> {
+  try {
+    const sdk = await initSdk();
+
+    const scalar = sdk.ViewKey.from_string(viewKeyString).to_scalar();
+    const point = sdk.Address.from_string(addressString).toGroup().scalarMultiply(scalar);
+
+    return point.toXCoordinate().toString();
+  } catch (error) {
+    console.error('Error deriving shared secret:', error);
+    throw new Error(`Failed to derive shared secret: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 /**
  * Validate Aleo private key format
  */
@@ -416,10 +534,10 @@ class AleoCryptoService {
     return generateAccount();
   }
 
-  async generateAccountFromSeed(mnemonic?: string): Promise<AleoAccount> {
+  async generateAccountFromSeed(mnemonic?: string, index: number = 0): Promise<AleoAccount> {
     await this.initialize();
     this.ensureSdkAvailable();
-    return generateAccountFromSeed(mnemonic);
+    return generateAccountFromSeed(mnemonic, index);
   }
 
   async importFromPrivateKey(privateKey: string): Promise<AleoAccount> {
@@ -446,6 +564,25 @@ class AleoCryptoService {
     return decryptRecord(viewKey, ciphertext);
   }
 
+  async decryptOwnedRecord(
+    viewKey: string,
+    ciphertext: string,
+    commitment: string,
+    programId: string,
+    recordName: string,
+    privateKey?: string
+  ): Promise<OwnedRecordPlaintext | null> {
+    await this.initialize();
+    this.ensureSdkAvailable();
+    return decryptOwnedRecord(viewKey, ciphertext, commitment, programId, recordName, privateKey);
+  }
+
+  async deriveSharedSecret(viewKey: string, address: string): Promise<string> {
+    await this.initialize();
+    this.ensureSdkAvailable();
+    return deriveSharedSecret(viewKey, address);
+  }
+
   isValidPrivateKey(privateKey: string): boolean {
     return isValidPrivateKey(privateKey);
   }
@@ -3,8 +3,19 @@
  * Handles real interaction with the Aleo network using @provablehq/sdk
  */
 
-import { AleoBalance, AleoRecord, AleoTransaction, TransferParams, ExecuteProgramParams } from '@shared/types';
+import {
+  AleoBalance,
+  AleoRecord,
+  AleoTransaction,
+  TransferParams,
+  TransferKind,
+  ExecuteProgramParams,
+  DeployProgramParams,
+  DeploymentPreview
+} from '@shared/types';
 import https from 'https';
+import crypto from 'crypto';
+import { recordScannerService, ScanKeys, IndexedRecord } from './record-scanner.service';
 
 // API endpoints
 const ALEO_TESTNET_API = 'https://api.explorer.aleo.org/v1/testnet';
@@ -40,21 +51,25 @@ function httpsGet(url: string): Promise<string> {
 // Network type
 type Network = 'testnet' | 'mainnet';
 
-// Dynamic import for the SDK
-let aleoSdk: any = null;
+// Dynamic import for the SDK; each network has its own build
+const SDK_MODULES: Record<Network, string> = {
+  testnet: '@provablehq/sdk',
+  mainnet: '@provablehq/sdk/mainnet.js'
+};
+const aleoSdks: Partial<Record<Network, any>> = {};
 
-async function initSdk(): Promise<any> {
-  if (!aleoSdk) {
+async function initSdk(network: Network = 'testnet'): Promise<any> {
+  if (!aleoSdks[network]) {
     try {
       // Use new Function to create dynamic import that TypeScript won't transform to require()
       // This is necessary because @provablehq/sdk is a pure ES Module
       const dynamicImport = new Function('modulePath', 'return import(modulePath)');
-      aleoSdk = await dynamicImport('@provablehq/sdk');
+      aleoSdks[network] = await dynamicImport(SDK_MODULES[network]);
     } catch (error) {
       console.warn('Aleo SDK not available, using API-only mode');
     }
   }
-  return aleoSdk;
+  return aleoSdks[network];
 }
 
 export class AleoService {
@@ -62,6 +77,13 @@ export class AleoService {
   private connected: boolean = false;
   private network: Network = 'testnet';
   private apiBase: string = ALEO_TESTNET_API;
+  private networkListeners: Set<(network: Network) => void> = new Set();
+
+  // Transfers whose amount comes from a private credits record
+  private static readonly PRIVATE_INPUT_TRANSFERS: TransferKind[] = [
+    'transfer_private',
+    'transfer_private_to_public'
+  ];
 
   private constructor() {}
 
@@ -79,9 +101,32 @@ export class AleoService {
    * Set the network (testnet or mainnet)
    */
   setNetwork(network: Network): void {
+    const changed = network !== this.network;
     this.network = network;
     this.apiBase = network === 'mainnet' ? ALEO_MAINNET_API : ALEO_TESTNET_API;
     this.connected = false; // Require reconnection
+    recordScannerService.setEndpoint(this.apiBase, network);
+
+    if (changed) {
+      this.networkListeners.forEach(listener => listener(network));
+    }
+  }
+
+  /**
+   * Subscribe to network changes. Returns an unsubscribe function.
+   */
+  onNetworkChanged(listener: (network: Network) => void): () => void {
+    this.networkListeners.add(listener);
+    return () => {
+      this.networkListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Node host for the SDK, which appends the network path itself
+   */
+  private getSdkHost(): string {
+    return this.apiBase.slice(0, -`/${this.network}`.length);
   }
 
   /**
@@ -161,9 +206,11 @@ export class AleoService {
   }
 
   /**
-   * Get public and private balance for an address
+   * Get public and private balance for an address.
+   * The private balance needs the account keys: owned credits.aleo records are
+   * scanned incrementally and their unspent microcredits summed.
    */
-  async getBalance(address: string): Promise<AleoBalance> {
+  async getBalance(address: string, keys?: ScanKeys): Promise<AleoBalance> {
     // Auto-connect if not connected
     if (!this.connected) {
       try {
@@ -176,11 +223,19 @@ export class AleoService {
     try {
       const publicBalance = await this.getPublicBalance(address);
 
-      // Note: Private balance requires scanning records with view key
-      // This is done client-side and cannot be retrieved via API
+      if (!keys) {
+        return { public: publicBalance, private: 0 };
+      }
+
+      // Serve the indexed state; new blocks are scanned in the background
+      recordScannerService.syncInBackground(keys);
+
+      const privateBalance = recordScannerService.getPrivateCreditsBalance(keys.viewKey);
       return {
         public: publicBalance,
-        private: 0 // Private balance must be calculated from records
+        private: privateBalance.confirmed / 1_000_000,
+        privatePending: privateBalance.pendingSpend / 1_000_000,
+        privateSyncing: recordScannerService.isSyncing(keys.viewKey)
       };
     } catch (error) {
       console.error('Error fetching balance:', error);
@@ -189,15 +244,24 @@ export class AleoService {
   }
 
   /**
-   * Transfer ALEO tokens using the SDK
+   * Transfer ALEO tokens using the SDK.
+   * Supports the full credits.aleo transfer matrix; for transfers that spend a
+   * private record, the smallest indexed record covering the amount is selected
+   * automatically. The fee is always paid from the public balance.
    */
   async transfer(params: TransferParams): Promise<string> {
-    const { privateKey, to, amount, fee = 0.1 } = params;
+    const { privateKey, to, amount, fee = 0.1, transferKind = 'transfer_public', viewKey } = params;
 
     // Validate inputs
     this.validateAddress(to);
     this.validateAmount(amount);
 
+    const spendsRecord = AleoService.PRIVATE_INPUT_TRANSFERS.includes(transferKind);
+    if (spendsRecord && !viewKey) {
+      throw new Error('A view key is required for transfers from the private balance');
+    }
+
+    let hold: string | null = null;
     try {
       const sdk = await initSdk();
 
@@ -209,13 +273,32 @@ export class AleoService {
       const amountMicrocredits = BigInt(Math.floor(amount * 1_000_000));
       const feeMicrocredits = Math.floor(fee * 1_000_000);
 
-      console.log(`[Aleo Transfer] Initiating transfer of ${amount} ALEO (${amountMicrocredits} microcredits) to ${to}`);
+      console.log(`[Aleo Transfer] Initiating ${transferKind} of ${amount} ALEO (${amountMicrocredits} microcredits) to ${to}`);
       console.log(`[Aleo Transfer] Fee: ${fee} ALEO (${feeMicrocredits} microcredits)`);
 
-      // Try different SDK API patterns
+      // Select an input record for private spends
+      let amountRecord: IndexedRecord | null = null;
+      if (spendsRecord && viewKey) {
+        try {
+          await recordScannerService.sync({ viewKey, privateKey });
+        } catch (error) {
+          console.warn('[Aleo Transfer] Record sync failed, using indexed records:', error);
+        }
+
+        amountRecord = recordScannerService.selectCreditsRecord(viewKey, Number(amountMicrocredits));
+        if (!amountRecord) {
+          const balance = recordScannerService.getPrivateCreditsBalance(viewKey);
+          throw new Error(`No single private record covers ${amount} ALEO (spendable private balance: ${balance.confirmed / 1_000_000} ALEO)`);
+        }
+        console.log(`[Aleo Transfer] Using record ${amountRecord.id} (${amountRecord.microcredits} microcredits)`);
+
+        // Keep a concurrent transfer from picking the same record while this one is proved
+        hold = this.holdRecords(viewKey, [amountRecord.id]);
+      }
+
       let txId: string;
 
-      // Method 1: ProgramManager API (SDK v0.9+)
+      // ProgramManager API (SDK v0.9+)
       if (sdk.ProgramManager) {
         console.log('[Aleo Transfer] Using ProgramManager API');
 
@@ -231,25 +314,30 @@ export class AleoService {
           throw new Error('Account class not available in SDK');
         }
 
-        // Execute transfer_public function on credits.aleo
-        txId = await programManager.execute(
-          'credits.aleo',
-          'transfer_public',
-          [to, `${amountMicrocredits}u64`],
-          feeMicrocredits,
-          undefined, // proving key
-          undefined, // verifying key
-          undefined, // record (for private transfers)
-          undefined  // imports
+        txId = await programManager.transfer(
+          amount,
+          to,
+          transferKind,
+          fee,
+          false, // pay the fee publicly
+          undefined, // record search params
+          amountRecord?.plaintext
         );
       } else {
         throw new Error('ProgramManager not found in SDK');
       }
 
+      if (amountRecord && viewKey) {
+        recordScannerService.markPendingSpend(viewKey, [amountRecord.id], txId);
+      }
+
       console.log(`[Aleo Transfer] Transaction submitted: ${txId}`);
       return txId;
     } catch (error) {
       console.error('[Aleo Transfer] Error:', error);
+      if (hold && viewKey) {
+        recordScannerService.releasePendingSpend(viewKey, hold);
+      }
 
       // Provide more helpful error messages
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
@@ -268,12 +356,13 @@ export class AleoService {
    * Execute an Aleo program
    */
   async executeProgram(params: ExecuteProgramParams): Promise<string> {
-    const { programId, functionName, inputs, fee, privateKey } = params;
+    const { programId, functionName, inputs, fee, privateKey, consumes } = params;
 
     if (!programId || !functionName) {
       throw new Error('Program ID and function name are required');
     }
 
+    const hold = consumes ? this.holdRecords(consumes.viewKey, consumes.recordIds) : null;
     try {
       const sdk = await initSdk();
 
@@ -340,11 +429,18 @@ export class AleoService {
         undefined,
       );
 
+      if (consumes) {
+        recordScannerService.markPendingSpend(consumes.viewKey, consumes.recordIds, txId);
+      }
+
       console.log(`[Aleo Execute] Transaction submitted: ${txId}`);
       return txId;
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
       console.error(`[Aleo Execute] Error:`, error);
+      if (consumes && hold) {
+        recordScannerService.releasePendingSpend(consumes.viewKey, hold);
+      }
 
       // Provide helpful error messages
       if (errorMsg.includes('404') || errorMsg.includes('not found') || errorMsg.includes('undefined')) {
@@ -362,13 +458,112 @@ export class AleoService {
   }
 
   /**
-   * Get records for a user (requires view key for decryption)
+   * Validate a program for deployment and estimate its base fee.
+   * Only compiled Aleo instructions can be deployed; Leo source must be built first.
+   */
+  async prepareDeployment(program: string): Promise<DeploymentPreview> {
+    if (!program || !program.trim()) {
+      throw new Error('Program source is required');
+    }
+
+    if (/^\s*program\s+[a-z0-9_]+\.aleo\s*\{/m.test(program)) {
+      throw new Error('Leo source must be compiled to Aleo instructions before deployment');
+    }
+
+    const programMatch = program.match(/^\s*program\s+([a-z0-9_]+\.aleo)\s*;/m);
+    if (!programMatch) {
+      throw new Error('Invalid program: missing "program <name>.aleo;" declaration');
+    }
+    const programId = programMatch[1];
+
+    const imports = Array.from(program.matchAll(/^\s*import\s+([a-z0-9_]+\.aleo)\s*;/gm), m => m[1]);
+
+    if (await this.getProgram(programId)) {
+      throw new Error(`Program '${programId}' is already deployed on ${this.network}`);
+    }
+
+    // Imports must already be on-chain; their source is also needed for fee estimation
+    const importSources: Record<string, string> = {};
+    for (const importId of imports) {
+      const source = await this.getProgram(importId);
+      if (!source) {
+        throw new Error(`Imported program '${importId}' not found on ${this.network}`);
+      }
+      importSources[importId] = source.startsWith('"') ? JSON.parse(source) : source;
+    }
+
+    let estimatedFee = 0;
+    try {
+      const sdk = await initSdk(this.network);
+      if (sdk?.ProgramManagerBase?.estimateDeploymentFee) {
+        const microcredits: bigint = await sdk.ProgramManagerBase.estimateDeploymentFee(program, importSources);
+        estimatedFee = Number(microcredits) / 1_000_000;
+      }
+    } catch (error) {
+      console.warn(`[Aleo Deploy] Fee estimation failed for ${programId}:`, error);
+    }
+
+    return { programId, imports, estimatedFee, source: program, network: this.network };
+  }
+
+  /**
+   * Deploy a program using the SDK, on the current network
+   */
+  async deployProgram(params: DeployProgramParams): Promise<string> {
+    const { program, priorityFee = 0, privateKey, network } = params;
+
+    if (network && network !== this.network) {
+      throw new Error(`Deployment was prepared for ${network}, but the wallet is on ${this.network}`);
+    }
+
+    try {
+      const sdk = await initSdk(this.network);
+
+      if (!sdk || !sdk.ProgramManager) {
+        throw new Error('Aleo SDK not available');
+      }
+
+      const apiUrl = this.getSdkHost();
+      console.log(`[Aleo Deploy] Using API: ${apiUrl} (${this.network})`);
+      const programManager = new sdk.ProgramManager(apiUrl, undefined, undefined);
+
+      // Use constructor pattern (SDK v0.9.15+)
+      const account = new sdk.Account({ privateKey: privateKey });
+      programManager.setAccount(account);
+
+      console.log(`[Aleo Deploy] Deploying program, priority fee: ${priorityFee} ALEO`);
+
+      const txId = await programManager.deploy(program, priorityFee, false);
+
+      console.log(`[Aleo Deploy] Transaction submitted: ${txId}`);
+      return txId;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Aleo Deploy] Error:`, error);
+
+      if (errorMsg.includes('insufficient')) {
+        throw new Error('Insufficient public balance to pay the deployment fee');
+      }
+      if (errorMsg.includes('network') || errorMsg.includes('fetch')) {
+        throw new Error(`Network error connecting to Aleo ${this.network}. Please check your connection.`);
+      }
+
+      throw new Error(`Program deployment failed: ${errorMsg}`);
+    }
+  }
+
+  /**
+   * Get indexed unspent records owned by the view key. Blocks added since the last
+   * sync are scanned in the background; `syncing` is set while the index is behind.
+   * Passing the private key lets the scanner derive serial numbers for spent tracking.
    */
-  async getRecords(viewKey: string, programId?: string): Promise<AleoRecord[]> {
-    // Records require client-side scanning and decryption
-    // This is a complex operation that requires iterating through blocks
-    console.log('Record fetching requires view key scanning - returning empty for now');
-    return [];
+  getRecords(viewKey: string, programId?: string, privateKey?: string): { records: AleoRecord[]; syncing: boolean } {
+    recordScannerService.syncInBackground({ viewKey, privateKey });
+
+    return {
+      records: recordScannerService.getRecords(viewKey, { programId }),
+      syncing: recordScannerService.isSyncing(viewKey)
+    };
   }
 
   /**
@@ -493,6 +688,17 @@ export class AleoService {
            address.length === 63;
   }
 
+  /**
+   * Mark records as pending spend under a placeholder until the transaction
+   * that spends them has an ID
+   * @returns The placeholder, for releasing the records if submission fails
+   */
+  private holdRecords(viewKey: string, recordIds: string[]): string {
+    const hold = `hold-${crypto.randomUUID()}`;
+    recordScannerService.markPendingSpend(viewKey, recordIds, hold);
+    return hold;
+  }
+
   /**
    * Validate amount
    */
@@ -0,0 +1,234 @@
+/**
+ * Wallet Backup Service
+ * Builds and restores password-encrypted backup files holding the keyring,
+ * address book, connected-site permissions and transaction history
+ */
+
+import { Keyring } from '@shared/types';
+import { createVault, openVault, Vault } from '../utils/vault';
+import { walletService, parseKeyring } from './wallet.service';
+import { permissionService, SitePermission } from './permission.service';
+import { transactionHistoryService, TransactionRecord } from './transaction-history.service';
+import { aleoCryptoService } from './aleo-crypto.service';
+
+const BACKUP_FORMAT = 'aleo-browser-backup';
+export const BACKUP_VERSION = 1;
+
+// Address book entry as kept by the renderer (AddressBook.tsx)
+export interface AddressBookEntry {
+  id: string;
+  name: string;
+  address: string;
+  createdAt: number;
+  lastUsed?: number;
+}
+
+// Decrypted backup contents
+export interface WalletBackup {
+  keyring: Keyring;
+  addressBook: AddressBookEntry[];
+  sites: Record<string, SitePermission>;
+  transactions: TransactionRecord[];
+}
+
+// On-disk backup file; everything but the header is inside the vault
+interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  vault: Vault;
+}
+
+interface MergeCount {
+  added: number;
+  skipped: number;
+}
+
+export interface BackupRestoreReport {
+  accounts: MergeCount;
+  addressBook: MergeCount;
+  sites: MergeCount;
+  transactions: MergeCount;
+  conflicts: string[];
+}
+
+export class BackupService {
+  private static instance: BackupService;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): BackupService {
+    if (!BackupService.instance) {
+      BackupService.instance = new BackupService();
+    }
+    return BackupService.instance;
+  }
+
+  /**
+   * Serialize the unlocked wallet into an encrypted backup file
+   * @param addressBook - Address book from the renderer
+   * @param password - Backup password (independent of the wallet password)
+   */
+  async createBackup(addressBook: AddressBookEntry[], password: string): Promise<string> {
+    if (!password || password.length < 8) {
+      throw new Error('Backup password must be at least 8 characters long');
+    }
+
+    try {
+      const { sites } = JSON.parse(permissionService.exportPermissions());
+      const backup: WalletBackup = {
+        keyring: walletService.getKeyring(),
+        addressBook: addressBook || [],
+        sites: sites || {},
+        transactions: JSON.parse(transactionHistoryService.exportToJson()),
+      };
+
+      const { vault, key } = await createVault(JSON.stringify(backup), password);
+      key.fill(0);
+
+      const file: BackupFile = {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        createdAt: Date.now(),
+        vault,
+      };
+      return JSON.stringify(file, null, 2);
+    } catch (error) {
+      throw new Error(`Failed to create backup: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Decrypt and validate a backup file
+   */
+  async readBackup(content: string, password: string): Promise<WalletBackup> {
+    let file: BackupFile;
+    try {
+      file = JSON.parse(content);
+    } catch {
+      throw new Error('Backup file is not valid JSON');
+    }
+
+    if (file?.format !== BACKUP_FORMAT || !file.vault?.data) {
+      throw new Error('Not an AleoBrowser wallet backup');
+    }
+    if (typeof file.version !== 'number' || file.version > BACKUP_VERSION) {
+      throw new Error(`Unsupported backup version: ${file.version}`);
+    }
+
+    const unlocked = await openVault(file.vault, password);
+    unlocked.key.fill(0);
+
+    return this.validateBackup(JSON.parse(unlocked.plaintext));
+  }
+
+  /**
+   * Merge a decrypted backup into the unlocked wallet. Existing data always wins;
+   * anything kept over a differing backup entry is reported as a conflict.
+   * @param addressBook - Current address book from the renderer
+   * @returns The report and the merged address book for the renderer to store
+   */
+  restoreBackup(backup: WalletBackup, addressBook: AddressBookEntry[]): { report: BackupRestoreReport; addressBook: AddressBookEntry[] } {
+    try {
+      const accounts = walletService.mergeAccounts(backup.keyring.accounts, backup.keyring.mnemonic);
+
+      // Account IDs are regenerated on merge, so rebind sites by address
+      const accountIds = new Map(walletService.getAccounts().map(a => [a.address, a.id]));
+      const sites: Record<string, SitePermission> = {};
+      for (const [origin, site] of Object.entries(backup.sites)) {
+        sites[origin] = { ...site, accountId: accountIds.get(site.address) };
+      }
+      const siteResult = permissionService.mergeSites(sites);
+
+      const transactionsAdded = transactionHistoryService.importFromJson(JSON.stringify(backup.transactions));
+
+      const merged = this.mergeAddressBook(addressBook || [], backup.addressBook);
+
+      return {
+        report: {
+          accounts: { added: accounts.added, skipped: accounts.skipped },
+          addressBook: { added: merged.added, skipped: merged.skipped },
+          sites: { added: siteResult.added, skipped: siteResult.skipped },
+          transactions: {
+            added: transactionsAdded,
+            skipped: backup.transactions.length - transactionsAdded,
+          },
+          conflicts: [...accounts.conflicts, ...merged.conflicts, ...siteResult.conflicts],
+        },
+        addressBook: merged.entries,
+      };
+    } catch (error) {
+      throw new Error(`Failed to restore backup: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Add backup address book entries whose address is not saved yet
+   */
+  private mergeAddressBook(
+    current: AddressBookEntry[],
+    incoming: AddressBookEntry[]
+  ): { entries: AddressBookEntry[]; added: number; skipped: number; conflicts: string[] } {
+    const entries = [...current];
+    const conflicts: string[] = [];
+    let added = 0;
+    let skipped = 0;
+
+    for (const entry of incoming) {
+      const existing = entries.find(e => e.address === entry.address);
+      if (existing) {
+        if (existing.name !== entry.name) {
+          conflicts.push(`Contact ${entry.address}: kept "${existing.name}", backup name was "${entry.name}"`);
+        }
+        skipped++;
+        continue;
+      }
+
+      entries.push(entry);
+      added++;
+    }
+
+    return { entries, added, skipped, conflicts };
+  }
+
+  /**
+   * Check the decrypted payload before anything is merged. Each account's
+   * address and view key must be the ones its private key derives.
+   */
+  private async validateBackup(data: any): Promise<WalletBackup> {
+    const keyring = parseKeyring(data?.keyring);
+    for (const account of keyring.accounts) {
+      if (typeof account.address !== 'string' || !aleoCryptoService.isValidPrivateKey(account.privateKey)) {
+        throw new Error('Backup contains an invalid account');
+      }
+
+      const derived = await aleoCryptoService.importFromPrivateKey(account.privateKey);
+      if (derived.address !== account.address || derived.viewKey !== account.viewKey) {
+        throw new Error(`Backup account ${account.address} does not match its private key`);
+      }
+    }
+
+    const addressBook = data.addressBook ?? [];
+    if (!Array.isArray(addressBook) || addressBook.some((e: any) => typeof e?.address !== 'string' || typeof e?.name !== 'string')) {
+      throw new Error('Backup contains an invalid address book');
+    }
+
+    const sites = data.sites ?? {};
+    if (typeof sites !== 'object' || Array.isArray(sites)) {
+      throw new Error('Backup contains invalid site permissions');
+    }
+
+    const transactions = data.transactions ?? [];
+    if (!Array.isArray(transactions) || transactions.some((tx: any) => typeof tx?.txId !== 'string')) {
+      throw new Error('Backup contains invalid transaction history');
+    }
+
+    return { keyring, addressBook, sites, transactions };
+  }
+}
+
+// Export singleton instance
+export const backupService = BackupService.getInstance();
@@ -0,0 +1,360 @@
+/**
+ * Bookmark Sync Service
+ * Keeps each bookmark as its own set of private `Bookmark` records in
+ * bookmark_v1.aleo so bookmarks can be restored from chain on a new machine.
+ *
+ * A bookmark's URL, title and metadata are encrypted client-side with the
+ * account's bookmarks data key (see key-hierarchy.service) and split into two-field chunks
+ * (see utils/field-encoding). Each chunk becomes one record: its fields fill
+ * `encrypted_url` and `encrypted_title`, and `bookmark_id` is the chunk ID.
+ */
+
+import crypto from 'crypto';
+import { AleoWallet, Bookmark } from '@shared/types';
+import { encodeChunks, formatChunkId, assembleChunks, newChainId } from '../utils/field-encoding';
+import { recordScannerService, IndexedRecord } from './record-scanner.service';
+import { transactionHistoryService } from './transaction-history.service';
+import { keyHierarchyService } from './key-hierarchy.service';
+
+// Lazy import to avoid circular dependency
+function getAleoServiceInstance() {
+  const { AleoService } = require('./aleo.service');
+  return AleoService.getInstance();
+}
+
+// Lazy load electron-store
+function createStore(defaults: any): any {
+  const Store = require('electron-store');
+  return new Store({ name: 'bookmark-sync', defaults });
+}
+
+export const BOOKMARK_PROGRAM_ID = 'bookmark_v1.aleo';
+
+const SYNC_FEE = 0.1; // ALEO per transition
+const FIELDS_PER_RECORD = 2; // encrypted_url, encrypted_title
+
+// Bookmark fields that are synced
+export type SyncableBookmark = Pick<Bookmark, 'id' | 'url' | 'title' | 'createdAt'> & Partial<Pick<Bookmark, 'tags' | 'folderId'>>;
+
+// What was last written to chain for one bookmark
+interface SyncEntry {
+  chainId: string; // 128-bit hex
+  chunks: number;
+  digest: string;  // sha256 of the plaintext payload, to detect changes
+  keyVersion: number; // Bookmarks key version the copy is encrypted with
+  syncedAt: number;
+}
+
+interface BookmarkSyncStore {
+  // address -> bookmark id -> entry
+  accounts: Record<string, Record<string, SyncEntry>>;
+}
+
+export interface BookmarkSyncResult {
+  added: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+  pending: number; // Waiting for earlier records to be confirmed and scanned
+  failed: Array<{ bookmarkId: string; error: string }>;
+  txIds: string[];
+}
+
+export interface BookmarkRestoreResult {
+  bookmarks: SyncableBookmark[];
+  incomplete: number;  // Chain IDs with missing chunks
+  unreadable: number;  // Records that could not be decrypted (e.g. shared with us)
+  scanComplete: boolean;
+}
+
+export class BookmarkSyncService {
+  private static instance: BookmarkSyncService;
+  private store: any = null;
+
+  private static readonly defaultStore: BookmarkSyncStore = {
+    accounts: {}
+  };
+
+  private constructor() {
+    // Store is lazily initialized
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): BookmarkSyncService {
+    if (!BookmarkSyncService.instance) {
+      BookmarkSyncService.instance = new BookmarkSyncService();
+    }
+    return BookmarkSyncService.instance;
+  }
+
+  /**
+   * Get store instance (lazy)
+   */
+  private getStore(): any {
+    if (!this.store) {
+      this.store = createStore(BookmarkSyncService.defaultStore);
+    }
+    return this.store;
+  }
+
+  /**
+   * Bring the chain in line with `bookmarks`: new bookmarks are added, changed
+   * ones updated and bookmarks synced before but no longer listed are deleted
+   */
+  async sync(bookmarks: SyncableBookmark[], wallet: AleoWallet): Promise<BookmarkSyncResult> {
+    const keyVersion = keyHierarchyService.getVersion(wallet.address, 'bookmarks');
+    const entries = this.loadEntries(wallet.address);
+    const result: BookmarkSyncResult = { added: 0, updated: 0, deleted: 0, unchanged: 0, pending: 0, failed: [], txIds: [] };
+    let records: IndexedRecord[] | null = null;
+
+    // Existing records are only needed for updates and deletes
+    const getRecords = async (): Promise<IndexedRecord[]> => {
+      if (!records) {
+        await recordScannerService.sync(wallet);
+        records = recordScannerService.getRecords(wallet.viewKey, { programId: BOOKMARK_PROGRAM_ID })
+          .filter(record => record.recordName === 'Bookmark' && !record.pendingSpendTxId);
+      }
+      return records;
+    };
+
+    const listed = new Set(bookmarks.map(b => b.id));
+
+    for (const bookmark of bookmarks) {
+      try {
+        const payload = this.encodePayload(bookmark);
+        const digest = crypto.createHash('sha256').update(payload).digest('hex');
+        const entry = entries[bookmark.id];
+
+        // Unchanged bookmarks are rewritten once the bookmarks key has been rotated
+        if (entry?.digest === digest && entry.keyVersion === keyVersion) {
+          result.unchanged++;
+          continue;
+        }
+
+        const chunks = encodeChunks(keyHierarchyService.seal(wallet, 'bookmarks', payload), FIELDS_PER_RECORD);
+
+        if (!entry) {
+          entries[bookmark.id] = await this.addChunks(chunks, digest, keyVersion, bookmark.createdAt, wallet, result);
+          result.added++;
+          continue;
+        }
+
+        const existing = this.findChunks(await getRecords(), entry);
+        if (!existing) {
+          result.pending++;
+          continue;
+        }
+
+        if (existing.length === chunks.length) {
+          for (let i = 0; i < chunks.length; i++) {
+            await this.execute('update_bookmark', [
+              existing[i].plaintext,
+              ...chunks[i],
+              this.toU32(bookmark.createdAt)
+            ], wallet, result, existing[i]);
+          }
+          entries[bookmark.id] = { ...entry, digest, keyVersion, syncedAt: Date.now() };
+        } else {
+          // The chunk count is part of bookmark_id, so re-add under a new chain ID
+          for (const record of existing) {
+            await this.execute('delete_bookmark', [record.plaintext], wallet, result, record);
+          }
+          entries[bookmark.id] = await this.addChunks(chunks, digest, keyVersion, bookmark.createdAt, wallet, result);
+        }
+        result.updated++;
+      } catch (error) {
+        result.failed.push({ bookmarkId: bookmark.id, error: error instanceof Error ? error.message : 'Unknown error' });
+      } finally {
+        this.saveEntries(wallet.address, entries);
+      }
+    }
+
+    for (const [bookmarkId, entry] of Object.entries(entries)) {
+      if (listed.has(bookmarkId)) {
+        continue;
+      }
+
+      try {
+        const existing = this.findChunks(await getRecords(), entry);
+        if (!existing) {
+          result.pending++;
+          continue;
+        }
+
+        for (const record of existing) {
+          await this.execute('delete_bookmark', [record.plaintext], wallet, result, record);
+        }
+        delete entries[bookmarkId];
+        result.deleted++;
+      } catch (error) {
+        result.failed.push({ bookmarkId, error: error instanceof Error ? error.message : 'Unknown error' });
+      } finally {
+        this.saveEntries(wallet.address, entries);
+      }
+    }
+
+    console.log(`[Bookmark Sync] ${result.added} added, ${result.updated} updated, ${result.deleted} deleted, ${result.pending} pending`);
+    return result;
+  }
+
+  /**
+   * Decrypt the account's Bookmark records back into bookmarks. Restored
+   * bookmarks are remembered as synced, so the next sync leaves them alone.
+   */
+  async restore(wallet: AleoWallet): Promise<BookmarkRestoreResult> {
+    const scan = await recordScannerService.sync(wallet);
+    const records = recordScannerService.getRecords(wallet.viewKey, { programId: BOOKMARK_PROGRAM_ID })
+      .filter(record => record.recordName === 'Bookmark');
+
+    const { payloads, incomplete } = assembleChunks(records.map(record => ({
+      chunkId: String(record.data.bookmark_id),
+      fields: [String(record.data.encrypted_url), String(record.data.encrypted_title)]
+    })));
+
+    const entries = this.loadEntries(wallet.address);
+    const result: BookmarkRestoreResult = { bookmarks: [], incomplete, unreadable: 0, scanComplete: scan.complete };
+
+    for (const { chainId, count, payload: sealed } of payloads) {
+      try {
+        const { plaintext: payload, version } = keyHierarchyService.open(wallet, 'bookmarks', sealed);
+        const bookmark = this.decodePayload(payload);
+
+        entries[bookmark.id] = {
+          chainId,
+          chunks: count,
+          digest: crypto.createHash('sha256').update(payload).digest('hex'),
+          keyVersion: version,
+          syncedAt: Date.now()
+        };
+        result.bookmarks.push(bookmark);
+      } catch {
+        result.unreadable++;
+      }
+    }
+
+    this.saveEntries(wallet.address, entries);
+    console.log(`[Bookmark Sync] Restored ${result.bookmarks.length} bookmarks from chain`);
+    return result;
+  }
+
+  /**
+   * Synced bookmarks whose on-chain copy is not under the current key
+   */
+  countStale(address: string): number {
+    const keyVersion = keyHierarchyService.getVersion(address, 'bookmarks');
+    return Object.values(this.loadEntries(address))
+      .filter(entry => entry.keyVersion !== keyVersion).length;
+  }
+
+  // ============ Encoding ============
+
+  private encodePayload(bookmark: SyncableBookmark): Buffer {
+    return Buffer.from(JSON.stringify({
+      i: bookmark.id,
+      u: bookmark.url,
+      t: bookmark.title,
+      c: bookmark.createdAt,
+      g: bookmark.tags?.length ? bookmark.tags : undefined,
+      f: bookmark.folderId
+    }), 'utf8');
+  }
+
+  private decodePayload(payload: Buffer): SyncableBookmark {
+    const data = JSON.parse(payload.toString('utf8'));
+    if (typeof data.i !== 'string' || typeof data.u !== 'string' || typeof data.t !== 'string') {
+      throw new Error('Malformed bookmark payload');
+    }
+    return { id: data.i, url: data.u, title: data.t, createdAt: Number(data.c) || Date.now(), tags: data.g, folderId: data.f };
+  }
+
+  private toU32(timestamp: number): string {
+    return `${Math.floor(timestamp / 1000) >>> 0}u32`;
+  }
+
+  // ============ Chain ============
+
+  /**
+   * Write chunks as new records under a fresh chain ID
+   */
+  private async addChunks(
+    chunks: string[][],
+    digest: string,
+    keyVersion: number,
+    createdAt: number,
+    wallet: AleoWallet,
+    result: BookmarkSyncResult
+  ): Promise<SyncEntry> {
+    const chainId = newChainId();
+    for (let i = 0; i < chunks.length; i++) {
+      await this.execute('add_bookmark', [
+        formatChunkId({ chainId, index: i, count: chunks.length }),
+        ...chunks[i],
+        this.toU32(createdAt)
+      ], wallet, result);
+    }
+
+    return { chainId, chunks: chunks.length, digest, keyVersion, syncedAt: Date.now() };
+  }
+
+  /**
+   * Find every chunk record of a synced bookmark, in chunk order.
+   * Returns null until all of them are confirmed and indexed.
+   */
+  private findChunks(records: IndexedRecord[], entry: SyncEntry): IndexedRecord[] | null {
+    const found: IndexedRecord[] = [];
+    for (let i = 0; i < entry.chunks; i++) {
+      const bookmarkId = formatChunkId({ chainId: entry.chainId, index: i, count: entry.chunks });
+      const record = records.filter(r => String(r.data.bookmark_id) === bookmarkId).pop();
+      if (!record) {
+        return null;
+      }
+      found.push(record);
+    }
+    return found;
+  }
+
+  /**
+   * Run one bookmark_v1.aleo transition, marking a consumed record as pending spend
+   */
+  private async execute(
+    functionName: string,
+    inputs: string[],
+    wallet: AleoWallet,
+    result: BookmarkSyncResult,
+    consumed?: IndexedRecord
+  ): Promise<void> {
+    const txId = await getAleoServiceInstance().executeProgram({
+      programId: BOOKMARK_PROGRAM_ID,
+      functionName,
+      inputs,
+      fee: SYNC_FEE,
+      privateKey: wallet.privateKey,
+      consumes: consumed ? { viewKey: wallet.viewKey, recordIds: [consumed.id] } : undefined
+    });
+
+    transactionHistoryService.recordExecuteTransaction({
+      txId,
+      programId: BOOKMARK_PROGRAM_ID,
+      functionName,
+      fee: SYNC_FEE
+    });
+    result.txIds.push(txId);
+  }
+
+  // ============ Persistence ============
+
+  private loadEntries(address: string): Record<string, SyncEntry> {
+    return { ...(this.getStore().get('accounts')[address] || {}) };
+  }
+
+  private saveEntries(address: string, entries: Record<string, SyncEntry>): void {
+    const accounts = this.getStore().get('accounts');
+    accounts[address] = entries;
+    this.getStore().set('accounts', accounts);
+  }
+}
+
+// Export singleton instance
+export const bookmarkSyncService = BookmarkSyncService.getInstance();
@@ -0,0 +1,833 @@
+/**
+ * Bookmark Service
+ * The single bookmark repository: bookmarks, nested folders, ordering and
+ * favorites, persisted in one store.
+ *
+ * Earlier builds kept bookmarks in two places - a plain `bookmarks` list in
+ * the config store (with string folder names and the `aleoPinned` flag) and
+ * the encrypted `encryptedBookmarks` blob of the storage service. Both are
+ * merged into this repository once and then removed.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Bookmark, BookmarkFolder, BookmarkCollection, BookmarkImportResult } from '@shared/types';
+import {
+  BookmarkTreeNode,
+  BookmarkTreeFolder,
+  parseNetscapeBookmarks,
+  serializeNetscapeBookmarks
+} from '../utils/bookmark-html';
+
+// Lazy import to avoid circular dependency
+function getStorageServiceInstance() {
+  const { StorageService } = require('./storage.service');
+  return StorageService.getInstance();
+}
+
+// Lazy load electron-store
+function createStore(options: { name?: string; defaults?: any; encryptionKey?: string }): any {
+  const Store = require('electron-store');
+  return new Store(options);
+}
+
+// Folders every profile has; they cannot be renamed, moved or deleted
+export const BOOKMARKS_BAR_ID = 'bookmarks-bar';
+export const OTHER_BOOKMARKS_ID = 'other-bookmarks';
+export const ALEO_APPS_ID = 'aleo-apps';
+
+const DEFAULT_FOLDERS: Array<{ id: string; name: string }> = [
+  { id: BOOKMARKS_BAR_ID, name: 'Bookmarks Bar' },
+  { id: OTHER_BOOKMARKS_ID, name: 'Other Bookmarks' },
+  { id: ALEO_APPS_ID, name: 'Aleo Apps' }
+];
+
+// Other names browsers give their bar and unfiled folders
+const FOLDER_ALIASES: Record<string, string> = {
+  'bookmarks toolbar': BOOKMARKS_BAR_ID,
+  'favorites bar': BOOKMARKS_BAR_ID,
+  'unfiled bookmarks': OTHER_BOOKMARKS_ID,
+  'other favorites': OTHER_BOOKMARKS_ID
+};
+
+// Bookmarklets and browser-internal queries cannot be opened as pages
+const UNSUPPORTED_URL = /^(javascript|data|place|chrome|about):/i;
+
+const SCHEMA_VERSION = 1;
+
+export const BOOKMARK_EXPORT_FORMAT = 'aleo-browser-bookmarks';
+export const BOOKMARK_EXPORT_VERSION = 1;
+
+interface BookmarkStoreSchema {
+  schemaVersion: number;
+  bookmarks: Bookmark[];
+  folders: BookmarkFolder[];
+}
+
+// Bookmark as written by the old `bookmarks:*` handlers
+interface LegacyBookmark {
+  id: string;
+  url: string;
+  title: string;
+  favicon?: string;
+  createdAt: number;
+  updatedAt?: number;
+  folder?: string;
+  folderId?: string;
+  tags?: string[];
+  isFavorite?: boolean;
+  aleoPinned?: boolean;
+}
+
+export type BookmarkInput = Omit<Bookmark, 'id' | 'createdAt' | 'updatedAt' | 'order'>;
+
+export type FolderUpdate = Partial<Pick<BookmarkFolder, 'name' | 'isExpanded'>>;
+
+// Lossless JSON export: every field, including tags, favorites and order
+export interface BookmarkExport extends BookmarkCollection {
+  format: typeof BOOKMARK_EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+}
+
+export class BookmarkService {
+  private static instance: BookmarkService;
+  private store: any = null;
+  private legacyChecked = false;
+
+  private constructor() {
+    // Store is lazily initialized
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): BookmarkService {
+    if (!BookmarkService.instance) {
+      BookmarkService.instance = new BookmarkService();
+    }
+    return BookmarkService.instance;
+  }
+
+  /**
+   * Get store instance (lazy), merging legacy bookmark data on first use
+   */
+  private getStore(): any {
+    if (!this.store) {
+      this.store = createStore({
+        name: 'bookmarks',
+        encryptionKey: getStorageServiceInstance().getLocalEncryptionKey(),
+        defaults: { schemaVersion: 0, bookmarks: [], folders: [] }
+      });
+    }
+
+    if (!this.legacyChecked) {
+      this.legacyChecked = true;
+      this.migrateLegacy();
+    }
+    return this.store;
+  }
+
+  // ============ Queries ============
+
+  /**
+   * All bookmarks and folders, each in display order
+   */
+  getAll(): BookmarkCollection {
+    const { bookmarks, folders } = this.load();
+    return {
+      bookmarks: [...bookmarks].sort(byOrder),
+      folders: [...folders].sort(byOrder)
+    };
+  }
+
+  getBookmark(id: string): Bookmark | undefined {
+    return this.load().bookmarks.find(b => b.id === id);
+  }
+
+  findByUrl(url: string): Bookmark | undefined {
+    return this.load().bookmarks.find(b => b.url === url);
+  }
+
+  getFavorites(): Bookmark[] {
+    return this.load().bookmarks.filter(b => b.isFavorite).sort(byOrder);
+  }
+
+  /**
+   * Bookmarks directly inside a folder, in order
+   */
+  getBookmarksInFolder(folderId: string): Bookmark[] {
+    return this.load().bookmarks.filter(b => b.folderId === folderId).sort(byOrder);
+  }
+
+  search(query: string): Bookmark[] {
+    const lowerQuery = query.toLowerCase();
+    return this.load().bookmarks.filter(bookmark =>
+      bookmark.title.toLowerCase().includes(lowerQuery) ||
+      bookmark.url.toLowerCase().includes(lowerQuery) ||
+      bookmark.tags?.some(tag => tag.toLowerCase().includes(lowerQuery))
+    );
+  }
+
+  /**
+   * Folder path from the root, e.g. "Bookmarks Bar/Docs"
+   */
+  getFolderPath(folderId: string): string {
+    const { folders } = this.load();
+    const names: string[] = [];
+    let folder = folders.find(f => f.id === folderId);
+
+    while (folder && names.length <= folders.length) {
+      names.unshift(folder.name);
+      folder = folders.find(f => f.id === folder!.parentId);
+    }
+    return names.join('/');
+  }
+
+  // ============ Bookmarks ============
+
+  /**
+   * Add a bookmark at the end of its folder (Other Bookmarks by default)
+   */
+  addBookmark(input: BookmarkInput): Bookmark {
+    const data = this.load();
+
+    if (data.bookmarks.some(b => b.url === input.url)) {
+      throw new Error('Bookmark already exists');
+    }
+
+    const folderId = input.folderId || OTHER_BOOKMARKS_ID;
+    this.requireFolder(data, folderId);
+
+    const now = Date.now();
+    const bookmark: Bookmark = {
+      ...input,
+      id: uuidv4(),
+      folderId,
+      createdAt: now,
+      updatedAt: now,
+      order: nextOrder(data.bookmarks.filter(b => b.folderId === folderId))
+    };
+
+    data.bookmarks.push(bookmark);
+    this.save(data);
+    return bookmark;
+  }
+
+  /**
+   * Update bookmark fields. Changing the folder appends it to the new folder.
+   */
+  updateBookmark(id: string, updates: Partial<BookmarkInput>): Bookmark {
+    const data = this.load();
+    const bookmark = data.bookmarks.find(b => b.id === id);
+
+    if (!bookmark) {
+      throw new Error('Bookmark not found');
+    }
+
+    if (updates.url && updates.url !== bookmark.url && data.bookmarks.some(b => b.url === updates.url)) {
+      throw new Error('Bookmark already exists');
+    }
+
+    // Identity and position are managed here, not by callers
+    const { folderId, id: _id, createdAt: _createdAt, order: _order, ...fields } = updates as Partial<Bookmark>;
+    Object.assign(bookmark, fields, { updatedAt: Date.now() });
+
+    if (folderId !== undefined && folderId !== bookmark.folderId) {
+      const target = folderId || OTHER_BOOKMARKS_ID;
+      this.requireFolder(data, target);
+      bookmark.folderId = target;
+      bookmark.order = nextOrder(data.bookmarks.filter(b => b.folderId === target && b.id !== id));
+    }
+
+    this.save(data);
+    return bookmark;
+  }
+
+  deleteBookmark(id: string): void {
+    const data = this.load();
+    const remaining = data.bookmarks.filter(b => b.id !== id);
+
+    if (remaining.length === data.bookmarks.length) {
+      throw new Error('Bookmark not found');
+    }
+
+    data.bookmarks = remaining;
+    this.save(data);
+  }
+
+  /**
+   * Move a bookmark into a folder at a position (end of the folder by default)
+   */
+  moveBookmark(id: string, folderId: string, index?: number): Bookmark {
+    const data = this.load();
+    const bookmark = data.bookmarks.find(b => b.id === id);
+
+    if (!bookmark) {
+      throw new Error('Bookmark not found');
+    }
+    this.requireFolder(data, folderId);
+
+    const siblings = data.bookmarks
+      .filter(b => b.folderId === folderId && b.id !== id)
+      .sort(byOrder);
+    siblings.splice(clampIndex(index, siblings.length), 0, bookmark);
+    siblings.forEach((b, i) => { b.order = i; });
+
+    bookmark.folderId = folderId;
+    bookmark.updatedAt = Date.now();
+    this.save(data);
+    return bookmark;
+  }
+
+  /**
+   * Add bookmarks restored from chain. Bookmarks already present (by id or
+   * URL) are kept as they are. `folderId` on a restored bookmark is the folder
+   * path it was synced with (see getFolderPath); missing folders are created.
+   * @returns Number of bookmarks added
+   */
+  addRestored(restored: Array<Omit<Bookmark, 'updatedAt'>>): number {
+    const data = this.load();
+    let added = 0;
+
+    for (const bookmark of restored) {
+      if (data.bookmarks.some(b => b.id === bookmark.id || b.url === bookmark.url)) {
+        continue;
+      }
+
+      const folderId = bookmark.folderId
+        ? this.findOrCreateFolderPath(data, bookmark.folderId)
+        : OTHER_BOOKMARKS_ID;
+
+      data.bookmarks.push({
+        ...bookmark,
+        folderId,
+        updatedAt: Date.now(),
+        aleoPinned: true,
+        order: nextOrder(data.bookmarks.filter(b => b.folderId === folderId))
+      });
+      added++;
+    }
+
+    this.save(data);
+    return added;
+  }
+
+  /**
+   * Replace every bookmark and folder (used when importing a backup)
+   */
+  replaceAll(collection: BookmarkCollection): void {
+    const data: BookmarkStoreSchema = {
+      schemaVersion: SCHEMA_VERSION,
+      bookmarks: collection.bookmarks.map(b => ({ ...b })),
+      folders: collection.folders.map(f => ({ ...f }))
+    };
+    this.ensureDefaultFolders(data);
+
+    // Bookmarks of folders missing from the collection go to Other Bookmarks
+    for (const bookmark of data.bookmarks) {
+      if (!bookmark.folderId || !data.folders.some(f => f.id === bookmark.folderId)) {
+        bookmark.folderId = OTHER_BOOKMARKS_ID;
+      }
+    }
+    this.save(data);
+  }
+
+  // ============ Folders ============
+
+  createFolder(name: string, parentId?: string): BookmarkFolder {
+    const data = this.load();
+    const trimmed = name.trim();
+
+    if (!trimmed) {
+      throw new Error('Folder name is required');
+    }
+    if (parentId) {
+      this.requireFolder(data, parentId);
+    }
+
+    const now = Date.now();
+    const folder: BookmarkFolder = {
+      id: uuidv4(),
+      name: trimmed,
+      parentId,
+      createdAt: now,
+      updatedAt: now,
+      order: nextOrder(data.folders.filter(f => f.parentId === parentId))
+    };
+
+    data.folders.push(folder);
+    this.save(data);
+    return folder;
+  }
+
+  updateFolder(id: string, updates: FolderUpdate): BookmarkFolder {
+    const data = this.load();
+    const folder = this.requireFolder(data, id);
+
+    if (updates.name !== undefined) {
+      if (isDefaultFolder(id)) {
+        throw new Error('Cannot rename default folders');
+      }
+      if (!updates.name.trim()) {
+        throw new Error('Folder name is required');
+      }
+      folder.name = updates.name.trim();
+    }
+    if (updates.isExpanded !== undefined) {
+      folder.isExpanded = updates.isExpanded;
+    }
+
+    folder.updatedAt = Date.now();
+    this.save(data);
+    return folder;
+  }
+
+  /**
+   * Move a folder under a new parent (root when undefined) at a position
+   */
+  moveFolder(id: string, parentId: string | undefined, index?: number): BookmarkFolder {
+    const data = this.load();
+    const folder = this.requireFolder(data, id);
+
+    if (isDefaultFolder(id)) {
+      throw new Error('Cannot move default folders');
+    }
+
+    if (parentId) {
+      this.requireFolder(data, parentId);
+      // Walk up from the new parent; reaching the folder itself means a cycle
+      for (let current: string | undefined = parentId; current; ) {
+        if (current === id) {
+          throw new Error('Cannot move a folder into itself');
+        }
+        current = data.folders.find(f => f.id === current)?.parentId;
+      }
+    }
+
+    const siblings = data.folders
+      .filter(f => f.parentId === parentId && f.id !== id)
+      .sort(byOrder);
+    siblings.splice(clampIndex(index, siblings.length), 0, folder);
+    siblings.forEach((f, i) => { f.order = i; });
+
+    folder.parentId = parentId;
+    folder.updatedAt = Date.now();
+    this.save(data);
+    return folder;
+  }
+
+  /**
+   * Delete a folder. Its subfolders and bookmarks move up to its parent;
+   * bookmarks of a root folder move to Other Bookmarks.
+   */
+  deleteFolder(id: string): void {
+    const data = this.load();
+    const folder = this.requireFolder(data, id);
+
+    if (isDefaultFolder(id)) {
+      throw new Error('Cannot delete default folders');
+    }
+
+    const parentId = folder.parentId;
+    const bookmarkTarget = parentId || OTHER_BOOKMARKS_ID;
+
+    let folderOrder = nextOrder(data.folders.filter(f => f.parentId === parentId && f.id !== id));
+    for (const child of data.folders.filter(f => f.parentId === id).sort(byOrder)) {
+      child.parentId = parentId;
+      child.order = folderOrder++;
+    }
+
+    let bookmarkOrder = nextOrder(data.bookmarks.filter(b => b.folderId === bookmarkTarget));
+    for (const bookmark of data.bookmarks.filter(b => b.folderId === id).sort(byOrder)) {
+      bookmark.folderId = bookmarkTarget;
+      bookmark.order = bookmarkOrder++;
+    }
+
+    data.folders = data.folders.filter(f => f.id !== id);
+    this.save(data);
+  }
+
+  // ============ Import / Export ============
+
+  /**
+   * Export as a Netscape bookmark file, readable by every major browser
+   */
+  exportHtml(): string {
+    const { bookmarks, folders } = this.getAll();
+    return serializeNetscapeBookmarks(buildTree(bookmarks, folders));
+  }
+
+  exportJson(): string {
+    const data: BookmarkExport = {
+      format: BOOKMARK_EXPORT_FORMAT,
+      version: BOOKMARK_EXPORT_VERSION,
+      exportedAt: Date.now(),
+      ...this.getAll()
+    };
+    return JSON.stringify(data, null, 2);
+  }
+
+  /**
+   * Import a Netscape bookmark file exported by Chrome, Firefox, Safari or Edge
+   */
+  importHtml(html: string): BookmarkImportResult {
+    return this.importTree(parseNetscapeBookmarks(html));
+  }
+
+  /**
+   * Import a JSON file written by exportJson
+   */
+  importJson(json: string): BookmarkImportResult {
+    let parsed: Partial<BookmarkExport>;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error('Bookmark file is not valid JSON');
+    }
+
+    if (parsed?.format !== BOOKMARK_EXPORT_FORMAT || !Array.isArray(parsed.bookmarks) || !Array.isArray(parsed.folders)) {
+      throw new Error('Not an Aleo Browser bookmark export');
+    }
+    if ((parsed.version || 0) > BOOKMARK_EXPORT_VERSION) {
+      throw new Error('Bookmark export was created by a newer version of Aleo Browser');
+    }
+
+    return this.importTree(buildTree(parsed.bookmarks, parsed.folders));
+  }
+
+  /**
+   * Merge a folder tree into the repository. Folders with the same name under
+   * the same parent are reused, browser root folders map onto the default
+   * folders and bookmarks whose URL already exists are reported, not added.
+   */
+  importTree(nodes: BookmarkTreeNode[]): BookmarkImportResult {
+    const data = this.load();
+    const result: BookmarkImportResult = { added: 0, foldersCreated: 0, duplicates: [], skipped: 0 };
+    const urls = new Set(data.bookmarks.map(b => b.url));
+    const now = Date.now();
+
+    // Next free position per folder, so large imports stay linear
+    const bookmarkOrders = new Map<string, number>();
+    const takeBookmarkOrder = (folderId: string) => {
+      const order = bookmarkOrders.get(folderId) ?? nextOrder(data.bookmarks.filter(b => b.folderId === folderId));
+      bookmarkOrders.set(folderId, order + 1);
+      return order;
+    };
+
+    const resolveFolder = (node: BookmarkTreeFolder, parentId: string | undefined): string => {
+      if (!parentId) {
+        const defaultId = defaultFolderFor(node);
+        if (defaultId) {
+          return defaultId;
+        }
+      }
+
+      const existing = data.folders.find(f => f.parentId === parentId && f.name === node.name);
+      if (existing) {
+        return existing.id;
+      }
+
+      const folder: BookmarkFolder = {
+        id: uuidv4(),
+        name: node.name,
+        parentId,
+        createdAt: node.addDate || now,
+        updatedAt: now,
+        order: nextOrder(data.folders.filter(f => f.parentId === parentId))
+      };
+      data.folders.push(folder);
+      result.foldersCreated++;
+      return folder.id;
+    };
+
+    const walk = (children: BookmarkTreeNode[], parentId: string | undefined, path: string[]) => {
+      for (const node of children) {
+        if (node.type === 'folder') {
+          const folderId = resolveFolder(node, parentId);
+          walk(node.children, folderId, [...path, node.name]);
+          continue;
+        }
+
+        if (!node.url || UNSUPPORTED_URL.test(node.url)) {
+          result.skipped++;
+          continue;
+        }
+        if (urls.has(node.url)) {
+          result.duplicates.push({ url: node.url, title: node.title, folder: path.join('/') });
+          continue;
+        }
+
+        // Loose bookmarks at the top of the file go to Other Bookmarks
+        const folderId = parentId || OTHER_BOOKMARKS_ID;
+        data.bookmarks.push({
+          id: uuidv4(),
+          url: node.url,
+          title: node.title || node.url,
+          favicon: node.icon,
+          createdAt: node.addDate || now,
+          updatedAt: now,
+          tags: node.tags,
+          folderId,
+          isFavorite: node.isFavorite || undefined,
+          order: takeBookmarkOrder(folderId)
+        });
+        urls.add(node.url);
+        result.added++;
+      }
+    };
+
+    walk(nodes, undefined, []);
+    this.save(data);
+
+    console.log(`[Bookmarks] Imported ${result.added} bookmarks (${result.duplicates.length} duplicates, ${result.skipped} skipped)`);
+    return result;
+  }
+
+  // ============ Persistence ============
+
+  private load(): BookmarkStoreSchema {
+    const store = this.getStore();
+    const data: BookmarkStoreSchema = {
+      schemaVersion: store.get('schemaVersion'),
+      bookmarks: store.get('bookmarks'),
+      folders: store.get('folders')
+    };
+
+    if (this.ensureDefaultFolders(data)) {
+      this.save(data);
+    }
+    return data;
+  }
+
+  private save(data: BookmarkStoreSchema): void {
+    this.getStore().set({
+      schemaVersion: SCHEMA_VERSION,
+      bookmarks: data.bookmarks,
+      folders: data.folders
+    });
+  }
+
+  /**
+   * Add any missing default folders; returns true if the data changed
+   */
+  private ensureDefaultFolders(data: BookmarkStoreSchema): boolean {
+    let changed = false;
+
+    DEFAULT_FOLDERS.forEach(({ id, name }, index) => {
+      if (!data.folders.some(f => f.id === id)) {
+        data.folders.push({ id, name, createdAt: Date.now(), updatedAt: Date.now(), order: index });
+        changed = true;
+      }
+    });
+    return changed;
+  }
+
+  private requireFolder(data: BookmarkStoreSchema, id: string): BookmarkFolder {
+    const folder = data.folders.find(f => f.id === id);
+    if (!folder) {
+      throw new Error('Folder not found');
+    }
+    return folder;
+  }
+
+  /**
+   * Resolve a "Parent/Child" folder path from the root, creating missing folders
+   */
+  private findOrCreateFolderPath(data: BookmarkStoreSchema, path: string): string {
+    let parentId: string | undefined;
+
+    for (const name of path.split('/').filter(Boolean)) {
+      const existing = data.folders.find(f => f.parentId === parentId && f.name === name);
+      if (existing) {
+        parentId = existing.id;
+        continue;
+      }
+
+      const now = Date.now();
+      const folder: BookmarkFolder = {
+        id: uuidv4(),
+        name,
+        parentId,
+        createdAt: now,
+        updatedAt: now,
+        order: nextOrder(data.folders.filter(f => f.parentId === parentId))
+      };
+      data.folders.push(folder);
+      parentId = folder.id;
+    }
+
+    return parentId || OTHER_BOOKMARKS_ID;
+  }
+
+  // ============ Migration ============
+
+  /**
+   * Retry the legacy merge once the wallet is unlocked, since encrypted legacy
+   * bookmarks may only open with the wallet's storage key
+   */
+  retryLegacyMigration(): void {
+    if (this.store) {
+      this.migrateLegacy();
+    }
+  }
+
+  /**
+   * Merge bookmarks left in the legacy stores into the repository, then drop them.
+   * Bookmarks are matched by URL; matches keep the earliest creation time, the
+   * most recently updated title and favicon, the union of tags and either flag.
+   * Legacy folder names become root folders.
+   */
+  private migrateLegacy(): void {
+    const configStore = createStore({});
+    const fromConfig: LegacyBookmark[] | undefined = configStore.get('bookmarks');
+
+    let fromStorage: LegacyBookmark[] | null = null;
+    try {
+      fromStorage = getStorageServiceInstance().readLegacyBookmarks();
+    } catch (error) {
+      // Neither key opens it while the wallet is locked; retried after unlock
+      console.warn('[Bookmarks] Could not read encrypted legacy bookmarks:', error instanceof Error ? error.message : error);
+    }
+
+    if (!fromConfig && !fromStorage) {
+      return;
+    }
+
+    const legacy = [...(fromStorage || []), ...(fromConfig || [])];
+    const data: BookmarkStoreSchema = {
+      schemaVersion: this.store.get('schemaVersion'),
+      bookmarks: this.store.get('bookmarks'),
+      folders: this.store.get('folders')
+    };
+    this.ensureDefaultFolders(data);
+
+    let merged = 0;
+    for (const item of legacy.sort((a, b) => a.createdAt - b.createdAt)) {
+      if (!item?.url) {
+        continue;
+      }
+
+      const existing = data.bookmarks.find(b => b.url === item.url);
+      if (existing) {
+        if ((item.updatedAt || item.createdAt) > existing.updatedAt) {
+          existing.title = item.title || existing.title;
+          existing.favicon = item.favicon || existing.favicon;
+          existing.updatedAt = item.updatedAt || item.createdAt;
+        }
+        existing.createdAt = Math.min(existing.createdAt, item.createdAt);
+        existing.tags = mergeTags(existing.tags, item.tags);
+        existing.isFavorite = existing.isFavorite || item.isFavorite || undefined;
+        existing.aleoPinned = existing.aleoPinned || item.aleoPinned || undefined;
+        continue;
+      }
+
+      const folderName = item.folder || item.folderId;
+      const folderId = folderName
+        ? DEFAULT_FOLDERS.find(f => f.id === folderName)?.id || this.findOrCreateFolderPath(data, folderName)
+        : OTHER_BOOKMARKS_ID;
+
+      data.bookmarks.push({
+        id: data.bookmarks.some(b => b.id === item.id) ? uuidv4() : item.id,
+        url: item.url,
+        title: item.title || item.url,
+        favicon: item.favicon,
+        createdAt: item.createdAt,
+        updatedAt: item.updatedAt || item.createdAt,
+        tags: item.tags,
+        folderId,
+        isFavorite: item.isFavorite,
+        aleoPinned: item.aleoPinned,
+        order: nextOrder(data.bookmarks.filter(b => b.folderId === folderId))
+      });
+      merged++;
+    }
+
+    this.store.set({ schemaVersion: SCHEMA_VERSION, bookmarks: data.bookmarks, folders: data.folders });
+
+    if (fromConfig) {
+      configStore.delete('bookmarks');
+    }
+    if (fromStorage) {
+      getStorageServiceInstance().clearLegacyBookmarks();
+    }
+    console.log(`[Bookmarks] Migrated ${merged} legacy bookmarks (${legacy.length - merged} merged as duplicates)`);
+  }
+}
+
+/**
+ * Default folder a top-level imported folder stands for, if any
+ */
+function defaultFolderFor(node: BookmarkTreeFolder): string | undefined {
+  if (node.role === 'toolbar') return BOOKMARKS_BAR_ID;
+  if (node.role === 'other') return OTHER_BOOKMARKS_ID;
+
+  const name = node.name.toLowerCase();
+  return DEFAULT_FOLDERS.find(f => f.name.toLowerCase() === name)?.id || FOLDER_ALIASES[name];
+}
+
+/**
+ * Nest bookmarks and folders into a tree, each level in display order.
+ * Bookmarks of unknown folders end up at the top level.
+ */
+function buildTree(bookmarks: Bookmark[], folders: BookmarkFolder[]): BookmarkTreeNode[] {
+  const folderIds = new Set(folders.map(f => f.id));
+
+  const build = (parentId: string | undefined, depth: number): BookmarkTreeNode[] => {
+    // Guards against parent cycles in hand-edited files
+    if (depth > folders.length) {
+      return [];
+    }
+
+    const subfolders: BookmarkTreeNode[] = folders
+      .filter(f => (f.parentId && folderIds.has(f.parentId) ? f.parentId : undefined) === parentId)
+      .sort(byOrder)
+      .map(folder => ({
+        type: 'folder',
+        name: folder.name,
+        addDate: folder.createdAt,
+        role: folder.id === BOOKMARKS_BAR_ID ? 'toolbar' : folder.id === OTHER_BOOKMARKS_ID ? 'other' : undefined,
+        children: build(folder.id, depth + 1)
+      }));
+
+    const links: BookmarkTreeNode[] = bookmarks
+      .filter(b => (b.folderId && folderIds.has(b.folderId) ? b.folderId : undefined) === parentId)
+      .sort(byOrder)
+      .map(bookmark => ({
+        type: 'bookmark',
+        url: bookmark.url,
+        title: bookmark.title,
+        addDate: bookmark.createdAt,
+        tags: bookmark.tags,
+        icon: bookmark.favicon,
+        isFavorite: bookmark.isFavorite
+      }));
+
+    return [...subfolders, ...links];
+  };
+
+  return build(undefined, 0);
+}
+
+function isDefaultFolder(id: string): boolean {
+  return DEFAULT_FOLDERS.some(f => f.id === id);
+}
+
+function byOrder(a: { order?: number; createdAt: number }, b: { order?: number; createdAt: number }): number {
+  return (a.order ?? Infinity) - (b.order ?? Infinity) || a.createdAt - b.createdAt;
+}
+
+function nextOrder(items: Array<{ order?: number }>): number {
+  return items.reduce((max, item) => Math.max(max, (item.order ?? -1) + 1), 0);
+}
+
+function clampIndex(index: number | undefined, length: number): number {
+  return index === undefined ? length : Math.max(0, Math.min(index, length));
+}
+
+function mergeTags(a?: string[], b?: string[]): string[] | undefined {
+  const tags = Array.from(new Set([...(a || []), ...(b || [])]));
+  return tags.length ? tags : undefined;
+}
+
+// Export singleton instance
+export const bookmarkService = BookmarkService.getInstance();
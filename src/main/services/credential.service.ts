@@ -0,0 +1,680 @@
+/**
+ * Credential Service
+ * Password manager backed by a locally encrypted vault per account, with
+ * optional sync to private `Credential` records in
+ * privacybrowser_credentials_v1.aleo.
+ *
+ * The local vault is encrypted with the account's credentials data key (see
+ * key-hierarchy.service), so it opens whenever the wallet is unlocked on that
+ * account. On-chain, a credential is encrypted with the same key and split
+ * into four-field chunks (see utils/field-encoding); `credential_id` is the
+ * chunk ID.
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { AleoWallet, Credential, CredentialSummary, PasswordGeneratorOptions } from '@shared/types';
+import { generatePassword, verifyPasswordStrength } from '../utils/crypto';
+import { encodeChunks, formatChunkId, assembleChunks, newChainId } from '../utils/field-encoding';
+import { recordScannerService, IndexedRecord } from './record-scanner.service';
+import { transactionHistoryService } from './transaction-history.service';
+import { keyHierarchyService } from './key-hierarchy.service';
+
+// Lazy import to avoid circular dependency
+function getAleoServiceInstance() {
+  const { AleoService } = require('./aleo.service');
+  return AleoService.getInstance();
+}
+
+// Lazy load electron-store
+function createStore(defaults: any): any {
+  const Store = require('electron-store');
+  return new Store({ name: 'credentials', defaults });
+}
+
+export const CREDENTIALS_PROGRAM_ID = 'privacybrowser_credentials_v1.aleo';
+
+const SYNC_FEE = 0.1; // ALEO per transition
+const FIELDS_PER_RECORD = 4; // encrypted_site, encrypted_username, encrypted_password, encrypted_notes
+const SAVE_PROMPT_TTL = 5 * 60 * 1000;
+
+// Decrypted vault contents
+interface CredentialVault {
+  credentials: Credential[];
+  neverSave: string[]; // Origins the user declined to save logins for
+}
+
+// What was last written to chain for one credential
+interface SyncEntry {
+  chainId: string; // 128-bit hex
+  chunks: number;
+  digest: string;  // sha256 of the plaintext payload, to detect changes
+  keyVersion: number; // Credentials key version the copy is encrypted with
+  syncedAt: number;
+}
+
+interface AccountCredentials {
+  vault: string | null; // base64 of the sealed JSON of CredentialVault
+  chain: Record<string, SyncEntry>;
+}
+
+interface CredentialStore {
+  // address -> account data
+  accounts: Record<string, AccountCredentials>;
+}
+
+// Login captured from a page, waiting for the user to save or dismiss it
+interface PendingSave {
+  origin: string;
+  username: string;
+  password: string;
+  existingId?: string;
+  address: string;
+  createdAt: number;
+}
+
+export interface CredentialInput {
+  origin: string;
+  username: string;
+  password: string;
+  notes?: string;
+}
+
+export interface SavePrompt {
+  promptId: string;
+  origin: string;
+  username: string;
+  isUpdate: boolean;
+}
+
+export interface CredentialSyncOutcome {
+  status: 'added' | 'updated' | 'deleted' | 'unchanged' | 'pending' | 'not-synced';
+  txIds: string[];
+}
+
+export interface CredentialRestoreResult {
+  restored: number;
+  skipped: number;     // Already in the local vault
+  incomplete: number;  // Chain IDs with missing chunks
+  unreadable: number;  // Records that could not be decrypted
+  scanComplete: boolean;
+}
+
+/**
+ * Normalize a page URL or origin to its origin; only http(s) sites are supported
+ */
+export function toOrigin(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.includes('://') ? url : `https://${url}`);
+  } catch {
+    throw new Error(`Invalid site: ${url}`);
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new Error('Logins can only be saved for http and https sites');
+  }
+  return parsed.origin;
+}
+
+export class CredentialService {
+  private static instance: CredentialService;
+  private store: any = null;
+  private pendingSaves: Map<string, PendingSave> = new Map();
+
+  private static readonly defaultStore: CredentialStore = {
+    accounts: {}
+  };
+
+  private constructor() {
+    // Store is lazily initialized
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): CredentialService {
+    if (!CredentialService.instance) {
+      CredentialService.instance = new CredentialService();
+    }
+    return CredentialService.instance;
+  }
+
+  /**
+   * Get store instance (lazy)
+   */
+  private getStore(): any {
+    if (!this.store) {
+      this.store = createStore(CredentialService.defaultStore);
+    }
+    return this.store;
+  }
+
+  // ============ Vault ============
+
+  /**
+   * List saved logins, optionally filtered by site or username
+   */
+  list(wallet: AleoWallet, query?: string): CredentialSummary[] {
+    const { credentials } = this.loadVault(wallet);
+    const chain = this.loadAccount(wallet.address).chain;
+    const needle = query?.trim().toLowerCase();
+
+    return credentials
+      .filter(c => !needle || c.origin.toLowerCase().includes(needle) || c.username.toLowerCase().includes(needle))
+      .sort((a, b) => a.origin.localeCompare(b.origin) || a.username.localeCompare(b.username))
+      .map(c => this.toSummary(c, !!chain[c.id]));
+  }
+
+  /**
+   * Get a credential including its password
+   */
+  get(wallet: AleoWallet, id: string): Credential | null {
+    return this.loadVault(wallet).credentials.find(c => c.id === id) || null;
+  }
+
+  /**
+   * Logins saved for the origin of `url`, most recently used first
+   */
+  findForOrigin(wallet: AleoWallet, url: string): CredentialSummary[] {
+    const origin = toOrigin(url);
+    const chain = this.loadAccount(wallet.address).chain;
+
+    return this.loadVault(wallet).credentials
+      .filter(c => c.origin === origin)
+      .sort((a, b) => (b.lastUsedAt || b.updatedAt) - (a.lastUsedAt || a.updatedAt))
+      .map(c => this.toSummary(c, !!chain[c.id]));
+  }
+
+  add(wallet: AleoWallet, input: CredentialInput): Credential {
+    const vault = this.loadVault(wallet);
+    const credential = this.validate({
+      id: uuidv4(),
+      origin: input.origin,
+      username: input.username,
+      password: input.password,
+      notes: input.notes,
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    });
+
+    if (vault.credentials.some(c => c.origin === credential.origin && c.username === credential.username)) {
+      throw new Error(`A login for ${credential.username || 'this user'} on ${credential.origin} is already saved`);
+    }
+
+    vault.credentials.push(credential);
+    vault.neverSave = vault.neverSave.filter(origin => origin !== credential.origin);
+    this.saveVault(wallet, vault);
+    return credential;
+  }
+
+  update(wallet: AleoWallet, id: string, updates: Partial<CredentialInput>): Credential {
+    const vault = this.loadVault(wallet);
+    const index = vault.credentials.findIndex(c => c.id === id);
+    if (index === -1) {
+      throw new Error('Credential not found');
+    }
+
+    const credential = this.validate({
+      ...vault.credentials[index],
+      origin: updates.origin ?? vault.credentials[index].origin,
+      username: updates.username ?? vault.credentials[index].username,
+      password: updates.password ?? vault.credentials[index].password,
+      notes: updates.notes ?? vault.credentials[index].notes,
+      updatedAt: Date.now()
+    });
+
+    if (vault.credentials.some(c => c.id !== id && c.origin === credential.origin && c.username === credential.username)) {
+      throw new Error(`A login for ${credential.username || 'this user'} on ${credential.origin} is already saved`);
+    }
+
+    vault.credentials[index] = credential;
+    this.saveVault(wallet, vault);
+    return credential;
+  }
+
+  /**
+   * Delete a credential from the local vault. On-chain records are removed
+   * separately with removeFromChain().
+   */
+  remove(wallet: AleoWallet, id: string): boolean {
+    const vault = this.loadVault(wallet);
+    const remaining = vault.credentials.filter(c => c.id !== id);
+    if (remaining.length === vault.credentials.length) {
+      return false;
+    }
+
+    vault.credentials = remaining;
+    this.saveVault(wallet, vault);
+    return true;
+  }
+
+  markUsed(wallet: AleoWallet, id: string): void {
+    const vault = this.loadVault(wallet);
+    const credential = vault.credentials.find(c => c.id === id);
+    if (credential) {
+      credential.lastUsedAt = Date.now();
+      this.saveVault(wallet, vault);
+    }
+  }
+
+  generatePassword(options: PasswordGeneratorOptions = {}): { password: string; strength: ReturnType<typeof verifyPasswordStrength> } {
+    const password = generatePassword(options);
+    return { password, strength: verifyPasswordStrength(password) };
+  }
+
+  // ============ Save prompts ============
+
+  /**
+   * Decide whether a login submitted on a page should be offered for saving.
+   * Returns null when it is already saved or the site is on the never-save list.
+   */
+  createSavePrompt(wallet: AleoWallet, url: string, username: string, password: string): SavePrompt | null {
+    const origin = toOrigin(url);
+    if (!password) {
+      return null;
+    }
+
+    const vault = this.loadVault(wallet);
+    if (vault.neverSave.includes(origin)) {
+      return null;
+    }
+
+    const existing = vault.credentials.find(c => c.origin === origin && c.username === username);
+    if (existing && existing.password === password) {
+      this.markUsed(wallet, existing.id);
+      return null;
+    }
+
+    this.prunePrompts();
+    const promptId = uuidv4();
+    this.pendingSaves.set(promptId, {
+      origin,
+      username,
+      password,
+      existingId: existing?.id,
+      address: wallet.address,
+      createdAt: Date.now()
+    });
+
+    return { promptId, origin, username, isUpdate: !!existing };
+  }
+
+  /**
+   * Apply the user's answer to a save prompt
+   */
+  resolveSavePrompt(wallet: AleoWallet, promptId: string, action: 'save' | 'never' | 'dismiss'): Credential | null {
+    const pending = this.pendingSaves.get(promptId);
+    this.pendingSaves.delete(promptId);
+
+    if (!pending || pending.address !== wallet.address || Date.now() - pending.createdAt > SAVE_PROMPT_TTL) {
+      throw new Error('Save prompt expired');
+    }
+
+    if (action === 'never') {
+      const vault = this.loadVault(wallet);
+      if (!vault.neverSave.includes(pending.origin)) {
+        vault.neverSave.push(pending.origin);
+        this.saveVault(wallet, vault);
+      }
+      return null;
+    }
+
+    if (action !== 'save') {
+      return null;
+    }
+
+    if (pending.existingId) {
+      return this.update(wallet, pending.existingId, { password: pending.password });
+    }
+    return this.add(wallet, { origin: pending.origin, username: pending.username, password: pending.password });
+  }
+
+  /**
+   * Forget every captured login; called when the wallet locks
+   */
+  clearSavePrompts(): void {
+    this.pendingSaves.clear();
+  }
+
+  /**
+   * Re-encrypt the local vault with the current credentials key
+   * @returns Number of logins in the vault
+   */
+  reencryptVault(wallet: AleoWallet): number {
+    const vault = this.loadVault(wallet);
+    this.saveVault(wallet, vault);
+    return vault.credentials.length;
+  }
+
+  // ============ Chain ============
+
+  isSynced(address: string, id: string): boolean {
+    return !!this.loadAccount(address).chain[id];
+  }
+
+  /**
+   * Synced logins whose chain copy is not under the current credentials key
+   */
+  countStale(address: string): number {
+    const keyVersion = keyHierarchyService.getVersion(address, 'credentials');
+    return Object.values(this.loadAccount(address).chain)
+      .filter(entry => entry.keyVersion !== keyVersion).length;
+  }
+
+  /**
+   * Write a credential to chain: stored the first time, updated in place afterwards.
+   * Returns 'pending' while the records of an earlier sync are not yet indexed.
+   */
+  async syncToChain(wallet: AleoWallet, id: string): Promise<CredentialSyncOutcome> {
+    const credential = this.get(wallet, id);
+    if (!credential) {
+      throw new Error('Credential not found');
+    }
+
+    const keyVersion = keyHierarchyService.getVersion(wallet.address, 'credentials');
+    const account = this.loadAccount(wallet.address);
+    const outcome: CredentialSyncOutcome = { status: 'unchanged', txIds: [] };
+
+    const payload = this.encodePayload(credential);
+    const digest = crypto.createHash('sha256').update(payload).digest('hex');
+    const entry = account.chain[id];
+
+    // Unchanged logins are rewritten once the credentials key has been rotated
+    if (entry?.digest === digest && entry.keyVersion === keyVersion) {
+      return outcome;
+    }
+
+    const chunks = encodeChunks(keyHierarchyService.seal(wallet, 'credentials', payload), FIELDS_PER_RECORD);
+
+    try {
+      if (!entry) {
+        account.chain[id] = await this.addChunks(chunks, digest, keyVersion, credential.createdAt, wallet, outcome);
+        outcome.status = 'added';
+        return outcome;
+      }
+
+      const existing = await this.findChunks(entry, wallet);
+      if (!existing) {
+        outcome.status = 'pending';
+        return outcome;
+      }
+
+      if (existing.length === chunks.length) {
+        for (let i = 0; i < chunks.length; i++) {
+          await this.execute('update_credential', [
+            existing[i].plaintext,
+            ...chunks[i],
+            `${credential.updatedAt}u64`
+          ], wallet, outcome, existing[i]);
+        }
+        account.chain[id] = { ...entry, digest, keyVersion, syncedAt: Date.now() };
+      } else {
+        // The chunk count is part of credential_id, so re-store under a new chain ID
+        for (const record of existing) {
+          await this.execute('delete_credential', [record.plaintext], wallet, outcome, record);
+        }
+        account.chain[id] = await this.addChunks(chunks, digest, keyVersion, credential.createdAt, wallet, outcome);
+      }
+      outcome.status = 'updated';
+      return outcome;
+    } finally {
+      this.saveChain(wallet.address, account.chain);
+    }
+  }
+
+  /**
+   * Consume every on-chain record of a credential
+   */
+  async removeFromChain(wallet: AleoWallet, id: string): Promise<CredentialSyncOutcome> {
+    const account = this.loadAccount(wallet.address);
+    const outcome: CredentialSyncOutcome = { status: 'not-synced', txIds: [] };
+    const entry = account.chain[id];
+
+    if (!entry) {
+      return outcome;
+    }
+
+    const existing = await this.findChunks(entry, wallet);
+    if (!existing) {
+      outcome.status = 'pending';
+      return outcome;
+    }
+
+    try {
+      for (const record of existing) {
+        await this.execute('delete_credential', [record.plaintext], wallet, outcome, record);
+      }
+      delete account.chain[id];
+      outcome.status = 'deleted';
+      return outcome;
+    } finally {
+      this.saveChain(wallet.address, account.chain);
+    }
+  }
+
+  /**
+   * Decrypt the account's Credential records into the local vault.
+   * Logins already saved locally (same site and username) are kept.
+   */
+  async restoreFromChain(wallet: AleoWallet): Promise<CredentialRestoreResult> {
+    const scan = await recordScannerService.sync(wallet);
+    const records = recordScannerService.getRecords(wallet.viewKey, { programId: CREDENTIALS_PROGRAM_ID })
+      .filter(record => record.recordName === 'Credential');
+
+    const { payloads, incomplete } = assembleChunks(records.map(record => ({
+      chunkId: String(record.data.credential_id),
+      fields: [
+        String(record.data.encrypted_site),
+        String(record.data.encrypted_username),
+        String(record.data.encrypted_password),
+        String(record.data.encrypted_notes)
+      ]
+    })));
+
+    const vault = this.loadVault(wallet);
+    const account = this.loadAccount(wallet.address);
+    const result: CredentialRestoreResult = { restored: 0, skipped: 0, incomplete, unreadable: 0, scanComplete: scan.complete };
+
+    for (const { chainId, count, payload: sealed } of payloads) {
+      let credential: Credential;
+      let payload: Buffer;
+      let keyVersion: number;
+      try {
+        ({ plaintext: payload, version: keyVersion } = keyHierarchyService.open(wallet, 'credentials', sealed));
+        credential = this.decodePayload(payload);
+      } catch {
+        result.unreadable++;
+        continue;
+      }
+
+      account.chain[credential.id] = {
+        chainId,
+        chunks: count,
+        digest: crypto.createHash('sha256').update(payload).digest('hex'),
+        keyVersion,
+        syncedAt: Date.now()
+      };
+
+      if (vault.credentials.some(c => c.id === credential.id || (c.origin === credential.origin && c.username === credential.username))) {
+        result.skipped++;
+        continue;
+      }
+      vault.credentials.push(credential);
+      result.restored++;
+    }
+
+    this.saveVault(wallet, vault);
+    this.saveChain(wallet.address, account.chain);
+    console.log(`[Credentials] Restored ${result.restored} logins from chain`);
+    return result;
+  }
+
+  // ============ Encoding ============
+
+  private encodePayload(credential: Credential): Buffer {
+    return Buffer.from(JSON.stringify({
+      i: credential.id,
+      o: credential.origin,
+      u: credential.username,
+      p: credential.password,
+      n: credential.notes || undefined,
+      a: credential.createdAt,
+      m: credential.updatedAt
+    }), 'utf8');
+  }
+
+  private decodePayload(payload: Buffer): Credential {
+    const data = JSON.parse(payload.toString('utf8'));
+    if (typeof data.i !== 'string' || typeof data.o !== 'string' || typeof data.u !== 'string' || typeof data.p !== 'string') {
+      throw new Error('Malformed credential payload');
+    }
+
+    const createdAt = Number(data.a) || Date.now();
+    return this.validate({
+      id: data.i,
+      origin: data.o,
+      username: data.u,
+      password: data.p,
+      notes: typeof data.n === 'string' ? data.n : undefined,
+      createdAt,
+      updatedAt: Number(data.m) || createdAt
+    });
+  }
+
+  private validate(credential: Credential): Credential {
+    if (!credential.password) {
+      throw new Error('Password is required');
+    }
+    return {
+      ...credential,
+      origin: toOrigin(credential.origin),
+      username: credential.username.trim()
+    };
+  }
+
+  private toSummary(credential: Credential, syncedToAleo: boolean): CredentialSummary {
+    const { password: _password, notes: _notes, ...summary } = credential;
+    return { ...summary, syncedToAleo };
+  }
+
+  /**
+   * Write chunks as new records under a fresh chain ID
+   */
+  private async addChunks(
+    chunks: string[][],
+    digest: string,
+    keyVersion: number,
+    createdAt: number,
+    wallet: AleoWallet,
+    outcome: CredentialSyncOutcome
+  ): Promise<SyncEntry> {
+    const chainId = newChainId();
+    for (let i = 0; i < chunks.length; i++) {
+      await this.execute('store_credential', [
+        formatChunkId({ chainId, index: i, count: chunks.length }),
+        ...chunks[i],
+        `${createdAt}u64`
+      ], wallet, outcome);
+    }
+
+    return { chainId, chunks: chunks.length, digest, keyVersion, syncedAt: Date.now() };
+  }
+
+  /**
+   * Find every unspent chunk record of a synced credential, in chunk order.
+   * Returns null until all of them are confirmed and indexed.
+   */
+  private async findChunks(entry: SyncEntry, wallet: AleoWallet): Promise<IndexedRecord[] | null> {
+    await recordScannerService.sync(wallet);
+    const records = recordScannerService.getRecords(wallet.viewKey, { programId: CREDENTIALS_PROGRAM_ID })
+      .filter(record => record.recordName === 'Credential' && !record.pendingSpendTxId);
+
+    const found: IndexedRecord[] = [];
+    for (let i = 0; i < entry.chunks; i++) {
+      const credentialId = formatChunkId({ chainId: entry.chainId, index: i, count: entry.chunks });
+      const record = records.filter(r => String(r.data.credential_id) === credentialId).pop();
+      if (!record) {
+        return null;
+      }
+      found.push(record);
+    }
+    return found;
+  }
+
+  /**
+   * Run one credentials program transition, marking a consumed record as pending spend
+   */
+  private async execute(
+    functionName: string,
+    inputs: string[],
+    wallet: AleoWallet,
+    outcome: CredentialSyncOutcome,
+    consumed?: IndexedRecord
+  ): Promise<void> {
+    const txId = await getAleoServiceInstance().executeProgram({
+      programId: CREDENTIALS_PROGRAM_ID,
+      functionName,
+      inputs,
+      fee: SYNC_FEE,
+      privateKey: wallet.privateKey,
+      consumes: consumed ? { viewKey: wallet.viewKey, recordIds: [consumed.id] } : undefined
+    });
+
+    transactionHistoryService.recordExecuteTransaction({
+      txId,
+      programId: CREDENTIALS_PROGRAM_ID,
+      functionName,
+      fee: SYNC_FEE
+    });
+    outcome.txIds.push(txId);
+  }
+
+  // ============ Persistence ============
+
+  private loadAccount(address: string): AccountCredentials {
+    const account = this.getStore().get('accounts')[address];
+    return { vault: account?.vault ?? null, chain: { ...(account?.chain || {}) } };
+  }
+
+  private loadVault(wallet: AleoWallet): CredentialVault {
+    const { vault } = this.loadAccount(wallet.address);
+    if (!vault) {
+      return { credentials: [], neverSave: [] };
+    }
+
+    try {
+      const { plaintext } = keyHierarchyService.open(wallet, 'credentials', Buffer.from(vault, 'base64'));
+      const data = JSON.parse(plaintext.toString('utf8'));
+      return { credentials: data.credentials || [], neverSave: data.neverSave || [] };
+    } catch (error) {
+      throw new Error(`Failed to open credential vault: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private saveVault(wallet: AleoWallet, vault: CredentialVault): void {
+    const sealed = keyHierarchyService.seal(wallet, 'credentials', Buffer.from(JSON.stringify(vault), 'utf8'));
+
+    const accounts = this.getStore().get('accounts');
+    accounts[wallet.address] = { ...this.loadAccount(wallet.address), vault: sealed.toString('base64') };
+    this.getStore().set('accounts', accounts);
+  }
+
+  private saveChain(address: string, chain: Record<string, SyncEntry>): void {
+    const accounts = this.getStore().get('accounts');
+    accounts[address] = { ...this.loadAccount(address), chain };
+    this.getStore().set('accounts', accounts);
+  }
+
+  private prunePrompts(): void {
+    const now = Date.now();
+    for (const [promptId, pending] of this.pendingSaves) {
+      if (now - pending.createdAt > SAVE_PROMPT_TTL) {
+        this.pendingSaves.delete(promptId);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const credentialService = CredentialService.getInstance();
@@ -0,0 +1,509 @@
+/**
+ * Filter List Service
+ * The Adblock Plus / uBlock filter lists Shields blocks requests with.
+ * Downloaded and imported lists are kept as text files under
+ * userData/filter-lists and compiled into one matcher at startup, so blocking
+ * works offline; lists with an update URL are downloaded again once they are
+ * older than the update interval. The built-in lists come from
+ * utils/default-filters.
+ *
+ * Element hiding rules of the lists, and the ones picked by the user for a
+ * site, are served as a stylesheet per page.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { FilterList, FilterListCategory, ElementHidingRule } from '@shared/types';
+import { parseFilterList, FilterMatcher, FilterRequest, FilterMatch, ParsedFilterList } from '../utils/filter-list';
+import { CosmeticMatcher, parseCosmeticFilter, hidingStylesheet } from '../utils/cosmetic-filter';
+import { DEFAULT_FILTERS } from '../utils/default-filters';
+
+// Lazy load electron-store
+function createStore(defaults: any): any {
+  const Store = require('electron-store');
+  return new Store({ name: 'filter-lists', defaults });
+}
+
+const MAX_LIST_SIZE = 20 * 1024 * 1024; // 20 MB
+const DOWNLOAD_TIMEOUT = 60 * 1000;
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000; // Hourly
+const DEFAULT_UPDATE_INTERVAL_HOURS = 24;
+const MIN_UPDATE_INTERVAL_HOURS = 1;
+
+// List id of the user's element hiding rules, which apply whatever the categories
+const HIDING_RULES_LIST_ID = 'user-hiding-rules';
+
+const BUILTIN_LISTS: FilterList[] = [
+  { id: 'builtin-ads', title: 'Aleo Shields ads', category: 'ads', builtin: true, enabled: true, ruleCount: 0 },
+  { id: 'builtin-trackers', title: 'Aleo Shields trackers', category: 'trackers', builtin: true, enabled: true, ruleCount: 0 },
+  { id: 'builtin-fingerprinting', title: 'Aleo Shields fingerprinting', category: 'fingerprinting', builtin: true, enabled: true, ruleCount: 0 }
+];
+
+const DEFAULT_SUBSCRIPTIONS: FilterList[] = [
+  { id: 'easylist', title: 'EasyList', category: 'ads', url: 'https://easylist.to/easylist/easylist.txt', enabled: true, ruleCount: 0 },
+  { id: 'easyprivacy', title: 'EasyPrivacy', category: 'trackers', url: 'https://easylist.to/easylist/easyprivacy.txt', enabled: true, ruleCount: 0 }
+];
+
+interface FilterListStore {
+  lists: FilterList[];
+  updateIntervalHours: number;
+  hidingRules: ElementHidingRule[];
+}
+
+export interface FilterListMatch extends FilterMatch {
+  category: FilterListCategory;
+  listTitle: string;
+}
+
+export class FilterListService {
+  private static instance: FilterListService;
+  private store: any = null;
+  private matcher = new FilterMatcher();
+  private cosmetic = new CosmeticMatcher();
+  private hidingRules = new CosmeticMatcher();
+  private genericSheets = new Map<string, { css: string; selectors: Set<string> }>();
+  private categories = new Map<string, FilterListCategory>();
+  private titles = new Map<string, string>();
+  private generation = 0;
+  private updateTimer: NodeJS.Timeout | null = null;
+  private updating: Promise<FilterList[]> | null = null;
+
+  private static readonly defaultStore: FilterListStore = {
+    lists: [...BUILTIN_LISTS, ...DEFAULT_SUBSCRIPTIONS],
+    updateIntervalHours: DEFAULT_UPDATE_INTERVAL_HOURS,
+    hidingRules: []
+  };
+
+  private constructor() {
+    // Store is lazily initialized
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): FilterListService {
+    if (!FilterListService.instance) {
+      FilterListService.instance = new FilterListService();
+    }
+    return FilterListService.instance;
+  }
+
+  /**
+   * Get store instance (lazy)
+   */
+  private getStore(): any {
+    if (!this.store) {
+      this.store = createStore(FilterListService.defaultStore);
+    }
+    return this.store;
+  }
+
+  /**
+   * Compile the enabled lists and start scheduled updates
+   */
+  async initialize(): Promise<void> {
+    this.compileHidingRules();
+    await this.compile();
+    this.startUpdates();
+  }
+
+  /**
+   * Find the rule that blocks a request
+   * @param categories - Categories Shields currently blocks
+   */
+  match(request: FilterRequest, categories: Set<FilterListCategory>): FilterListMatch | null {
+    const match = this.matcher.match(request, listId => categories.has(this.categories.get(listId)!));
+    return match
+      ? { ...match, category: this.categories.get(match.listId)!, listTitle: this.titles.get(match.listId) || '' }
+      : null;
+  }
+
+  /**
+   * Stylesheet hiding the elements the lists and the user's rules hide on a
+   * page, or '' when there is nothing to hide
+   * @param categories - Categories Shields currently blocks
+   */
+  getHidingStylesheet(pageUrl: string, categories: Set<FilterListCategory>): string {
+    let hostname: string;
+    try {
+      hostname = new URL(pageUrl).hostname;
+    } catch {
+      return '';
+    }
+
+    const accept = (listId: string) => categories.has(this.categories.get(listId)!);
+    const page = this.cosmetic.pageSelectors(hostname, accept);
+    const generic = this.getGenericSheet(categories, accept);
+    const user = this.hidingRules.pageSelectors(hostname).hide;
+
+    // The site excepts some generic selectors, so it needs its own copy of them
+    const unhide = page.unhide.filter(selector => generic.selectors.has(selector));
+    const genericCss = unhide.length
+      ? hidingStylesheet([...generic.selectors].filter(selector => !unhide.includes(selector)))
+      : generic.css;
+
+    return [genericCss, hidingStylesheet(page.hide), hidingStylesheet(user)].filter(Boolean).join('\n');
+  }
+
+  /**
+   * The user's element hiding rules, all or for one site
+   */
+  getHidingRules(hostname?: string): ElementHidingRule[] {
+    const rules: ElementHidingRule[] = this.getStore().get('hidingRules');
+    return hostname ? rules.filter(rule => rule.hostname === hostname.toLowerCase()) : rules;
+  }
+
+  addHidingRule(hostname: string, selector: string): ElementHidingRule {
+    const host = hostname.toLowerCase();
+    const trimmed = selector.trim();
+    if (!/^[a-z0-9.-]+$/.test(host) || !parseCosmeticFilter(`${host}##${trimmed}`, HIDING_RULES_LIST_ID)) {
+      throw new Error('Invalid element hiding rule');
+    }
+
+    const rules = this.getHidingRules();
+    const existing = rules.find(rule => rule.hostname === host && rule.selector === trimmed);
+    if (existing) {
+      return existing;
+    }
+
+    const rule: ElementHidingRule = { id: uuidv4(), hostname: host, selector: trimmed, createdAt: Date.now() };
+    this.getStore().set('hidingRules', [...rules, rule]);
+    this.compileHidingRules();
+    console.log(`[Filter Lists] Hiding ${trimmed} on ${host}`);
+    return rule;
+  }
+
+  removeHidingRule(id: string): void {
+    const rules = this.getHidingRules();
+    if (!rules.some(rule => rule.id === id)) {
+      throw new Error('Element hiding rule not found');
+    }
+    this.getStore().set('hidingRules', rules.filter(rule => rule.id !== id));
+    this.compileHidingRules();
+  }
+
+  getLists(): FilterList[] {
+    return this.loadLists();
+  }
+
+  getUpdateInterval(): number {
+    return this.getStore().get('updateIntervalHours');
+  }
+
+  setUpdateInterval(hours: number): void {
+    if (!Number.isFinite(hours) || hours < MIN_UPDATE_INTERVAL_HOURS) {
+      throw new Error(`Update interval must be at least ${MIN_UPDATE_INTERVAL_HOURS} hour`);
+    }
+    this.getStore().set('updateIntervalHours', Math.round(hours));
+  }
+
+  /**
+   * Enable or disable a list, or point it at another update URL
+   */
+  async updateList(id: string, updates: { enabled?: boolean; url?: string }): Promise<FilterList> {
+    const lists = this.loadLists();
+    const list = lists.find(l => l.id === id);
+    if (!list) {
+      throw new Error('Filter list not found');
+    }
+
+    if (updates.url !== undefined) {
+      if (list.builtin) {
+        throw new Error('Built-in lists have no update URL');
+      }
+      list.url = updates.url ? this.validateUrl(updates.url) : undefined;
+      list.lastUpdated = undefined;
+      list.lastError = undefined;
+    }
+    if (updates.enabled !== undefined) {
+      list.enabled = updates.enabled;
+    }
+
+    this.saveLists(lists);
+    await this.compile();
+    if (list.enabled && list.url && !list.lastUpdated) {
+      await this.updateLists();
+    }
+    return this.loadLists().find(l => l.id === id)!;
+  }
+
+  /**
+   * Subscribe to a list by URL. It is downloaded right away and only added if
+   * it is a filter list.
+   */
+  async addList(url: string, category: FilterListCategory): Promise<FilterList> {
+    const normalized = this.validateUrl(url);
+    if (this.loadLists().some(l => l.url === normalized)) {
+      throw new Error('Already subscribed to this list');
+    }
+
+    const list: FilterList = { id: uuidv4(), title: '', category, url: normalized, enabled: true, ruleCount: 0 };
+    try {
+      const parsed = await this.download(list);
+      list.title = parsed.title || new URL(normalized).hostname;
+      list.lastUpdated = Date.now();
+    } catch (error) {
+      throw new Error(`Failed to add filter list: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    this.saveLists([...this.loadLists(), list]);
+    await this.compile();
+    console.log(`[Filter Lists] Subscribed to ${list.title}`);
+    return this.loadLists().find(l => l.id === list.id)!;
+  }
+
+  /**
+   * Add a list from a local file. It has no update URL until one is set.
+   */
+  async importList(filePath: string, category: FilterListCategory): Promise<FilterList> {
+    const stat = await fs.stat(filePath);
+    if (stat.size > MAX_LIST_SIZE) {
+      throw new Error('Filter list is too large');
+    }
+
+    const text = await fs.readFile(filePath, 'utf8');
+    const id = uuidv4();
+    const parsed = parseFilterList(text, id);
+    if (!parsed.filters.length && !parsed.cosmetic.length) {
+      throw new Error('Not a filter list');
+    }
+
+    await this.writeListFile(id, text);
+    const list: FilterList = {
+      id,
+      title: parsed.title || path.basename(filePath),
+      category,
+      enabled: true,
+      ruleCount: 0,
+      lastUpdated: Date.now()
+    };
+    this.saveLists([...this.loadLists(), list]);
+    await this.compile();
+    console.log(`[Filter Lists] Imported ${list.title}`);
+    return this.loadLists().find(l => l.id === id)!;
+  }
+
+  async removeList(id: string): Promise<void> {
+    const lists = this.loadLists();
+    const list = lists.find(l => l.id === id);
+    if (!list) {
+      throw new Error('Filter list not found');
+    }
+    if (list.builtin) {
+      throw new Error('Built-in lists can only be disabled');
+    }
+
+    this.saveLists(lists.filter(l => l.id !== id));
+    await fs.rm(this.getListPath(id), { force: true });
+    await this.compile();
+  }
+
+  /**
+   * Download enabled lists that are due for an update
+   * @param force - Download every list with an update URL
+   * @returns The lists after the update
+   */
+  updateLists(force: boolean = false): Promise<FilterList[]> {
+    if (!this.updating) {
+      this.updating = this.runUpdates(force).finally(() => {
+        this.updating = null;
+      });
+    }
+    return this.updating;
+  }
+
+  /**
+   * Check for due updates in the background
+   */
+  startUpdates(): void {
+    this.stopUpdates();
+
+    const tick = () => {
+      this.updateLists().catch(error => {
+        console.warn('[Filter Lists] Scheduled update failed:', error);
+      });
+    };
+
+    this.updateTimer = setInterval(tick, UPDATE_CHECK_INTERVAL);
+    tick();
+  }
+
+  stopUpdates(): void {
+    if (this.updateTimer) {
+      clearInterval(this.updateTimer);
+      this.updateTimer = null;
+    }
+  }
+
+  private async runUpdates(force: boolean): Promise<FilterList[]> {
+    const maxAge = this.getUpdateInterval() * 60 * 60 * 1000;
+    const due = this.loadLists().filter(list =>
+      list.enabled && list.url && (force || !list.lastUpdated || Date.now() - list.lastUpdated >= maxAge)
+    );
+
+    const results = new Map<string, Partial<FilterList>>();
+    for (const list of due) {
+      try {
+        await this.download(list);
+        results.set(list.id, { lastUpdated: Date.now(), lastError: undefined });
+        console.log(`[Filter Lists] Updated ${list.title}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        results.set(list.id, { lastError: message });
+        console.warn(`[Filter Lists] Failed to update ${list.title}: ${message}`);
+      }
+    }
+
+    if (results.size) {
+      // Lists may have changed while downloading
+      this.saveLists(this.loadLists().map(list => results.has(list.id) ? { ...list, ...results.get(list.id) } : list));
+      await this.compile();
+    }
+    return this.loadLists();
+  }
+
+  /**
+   * Download a list and replace its local copy
+   */
+  private async download(list: FilterList): Promise<ParsedFilterList> {
+    const response = await fetch(list.url!, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT) });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const text = await response.text();
+    if (text.length > MAX_LIST_SIZE) {
+      throw new Error('Filter list is too large');
+    }
+
+    const parsed = parseFilterList(text, list.id);
+    if (!parsed.filters.length && !parsed.cosmetic.length) {
+      throw new Error('Not a filter list');
+    }
+
+    await this.writeListFile(list.id, text);
+    return parsed;
+  }
+
+  /**
+   * Rebuild the matcher from the enabled lists
+   */
+  private async compile(): Promise<void> {
+    const generation = ++this.generation;
+    const lists = this.loadLists();
+    const matcher = new FilterMatcher();
+    const cosmetic = new CosmeticMatcher();
+    const categories = new Map<string, FilterListCategory>();
+    const titles = new Map<string, string>();
+    const ruleCounts = new Map<string, number>();
+
+    for (const list of lists.filter(l => l.enabled)) {
+      const text = await this.readListText(list);
+      if (text === null) {
+        continue;
+      }
+
+      const parsed = parseFilterList(text, list.id);
+      parsed.filters.forEach(filter => matcher.add(filter));
+      parsed.cosmetic.forEach(filter => cosmetic.add(filter));
+      categories.set(list.id, list.category);
+      titles.set(list.id, list.title);
+      ruleCounts.set(list.id, parsed.filters.length + parsed.cosmetic.length);
+    }
+
+    // A newer compile started while this one was reading files
+    if (generation !== this.generation) {
+      return;
+    }
+
+    this.matcher = matcher;
+    this.cosmetic = cosmetic;
+    this.categories = categories;
+    this.titles = titles;
+    this.genericSheets.clear();
+    this.saveLists(this.loadLists().map(list =>
+      ruleCounts.has(list.id) ? { ...list, ruleCount: ruleCounts.get(list.id)! } : list
+    ));
+    console.log(`[Filter Lists] Compiled ${matcher.size + cosmetic.size} rules from ${categories.size} lists`);
+  }
+
+  private compileHidingRules(): void {
+    this.hidingRules = new CosmeticMatcher(this.getHidingRules()
+      .map(rule => parseCosmeticFilter(`${rule.hostname}##${rule.selector}`, HIDING_RULES_LIST_ID))
+      .filter((filter): filter is NonNullable<typeof filter> => filter !== null));
+  }
+
+  /**
+   * Generic hiding stylesheet for a set of categories, built once per compile
+   * since it is the same for every page
+   */
+  private getGenericSheet(
+    categories: Set<FilterListCategory>,
+    accept: (listId: string) => boolean
+  ): { css: string; selectors: Set<string> } {
+    const key = [...categories].sort().join(',');
+    let sheet = this.genericSheets.get(key);
+    if (!sheet) {
+      const selectors = this.cosmetic.genericSelectors(accept);
+      sheet = { css: hidingStylesheet(selectors), selectors: new Set(selectors) };
+      this.genericSheets.set(key, sheet);
+    }
+    return sheet;
+  }
+
+  private async readListText(list: FilterList): Promise<string | null> {
+    if (list.builtin) {
+      return DEFAULT_FILTERS[list.category];
+    }
+
+    try {
+      return await fs.readFile(this.getListPath(list.id), 'utf8');
+    } catch {
+      // Not downloaded yet
+      return null;
+    }
+  }
+
+  private async writeListFile(id: string, text: string): Promise<void> {
+    const filePath = this.getListPath(id);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(`${filePath}.tmp`, text, 'utf8');
+    await fs.rename(`${filePath}.tmp`, filePath);
+  }
+
+  private getListPath(id: string): string {
+    const { app } = require('electron');
+    return path.join(app.getPath('userData'), 'filter-lists', `${id}.txt`);
+  }
+
+  private validateUrl(url: string): string {
+    let parsed: URL;
+    try {
+      parsed = new URL(url.trim());
+    } catch {
+      throw new Error('Invalid filter list URL');
+    }
+
+    // Rules decide what pages may load, so they are never fetched in the clear
+    if (parsed.protocol !== 'https:') {
+      throw new Error('Filter lists must be downloaded over HTTPS');
+    }
+    return parsed.toString();
+  }
+
+  private loadLists(): FilterList[] {
+    const lists: FilterList[] = this.getStore().get('lists');
+
+    // Built-in lists added in later releases
+    const missing = BUILTIN_LISTS.filter(builtin => !lists.some(l => l.id === builtin.id));
+    return [...missing, ...lists].map(list => ({ ...list }));
+  }
+
+  private saveLists(lists: FilterList[]): void {
+    this.getStore().set('lists', lists);
+  }
+}
+
+// Export singleton instance
+export const filterListService = FilterListService.getInstance();
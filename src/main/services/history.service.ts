@@ -0,0 +1,869 @@
+/**
+ * History Service
+ * Browsing history with a full-text index over titles, URLs and (optionally)
+ * the visible text of visited pages.
+ *
+ * Visits are kept in monthly segments. Each segment is its own encrypted store
+ * holding that month's visits and an inverted index (term -> visits), so adding
+ * a visit or searching only ever loads a few months at a time. A small manifest
+ * lists the segments and holds the retention settings, and a page store keeps
+ * per-URL visit counts and recent visit times for ranking suggestions.
+ *
+ * Earlier builds kept history as a plain list in the config store and as an
+ * encrypted blob in the storage service; both are merged in once and removed.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  HistoryEntry,
+  HistorySearchOptions,
+  HistorySearchResponse,
+  HistorySearchResult,
+  HistorySettings,
+  PageStats
+} from '@shared/types';
+import { tokenize, domainOf } from '../utils/text-index';
+
+// Lazy import to avoid circular dependency
+function getStorageServiceInstance() {
+  const { StorageService } = require('./storage.service');
+  return StorageService.getInstance();
+}
+
+// Lazy load electron-store
+function createStore(options: { name?: string; cwd?: string; defaults?: any; encryptionKey?: string }): any {
+  const Store = require('electron-store');
+  return new Store(options);
+}
+
+// Where a term was found; postings store `slot * FIELD_SLOTS + field bits`
+const FIELD_TITLE = 1;
+const FIELD_URL = 2;
+const FIELD_TEXT = 4;
+const FIELD_SLOTS = 8;
+
+const FIELD_WEIGHTS: Array<[number, number]> = [
+  [FIELD_TITLE, 3],
+  [FIELD_URL, 2],
+  [FIELD_TEXT, 1]
+];
+
+// A prefix match (the word still being typed) counts for less than a whole word
+const PREFIX_WEIGHT = 0.6;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Loads of the same URL this close together are one visit
+const REVISIT_WINDOW = 5 * 60 * 1000;
+
+const MAX_PAGE_TEXT = 50_000;
+const MAX_PAGE_TERMS = 2_000;
+
+// Visit times kept per page; enough to tell how recent its visits are
+const RECENT_VISITS = 10;
+// Pages not visited for the longest time drop out of the page store first
+const MAX_PAGES = 20_000;
+const PAGES_VERSION = 1;
+
+const SEGMENT_CACHE_SIZE = 3;
+const MAX_FACETS = 20;
+const SCHEMA_VERSION = 1;
+
+export const DEFAULT_HISTORY_SETTINGS: HistorySettings = {
+  retentionDays: 0,
+  maxEntries: 100_000,
+  indexPageText: false
+};
+
+interface SegmentData {
+  // Visits in the order they were added; null marks a deleted visit
+  entries: Array<HistoryEntry | null>;
+  postings: Record<string, number[]>;
+}
+
+interface SegmentInfo {
+  id: string;           // Month, e.g. "2026-10"
+  count: number;        // Visits not deleted
+  oldest: number;
+  newest: number;
+}
+
+interface OpenSegment {
+  store: any;
+  data: SegmentData;
+}
+
+export class HistoryService {
+  private static instance: HistoryService;
+  private manifest: any = null;
+  private legacyChecked = false;
+  // Recently used segments, least recently used first
+  private segments = new Map<string, OpenSegment>();
+  // Page text captured before the renderer recorded the visit
+  private pendingText = new Map<string, string>();
+  private pagesStore: any = null;
+  private pages: Map<string, PageStats> | null = null;
+
+  private constructor() {
+    // Stores are lazily initialized
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): HistoryService {
+    if (!HistoryService.instance) {
+      HistoryService.instance = new HistoryService();
+    }
+    return HistoryService.instance;
+  }
+
+  /**
+   * Get the manifest store (lazy), merging legacy history on first use
+   */
+  private getManifest(): any {
+    if (!this.manifest) {
+      this.manifest = createStore({
+        name: 'history',
+        encryptionKey: getStorageServiceInstance().getLocalEncryptionKey(),
+        defaults: { schemaVersion: 0, segments: [], settings: DEFAULT_HISTORY_SETTINGS }
+      });
+    }
+
+    if (!this.legacyChecked) {
+      this.legacyChecked = true;
+      this.migrateLegacy();
+    }
+    return this.manifest;
+  }
+
+  // ============ Settings ============
+
+  getSettings(): HistorySettings {
+    return { ...DEFAULT_HISTORY_SETTINGS, ...this.getManifest().get('settings') };
+  }
+
+  /**
+   * Update retention or page text indexing; shrinking retention drops old visits now
+   */
+  updateSettings(updates: Partial<HistorySettings>): HistorySettings {
+    const settings = { ...this.getSettings(), ...updates };
+
+    if (!Number.isInteger(settings.retentionDays) || settings.retentionDays < 0) {
+      throw new Error('Retention must be a whole number of days');
+    }
+    if (!Number.isInteger(settings.maxEntries) || settings.maxEntries < 1000 || settings.maxEntries > 1_000_000) {
+      throw new Error('History size must be between 1,000 and 1,000,000 visits');
+    }
+
+    this.getManifest().set('settings', settings);
+    if (!settings.indexPageText) {
+      this.pendingText.clear();
+    }
+
+    this.enforceRetention();
+    return settings;
+  }
+
+  isTextIndexEnabled(): boolean {
+    return this.getSettings().indexPageText;
+  }
+
+  // ============ Visits ============
+
+  /**
+   * Record a visit. Reloading a page within a few minutes updates the last visit.
+   */
+  addVisit(entry: Omit<HistoryEntry, 'id' | 'visitedAt'>, visitedAt: number = Date.now()): HistoryEntry {
+    const segmentId = segmentIdFor(visitedAt);
+    const segment = this.openSegment(segmentId);
+    const { entries } = segment.data;
+
+    for (let slot = entries.length - 1; slot >= 0 && slot >= entries.length - 50; slot--) {
+      const existing = entries[slot];
+      if (!existing) continue;
+      if (visitedAt - existing.visitedAt > REVISIT_WINDOW) break;
+
+      if (existing.url === entry.url) {
+        existing.visitedAt = visitedAt;
+        existing.favicon = entry.favicon || existing.favicon;
+        if (entry.title && entry.title !== existing.title) {
+          existing.title = entry.title;
+          addPostings(segment.data, slot, tokenize(entry.title), FIELD_TITLE);
+        }
+        this.indexPendingText(segment.data, slot, existing.url);
+        this.writeSegment(segmentId, segment);
+        this.touchVisit(existing);
+        return { ...existing };
+      }
+    }
+
+    const visit: HistoryEntry = {
+      ...entry,
+      id: `${segmentId}:${uuidv4()}`,
+      visitedAt
+    };
+
+    entries.push(visit);
+    indexEntry(segment.data, entries.length - 1, visit);
+    this.indexPendingText(segment.data, entries.length - 1, visit.url);
+    this.writeSegment(segmentId, segment);
+    this.countVisit(visit);
+
+    if (this.isOverRetention()) {
+      this.enforceRetention();
+    }
+    this.savePages();
+    return { ...visit };
+  }
+
+  /**
+   * Index the visible text of a page, on the latest visit to its URL.
+   * Text that arrives before the visit is recorded is kept until it is.
+   */
+  attachPageText(url: string, text: string): void {
+    if (!this.isTextIndexEnabled() || !text.trim()) {
+      return;
+    }
+
+    const segmentId = segmentIdFor(Date.now());
+    const segment = this.openSegment(segmentId);
+    const { entries } = segment.data;
+
+    for (let slot = entries.length - 1; slot >= 0 && slot >= entries.length - 50; slot--) {
+      if (entries[slot]?.url === url) {
+        addPostings(segment.data, slot, tokenize(text.slice(0, MAX_PAGE_TEXT), MAX_PAGE_TERMS), FIELD_TEXT);
+        this.writeSegment(segmentId, segment);
+        return;
+      }
+    }
+
+    this.pendingText.set(url, text.slice(0, MAX_PAGE_TEXT));
+    // Only the last few pages can still be waiting for their visit
+    if (this.pendingText.size > 10) {
+      this.pendingText.delete(this.pendingText.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Most recent visits, newest first, with the visit count of their URL
+   */
+  getRecent(limit?: number): HistoryEntry[] {
+    const recent: HistoryEntry[] = [];
+    const pages = this.loadPages();
+
+    for (const info of this.listSegments().reverse()) {
+      const { data } = this.openSegment(info.id);
+      const visits = data.entries.filter((e): e is HistoryEntry => !!e);
+      recent.push(...visits.sort((a, b) => b.visitedAt - a.visitedAt));
+
+      // Older segments only hold older visits
+      if (limit && recent.length >= limit) {
+        break;
+      }
+    }
+
+    return (limit ? recent.slice(0, limit) : recent)
+      .map(entry => ({ ...entry, visitCount: pages.get(entry.url)?.visitCount }));
+  }
+
+  /**
+   * Visit statistics for every page, for ranking suggestions
+   */
+  getPageStats(): PageStats[] {
+    return Array.from(this.loadPages().values());
+  }
+
+  deleteEntry(id: string): void {
+    // Visit ids start with their segment; migrated ids may not
+    const hinted = id.split(':')[0];
+    const candidates = this.listSegments().map(s => s.id);
+    const order = candidates.includes(hinted) ? [hinted, ...candidates.filter(c => c !== hinted)] : candidates;
+
+    for (const segmentId of order) {
+      const segment = this.openSegment(segmentId);
+      const slot = segment.data.entries.findIndex(e => e?.id === id);
+      if (slot !== -1) {
+        this.forgetVisit(segment.data.entries[slot]!);
+        segment.data.entries[slot] = null;
+        this.writeSegment(segmentId, segment);
+        this.savePages();
+        return;
+      }
+    }
+
+    throw new Error('History entry not found');
+  }
+
+  clear(): void {
+    for (const info of this.listSegments()) {
+      this.dropSegment(info.id);
+    }
+    this.pendingText.clear();
+    this.loadPages().clear();
+    this.savePages();
+  }
+
+  /**
+   * Replace all history (used when importing a backup)
+   */
+  replaceAll(entries: HistoryEntry[]): void {
+    this.clear();
+    this.insertEntries(entries);
+    this.enforceRetention();
+  }
+
+  /**
+   * Forget decrypted segments held in memory
+   */
+  clearCache(): void {
+    this.segments.clear();
+    this.pendingText.clear();
+    this.pages = null;
+    this.pagesStore = null;
+  }
+
+  // ============ Search ============
+
+  /**
+   * Ranked full-text search. Every word must match; the last one also matches
+   * as a prefix while it is being typed. Results are pages (visits to the same
+   * URL folded together) ranked by where the words matched, how rare they are,
+   * how recently and how often the page was visited. An empty query lists
+   * pages by last visit, so date and domain filters work on their own.
+   */
+  search(query: string, options: HistorySearchOptions = {}): HistorySearchResponse {
+    const terms = tokenize(query);
+    const prefixTerm = terms.length && !/\s$/.test(query) ? terms[terms.length - 1] : null;
+    const from = options.from ?? 0;
+    const to = options.to ?? Infinity;
+    const now = Date.now();
+    const pages = new Map<string, HistorySearchResult>();
+
+    for (const info of this.listSegments().reverse()) {
+      if (info.newest < from || info.oldest > to) {
+        continue;
+      }
+
+      const { data } = this.openSegment(info.id);
+      const matches = terms.length ? matchSlots(data, terms, prefixTerm) : liveSlots(data);
+
+      for (const [slot, termScore] of matches) {
+        const entry = data.entries[slot];
+        if (!entry || entry.visitedAt < from || entry.visitedAt > to) {
+          continue;
+        }
+
+        const ageDays = Math.max(0, now - entry.visitedAt) / DAY;
+        const score = termScore * (1 + 1 / (1 + ageDays / 7));
+        const page = pages.get(entry.url);
+
+        if (!page) {
+          pages.set(entry.url, { ...entry, domain: domainOf(entry.url), visitCount: 1, score });
+          continue;
+        }
+
+        page.visitCount++;
+        page.score = Math.max(page.score, score);
+        if (entry.visitedAt > page.visitedAt) {
+          Object.assign(page, { id: entry.id, title: entry.title, favicon: entry.favicon || page.favicon, visitedAt: entry.visitedAt });
+        }
+      }
+    }
+
+    const all = Array.from(pages.values());
+    for (const page of all) {
+      page.score = Math.round(page.score * (1 + Math.log2(page.visitCount) / 4) * 1000) / 1000;
+    }
+
+    const facetCounts = new Map<string, number>();
+    for (const page of all) {
+      facetCounts.set(page.domain, (facetCounts.get(page.domain) || 0) + 1);
+    }
+    const facets = Array.from(facetCounts, ([domain, count]) => ({ domain, count }))
+      .sort((a, b) => b.count - a.count || a.domain.localeCompare(b.domain))
+      .slice(0, MAX_FACETS);
+
+    const domain = options.domain?.toLowerCase().replace(/^www\./, '');
+    const results = domain
+      ? all.filter(p => p.domain === domain || p.domain.endsWith(`.${domain}`))
+      : all;
+
+    results.sort((a, b) => (terms.length ? b.score - a.score : 0) || b.visitedAt - a.visitedAt);
+
+    return {
+      results: results.slice(0, options.limit ?? 50),
+      total: results.length,
+      facets
+    };
+  }
+
+  // ============ Segments ============
+
+  /**
+   * Segments, oldest first
+   */
+  private listSegments(): SegmentInfo[] {
+    return [...(this.getManifest().get('segments') as SegmentInfo[])].sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  private openSegment(id: string): OpenSegment {
+    const cached = this.segments.get(id);
+    if (cached) {
+      // Move to the most recently used end
+      this.segments.delete(id);
+      this.segments.set(id, cached);
+      return cached;
+    }
+
+    const store = createStore({
+      name: `segment-${id}`,
+      cwd: 'history',
+      encryptionKey: getStorageServiceInstance().getLocalEncryptionKey(),
+      defaults: { entries: [], postings: {} }
+    });
+    const segment: OpenSegment = {
+      store,
+      data: { entries: store.get('entries'), postings: store.get('postings') }
+    };
+
+    this.segments.set(id, segment);
+    if (this.segments.size > SEGMENT_CACHE_SIZE) {
+      this.segments.delete(this.segments.keys().next().value as string);
+    }
+    return segment;
+  }
+
+  /**
+   * Save a segment and its manifest entry; empty segments are removed
+   */
+  private writeSegment(id: string, segment: OpenSegment): void {
+    const live = segment.data.entries.filter((e): e is HistoryEntry => !!e);
+    if (!live.length) {
+      this.dropSegment(id);
+      return;
+    }
+
+    // Deleted visits leave gaps; squeeze them out once they add up
+    if (live.length < segment.data.entries.length * 0.75) {
+      compactSegment(segment.data);
+    }
+
+    segment.store.set({ entries: segment.data.entries, postings: segment.data.postings });
+
+    let oldest = Infinity;
+    let newest = 0;
+    for (const entry of live) {
+      oldest = Math.min(oldest, entry.visitedAt);
+      newest = Math.max(newest, entry.visitedAt);
+    }
+
+    const segments = (this.getManifest().get('segments') as SegmentInfo[]).filter(s => s.id !== id);
+    segments.push({ id, count: live.length, oldest, newest });
+    this.getManifest().set({ schemaVersion: SCHEMA_VERSION, segments });
+  }
+
+  private dropSegment(id: string): void {
+    const segment = this.segments.get(id) || this.openSegment(id);
+    this.segments.delete(id);
+
+    try {
+      require('fs').unlinkSync(segment.store.path);
+    } catch {
+      // Never written
+    }
+
+    const segments = (this.getManifest().get('segments') as SegmentInfo[]).filter(s => s.id !== id);
+    this.getManifest().set('segments', segments);
+  }
+
+  /**
+   * Add visits in bulk (migration and backup import), grouped by month
+   */
+  private insertEntries(entries: HistoryEntry[]): number {
+    // Build the page store from existing visits first, so these are counted once
+    this.loadPages();
+    const byMonth = new Map<string, HistoryEntry[]>();
+
+    for (const entry of [...entries].sort((a, b) => a.visitedAt - b.visitedAt)) {
+      if (!entry?.url || !entry.visitedAt) continue;
+      const segmentId = segmentIdFor(entry.visitedAt);
+      byMonth.set(segmentId, [...(byMonth.get(segmentId) || []), entry]);
+    }
+
+    let inserted = 0;
+    for (const [segmentId, visits] of byMonth) {
+      const segment = this.openSegment(segmentId);
+      for (const entry of visits) {
+        const visit: HistoryEntry = {
+          id: `${segmentId}:${uuidv4()}`,
+          url: entry.url,
+          title: entry.title || entry.url,
+          favicon: entry.favicon,
+          visitedAt: entry.visitedAt
+        };
+        segment.data.entries.push(visit);
+        indexEntry(segment.data, segment.data.entries.length - 1, visit);
+        this.countVisit(visit);
+        inserted++;
+      }
+      this.writeSegment(segmentId, segment);
+    }
+
+    this.savePages();
+    return inserted;
+  }
+
+  private indexPendingText(data: SegmentData, slot: number, url: string): void {
+    const text = this.pendingText.get(url);
+    if (text !== undefined) {
+      this.pendingText.delete(url);
+      addPostings(data, slot, tokenize(text, MAX_PAGE_TERMS), FIELD_TEXT);
+    }
+  }
+
+  // ============ Retention ============
+
+  private isOverRetention(): boolean {
+    const { retentionDays, maxEntries } = this.getSettings();
+    const segments = this.listSegments();
+    const total = segments.reduce((sum, s) => sum + s.count, 0);
+
+    return total > maxEntries ||
+      (retentionDays > 0 && segments.length > 0 && segments[0].oldest < Date.now() - retentionDays * DAY);
+  }
+
+  /**
+   * Drop visits older than the retention period, then the oldest visits
+   * beyond the size limit
+   */
+  private enforceRetention(): void {
+    const { retentionDays, maxEntries } = this.getSettings();
+    const cutoff = retentionDays > 0 ? Date.now() - retentionDays * DAY : 0;
+    const segments = this.listSegments();
+    let total = segments.reduce((sum, s) => sum + s.count, 0);
+    let removed = 0;
+
+    for (const info of segments) {
+      if (info.oldest >= cutoff && total <= maxEntries) {
+        break;
+      }
+
+      if (info.newest < cutoff || total - info.count >= maxEntries) {
+        this.openSegment(info.id).data.entries.forEach(entry => entry && this.forgetVisit(entry));
+        this.dropSegment(info.id);
+        total -= info.count;
+        removed += info.count;
+        continue;
+      }
+
+      // Trim the oldest visits of this month; later months are all newer
+      const segment = this.openSegment(info.id);
+      const slots = segment.data.entries
+        .map((entry, slot) => ({ entry, slot }))
+        .filter((s): s is { entry: HistoryEntry; slot: number } => !!s.entry)
+        .sort((a, b) => a.entry.visitedAt - b.entry.visitedAt);
+
+      for (const { entry, slot } of slots) {
+        if (entry.visitedAt >= cutoff && total <= maxEntries) break;
+        this.forgetVisit(entry);
+        segment.data.entries[slot] = null;
+        total--;
+        removed++;
+      }
+
+      this.writeSegment(info.id, segment);
+      break;
+    }
+
+    if (removed) {
+      this.savePages();
+      console.log(`[History] Removed ${removed} visits past the retention limit`);
+    }
+  }
+
+  // ============ Page stats ============
+
+  /**
+   * Per-URL visit statistics (lazy); built from the stored visits the first time
+   */
+  private loadPages(): Map<string, PageStats> {
+    if (!this.pages) {
+      // Merging legacy history on first use counts its visits here already
+      this.getManifest();
+    }
+    if (this.pages) {
+      return this.pages;
+    }
+
+    this.pagesStore = createStore({
+      name: 'pages',
+      cwd: 'history',
+      encryptionKey: getStorageServiceInstance().getLocalEncryptionKey(),
+      defaults: { version: 0, pages: [] }
+    });
+    this.pages = new Map((this.pagesStore.get('pages') as PageStats[]).map(page => [page.url, page]));
+
+    if (this.pagesStore.get('version') < PAGES_VERSION) {
+      this.pages.clear();
+      for (const info of this.listSegments()) {
+        this.openSegment(info.id).data.entries.forEach(entry => entry && this.countVisit(entry));
+      }
+      this.pagesStore.set('version', PAGES_VERSION);
+      this.savePages();
+    }
+    return this.pages;
+  }
+
+  private savePages(): void {
+    const pages = this.loadPages();
+
+    if (pages.size > MAX_PAGES) {
+      const stale = Array.from(pages.values())
+        .sort((a, b) => a.lastVisitedAt - b.lastVisitedAt)
+        .slice(0, pages.size - MAX_PAGES);
+      stale.forEach(page => pages.delete(page.url));
+    }
+
+    this.pagesStore.set('pages', Array.from(pages.values()));
+  }
+
+  private countVisit(entry: HistoryEntry): void {
+    const pages = this.loadPages();
+    let page = pages.get(entry.url);
+    if (!page) {
+      page = { url: entry.url, title: entry.title, visitCount: 0, lastVisitedAt: 0, recentVisits: [] };
+      pages.set(entry.url, page);
+    }
+
+    page.visitCount++;
+    page.recentVisits = [...page.recentVisits, entry.visitedAt]
+      .sort((a, b) => b - a)
+      .slice(0, RECENT_VISITS);
+    if (entry.visitedAt >= page.lastVisitedAt) {
+      page.lastVisitedAt = entry.visitedAt;
+      page.title = entry.title || page.title;
+      page.favicon = entry.favicon || page.favicon;
+    }
+  }
+
+  /**
+   * A reload folded into the latest visit moves that visit forward
+   */
+  private touchVisit(entry: HistoryEntry): void {
+    const page = this.loadPages().get(entry.url);
+    if (!page) {
+      this.countVisit(entry);
+    } else {
+      page.lastVisitedAt = entry.visitedAt;
+      page.recentVisits[0] = entry.visitedAt;
+      page.title = entry.title || page.title;
+      page.favicon = entry.favicon || page.favicon;
+    }
+    this.savePages();
+  }
+
+  private forgetVisit(entry: HistoryEntry): void {
+    const pages = this.loadPages();
+    const page = pages.get(entry.url);
+    if (!page) {
+      return;
+    }
+
+    page.visitCount--;
+    if (page.visitCount <= 0) {
+      pages.delete(entry.url);
+      return;
+    }
+
+    const index = page.recentVisits.indexOf(entry.visitedAt);
+    if (index !== -1) {
+      page.recentVisits.splice(index, 1);
+    }
+    page.lastVisitedAt = Math.min(page.lastVisitedAt, page.recentVisits[0] ?? page.lastVisitedAt);
+  }
+
+  // ============ Migration ============
+
+  /**
+   * Retry the legacy move once the wallet is unlocked, since encrypted legacy
+   * history may only open with the wallet's storage key
+   */
+  retryLegacyMigration(): void {
+    if (this.manifest) {
+      this.migrateLegacy();
+    }
+  }
+
+  /**
+   * Move history from the legacy stores into segments, then drop it.
+   * The same visit recorded in both is kept once.
+   */
+  private migrateLegacy(): void {
+    const configStore = createStore({});
+    const fromConfig: HistoryEntry[] | undefined = configStore.get('history');
+
+    let fromStorage: HistoryEntry[] | null = null;
+    try {
+      fromStorage = getStorageServiceInstance().readLegacyHistory();
+    } catch (error) {
+      // Neither key opens it while the wallet is locked; retried after unlock
+      console.warn('[History] Could not read encrypted legacy history:', error instanceof Error ? error.message : error);
+    }
+
+    if (!fromConfig && !fromStorage) {
+      return;
+    }
+
+    const seen = new Set<string>();
+    const legacy = [...(fromStorage || []), ...(fromConfig || [])].filter(entry => {
+      const key = `${entry?.url}@${entry?.visitedAt}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+    const migrated = this.insertEntries(legacy);
+
+    if (fromConfig) {
+      configStore.delete('history');
+    }
+    if (fromStorage) {
+      getStorageServiceInstance().clearLegacyHistory();
+    }
+    this.enforceRetention();
+    console.log(`[History] Migrated ${migrated} legacy history entries`);
+  }
+}
+
+/**
+ * Month a visit belongs to, e.g. "2026-10"
+ */
+function segmentIdFor(time: number): string {
+  return new Date(time).toISOString().slice(0, 7);
+}
+
+function indexEntry(data: SegmentData, slot: number, entry: HistoryEntry): void {
+  addPostings(data, slot, tokenize(entry.title), FIELD_TITLE);
+  addPostings(data, slot, tokenize(decodeUrl(entry.url)), FIELD_URL);
+}
+
+function addPostings(data: SegmentData, slot: number, terms: string[], field: number): void {
+  for (const term of terms) {
+    // Own-property check: terms like "constructor" must not hit Object.prototype
+    const list = Object.prototype.hasOwnProperty.call(data.postings, term) ? data.postings[term] : (data.postings[term] = []);
+    list.push(slot * FIELD_SLOTS + field);
+  }
+}
+
+function getPostings(data: SegmentData, term: string): number[] | undefined {
+  return Object.prototype.hasOwnProperty.call(data.postings, term) ? data.postings[term] : undefined;
+}
+
+/**
+ * Score every visit that matches all terms
+ */
+function matchSlots(data: SegmentData, terms: string[], prefixTerm: string | null): Map<number, number> {
+  const visits = data.entries.length || 1;
+  let result: Map<number, number> | null = null;
+
+  for (const term of terms) {
+    const keys = term === prefixTerm
+      ? Object.keys(data.postings).filter(key => key.startsWith(term))
+      : getPostings(data, term) ? [term] : [];
+
+    const scores = new Map<number, number>();
+    for (const key of keys) {
+      const postings = getPostings(data, key)!;
+      // Rare words say more about a page than common ones
+      const weight = Math.log(1 + visits / postings.length) * (key === term ? 1 : PREFIX_WEIGHT);
+
+      const fields = new Map<number, number>();
+      for (const posting of postings) {
+        const slot = Math.floor(posting / FIELD_SLOTS);
+        fields.set(slot, (fields.get(slot) || 0) | (posting % FIELD_SLOTS));
+      }
+
+      for (const [slot, mask] of fields) {
+        const score = fieldWeight(mask) * weight;
+        if (score > (scores.get(slot) || 0)) {
+          scores.set(slot, score);
+        }
+      }
+    }
+
+    if (!result) {
+      result = scores;
+    } else {
+      for (const [slot, score] of result) {
+        const other = scores.get(slot);
+        if (other === undefined) {
+          result.delete(slot);
+        } else {
+          result.set(slot, score + other);
+        }
+      }
+    }
+
+    if (!result.size) {
+      break;
+    }
+  }
+
+  return result || new Map();
+}
+
+function liveSlots(data: SegmentData): Map<number, number> {
+  const slots = new Map<number, number>();
+  data.entries.forEach((entry, slot) => {
+    if (entry) slots.set(slot, 1);
+  });
+  return slots;
+}
+
+function fieldWeight(mask: number): number {
+  return FIELD_WEIGHTS.reduce((sum, [field, weight]) => (mask & field ? sum + weight : sum), 0);
+}
+
+/**
+ * Remove deleted visits and renumber the postings
+ */
+function compactSegment(data: SegmentData): void {
+  const newSlots = new Map<number, number>();
+  const entries: HistoryEntry[] = [];
+
+  data.entries.forEach((entry, slot) => {
+    if (entry) {
+      newSlots.set(slot, entries.length);
+      entries.push(entry);
+    }
+  });
+
+  const postings: Record<string, number[]> = {};
+  for (const [term, list] of Object.entries(data.postings)) {
+    const kept: number[] = [];
+    for (const posting of list) {
+      const slot = newSlots.get(Math.floor(posting / FIELD_SLOTS));
+      if (slot !== undefined) {
+        kept.push(slot * FIELD_SLOTS + (posting % FIELD_SLOTS));
+      }
+    }
+    if (kept.length) {
+      postings[term] = kept;
+    }
+  }
+
+  data.entries = entries;
+  data.postings = postings;
+}
+
+function decodeUrl(url: string): string {
+  try {
+    return decodeURIComponent(url);
+  } catch {
+    return url;
+  }
+}
+
+// Export singleton instance
+export const historyService = HistoryService.getInstance();
@@ -5,8 +5,27 @@
 export { aleoService, AleoService } from './aleo.service';
 export { walletService, WalletService } from './wallet.service';
 export { storageService, StorageService } from './storage.service';
+export { bookmarkService, BookmarkService } from './bookmark.service';
 export { privacyService, PrivacyService } from './privacy.service';
+export { filterListService, FilterListService } from './filter-list.service';
 export { aleoCryptoService } from './aleo-crypto.service';
 export { permissionService, PermissionService } from './permission.service';
+export { recordScannerService, RecordScannerService } from './record-scanner.service';
+export { backupService, BackupService } from './backup.service';
+export { bookmarkSyncService, BookmarkSyncService } from './bookmark-sync.service';
+export { noteSyncService, NoteSyncService } from './note-sync.service';
+export { noteAttachmentService, NoteAttachmentService } from './note-attachment.service';
+export { credentialService, CredentialService } from './credential.service';
+export { historyService, HistoryService } from './history.service';
+export { suggestionService, SuggestionService } from './suggestion.service';
+export { keyHierarchyService, KeyHierarchyService, KEY_PURPOSES } from './key-hierarchy.service';
 export type { AleoAccount } from './aleo-crypto.service';
 export type { SitePermission, PermissionType } from './permission.service';
+export type { IndexedRecord, RecordSyncResult, ScanKeys } from './record-scanner.service';
+export type { WalletBackup, BackupRestoreReport, AddressBookEntry } from './backup.service';
+export type { BookmarkInput, FolderUpdate } from './bookmark.service';
+export type { SyncableBookmark, BookmarkSyncResult, BookmarkRestoreResult } from './bookmark-sync.service';
+export type { SyncableNote, NoteSyncOutcome, NoteRestoreResult, NoteInbox } from './note-sync.service';
+export type { AttachmentFile } from './note-attachment.service';
+export type { FilterListMatch } from './filter-list.service';
+export type { CredentialInput, SavePrompt, CredentialSyncOutcome, CredentialRestoreResult } from './credential.service';
@@ -0,0 +1,159 @@
+/**
+ * Key Hierarchy Service
+ * Data encryption keys for notes, bookmarks, history and credentials, kept
+ * apart from the spending key:
+ *
+ *   master  = HKDF(private key, salt "aleo-browser/data-keys", info "master-v1")
+ *   subkey  = HKDF(master, salt <purpose>, info "<purpose>/v<version>")
+ *
+ * Keys are derived on demand and never stored, so a new machine can decrypt
+ * on-chain data from the account alone. Each purpose has a key version that
+ * starts at 1; rotating moves it to the next one. Sealed data starts with the
+ * version it was encrypted under, so data written with older versions still
+ * opens while it is re-encrypted.
+ *
+ * Local browsing history is encrypted with the installation key so visits are
+ * recorded while the wallet is locked; its subkey is for history data bound
+ * to the account.
+ */
+
+import crypto from 'crypto';
+import { AleoWallet, KeyPurpose, KeyVersionInfo } from '@shared/types';
+import { encryptBytes, decryptBytes } from '../utils/crypto';
+
+// Lazy load electron-store
+function createStore(defaults: any): any {
+  const Store = require('electron-store');
+  return new Store({ name: 'data-keys', defaults });
+}
+
+export const KEY_PURPOSES: KeyPurpose[] = ['notes', 'bookmarks', 'history', 'credentials'];
+
+// Sealed data: [marker][key version][iv][auth tag][ciphertext]
+const SEALED_MARKER = 0xd7;
+const MAX_VERSION = 255;
+
+interface PurposeState {
+  version: number;
+  rotatedAt?: number;
+}
+
+interface DataKeyStore {
+  // address -> purpose -> state
+  accounts: Record<string, Partial<Record<KeyPurpose, PurposeState>>>;
+}
+
+export class KeyHierarchyService {
+  private static instance: KeyHierarchyService;
+  private store: any = null;
+
+  private static readonly defaultStore: DataKeyStore = {
+    accounts: {}
+  };
+
+  private constructor() {
+    // Store is lazily initialized
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): KeyHierarchyService {
+    if (!KeyHierarchyService.instance) {
+      KeyHierarchyService.instance = new KeyHierarchyService();
+    }
+    return KeyHierarchyService.instance;
+  }
+
+  /**
+   * Get store instance (lazy)
+   */
+  private getStore(): any {
+    if (!this.store) {
+      this.store = createStore(KeyHierarchyService.defaultStore);
+    }
+    return this.store;
+  }
+
+  /**
+   * Key version new data of a purpose is encrypted with
+   */
+  getVersion(address: string, purpose: KeyPurpose): number {
+    return this.getStore().get('accounts')[address]?.[purpose]?.version || 1;
+  }
+
+  getVersions(address: string): KeyVersionInfo[] {
+    const account = this.getStore().get('accounts')[address] || {};
+    return KEY_PURPOSES.map(purpose => ({
+      purpose,
+      version: account[purpose]?.version || 1,
+      rotatedAt: account[purpose]?.rotatedAt
+    }));
+  }
+
+  /**
+   * Subkey for a purpose, at the current version unless one is given
+   */
+  getKey(wallet: AleoWallet, purpose: KeyPurpose, version: number = this.getVersion(wallet.address, purpose)): Buffer {
+    if (!Number.isInteger(version) || version < 1 || version > MAX_VERSION) {
+      throw new Error(`Invalid key version: ${version}`);
+    }
+
+    const master = crypto.hkdfSync('sha256', wallet.privateKey, 'aleo-browser/data-keys', 'master-v1', 32);
+    return Buffer.from(crypto.hkdfSync('sha256', Buffer.from(master), purpose, `${purpose}/v${version}`, 32));
+  }
+
+  /**
+   * Encrypt data with the current key of a purpose
+   */
+  seal(wallet: AleoWallet, purpose: KeyPurpose, plaintext: Buffer): Buffer {
+    const version = this.getVersion(wallet.address, purpose);
+    return Buffer.concat([
+      Buffer.from([SEALED_MARKER, version]),
+      encryptBytes(plaintext, this.getKey(wallet, purpose, version))
+    ]);
+  }
+
+  /**
+   * Decrypt data sealed with any version of a purpose's key. Throws if the
+   * data was not sealed for this account and purpose.
+   */
+  open(wallet: AleoWallet, purpose: KeyPurpose, sealed: Buffer): { plaintext: Buffer; version: number } {
+    if (sealed.length <= 2 || sealed[0] !== SEALED_MARKER || sealed[1] < 1) {
+      throw new Error(`Not sealed ${purpose} data`);
+    }
+
+    const version = sealed[1];
+    const plaintext = decryptBytes(sealed.subarray(2), this.getKey(wallet, purpose, version));
+
+    // Data from another machine may already be on a later version
+    if (version > this.getVersion(wallet.address, purpose)) {
+      this.setState(wallet.address, purpose, { version });
+    }
+    return { plaintext, version };
+  }
+
+  /**
+   * Move a purpose to a new key version. Callers re-encrypt existing data.
+   * @returns The new version
+   */
+  rotate(address: string, purpose: KeyPurpose): number {
+    const version = this.getVersion(address, purpose) + 1;
+    if (version > MAX_VERSION) {
+      throw new Error(`The ${purpose} key cannot be rotated any further`);
+    }
+
+    this.setState(address, purpose, { version, rotatedAt: Date.now() });
+    console.log(`[Keys] Rotated ${purpose} key to version ${version}`);
+    return version;
+  }
+
+  private setState(address: string, purpose: KeyPurpose, state: PurposeState): void {
+    const accounts = this.getStore().get('accounts');
+    accounts[address] = { ...accounts[address], [purpose]: { ...accounts[address]?.[purpose], ...state } };
+    this.getStore().set('accounts', accounts);
+  }
+}
+
+// Export singleton instance
+export const keyHierarchyService = KeyHierarchyService.getInstance();
@@ -0,0 +1,174 @@
+/**
+ * Note Attachment Service
+ * Small images and PDFs kept with a note. Each attachment is encrypted with the
+ * account's notes data key, like the note payloads written by note sync, so it
+ * can only be read while the wallet is unlocked.
+ *
+ * Every note with attachments has its own store, so opening one note never
+ * loads the files of the others. Attachments stay on this device; they are
+ * too large to keep on-chain.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { AleoWallet, NoteAttachment } from '@shared/types';
+import { keyHierarchyService } from './key-hierarchy.service';
+
+// Lazy load electron-store
+function createStore(options: { name?: string; cwd?: string; defaults?: any }): any {
+  const Store = require('electron-store');
+  return new Store(options);
+}
+
+export const MAX_ATTACHMENT_SIZE = 2 * 1024 * 1024; // 2 MB
+export const MAX_ATTACHMENTS_PER_NOTE = 10;
+
+// SVG is left out: it can carry scripts
+export const ATTACHMENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  pdf: 'application/pdf'
+};
+
+export interface AttachmentFile {
+  name: string;
+  data: Buffer;
+}
+
+export class NoteAttachmentService {
+  private static instance: NoteAttachmentService;
+
+  private constructor() {
+    // Stores are opened per note
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): NoteAttachmentService {
+    if (!NoteAttachmentService.instance) {
+      NoteAttachmentService.instance = new NoteAttachmentService();
+    }
+    return NoteAttachmentService.instance;
+  }
+
+  /**
+   * Encrypt and store a file for a note
+   * @param existing - Attachments the note already has
+   */
+  add(noteId: string, file: AttachmentFile, existing: NoteAttachment[], wallet: AleoWallet): NoteAttachment {
+    const mimeType = attachmentType(file.name);
+    if (!mimeType) {
+      throw new Error('Only images (PNG, JPEG, GIF, WebP) and PDFs can be attached');
+    }
+    if (file.data.length > MAX_ATTACHMENT_SIZE) {
+      throw new Error(`Attachments must be smaller than ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`);
+    }
+    if (existing.length >= MAX_ATTACHMENTS_PER_NOTE) {
+      throw new Error(`A note can have at most ${MAX_ATTACHMENTS_PER_NOTE} attachments`);
+    }
+
+    const attachment: NoteAttachment = {
+      id: uuidv4(),
+      name: file.name,
+      mimeType,
+      size: file.data.length,
+      createdAt: Date.now()
+    };
+
+    const sealed = keyHierarchyService.seal(wallet, 'notes', file.data);
+    const store = this.openStore(noteId);
+    store.set('files', { ...store.get('files'), [attachment.id]: sealed.toString('base64') });
+
+    return attachment;
+  }
+
+  /**
+   * Decrypt an attachment
+   */
+  read(noteId: string, attachmentId: string, wallet: AleoWallet): Buffer {
+    const files: Record<string, string> = this.openStore(noteId).get('files');
+    if (!Object.prototype.hasOwnProperty.call(files, attachmentId)) {
+      throw new Error('Attachment not found');
+    }
+
+    try {
+      return keyHierarchyService.open(wallet, 'notes', Buffer.from(files[attachmentId], 'base64')).plaintext;
+    } catch (error) {
+      throw new Error(`Failed to decrypt attachment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Re-encrypt a note's attachments with the current notes key
+   * @returns Number of attachments re-encrypted
+   */
+  reencrypt(noteId: string, wallet: AleoWallet): number {
+    const store = this.openStore(noteId);
+    const files: Record<string, string> = { ...store.get('files') };
+    const current = keyHierarchyService.getVersion(wallet.address, 'notes');
+    let count = 0;
+
+    for (const [id, data] of Object.entries(files)) {
+      const { plaintext, version } = keyHierarchyService.open(wallet, 'notes', Buffer.from(data, 'base64'));
+      if (version !== current) {
+        files[id] = keyHierarchyService.seal(wallet, 'notes', plaintext).toString('base64');
+        count++;
+      }
+    }
+
+    if (count) {
+      store.set('files', files);
+    }
+    return count;
+  }
+
+  remove(noteId: string, attachmentId: string): void {
+    const store = this.openStore(noteId);
+    const files: Record<string, string> = { ...store.get('files') };
+    delete files[attachmentId];
+
+    if (Object.keys(files).length) {
+      store.set('files', files);
+    } else {
+      this.removeAll(noteId);
+    }
+  }
+
+  /**
+   * Delete every attachment of a note (when the note is deleted)
+   */
+  removeAll(noteId: string): void {
+    try {
+      require('fs').unlinkSync(this.openStore(noteId).path);
+    } catch {
+      // Note had no attachments
+    }
+  }
+
+  private openStore(noteId: string): any {
+    // Note ids are generated UUIDs; anything else must not become a path
+    if (!/^[\w-]+$/.test(noteId)) {
+      throw new Error('Invalid note id');
+    }
+
+    return createStore({
+      name: noteId,
+      cwd: 'note-attachments',
+      defaults: { files: {} }
+    });
+  }
+}
+
+/**
+ * MIME type for an attachable file name, or null if it cannot be attached
+ */
+export function attachmentType(name: string): string | null {
+  const extension = name.split('.').pop()?.toLowerCase() || '';
+  return Object.prototype.hasOwnProperty.call(ATTACHMENT_TYPES, extension) ? ATTACHMENT_TYPES[extension] : null;
+}
+
+// Export singleton instance
+export const noteAttachmentService = NoteAttachmentService.getInstance();
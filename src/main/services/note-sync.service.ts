@@ -0,0 +1,553 @@
+/**
+ * Note Sync Service
+ * Stores each note as its own set of private `Note` records in
+ * privacybrowser_notes_v1.aleo so notes can be restored from chain.
+ *
+ * A note's title, content and tags are encrypted client-side with the
+ * account's notes data key (see key-hierarchy.service) and split into three-field chunks
+ * (see utils/field-encoding). Each chunk becomes one record: its fields fill
+ * `encrypted_title`, `encrypted_content` and `encrypted_tags`, and `note_id`
+ * is the chunk ID.
+ *
+ * Sharing a note writes a copy encrypted with a key only the sender and the
+ * recipient can derive (Diffie-Hellman over their view keys), then hands its
+ * records to the recipient with transfer_note once they are confirmed. The
+ * copy starts with the sender's address so the recipient can derive the key.
+ */
+
+import crypto from 'crypto';
+import { AleoWallet, NoteShare, ReceivedNote } from '@shared/types';
+import { encryptBytes, decryptBytes } from '../utils/crypto';
+import { encodeChunks, formatChunkId, parseChunkId, assembleChunks, newChainId, ChunkPart } from '../utils/field-encoding';
+import { recordScannerService, IndexedRecord } from './record-scanner.service';
+import { aleoCryptoService, isValidAddress } from './aleo-crypto.service';
+import { keyHierarchyService } from './key-hierarchy.service';
+import { transactionHistoryService } from './transaction-history.service';
+
+// Lazy import to avoid circular dependency
+function getAleoServiceInstance() {
+  const { AleoService } = require('./aleo.service');
+  return AleoService.getInstance();
+}
+
+// Lazy load electron-store
+function createStore(defaults: any): any {
+  const Store = require('electron-store');
+  return new Store({ name: 'note-sync', defaults });
+}
+
+export const NOTES_PROGRAM_ID = 'privacybrowser_notes_v1.aleo';
+
+const SYNC_FEE = 0.1; // ALEO per transition
+const FIELDS_PER_RECORD = 3; // encrypted_title, encrypted_content, encrypted_tags
+
+// Shared copy: [version][sender address][encrypted payload]
+const SHARE_VERSION = 1;
+const ADDRESS_LENGTH = 63;
+
+// Note fields that are synced
+export interface SyncableNote {
+  id: string;
+  title: string;
+  content: string;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// What was last written to chain for one note
+interface SyncEntry {
+  chainId: string; // 128-bit hex
+  chunks: number;
+  digest: string;  // sha256 of the plaintext payload, to detect changes
+  keyVersion: number; // Notes key version the copy is encrypted with
+  syncedAt: number;
+}
+
+interface NoteSyncStore {
+  // address -> note id -> entry
+  accounts: Record<string, Record<string, SyncEntry>>;
+  // address -> notes shared by that account
+  shares: Record<string, NoteShare[]>;
+}
+
+export interface NoteSyncOutcome {
+  status: 'added' | 'updated' | 'deleted' | 'unchanged' | 'pending' | 'not-synced';
+  txIds: string[];
+}
+
+export interface NoteRestoreResult {
+  notes: SyncableNote[];
+  incomplete: number;  // Chain IDs with missing chunks
+  unreadable: number;  // Records that could not be decrypted
+  scanComplete: boolean;
+}
+
+export interface NoteInbox {
+  notes: ReceivedNote[];
+  incomplete: number;
+  unreadable: number;
+  scanComplete: boolean;
+}
+
+export class NoteSyncService {
+  private static instance: NoteSyncService;
+  private store: any = null;
+
+  private static readonly defaultStore: NoteSyncStore = {
+    accounts: {},
+    shares: {}
+  };
+
+  private constructor() {
+    // Store is lazily initialized
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): NoteSyncService {
+    if (!NoteSyncService.instance) {
+      NoteSyncService.instance = new NoteSyncService();
+    }
+    return NoteSyncService.instance;
+  }
+
+  /**
+   * Get store instance (lazy)
+   */
+  private getStore(): any {
+    if (!this.store) {
+      this.store = createStore(NoteSyncService.defaultStore);
+    }
+    return this.store;
+  }
+
+  /**
+   * Write a note to chain: added the first time, updated in place afterwards.
+   * Returns 'pending' while the records of an earlier sync are not yet indexed.
+   */
+  async sync(note: SyncableNote, wallet: AleoWallet): Promise<NoteSyncOutcome> {
+    const keyVersion = keyHierarchyService.getVersion(wallet.address, 'notes');
+    const entries = this.loadEntries(wallet.address);
+    const outcome: NoteSyncOutcome = { status: 'unchanged', txIds: [] };
+
+    const payload = this.encodePayload(note);
+    const digest = crypto.createHash('sha256').update(payload).digest('hex');
+    const entry = entries[note.id];
+
+    // Unchanged notes are rewritten once the notes key has been rotated
+    if (entry?.digest === digest && entry.keyVersion === keyVersion) {
+      return outcome;
+    }
+
+    const chunks = encodeChunks(keyHierarchyService.seal(wallet, 'notes', payload), FIELDS_PER_RECORD);
+
+    try {
+      if (!entry) {
+        entries[note.id] = this.newEntry(await this.addChunks(chunks, note.createdAt, wallet, outcome), chunks.length, digest, keyVersion);
+        outcome.status = 'added';
+        return outcome;
+      }
+
+      const existing = await this.findChunks(entry, wallet);
+      if (!existing) {
+        outcome.status = 'pending';
+        return outcome;
+      }
+
+      if (existing.length === chunks.length) {
+        for (let i = 0; i < chunks.length; i++) {
+          await this.execute('update_note', [
+            existing[i].plaintext,
+            ...chunks[i],
+            `${note.updatedAt}u64`
+          ], wallet, outcome, existing[i]);
+        }
+        entries[note.id] = { ...entry, digest, keyVersion, syncedAt: Date.now() };
+      } else {
+        // The chunk count is part of note_id, so re-add under a new chain ID
+        for (const record of existing) {
+          await this.execute('delete_note', [record.plaintext], wallet, outcome, record);
+        }
+        entries[note.id] = this.newEntry(await this.addChunks(chunks, note.createdAt, wallet, outcome), chunks.length, digest, keyVersion);
+      }
+      outcome.status = 'updated';
+      return outcome;
+    } finally {
+      this.saveEntries(wallet.address, entries);
+    }
+  }
+
+  /**
+   * Consume every on-chain record of a note
+   */
+  async remove(noteId: string, wallet: AleoWallet): Promise<NoteSyncOutcome> {
+    const entries = this.loadEntries(wallet.address);
+    const outcome: NoteSyncOutcome = { status: 'not-synced', txIds: [] };
+    const entry = entries[noteId];
+
+    if (!entry) {
+      return outcome;
+    }
+
+    const existing = await this.findChunks(entry, wallet);
+    if (!existing) {
+      outcome.status = 'pending';
+      return outcome;
+    }
+
+    try {
+      for (const record of existing) {
+        await this.execute('delete_note', [record.plaintext], wallet, outcome, record);
+      }
+      delete entries[noteId];
+      outcome.status = 'deleted';
+      return outcome;
+    } finally {
+      this.saveEntries(wallet.address, entries);
+    }
+  }
+
+  /**
+   * Decrypt the account's Note records back into notes. Restored notes are
+   * remembered as synced, so syncing them again is a no-op.
+   */
+  async restore(wallet: AleoWallet): Promise<NoteRestoreResult> {
+    const scan = await recordScannerService.sync(wallet);
+    // Received notes and copies waiting to be shared are not the account's own
+    const records = this.getOwnRecords(wallet.viewKey);
+    const sharing = new Set(this.loadShares(wallet.address).map(share => share.id));
+
+    const { payloads, incomplete } = assembleChunks(this.toChunkParts(records));
+
+    const entries = this.loadEntries(wallet.address);
+    const result: NoteRestoreResult = { notes: [], incomplete, unreadable: 0, scanComplete: scan.complete };
+
+    for (const { chainId, count, payload: sealed } of payloads) {
+      if (sharing.has(chainId)) {
+        continue;
+      }
+      try {
+        const { plaintext: payload, version } = keyHierarchyService.open(wallet, 'notes', sealed);
+        const note = this.decodePayload(payload);
+
+        entries[note.id] = this.newEntry(chainId, count, crypto.createHash('sha256').update(payload).digest('hex'), version);
+        result.notes.push(note);
+      } catch {
+        result.unreadable++;
+      }
+    }
+
+    this.saveEntries(wallet.address, entries);
+    console.log(`[Notes Sync] Restored ${result.notes.length} notes from chain`);
+    return result;
+  }
+
+  // ============ Sharing ============
+
+  /**
+   * Write a copy of a note for another address. Its records are transferred
+   * by sendPendingShares() once they are confirmed.
+   */
+  async share(note: SyncableNote, recipient: string, wallet: AleoWallet): Promise<NoteShare> {
+    if (!isValidAddress(recipient)) {
+      throw new Error('Invalid recipient address');
+    }
+    if (recipient === wallet.address) {
+      throw new Error('Cannot share a note with your own address');
+    }
+
+    const key = await this.deriveShareKey(wallet.viewKey, recipient);
+    const envelope = Buffer.concat([
+      Buffer.from([SHARE_VERSION]),
+      Buffer.from(wallet.address, 'utf8'),
+      encryptBytes(this.encodePayload(note), key)
+    ]);
+    const chunks = encodeChunks(envelope, FIELDS_PER_RECORD);
+
+    const outcome: NoteSyncOutcome = { status: 'added', txIds: [] };
+    const chainId = await this.addChunks(chunks, note.createdAt, wallet, outcome);
+
+    const share: NoteShare = {
+      id: chainId,
+      noteId: note.id,
+      title: note.title,
+      recipient,
+      chunks: chunks.length,
+      transferred: 0,
+      status: 'pending',
+      createdAt: Date.now()
+    };
+    this.saveShares(wallet.address, [...this.loadShares(wallet.address), share]);
+
+    console.log(`[Notes Sync] Shared note ${note.id} with ${recipient}, waiting for confirmation`);
+    return share;
+  }
+
+  /**
+   * Transfer the confirmed records of pending shares to their recipients.
+   * Returns the account's shares, newest first.
+   */
+  async sendPendingShares(wallet: AleoWallet): Promise<NoteShare[]> {
+    const shares = this.loadShares(wallet.address);
+    const pending = shares.filter(share => share.status === 'pending');
+
+    if (pending.length) {
+      await recordScannerService.sync(wallet);
+      const records = this.getOwnRecords(wallet.viewKey).filter(record => !record.pendingSpendTxId);
+      const outcome: NoteSyncOutcome = { status: 'pending', txIds: [] };
+
+      try {
+        for (const share of pending) {
+          try {
+            while (share.transferred < share.chunks) {
+              const noteId = formatChunkId({ chainId: share.id, index: share.transferred, count: share.chunks });
+              const record = records.filter(r => String(r.data.note_id) === noteId).pop();
+              if (!record) {
+                break; // Not confirmed yet
+              }
+              await this.execute('transfer_note', [record.plaintext, share.recipient], wallet, outcome, record);
+              share.transferred++;
+            }
+
+            delete share.error;
+            if (share.transferred === share.chunks) {
+              share.status = 'sent';
+              share.sentAt = Date.now();
+            }
+          } catch (error) {
+            share.error = error instanceof Error ? error.message : 'Unknown error';
+            console.error(`[Notes Sync] Failed to transfer shared note ${share.noteId}:`, error);
+          }
+        }
+      } finally {
+        this.saveShares(wallet.address, shares);
+      }
+    }
+
+    return [...shares].sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Decrypt the notes other addresses shared with this account
+   */
+  async getInbox(wallet: AleoWallet): Promise<NoteInbox> {
+    const scan = await recordScannerService.sync(wallet);
+    const { payloads, incomplete } = assembleChunks(this.toChunkParts(this.getReceivedRecords(wallet.viewKey)));
+    const inbox: NoteInbox = { notes: [], incomplete, unreadable: 0, scanComplete: scan.complete };
+
+    for (const { chainId, payload: envelope } of payloads) {
+      try {
+        const from = envelope.subarray(1, 1 + ADDRESS_LENGTH).toString('utf8');
+        if (envelope[0] !== SHARE_VERSION || !isValidAddress(from)) {
+          throw new Error('Not a shared note');
+        }
+
+        const key = await this.deriveShareKey(wallet.viewKey, from);
+        const note = this.decodePayload(decryptBytes(envelope.subarray(1 + ADDRESS_LENGTH), key));
+        inbox.notes.push({
+          id: chainId,
+          from,
+          title: note.title,
+          content: note.content,
+          tags: note.tags,
+          createdAt: note.createdAt,
+          updatedAt: note.updatedAt
+        });
+      } catch {
+        inbox.unreadable++;
+      }
+    }
+
+    inbox.notes.sort((a, b) => b.updatedAt - a.updatedAt);
+    return inbox;
+  }
+
+  /**
+   * Consume the records of a received note, removing it from the inbox
+   */
+  async removeReceived(chainId: string, wallet: AleoWallet): Promise<NoteSyncOutcome> {
+    await recordScannerService.sync(wallet);
+    const records = this.getReceivedRecords(wallet.viewKey).filter(record => {
+      try {
+        return parseChunkId(String(record.data.note_id)).chainId === chainId;
+      } catch {
+        return false;
+      }
+    });
+
+    if (!records.length) {
+      throw new Error('Shared note not found');
+    }
+
+    const outcome: NoteSyncOutcome = { status: 'deleted', txIds: [] };
+    for (const record of records) {
+      await this.execute('delete_note', [record.plaintext], wallet, outcome, record);
+    }
+    return outcome;
+  }
+
+  private async deriveShareKey(viewKey: string, otherAddress: string): Promise<Buffer> {
+    const secret = await aleoCryptoService.deriveSharedSecret(viewKey, otherAddress);
+    return Buffer.from(crypto.hkdfSync('sha256', secret, 'aleo-browser', 'note-share-v1', 32));
+  }
+
+  // ============ Encoding ============
+
+  private encodePayload(note: SyncableNote): Buffer {
+    return Buffer.from(JSON.stringify({
+      i: note.id,
+      t: note.title,
+      c: note.content,
+      g: note.tags?.length ? note.tags : undefined,
+      a: note.createdAt,
+      u: note.updatedAt
+    }), 'utf8');
+  }
+
+  private decodePayload(payload: Buffer): SyncableNote {
+    const data = JSON.parse(payload.toString('utf8'));
+    if (typeof data.i !== 'string' || typeof data.t !== 'string' || typeof data.c !== 'string') {
+      throw new Error('Malformed note payload');
+    }
+
+    const createdAt = Number(data.a) || Date.now();
+    return {
+      id: data.i,
+      title: data.t,
+      content: data.c,
+      tags: Array.isArray(data.g) ? data.g : [],
+      createdAt,
+      updatedAt: Number(data.u) || createdAt
+    };
+  }
+
+  // ============ Chain ============
+
+  private toChunkParts(records: IndexedRecord[]): ChunkPart[] {
+    return records.map(record => ({
+      chunkId: String(record.data.note_id),
+      fields: [
+        String(record.data.encrypted_title),
+        String(record.data.encrypted_content),
+        String(record.data.encrypted_tags)
+      ]
+    }));
+  }
+
+  private newEntry(chainId: string, chunks: number, digest: string, keyVersion: number): SyncEntry {
+    return { chainId, chunks, digest, keyVersion, syncedAt: Date.now() };
+  }
+
+  /**
+   * Write chunks as new records under a fresh chain ID
+   * @returns The chain ID
+   */
+  private async addChunks(
+    chunks: string[][],
+    createdAt: number,
+    wallet: AleoWallet,
+    outcome: NoteSyncOutcome
+  ): Promise<string> {
+    const chainId = newChainId();
+    for (let i = 0; i < chunks.length; i++) {
+      await this.execute('add_note', [
+        formatChunkId({ chainId, index: i, count: chunks.length }),
+        ...chunks[i],
+        `${createdAt}u64`
+      ], wallet, outcome);
+    }
+
+    return chainId;
+  }
+
+  /**
+   * Find every unspent chunk record of a synced note, in chunk order.
+   * Returns null until all of them are confirmed and indexed.
+   */
+  private async findChunks(entry: SyncEntry, wallet: AleoWallet): Promise<IndexedRecord[] | null> {
+    await recordScannerService.sync(wallet);
+    const records = this.getOwnRecords(wallet.viewKey).filter(record => !record.pendingSpendTxId);
+
+    const found: IndexedRecord[] = [];
+    for (let i = 0; i < entry.chunks; i++) {
+      const noteId = formatChunkId({ chainId: entry.chainId, index: i, count: entry.chunks });
+      const record = records.filter(r => String(r.data.note_id) === noteId).pop();
+      if (!record) {
+        return null;
+      }
+      found.push(record);
+    }
+    return found;
+  }
+
+  /**
+   * Note records this account wrote itself
+   */
+  private getOwnRecords(viewKey: string): IndexedRecord[] {
+    return recordScannerService.getRecords(viewKey, { programId: NOTES_PROGRAM_ID })
+      .filter(record => record.recordName === 'Note' && record.functionName !== 'transfer_note');
+  }
+
+  /**
+   * Unspent Note records other addresses transferred to this account
+   */
+  private getReceivedRecords(viewKey: string): IndexedRecord[] {
+    return recordScannerService.getRecords(viewKey, { programId: NOTES_PROGRAM_ID })
+      .filter(record => record.recordName === 'Note' && record.functionName === 'transfer_note' && !record.pendingSpendTxId);
+  }
+
+  /**
+   * Run one notes program transition, marking a consumed record as pending spend
+   */
+  private async execute(
+    functionName: string,
+    inputs: string[],
+    wallet: AleoWallet,
+    outcome: NoteSyncOutcome,
+    consumed?: IndexedRecord
+  ): Promise<void> {
+    const txId = await getAleoServiceInstance().executeProgram({
+      programId: NOTES_PROGRAM_ID,
+      functionName,
+      inputs,
+      fee: SYNC_FEE,
+      privateKey: wallet.privateKey,
+      consumes: consumed ? { viewKey: wallet.viewKey, recordIds: [consumed.id] } : undefined
+    });
+
+    transactionHistoryService.recordExecuteTransaction({
+      txId,
+      programId: NOTES_PROGRAM_ID,
+      functionName,
+      fee: SYNC_FEE
+    });
+    outcome.txIds.push(txId);
+  }
+
+  // ============ Persistence ============
+
+  private loadEntries(address: string): Record<string, SyncEntry> {
+    return { ...(this.getStore().get('accounts')[address] || {}) };
+  }
+
+  private saveEntries(address: string, entries: Record<string, SyncEntry>): void {
+    const accounts = this.getStore().get('accounts');
+    accounts[address] = entries;
+    this.getStore().set('accounts', accounts);
+  }
+
+  private loadShares(address: string): NoteShare[] {
+    return [...(this.getStore().get('shares', {})[address] || [])];
+  }
+
+  private saveShares(address: string, shares: NoteShare[]): void {
+    const all = this.getStore().get('shares', {});
+    all[address] = shares;
+    this.getStore().set('shares', all);
+  }
+}
+
+// Export singleton instance
+export const noteSyncService = NoteSyncService.getInstance();
@@ -9,6 +9,9 @@ function createStore(options?: { name?: string }): any {
   return new Store(options);
 }
 
+// Longest delay setTimeout accepts; later expiries are re-checked when it fires
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
 /**
  * Permission types
  */
@@ -17,9 +20,20 @@ export type PermissionType =
   | 'viewKey'          // Access to view key
   | 'sign'             // Sign messages
   | 'transaction'      // Execute transactions
+  | 'deploy'           // Deploy programs
   | 'records'          // Access records
   | 'decrypt';         // Decrypt ciphertexts
 
+/**
+ * Programs (and optionally functions) a site may execute
+ */
+export interface PermissionScope {
+  programId: string;
+  functions?: string[];   // Omitted = any function in the program
+  autoApprove?: boolean;  // Execute without the approval modal (still capped)
+  expiresAt?: number;
+}
+
 /**
  * Site permission record
  */
@@ -29,8 +43,32 @@ export interface SitePermission {
   connectedAt: number;
   lastAccessedAt: number;
   address: string; // Connected wallet address
+  accountId?: string; // Keyring account the site is bound to; omitted = follows the selected account
   favicon?: string;
   title?: string;
+  scopes?: PermissionScope[];  // Omitted = any program, always prompted
+  dailySpendLimit?: number;    // Credits per calendar day
+  spending?: { day: string; amount: number };
+  expiresAt?: number;
+}
+
+/**
+ * User-editable restrictions on a site. null clears a value.
+ */
+export interface SiteRestrictions {
+  scopes?: PermissionScope[] | null;
+  dailySpendLimit?: number | null;
+  expiresAt?: number | null;
+}
+
+/**
+ * Result of checking a transaction against a site's restrictions
+ */
+export interface TransactionAuthorization {
+  allowed: boolean;
+  autoApprove: boolean;
+  reason?: string;
+  reserved?: { day: string; amount: number };  // Spending counted for an allowed transaction
 }
 
 /**
@@ -62,6 +100,8 @@ export class PermissionService {
   private store: any = null;
   private pendingRequests: Map<string, PendingPermissionRequest> = new Map();
   private connectedSites: Map<string, SitePermission> = new Map();
+  private expiryListeners: Set<(origin: string) => void> = new Set();
+  private expiryTimer: NodeJS.Timeout | null = null;
 
   private constructor() {
     this.loadPermissions();
@@ -99,6 +139,7 @@ export class PermissionService {
       console.error('Failed to load permissions:', error);
       this.connectedSites = new Map();
     }
+    this.scheduleExpiry();
   }
 
   /**
@@ -114,6 +155,54 @@ export class PermissionService {
     } catch (error) {
       console.error('Failed to save permissions:', error);
     }
+    this.scheduleExpiry();
+  }
+
+  /**
+   * Set a timer for the next connection expiry
+   */
+  private scheduleExpiry(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+
+    const expiries = Array.from(this.connectedSites.values())
+      .map(site => site.expiresAt)
+      .filter((expiresAt): expiresAt is number => !!expiresAt);
+    if (expiries.length === 0) {
+      return;
+    }
+
+    const delay = Math.min(Math.max(Math.min(...expiries) - Date.now(), 0), MAX_TIMER_DELAY);
+    this.expiryTimer = setTimeout(() => this.expireSites(), delay);
+  }
+
+  /**
+   * Disconnect sites whose connection has expired and tell the listeners
+   */
+  private expireSites(): void {
+    this.expiryTimer = null;
+    const now = Date.now();
+
+    for (const site of this.getAllConnectedSites()) {
+      if (site.expiresAt && site.expiresAt <= now) {
+        this.disconnectSite(site.origin);
+        this.expiryListeners.forEach(listener => listener(site.origin));
+      }
+    }
+    this.scheduleExpiry();
+  }
+
+  /**
+   * Subscribe to connections expiring. The site is already disconnected when
+   * the listener runs. Returns an unsubscribe function.
+   */
+  onSiteExpired(listener: (origin: string) => void): () => void {
+    this.expiryListeners.add(listener);
+    return () => {
+      this.expiryListeners.delete(listener);
+    };
   }
 
   /**
@@ -138,9 +227,14 @@ export class PermissionService {
   }
 
   /**
-   * Check if a site is connected
+   * Check if a site is connected. An expired connection no longer counts,
+   * even before the expiry timer has disconnected it.
    */
   isConnected(origin: string): boolean {
+    const site = this.connectedSites.get(origin);
+    if (site?.expiresAt && site.expiresAt <= Date.now()) {
+      return false;
+    }
     return this.connectedSites.has(origin) && this.hasPermission(origin, 'connect');
   }
 
@@ -165,7 +259,7 @@ export class PermissionService {
     origin: string,
     permissions: PermissionType[],
     address: string,
-    metadata?: { favicon?: string; title?: string }
+    metadata?: { favicon?: string; title?: string; accountId?: string }
   ): void {
     const existing = this.connectedSites.get(origin);
     const now = Date.now();
@@ -229,6 +323,125 @@ export class PermissionService {
     console.log('Disconnected all sites');
   }
 
+  /**
+   * Bind a site to a keyring account (or let it follow the selected account)
+   */
+  setSiteAccount(origin: string, address: string, accountId?: string): void {
+    const site = this.connectedSites.get(origin);
+    if (!site) return;
+
+    site.address = address;
+    site.accountId = accountId;
+    this.savePermissions();
+  }
+
+  /**
+   * Update a site's program scopes, spending cap and expiry
+   */
+  updateRestrictions(origin: string, restrictions: SiteRestrictions): void {
+    const site = this.connectedSites.get(origin);
+    if (!site) {
+      throw new Error(`Site not connected: ${origin}`);
+    }
+
+    if (restrictions.scopes !== undefined) {
+      site.scopes = restrictions.scopes === null
+        ? undefined
+        : restrictions.scopes.map(scope => ({
+          ...scope,
+          programId: scope.programId.trim(),
+          functions: scope.functions?.map(f => f.trim()).filter(Boolean),
+        }));
+    }
+    if (restrictions.dailySpendLimit !== undefined) {
+      site.dailySpendLimit = restrictions.dailySpendLimit ?? undefined;
+    }
+    if (restrictions.expiresAt !== undefined) {
+      site.expiresAt = restrictions.expiresAt ?? undefined;
+    }
+
+    this.savePermissions();
+    console.log(`Updated restrictions for ${origin}`);
+  }
+
+  /**
+   * Check a transaction against the site's scopes and daily spending cap.
+   * An allowed transaction's amount is counted as spent right away, so
+   * requests in flight at the same time cannot together pass the cap; give it
+   * back with releaseSpending if the transaction is rejected or fails.
+   * @param amount - Credits the transaction can spend, fee included
+   */
+  authorizeTransaction(
+    origin: string,
+    request: { programId: string; functionName: string; amount: number }
+  ): TransactionAuthorization {
+    const site = this.connectedSites.get(origin);
+    if (!site || !site.permissions.includes('connect')) {
+      return { allowed: false, autoApprove: false, reason: 'Not connected' };
+    }
+
+    let autoApprove = false;
+    if (site.scopes) {
+      const now = Date.now();
+      const scope = site.scopes.find(s =>
+        s.programId === request.programId &&
+        (!s.functions || s.functions.length === 0 || s.functions.includes(request.functionName)) &&
+        (!s.expiresAt || s.expiresAt > now)
+      );
+      if (!scope) {
+        return {
+          allowed: false,
+          autoApprove: false,
+          reason: `${request.programId}/${request.functionName} is not permitted for this site`
+        };
+      }
+      autoApprove = !!scope.autoApprove;
+    }
+
+    const spent = this.getSpentToday(origin);
+    if (site.dailySpendLimit !== undefined && spent + request.amount > site.dailySpendLimit) {
+      return {
+        allowed: false,
+        autoApprove: false,
+        reason: `Daily spending limit of ${site.dailySpendLimit} credits exceeded`
+      };
+    }
+
+    const reserved = { day: this.getToday(), amount: request.amount };
+    site.spending = { day: reserved.day, amount: spent + request.amount };
+    this.savePermissions();
+
+    return { allowed: true, autoApprove, reserved };
+  }
+
+  /**
+   * Credits spent by a site today
+   */
+  getSpentToday(origin: string): number {
+    const spending = this.connectedSites.get(origin)?.spending;
+    return spending && spending.day === this.getToday() ? spending.amount : 0;
+  }
+
+  /**
+   * Give back spending authorizeTransaction counted for a transaction that
+   * was rejected or failed. Spending from a day that has passed is left alone.
+   */
+  releaseSpending(origin: string, reserved: { day: string; amount: number }): void {
+    const site = this.connectedSites.get(origin);
+    if (!site?.spending || site.spending.day !== reserved.day) return;
+
+    site.spending = { day: reserved.day, amount: Math.max(0, site.spending.amount - reserved.amount) };
+    this.savePermissions();
+  }
+
+  /**
+   * Local calendar day used to bucket spending
+   */
+  private getToday(): string {
+    const now = new Date();
+    return `${now.getFullYear()}-${now.getMonth() + 1}-${now.getDate()}`;
+  }
+
   /**
    * Create a pending permission request
    */
@@ -285,6 +498,16 @@ export class PermissionService {
     this.pendingRequests.delete(requestId);
   }
 
+  /**
+   * Reject every pending request, e.g. when the wallet locks mid-approval
+   */
+  rejectAllPendingRequests(reason: string): number {
+    const requests = Array.from(this.pendingRequests.values());
+    this.pendingRequests.clear();
+    requests.forEach(request => request.reject(new Error(reason)));
+    return requests.length;
+  }
+
   /**
    * Update last accessed time for a site
    */
@@ -323,7 +546,7 @@ export class PermissionService {
     let removed = 0;
 
     this.connectedSites.forEach((site, origin) => {
-      if (now - site.lastAccessedAt > maxAge) {
+      if (now - site.lastAccessedAt > maxAge || (site.expiresAt && site.expiresAt <= now)) {
         this.connectedSites.delete(origin);
         removed++;
       }
@@ -369,6 +592,31 @@ export class PermissionService {
       return false;
     }
   }
+
+  /**
+   * Add sites from an export without overwriting sites that are already connected
+   * @returns Counts plus the origins that were kept as they are
+   */
+  mergeSites(sites: Record<string, SitePermission>): { added: number; skipped: number; conflicts: string[] } {
+    const conflicts: string[] = [];
+    let added = 0;
+    let skipped = 0;
+
+    for (const [origin, site] of Object.entries(sites)) {
+      if (this.connectedSites.has(origin)) {
+        conflicts.push(`Site ${origin}: kept existing permissions`);
+        skipped++;
+        continue;
+      }
+
+      this.connectedSites.set(origin, { ...site, origin });
+      added++;
+    }
+
+    this.savePermissions();
+    return { added, skipped, conflicts };
+  }
+
 }
 
 // Export singleton instance
@@ -1,9 +1,32 @@
 /**
  * Privacy and Tracker Blocking Service
  * Provides ad blocking, tracker blocking, and privacy protection
+ * Requests are matched against the Shields filter lists (see
+ * filter-list.service); the custom blocklist and allowlist take precedence.
+ * Pages get the lists' element hiding rules as a stylesheet, and with
+ * fingerprinting blocked, noise in the APIs scripts fingerprint with (see
+ * utils/farbling).
+ *
+ * Settings apply per top-level site: a site can override any of the Shields
+ * switches, and blocked requests are counted for the site and for the page
+ * open in each tab. The WebRTC IP handling policy applies to every tab.
  */
 
-import { PrivacyStats } from '@shared/types';
+import crypto from 'crypto';
+import {
+  PrivacyStats,
+  FilterListCategory,
+  ElementHidingRule,
+  BlockedRequest,
+  SiteShieldsOverrides,
+  SiteShieldsSetting,
+  SiteShieldsStats,
+  WebRTCIPPolicy
+} from '@shared/types';
+import { filterListService } from './filter-list.service';
+import { toFilterResourceType } from '../utils/filter-list';
+import { ELEMENT_PICKER_SCRIPT } from '../utils/element-picker';
+import { FarblingLevel, farblingScript, farblingSeed } from '../utils/farbling';
 
 // Lazy load electron-store to avoid initialization issues
 function createStore(defaults: any): any {
@@ -18,6 +41,21 @@ interface PrivacySettings {
   blockFingerprinting: boolean;
   httpsEverywhere: boolean;
   strictMode: boolean;
+  webRTCPolicy: WebRTCIPPolicy;
+}
+
+type SiteShieldsSettings = Required<SiteShieldsOverrides>;
+
+interface SiteStatsEntry {
+  stats: PrivacyStats;
+  updatedAt: number;
+}
+
+// Shields activity of the page open in a tab
+interface PageActivity {
+  hostname: string;
+  stats: PrivacyStats;
+  blocked: BlockedRequest[];
 }
 
 interface PrivacyStore {
@@ -25,6 +63,41 @@ interface PrivacyStore {
   stats: PrivacyStats;
   customBlocklist: string[];
   customAllowlist: string[];
+  siteStats: Record<string, SiteStatsEntry>;
+  siteOverrides: Record<string, SiteShieldsOverrides>;
+}
+
+const SITE_SETTINGS: SiteShieldsSetting[] = ['enabled', 'blockAds', 'blockTrackers', 'blockFingerprinting', 'httpsEverywhere'];
+
+const BLOCK_REASONS: Record<FilterListCategory, string> = {
+  ads: 'Ad blocked',
+  trackers: 'Tracker blocked',
+  fingerprinting: 'Fingerprinting blocked'
+};
+
+const WEBRTC_POLICIES: WebRTCIPPolicy[] = [
+  'default',
+  'default_public_and_private_interfaces',
+  'default_public_interface_only',
+  'disable_non_proxied_udp'
+];
+
+const MAX_BLOCKED_PER_PAGE = 500;
+const MAX_SITES = 1000;
+
+function emptyStats(): PrivacyStats {
+  return { trackersBlocked: 0, adsBlocked: 0, fingerprintingBlocked: 0, httpsUpgrades: 0, totalBlocked: 0 };
+}
+
+function countBlocked(stats: PrivacyStats, category: BlockedRequest['category']): void {
+  if (category === 'trackers') {
+    stats.trackersBlocked++;
+  } else if (category === 'ads') {
+    stats.adsBlocked++;
+  } else if (category === 'fingerprinting') {
+    stats.fingerprintingBlocked++;
+  }
+  stats.totalBlocked++;
 }
 
 export class PrivacyService {
@@ -34,69 +107,16 @@ export class PrivacyService {
   private stats: PrivacyStats | null = null;
   private customBlocklist: Set<string> | null = null;
   private customAllowlist: Set<string> | null = null;
-
-  // Common tracker patterns
-  private trackerPatterns: RegExp[] = [
-    // Analytics
-    /google-analytics\.com/i,
-    /googletagmanager\.com/i,
-    /analytics\.google\.com/i,
-    /doubleclick\.net/i,
-    /facebook\.com\/tr/i,
-    /facebook\.net/i,
-    /connect\.facebook/i,
-    /mixpanel\.com/i,
-    /segment\.(io|com)/i,
-    /amplitude\.com/i,
-    /hotjar\.com/i,
-    /crazyegg\.com/i,
-    /mouseflow\.com/i,
-    /fullstory\.com/i,
-
-    // Advertising
-    /ads\./, /adservice\./, /adserver\./,
-    /adsystem\./, /adtech\./, /advertising\./,
-    /googlesyndication\.com/i,
-    /googleadservices\.com/i,
-    /amazon-adsystem\.com/i,
-    /pubmatic\.com/i,
-    /taboola\.com/i,
-    /outbrain\.com/i,
-    /media\.net/i,
-    /rubiconproject\.com/i,
-    /criteo\.com/i,
-    /adnxs\.com/i,
-
-    // Social Media Trackers
-    /twitter\.com\/i\/adsct/i,
-    /linkedin\.com\/px/i,
-    /pinterest\.com\/ct/i,
-    /snap\.licdn\.com/i,
-    /platform\.twitter\.com/i,
-
-    // Fingerprinting
-    /fingerprint\./, /fp\./, /device-id\./,
-    /clientid\./, /visitorid\./,
-  ];
-
-  // Ad patterns
-  private adPatterns: RegExp[] = [
-    /\/ads\//i, /\/ad\//i, /\/banner/i,
-    /\/advert/i, /\/sponsor/i, /\/popup/i,
-    /pagead/i, /adsbygoogle/i,
-    /\/adframe/i, /\/adimage/i,
-  ];
-
-  // Fingerprinting patterns
-  private fingerprintingPatterns: RegExp[] = [
-    /fingerprint/i,
-    /canvas.*fingerprint/i,
-    /webgl.*fingerprint/i,
-    /audio.*fingerprint/i,
-    /font.*detect/i,
-    /device.*detect/i,
-    /browser.*detect/i,
-  ];
+  private siteStats: Record<string, SiteStatsEntry> | null = null;
+  private siteOverrides: Record<string, SiteShieldsOverrides> | null = null;
+  private pages = new Map<number, PageActivity>(); // By webContents id
+  private trackedTabs = new WeakSet<Electron.WebContents>();
+  private pendingUpgrades = new Set<string>();      // Upgraded URLs not yet loaded
+  private statsSaveTimer: NodeJS.Timeout | null = null;
+  private attachedSessions = new WeakSet<Electron.Session>();
+  private hidingStylesheets = new WeakMap<Electron.WebContents, string>(); // insertCSS keys
+  private farblingKey = crypto.randomBytes(32); // New each launch, so fingerprints do not carry across sessions
+  private openTabs = new Set<Electron.WebContents>(); // For applying the WebRTC policy live
 
   private static readonly defaultPrivacyStore: PrivacyStore = {
     settings: {
@@ -106,6 +126,7 @@ export class PrivacyService {
       blockFingerprinting: true,
       httpsEverywhere: true,
       strictMode: false,
+      webRTCPolicy: 'default_public_interface_only',
     },
     stats: {
       trackersBlocked: 0,
@@ -116,6 +137,8 @@ export class PrivacyService {
     },
     customBlocklist: [],
     customAllowlist: [],
+    siteStats: {},
+    siteOverrides: {},
   };
 
   private constructor() {
@@ -138,10 +161,13 @@ export class PrivacyService {
   private ensureLoaded(): void {
     if (!this.settings) {
       const store = this.getStore();
-      this.settings = store.get('settings');
+      // Settings saved before a setting existed get its default
+      this.settings = { ...PrivacyService.defaultPrivacyStore.settings, ...store.get('settings') };
       this.stats = store.get('stats');
       this.customBlocklist = new Set(store.get('customBlocklist'));
       this.customAllowlist = new Set(store.get('customAllowlist'));
+      this.siteStats = store.get('siteStats');
+      this.siteOverrides = store.get('siteOverrides');
     }
   }
 
@@ -157,73 +183,384 @@ export class PrivacyService {
 
   /**
    * Check if URL should be blocked
+   * @param context - Page that made the request, Electron resource type and
+   * the tab's webContents id, for the tab's stats
    */
-  shouldBlock(url: string): { blocked: boolean; reason?: string } {
+  shouldBlock(
+    url: string,
+    context: { sourceUrl?: string; resourceType?: string; webContentsId?: number } = {}
+  ): { blocked: boolean; reason?: string } {
     this.ensureLoaded();
-    if (!this.settings!.enabled) {
-      return { blocked: false };
-    }
 
     try {
       const urlObj = new URL(url);
       const hostname = urlObj.hostname.toLowerCase();
-      const fullUrl = url.toLowerCase();
+      const site = this.getTopLevelSite(url, context);
+      const settings = this.getSiteSettings(site);
+      if (!settings.enabled) {
+        return { blocked: false };
+      }
 
       // Check allowlist first
       if (this.isAllowlisted(hostname)) {
         return { blocked: false };
       }
 
+      const resourceType = context.resourceType || 'other';
+
       // Check custom blocklist
       if (this.isBlocklisted(hostname)) {
-        this.incrementStats('custom');
+        this.recordBlocked(site, context.webContentsId, {
+          url, resourceType, category: 'custom', list: 'Custom blocklist', timestamp: Date.now()
+        });
         return { blocked: true, reason: 'Custom blocklist' };
       }
 
-      // Check trackers
-      if (this.settings!.blockTrackers && this.isTracker(fullUrl)) {
-        this.incrementStats('tracker');
-        return { blocked: true, reason: 'Tracker blocked' };
+      // Check filter lists of the categories the site blocks
+      const match = filterListService.match({
+        url,
+        type: toFilterResourceType(resourceType),
+        sourceUrl: context.sourceUrl
+      }, this.getBlockedCategories(settings));
+      if (!match) {
+        return { blocked: false };
       }
 
-      // Check ads
-      if (this.settings!.blockAds && this.isAd(fullUrl)) {
-        this.incrementStats('ad');
-        return { blocked: true, reason: 'Ad blocked' };
+      this.recordBlocked(site, context.webContentsId, {
+        url, resourceType, category: match.category, rule: match.filter, list: match.listTitle, timestamp: Date.now()
+      });
+      return { blocked: true, reason: BLOCK_REASONS[match.category] };
+    } catch (error) {
+      // Invalid URL, don't block
+      return { blocked: false };
+    }
+  }
+
+  /**
+   * Block requests of a browser session's web pages. Safe to call for every
+   * tab: each session is only hooked once.
+   */
+  attachToSession(session: Electron.Session): void {
+    if (this.attachedSessions.has(session)) {
+      return;
+    }
+    this.attachedSessions.add(session);
+
+    session.webRequest.onBeforeRequest((details, callback) => {
+      // The browser's own UI is never filtered
+      if (!/^(https?|wss?):/.test(details.url) || details.webContents?.getType() === 'window') {
+        callback({});
+        return;
       }
 
-      // Check fingerprinting
-      if (this.settings!.blockFingerprinting && this.isFingerprinting(fullUrl)) {
-        this.incrementStats('fingerprinting');
-        return { blocked: true, reason: 'Fingerprinting blocked' };
+      // A new page in a tab starts its stats over
+      if (details.resourceType === 'mainFrame' && details.webContents) {
+        this.startPage(details.webContents, details.url);
       }
 
-      return { blocked: false };
+      const { blocked } = this.shouldBlock(details.url, {
+        sourceUrl: details.webContents?.getURL() || details.referrer || undefined,
+        resourceType: details.resourceType,
+        webContentsId: details.webContents?.id
+      });
+      callback(blocked ? { cancel: true } : {});
+    });
+  }
+
+  /**
+   * Hide the elements the filter lists and the user's rules hide on a tab's
+   * page. Runs on dom-ready, and again when the rules for the page change.
+   */
+  async applyCosmeticFilters(webContents: Electron.WebContents): Promise<void> {
+    this.ensureLoaded();
+
+    try {
+      const previous = this.hidingStylesheets.get(webContents);
+      if (previous) {
+        this.hidingStylesheets.delete(webContents);
+        // The key is stale once the tab has navigated
+        await webContents.removeInsertedCSS(previous).catch(() => undefined);
+      }
+
+      const url = webContents.getURL();
+      if (!/^https?:/.test(url)) {
+        return;
+      }
+
+      const hostname = new URL(url).hostname.toLowerCase();
+      const settings = this.getSiteSettings(hostname);
+      if (!settings.enabled || this.isAllowlisted(hostname)) {
+        return;
+      }
+
+      const css = filterListService.getHidingStylesheet(url, this.getBlockedCategories(settings));
+      if (css) {
+        // User origin: wins over the page's own !important rules
+        this.hidingStylesheets.set(webContents, await webContents.insertCSS(css, { cssOrigin: 'user' }));
+      }
     } catch (error) {
-      // Invalid URL, don't block
-      return { blocked: false };
+      // Page navigated away or was closed
+      console.warn('[Privacy] Failed to apply element hiding rules:', error);
+    }
+  }
+
+  /**
+   * Let the user click an element of a tab's page and hide it on that site
+   * @returns The saved rule, or null if the user cancelled
+   */
+  async pickElement(webContents: Electron.WebContents): Promise<ElementHidingRule | null> {
+    const url = webContents.getURL();
+    if (!/^https?:/.test(url)) {
+      throw new Error('Open a web page to hide elements on it');
+    }
+
+    webContents.focus();
+    const selector = await new Promise<unknown>((resolve) => {
+      // Leaving the page ends the pick, which would otherwise never settle
+      const cancel = () => resolve(null);
+      webContents.once('did-navigate', cancel);
+      webContents.once('destroyed', cancel);
+
+      webContents.executeJavaScriptInIsolatedWorld(999, [{ code: ELEMENT_PICKER_SCRIPT }], true)
+        .then(resolve, cancel)
+        .finally(() => {
+          webContents.removeListener('did-navigate', cancel);
+          webContents.removeListener('destroyed', cancel);
+        });
+    });
+
+    if (typeof selector !== 'string' || webContents.isDestroyed()) {
+      return null;
+    }
+
+    const rule = filterListService.addHidingRule(new URL(url).hostname, selector);
+    await this.applyCosmeticFilters(webContents);
+    return rule;
+  }
+
+  /**
+   * Fingerprinting protection on a site: off when Shields or fingerprint
+   * blocking are off there, otherwise per the global strict mode
+   */
+  getFingerprintProtection(hostname: string): FarblingLevel {
+    const settings = this.getSiteSettings(hostname);
+    if (!settings.enabled || !settings.blockFingerprinting || this.isAllowlisted(hostname.toLowerCase())) {
+      return 'off';
+    }
+    return this.settings!.strictMode ? 'strict' : 'standard';
+  }
+
+  /**
+   * Script a tab's preload runs before the page's own scripts, or null if the
+   * page gets no fingerprinting protection
+   */
+  getFarblingScript(pageUrl: string): string | null {
+    if (!/^https?:/.test(pageUrl)) {
+      return null;
+    }
+
+    const hostname = new URL(pageUrl).hostname;
+    const level = this.getFingerprintProtection(hostname);
+    return level === 'off' ? null : farblingScript(level, farblingSeed(this.farblingKey, hostname));
+  }
+
+  /**
+   * Apply the WebRTC IP handling policy to a tab, now and whenever it changes
+   */
+  applyWebRTCPolicy(webContents: Electron.WebContents): void {
+    this.ensureLoaded();
+    webContents.setWebRTCIPHandlingPolicy(this.settings!.webRTCPolicy);
+
+    if (!this.openTabs.has(webContents)) {
+      this.openTabs.add(webContents);
+      webContents.once('destroyed', () => this.openTabs.delete(webContents));
     }
   }
 
   /**
-   * Check if URL is a tracker
+   * Get the WebRTC IP handling policy of tabs
    */
-  private isTracker(url: string): boolean {
-    return this.trackerPatterns.some(pattern => pattern.test(url));
+  getWebRTCPolicy(): WebRTCIPPolicy {
+    this.ensureLoaded();
+    return this.settings!.webRTCPolicy;
+  }
+
+  /**
+   * Set the WebRTC IP handling policy of tabs, open ones included. Calls a
+   * page has already set up keep the addresses they were given.
+   */
+  setWebRTCPolicy(policy: WebRTCIPPolicy): void {
+    if (!WEBRTC_POLICIES.includes(policy)) {
+      throw new Error(`Unknown WebRTC IP handling policy: ${policy}`);
+    }
+
+    this.ensureLoaded();
+    this.settings!.webRTCPolicy = policy;
+    this.saveSettings();
+
+    for (const webContents of this.openTabs) {
+      if (!webContents.isDestroyed()) {
+        webContents.setWebRTCIPHandlingPolicy(policy);
+      }
+    }
+    console.log(`[Privacy] WebRTC IP handling policy set to: ${policy}`);
+  }
+
+  /**
+   * Filter list categories a site's settings block
+   */
+  private getBlockedCategories(settings: SiteShieldsSettings): Set<FilterListCategory> {
+    const categories = new Set<FilterListCategory>();
+    if (settings.blockAds) {
+      categories.add('ads');
+    }
+    if (settings.blockTrackers) {
+      categories.add('trackers');
+    }
+    if (settings.blockFingerprinting) {
+      categories.add('fingerprinting');
+    }
+    return categories;
+  }
+
+  /**
+   * Hostname of the page a request belongs to: the request itself for
+   * navigations, otherwise the page that made it
+   */
+  private getTopLevelSite(url: string, context: { sourceUrl?: string; resourceType?: string }): string {
+    if (context.sourceUrl && context.resourceType !== 'mainFrame') {
+      try {
+        return new URL(context.sourceUrl).hostname.toLowerCase();
+      } catch {
+        // Fall back to the request's own site
+      }
+    }
+    return new URL(url).hostname.toLowerCase();
+  }
+
+  /**
+   * Shields settings on a site: the global settings with the site's overrides
+   */
+  getSiteSettings(hostname: string): SiteShieldsSettings {
+    this.ensureLoaded();
+    const { enabled, blockAds, blockTrackers, blockFingerprinting, httpsEverywhere } = this.settings!;
+    return {
+      enabled,
+      blockAds,
+      blockTrackers,
+      blockFingerprinting,
+      httpsEverywhere,
+      ...this.siteOverrides![hostname.toLowerCase()]
+    };
+  }
+
+  /**
+   * Settings a site overrides
+   */
+  getSiteOverrides(hostname: string): SiteShieldsOverrides {
+    this.ensureLoaded();
+    return { ...this.siteOverrides![hostname.toLowerCase()] };
+  }
+
+  /**
+   * Override one Shields setting on a site. Setting it to the global value, or
+   * to null, drops the override so the site follows the global setting again.
+   */
+  setSiteOverride(hostname: string, key: SiteShieldsSetting, value: boolean | null): SiteShieldsOverrides {
+    this.ensureLoaded();
+    const host = hostname.toLowerCase();
+    if (!host) {
+      throw new Error('Invalid site');
+    }
+    if (!SITE_SETTINGS.includes(key)) {
+      throw new Error(`Unknown Shields setting: ${key}`);
+    }
+
+    const overrides = { ...this.siteOverrides![host] };
+    if (value === null || value === this.settings![key]) {
+      delete overrides[key];
+    } else {
+      overrides[key] = value;
+    }
+
+    if (Object.keys(overrides).length) {
+      this.siteOverrides![host] = overrides;
+    } else {
+      delete this.siteOverrides![host];
+    }
+    this.getStore().set('siteOverrides', this.siteOverrides);
+    console.log(`Shields ${key} on ${host}: ${value === null ? 'default' : value}`);
+    return { ...overrides };
+  }
+
+  /**
+   * Make a site follow the global settings again
+   */
+  resetSiteOverrides(hostname: string): void {
+    this.ensureLoaded();
+    delete this.siteOverrides![hostname.toLowerCase()];
+    this.getStore().set('siteOverrides', this.siteOverrides);
   }
 
   /**
-   * Check if URL is an ad
+   * What Shields did on a site, and on the page a tab shows if it is on that site
+   * @param webContentsId - The tab's webContents id
    */
-  private isAd(url: string): boolean {
-    return this.adPatterns.some(pattern => pattern.test(url));
+  getSiteStats(hostname: string, webContentsId?: number): SiteShieldsStats {
+    this.ensureLoaded();
+    const host = hostname.toLowerCase();
+    const page = webContentsId !== undefined ? this.pages.get(webContentsId) : undefined;
+    const onSite = page?.hostname === host;
+
+    return {
+      hostname: host,
+      page: onSite ? { ...page!.stats } : emptyStats(),
+      site: { ...(this.siteStats![host]?.stats || emptyStats()) },
+      blocked: onSite ? [...page!.blocked] : []
+    };
+  }
+
+  /**
+   * Start counting for a page a tab navigates to
+   */
+  private startPage(webContents: Electron.WebContents, url: string): void {
+    if (!this.trackedTabs.has(webContents)) {
+      this.trackedTabs.add(webContents);
+      const id = webContents.id;
+      webContents.once('destroyed', () => this.pages.delete(id));
+    }
+
+    const stats = emptyStats();
+    if (this.pendingUpgrades.delete(url)) {
+      stats.httpsUpgrades = 1;
+    }
+
+    let hostname = '';
+    try {
+      hostname = new URL(url).hostname.toLowerCase();
+    } catch {
+      // Counted under no site
+    }
+    this.pages.set(webContents.id, { hostname, stats, blocked: [] });
   }
 
   /**
-   * Check if URL is fingerprinting
+   * Stats entry of a site, created on first use. The least recently active
+   * sites are dropped beyond MAX_SITES.
    */
-  private isFingerprinting(url: string): boolean {
-    return this.fingerprintingPatterns.some(pattern => pattern.test(url));
+  private getSiteEntry(hostname: string): SiteStatsEntry {
+    let entry = this.siteStats![hostname];
+    if (!entry) {
+      const sites = Object.keys(this.siteStats!);
+      if (sites.length >= MAX_SITES) {
+        const oldest = sites.reduce((a, b) => this.siteStats![a].updatedAt <= this.siteStats![b].updatedAt ? a : b);
+        delete this.siteStats![oldest];
+      }
+      entry = { stats: emptyStats(), updatedAt: 0 };
+      this.siteStats![hostname] = entry;
+    }
+    entry.updatedAt = Date.now();
+    return entry;
   }
 
   /**
@@ -243,27 +580,35 @@ export class PrivacyService {
   }
 
   /**
-   * Increment blocking statistics
+   * Count a blocked request globally, for its site and for the tab's page
    */
-  private incrementStats(type: 'tracker' | 'ad' | 'fingerprinting' | 'custom'): void {
-    this.ensureLoaded();
-    if (type === 'tracker') {
-      this.stats!.trackersBlocked++;
-    } else if (type === 'ad') {
-      this.stats!.adsBlocked++;
-    } else if (type === 'fingerprinting') {
-      this.stats!.fingerprintingBlocked++;
+  private recordBlocked(site: string, webContentsId: number | undefined, request: BlockedRequest): void {
+    countBlocked(this.stats!, request.category);
+    countBlocked(this.getSiteEntry(site).stats, request.category);
+
+    const page = webContentsId !== undefined ? this.pages.get(webContentsId) : undefined;
+    if (page && page.hostname === site) {
+      countBlocked(page.stats, request.category);
+      page.blocked.unshift(request);
+      if (page.blocked.length > MAX_BLOCKED_PER_PAGE) {
+        page.blocked.pop();
+      }
     }
 
-    this.stats!.totalBlocked++;
-    this.saveStats();
+    // Pages can block dozens of requests at once; write them together
+    if (!this.statsSaveTimer) {
+      this.statsSaveTimer = setTimeout(() => {
+        this.statsSaveTimer = null;
+        this.saveStats();
+      }, 2000);
+    }
   }
 
   /**
    * Save statistics to store
    */
   private saveStats(): void {
-    this.getStore().set('stats', this.stats!);
+    this.getStore().set({ stats: this.stats!, siteStats: this.siteStats! });
   }
 
   /**
@@ -294,6 +639,11 @@ export class PrivacyService {
       httpsUpgrades: 0,
       totalBlocked: 0,
     };
+    this.siteStats = {};
+    this.pages.forEach(page => {
+      page.stats = emptyStats();
+      page.blocked = [];
+    });
     this.saveStats();
     console.log('Privacy stats reset');
   }
@@ -305,11 +655,6 @@ export class PrivacyService {
   shouldUpgradeToHttps(url: string): string | null {
     this.ensureLoaded();
 
-    // Check if HTTPS Everywhere is enabled
-    if (!this.settings!.enabled || !this.settings!.httpsEverywhere) {
-      return null;
-    }
-
     try {
       const urlObj = new URL(url);
 
@@ -318,8 +663,14 @@ export class PrivacyService {
         return null;
       }
 
-      // Don't upgrade localhost or local network addresses
+      // Check if HTTPS Everywhere is enabled on the site
       const hostname = urlObj.hostname.toLowerCase();
+      const settings = this.getSiteSettings(hostname);
+      if (!settings.enabled || !settings.httpsEverywhere) {
+        return null;
+      }
+
+      // Don't upgrade localhost or local network addresses
       if (hostname === 'localhost' ||
           hostname === '127.0.0.1' ||
           hostname.startsWith('192.168.') ||
@@ -333,7 +684,10 @@ export class PrivacyService {
       urlObj.protocol = 'https:';
       const upgradedUrl = urlObj.toString();
 
-      // Increment HTTPS upgrade stats
+      // Increment HTTPS upgrade stats; the tab's count starts once the page loads
+      const site = this.getSiteEntry(hostname).stats;
+      site.httpsUpgrades = (site.httpsUpgrades || 0) + 1;
+      this.pendingUpgrades.add(upgradedUrl);
       this.incrementHttpsUpgrade();
 
       console.log(`[HTTPS Everywhere] Upgraded: ${url} -> ${upgradedUrl}`);
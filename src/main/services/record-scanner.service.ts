@@ -0,0 +1,799 @@
+/**
+ * Record Scanner Service
+ * Walks blocks from the last synced height, trial-decrypts record outputs with the
+ * account view key and keeps an encrypted local index of owned records per program.
+ * Spent records are detected by matching transition inputs against the serial
+ * number (when the private key is available) or the view-key derived record tag.
+ */
+
+import crypto from 'crypto';
+import { AleoRecord } from '@shared/types';
+import { encrypt, decrypt, EncryptedData } from '../utils/crypto';
+import { aleoCryptoService, OwnedRecordPlaintext } from './aleo-crypto.service';
+
+// Lazy load electron-store
+function createStore(defaults: any): any {
+  const Store = require('electron-store');
+  return new Store({ name: 'record-index', defaults });
+}
+
+// API endpoints
+const ALEO_TESTNET_API = 'https://api.explorer.aleo.org/v1/testnet';
+
+// The explorer API serves at most 50 blocks per range request
+const BLOCK_BATCH_SIZE = 50;
+const DEFAULT_MAX_BLOCKS_PER_SYNC = 5000;
+const AUTO_SYNC_INTERVAL = 15 * 1000; // Roughly one block
+// Matches the transaction history's cutoff for dropped transactions
+const PENDING_SPEND_TIMEOUT = 10 * 60 * 1000;
+
+type Network = 'testnet' | 'mainnet';
+
+/**
+ * Keys used to scan for an account's records
+ */
+export interface ScanKeys {
+  viewKey: string;
+  privateKey?: string;
+}
+
+/**
+ * A record owned by the scanning account, as stored in the local index
+ */
+export interface IndexedRecord extends AleoRecord {
+  programId: string;
+  recordName: string;
+  plaintext: string;
+  spent: boolean;
+  blockHeight: number;
+  commitment: string;
+  tag: string;
+  serialNumber?: string;
+  transactionId: string;
+  transitionId: string;
+  functionName: string;
+  microcredits?: number;
+  spentInTransactionId?: string;
+  spentAtHeight?: number;
+  pendingSpendTxId?: string;
+  pendingSpendAt?: number;
+}
+
+/**
+ * Record output context handed to the decryptor
+ */
+export interface RecordOutputContext {
+  ciphertext: string;
+  commitment: string;
+  programId: string;
+  recordName: string;
+}
+
+/**
+ * Pluggable decryption backend. Defaults to the Aleo SDK; tests can swap it
+ * for a fixture implementation.
+ */
+export interface RecordDecryptor {
+  decrypt(output: RecordOutputContext, keys: ScanKeys): Promise<OwnedRecordPlaintext | null>;
+}
+
+export interface RecordSyncResult {
+  fromHeight: number;
+  toHeight: number;
+  latestHeight: number;
+  newRecords: number;
+  spentRecords: number;
+  complete: boolean;
+}
+
+/**
+ * Private credits balance in microcredits. Records consumed by a submitted but
+ * not yet confirmed transaction are counted as pending spend, not confirmed.
+ */
+export interface PrivateCreditsBalance {
+  confirmed: number;
+  pendingSpend: number;
+}
+
+export interface RecordQuery {
+  programId?: string;
+  includeSpent?: boolean;
+}
+
+interface RecordIndex {
+  lastSyncedBlockHeight: number;
+  records: Record<string, IndexedRecord[]>;
+}
+
+interface RecordIndexStore {
+  indexes: Record<string, EncryptedData>;
+}
+
+const sdkDecryptor: RecordDecryptor = {
+  decrypt: (output, keys) => aleoCryptoService.decryptOwnedRecord(
+    keys.viewKey,
+    output.ciphertext,
+    output.commitment,
+    output.programId,
+    output.recordName,
+    keys.privateKey
+  )
+};
+
+export class RecordScannerService {
+  private static instance: RecordScannerService;
+  private store: any = null;
+  private apiBase: string = ALEO_TESTNET_API;
+  private network: Network = 'testnet';
+  private decryptor: RecordDecryptor = sdkDecryptor;
+  private indexCache: Map<string, RecordIndex> = new Map();
+  private activeSyncs: Map<string, Promise<RecordSyncResult>> = new Map();
+  private caughtUp: Set<string> = new Set(); // Accounts whose last scan reached the chain tip
+  private programOutputCache: Map<string, Map<string, string[]>> = new Map();
+  private autoSyncTimer: NodeJS.Timeout | null = null;
+
+  private static readonly defaultStore: RecordIndexStore = {
+    indexes: {}
+  };
+
+  private constructor() {
+    // Store is lazily initialized
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): RecordScannerService {
+    if (!RecordScannerService.instance) {
+      RecordScannerService.instance = new RecordScannerService();
+    }
+    return RecordScannerService.instance;
+  }
+
+  /**
+   * Get store instance (lazy)
+   */
+  private getStore(): any {
+    if (!this.store) {
+      this.store = createStore(RecordScannerService.defaultStore);
+    }
+    return this.store;
+  }
+
+  /**
+   * Point the scanner at a node API. Indexes are kept separately per network.
+   */
+  setEndpoint(apiBase: string, network: Network): void {
+    this.apiBase = apiBase.replace(/\/+$/, '');
+    this.network = network;
+    this.programOutputCache.clear();
+  }
+
+  /**
+   * Replace the record decryptor (used by tests with canned block data)
+   */
+  setDecryptor(decryptor: RecordDecryptor | null): void {
+    this.decryptor = decryptor || sdkDecryptor;
+  }
+
+  /**
+   * Set the height scanning starts from for an account that has no records yet.
+   * Freshly generated accounts start at the current tip instead of genesis.
+   */
+  setScanStartHeight(viewKey: string, height: number): void {
+    const index = this.loadIndex(viewKey);
+    const hasRecords = Object.values(index.records).some(records => records.length > 0);
+    if (hasRecords) {
+      return;
+    }
+
+    index.lastSyncedBlockHeight = Math.max(-1, height - 1);
+    this.saveIndex(viewKey, index);
+  }
+
+  /**
+   * Get the last block height included in an account's index
+   */
+  getLastSyncedBlockHeight(viewKey: string): number {
+    return this.loadIndex(viewKey).lastSyncedBlockHeight;
+  }
+
+  /**
+   * Scan new blocks for an account. Concurrent calls for the same account share
+   * a single scan.
+   */
+  async sync(keys: ScanKeys, options: { maxBlocks?: number } = {}): Promise<RecordSyncResult> {
+    const accountId = this.getAccountId(keys.viewKey);
+    const running = this.activeSyncs.get(accountId);
+    if (running) {
+      return running;
+    }
+
+    const promise = this.runSync(keys, options.maxBlocks ?? DEFAULT_MAX_BLOCKS_PER_SYNC)
+      .finally(() => this.activeSyncs.delete(accountId));
+    this.activeSyncs.set(accountId, promise);
+    return promise;
+  }
+
+  /**
+   * Start a scan without waiting for it. Getters use this so a request never
+   * waits on thousands of blocks; they serve the current index instead.
+   */
+  syncInBackground(keys: ScanKeys): void {
+    this.sync(keys).catch(error => {
+      console.warn('[Record Scanner] Background sync failed:', error);
+    });
+  }
+
+  /**
+   * Whether a scan is running for an account whose index has not yet caught up
+   * with the chain, i.e. the indexed records may be incomplete
+   */
+  isSyncing(viewKey: string): boolean {
+    const accountId = this.getAccountId(viewKey);
+    return this.activeSyncs.has(accountId) && !this.caughtUp.has(accountId);
+  }
+
+  /**
+   * Get indexed records for an account, optionally limited to one program
+   */
+  getRecords(viewKey: string, query: RecordQuery = {}): IndexedRecord[] {
+    const index = this.loadIndex(viewKey);
+    const programs = query.programId ? [query.programId] : Object.keys(index.records);
+
+    const results: IndexedRecord[] = [];
+    for (const programId of programs) {
+      for (const record of index.records[programId] || []) {
+        if (query.includeSpent || !record.spent) {
+          results.push({ ...record, data: { ...record.data } });
+        }
+      }
+    }
+
+    return results.sort((a, b) => a.blockHeight - b.blockHeight);
+  }
+
+  /**
+   * Sum unspent credits.aleo records for an account
+   */
+  getPrivateCreditsBalance(viewKey: string): PrivateCreditsBalance {
+    const balance: PrivateCreditsBalance = { confirmed: 0, pendingSpend: 0 };
+
+    for (const record of this.getRecords(viewKey, { programId: 'credits.aleo' })) {
+      if (record.recordName !== 'credits' || record.microcredits === undefined) {
+        continue;
+      }
+      if (record.pendingSpendTxId) {
+        balance.pendingSpend += record.microcredits;
+      } else {
+        balance.confirmed += record.microcredits;
+      }
+    }
+
+    return balance;
+  }
+
+  /**
+   * Pick the smallest spendable credits record covering the amount (in microcredits).
+   * Records held by pending transactions are skipped.
+   */
+  selectCreditsRecord(viewKey: string, microcredits: number): IndexedRecord | null {
+    const candidates = this.getRecords(viewKey, { programId: 'credits.aleo' })
+      .filter(r => r.recordName === 'credits' && !r.pendingSpendTxId && (r.microcredits ?? 0) >= microcredits)
+      .sort((a, b) => (a.microcredits ?? 0) - (b.microcredits ?? 0));
+
+    return candidates[0] || null;
+  }
+
+  /**
+   * Mark records as consumed by a submitted transaction until it is seen on-chain
+   */
+  markPendingSpend(viewKey: string, recordIds: string[], transactionId: string): void {
+    const index = this.loadIndex(viewKey);
+    let changed = false;
+
+    for (const records of Object.values(index.records)) {
+      for (const record of records) {
+        if (recordIds.includes(record.id) && !record.spent) {
+          record.pendingSpendTxId = transactionId;
+          record.pendingSpendAt = Date.now();
+          changed = true;
+        }
+      }
+    }
+
+    if (changed) {
+      this.saveIndex(viewKey, index);
+    }
+  }
+
+  /**
+   * Return records held by a failed or rejected transaction to the spendable set
+   */
+  releasePendingSpend(viewKey: string, transactionId: string): void {
+    const index = this.loadIndex(viewKey);
+    if (this.releaseHeld(index, transactionId)) {
+      this.saveIndex(viewKey, index);
+    }
+  }
+
+  /**
+   * Keep scanning new blocks in the background for the unlocked account.
+   * The callback fires whenever a sync found new or spent records, or finished
+   * catching up with the chain.
+   */
+  startAutoSync(keys: ScanKeys, onChange: (result: RecordSyncResult) => void, intervalMs: number = AUTO_SYNC_INTERVAL): void {
+    this.stopAutoSync();
+
+    const tick = async () => {
+      try {
+        const wasSyncing = !this.caughtUp.has(this.getAccountId(keys.viewKey));
+        const result = await this.sync(keys);
+        if (result.newRecords > 0 || result.spentRecords > 0 || (wasSyncing && result.complete)) {
+          onChange(result);
+        }
+      } catch (error) {
+        console.warn('[Record Scanner] Background sync failed:', error);
+      }
+    };
+
+    this.autoSyncTimer = setInterval(tick, intervalMs);
+    tick();
+  }
+
+  /**
+   * Stop background scanning (on lock)
+   */
+  stopAutoSync(): void {
+    if (this.autoSyncTimer) {
+      clearInterval(this.autoSyncTimer);
+      this.autoSyncTimer = null;
+    }
+  }
+
+  /**
+   * Drop the index for an account (e.g. when the wallet is deleted)
+   */
+  clearIndex(viewKey: string): void {
+    const accountId = this.getAccountId(viewKey);
+    this.indexCache.delete(accountId);
+    this.caughtUp.delete(accountId);
+
+    const store = this.getStore();
+    const indexes = { ...(store.get('indexes') || {}) };
+    delete indexes[accountId];
+    store.set('indexes', indexes);
+  }
+
+  /**
+   * Drop all indexes
+   */
+  clearAll(): void {
+    this.indexCache.clear();
+    this.caughtUp.clear();
+    this.getStore().set('indexes', {});
+  }
+
+  // ============ Scanning ============
+
+  private async runSync(keys: ScanKeys, maxBlocks: number): Promise<RecordSyncResult> {
+    const index = this.loadIndex(keys.viewKey);
+    const latestHeight = await this.fetchLatestHeight();
+    const fromHeight = index.lastSyncedBlockHeight + 1;
+    const toHeight = Math.min(latestHeight, fromHeight + maxBlocks - 1);
+
+    const result: RecordSyncResult = {
+      fromHeight,
+      toHeight: index.lastSyncedBlockHeight,
+      latestHeight,
+      newRecords: 0,
+      spentRecords: 0,
+      complete: false
+    };
+
+    try {
+      for (let start = fromHeight; start <= toHeight; start += BLOCK_BATCH_SIZE) {
+        const end = Math.min(start + BLOCK_BATCH_SIZE - 1, toHeight);
+        const blocks = await this.fetchBlocks(start, end);
+
+        blocks.sort((a, b) => this.getBlockHeight(a) - this.getBlockHeight(b));
+        for (const block of blocks) {
+          await this.processBlock(block, keys, index, result);
+        }
+
+        index.lastSyncedBlockHeight = end;
+        result.toHeight = end;
+      }
+    } finally {
+      // A pending spend that never landed returns to the spendable set
+      this.expirePendingSpends(index);
+
+      // Persist whatever progress was made, even if a batch failed
+      this.saveIndex(keys.viewKey, index);
+    }
+
+    result.complete = index.lastSyncedBlockHeight >= latestHeight;
+    if (result.complete) {
+      this.caughtUp.add(this.getAccountId(keys.viewKey));
+    }
+    console.log(`[Record Scanner] Scanned blocks ${fromHeight}-${result.toHeight} (${result.newRecords} new, ${result.spentRecords} spent)`);
+    return result;
+  }
+
+  private async processBlock(block: any, keys: ScanKeys, index: RecordIndex, result: RecordSyncResult): Promise<void> {
+    const height = this.getBlockHeight(block);
+
+    for (const confirmed of block.transactions || []) {
+      const transaction = confirmed.transaction || {};
+      const rejected = typeof confirmed.status === 'string' && confirmed.status.toLowerCase().includes('reject');
+
+      // A rejected transaction is confirmed as a fee transaction with a new ID.
+      // Records it meant to spend were held under the ID we broadcast, and are
+      // still spendable.
+      if (rejected && transaction.id && this.hasHeldRecords(index)) {
+        const unconfirmedId = await this.fetchUnconfirmedTransactionId(transaction.id);
+        if (unconfirmedId) {
+          this.releaseHeld(index, unconfirmedId);
+        }
+      }
+
+      // Only the fee transition of a rejected transaction is applied on-chain
+      const transitions: any[] = [];
+      if (!rejected && transaction.execution?.transitions) {
+        transitions.push(...transaction.execution.transitions);
+      }
+      if (transaction.fee?.transition) {
+        transitions.push(transaction.fee.transition);
+      }
+
+      for (const transition of transitions) {
+        result.spentRecords += this.markSpentInputs(transition, index, transaction.id, height);
+        result.newRecords += await this.indexOutputs(transition, keys, index, transaction.id, height);
+      }
+    }
+  }
+
+  private hasHeldRecords(index: RecordIndex): boolean {
+    return Object.values(index.records).some(records => records.some(r => r.pendingSpendTxId && !r.spent));
+  }
+
+  private releaseHeld(index: RecordIndex, transactionId: string): boolean {
+    let changed = false;
+
+    for (const records of Object.values(index.records)) {
+      for (const record of records) {
+        if (record.pendingSpendTxId === transactionId && !record.spent) {
+          delete record.pendingSpendTxId;
+          delete record.pendingSpendAt;
+          changed = true;
+        }
+      }
+    }
+
+    return changed;
+  }
+
+  private expirePendingSpends(index: RecordIndex): void {
+    const cutoff = Date.now() - PENDING_SPEND_TIMEOUT;
+
+    for (const records of Object.values(index.records)) {
+      for (const record of records) {
+        if (record.pendingSpendTxId && !record.spent && (record.pendingSpendAt ?? 0) < cutoff) {
+          delete record.pendingSpendTxId;
+          delete record.pendingSpendAt;
+        }
+      }
+    }
+  }
+
+  private markSpentInputs(transition: any, index: RecordIndex, transactionId: string, height: number): number {
+    let spent = 0;
+
+    for (const input of transition.inputs || []) {
+      if (input.type !== 'record') {
+        continue;
+      }
+
+      for (const records of Object.values(index.records)) {
+        const record = records.find(r =>
+          !r.spent && (r.tag === input.tag || (r.serialNumber !== undefined && r.serialNumber === input.id))
+        );
+        if (record) {
+          record.spent = true;
+          delete record.pendingSpendTxId;
+          delete record.pendingSpendAt;
+          record.spentInTransactionId = transactionId;
+          record.spentAtHeight = height;
+          spent++;
+        }
+      }
+    }
+
+    return spent;
+  }
+
+  private async indexOutputs(
+    transition: any,
+    keys: ScanKeys,
+    index: RecordIndex,
+    transactionId: string,
+    height: number
+  ): Promise<number> {
+    const outputs: any[] = transition.outputs || [];
+    if (!outputs.some(output => output.type === 'record')) {
+      return 0;
+    }
+
+    const programId: string = transition.program;
+    const functionName: string = transition.function;
+    const outputTypes = await this.getFunctionOutputTypes(programId, functionName);
+    let added = 0;
+
+    for (let i = 0; i < outputs.length; i++) {
+      const output = outputs[i];
+      if (output.type !== 'record' || !output.value) {
+        continue;
+      }
+
+      const recordName = outputTypes[i] || (programId === 'credits.aleo' ? 'credits' : '');
+      const existing = index.records[programId]?.some(r => r.commitment === output.id);
+      if (existing) {
+        continue;
+      }
+
+      let owned: OwnedRecordPlaintext | null;
+      try {
+        owned = await this.decryptor.decrypt({
+          ciphertext: output.value,
+          commitment: output.id,
+          programId,
+          recordName
+        }, keys);
+      } catch (error) {
+        console.warn(`[Record Scanner] Skipping undecryptable output in ${transition.id}:`, error);
+        continue;
+      }
+
+      if (!owned) {
+        continue;
+      }
+
+      const data = this.parseRecordPlaintext(owned.plaintext);
+      const record: IndexedRecord = {
+        id: output.id,
+        owner: String(data.owner || ''),
+        data,
+        nonce: owned.nonce,
+        programId,
+        recordName,
+        plaintext: owned.plaintext,
+        spent: false,
+        blockHeight: height,
+        commitment: output.id,
+        tag: owned.tag,
+        serialNumber: owned.serialNumber,
+        transactionId,
+        transitionId: transition.id,
+        functionName
+      };
+
+      const microcredits = this.parseMicrocredits(data.microcredits);
+      if (programId === 'credits.aleo' && microcredits !== undefined) {
+        record.microcredits = microcredits;
+      }
+
+      if (!index.records[programId]) {
+        index.records[programId] = [];
+      }
+      index.records[programId].push(record);
+      added++;
+    }
+
+    return added;
+  }
+
+  // ============ Network ============
+
+  private async fetchLatestHeight(): Promise<number> {
+    const response = await fetch(`${this.apiBase}/latest/height`, {
+      headers: { 'Accept': 'application/json' }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch latest block height: HTTP ${response.status}`);
+    }
+
+    const height = parseInt(await response.text(), 10);
+    if (isNaN(height)) {
+      throw new Error('Failed to fetch latest block height: invalid response');
+    }
+    return height;
+  }
+
+  private async fetchBlocks(start: number, end: number): Promise<any[]> {
+    // The range end is exclusive on the explorer API
+    const response = await fetch(`${this.apiBase}/blocks?start=${start}&end=${end + 1}`, {
+      headers: { 'Accept': 'application/json' }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch blocks ${start}-${end}: HTTP ${response.status}`);
+    }
+
+    const blocks = await response.json();
+    return Array.isArray(blocks) ? blocks : [];
+  }
+
+  /**
+   * Look up the ID of the transaction as it was broadcast, given the ID it was
+   * confirmed under (which differs for rejected transactions)
+   */
+  private async fetchUnconfirmedTransactionId(confirmedId: string): Promise<string | null> {
+    const response = await fetch(`${this.apiBase}/transaction/unconfirmed/${confirmedId}`, {
+      headers: { 'Accept': 'application/json' }
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch unconfirmed transaction ${confirmedId}: HTTP ${response.status}`);
+    }
+
+    const transaction: any = await response.json();
+    return typeof transaction?.id === 'string' ? transaction.id : null;
+  }
+
+  /**
+   * Resolve the declared output types of a function, so record outputs can be
+   * named (needed for serial number derivation)
+   */
+  private async getFunctionOutputTypes(programId: string, functionName: string): Promise<string[]> {
+    let functions = this.programOutputCache.get(programId);
+
+    if (!functions) {
+      functions = new Map();
+      try {
+        const response = await fetch(`${this.apiBase}/program/${programId}`, {
+          headers: { 'Accept': 'application/json' }
+        });
+        if (response.ok) {
+          let source = await response.text();
+          if (source.startsWith('"')) {
+            source = JSON.parse(source);
+          }
+          functions = this.parseProgramOutputs(source);
+        }
+      } catch (error) {
+        console.warn(`[Record Scanner] Could not load program ${programId}:`, error);
+      }
+      this.programOutputCache.set(programId, functions);
+    }
+
+    return functions.get(functionName) || [];
+  }
+
+  private parseProgramOutputs(source: string): Map<string, string[]> {
+    const functions = new Map<string, string[]>();
+    let current: string[] | null = null;
+
+    for (const rawLine of source.split('\n')) {
+      const line = rawLine.trim();
+
+      const fnMatch = line.match(/^function\s+([A-Za-z0-9_]+)\s*:/);
+      if (fnMatch) {
+        current = [];
+        functions.set(fnMatch[1], current);
+        continue;
+      }
+
+      if (/^(closure|finalize|mapping|struct|record|constructor)\b/.test(line)) {
+        current = null;
+        continue;
+      }
+
+      const outputMatch = line.match(/^output\s+\S+\s+as\s+([^;]+);/);
+      if (outputMatch && current) {
+        const type = outputMatch[1].trim();
+        current.push(type.endsWith('.record') ? type.slice(0, -'.record'.length) : type);
+      }
+    }
+
+    return functions;
+  }
+
+  private getBlockHeight(block: any): number {
+    return Number(block?.header?.metadata?.height ?? block?.height ?? 0);
+  }
+
+  // ============ Parsing ============
+
+  /**
+   * Parse the top-level entries of a record plaintext into a plain object,
+   * stripping visibility suffixes (".private" / ".public")
+   */
+  private parseRecordPlaintext(plaintext: string): Record<string, unknown> {
+    const data: Record<string, unknown> = {};
+    const body = plaintext.trim().replace(/^\{/, '').replace(/\}$/, '');
+
+    let depth = 0;
+    let entry = '';
+    const entries: string[] = [];
+    for (const char of body) {
+      if (char === '{' || char === '[') depth++;
+      if (char === '}' || char === ']') depth--;
+      if (char === ',' && depth === 0) {
+        entries.push(entry);
+        entry = '';
+      } else {
+        entry += char;
+      }
+    }
+    entries.push(entry);
+
+    for (const raw of entries) {
+      const separator = raw.indexOf(':');
+      if (separator === -1) continue;
+
+      const key = raw.slice(0, separator).trim();
+      const value = raw.slice(separator + 1).trim().replace(/\.(private|public)$/, '');
+      if (key) {
+        data[key] = value;
+      }
+    }
+
+    return data;
+  }
+
+  private parseMicrocredits(value: unknown): number | undefined {
+    if (typeof value !== 'string') return undefined;
+    const match = value.match(/^(\d+)u64/);
+    return match ? Number(match[1]) : undefined;
+  }
+
+  // ============ Persistence ============
+
+  private getAccountId(viewKey: string): string {
+    return crypto.createHash('sha256').update(`${this.network}:${viewKey}`).digest('hex').slice(0, 32);
+  }
+
+  private loadIndex(viewKey: string): RecordIndex {
+    const accountId = this.getAccountId(viewKey);
+    const cached = this.indexCache.get(accountId);
+    if (cached) {
+      return cached;
+    }
+
+    let index: RecordIndex = { lastSyncedBlockHeight: -1, records: {} };
+    const encrypted: EncryptedData | undefined = (this.getStore().get('indexes') || {})[accountId];
+
+    if (encrypted) {
+      try {
+        index = JSON.parse(decrypt(encrypted, viewKey));
+      } catch (error) {
+        console.error('[Record Scanner] Failed to decrypt record index, rescanning:', error);
+      }
+    }
+
+    this.indexCache.set(accountId, index);
+    return index;
+  }
+
+  private saveIndex(viewKey: string, index: RecordIndex): void {
+    const accountId = this.getAccountId(viewKey);
+    this.indexCache.set(accountId, index);
+
+    const store = this.getStore();
+    const indexes = { ...(store.get('indexes') || {}) };
+    indexes[accountId] = encrypt(JSON.stringify(index), viewKey);
+    store.set('indexes', indexes);
+  }
+}
+
+// Export singleton instance
+export const recordScannerService = RecordScannerService.getInstance();
+
+// Export lazy getter for consistency
+export function getRecordScannerService(): RecordScannerService {
+  return RecordScannerService.getInstance();
+}
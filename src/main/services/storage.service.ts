@@ -1,11 +1,14 @@
 /**
  * Encrypted Storage Service
- * Handles encrypted storage of bookmarks and history
+ * Local encryption key and legacy encrypted data; bookmark and history calls go
+ * to their repositories
  */
 
-import { v4 as uuidv4 } from 'uuid';
-import { Bookmark, HistoryEntry } from '@shared/types';
-import { encrypt, decrypt, EncryptedData, generateRandomString } from '../utils/crypto';
+import { Bookmark, BookmarkFolder, HistoryEntry } from '@shared/types';
+import { decrypt, EncryptedData, generateRandomString } from '../utils/crypto';
+import { bookmarkSyncService, BookmarkSyncResult, BookmarkRestoreResult } from './bookmark-sync.service';
+import { bookmarkService } from './bookmark.service';
+import { historyService } from './history.service';
 
 // Lazy import to avoid circular dependency
 function getWalletServiceInstance() {
@@ -13,12 +16,6 @@ function getWalletServiceInstance() {
   return WalletService.getInstance();
 }
 
-// Lazy import for AleoService
-function getAleoServiceInstance() {
-  const { AleoService } = require('./aleo.service');
-  return AleoService.getInstance();
-}
-
 // Lazy load electron-store to avoid initialization issues
 function createStore(options?: { name?: string; encryptionKey?: string }): any {
   const Store = require('electron-store');
@@ -34,8 +31,6 @@ interface StorageData {
 export class StorageService {
   private static instance: StorageService;
   private store: any = null;
-  private bookmarksCache: Bookmark[] | null = null;
-  private historyCache: HistoryEntry[] | null = null;
   private localEncryptionKey: string | null = null;
 
   private constructor() {
@@ -60,7 +55,7 @@ export class StorageService {
    * Get or generate a local encryption key unique to this installation
    * This provides encryption even without a wallet, but wallet-based encryption is stronger
    */
-  private getLocalEncryptionKey(): string {
+  getLocalEncryptionKey(): string {
     if (this.localEncryptionKey) {
       return this.localEncryptionKey;
     }
@@ -91,51 +86,45 @@ export class StorageService {
   }
 
   /**
-   * Get encryption password from wallet or local key
-   * Wallet key provides stronger privacy as it's derived from user password
+   * Keys legacy data may be encrypted with: the wallet's storage key when the
+   * wallet is unlocked, then the installation's local key
    */
-  private getEncryptionPassword(): string {
+  private getLegacyPasswords(): string[] {
+    const passwords: string[] = [];
     try {
       const encryptionKey = getWalletServiceInstance().getEncryptionKey();
       if (encryptionKey) {
-        return encryptionKey.toString('hex');
+        passwords.push(encryptionKey.toString('hex'));
       }
     } catch (err) {
       // Wallet service may not be available
       console.warn('[Storage] Wallet encryption key not available, using local key');
     }
-    // Fall back to installation-specific local key
-    return this.getLocalEncryptionKey();
+    passwords.push(this.getLocalEncryptionKey());
+    return passwords;
   }
 
   /**
-   * Get all bookmarks (decrypted)
+   * Decrypt legacy data with the first key that opens it
    */
-  async getAllBookmarks(): Promise<Bookmark[]> {
-    try {
-      // Return cached bookmarks if available
-      if (this.bookmarksCache) {
-        return this.bookmarksCache;
-      }
-
-      const encryptedBookmarks = this.getStore().get('encryptedBookmarks');
-
-      if (!encryptedBookmarks) {
-        this.bookmarksCache = [];
-        return [];
+  private decryptLegacy(data: EncryptedData): string {
+    let lastError: unknown;
+    for (const password of this.getLegacyPasswords()) {
+      try {
+        return decrypt(data, password);
+      } catch (error) {
+        lastError = error;
       }
-
-      // Decrypt bookmarks
-      const password = this.getEncryptionPassword();
-      const decryptedData = decrypt(encryptedBookmarks, password);
-      this.bookmarksCache = JSON.parse(decryptedData) as Bookmark[];
-
-      return this.bookmarksCache;
-    } catch (error) {
-      console.error('Error loading bookmarks:', error);
-      this.bookmarksCache = [];
-      return [];
     }
+    throw lastError;
+  }
+
+  /**
+   * Get all bookmarks
+   * Bookmarks live in the bookmark repository (see bookmark.service)
+   */
+  async getAllBookmarks(): Promise<Bookmark[]> {
+    return bookmarkService.getAll().bookmarks;
   }
 
   /**
@@ -143,24 +132,7 @@ export class StorageService {
    */
   async addBookmark(bookmark: Omit<Bookmark, 'id' | 'createdAt' | 'updatedAt'>): Promise<Bookmark> {
     try {
-      const bookmarks = await this.getAllBookmarks();
-
-      // Check for duplicates
-      const existingBookmark = bookmarks.find(b => b.url === bookmark.url);
-      if (existingBookmark) {
-        throw new Error('Bookmark already exists');
-      }
-
-      const newBookmark: Bookmark = {
-        ...bookmark,
-        id: uuidv4(),
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
-      };
-
-      bookmarks.push(newBookmark);
-      await this.saveBookmarks(bookmarks);
-
+      const newBookmark = bookmarkService.addBookmark(bookmark);
       console.log('Bookmark added:', newBookmark.title);
       return newBookmark;
     } catch (error) {
@@ -173,22 +145,7 @@ export class StorageService {
    */
   async updateBookmark(id: string, updates: Partial<Omit<Bookmark, 'id' | 'createdAt'>>): Promise<Bookmark> {
     try {
-      const bookmarks = await this.getAllBookmarks();
-      const index = bookmarks.findIndex(b => b.id === id);
-
-      if (index === -1) {
-        throw new Error('Bookmark not found');
-      }
-
-      const updatedBookmark: Bookmark = {
-        ...bookmarks[index],
-        ...updates,
-        updatedAt: Date.now(),
-      };
-
-      bookmarks[index] = updatedBookmark;
-      await this.saveBookmarks(bookmarks);
-
+      const updatedBookmark = bookmarkService.updateBookmark(id, updates);
       console.log('Bookmark updated:', id);
       return updatedBookmark;
     } catch (error) {
@@ -201,14 +158,7 @@ export class StorageService {
    */
   async deleteBookmark(id: string): Promise<void> {
     try {
-      const bookmarks = await this.getAllBookmarks();
-      const filteredBookmarks = bookmarks.filter(b => b.id !== id);
-
-      if (filteredBookmarks.length === bookmarks.length) {
-        throw new Error('Bookmark not found');
-      }
-
-      await this.saveBookmarks(filteredBookmarks);
+      bookmarkService.deleteBookmark(id);
       console.log('Bookmark deleted:', id);
     } catch (error) {
       throw new Error(`Failed to delete bookmark: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -216,89 +166,42 @@ export class StorageService {
   }
 
   /**
-   * Save bookmarks (encrypted)
+   * Read bookmarks from the encrypted store used before the bookmark repository.
+   * Returns null when there are none; throws if no available key decrypts them.
    */
-  private async saveBookmarks(bookmarks: Bookmark[]): Promise<void> {
-    try {
-      const password = this.getEncryptionPassword();
-      const data = JSON.stringify(bookmarks);
-      const encrypted = encrypt(data, password);
-
-      this.getStore().set('encryptedBookmarks', encrypted);
-      this.bookmarksCache = bookmarks;
-    } catch (error) {
-      throw new Error(`Failed to save bookmarks: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  readLegacyBookmarks(): Bookmark[] | null {
+    const encryptedBookmarks = this.getStore().get('encryptedBookmarks');
+    if (!encryptedBookmarks) {
+      return null;
     }
+
+    const decryptedData = this.decryptLegacy(encryptedBookmarks);
+    return JSON.parse(decryptedData) as Bookmark[];
+  }
+
+  /**
+   * Drop the legacy encrypted bookmarks once they have been migrated
+   */
+  clearLegacyBookmarks(): void {
+    this.getStore().delete('encryptedBookmarks');
   }
 
   /**
    * Sync bookmarks to Aleo blockchain
-   * Calls bookmark_v1.aleo program to store bookmark hash on-chain
+   * Each Aleo-pinned bookmark is encrypted and written to bookmark_v1.aleo as its
+   * own records; edits and deletions since the last sync are applied on-chain too
    */
-  async syncBookmarksToAleo(): Promise<string | null> {
+  async syncBookmarksToAleo(): Promise<BookmarkSyncResult> {
     try {
-      // Check if wallet is unlocked
-      const walletService = getWalletServiceInstance();
-      const walletState = walletService.getState();
-      if (!walletState.isUnlocked) {
+      const wallet = getWalletServiceInstance().getCurrentWallet();
+      if (!wallet) {
         throw new Error('Wallet must be unlocked to sync');
       }
 
-      const bookmarks = await this.getAllBookmarks();
-
-      if (bookmarks.length === 0) {
-        console.log('No bookmarks to sync');
-        return null;
-      }
-
-      // Get private key for signing
-      const privateKey = walletService.getPrivateKey();
-      if (!privateKey) {
-        throw new Error('Private key not available');
-      }
-
-      // Create a hash of bookmarks data for on-chain storage
-      const bookmarkData = JSON.stringify(bookmarks.map(b => ({
-        url: b.url,
-        title: b.title,
-        timestamp: b.createdAt
-      })));
-
-      // Simple hash function to create a field-compatible value
-      let hash = 0;
-      for (let i = 0; i < bookmarkData.length; i++) {
-        const char = bookmarkData.charCodeAt(i);
-        hash = ((hash << 5) - hash) + char;
-        hash = hash & hash; // Convert to 32-bit integer
-      }
-      // Make sure it's positive and within field bounds
-      const bookmarkHash = Math.abs(hash) % 1000000000;
-
-      console.log(`[Bookmark Sync] Syncing ${bookmarks.length} bookmarks to Aleo blockchain`);
-      console.log(`[Bookmark Sync] Bookmark hash: ${bookmarkHash}`);
-
-      // Call the bookmark_v1.aleo program
-      const aleoService = getAleoServiceInstance();
-
-      // Generate proper inputs for add_bookmark function:
-      // add_bookmark takes: bookmark_id, encrypted_url, encrypted_title, created_at
-      const timestamp = Math.floor(Date.now() / 1000);
-
-      const txId = await aleoService.executeProgram({
-        programId: 'bookmark_v1.aleo',
-        functionName: 'add_bookmark',
-        inputs: [
-          `${bookmarkHash}field`,           // bookmark_id
-          `${bookmarkHash % 100000000}field`, // encrypted_url (hash)
-          `${(bookmarkHash >> 8) % 100000000}field`, // encrypted_title (hash)
-          `${timestamp}u32`                 // created_at
-        ],
-        fee: 0.1,
-        privateKey: privateKey
-      });
-
-      console.log(`[Bookmark Sync] Transaction submitted: ${txId}`);
-      return txId;
+      const pinned = bookmarkService.getAll().bookmarks
+        .filter(b => b.aleoPinned)
+        .map(b => ({ ...b, folderId: b.folderId && bookmarkService.getFolderPath(b.folderId) }));
+      return await bookmarkSyncService.sync(pinned, wallet);
     } catch (error) {
       console.error('[Bookmark Sync] Error:', error);
       throw new Error(`Failed to sync bookmarks: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -306,110 +209,51 @@ export class StorageService {
   }
 
   /**
-   * Get history entries with optional limit
+   * Restore bookmarks from the account's on-chain Bookmark records.
+   * Bookmarks already present (by id or URL) are kept as they are.
    */
-  async getHistory(limit?: number): Promise<HistoryEntry[]> {
+  async restoreBookmarksFromChain(): Promise<{ restored: number; skipped: number; result: BookmarkRestoreResult }> {
     try {
-      // Return cached history if available
-      if (this.historyCache) {
-        return limit ? this.historyCache.slice(0, limit) : this.historyCache;
-      }
-
-      const encryptedHistory = this.getStore().get('encryptedHistory');
-
-      if (!encryptedHistory) {
-        this.historyCache = [];
-        return [];
+      const wallet = getWalletServiceInstance().getCurrentWallet();
+      if (!wallet) {
+        throw new Error('Wallet must be unlocked to restore');
       }
 
-      // Decrypt history
-      const password = this.getEncryptionPassword();
-      const decryptedData = decrypt(encryptedHistory, password);
-      this.historyCache = JSON.parse(decryptedData) as HistoryEntry[];
-
-      // Sort by visited time (most recent first)
-      if (this.historyCache) {
-        this.historyCache.sort((a, b) => b.visitedAt - a.visitedAt);
-      }
+      const result = await bookmarkSyncService.restore(wallet);
+      const restored = bookmarkService.addRestored(result.bookmarks);
 
-      return limit && this.historyCache ? this.historyCache.slice(0, limit) : (this.historyCache || []);
+      console.log(`[Bookmark Sync] Restored ${restored} bookmarks into storage`);
+      return { restored, skipped: result.bookmarks.length - restored, result };
     } catch (error) {
-      console.error('Error loading history:', error);
-      this.historyCache = [];
-      return [];
+      throw new Error(`Failed to restore bookmarks: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Get history entries with optional limit
+   * History lives in the indexed history repository (see history.service)
+   */
+  async getHistory(limit?: number): Promise<HistoryEntry[]> {
+    return historyService.getRecent(limit);
+  }
+
   /**
    * Add history entry
    */
   async addHistoryEntry(entry: Omit<HistoryEntry, 'id' | 'visitedAt'>): Promise<HistoryEntry> {
     try {
-      const history = await this.getHistory();
-
-      // Check if URL was recently visited (within last 5 minutes)
-      const recentEntry = history.find(
-        h => h.url === entry.url && Date.now() - h.visitedAt < 5 * 60 * 1000
-      );
-
-      if (recentEntry) {
-        // Update existing entry timestamp
-        return await this.updateHistoryEntry(recentEntry.id, { visitedAt: Date.now() });
-      }
-
-      const newEntry: HistoryEntry = {
-        ...entry,
-        id: uuidv4(),
-        visitedAt: Date.now(),
-      };
-
-      history.unshift(newEntry);
-
-      // Keep only last 10,000 entries
-      const trimmedHistory = history.slice(0, 10000);
-      await this.saveHistory(trimmedHistory);
-
-      return newEntry;
+      return historyService.addVisit(entry);
     } catch (error) {
       throw new Error(`Failed to add history entry: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  /**
-   * Update history entry
-   */
-  private async updateHistoryEntry(id: string, updates: Partial<HistoryEntry>): Promise<HistoryEntry> {
-    const history = await this.getHistory();
-    const index = history.findIndex(h => h.id === id);
-
-    if (index === -1) {
-      throw new Error('History entry not found');
-    }
-
-    const updatedEntry: HistoryEntry = {
-      ...history[index],
-      ...updates,
-    };
-
-    history[index] = updatedEntry;
-    await this.saveHistory(history);
-
-    return updatedEntry;
-  }
-
   /**
    * Delete single history entry
    */
   async deleteHistoryEntry(id: string): Promise<void> {
     try {
-      const history = await this.getHistory();
-      const filteredHistory = history.filter(h => h.id !== id);
-
-      if (filteredHistory.length === history.length) {
-        throw new Error('History entry not found');
-      }
-
-      await this.saveHistory(filteredHistory);
+      historyService.deleteEntry(id);
       console.log('History entry deleted:', id);
     } catch (error) {
       throw new Error(`Failed to delete history entry: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -421,7 +265,7 @@ export class StorageService {
    */
   async clearHistory(): Promise<void> {
     try {
-      await this.saveHistory([]);
+      historyService.clear();
       console.log('History cleared');
     } catch (error) {
       throw new Error(`Failed to clear history: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -429,107 +273,84 @@ export class StorageService {
   }
 
   /**
-   * Save history (encrypted)
+   * Read history from the encrypted blob used before the history repository.
+   * Returns null when there is none; throws if no available key decrypts it.
    */
-  private async saveHistory(history: HistoryEntry[]): Promise<void> {
-    try {
-      const password = this.getEncryptionPassword();
-      const data = JSON.stringify(history);
-      const encrypted = encrypt(data, password);
-
-      this.getStore().set('encryptedHistory', encrypted);
-      this.historyCache = history;
-    } catch (error) {
-      throw new Error(`Failed to save history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  readLegacyHistory(): HistoryEntry[] | null {
+    const encryptedHistory = this.getStore().get('encryptedHistory');
+    if (!encryptedHistory) {
+      return null;
     }
+
+    const decryptedData = this.decryptLegacy(encryptedHistory);
+    return JSON.parse(decryptedData) as HistoryEntry[];
+  }
+
+  /**
+   * Drop the legacy encrypted history once it has been migrated
+   */
+  clearLegacyHistory(): void {
+    this.getStore().delete('encryptedHistory');
   }
 
   /**
-   * Search history by query
+   * Search history by query, best matches first
    */
   async searchHistory(query: string, limit: number = 50): Promise<HistoryEntry[]> {
-    const history = await this.getHistory();
-    const lowerQuery = query.toLowerCase();
-
-    return history
-      .filter(entry =>
-        entry.title.toLowerCase().includes(lowerQuery) ||
-        entry.url.toLowerCase().includes(lowerQuery)
-      )
-      .slice(0, limit);
+    return historyService.search(query, { limit }).results;
   }
 
   /**
    * Search bookmarks by query
    */
   async searchBookmarks(query: string): Promise<Bookmark[]> {
-    const bookmarks = await this.getAllBookmarks();
-    const lowerQuery = query.toLowerCase();
-
-    return bookmarks.filter(bookmark =>
-      bookmark.title.toLowerCase().includes(lowerQuery) ||
-      bookmark.url.toLowerCase().includes(lowerQuery) ||
-      bookmark.tags?.some(tag => tag.toLowerCase().includes(lowerQuery))
-    );
+    return bookmarkService.search(query);
   }
 
   /**
    * Get bookmarks by folder
    */
   async getBookmarksByFolder(folderId: string): Promise<Bookmark[]> {
-    const bookmarks = await this.getAllBookmarks();
-    return bookmarks.filter(b => b.folderId === folderId);
+    return bookmarkService.getBookmarksInFolder(folderId);
   }
 
   /**
    * Get all folders
    */
-  async getFolders(): Promise<string[]> {
-    const bookmarks = await this.getAllBookmarks();
-    const folders = new Set<string>();
-
-    bookmarks.forEach(bookmark => {
-      if (bookmark.folderId) {
-        folders.add(bookmark.folderId);
-      }
-    });
-
-    return Array.from(folders).sort();
+  async getFolders(): Promise<BookmarkFolder[]> {
+    return bookmarkService.getAll().folders;
   }
 
   /**
    * Clear cache (call when wallet is locked)
    */
   clearCache(): void {
-    this.bookmarksCache = null;
-    this.historyCache = null;
+    historyService.clearCache();
     console.log('Storage cache cleared');
   }
 
   /**
    * Export data (for backup)
    */
-  async exportData(): Promise<{ bookmarks: Bookmark[]; history: HistoryEntry[] }> {
-    const [bookmarks, history] = await Promise.all([
-      this.getAllBookmarks(),
-      this.getHistory(),
-    ]);
+  async exportData(): Promise<{ bookmarks: Bookmark[]; folders: BookmarkFolder[]; history: HistoryEntry[] }> {
+    const { bookmarks, folders } = bookmarkService.getAll();
+    const history = await this.getHistory();
 
-    return { bookmarks, history };
+    return { bookmarks, folders, history };
   }
 
   /**
    * Import data (from backup)
    */
-  async importData(data: { bookmarks?: Bookmark[]; history?: HistoryEntry[] }): Promise<void> {
+  async importData(data: { bookmarks?: Bookmark[]; folders?: BookmarkFolder[]; history?: HistoryEntry[] }): Promise<void> {
     try {
       if (data.bookmarks) {
-        await this.saveBookmarks(data.bookmarks);
+        bookmarkService.replaceAll({ bookmarks: data.bookmarks, folders: data.folders || [] });
         console.log(`Imported ${data.bookmarks.length} bookmarks`);
       }
 
       if (data.history) {
-        await this.saveHistory(data.history);
+        historyService.replaceAll(data.history);
         console.log(`Imported ${data.history.length} history entries`);
       }
     } catch (error) {
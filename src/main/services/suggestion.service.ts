@@ -0,0 +1,263 @@
+/**
+ * Suggestion Service
+ * Address bar suggestions from history, bookmarks, open tabs and search
+ * keywords, ranked by frecency - how often and how recently a page was visited.
+ *
+ * The row for what was typed (a URL, a keyword search or a plain search) always
+ * comes first; matching pages follow, best first, one row per URL.
+ */
+
+import { PageStats, Suggestion, SuggestionContext } from '@shared/types';
+
+interface SearchEngine {
+  name: string;
+  url: string;          // %s is replaced by the query
+}
+
+const SEARCH_ENGINES: Record<string, SearchEngine> = {
+  duckduckgo: { name: 'DuckDuckGo', url: 'https://duckduckgo.com/?q=%s' },
+  google: { name: 'Google', url: 'https://www.google.com/search?q=%s' },
+  brave: { name: 'Brave Search', url: 'https://search.brave.com/search?q=%s' }
+};
+
+// "w zero knowledge" searches Wikipedia for "zero knowledge"
+const SEARCH_KEYWORDS: Record<string, SearchEngine> = {
+  ddg: SEARCH_ENGINES.duckduckgo,
+  g: SEARCH_ENGINES.google,
+  b: SEARCH_ENGINES.brave,
+  w: { name: 'Wikipedia', url: 'https://en.wikipedia.org/w/index.php?search=%s' },
+  gh: { name: 'GitHub', url: 'https://github.com/search?q=%s' },
+  yt: { name: 'YouTube', url: 'https://www.youtube.com/results?search_query=%s' }
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Weight of a visit by its age in days; older visits count for less
+const RECENCY_WEIGHTS: Array<[number, number]> = [
+  [4, 100],
+  [14, 70],
+  [31, 50],
+  [90, 30]
+];
+const OLD_VISIT_WEIGHT = 10;
+
+// Bookmarks and open tabs rank well even when rarely visited
+const BOOKMARK_BONUS = 1.75;
+const UNVISITED_BOOKMARK = 140;
+const OPEN_TAB = 100;
+
+// Typing the start of a site's address beats matching a word in its title
+const MATCH_HOST_PREFIX = 4;
+const MATCH_WORD_START = 2;
+const MATCH_ANYWHERE = 1;
+
+const DEFAULT_LIMIT = 8;
+
+interface Candidate {
+  type: 'tab' | 'bookmark' | 'history';
+  url: string;
+  title: string;
+  favicon?: string;
+  tabId?: string;
+  tags?: string[];
+  base: number;
+}
+
+export class SuggestionService {
+  private static instance: SuggestionService;
+
+  private constructor() {
+    // Ranks on demand from the history and bookmark services
+  }
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): SuggestionService {
+    if (!SuggestionService.instance) {
+      SuggestionService.instance = new SuggestionService();
+    }
+    return SuggestionService.instance;
+  }
+
+  /**
+   * Suggestions for the address bar input. An empty input lists the top sites.
+   */
+  suggest(input: string, context: SuggestionContext = {}): Suggestion[] {
+    const limit = context.limit ?? DEFAULT_LIMIT;
+    const text = input.trim();
+    const typed = text ? typedSuggestion(text, context.searchEngine) : null;
+    const words = normalize(text).split(/\s+/).filter(Boolean);
+    const seen = new Set(typed ? [typed.url] : []);
+    const matches: Suggestion[] = [];
+
+    for (const candidate of this.collectCandidates(context)) {
+      if (seen.has(candidate.url)) continue;
+
+      const match = words.length ? matchQuality(candidate, words) : MATCH_ANYWHERE;
+      if (!match) continue;
+
+      seen.add(candidate.url);
+      matches.push({
+        type: candidate.type,
+        url: candidate.url,
+        title: candidate.title || candidate.url,
+        favicon: candidate.favicon,
+        tabId: candidate.tabId,
+        score: Math.round(candidate.base * match * 100) / 100
+      });
+    }
+
+    matches.sort((a, b) => b.score - a.score);
+    return [...(typed ? [typed] : []), ...matches.slice(0, limit)];
+  }
+
+  /**
+   * Pages to rank, one per URL, with the score they have before matching
+   */
+  private collectCandidates(context: SuggestionContext): Candidate[] {
+    const { historyService } = require('./history.service');
+    const { bookmarkService } = require('./bookmark.service');
+    const now = Date.now();
+    const candidates = new Map<string, Candidate>();
+
+    const pages: PageStats[] = historyService.getPageStats();
+    for (const page of pages) {
+      candidates.set(page.url, {
+        type: 'history',
+        url: page.url,
+        title: page.title,
+        favicon: page.favicon,
+        base: frecency(page, now)
+      });
+    }
+
+    let bookmarks: Array<{ url: string; title: string; favicon?: string; tags?: string[] }> = [];
+    try {
+      bookmarks = bookmarkService.getAll().bookmarks;
+    } catch (error) {
+      console.warn('[Suggestions] Bookmarks unavailable:', error instanceof Error ? error.message : error);
+    }
+
+    for (const bookmark of bookmarks) {
+      const visited = candidates.get(bookmark.url);
+      candidates.set(bookmark.url, {
+        type: 'bookmark',
+        url: bookmark.url,
+        title: bookmark.title || visited?.title || bookmark.url,
+        favicon: bookmark.favicon || visited?.favicon,
+        tags: bookmark.tags,
+        base: visited?.base ? visited.base * BOOKMARK_BONUS : UNVISITED_BOOKMARK
+      });
+    }
+
+    for (const tab of context.openTabs || []) {
+      if (!/^https?:/i.test(tab.url)) continue;
+      const known = candidates.get(tab.url);
+      candidates.set(tab.url, {
+        ...known,
+        type: 'tab',
+        url: tab.url,
+        title: tab.title || known?.title || tab.url,
+        favicon: tab.favicon || known?.favicon,
+        tabId: tab.id,
+        base: Math.max(known?.base || 0, OPEN_TAB)
+      });
+    }
+
+    return Array.from(candidates.values());
+  }
+}
+
+/**
+ * The row for the input itself: a keyword search, an address or a web search
+ */
+function typedSuggestion(text: string, engineId?: string): Suggestion {
+  const keyword = /^(\S+)\s+(.+)$/.exec(text);
+  const keywordEngine = keyword && Object.prototype.hasOwnProperty.call(SEARCH_KEYWORDS, keyword[1].toLowerCase())
+    ? SEARCH_KEYWORDS[keyword[1].toLowerCase()]
+    : null;
+
+  if (keyword && keywordEngine) {
+    return {
+      type: 'keyword',
+      url: searchUrl(keywordEngine, keyword[2]),
+      title: `Search ${keywordEngine.name} for "${keyword[2]}"`,
+      score: 0
+    };
+  }
+
+  if (looksLikeUrl(text)) {
+    return {
+      type: 'typed',
+      url: /^([a-z][a-z0-9+.-]*:\/\/|(about|data|file):)/i.test(text) ? text : `https://${text}`,
+      title: text,
+      score: 0
+    };
+  }
+
+  const engine = SEARCH_ENGINES[engineId || ''] || SEARCH_ENGINES.duckduckgo;
+  return {
+    type: 'search',
+    url: searchUrl(engine, text),
+    title: `Search ${engine.name} for "${text}"`,
+    score: 0
+  };
+}
+
+function looksLikeUrl(text: string): boolean {
+  if (/\s/.test(text)) return false;
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(text) ||
+    /^(about|data|file):/i.test(text) ||
+    /^localhost(:\d+)?(\/|$)/i.test(text) ||
+    /^[^/?#]+\.[a-z0-9-]{2,}(:\d+)?([/?#]|$)/i.test(text);
+}
+
+function searchUrl(engine: SearchEngine, query: string): string {
+  return engine.url.replace('%s', encodeURIComponent(query));
+}
+
+/**
+ * Visit count scaled by the average recency weight of the latest visits
+ */
+export function frecency(page: PageStats, now: number = Date.now()): number {
+  if (!page.recentVisits.length) {
+    return 0;
+  }
+
+  const total = page.recentVisits.reduce((sum, visitedAt) => {
+    const ageDays = Math.max(0, now - visitedAt) / DAY;
+    const bucket = RECENCY_WEIGHTS.find(([days]) => ageDays <= days);
+    return sum + (bucket ? bucket[1] : OLD_VISIT_WEIGHT);
+  }, 0);
+
+  return page.visitCount * total / page.recentVisits.length;
+}
+
+/**
+ * How well a page matches; 0 unless every word is found in its address,
+ * title or tags
+ */
+function matchQuality(candidate: Candidate, words: string[]): number {
+  const address = normalize(candidate.url).replace(/^[a-z][a-z0-9+.-]*:\/\/(www\.)?/, '');
+  const haystack = [address, normalize(candidate.title), ...(candidate.tags || []).map(normalize)].join(' ');
+
+  if (!words.every(word => haystack.includes(word))) {
+    return 0;
+  }
+  if (words.length === 1 && address.startsWith(words[0])) {
+    return MATCH_HOST_PREFIX;
+  }
+
+  const wordStarts = haystack.split(/[^\p{L}\p{N}]+/u);
+  return words.every(word => wordStarts.some(start => start.startsWith(word)))
+    ? MATCH_WORD_START
+    : MATCH_ANYWHERE;
+}
+
+function normalize(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+// Export singleton instance
+export const suggestionService = SuggestionService.getInstance();
@@ -3,6 +3,8 @@
  * Stores and manages transaction history for the wallet
  */
 
+import { TransferKind } from '@shared/types';
+
 // Lazy load electron-store
 function createStore(defaults: any): any {
   const Store = require('electron-store');
@@ -15,6 +17,7 @@ export interface TransactionRecord {
   type: 'send' | 'receive' | 'execute' | 'deploy';
   programId?: string;
   functionName?: string;
+  transferKind?: TransferKind; // credits.aleo function used for send/receive
   from?: string;
   to?: string;
   amount?: number;         // In ALEO
@@ -160,10 +163,15 @@ export class TransactionHistoryService {
     amount: number;
     fee?: number;
     memo?: string;
+    transferKind?: TransferKind;
   }): TransactionRecord {
+    const transferKind = params.transferKind || 'transfer_public';
     return this.addTransaction({
       txId: params.txId,
       type: 'send',
+      programId: 'credits.aleo',
+      functionName: transferKind,
+      transferKind,
       from: this.address || undefined,
       to: params.to,
       amount: params.amount,
@@ -195,6 +203,26 @@ export class TransactionHistoryService {
     });
   }
 
+  /**
+   * Record a program deployment
+   */
+  recordDeployTransaction(params: {
+    txId: string;
+    programId: string;
+    fee?: number;
+  }): TransactionRecord {
+    return this.addTransaction({
+      txId: params.txId,
+      type: 'deploy',
+      programId: params.programId,
+      functionName: 'deploy',
+      from: this.address || undefined,
+      fee: params.fee,
+      status: 'pending',
+      timestamp: Date.now()
+    });
+  }
+
   /**
    * Update transaction status
    */
@@ -1,12 +1,20 @@
 /**
  * Wallet Management Service
- * Handles wallet creation, import, storage, and operations
+ * Holds the unlocked keyring and handles account and wallet operations.
+ * The encrypted vault is stored and opened by the wallet IPC handlers.
  * Now uses real @provablehq/sdk for cryptographic operations
  */
 
-import crypto from 'crypto';
-import { AleoWallet, AleoBalance, WalletState } from '@shared/types';
-import { encrypt, decrypt, EncryptedData } from '../utils/crypto';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AleoWallet,
+  AleoBalance,
+  WalletState,
+  TransferKind,
+  Keyring,
+  KeyringAccount,
+  WalletAccount
+} from '@shared/types';
 import { aleoCryptoService, AleoAccount } from './aleo-crypto.service';
 
 // Lazy import to avoid circular dependency
@@ -21,219 +29,348 @@ function createStore(options?: { name?: string; encryptionKey?: string }): any {
   return new Store(options);
 }
 
-interface WalletStore {
-  encryptedWallet?: EncryptedData;
-  passwordHash?: string;
+/**
+ * Build a single-account keyring for a freshly created or imported wallet
+ */
+export function createKeyring(account: AleoAccount, mnemonic?: string): Keyring {
+  const first: KeyringAccount = {
+    id: uuidv4(),
+    name: 'Account 1',
+    address: account.address,
+    privateKey: account.privateKey,
+    viewKey: account.viewKey,
+    source: mnemonic ? 'derived' : 'imported',
+    index: mnemonic ? 0 : undefined,
+  };
+
+  return {
+    mnemonic,
+    accounts: [first],
+    selectedAccountId: first.id,
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Read a decrypted vault, upgrading single-key wallets saved before the keyring existed
+ */
+export function parseKeyring(data: any): Keyring {
+  if (Array.isArray(data?.accounts) && data.accounts.length > 0) {
+    return data as Keyring;
+  }
+
+  if (!data?.privateKey || !data?.viewKey || !data?.address) {
+    throw new Error('Unrecognized wallet data');
+  }
+
+  const keyring = createKeyring({
+    address: data.address,
+    privateKey: data.privateKey,
+    viewKey: data.viewKey,
+  });
+  keyring.createdAt = data.createdAt || keyring.createdAt;
+  return keyring;
+}
+
+/**
+ * Strip key material before an account leaves the main process
+ */
+function toWalletAccount(account: KeyringAccount): WalletAccount {
+  return {
+    id: account.id,
+    name: account.name,
+    address: account.address,
+    source: account.source,
+    index: account.index,
+  };
 }
 
 export class WalletService {
   private static instance: WalletService;
-  private store: any = null;
-  private currentWallet: AleoWallet | null = null;
+  private keyring: Keyring | null = null;
   private isLocked: boolean = true;
   private encryptionKey: Buffer | null = null;
 
-  private constructor() {
-    // Store is initialized lazily on first use
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): WalletService {
+    if (!WalletService.instance) {
+      WalletService.instance = new WalletService();
+    }
+    return WalletService.instance;
   }
 
   /**
-   * Get the store instance, lazily initialized
+   * Lock wallet (clear from memory)
    */
-  private getStore(): any {
-    if (!this.store) {
-      this.store = createStore({
-        name: 'wallet',
-        encryptionKey: 'aleo-browser-wallet-store',
-      });
+  lock(): void {
+    // Securely wipe wallet data from memory
+    if (this.keyring) {
+      this.keyring = null;
     }
-    return this.store;
+
+    if (this.encryptionKey) {
+      this.encryptionKey.fill(0);
+      this.encryptionKey = null;
+    }
+
+    this.isLocked = true;
+    console.log('Wallet locked');
   }
 
   /**
-   * Get singleton instance
+   * Load a decrypted keyring and mark the wallet unlocked
    */
-  static getInstance(): WalletService {
-    if (!WalletService.instance) {
-      WalletService.instance = new WalletService();
+  openKeyring(keyring: Keyring): void {
+    if (keyring.accounts.length === 0) {
+      throw new Error('Keyring has no accounts');
     }
-    return WalletService.instance;
+    if (!keyring.accounts.some(a => a.id === keyring.selectedAccountId)) {
+      keyring.selectedAccountId = keyring.accounts[0].id;
+    }
+
+    if (this.encryptionKey) {
+      this.encryptionKey.fill(0);
+    }
+    this.encryptionKey = keyring.storageKey ? Buffer.from(keyring.storageKey, 'hex') : null;
+
+    this.keyring = keyring;
+    this.isLocked = false;
   }
 
   /**
-   * Create a new wallet using real @provablehq/sdk
+   * Get the full keyring for persisting (requires unlocked wallet)
    */
-  async createWallet(): Promise<AleoWallet> {
-    try {
-      // Generate real Aleo account using SDK
-      const account = await aleoCryptoService.generateAccount();
+  getKeyring(): Keyring {
+    if (this.isLocked || !this.keyring) {
+      throw new Error('Wallet is locked');
+    }
+    return this.keyring;
+  }
+
+  /**
+   * List accounts without key material
+   */
+  getAccounts(): WalletAccount[] {
+    if (this.isLocked || !this.keyring) {
+      return [];
+    }
+    return this.keyring.accounts.map(toWalletAccount);
+  }
+
+  /**
+   * Get the selected account
+   */
+  getSelectedAccount(): WalletAccount | null {
+    const account = this.findAccount();
+    return account ? toWalletAccount(account) : null;
+  }
+
+  /**
+   * Check whether an account ID exists in the keyring
+   */
+  hasAccount(accountId: string): boolean {
+    return !!this.keyring?.accounts.some(a => a.id === accountId);
+  }
+
+  /**
+   * Get keys for an account, falling back to the selected account
+   * when no ID is given or the account no longer exists
+   */
+  getAccountWallet(accountId?: string): AleoWallet | null {
+    const account = this.findAccount(accountId);
+    if (!account) {
+      return null;
+    }
+    return { address: account.address, privateKey: account.privateKey, viewKey: account.viewKey };
+  }
 
-      const wallet: AleoWallet = {
+  /**
+   * Derive the next HD account from the keyring's mnemonic
+   */
+  async addDerivedAccount(name?: string): Promise<WalletAccount> {
+    const keyring = this.getKeyring();
+    if (!keyring.mnemonic) {
+      throw new Error('This wallet has no recovery phrase. Import accounts by private key instead.');
+    }
+
+    try {
+      const indexes = keyring.accounts
+        .filter(a => a.source === 'derived' && a.index !== undefined)
+        .map(a => a.index!);
+      const index = indexes.length > 0 ? Math.max(...indexes) + 1 : 0;
+
+      const account = await aleoCryptoService.generateAccountFromSeed(keyring.mnemonic, index);
+      return this.addAccount({
+        id: uuidv4(),
+        name: name?.trim() || `Account ${keyring.accounts.length + 1}`,
         address: account.address,
         privateKey: account.privateKey,
         viewKey: account.viewKey,
-      };
-
-      this.currentWallet = wallet;
-      this.isLocked = false;
-
-      console.log('Wallet created with real SDK:', account.address);
-      return wallet;
+        source: 'derived',
+        index,
+      });
     } catch (error) {
-      throw new Error(`Failed to create wallet: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to add account: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Import wallet from private key using real SDK
+   * Add an account from an existing private key
    */
-  async importWallet(privateKey: string): Promise<AleoWallet> {
+  async importAccount(privateKey: string, name?: string): Promise<WalletAccount> {
+    const keyring = this.getKeyring();
+
     try {
-      // Validate private key format using real validation
       if (!aleoCryptoService.isValidPrivateKey(privateKey)) {
         throw new Error('Invalid private key format. Must start with "APrivateKey1" and be 59 characters.');
       }
 
-      // Derive view key and address using real SDK
       const account = await aleoCryptoService.importFromPrivateKey(privateKey);
-
-      const wallet: AleoWallet = {
+      return this.addAccount({
+        id: uuidv4(),
+        name: name?.trim() || `Imported ${keyring.accounts.filter(a => a.source === 'imported').length + 1}`,
         address: account.address,
         privateKey: account.privateKey,
         viewKey: account.viewKey,
-      };
-
-      this.currentWallet = wallet;
-      this.isLocked = false;
-
-      console.log('Wallet imported with real SDK:', account.address);
-      return wallet;
+        source: 'imported',
+      });
     } catch (error) {
-      throw new Error(`Failed to import wallet: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to import account: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Save wallet encrypted with password
+   * Merge accounts from another keyring (e.g. a backup) into this one.
+   * Accounts already present by address are kept as they are. Derived accounts
+   * from a different recovery phrase are added as imported keys, since this
+   * keyring cannot re-derive them.
+   * @returns Counts plus human-readable conflicts
    */
-  async saveWallet(password: string): Promise<void> {
-    if (!this.currentWallet) {
-      throw new Error('No wallet to save');
+  mergeAccounts(accounts: KeyringAccount[], mnemonic?: string): { added: number; skipped: number; conflicts: string[] } {
+    const keyring = this.getKeyring();
+    const sameMnemonic = !!mnemonic && mnemonic === keyring.mnemonic;
+    const conflicts: string[] = [];
+    let added = 0;
+    let skipped = 0;
+
+    if (mnemonic && !sameMnemonic) {
+      conflicts.push(keyring.mnemonic
+        ? 'Backup uses a different recovery phrase; its derived accounts were added as imported keys'
+        : 'Backup has a recovery phrase this wallet does not; its derived accounts were added as imported keys');
     }
 
-    try {
-      // Validate password
-      if (password.length < 8) {
-        throw new Error('Password must be at least 8 characters');
+    for (const account of accounts) {
+      const existing = keyring.accounts.find(a => a.address === account.address);
+      if (existing) {
+        if (existing.name !== account.name) {
+          conflicts.push(`Account ${account.address}: kept "${existing.name}", backup name was "${account.name}"`);
+        }
+        skipped++;
+        continue;
       }
 
-      // Serialize wallet
-      const walletData = JSON.stringify(this.currentWallet);
-
-      // Encrypt wallet data
-      const encryptedWallet = encrypt(walletData, password);
-
-      // Hash password for verification
-      const passwordHash = crypto.createHash('sha256').update(password).digest('hex');
-
-      // Store encrypted wallet
-      this.getStore().set('encryptedWallet', encryptedWallet);
-      this.getStore().set('passwordHash', passwordHash);
-
-      console.log('Wallet saved successfully');
-    } catch (error) {
-      throw new Error(`Failed to save wallet: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      const derived = account.source === 'derived' && sameMnemonic;
+      this.addAccount({
+        id: uuidv4(),
+        name: account.name,
+        address: account.address,
+        privateKey: account.privateKey,
+        viewKey: account.viewKey,
+        source: derived ? 'derived' : 'imported',
+        index: derived ? account.index : undefined,
+      });
+      added++;
     }
+
+    return { added, skipped, conflicts };
   }
 
   /**
-   * Unlock wallet with password
+   * Switch the selected account
    */
-  async unlock(password: string): Promise<AleoWallet> {
-    try {
-      const encryptedWallet = this.getStore().get('encryptedWallet');
-      const storedPasswordHash = this.getStore().get('passwordHash');
-
-      if (!encryptedWallet || !storedPasswordHash) {
-        throw new Error('No wallet found');
-      }
-
-      // Verify password
-      const passwordHash = crypto.createHash('sha256').update(password).digest('hex');
-      if (passwordHash !== storedPasswordHash) {
-        throw new Error('Invalid password');
-      }
-
-      // Decrypt wallet
-      const walletData = decrypt(encryptedWallet, password);
-      const wallet = JSON.parse(walletData) as AleoWallet;
-      this.currentWallet = wallet;
-      this.isLocked = false;
+  selectAccount(accountId: string): WalletAccount {
+    const keyring = this.getKeyring();
+    const account = keyring.accounts.find(a => a.id === accountId);
+    if (!account) {
+      throw new Error('Account not found');
+    }
 
-      // Derive encryption key from password for storage service
-      if (encryptedWallet.salt) {
-        const salt = Buffer.from(encryptedWallet.salt, 'hex');
-        this.encryptionKey = crypto.pbkdf2Sync(password, salt, 100000, 32, 'sha256');
-      }
+    keyring.selectedAccountId = account.id;
+    console.log('Selected account:', account.address);
+    return toWalletAccount(account);
+  }
 
-      console.log('Wallet unlocked:', wallet.address);
-      return wallet;
-    } catch (error) {
-      this.currentWallet = null;
-      this.isLocked = true;
-      this.encryptionKey = null;
-      throw new Error(`Failed to unlock wallet: ${error instanceof Error ? error.message : 'Invalid password'}`);
+  /**
+   * Rename an account
+   */
+  renameAccount(accountId: string, name: string): WalletAccount {
+    const account = this.getKeyring().accounts.find(a => a.id === accountId);
+    if (!account) {
+      throw new Error('Account not found');
+    }
+    if (!name.trim()) {
+      throw new Error('Account name cannot be empty');
     }
+
+    account.name = name.trim();
+    return toWalletAccount(account);
   }
 
   /**
-   * Lock wallet (clear from memory)
+   * Remove an account from the keyring. The last account cannot be removed.
    */
-  lock(): void {
-    // Securely wipe wallet data from memory
-    if (this.currentWallet) {
-      this.currentWallet = null;
+  removeAccount(accountId: string): void {
+    const keyring = this.getKeyring();
+    if (keyring.accounts.length <= 1) {
+      throw new Error('Cannot remove the only account');
     }
-
-    if (this.encryptionKey) {
-      this.encryptionKey.fill(0);
-      this.encryptionKey = null;
+    if (!keyring.accounts.some(a => a.id === accountId)) {
+      throw new Error('Account not found');
     }
 
-    this.isLocked = true;
-    console.log('Wallet locked');
+    keyring.accounts = keyring.accounts.filter(a => a.id !== accountId);
+    if (keyring.selectedAccountId === accountId) {
+      keyring.selectedAccountId = keyring.accounts[0].id;
+    }
   }
 
   /**
    * Get current wallet address
    */
   getAddress(): string | null {
-    if (this.isLocked || !this.currentWallet) {
-      return null;
-    }
-    return this.currentWallet.address;
+    return this.getCurrentWallet()?.address || null;
   }
 
   /**
    * Get wallet balance
    */
   async getBalance(): Promise<AleoBalance> {
-    if (this.isLocked || !this.currentWallet) {
+    const wallet = this.getCurrentWallet();
+    if (!wallet) {
       throw new Error('Wallet is locked');
     }
 
     try {
-      return await getAleoServiceInstance().getBalance(this.currentWallet.address);
+      return await getAleoServiceInstance().getBalance(wallet.address, {
+        viewKey: wallet.viewKey,
+        privateKey: wallet.privateKey
+      });
     } catch (error) {
       throw new Error(`Failed to get balance: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Send ALEO tokens
+   * Send ALEO tokens. The transfer kind selects which credits.aleo function is used;
+   * the fee is always paid from the public balance.
    */
-  async send(to: string, amount: number, fee: number = 0.01): Promise<string> {
-    if (this.isLocked || !this.currentWallet) {
+  async send(to: string, amount: number, fee: number = 0.01, transferKind: TransferKind = 'transfer_public'): Promise<string> {
+    const wallet = this.getCurrentWallet();
+    if (!wallet) {
       throw new Error('Wallet is locked');
     }
 
@@ -242,19 +379,34 @@ export class WalletService {
       getAleoServiceInstance().validateAddress(to);
 
       // Check balance
-      const balance = await this.getBalance();
-      const totalAmount = amount + fee;
-
-      if (balance.public < totalAmount) {
-        throw new Error(`Insufficient balance. Required: ${totalAmount}, Available: ${balance.public}`);
+      const balance = await getAleoServiceInstance().getBalance(wallet.address, {
+        viewKey: wallet.viewKey,
+        privateKey: wallet.privateKey
+      });
+      const fromPrivate = transferKind === 'transfer_private' || transferKind === 'transfer_private_to_public';
+
+      if (fromPrivate) {
+        if (balance.private < amount) {
+          throw new Error(`Insufficient private balance. Required: ${amount}, Available: ${balance.private}`);
+        }
+        if (balance.public < fee) {
+          throw new Error(`Insufficient public balance for fee. Required: ${fee}, Available: ${balance.public}`);
+        }
+      } else {
+        const totalAmount = amount + fee;
+        if (balance.public < totalAmount) {
+          throw new Error(`Insufficient balance. Required: ${totalAmount}, Available: ${balance.public}`);
+        }
       }
 
       // Execute transfer
       const txId = await getAleoServiceInstance().transfer({
-        privateKey: this.currentWallet.privateKey,
+        privateKey: wallet.privateKey,
+        viewKey: wallet.viewKey,
         to,
         amount,
         fee,
+        transferKind,
       });
 
       console.log(`Transfer successful: ${txId}`);
@@ -266,16 +418,18 @@ export class WalletService {
 
   /**
    * Sign a message with private key using real SDK
+   * @param accountId - Account to sign with (defaults to the selected account)
    */
-  async signMessage(message: string): Promise<string> {
-    if (this.isLocked || !this.currentWallet) {
+  async signMessage(message: string, accountId?: string): Promise<string> {
+    const wallet = this.getAccountWallet(accountId);
+    if (!wallet) {
       throw new Error('Wallet is locked');
     }
 
     try {
       // Use real Aleo SDK for proper cryptographic signing
       const signature = await aleoCryptoService.signMessage(
-        this.currentWallet.privateKey,
+        wallet.privateKey,
         message
       );
 
@@ -296,10 +450,10 @@ export class WalletService {
   }
 
   /**
-   * Check if wallet exists
+   * Check if a wallet vault has been stored (the IPC wallet handlers own it)
    */
   hasWallet(): boolean {
-    return this.getStore().has('encryptedWallet');
+    return !!createStore().get('wallet');
   }
 
   /**
@@ -313,33 +467,26 @@ export class WalletService {
     };
   }
 
-  /**
-   * Delete wallet (use with caution)
-   */
-  async deleteWallet(): Promise<void> {
-    this.lock();
-    this.getStore().clear();
-    console.log('Wallet deleted');
-  }
-
   /**
    * Export private key (requires unlocked wallet)
    */
-  exportPrivateKey(): string {
-    if (this.isLocked || !this.currentWallet) {
+  exportPrivateKey(accountId?: string): string {
+    const wallet = this.getAccountWallet(accountId);
+    if (!wallet) {
       throw new Error('Wallet is locked');
     }
-    return this.currentWallet.privateKey;
+    return wallet.privateKey;
   }
 
   /**
    * Export view key (requires unlocked wallet)
    */
-  exportViewKey(): string {
-    if (this.isLocked || !this.currentWallet) {
+  exportViewKey(accountId?: string): string {
+    const wallet = this.getAccountWallet(accountId);
+    if (!wallet) {
       throw new Error('Wallet is locked');
     }
-    return this.currentWallet.viewKey;
+    return wallet.viewKey;
   }
 
   // Private helper methods - now using real SDK
@@ -347,14 +494,15 @@ export class WalletService {
   /**
    * Decrypt a record using the view key
    */
-  async decryptRecord(ciphertext: string): Promise<string> {
-    if (this.isLocked || !this.currentWallet) {
+  async decryptRecord(ciphertext: string, accountId?: string): Promise<string> {
+    const wallet = this.getAccountWallet(accountId);
+    if (!wallet) {
       throw new Error('Wallet is locked');
     }
 
     try {
       return await aleoCryptoService.decryptRecord(
-        this.currentWallet.viewKey,
+        wallet.viewKey,
         ciphertext
       );
     } catch (error) {
@@ -366,13 +514,14 @@ export class WalletService {
    * Verify a signature
    */
   async verifySignature(message: string, signature: string): Promise<boolean> {
-    if (this.isLocked || !this.currentWallet) {
+    const wallet = this.getCurrentWallet();
+    if (!wallet) {
       throw new Error('Wallet is locked');
     }
 
     try {
       return await aleoCryptoService.verifySignature(
-        this.currentWallet.address,
+        wallet.address,
         message,
         signature
       );
@@ -385,14 +534,39 @@ export class WalletService {
    * Get the current wallet (for internal use)
    */
   getCurrentWallet(): AleoWallet | null {
-    if (this.isLocked) {
+    return this.getAccountWallet();
+  }
+
+  /**
+   * Look up a keyring account, falling back to the selected one
+   */
+  private findAccount(accountId?: string): KeyringAccount | null {
+    if (this.isLocked || !this.keyring) {
       return null;
     }
-    return this.currentWallet;
+
+    const accounts = this.keyring.accounts;
+    return (accountId && accounts.find(a => a.id === accountId))
+      || accounts.find(a => a.id === this.keyring!.selectedAccountId)
+      || null;
+  }
+
+  /**
+   * Append an account unless its address is already in the keyring
+   */
+  private addAccount(account: KeyringAccount): WalletAccount {
+    const keyring = this.getKeyring();
+    if (keyring.accounts.some(a => a.address === account.address)) {
+      throw new Error('Account is already in this wallet');
+    }
+
+    keyring.accounts.push(account);
+    console.log('Account added:', account.address);
+    return toWalletAccount(account);
   }
 }
 
-// Export singleton instance - safe now because Store is lazily initialized in getStore()
+// Export singleton instance
 export const walletService = WalletService.getInstance();
 
 // Export lazy getter for flexibility
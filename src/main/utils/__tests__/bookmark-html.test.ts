@@ -0,0 +1,62 @@
+/**
+ * Netscape bookmark file tests
+ * Run with: npm test (after setting up testing environment)
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseNetscapeBookmarks, serializeNetscapeBookmarks, BookmarkTreeFolder } from '../bookmark-html';
+
+// Trimmed export from Chrome: unclosed <DT>/<p> tags and upper-case attributes
+const CHROME_EXPORT = `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">
+<TITLE>Bookmarks</TITLE>
+<H1>Bookmarks</H1>
+<DL><p>
+    <DT><H3 ADD_DATE="1700000000" PERSONAL_TOOLBAR_FOLDER="true">Bookmarks bar</H3>
+    <DL><p>
+        <DT><A HREF="https://aleo.org/" ADD_DATE="1700000100">Aleo</A>
+        <DT><H3>Docs &amp; Guides</H3>
+        <DL><p>
+            <DT><A HREF="https://developer.aleo.org/?a=1&amp;b=2" TAGS="zk,docs">Developer &lt;Docs&gt;</A>
+        </DL><p>
+    </DL><p>
+    <DT><A HREF="javascript:alert(1)">Bookmarklet</A>
+</DL><p>
+`;
+
+describe('Netscape bookmark files', () => {
+  it('parses folders, nesting, dates, tags and entities', () => {
+    const nodes = parseNetscapeBookmarks(CHROME_EXPORT);
+
+    expect(nodes).toHaveLength(2);
+    const bar = nodes[0] as BookmarkTreeFolder;
+    expect(bar.type).toBe('folder');
+    expect(bar.role).toBe('toolbar');
+    expect(bar.addDate).toBe(1700000000 * 1000);
+
+    expect(bar.children[0]).toMatchObject({ type: 'bookmark', url: 'https://aleo.org/', title: 'Aleo' });
+
+    const docs = bar.children[1] as BookmarkTreeFolder;
+    expect(docs.name).toBe('Docs & Guides');
+    expect(docs.children[0]).toMatchObject({
+      url: 'https://developer.aleo.org/?a=1&b=2',
+      title: 'Developer <Docs>',
+      tags: ['zk', 'docs']
+    });
+
+    // Loose bookmarks after a folder stay at the top level
+    expect(nodes[1]).toMatchObject({ type: 'bookmark', url: 'javascript:alert(1)' });
+  });
+
+  it('round-trips through serialize and parse', () => {
+    const nodes = parseNetscapeBookmarks(CHROME_EXPORT);
+    const html = serializeNetscapeBookmarks(nodes);
+
+    expect(html.startsWith('<!DOCTYPE NETSCAPE-Bookmark-file-1>')).toBe(true);
+    expect(parseNetscapeBookmarks(html)).toEqual(nodes);
+  });
+
+  it('rejects files without a bookmark list', () => {
+    expect(() => parseNetscapeBookmarks('<html><body>Hello</body></html>')).toThrow('Not a Netscape bookmark file');
+  });
+});
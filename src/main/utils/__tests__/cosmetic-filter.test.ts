@@ -0,0 +1,85 @@
+/**
+ * Element hiding rule tests
+ * Run with: npm test (after setting up testing environment)
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseCosmeticFilter, CosmeticMatcher, CosmeticFilter, hidingStylesheet } from '../cosmetic-filter';
+import { parseFilterList } from '../filter-list';
+
+const RULES = [
+  '##.ad-banner',
+  '##.sponsored',
+  'news.com##.cookie-wall',
+  'news.com,~sports.news.com###promo',
+  '~shop.com##.popup',
+  'blog.news.com#@#.sponsored',
+  '#@#.sponsored-ok'
+];
+
+const matcherFor = (rules: string[]) =>
+  new CosmeticMatcher(rules.map((rule) => parseCosmeticFilter(rule, 'test')).filter((f): f is CosmeticFilter => f !== null));
+
+describe('Element hiding rule parsing', () => {
+  it('reads selectors, exceptions and domains', () => {
+    const filter = parseCosmeticFilter('example.com,~www.example.com#@#div.ad', 'test');
+    expect(filter?.selector).toBe('div.ad');
+    expect(filter?.exception).toBe(true);
+    expect(filter?.domains).toEqual(['example.com']);
+    expect(filter?.excludedDomains).toEqual(['www.example.com']);
+  });
+
+  it('skips procedural, snippet and entity rules', () => {
+    expect(parseCosmeticFilter('example.com#?#div:-abp-has(.ad)', 'test')).toBeNull();
+    expect(parseCosmeticFilter('example.com##div:has-text(Sponsored)', 'test')).toBeNull();
+    expect(parseCosmeticFilter('example.com##+js(set-constant, ads, false)', 'test')).toBeNull();
+    expect(parseCosmeticFilter('example.com#$#abort-on-property-read ads', 'test')).toBeNull();
+    expect(parseCosmeticFilter('google.*##.ad', 'test')).toBeNull();
+  });
+
+  it('refuses selectors that would break out of their rule', () => {
+    expect(parseCosmeticFilter('##.ad{} body{display:none', 'test')).toBeNull();
+    expect(parseCosmeticFilter('##.ad /* x */', 'test')).toBeNull();
+  });
+
+  it('collects element hiding rules from filter lists', () => {
+    const parsed = parseFilterList('||ads.com^\nnews.com##.cookie-wall\nnews.com#?#.x:-abp-contains(Ad)\n', 'test');
+    expect(parsed.filters).toHaveLength(1);
+    expect(parsed.cosmetic).toHaveLength(1);
+    expect(parsed.skipped).toBe(1);
+  });
+});
+
+describe('Element hiding matching', () => {
+  const matcher = matcherFor(RULES);
+
+  it('hides generic selectors on every site, minus global exceptions', () => {
+    expect(matcherFor(['##.a', '##.b', '#@#.b']).genericSelectors()).toEqual(['.a']);
+  });
+
+  it('adds site-specific selectors on the site and its subdomains', () => {
+    expect(matcher.pageSelectors('www.news.com').hide).toContain('.cookie-wall');
+    expect(matcher.pageSelectors('www.news.com').hide).toContain('#promo');
+    expect(matcher.pageSelectors('sports.news.com').hide).not.toContain('#promo');
+    expect(matcher.pageSelectors('other.com').hide).not.toContain('.cookie-wall');
+  });
+
+  it('honours excluded domains on otherwise generic rules', () => {
+    expect(matcher.pageSelectors('other.com').hide).toContain('.popup');
+    expect(matcher.pageSelectors('www.shop.com').hide).not.toContain('.popup');
+  });
+
+  it('reports generic selectors a site excepts', () => {
+    expect(matcher.pageSelectors('blog.news.com').unhide).toEqual(['.sponsored']);
+    expect(matcher.pageSelectors('www.news.com').unhide).toEqual([]);
+  });
+
+  it('only hides with accepted lists', () => {
+    expect(matcher.genericSelectors((listId) => listId !== 'test')).toEqual([]);
+    expect(matcher.pageSelectors('news.com', (listId) => listId !== 'test').hide).toEqual([]);
+  });
+
+  it('builds one rule per selector', () => {
+    expect(hidingStylesheet(['.a', '#b'])).toBe('.a{display:none !important;}\n#b{display:none !important;}');
+  });
+});
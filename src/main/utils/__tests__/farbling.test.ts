@@ -0,0 +1,88 @@
+/**
+ * Fingerprinting protection tests
+ * Run with: npm test (after setting up testing environment)
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { farblingSeed, farblingScript } from '../farbling';
+
+const KEY = Buffer.alloc(32, 1);
+
+// Runs the script against a window with just the APIs a test needs
+function install(level: 'standard' | 'strict', win: Record<string, any>): void {
+  const script = farblingScript(level, farblingSeed(KEY, 'example.com'));
+  new Function('window', script)({ Promise, Uint8Array, Float32Array, ...win });
+}
+
+describe('Farbling seeds', () => {
+  it('are the same for all pages of a site', () => {
+    expect(farblingSeed(KEY, 'www.example.com')).toBe(farblingSeed(KEY, 'example.com'));
+    expect(farblingSeed(KEY, 'shop.example.co.uk')).toBe(farblingSeed(KEY, 'example.co.uk'));
+  });
+
+  it('differ across sites and sessions', () => {
+    expect(farblingSeed(KEY, 'example.com')).not.toBe(farblingSeed(KEY, 'example.org'));
+    expect(farblingSeed(Buffer.alloc(32, 2), 'example.com')).not.toBe(farblingSeed(KEY, 'example.com'));
+  });
+});
+
+describe('Farbling script', () => {
+  it('adds the same noise to every canvas readback', () => {
+    class CanvasRenderingContext2D {
+      getImageData() {
+        return { data: new Uint8Array(40 * 40 * 4), width: 40, height: 40 };
+      }
+    }
+    install('standard', { CanvasRenderingContext2D });
+
+    const context = new CanvasRenderingContext2D();
+    const first = Array.from(context.getImageData().data);
+    expect(first.some((value) => value !== 0)).toBe(true);
+    expect(Array.from(context.getImageData().data)).toEqual(first);
+  });
+
+  it('masks the WebGL vendor and renderer', () => {
+    class WebGLRenderingContext {
+      getParameter(name: number) {
+        return ({ 0x1f00: 'WebKit', 0x1f01: 'WebKit WebGL', 0x9245: 'NVIDIA', 0x9246: 'GeForce RTX' } as Record<number, string>)[name];
+      }
+    }
+    install('standard', { WebGLRenderingContext });
+
+    const context = new WebGLRenderingContext();
+    expect(context.getParameter(0x9245)).toBe('WebKit');
+    expect(context.getParameter(0x9246)).toBe('WebKit WebGL');
+  });
+
+  it('scales audio samples once', () => {
+    class AudioBuffer {
+      private data = new Float32Array([0.5, -0.25]);
+      getChannelData() {
+        return this.data;
+      }
+    }
+    install('standard', { AudioBuffer });
+
+    const buffer = new AudioBuffer();
+    const first = Array.from(buffer.getChannelData());
+    expect(first[0]).not.toBe(0.5);
+    expect(Array.from(buffer.getChannelData())).toEqual(first);
+  });
+
+  it('reports fewer cores, and a fixed count in strict mode', () => {
+    const navigatorWith = (level: 'standard' | 'strict') => {
+      class Navigator {
+        get hardwareConcurrency() {
+          return 16;
+        }
+      }
+      install(level, { Navigator });
+      return new Navigator();
+    };
+
+    const cores = navigatorWith('standard').hardwareConcurrency;
+    expect(cores).toBeGreaterThan(1);
+    expect(cores <= 16).toBe(true);
+    expect(navigatorWith('strict').hardwareConcurrency).toBe(4);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Field encoding tests
+ * Run with: npm test (after setting up testing environment)
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import crypto from 'crypto';
+import {
+  FIELD_MODULUS,
+  BYTES_PER_FIELD,
+  bytesToField,
+  fieldToBytes,
+  parseField,
+  encodeChunks,
+  decodeChunks,
+  formatChunkId,
+  parseChunkId,
+  assembleChunks,
+  newChainId,
+} from '../field-encoding';
+
+describe('field encoding', () => {
+  it('round-trips bytes through a field, keeping leading zeros', () => {
+    const bytes = Buffer.concat([Buffer.alloc(3), crypto.randomBytes(BYTES_PER_FIELD - 3)]);
+    expect(fieldToBytes(bytesToField(bytes)).equals(bytes)).toBe(true);
+  });
+
+  it('keeps the largest 31-byte value below the modulus', () => {
+    const field = bytesToField(Buffer.alloc(BYTES_PER_FIELD, 0xff));
+    expect(parseField(field) < FIELD_MODULUS).toBe(true);
+  });
+
+  it('rejects oversized input and out-of-range literals', () => {
+    expect(() => bytesToField(Buffer.alloc(BYTES_PER_FIELD + 1))).toThrow();
+    expect(() => parseField(`${FIELD_MODULUS}field`)).toThrow();
+    expect(() => parseField('12u64')).toThrow();
+  });
+
+  it('parses record plaintext values with visibility suffixes', () => {
+    expect(parseField('42field.private')).toBe(BigInt(42));
+    expect(parseField('42')).toBe(BigInt(42));
+  });
+
+  it('round-trips payloads of every size across chunk boundaries', () => {
+    for (const length of [0, 1, 27, 28, 93, 200, 1000]) {
+      const payload = crypto.randomBytes(length);
+      const chunks = encodeChunks(payload, 3);
+
+      expect(chunks.every(chunk => chunk.length === 3)).toBe(true);
+      expect(decodeChunks(chunks).equals(payload)).toBe(true);
+    }
+  });
+
+  it('packs and unpacks chunk IDs', () => {
+    const chainId = newChainId();
+    const id = parseChunkId(formatChunkId({ chainId, index: 4, count: 9 }));
+    expect(id).toEqual({ chainId, index: 4, count: 9 });
+  });
+
+  it('rejects fields that are not chunk IDs', () => {
+    expect(() => formatChunkId({ chainId: newChainId(), index: 2, count: 2 })).toThrow();
+    expect(() => parseChunkId('0field')).toThrow();
+    expect(() => parseChunkId(`${FIELD_MODULUS - BigInt(1)}field`)).toThrow();
+  });
+
+  it('assembles complete payloads in index order and counts incomplete ones', () => {
+    const payload = crypto.randomBytes(150);
+    const chunks = encodeChunks(payload, 2);
+    const chainId = newChainId();
+
+    const parts = chunks.map((fields, index) => ({
+      chunkId: formatChunkId({ chainId, index, count: chunks.length }),
+      fields,
+    })).reverse();
+
+    const partial = newChainId();
+    parts.push({ chunkId: formatChunkId({ chainId: partial, index: 0, count: 2 }), fields: chunks[0] });
+    parts.push({ chunkId: '0field', fields: chunks[0] });
+
+    const { payloads, incomplete } = assembleChunks(parts);
+    expect(payloads).toHaveLength(1);
+    expect(payloads[0].chainId).toBe(chainId);
+    expect(payloads[0].payload.equals(payload)).toBe(true);
+    expect(incomplete).toBe(1);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Adblock Plus filter list tests
+ * Run with: npm test (after setting up testing environment)
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { parseFilterList, FilterMatcher } from '../filter-list';
+
+const LIST = `[Adblock Plus 2.0]
+! Title: Test list
+! Expires: 4 days
+example.com##.banner
+||ads.example.com^
+||tracker.net^$third-party
+/pixel.gif$image
+||cdn.example.org/ad/*$script,domain=news.com|~sports.news.com
+@@||ads.example.com/allowed^
+||evil.com^$important
+@@||evil.com^
+@@||trusted.org^$document
+||unsupported.com^$rewrite=abp-resource:blank-js
+`;
+
+const matcherFor = (text: string) => new FilterMatcher(parseFilterList(text, 'test').filters);
+
+describe('Filter list parsing', () => {
+  it('reads the title and keeps comments, headers, element hiding and unsupported rules out of the network filters', () => {
+    const parsed = parseFilterList(LIST, 'test');
+    expect(parsed.title).toBe('Test list');
+    expect(parsed.filters.map((f) => f.text)).not.toContain('example.com##.banner');
+    expect(parsed.filters.some((f) => f.text.includes('unsupported.com'))).toBe(false);
+    expect(parsed.skipped).toBeGreaterThan(0);
+  });
+});
+
+describe('Filter matching', () => {
+  const matcher = matcherFor(LIST);
+
+  it('blocks domain-anchored rules on the domain and its subdomains only', () => {
+    expect(matcher.match({ url: 'https://ads.example.com/x.js', type: 'script' })).not.toBeNull();
+    expect(matcher.match({ url: 'https://www.ads.example.com/', type: 'other' })).not.toBeNull();
+    expect(matcher.match({ url: 'https://badads.example.com/', type: 'other' })).toBeNull();
+  });
+
+  it('honours $third-party', () => {
+    const url = 'https://tracker.net/t.js';
+    expect(matcher.match({ url, type: 'script', sourceUrl: 'https://site.com/' })).not.toBeNull();
+    expect(matcher.match({ url, type: 'script', sourceUrl: 'https://www.tracker.net/' })).toBeNull();
+  });
+
+  it('honours resource types', () => {
+    expect(matcher.match({ url: 'https://a.com/pixel.gif', type: 'image' })).not.toBeNull();
+    expect(matcher.match({ url: 'https://a.com/pixel.gif', type: 'script' })).toBeNull();
+  });
+
+  it('honours $domain with exclusions', () => {
+    const url = 'https://cdn.example.org/ad/1.js';
+    expect(matcher.match({ url, type: 'script', sourceUrl: 'https://news.com/' })).not.toBeNull();
+    expect(matcher.match({ url, type: 'script', sourceUrl: 'https://sports.news.com/' })).toBeNull();
+    expect(matcher.match({ url, type: 'script', sourceUrl: 'https://other.com/' })).toBeNull();
+  });
+
+  it('lets exceptions override blocks unless the block is $important', () => {
+    expect(matcher.match({ url: 'https://ads.example.com/allowed', type: 'script' })).toBeNull();
+    expect(matcher.match({ url: 'https://evil.com/x.js', type: 'script' })).not.toBeNull();
+  });
+
+  it('allows everything on pages with a $document exception', () => {
+    const request = { url: 'https://ads.example.com/x.js', type: 'script' as const, sourceUrl: 'https://trusted.org/' };
+    expect(matcher.match(request)).toBeNull();
+  });
+
+  it('only blocks with accepted lists', () => {
+    const request = { url: 'https://ads.example.com/x.js', type: 'script' as const };
+    expect(matcher.match(request, (listId) => listId !== 'test')).toBeNull();
+    expect(matcher.match(request, (listId) => listId === 'test')?.listId).toBe('test');
+  });
+});
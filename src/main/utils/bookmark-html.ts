@@ -0,0 +1,192 @@
+/**
+ * Netscape bookmark file format
+ * The HTML format Chrome, Firefox, Safari and Edge use to import and export
+ * bookmarks: nested `<DL>` lists where `<H3>` starts a folder and `<A>` is a
+ * bookmark. Parsing is tolerant of the unclosed `<DT>` and `<p>` tags these
+ * files contain.
+ */
+
+export interface BookmarkTreeFolder {
+  type: 'folder';
+  name: string;
+  addDate?: number; // ms since epoch
+  // Browser root folders, mapped onto our default folders on import
+  role?: 'toolbar' | 'other';
+  children: BookmarkTreeNode[];
+}
+
+export interface BookmarkTreeLink {
+  type: 'bookmark';
+  url: string;
+  title: string;
+  addDate?: number; // ms since epoch
+  tags?: string[];
+  icon?: string;
+  isFavorite?: boolean;
+}
+
+export type BookmarkTreeNode = BookmarkTreeFolder | BookmarkTreeLink;
+
+const TAG_PATTERN = /<(\/?)(dl|h3|a)\b([^>]*)>/gi;
+const ATTRIBUTE_PATTERN = /([a-z_:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi;
+
+/**
+ * Parse a Netscape bookmark file into a folder tree
+ */
+export function parseNetscapeBookmarks(html: string): BookmarkTreeNode[] {
+  if (!/<dl\b/i.test(html)) {
+    throw new Error('Not a Netscape bookmark file');
+  }
+
+  const root: BookmarkTreeNode[] = [];
+  const stack: BookmarkTreeNode[][] = [];
+  let current = root;
+  let lastFolder: BookmarkTreeFolder | null = null;
+
+  TAG_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = TAG_PATTERN.exec(html)) !== null) {
+    const [, closing, tag, rawAttributes] = match;
+    const name = tag.toLowerCase();
+
+    if (name === 'dl') {
+      if (closing) {
+        current = stack.pop() || root;
+      } else {
+        // A list opens the folder whose heading came just before it
+        stack.push(current);
+        current = lastFolder ? lastFolder.children : current;
+        lastFolder = null;
+      }
+      continue;
+    }
+
+    if (closing) {
+      continue;
+    }
+
+    const attributes = parseAttributes(rawAttributes);
+    const end = html.toLowerCase().indexOf(`</${name}>`, TAG_PATTERN.lastIndex);
+    const text = decodeEntities(stripTags(html.slice(TAG_PATTERN.lastIndex, end === -1 ? undefined : end))).trim();
+    if (end !== -1) {
+      TAG_PATTERN.lastIndex = end + name.length + 3;
+    }
+
+    if (name === 'h3') {
+      const folder: BookmarkTreeFolder = {
+        type: 'folder',
+        name: text || 'Untitled folder',
+        addDate: parseDate(attributes.add_date),
+        role: attributes.personal_toolbar_folder === 'true'
+          ? 'toolbar'
+          : attributes.unfiled_bookmarks_folder === 'true' ? 'other' : undefined,
+        children: []
+      };
+      current.push(folder);
+      lastFolder = folder;
+    } else if (attributes.href) {
+      const tags = attributes.tags?.split(',').map(t => t.trim()).filter(Boolean);
+      current.push({
+        type: 'bookmark',
+        url: attributes.href,
+        title: text || attributes.href,
+        addDate: parseDate(attributes.add_date),
+        tags: tags?.length ? tags : undefined,
+        icon: attributes.icon
+      });
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Write a folder tree as a Netscape bookmark file
+ */
+export function serializeNetscapeBookmarks(nodes: BookmarkTreeNode[]): string {
+  const lines = [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file.',
+    '     It will be read and overwritten.',
+    '     DO NOT EDIT! -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    '<H1>Bookmarks</H1>',
+    '<DL><p>'
+  ];
+
+  const write = (children: BookmarkTreeNode[], depth: number) => {
+    const indent = '    '.repeat(depth);
+
+    for (const node of children) {
+      if (node.type === 'folder') {
+        const attributes = [
+          formatDate('ADD_DATE', node.addDate),
+          node.role === 'toolbar' ? 'PERSONAL_TOOLBAR_FOLDER="true"' : '',
+          node.role === 'other' ? 'UNFILED_BOOKMARKS_FOLDER="true"' : ''
+        ].filter(Boolean).join(' ');
+
+        lines.push(`${indent}<DT><H3${attributes ? ' ' + attributes : ''}>${encodeEntities(node.name)}</H3>`);
+        lines.push(`${indent}<DL><p>`);
+        write(node.children, depth + 1);
+        lines.push(`${indent}</DL><p>`);
+      } else {
+        const attributes = [
+          `HREF="${encodeEntities(node.url)}"`,
+          formatDate('ADD_DATE', node.addDate),
+          node.icon?.startsWith('data:') ? `ICON="${encodeEntities(node.icon)}"` : '',
+          node.tags?.length ? `TAGS="${encodeEntities(node.tags.join(','))}"` : ''
+        ].filter(Boolean).join(' ');
+
+        lines.push(`${indent}<DT><A ${attributes}>${encodeEntities(node.title)}</A>`);
+      }
+    }
+  };
+
+  write(nodes, 1);
+  lines.push('</DL><p>');
+  return lines.join('\n') + '\n';
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE_PATTERN.exec(raw)) !== null) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+// ADD_DATE is in seconds
+function parseDate(value?: string): number | undefined {
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+}
+
+function formatDate(name: string, ms?: number): string {
+  return ms ? `${name}="${Math.floor(ms / 1000)}"` : '';
+}
+
+function stripTags(text: string): string {
+  return text.replace(/<[^>]*>/g, '');
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos|nbsp);/gi, (entity, code: string) => {
+    const lower = code.toLowerCase();
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }[lower] ?? entity;
+  });
+}
+
+function encodeEntities(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,207 @@
+/**
+ * Adblock Plus / uBlock Origin element hiding rules
+ * `##selector` hides matching elements, `#@#selector` stops a selector from
+ * hiding, and either may be limited to sites (`example.com,~shop.example.com##.ad`).
+ * Pages get the rules as a user stylesheet, so elements added later are
+ * hidden too.
+ *
+ * Procedural rules (`#?#`, `:has-text()`, `:upward()`, ...), snippets (`#$#`,
+ * `##+js()`) and HTML filters (`##^`) need a content script and are skipped,
+ * as are rules for `example.*` entity domains.
+ */
+
+export interface CosmeticFilter {
+  text: string;           // Rule as written in the list
+  listId: string;
+  selector: string;
+  exception: boolean;
+  domains: string[];      // Only on pages of these domains
+  excludedDomains: string[];
+}
+
+export interface PageSelectors {
+  hide: string[];         // Site-specific selectors to hide, exceptions applied
+  unhide: string[];       // Selectors excepted on this site, which may be generic
+}
+
+const SEPARATOR_PATTERN = /^(.*?)(#@?[?$%]?#)(.*)$/;
+
+// Extended syntax that is not CSS
+const PROCEDURAL_PATTERN = /:(?:-abp-[\w-]+|has-text|contains|upward|xpath|matches-[\w-]+|min-text-length|style|remove(?:-attr|-class)?|watch-attrs?|others|if(?:-not)?|nth-ancestor|shadow|spath)\(/i;
+
+const HIDING_DECLARATION = '{display:none !important;}';
+
+/**
+ * Parse one element hiding rule, or return null if it cannot be applied
+ */
+export function parseCosmeticFilter(line: string, listId: string): CosmeticFilter | null {
+  const parts = SEPARATOR_PATTERN.exec(line);
+  if (!parts || (parts[2] !== '##' && parts[2] !== '#@#')) {
+    return null;
+  }
+
+  const selector = parts[3].trim();
+  if (!isPlainSelector(selector)) {
+    return null;
+  }
+
+  const filter: CosmeticFilter = {
+    text: line,
+    listId,
+    selector,
+    exception: parts[2] === '#@#',
+    domains: [],
+    excludedDomains: []
+  };
+
+  for (const entry of parts[1].toLowerCase().split(',')) {
+    const domain = entry.trim();
+    if (!domain) {
+      continue;
+    }
+    if (domain.includes('*') || domain.includes('/')) {
+      return null;
+    }
+    if (domain.startsWith('~')) {
+      filter.excludedDomains.push(domain.slice(1));
+    } else {
+      filter.domains.push(domain);
+    }
+  }
+
+  return filter;
+}
+
+/**
+ * Whether a selector can go into a stylesheet as is. Braces and comments are
+ * refused so a rule cannot end its own declaration block and style the page.
+ */
+export function isPlainSelector(selector: string): boolean {
+  return !!selector &&
+    selector.length <= 1000 &&
+    !/[{}\r\n]|\/\*/.test(selector) &&
+    !selector.startsWith('+js(') &&
+    !selector.startsWith('^') &&
+    !PROCEDURAL_PATTERN.test(selector);
+}
+
+/**
+ * Stylesheet that hides the given selectors. Each selector gets its own rule,
+ * so one the browser does not support only drops itself.
+ */
+export function hidingStylesheet(selectors: string[]): string {
+  return selectors.map(selector => `${selector}${HIDING_DECLARATION}`).join('\n');
+}
+
+/**
+ * Compiled element hiding rules of one or more filter lists
+ */
+export class CosmeticMatcher {
+  private generic: CosmeticFilter[] = [];                          // Every site
+  private excepting: CosmeticFilter[] = [];                        // Every site but some
+  private scoped = new Map<string, CosmeticFilter[]>();            // By included domain
+  private globalExceptions = new Set<string>();
+  private scopedExceptions = new Map<string, CosmeticFilter[]>();  // By included domain
+  private count = 0;
+
+  constructor(filters: CosmeticFilter[] = []) {
+    for (const filter of filters) {
+      this.add(filter);
+    }
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  add(filter: CosmeticFilter): void {
+    this.count++;
+
+    if (filter.exception) {
+      if (filter.domains.length) {
+        addToIndex(this.scopedExceptions, filter);
+      } else if (!filter.excludedDomains.length) {
+        this.globalExceptions.add(filter.selector);
+      }
+      return;
+    }
+
+    if (filter.domains.length) {
+      addToIndex(this.scoped, filter);
+    } else if (filter.excludedDomains.length) {
+      this.excepting.push(filter);
+    } else {
+      this.generic.push(filter);
+    }
+  }
+
+  /**
+   * Selectors hidden on every site, the same for all pages so callers can
+   * build their stylesheet once
+   * @param accept - Whether rules of a list may hide (exceptions always apply)
+   */
+  genericSelectors(accept?: (listId: string) => boolean): string[] {
+    const selectors = new Set<string>();
+    for (const filter of this.generic) {
+      if ((!accept || accept(filter.listId)) && !this.globalExceptions.has(filter.selector)) {
+        selectors.add(filter.selector);
+      }
+    }
+    return [...selectors];
+  }
+
+  /**
+   * Selectors for one site on top of the generic ones
+   */
+  pageSelectors(hostname: string, accept?: (listId: string) => boolean): PageSelectors {
+    const host = hostname.toLowerCase();
+    const applies = (filter: CosmeticFilter) =>
+      !filter.excludedDomains.some(domain => isSubdomain(host, domain)) &&
+      (!filter.domains.length || filter.domains.some(domain => isSubdomain(host, domain)));
+
+    const unhide = new Set<string>();
+    const hide = new Set<string>();
+    const candidates: CosmeticFilter[] = [...this.excepting];
+
+    for (const domain of parentDomains(host)) {
+      for (const filter of this.scopedExceptions.get(domain) || []) {
+        if (applies(filter)) {
+          unhide.add(filter.selector);
+        }
+      }
+      candidates.push(...(this.scoped.get(domain) || []));
+    }
+
+    for (const filter of candidates) {
+      if ((!accept || accept(filter.listId)) && applies(filter) &&
+          !unhide.has(filter.selector) && !this.globalExceptions.has(filter.selector)) {
+        hide.add(filter.selector);
+      }
+    }
+
+    return { hide: [...hide], unhide: [...unhide] };
+  }
+}
+
+function addToIndex(index: Map<string, CosmeticFilter[]>, filter: CosmeticFilter): void {
+  for (const domain of filter.domains) {
+    const bucket = index.get(domain);
+    if (bucket) {
+      bucket.push(filter);
+    } else {
+      index.set(domain, [filter]);
+    }
+  }
+}
+
+/**
+ * a.b.example.com -> a.b.example.com, b.example.com, example.com, com
+ */
+function parentDomains(hostname: string): string[] {
+  const labels = hostname.split('.');
+  return labels.map((_label, i) => labels.slice(i).join('.'));
+}
+
+function isSubdomain(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
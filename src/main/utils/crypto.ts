@@ -57,28 +57,39 @@ export function encrypt(plaintext: string, password: string): EncryptedData {
     const salt = generateSalt();
     const key = deriveKey(password, salt);
 
-    // Generate IV
-    const iv = generateIV();
+    return encryptWithKey(plaintext, key, salt);
+  } catch (error) {
+    throw new Error(`Encryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
 
-    // Create cipher
-    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+/**
+ * Encrypt data using AES-256-GCM with an already derived key
+ * @param plaintext - The data to encrypt
+ * @param key - Key previously derived with deriveKey()
+ * @param salt - The salt the key was derived from, so decrypt() still works with the password
+ * @returns Encrypted data with IV, auth tag, and salt
+ */
+export function encryptWithKey(plaintext: string, key: Buffer, salt: Buffer): EncryptedData {
+  // Generate IV
+  const iv = generateIV();
 
-    // Encrypt data
-    let encrypted = cipher.update(plaintext, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
+  // Create cipher
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
 
-    // Get authentication tag
-    const authTag = cipher.getAuthTag();
+  // Encrypt data
+  let encrypted = cipher.update(plaintext, 'utf8', 'hex');
+  encrypted += cipher.final('hex');
 
-    return {
-      encrypted,
-      iv: iv.toString('hex'),
-      authTag: authTag.toString('hex'),
-      salt: salt.toString('hex')
-    };
-  } catch (error) {
-    throw new Error(`Encryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
+  // Get authentication tag
+  const authTag = cipher.getAuthTag();
+
+  return {
+    encrypted,
+    iv: iv.toString('hex'),
+    authTag: authTag.toString('hex'),
+    salt: salt.toString('hex')
+  };
 }
 
 /**
@@ -89,28 +100,72 @@ export function encrypt(plaintext: string, password: string): EncryptedData {
  */
 export function decrypt(encryptedData: EncryptedData, password: string): string {
   try {
-    // Convert hex strings back to buffers
-    const salt = Buffer.from(encryptedData.salt, 'hex');
-    const iv = Buffer.from(encryptedData.iv, 'hex');
-    const authTag = Buffer.from(encryptedData.authTag, 'hex');
-
     // Derive key using the same salt
+    const salt = Buffer.from(encryptedData.salt, 'hex');
     const key = deriveKey(password, salt);
 
-    // Create decipher
-    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-    decipher.setAuthTag(authTag);
-
-    // Decrypt data
-    let decrypted = decipher.update(encryptedData.encrypted, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
-
-    return decrypted;
+    return decryptWithKey(encryptedData, key);
   } catch (error) {
     throw new Error(`Decryption failed: ${error instanceof Error ? error.message : 'Invalid password or corrupted data'}`);
   }
 }
 
+/**
+ * Decrypt data using AES-256-GCM with an already derived key
+ * Throws if the key is wrong, since the auth tag will not verify
+ * @param encryptedData - The encrypted data object
+ * @param key - The key the data was encrypted with
+ * @returns Decrypted plaintext
+ */
+export function decryptWithKey(encryptedData: EncryptedData, key: Buffer): string {
+  // Convert hex strings back to buffers
+  const iv = Buffer.from(encryptedData.iv, 'hex');
+  const authTag = Buffer.from(encryptedData.authTag, 'hex');
+
+  // Create decipher
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(authTag);
+
+  // Decrypt data
+  let decrypted = decipher.update(encryptedData.encrypted, 'hex', 'utf8');
+  decrypted += decipher.final('utf8');
+
+  return decrypted;
+}
+
+/**
+ * Encrypt raw bytes using AES-256-GCM into a single compact buffer
+ * Used for payloads stored on-chain, where every byte costs a field
+ * @param plaintext - The bytes to encrypt
+ * @param key - 256-bit key
+ * @returns [iv][auth tag][ciphertext]
+ */
+export function encryptBytes(plaintext: Buffer, key: Buffer): Buffer {
+  const iv = generateIV();
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+/**
+ * Decrypt a buffer produced by encryptBytes()
+ * Throws if the key is wrong or the data was modified
+ * @param sealed - [iv][auth tag][ciphertext]
+ * @param key - The key the data was encrypted with
+ * @returns Decrypted bytes
+ */
+export function decryptBytes(sealed: Buffer, key: Buffer): Buffer {
+  if (sealed.length < IV_LENGTH + AUTH_TAG_LENGTH) {
+    throw new Error('Encrypted payload is too short');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, sealed.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(sealed.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH));
+
+  return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + AUTH_TAG_LENGTH)), decipher.final()]);
+}
+
 /**
  * Hash a password using SHA-256
  * @param password - The password to hash
@@ -129,6 +184,51 @@ export function generateRandomString(length: number = 32): string {
   return crypto.randomBytes(length).toString('hex');
 }
 
+const PASSWORD_CHARSETS = {
+  uppercase: 'ABCDEFGHJKLMNPQRSTUVWXYZ',
+  lowercase: 'abcdefghijkmnopqrstuvwxyz',
+  numbers: '23456789',
+  symbols: '!@#$%^&*()-_=+[]{};:,.?'
+};
+
+/**
+ * Generate a random password containing at least one character of every
+ * enabled class. Look-alike characters (0/O, 1/l/I) are left out.
+ * @param options - Length (8-128, default 20) and character classes (all on by default)
+ * @returns Generated password
+ */
+export function generatePassword(options: {
+  length?: number;
+  uppercase?: boolean;
+  lowercase?: boolean;
+  numbers?: boolean;
+  symbols?: boolean;
+} = {}): string {
+  const length = Math.min(Math.max(Math.floor(options.length ?? 20), 8), 128);
+  const classes = (Object.keys(PASSWORD_CHARSETS) as Array<keyof typeof PASSWORD_CHARSETS>)
+    .filter(name => options[name] !== false)
+    .map(name => PASSWORD_CHARSETS[name]);
+
+  if (classes.length === 0) {
+    throw new Error('At least one character class must be enabled');
+  }
+
+  // One character from each class, the rest from the combined alphabet
+  const alphabet = classes.join('');
+  const chars = classes.map(charset => charset[crypto.randomInt(charset.length)]);
+  while (chars.length < length) {
+    chars.push(alphabet[crypto.randomInt(alphabet.length)]);
+  }
+
+  // Fisher-Yates shuffle so the guaranteed characters are not always first
+  for (let i = chars.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [chars[i], chars[j]] = [chars[j], chars[i]];
+  }
+
+  return chars.join('');
+}
+
 /**
  * Verify password strength
  * @param password - Password to verify
@@ -0,0 +1,72 @@
+/**
+ * Filter rules built into the browser, so ads and trackers are blocked before
+ * any list has been downloaded and when downloads fail
+ */
+
+export const DEFAULT_FILTERS: Record<'ads' | 'trackers' | 'fingerprinting', string> = {
+  ads: `! Title: Aleo Shields ads
+||googlesyndication.com^
+||googleadservices.com^
+||amazon-adsystem.com^
+||adnxs.com^
+||rubiconproject.com^
+||pubmatic.com^$third-party
+||taboola.com^$third-party
+||outbrain.com^$third-party
+||media.net^$third-party
+||criteo.com^$third-party
+/pagead/*
+adsbygoogle
+://ads.*$third-party
+://adservice.*$third-party
+://adserver.*$third-party
+://adsystem.*$third-party
+://adtech.*$third-party
+/ads/*$third-party
+/ad/*$third-party
+/banner*$third-party,image
+/adframe*
+/adimage*
+##ins.adsbygoogle
+##.adsbygoogle
+##div[id^="google_ads_iframe"]
+##div[id^="div-gpt-ad"]
+##iframe[src*="googlesyndication.com"]
+##.taboola-container
+##.OUTBRAIN
+`,
+
+  trackers: `! Title: Aleo Shields trackers
+||google-analytics.com^
+||googletagmanager.com^
+||analytics.google.com^
+||doubleclick.net^
+||facebook.com/tr
+||facebook.net^$third-party
+||mixpanel.com^$third-party
+||segment.io^
+||cdn.segment.com^$third-party
+||api.segment.io^
+||amplitude.com^$third-party
+||hotjar.com^$third-party
+||crazyegg.com^$third-party
+||mouseflow.com^$third-party
+||fullstory.com^$third-party
+||twitter.com/i/adsct
+||linkedin.com/px
+||pinterest.com/ct
+||snap.licdn.com^
+||platform.twitter.com^$third-party
+`,
+
+  fingerprinting: `! Title: Aleo Shields fingerprinting
+||fpjs.io^$third-party
+||fpcdn.io^$third-party
+||openfpcdn.io^$third-party
+fingerprint$script,xmlhttprequest,third-party
+://fp.*$third-party
+://device-id.*$third-party
+://clientid.*$third-party
+://visitorid.*$third-party
+`
+};
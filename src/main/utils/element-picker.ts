@@ -0,0 +1,127 @@
+/**
+ * Element picker for Shields: highlights the element under the pointer and
+ * resolves with a CSS selector for the one clicked, or null on Escape.
+ * Runs in an isolated world and ignores events the page dispatches itself, so
+ * page scripts cannot pick for the user. The overlay and hint are part of the
+ * page's DOM, so the page can still see that a pick is in progress.
+ *
+ * ArrowUp widens the pick to the parent element and ArrowDown narrows it back.
+ */
+
+export const ELEMENT_PICKER_SCRIPT = `new Promise((resolve) => {
+  const root = document.documentElement;
+  if (!root || window.__aleoElementPicker) {
+    resolve(null);
+    return;
+  }
+  window.__aleoElementPicker = true;
+
+  const overlay = document.createElement('div');
+  overlay.style.cssText = 'position:fixed;z-index:2147483647;pointer-events:none;background:rgba(0,212,170,0.2);border:2px solid #00d4aa;border-radius:2px;display:none;';
+  const hint = document.createElement('div');
+  hint.style.cssText = 'position:fixed;z-index:2147483647;top:12px;left:50%;transform:translateX(-50%);pointer-events:none;padding:6px 12px;border-radius:6px;background:#111118;color:#e4e4e7;font:13px system-ui,sans-serif;box-shadow:0 4px 12px rgba(0,0,0,0.4);';
+  hint.textContent = 'Click an element to hide it on this site \\u00b7 \\u2191 select parent \\u00b7 Esc to cancel';
+  root.appendChild(overlay);
+  root.appendChild(hint);
+
+  let target = null;
+  const trail = [];
+
+  const highlight = (element) => {
+    target = element;
+    const rect = element.getBoundingClientRect();
+    overlay.style.display = 'block';
+    overlay.style.left = rect.left + 'px';
+    overlay.style.top = rect.top + 'px';
+    overlay.style.width = rect.width + 'px';
+    overlay.style.height = rect.height + 'px';
+  };
+
+  // Ids and classes with long digit runs are usually generated per page view
+  const stable = (name) => !/\\d{3,}/.test(name);
+
+  const selectorFor = (element) => {
+    const parts = [];
+    for (let node = element; node && node !== document.body && node !== root; node = node.parentElement) {
+      if (node.id && stable(node.id)) {
+        parts.unshift('#' + CSS.escape(node.id));
+        if (document.querySelectorAll(parts.join(' > ')).length === 1) {
+          return parts.join(' > ');
+        }
+        parts.shift();
+      }
+
+      let part = node.localName + [...node.classList].filter(stable).slice(0, 3).map((c) => '.' + CSS.escape(c)).join('');
+      const siblings = node.parentElement ? [...node.parentElement.children].filter((c) => c.localName === node.localName) : [];
+      if (siblings.length > 1 && node.parentElement.querySelectorAll(':scope > ' + part).length > 1) {
+        part += ':nth-of-type(' + (siblings.indexOf(node) + 1) + ')';
+      }
+      parts.unshift(part);
+
+      const selector = parts.join(' > ');
+      if (document.querySelectorAll(selector).length === 1) {
+        return selector;
+      }
+    }
+    return parts.join(' > ') || null;
+  };
+
+  const block = (event) => {
+    event.preventDefault();
+    event.stopImmediatePropagation();
+  };
+
+  const finish = (selector) => {
+    window.removeEventListener('mousemove', onMove, true);
+    window.removeEventListener('click', onClick, true);
+    window.removeEventListener('keydown', onKey, true);
+    ['mousedown', 'mouseup', 'pointerdown', 'pointerup', 'auxclick', 'contextmenu'].forEach((type) => window.removeEventListener(type, block, true));
+    overlay.remove();
+    hint.remove();
+    delete window.__aleoElementPicker;
+    resolve(selector);
+  };
+
+  const onMove = (event) => {
+    if (!event.isTrusted) {
+      return;
+    }
+    const element = document.elementFromPoint(event.clientX, event.clientY);
+    if (element && element !== root && element !== document.body) {
+      trail.length = 0;
+      highlight(element);
+    }
+  };
+
+  const onClick = (event) => {
+    if (!event.isTrusted) {
+      return;
+    }
+    block(event);
+    if (target) {
+      finish(selectorFor(target));
+    }
+  };
+
+  const onKey = (event) => {
+    if (!event.isTrusted) {
+      return;
+    }
+    if (event.key === 'Escape') {
+      block(event);
+      finish(null);
+    } else if (event.key === 'ArrowUp' && target && target.parentElement && target.parentElement !== document.body && target.parentElement !== root) {
+      block(event);
+      trail.push(target);
+      highlight(target.parentElement);
+    } else if (event.key === 'ArrowDown' && trail.length) {
+      block(event);
+      highlight(trail.pop());
+    }
+  };
+
+  window.addEventListener('mousemove', onMove, true);
+  window.addEventListener('click', onClick, true);
+  window.addEventListener('keydown', onKey, true);
+  ['mousedown', 'mouseup', 'pointerdown', 'pointerup', 'auxclick', 'contextmenu'].forEach((type) => window.addEventListener(type, block, true));
+})`;
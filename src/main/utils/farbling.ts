@@ -0,0 +1,311 @@
+/**
+ * Fingerprinting protection for Shields, after Brave's "farbling": instead of
+ * blocking fingerprinting APIs, their results get a little noise that is the
+ * same for a site throughout a browser session, so pages keep working while a
+ * fingerprint taken on one site (or in the next session) no longer matches.
+ *
+ * - Canvas: image data read back from 2D and WebGL canvases has the lowest bit
+ *   of a few channels flipped, and so do toDataURL, toBlob and convertToBlob
+ * - WebGL: the unmasked vendor and renderer report the masked values
+ * - Audio: sample data and analyser output are scaled by a tiny factor
+ * - navigator: hardwareConcurrency is lowered to a value between 2 and the real
+ *   count, deviceMemory reports 8
+ * - Fonts: queryLocalFonts is refused and text measured on a canvas gets noise
+ *   keyed on the font, so probing cannot tell an installed font from a fallback
+ *
+ * Strict mode flips more canvas pixels, adds noise per audio sample, hides the
+ * WEBGL_debug_renderer_info extension and lowers WebGL shader limits, reports 4
+ * cores, one language, low-entropy client hints only and a screen without
+ * taskbars. Same-origin frames are patched when the page first reaches into
+ * them. Cross-origin frames, workers, and fonts probed by measuring DOM
+ * elements are not covered.
+ */
+
+import crypto from 'crypto';
+import { baseDomain } from './filter-list';
+
+export type FarblingLevel = 'off' | 'standard' | 'strict';
+
+/**
+ * Seed for a site: the same for all pages of a registrable domain under one
+ * session key, unrelated across sites and sessions
+ */
+export function farblingSeed(sessionKey: Buffer, hostname: string): number {
+  return crypto.createHmac('sha256', sessionKey)
+    .update(baseDomain(hostname.toLowerCase()))
+    .digest()
+    .readUInt32LE(0);
+}
+
+/**
+ * Script that installs the protection in the page's main world. It must run
+ * before any page script.
+ */
+export function farblingScript(level: Exclude<FarblingLevel, 'off'>, seed: number): string {
+  return `(${FARBLING_SOURCE})(window, ${JSON.stringify(level)}, ${seed >>> 0});`;
+}
+
+const FARBLING_SOURCE = `function (page, level, seed) {
+  'use strict';
+  const strict = level === 'strict';
+
+  // FNV-1a over a label, keyed by the site seed
+  const hash = (label) => {
+    let h = (seed ^ 0x811c9dc5) >>> 0;
+    for (let i = 0; i < label.length; i++) {
+      h = Math.imul(h ^ label.charCodeAt(i), 16777619) >>> 0;
+    }
+    return h;
+  };
+
+  // mulberry32: deterministic numbers in [0, 1) for a label
+  const random = (label) => {
+    let state = hash(label);
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = Math.imul(state ^ (state >>> 15), state | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  };
+
+  // Wrapping in a Proxy keeps the function's name, length and native toString
+  const hook = (target, name, wrap) => {
+    const original = target && target[name];
+    if (typeof original === 'function') {
+      target[name] = new Proxy(original, { apply: (fn, self, args) => wrap(fn, self, args) });
+    }
+  };
+
+  const hookGetter = (target, name, wrap) => {
+    const descriptor = target && Object.getOwnPropertyDescriptor(target, name);
+    if (descriptor && descriptor.get) {
+      Object.defineProperty(target, name, {
+        ...descriptor,
+        get: new Proxy(descriptor.get, { apply: (fn, self, args) => wrap(Reflect.apply(fn, self, args), self) })
+      });
+    }
+  };
+
+  // Flip the lowest bit of a colour channel at pixels picked by size, so the
+  // same drawing reads back the same on every call
+  const farblePixels = (data, width, height) => {
+    const pixels = Math.min(width * height, Math.floor(data.length / 4));
+    if (!pixels) {
+      return;
+    }
+    const next = random('canvas:' + width + 'x' + height);
+    const count = strict ? Math.min(Math.ceil(pixels / 16), 100000) : Math.min(pixels, 32);
+    for (let i = 0; i < count; i++) {
+      const index = Math.floor(next() * pixels) * 4 + Math.floor(next() * 3);
+      data[index] ^= 1;
+    }
+  };
+
+  const audioFudge = 1 - 1e-5 * (1 + random('audio')());
+  const farbledAudio = new WeakSet();
+
+  const farbleSamples = (data) => {
+    if (farbledAudio.has(data)) {
+      return;
+    }
+    farbledAudio.add(data);
+    if (strict) {
+      const next = random('audio:' + data.length);
+      for (let i = 0; i < data.length; i++) {
+        data[i] *= 1 + (next() - 0.5) * 2e-4;
+      }
+    } else {
+      for (let i = 0; i < data.length; i++) {
+        data[i] *= audioFudge;
+      }
+    }
+  };
+
+  const patched = new WeakSet();
+
+  const patch = (win) => {
+    if (!win || patched.has(win)) {
+      return;
+    }
+    patched.add(win);
+
+    // Canvas readback
+    const getImageData = win.CanvasRenderingContext2D && win.CanvasRenderingContext2D.prototype.getImageData;
+    [win.CanvasRenderingContext2D, win.OffscreenCanvasRenderingContext2D].forEach((context) => {
+      hook(context && context.prototype, 'getImageData', (fn, self, args) => {
+        const image = Reflect.apply(fn, self, args);
+        farblePixels(image.data, image.width, image.height);
+        return image;
+      });
+    });
+
+    // Copy a canvas through the farbled pixels; null if it cannot be read
+    const farbledCopy = (canvas, copy) => {
+      try {
+        if (!canvas.width || !canvas.height || !getImageData) {
+          return null;
+        }
+        copy.width = canvas.width;
+        copy.height = canvas.height;
+        const context = copy.getContext('2d');
+        context.drawImage(canvas, 0, 0);
+        const image = Reflect.apply(getImageData, context, [0, 0, copy.width, copy.height]);
+        farblePixels(image.data, image.width, image.height);
+        context.putImageData(image, 0, 0);
+        return copy;
+      } catch (error) {
+        return null;
+      }
+    };
+
+    ['toDataURL', 'toBlob'].forEach((name) => {
+      hook(win.HTMLCanvasElement && win.HTMLCanvasElement.prototype, name, (fn, self, args) => {
+        const copy = farbledCopy(self, win.document.createElement('canvas'));
+        return Reflect.apply(fn, copy || self, args);
+      });
+    });
+
+    hook(win.OffscreenCanvas && win.OffscreenCanvas.prototype, 'convertToBlob', (fn, self, args) => {
+      const copy = farbledCopy(self, new win.OffscreenCanvas(1, 1));
+      return Reflect.apply(fn, copy || self, args);
+    });
+
+    // WebGL
+    const UNMASKED_VENDOR = 0x9245;
+    const UNMASKED_RENDERER = 0x9246;
+    const VENDOR = 0x1f00;
+    const RENDERER = 0x1f01;
+    const SHADER_LIMITS = [0x8dfb, 0x8dfc, 0x8dfd]; // Vertex uniform, varying and fragment uniform vectors
+
+    [win.WebGLRenderingContext, win.WebGL2RenderingContext].forEach((context) => {
+      const proto = context && context.prototype;
+
+      hook(proto, 'readPixels', (fn, self, args) => {
+        const result = Reflect.apply(fn, self, args);
+        if (args[6] instanceof win.Uint8Array) {
+          farblePixels(args[6], args[2], args[3]);
+        }
+        return result;
+      });
+
+      hook(proto, 'getParameter', (fn, self, args) => {
+        const name = args[0];
+        if (name === UNMASKED_VENDOR || name === UNMASKED_RENDERER) {
+          return Reflect.apply(fn, self, [name === UNMASKED_VENDOR ? VENDOR : RENDERER]);
+        }
+        const value = Reflect.apply(fn, self, args);
+        if (strict && SHADER_LIMITS.includes(name) && typeof value === 'number') {
+          return value - (hash('webgl:' + name) % 4);
+        }
+        return value;
+      });
+
+      if (strict) {
+        hook(proto, 'getSupportedExtensions', (fn, self, args) => {
+          const extensions = Reflect.apply(fn, self, args);
+          return extensions && extensions.filter((extension) => extension !== 'WEBGL_debug_renderer_info');
+        });
+        hook(proto, 'getExtension', (fn, self, args) =>
+          String(args[0]).toLowerCase() === 'webgl_debug_renderer_info' ? null : Reflect.apply(fn, self, args));
+      }
+    });
+
+    // Audio
+    const audioBuffer = win.AudioBuffer && win.AudioBuffer.prototype;
+    hook(audioBuffer, 'getChannelData', (fn, self, args) => {
+      const data = Reflect.apply(fn, self, args);
+      farbleSamples(data);
+      return data;
+    });
+    hook(audioBuffer, 'copyFromChannel', (fn, self, args) => {
+      try {
+        self.getChannelData(args[1]);
+      } catch (error) {
+        // Let the real call throw for a bad channel
+      }
+      return Reflect.apply(fn, self, args);
+    });
+
+    ['getFloatFrequencyData', 'getFloatTimeDomainData'].forEach((name) => {
+      hook(win.AnalyserNode && win.AnalyserNode.prototype, name, (fn, self, args) => {
+        const result = Reflect.apply(fn, self, args);
+        const data = args[0];
+        if (data instanceof win.Float32Array) {
+          for (let i = 0; i < data.length; i++) {
+            data[i] *= audioFudge;
+          }
+        }
+        return result;
+      });
+    });
+
+    // navigator
+    const navigatorProto = win.Navigator && win.Navigator.prototype;
+    hookGetter(navigatorProto, 'hardwareConcurrency', (cores) => {
+      if (strict) {
+        return 4;
+      }
+      return cores > 2 ? 2 + (hash('cores') % (cores - 1)) : cores;
+    });
+    hookGetter(navigatorProto, 'deviceMemory', () => 8);
+
+    if (strict) {
+      let languages = null;
+      hookGetter(navigatorProto, 'languages', (value, self) => {
+        if (!languages) {
+          languages = Object.freeze([self.language]);
+        }
+        return languages;
+      });
+
+      hook(win.NavigatorUAData && win.NavigatorUAData.prototype, 'getHighEntropyValues', (fn, self) =>
+        win.Promise.resolve(self.toJSON()));
+
+      const screenProto = win.Screen && win.Screen.prototype;
+      hookGetter(screenProto, 'availWidth', (value, self) => self.width);
+      hookGetter(screenProto, 'availHeight', (value, self) => self.height);
+      hookGetter(screenProto, 'availLeft', () => 0);
+      hookGetter(screenProto, 'availTop', () => 0);
+    }
+
+    // Fonts
+    hook(win, 'queryLocalFonts', () =>
+      win.Promise.reject(new win.DOMException('Permission denied', 'NotAllowedError')));
+
+    const measuredFonts = new WeakMap();
+    [win.CanvasRenderingContext2D, win.OffscreenCanvasRenderingContext2D].forEach((context) => {
+      hook(context && context.prototype, 'measureText', (fn, self, args) => {
+        const metrics = Reflect.apply(fn, self, args);
+        measuredFonts.set(metrics, String(self.font));
+        return metrics;
+      });
+    });
+    hookGetter(win.TextMetrics && win.TextMetrics.prototype, 'width', (width, self) => {
+      const font = measuredFonts.get(self);
+      return font === undefined || !width ? width : width + ((hash('font:' + font + ':' + width) % 97) + 1) * 1e-4;
+    });
+
+    // Same-origin frames start with untouched prototypes
+    const patchFrame = (frame) => {
+      try {
+        patch(frame);
+      } catch (error) {
+        // Cross-origin frames cannot be reached from here
+      }
+      return frame;
+    };
+    [win.HTMLIFrameElement, win.HTMLFrameElement, win.HTMLObjectElement].forEach((element) => {
+      const proto = element && element.prototype;
+      hookGetter(proto, 'contentWindow', (frame) => patchFrame(frame));
+      hookGetter(proto, 'contentDocument', (document) => {
+        if (document) {
+          patchFrame(document.defaultView);
+        }
+        return document;
+      });
+    });
+  };
+
+  patch(page);
+}`;
@@ -0,0 +1,210 @@
+import crypto from 'crypto';
+
+/**
+ * Lossless packing of bytes into Aleo `field` literals
+ *
+ * Each field carries up to 31 bytes read as a big-endian integer, which is
+ * always below the field modulus (~2^253), so the bytes round-trip exactly.
+ *
+ * Payloads larger than one record are length-prefixed, zero padded and split
+ * into chunks of a fixed number of fields. Every chunk is written as its own
+ * record, identified by a chunk ID field that packs a random 128-bit chain ID
+ * shared by all chunks of the payload with the chunk index and chunk count:
+ *
+ *   chunk_id = chainId * 2^32 + index * 2^16 + count
+ */
+
+// Order of the Aleo base field
+export const FIELD_MODULUS = BigInt('8444461749428370424248824938781546531375899335154063827935233455917409239041');
+
+export const BYTES_PER_FIELD = 31;
+
+// Chunk index and count are 16-bit
+export const MAX_CHUNKS = 65535;
+
+const LENGTH_PREFIX = 4;
+const TWO_POW_16 = BigInt(65536);
+const TWO_POW_32 = BigInt(4294967296);
+const TWO_POW_128 = BigInt(`0x1${'0'.repeat(32)}`);
+
+export interface ChunkId {
+  chainId: string; // 128-bit hex
+  index: number;
+  count: number;
+}
+
+// One chunk record as read back from chain
+export interface ChunkPart {
+  chunkId: string;  // Field literal
+  fields: string[]; // Data fields in record order
+}
+
+export interface AssembledPayload {
+  chainId: string;
+  count: number;
+  payload: Buffer;
+}
+
+/**
+ * Encode up to 31 bytes as a field literal, e.g. "1234field"
+ */
+export function bytesToField(bytes: Buffer): string {
+  if (bytes.length > BYTES_PER_FIELD) {
+    throw new Error(`A field holds at most ${BYTES_PER_FIELD} bytes, got ${bytes.length}`);
+  }
+
+  const value = bytes.length > 0 ? BigInt(`0x${bytes.toString('hex')}`) : BigInt(0);
+  return `${value}field`;
+}
+
+/**
+ * Decode a field literal back into exactly `length` bytes
+ */
+export function fieldToBytes(field: string, length: number = BYTES_PER_FIELD): Buffer {
+  const value = parseField(field);
+  const hex = value.toString(16).padStart(length * 2, '0');
+  if (hex.length > length * 2) {
+    throw new Error(`Field value does not fit in ${length} bytes`);
+  }
+  return Buffer.from(hex, 'hex');
+}
+
+/**
+ * Parse a field literal (with or without the "field" suffix and a
+ * ".private"/".public" visibility) into its integer value
+ */
+export function parseField(field: string): bigint {
+  const match = field.trim().match(/^(\d+)(field)?(\.(private|public))?$/);
+  if (!match) {
+    throw new Error(`Invalid field literal: ${field}`);
+  }
+
+  const value = BigInt(match[1]);
+  if (value >= FIELD_MODULUS) {
+    throw new Error('Field value exceeds the field modulus');
+  }
+  return value;
+}
+
+/**
+ * Split a payload into chunks of `fieldsPerChunk` field literals each
+ */
+export function encodeChunks(payload: Buffer, fieldsPerChunk: number): string[][] {
+  if (!Number.isInteger(fieldsPerChunk) || fieldsPerChunk < 1) {
+    throw new Error('A chunk needs at least one field');
+  }
+
+  const length = Buffer.alloc(LENGTH_PREFIX);
+  length.writeUInt32BE(payload.length);
+  const framed = Buffer.concat([length, payload]);
+
+  const chunkBytes = fieldsPerChunk * BYTES_PER_FIELD;
+  const count = Math.ceil(framed.length / chunkBytes);
+  if (count > MAX_CHUNKS) {
+    throw new Error(`Payload needs ${count} chunks, at most ${MAX_CHUNKS} are supported`);
+  }
+
+  const chunks: string[][] = [];
+  for (let i = 0; i < count; i++) {
+    const chunk = Buffer.alloc(chunkBytes);
+    framed.copy(chunk, 0, i * chunkBytes, Math.min((i + 1) * chunkBytes, framed.length));
+
+    const fields: string[] = [];
+    for (let f = 0; f < fieldsPerChunk; f++) {
+      fields.push(bytesToField(chunk.subarray(f * BYTES_PER_FIELD, (f + 1) * BYTES_PER_FIELD)));
+    }
+    chunks.push(fields);
+  }
+  return chunks;
+}
+
+/**
+ * Reassemble the payload from all of its chunks, in index order
+ */
+export function decodeChunks(chunks: string[][]): Buffer {
+  const framed = Buffer.concat(chunks.flat().map(field => fieldToBytes(field)));
+  if (framed.length < LENGTH_PREFIX) {
+    throw new Error('Chunked payload is empty');
+  }
+
+  const length = framed.readUInt32BE(0);
+  if (length > framed.length - LENGTH_PREFIX) {
+    throw new Error('Chunked payload is truncated');
+  }
+  return framed.subarray(LENGTH_PREFIX, LENGTH_PREFIX + length);
+}
+
+/**
+ * Generate a fresh chain ID for a new payload
+ */
+export function newChainId(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+export function formatChunkId({ chainId, index, count }: ChunkId): string {
+  if (!/^[0-9a-f]{1,32}$/i.test(chainId)) {
+    throw new Error('Chain ID must be at most 128 bits of hex');
+  }
+  if (count < 1 || count > MAX_CHUNKS || index < 0 || index >= count) {
+    throw new Error(`Invalid chunk ${index} of ${count}`);
+  }
+
+  const value = BigInt(`0x${chainId}`) * TWO_POW_32 + BigInt(index) * TWO_POW_16 + BigInt(count);
+  return `${value}field`;
+}
+
+export function parseChunkId(field: string): ChunkId {
+  const value = parseField(field);
+  const chain = value / TWO_POW_32;
+  const index = Number((value / TWO_POW_16) % TWO_POW_16);
+  const count = Number(value % TWO_POW_16);
+
+  if (chain >= TWO_POW_128 || count < 1 || index >= count) {
+    throw new Error('Not a chunk ID');
+  }
+  return { chainId: chain.toString(16).padStart(32, '0'), index, count };
+}
+
+/**
+ * Group chunk records by chain ID and decode every payload whose chunks are
+ * all present. A later part for the same chunk supersedes an earlier one, so
+ * parts should be passed oldest first.
+ */
+export function assembleChunks(parts: ChunkPart[]): { payloads: AssembledPayload[]; incomplete: number } {
+  const groups = new Map<string, { count: number; chunks: Map<number, string[]> }>();
+
+  for (const part of parts) {
+    let id: ChunkId;
+    try {
+      id = parseChunkId(part.chunkId);
+    } catch {
+      continue;
+    }
+
+    const group = groups.get(id.chainId) || { count: id.count, chunks: new Map() };
+    if (group.count !== id.count) {
+      continue;
+    }
+    group.chunks.set(id.index, part.fields);
+    groups.set(id.chainId, group);
+  }
+
+  const payloads: AssembledPayload[] = [];
+  let incomplete = 0;
+
+  for (const [chainId, group] of groups) {
+    if (group.chunks.size !== group.count) {
+      incomplete++;
+      continue;
+    }
+
+    try {
+      const ordered = Array.from({ length: group.count }, (_, i) => group.chunks.get(i)!);
+      payloads.push({ chainId, count: group.count, payload: decodeChunks(ordered) });
+    } catch {
+      incomplete++;
+    }
+  }
+
+  return { payloads, incomplete };
+}
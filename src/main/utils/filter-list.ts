@@ -0,0 +1,467 @@
+/**
+ * Adblock Plus / uBlock Origin network filters
+ * Parses filter list text into rules and compiles them into a matcher indexed
+ * by URL token: every rule is filed under one literal word of its pattern, so a
+ * request is only tested against the rules that share a word with its URL.
+ *
+ * Supported: `||domain^` anchors, `|` start and end anchors, `*` and `^`
+ * wildcards, `/regex/` rules, `@@` exceptions and the options third-party
+ * (3p, first-party, 1p), resource types (script, image, stylesheet,
+ * xmlhttprequest, subdocument, font, media, websocket, ping, object, other,
+ * document), domain=, match-case and important. Rules with any other option
+ * (redirect=, csp=, removeparam=, ...) are skipped rather than applied
+ * without it. Element hiding rules are parsed by utils/cosmetic-filter.
+ */
+
+import { CosmeticFilter, parseCosmeticFilter } from './cosmetic-filter';
+
+export type FilterResourceType =
+  | 'document'
+  | 'subdocument'
+  | 'script'
+  | 'image'
+  | 'stylesheet'
+  | 'xmlhttprequest'
+  | 'font'
+  | 'media'
+  | 'websocket'
+  | 'ping'
+  | 'object'
+  | 'other';
+
+const TYPE_BITS: Record<FilterResourceType, number> = {
+  document: 1 << 0,
+  subdocument: 1 << 1,
+  script: 1 << 2,
+  image: 1 << 3,
+  stylesheet: 1 << 4,
+  xmlhttprequest: 1 << 5,
+  font: 1 << 6,
+  media: 1 << 7,
+  websocket: 1 << 8,
+  ping: 1 << 9,
+  object: 1 << 10,
+  other: 1 << 11
+};
+
+const ALL_TYPES = (1 << 12) - 1;
+
+// Rules apply to page navigations only when they say so
+const DEFAULT_TYPES = ALL_TYPES & ~TYPE_BITS.document;
+
+const TYPE_ALIASES: Record<string, FilterResourceType> = {
+  xhr: 'xmlhttprequest',
+  css: 'stylesheet',
+  frame: 'subdocument',
+  doc: 'document',
+  'object-subrequest': 'object',
+  beacon: 'ping'
+};
+
+// Electron webRequest resource types
+const ELECTRON_TYPES: Record<string, FilterResourceType> = {
+  mainFrame: 'document',
+  subFrame: 'subdocument',
+  stylesheet: 'stylesheet',
+  script: 'script',
+  image: 'image',
+  font: 'font',
+  object: 'object',
+  xhr: 'xmlhttprequest',
+  ping: 'ping',
+  cspReport: 'ping',
+  media: 'media',
+  webSocket: 'websocket'
+};
+
+// Too common in URLs to narrow the candidate rules down
+const COMMON_TOKENS = new Set(['http', 'https', 'www', 'com', 'js', 'html']);
+
+// Second-level labels under which sites register their own names (example.co.uk)
+const SHARED_SECOND_LEVEL = new Set(['co', 'com', 'net', 'org', 'gov', 'edu', 'ac', 'or', 'ne', 'go']);
+
+const TOKEN_PATTERN = /[a-z0-9%]+/g;
+const COSMETIC_PATTERN = /#[@?$%]?#|#@[$%?]#/;
+
+export interface NetworkFilter {
+  text: string;           // Rule as written in the list
+  listId: string;
+  exception: boolean;
+  important: boolean;
+  token: string;          // Index word, or '' when the pattern has none
+  source: string;         // Regular expression source
+  matchCase: boolean;
+  types: number;          // Bitmask of TYPE_BITS
+  thirdParty?: boolean;   // true: third-party only, false: first-party only
+  domains: string[];      // Only on pages of these domains
+  excludedDomains: string[];
+  regex?: RegExp;         // Compiled on first use, to keep large lists cheap to load
+}
+
+export interface ParsedFilterList {
+  title?: string;
+  filters: NetworkFilter[];
+  cosmetic: CosmeticFilter[];
+  skipped: number;        // Rules with unsupported syntax or options
+}
+
+export interface FilterRequest {
+  url: string;
+  type: FilterResourceType;
+  sourceUrl?: string;     // Page that made the request
+}
+
+export interface FilterMatch {
+  filter: string;
+  listId: string;
+}
+
+/**
+ * Map an Electron webRequest resource type to a filter resource type
+ */
+export function toFilterResourceType(resourceType: string): FilterResourceType {
+  return ELECTRON_TYPES[resourceType] || 'other';
+}
+
+/**
+ * Registrable part of a hostname (news.example.co.uk -> example.co.uk),
+ * close enough to the public suffix list to tell first and third parties apart
+ */
+export function baseDomain(hostname: string): string {
+  if (/^[\d.]+$/.test(hostname) || hostname.includes(':')) {
+    return hostname;
+  }
+
+  const labels = hostname.split('.');
+  const count = labels.length > 2 && labels[labels.length - 1].length === 2 &&
+    SHARED_SECOND_LEVEL.has(labels[labels.length - 2]) ? 3 : 2;
+  return labels.slice(-count).join('.');
+}
+
+/**
+ * Parse filter list text into network and element hiding rules. Comments and
+ * headers are ignored; rules that cannot be applied faithfully are counted as
+ * skipped.
+ */
+export function parseFilterList(text: string, listId: string): ParsedFilterList {
+  const result: ParsedFilterList = { filters: [], cosmetic: [], skipped: 0 };
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('[')) {
+      continue;
+    }
+
+    if (line.startsWith('!')) {
+      const title = /^!\s*Title:\s*(.+)$/i.exec(line);
+      if (title) {
+        result.title = title[1].trim();
+      }
+      continue;
+    }
+
+    if (COSMETIC_PATTERN.test(line)) {
+      const cosmetic = parseCosmeticFilter(line, listId);
+      if (cosmetic) {
+        result.cosmetic.push(cosmetic);
+      } else {
+        result.skipped++;
+      }
+      continue;
+    }
+
+    const filter = parseFilter(line, listId);
+    if (filter) {
+      result.filters.push(filter);
+    } else {
+      result.skipped++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse one network rule, or return null if it cannot be applied
+ */
+export function parseFilter(line: string, listId: string): NetworkFilter | null {
+  let rule = line;
+  const exception = rule.startsWith('@@');
+  if (exception) {
+    rule = rule.slice(2);
+  }
+
+  // Options follow the last `$`, unless that `$` belongs to a regex
+  let options: string[] = [];
+  const isRegex = /^\/.+\/(\$|$)/.test(rule);
+  const optionsAt = rule.lastIndexOf('$');
+  if (optionsAt >= 0 && (!isRegex || optionsAt > rule.lastIndexOf('/'))) {
+    const tail = rule.slice(optionsAt + 1);
+    if (/^[\w~,=\-.|*]+$/i.test(tail)) {
+      options = tail.split(',');
+      rule = rule.slice(0, optionsAt);
+    } else if (/^~?[\w-]+=/.test(tail)) {
+      // Option values like csp= with spaces or quotes
+      return null;
+    }
+  }
+
+  const filter: NetworkFilter = {
+    text: line,
+    listId,
+    exception,
+    important: false,
+    token: '',
+    source: '',
+    matchCase: false,
+    types: DEFAULT_TYPES,
+    domains: [],
+    excludedDomains: []
+  };
+
+  let included = 0;
+  let excluded = 0;
+  for (const option of options) {
+    const negated = option.startsWith('~');
+    const name = (negated ? option.slice(1) : option).toLowerCase();
+
+    if (name === 'third-party' || name === '3p') {
+      filter.thirdParty = !negated;
+    } else if (name === 'first-party' || name === '1p') {
+      filter.thirdParty = negated;
+    } else if (name.startsWith('domain=') || name.startsWith('from=')) {
+      for (const domain of option.slice(option.indexOf('=') + 1).toLowerCase().split('|')) {
+        if (domain.startsWith('~')) {
+          filter.excludedDomains.push(domain.slice(1));
+        } else if (domain) {
+          filter.domains.push(domain);
+        }
+      }
+    } else if (name === 'match-case' && !negated) {
+      filter.matchCase = true;
+    } else if (name === 'important' && !negated) {
+      filter.important = true;
+    } else if (name === 'all' && !negated) {
+      included |= ALL_TYPES;
+    } else {
+      const type = (TYPE_BITS[name as FilterResourceType] !== undefined ? name : TYPE_ALIASES[name]) as FilterResourceType | undefined;
+      if (!type) {
+        return null;
+      }
+      if (negated) {
+        excluded |= TYPE_BITS[type];
+      } else {
+        included |= TYPE_BITS[type];
+      }
+    }
+  }
+  filter.types = (included || DEFAULT_TYPES) & ~excluded;
+
+  if (isRegex) {
+    filter.source = rule.slice(1, -1);
+    try {
+      new RegExp(filter.source);
+    } catch {
+      return null;
+    }
+    return filter;
+  }
+
+  const hostAnchor = rule.startsWith('||');
+  const startAnchor = !hostAnchor && rule.startsWith('|');
+  const endAnchor = rule.endsWith('|') && rule.length > 1;
+  let pattern = rule.slice(hostAnchor ? 2 : startAnchor ? 1 : 0, endAnchor ? -1 : undefined);
+  if (!filter.matchCase) {
+    pattern = pattern.toLowerCase();
+  }
+
+  // A bare `*` or empty rule would match every request
+  if (!pattern.replace(/\*/g, '') && !filter.domains.length) {
+    return null;
+  }
+
+  filter.token = pickToken(pattern.toLowerCase(), hostAnchor || startAnchor, endAnchor);
+  filter.source = patternToSource(pattern, hostAnchor, startAnchor, endAnchor);
+  return filter;
+}
+
+/**
+ * Compiled rules of one or more filter lists
+ */
+export class FilterMatcher {
+  private blocking = new Map<string, NetworkFilter[]>();
+  private important = new Map<string, NetworkFilter[]>();
+  private exceptions = new Map<string, NetworkFilter[]>();
+  private documentExceptions = new Map<string, NetworkFilter[]>();
+  private count = 0;
+
+  constructor(filters: NetworkFilter[] = []) {
+    for (const filter of filters) {
+      this.add(filter);
+    }
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  add(filter: NetworkFilter): void {
+    const index = !filter.exception
+      ? filter.important ? this.important : this.blocking
+      : filter.types & TYPE_BITS.document ? this.documentExceptions : this.exceptions;
+    const bucket = index.get(filter.token);
+    if (bucket) {
+      bucket.push(filter);
+    } else {
+      index.set(filter.token, [filter]);
+    }
+    this.count++;
+  }
+
+  /**
+   * Find the rule that blocks a request, if any
+   * @param accept - Whether rules of a list may block (exceptions always apply)
+   */
+  match(request: FilterRequest, accept?: (listId: string) => boolean): FilterMatch | null {
+    const target = describe(request.url, request.type, request.sourceUrl);
+    if (!target) {
+      return null;
+    }
+
+    // `$important` rules block even where an exception would allow the request
+    const important = this.find(this.important, target, accept);
+    if (important) {
+      return { filter: important.text, listId: important.listId };
+    }
+
+    const block = this.find(this.blocking, target, accept);
+    if (!block) {
+      return null;
+    }
+
+    if (this.find(this.exceptions, target) || this.find(this.documentExceptions, target)) {
+      return null;
+    }
+
+    // `@@||site^$document` allows everything on that site's pages
+    const page = request.sourceUrl && describe(request.sourceUrl, 'document');
+    if (page && this.find(this.documentExceptions, page)) {
+      return null;
+    }
+
+    return { filter: block.text, listId: block.listId };
+  }
+
+  private find(
+    index: Map<string, NetworkFilter[]>,
+    target: RequestTarget,
+    accept?: (listId: string) => boolean
+  ): NetworkFilter | null {
+    for (const token of target.tokens) {
+      for (const filter of index.get(token) || []) {
+        if ((!accept || accept(filter.listId)) && matches(filter, target)) {
+          return filter;
+        }
+      }
+    }
+    return null;
+  }
+}
+
+interface RequestTarget {
+  url: string;
+  lowerUrl: string;
+  typeBit: number;
+  pageHostname: string;   // For domain=: the requesting page, or the page itself for navigations
+  thirdParty: boolean;
+  tokens: string[];       // URL words plus '' for rules without one
+}
+
+function describe(url: string, type: FilterResourceType, sourceUrl?: string): RequestTarget | null {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+
+  let sourceHostname = '';
+  if (sourceUrl && type !== 'document') {
+    try {
+      sourceHostname = new URL(sourceUrl).hostname.toLowerCase();
+    } catch {
+      // Unknown source: treated as first-party
+    }
+  }
+
+  const lowerUrl = url.toLowerCase();
+  return {
+    url,
+    lowerUrl,
+    typeBit: TYPE_BITS[type],
+    pageHostname: sourceHostname || hostname,
+    thirdParty: !!sourceHostname && baseDomain(sourceHostname) !== baseDomain(hostname),
+    tokens: [...new Set(lowerUrl.match(TOKEN_PATTERN) || []), '']
+  };
+}
+
+function matches(filter: NetworkFilter, target: RequestTarget): boolean {
+  if (!(filter.types & target.typeBit)) {
+    return false;
+  }
+  if (filter.thirdParty !== undefined && filter.thirdParty !== target.thirdParty) {
+    return false;
+  }
+  if (filter.excludedDomains.some(domain => isSubdomain(target.pageHostname, domain))) {
+    return false;
+  }
+  if (filter.domains.length && !filter.domains.some(domain => isSubdomain(target.pageHostname, domain))) {
+    return false;
+  }
+
+  if (!filter.regex) {
+    filter.regex = new RegExp(filter.source, filter.matchCase ? '' : 'i');
+  }
+  return filter.regex.test(filter.matchCase ? target.url : target.lowerUrl);
+}
+
+function isSubdomain(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Longest word of a pattern that is whole in every URL the pattern matches:
+ * not touching a `*`, nor the start or end of an unanchored pattern
+ */
+function pickToken(pattern: string, startAnchored: boolean, endAnchored: boolean): string {
+  let best = '';
+  for (const match of pattern.matchAll(TOKEN_PATTERN)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    if (start === 0 ? !startAnchored : pattern[start - 1] === '*') {
+      continue;
+    }
+    if (end === pattern.length ? !endAnchored : pattern[end] === '*') {
+      continue;
+    }
+    if (match[0].length > best.length && !COMMON_TOKENS.has(match[0])) {
+      best = match[0];
+    }
+  }
+  return best;
+}
+
+function patternToSource(pattern: string, hostAnchor: boolean, startAnchor: boolean, endAnchor: boolean): string {
+  let source = pattern
+    .replace(/\*+/g, '*')
+    .replace(/[.+?${}()|[\]\\/]/g, '\\$&')
+    .replace(/\^/g, '(?:[^\\w\\-.%]|$)')
+    .replace(/\*/g, '.*');
+
+  if (hostAnchor) {
+    source = `^[a-z][a-z0-9+.-]*:\\/\\/(?:[^\\/?#]*\\.)?${source}`;
+  } else if (startAnchor) {
+    source = `^${source}`;
+  }
+  return endAnchor ? `${source}$` : source;
+}
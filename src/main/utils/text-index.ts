@@ -0,0 +1,52 @@
+/**
+ * Text tokenizing for the full-text indexes
+ * Lower-cases, strips accents and splits on anything that is not a letter or
+ * digit, so "Zero-Knowledge Proofs" and "zero knowledge proofs" index alike.
+ */
+
+const MIN_TERM_LENGTH = 2;
+const MAX_TERM_LENGTH = 40;
+
+// Too common to narrow a search down
+const STOP_WORDS = new Set([
+  'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'with',
+  'www', 'http', 'https', 'com', 'html'
+]);
+
+/**
+ * Split text into unique index terms, in order of first appearance
+ * @param maxTerms - Stop after this many unique terms
+ */
+export function tokenize(text: string, maxTerms: number = Infinity): string[] {
+  const terms = new Set<string>();
+
+  const words = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u);
+
+  for (const word of words) {
+    if (word.length < MIN_TERM_LENGTH || word.length > MAX_TERM_LENGTH || STOP_WORDS.has(word)) {
+      continue;
+    }
+    terms.add(word);
+    if (terms.size >= maxTerms) {
+      break;
+    }
+  }
+
+  return Array.from(terms);
+}
+
+/**
+ * Host without a leading "www.", or the whole string if it is not a URL
+ */
+export function domainOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import {
+  EncryptedData,
+  decrypt,
+  decryptWithKey,
+  encryptWithKey,
+  generateSalt,
+  hashPassword,
+  constantTimeCompare
+} from './crypto';
+
+/**
+ * Versioned password vault for wallet secrets
+ *
+ * v1: AES-256-GCM with a PBKDF2-SHA256 key, plus a stored sha256(password)
+ *     used to check the password before decrypting
+ * v2: AES-256-GCM with a scrypt key. No password hash is stored; a wrong
+ *     password is detected by the GCM auth tag failing to verify
+ */
+
+export const VAULT_VERSION = 2;
+
+export interface KdfParams {
+  name: 'scrypt';
+  N: number; // CPU/memory cost
+  r: number; // Block size
+  p: number; // Parallelization
+}
+
+// 128 * N * r = 128 MiB of memory per derivation
+export const DEFAULT_KDF_PARAMS: KdfParams = {
+  name: 'scrypt',
+  N: 131072,
+  r: 8,
+  p: 1
+};
+
+const KEY_LENGTH = 32;
+
+export interface Vault {
+  version?: number;      // Missing on v1 vaults
+  kdf?: KdfParams;       // v2+
+  data: EncryptedData;
+  passwordHash?: string; // v1 only
+}
+
+export interface UnlockedVault {
+  plaintext: string;
+  key: Buffer;       // Vault key, kept so the vault can be re-sealed without the password
+  salt: Buffer;
+  vault: Vault;      // Current-version vault (differs from the input when migrated)
+  migrated: boolean; // True when the stored vault must be replaced with `vault`
+}
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+/**
+ * Derive the vault key from a password with scrypt. Runs on the libuv thread
+ * pool, since a derivation takes long enough to stall the main process.
+ */
+export async function deriveVaultKey(password: string, salt: Buffer, kdf: KdfParams = DEFAULT_KDF_PARAMS): Promise<Buffer> {
+  if (kdf.name !== 'scrypt') {
+    throw new Error(`Unsupported KDF: ${kdf.name}`);
+  }
+
+  return scrypt(password, salt, KEY_LENGTH, {
+    N: kdf.N,
+    r: kdf.r,
+    p: kdf.p,
+    maxmem: 256 * kdf.N * kdf.r
+  });
+}
+
+/**
+ * Encrypt plaintext into a new current-version vault
+ */
+export async function createVault(plaintext: string, password: string): Promise<{ vault: Vault; key: Buffer; salt: Buffer }> {
+  const salt = generateSalt();
+  const key = await deriveVaultKey(password, salt);
+  return { vault: sealVault(plaintext, key, salt), key, salt };
+}
+
+/**
+ * Re-encrypt plaintext with an already derived vault key
+ */
+export function sealVault(plaintext: string, key: Buffer, salt: Buffer, kdf: KdfParams = DEFAULT_KDF_PARAMS): Vault {
+  return {
+    version: VAULT_VERSION,
+    kdf,
+    data: encryptWithKey(plaintext, key, salt)
+  };
+}
+
+/**
+ * Decrypt a vault of any supported version. Older vaults are upgraded to the
+ * current version; callers must persist `vault` when `migrated` is set.
+ * Throws 'Invalid password' when the password is wrong.
+ */
+export async function openVault(vault: Vault, password: string): Promise<UnlockedVault> {
+  const version = vault.version ?? 1;
+
+  if (version > VAULT_VERSION) {
+    throw new Error(`Unsupported vault version: ${version}`);
+  }
+
+  if (version === 1) {
+    if (vault.passwordHash && !constantTimeCompare(hashPassword(password), vault.passwordHash)) {
+      throw new Error('Invalid password');
+    }
+
+    let plaintext: string;
+    try {
+      plaintext = decrypt(vault.data, password);
+    } catch {
+      throw new Error('Invalid password');
+    }
+
+    const upgraded = await createVault(plaintext, password);
+    return { plaintext, key: upgraded.key, salt: upgraded.salt, vault: upgraded.vault, migrated: true };
+  }
+
+  if (!vault.kdf) {
+    throw new Error('Vault is missing KDF parameters');
+  }
+
+  const salt = Buffer.from(vault.data.salt, 'hex');
+  const key = await deriveVaultKey(password, salt, vault.kdf);
+
+  let plaintext: string;
+  try {
+    plaintext = decryptWithKey(vault.data, key);
+  } catch {
+    key.fill(0);
+    throw new Error('Invalid password');
+  }
+
+  return { plaintext, key, salt, vault, migrated: false };
+}
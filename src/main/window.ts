@@ -190,6 +190,45 @@ export function createMainWindow(): Electron.BrowserWindow {
   return win;
 }
 
+/**
+ * Hand a loaded page's visible text to the history index. Runs in an isolated
+ * world so page scripts cannot tamper with what is read.
+ */
+function captureHistoryText(webContents: Electron.WebContents): void {
+  const url = webContents.getURL();
+  if (!/^https?:/i.test(url)) {
+    return;
+  }
+
+  const { historyService } = require('./services/history.service');
+  if (!historyService.isTextIndexEnabled()) {
+    return;
+  }
+
+  webContents
+    .executeJavaScriptInIsolatedWorld(999, [{ code: 'document.body ? document.body.innerText.slice(0, 50000) : ""' }])
+    .then((text: unknown) => {
+      if (typeof text === 'string' && webContents.getURL() === url) {
+        historyService.attachPageText(url, text);
+      }
+    })
+    .catch(() => {
+      // Page navigated away or is not scriptable
+    });
+}
+
+/**
+ * Ask the UI to start a note from a page (from the context menu)
+ */
+function sendPageClip(view: Electron.BrowserView, selection: string): void {
+  const url = view.webContents.getURL();
+  mainWindow?.webContents.send('notes:clip', {
+    url,
+    title: view.webContents.getTitle() || url,
+    selection: selection.trim()
+  });
+}
+
 /**
  * Update the bounds of the active BrowserView
  */
@@ -289,6 +328,11 @@ export function createTab(tabId: string, url?: string): Electron.BrowserView {
     }
   });
 
+  // Shields filter lists apply to every tab's session, the WebRTC policy to every tab
+  const { privacyService } = require('./services/privacy.service');
+  privacyService.attachToSession(browserView.webContents.session);
+  privacyService.applyWebRTCPolicy(browserView.webContents);
+
   // Store the view
   browserViews.set(tabId, browserView);
   tabZoomLevels.set(tabId, 0);
@@ -320,6 +364,7 @@ export function createTab(tabId: string, url?: string): Electron.BrowserView {
         { label: 'Copy', role: 'copy' },
         { label: 'Search Google for "' + params.selectionText.slice(0, 20) + (params.selectionText.length > 20 ? '...' : '') + '"',
           click: () => browserView.webContents.loadURL(`https://www.google.com/search?q=${encodeURIComponent(params.selectionText)}`) },
+        { label: 'Clip Selection to Notes', click: () => sendPageClip(browserView, params.selectionText) },
         { type: 'separator' }
       );
     }
@@ -356,6 +401,7 @@ export function createTab(tabId: string, url?: string): Electron.BrowserView {
 
     // Page items
     menuItems.push(
+      { label: 'Clip Page to Notes', click: () => sendPageClip(browserView, ''), enabled: /^https?:/.test(browserView.webContents.getURL()) },
       { label: 'View Page Source', click: () => browserView.webContents.loadURL('view-source:' + browserView.webContents.getURL()) },
       { label: 'Inspect Element', click: () => browserView.webContents.inspectElement(params.x, params.y) }
     );
@@ -397,6 +443,16 @@ export function createTab(tabId: string, url?: string): Electron.BrowserView {
     });
   });
 
+  // Element hiding rules of Shields, before the page finishes loading
+  browserView.webContents.on('dom-ready', () => {
+    privacyService.applyCosmeticFilters(browserView.webContents);
+  });
+
+  // Page text for the full-text history index, when enabled in history settings
+  browserView.webContents.on('did-finish-load', () => {
+    captureHistoryText(browserView.webContents);
+  });
+
   browserView.webContents.on('page-title-updated', (_event: Electron.Event, title: string) => {
     mainWindow?.webContents.send('tab:title-updated', title, tabId);
   });
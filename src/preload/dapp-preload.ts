@@ -1,10 +1,33 @@
+/// <reference lib="dom" />
+
 /**
  * dApp Preload Script
  * Injects window.aleo provider into web pages loaded in BrowserView
  * Similar to how Brave/MetaMask inject window.ethereum
+ * Also detects login forms for password autofill and save prompts, and
+ * installs Shields fingerprinting protection
  */
 
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, webFrame } from 'electron';
+
+// ============================================
+// Fingerprinting protection
+// ============================================
+
+// Fetched synchronously and run before anything else, so the page's own
+// scripts only ever see the protected APIs
+if (/^https?:$/.test(location.protocol)) {
+  try {
+    const farblingScript: string | null = ipcRenderer.sendSync('privacy:getFarblingScript', location.href);
+    if (farblingScript) {
+      webFrame.executeJavaScript(farblingScript).catch((error) => {
+        console.error('Failed to install fingerprinting protection:', error);
+      });
+    }
+  } catch (error) {
+    console.error('Failed to install fingerprinting protection:', error);
+  }
+}
 
 /**
  * Event emitter for dApp events
@@ -381,6 +404,195 @@ try {
   console.error('Failed to inject dApp provider:', error);
 }
 
+// ============================================
+// Password autofill
+// ============================================
+
+/**
+ * Login form support for the password manager. Usernames of the logins saved
+ * for this site are offered under a focused login field; a password is only
+ * sent by the main process once the user picks a login. Submitted logins are
+ * reported so the browser can offer to save them.
+ */
+
+const USERNAME_SELECTOR = 'input[type="text"], input[type="email"], input[type="tel"], input:not([type])';
+const SUBMIT_LABEL = /log\s?in|sign\s?in|continue|next|submit/i;
+
+interface LoginFields {
+  username: HTMLInputElement | null;
+  password: HTMLInputElement;
+}
+
+let savedLogins: Promise<Array<{ id: string; username: string }>> | null = null;
+let autofillHost: HTMLElement | null = null;
+let lastReportedLogin = '';
+
+function isFillable(input: HTMLInputElement): boolean {
+  const rect = input.getBoundingClientRect();
+  return rect.width > 0 && rect.height > 0 && !input.disabled && !input.readOnly;
+}
+
+/**
+ * Find the login form around an element: the first visible password field in
+ * its form (or the page) and the last text-like field before it
+ */
+function findLoginFields(element: Element): LoginFields | null {
+  const scope: ParentNode = element.closest('form') || document;
+  const password = element instanceof HTMLInputElement && element.type === 'password'
+    ? element
+    : Array.from(scope.querySelectorAll<HTMLInputElement>('input[type="password"]')).find(isFillable);
+
+  if (!password) {
+    return null;
+  }
+
+  const username = Array.from(scope.querySelectorAll<HTMLInputElement>(USERNAME_SELECTOR))
+    .filter(input => isFillable(input) && (input.compareDocumentPosition(password) & Node.DOCUMENT_POSITION_FOLLOWING))
+    .pop() || null;
+
+  return { username, password };
+}
+
+/**
+ * Set a field's value the way typing would, so page scripts and frameworks notice
+ */
+function fillInput(input: HTMLInputElement, value: string): void {
+  input.focus();
+  input.value = value;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+  input.dispatchEvent(new Event('change', { bubbles: true }));
+}
+
+function hideAutofill(): void {
+  autofillHost?.remove();
+  autofillHost = null;
+}
+
+async function showAutofill(input: HTMLInputElement, fields: LoginFields): Promise<void> {
+  if (!savedLogins) {
+    savedLogins = ipcRenderer.invoke('credentials:pageLogins').catch(() => []);
+  }
+
+  const logins = await savedLogins;
+  if (logins.length === 0 || document.activeElement !== input) {
+    return;
+  }
+
+  hideAutofill();
+
+  // Closed shadow root so the page can't read the saved usernames
+  const rect = input.getBoundingClientRect();
+  const host = document.createElement('div');
+  host.style.cssText = `position:fixed;left:${rect.left}px;top:${rect.bottom + 2}px;z-index:2147483647;`;
+  const shadow = host.attachShadow({ mode: 'closed' });
+
+  const list = document.createElement('div');
+  list.style.cssText = `min-width:${Math.max(rect.width, 200)}px;padding:4px;background:#111118;border:1px solid #27272a;` +
+    'border-radius:8px;box-shadow:0 8px 24px rgba(0,0,0,.4);font:13px system-ui,sans-serif;';
+
+  for (const login of logins) {
+    const item = document.createElement('button');
+    item.type = 'button';
+    item.textContent = login.username || '(no username)';
+    item.style.cssText = 'display:block;width:100%;padding:6px 10px;text-align:left;background:none;border:0;' +
+      'border-radius:6px;color:#e4e4e7;cursor:pointer;';
+    item.addEventListener('mouseenter', () => { item.style.background = '#27272a'; });
+    item.addEventListener('mouseleave', () => { item.style.background = 'none'; });
+
+    item.addEventListener('mousedown', async (event) => {
+      // Keep focus on the field; ignore clicks synthesized by the page
+      event.preventDefault();
+      if (!event.isTrusted) {
+        return;
+      }
+      hideAutofill();
+
+      const filled: { username: string; password: string } | null = await ipcRenderer.invoke('credentials:pageFill', login.id);
+      if (!filled) {
+        return;
+      }
+      if (fields.username) {
+        fillInput(fields.username, filled.username);
+      }
+      fillInput(fields.password, filled.password);
+      lastReportedLogin = `${filled.username}\n${filled.password}`;
+    });
+
+    list.appendChild(item);
+  }
+
+  shadow.appendChild(list);
+  document.documentElement.appendChild(host);
+  autofillHost = host;
+}
+
+/**
+ * Report a login that is being submitted, once per username/password pair
+ */
+function reportLogin(fields: LoginFields): void {
+  const password = fields.password.value;
+  const username = fields.username?.value.trim() || '';
+  const login = `${username}\n${password}`;
+
+  if (!password || login === lastReportedLogin) {
+    return;
+  }
+  lastReportedLogin = login;
+  ipcRenderer.invoke('credentials:pageSubmitted', { username, password }).catch(() => {});
+}
+
+if (location.protocol === 'https:' || location.protocol === 'http:') {
+  window.addEventListener('focusin', (event) => {
+    const target = event.target;
+    if (!(target instanceof HTMLInputElement)) {
+      return;
+    }
+
+    const fields = findLoginFields(target);
+    if (fields && (target === fields.password || target === fields.username)) {
+      showAutofill(target, fields);
+    } else {
+      hideAutofill();
+    }
+  }, true);
+
+  window.addEventListener('focusout', hideAutofill, true);
+  window.addEventListener('scroll', hideAutofill, true);
+  window.addEventListener('resize', hideAutofill);
+
+  window.addEventListener('submit', (event) => {
+    const password = (event.target as HTMLFormElement).querySelector<HTMLInputElement>('input[type="password"]');
+    const fields = password && findLoginFields(password);
+    if (fields) {
+      reportLogin(fields);
+    }
+  }, true);
+
+  // Script-driven logins never fire submit: catch Enter and sign-in buttons too
+  window.addEventListener('keydown', (event) => {
+    if (event.key === 'Enter' && event.target instanceof HTMLInputElement) {
+      const fields = findLoginFields(event.target);
+      if (fields && (event.target === fields.password || event.target === fields.username)) {
+        reportLogin(fields);
+      }
+    }
+  }, true);
+
+  window.addEventListener('click', (event) => {
+    const button = (event.target as Element | null)?.closest?.('button, input[type="submit"], [role="button"]');
+    if (!button) {
+      return;
+    }
+
+    const label = button instanceof HTMLInputElement ? button.value : button.textContent || '';
+    const isSubmit = (button instanceof HTMLButtonElement && button.type === 'submit' && !!button.form) || SUBMIT_LABEL.test(label);
+    const fields = isSubmit ? findLoginFields(button) : null;
+    if (fields) {
+      reportLogin(fields);
+    }
+  }, true);
+}
+
 // Type definitions for dApps
 export interface AleoProvider {
   isAleoBrowser: boolean;
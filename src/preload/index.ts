@@ -24,18 +24,38 @@ const walletAPI = {
   refreshBalance: () => ipcRenderer.invoke('wallet:refreshBalance'),
 
   // Transactions
-  send: (recipient: string, amount: number, fee?: number, memo?: string) =>
-    ipcRenderer.invoke('wallet:send', { recipient, amount, fee, memo }),
+  send: (recipient: string, amount: number, fee?: number, memo?: string, transferKind?: string) =>
+    ipcRenderer.invoke('wallet:send', { recipient, amount, fee, memo, transferKind }),
 
   // Lock/unlock
   lock: () => ipcRenderer.invoke('wallet:lock'),
   unlock: (password: string) => ipcRenderer.invoke('wallet:unlock', password),
   isLocked: () => ipcRenderer.invoke('wallet:isLocked'),
+  changePassword: (currentPassword: string, newPassword: string) =>
+    ipcRenderer.invoke('wallet:changePassword', currentPassword, newPassword),
+  getAutoLockTimeout: () => ipcRenderer.invoke('wallet:getAutoLockTimeout'),
+  setAutoLockTimeout: (minutes: number) => ipcRenderer.invoke('wallet:setAutoLockTimeout', minutes),
 
   // Export keys (requires unlocked wallet)
   exportPrivateKey: () => ipcRenderer.invoke('wallet:exportPrivateKey'),
   exportViewKey: () => ipcRenderer.invoke('wallet:exportViewKey'),
 
+  // Accounts
+  getAccounts: () => ipcRenderer.invoke('wallet:getAccounts'),
+  addAccount: (name?: string) => ipcRenderer.invoke('wallet:addAccount', name),
+  importAccount: (privateKey: string, name?: string) => ipcRenderer.invoke('wallet:importAccount', privateKey, name),
+  selectAccount: (accountId: string) => ipcRenderer.invoke('wallet:selectAccount', accountId),
+  renameAccount: (accountId: string, name: string) => ipcRenderer.invoke('wallet:renameAccount', accountId, name),
+  removeAccount: (accountId: string) => ipcRenderer.invoke('wallet:removeAccount', accountId),
+
+  // Encrypted backup files
+  exportBackup: (password: string, addressBook: any[]) => ipcRenderer.invoke('backup:export', password, addressBook),
+  importBackup: (password: string, addressBook: any[]) => ipcRenderer.invoke('backup:import', password, addressBook),
+
+  // Data encryption keys (requires unlocked wallet)
+  getDataKeys: () => ipcRenderer.invoke('keys:getStatus'),
+  rotateDataKeys: (purposes?: string[]) => ipcRenderer.invoke('keys:rotate', purposes),
+
   // Delete wallet
   delete: () => ipcRenderer.invoke('wallet:delete')
 };
@@ -48,7 +68,17 @@ const bookmarksAPI = {
   add: (bookmark: any) => ipcRenderer.invoke('bookmarks:add', bookmark),
   update: (id: string, updates: any) => ipcRenderer.invoke('bookmarks:update', id, updates),
   delete: (id: string) => ipcRenderer.invoke('bookmarks:delete', id),
-  syncToAleo: () => ipcRenderer.invoke('bookmarks:syncToAleo')
+  move: (id: string, folderId: string, index?: number) => ipcRenderer.invoke('bookmarks:move', id, folderId, index),
+  createFolder: (name: string, parentId?: string) => ipcRenderer.invoke('bookmarks:createFolder', name, parentId),
+  updateFolder: (id: string, updates: { name?: string; isExpanded?: boolean }) =>
+    ipcRenderer.invoke('bookmarks:updateFolder', id, updates),
+  moveFolder: (id: string, parentId?: string, index?: number) => ipcRenderer.invoke('bookmarks:moveFolder', id, parentId, index),
+  deleteFolder: (id: string) => ipcRenderer.invoke('bookmarks:deleteFolder', id),
+  syncToAleo: (bookmarkId?: string) => ipcRenderer.invoke('bookmarks:syncToAleo', bookmarkId),
+  restoreFromChain: () => ipcRenderer.invoke('bookmarks:restoreFromChain'),
+  pinToAleo: (id: string, pinned: boolean) => ipcRenderer.invoke('bookmarks:pinToAleo', id, pinned),
+  import: () => ipcRenderer.invoke('bookmarks:import'),
+  export: (format: 'html' | 'json') => ipcRenderer.invoke('bookmarks:export', format)
 };
 
 /**
@@ -58,7 +88,26 @@ const historyAPI = {
   getAll: (limit?: number) => ipcRenderer.invoke('history:getAll', limit),
   add: (entry: any) => ipcRenderer.invoke('history:add', entry),
   clear: () => ipcRenderer.invoke('history:clear'),
-  delete: (id: string) => ipcRenderer.invoke('history:delete', id)
+  delete: (id: string) => ipcRenderer.invoke('history:delete', id),
+  search: (query: string, options?: { from?: number; to?: number; domain?: string; limit?: number }) =>
+    ipcRenderer.invoke('history:search', query, options),
+  getSettings: () => ipcRenderer.invoke('history:getSettings'),
+  updateSettings: (updates: { retentionDays?: number; maxEntries?: number; indexPageText?: boolean }) =>
+    ipcRenderer.invoke('history:updateSettings', updates)
+};
+
+/**
+ * Address bar suggestions API
+ */
+const suggestionsAPI = {
+  get: (
+    input: string,
+    context?: {
+      openTabs?: Array<{ id: string; url: string; title: string; favicon?: string }>;
+      searchEngine?: string;
+      limit?: number;
+    }
+  ) => ipcRenderer.invoke('suggestions:get', input, context)
 };
 
 /**
@@ -69,7 +118,35 @@ const notesAPI = {
   add: (note: { title: string; content: string; tags?: string[] }) => ipcRenderer.invoke('notes:add', note),
   update: (id: string, updates: { title?: string; content?: string; tags?: string[] }) => ipcRenderer.invoke('notes:update', id, updates),
   delete: (id: string) => ipcRenderer.invoke('notes:delete', id),
-  syncToAleo: (noteId: string) => ipcRenderer.invoke('notes:syncToAleo', noteId)
+  syncToAleo: (noteId: string) => ipcRenderer.invoke('notes:syncToAleo', noteId),
+  restoreFromChain: () => ipcRenderer.invoke('notes:restoreFromChain'),
+  addAttachment: (noteId: string) => ipcRenderer.invoke('notes:addAttachment', noteId),
+  getAttachment: (noteId: string, attachmentId: string) => ipcRenderer.invoke('notes:getAttachment', noteId, attachmentId),
+  saveAttachment: (noteId: string, attachmentId: string) => ipcRenderer.invoke('notes:saveAttachment', noteId, attachmentId),
+  removeAttachment: (noteId: string, attachmentId: string) => ipcRenderer.invoke('notes:removeAttachment', noteId, attachmentId),
+  clipPage: () => ipcRenderer.invoke('notes:clipPage'),
+  share: (noteId: string, recipient: string) => ipcRenderer.invoke('notes:share', noteId, recipient),
+  getShares: () => ipcRenderer.invoke('notes:getShares'),
+  getInbox: () => ipcRenderer.invoke('notes:getInbox'),
+  removeReceived: (chainId: string) => ipcRenderer.invoke('notes:removeReceived', chainId)
+};
+
+/**
+ * Credentials API - Password manager with optional Aleo sync
+ */
+const credentialsAPI = {
+  list: (query?: string) => ipcRenderer.invoke('credentials:list', query),
+  get: (id: string) => ipcRenderer.invoke('credentials:get', id),
+  add: (credential: { origin: string; username: string; password: string; notes?: string }) => ipcRenderer.invoke('credentials:add', credential),
+  update: (id: string, updates: { origin?: string; username?: string; password?: string; notes?: string }) => ipcRenderer.invoke('credentials:update', id, updates),
+  delete: (id: string) => ipcRenderer.invoke('credentials:delete', id),
+  generatePassword: (options?: { length?: number; uppercase?: boolean; lowercase?: boolean; numbers?: boolean; symbols?: boolean }) =>
+    ipcRenderer.invoke('credentials:generatePassword', options),
+  checkStrength: (password: string) => ipcRenderer.invoke('credentials:checkStrength', password),
+  syncToAleo: (id: string) => ipcRenderer.invoke('credentials:syncToAleo', id),
+  restoreFromChain: () => ipcRenderer.invoke('credentials:restoreFromChain'),
+  respondSavePrompt: (promptId: string, action: 'save' | 'never' | 'dismiss') =>
+    ipcRenderer.invoke('credentials:respondSavePrompt', promptId, action)
 };
 
 /**
@@ -137,7 +214,26 @@ const privacyAPI = {
   setEnabled: (enabled: boolean) => ipcRenderer.invoke('privacy:setEnabled', enabled),
   updateSetting: (key: string, value: boolean | string) => ipcRenderer.invoke('privacy:updateSetting', key, value),
   getSiteStats: (hostname: string) => ipcRenderer.invoke('privacy:getSiteStats', hostname),
-  resetStats: () => ipcRenderer.invoke('privacy:resetStats')
+  getSiteSettings: (hostname: string) => ipcRenderer.invoke('privacy:getSiteSettings', hostname),
+  setSiteOverride: (hostname: string, key: string, value: boolean | null) =>
+    ipcRenderer.invoke('privacy:setSiteOverride', hostname, key, value),
+  resetSiteOverrides: (hostname: string) => ipcRenderer.invoke('privacy:resetSiteOverrides', hostname),
+  resetStats: () => ipcRenderer.invoke('privacy:resetStats'),
+
+  // Filter lists
+  getFilterLists: () => ipcRenderer.invoke('privacy:getFilterLists'),
+  addFilterList: (url: string, category: string) => ipcRenderer.invoke('privacy:addFilterList', url, category),
+  importFilterList: (category: string) => ipcRenderer.invoke('privacy:importFilterList', category),
+  updateFilterList: (id: string, updates: { enabled?: boolean; url?: string }) =>
+    ipcRenderer.invoke('privacy:updateFilterList', id, updates),
+  removeFilterList: (id: string) => ipcRenderer.invoke('privacy:removeFilterList', id),
+  refreshFilterLists: () => ipcRenderer.invoke('privacy:refreshFilterLists'),
+  setFilterUpdateInterval: (hours: number) => ipcRenderer.invoke('privacy:setFilterUpdateInterval', hours),
+  pickElement: () => ipcRenderer.invoke('privacy:pickElement'),
+  getHidingRules: (url: string) => ipcRenderer.invoke('privacy:getHidingRules', url),
+  removeHidingRule: (id: string) => ipcRenderer.invoke('privacy:removeHidingRule', id),
+  getWebRTCPolicy: () => ipcRenderer.invoke('privacy:getWebRTCPolicy'),
+  setWebRTCPolicy: (policy: string) => ipcRenderer.invoke('privacy:setWebRTCPolicy', policy)
 };
 
 /**
@@ -249,6 +345,12 @@ const windowAPI = {
 const permissionsAPI = {
   getConnectedSites: () => ipcRenderer.invoke('permissions:getConnectedSites'),
   disconnectSite: (origin: string) => ipcRenderer.invoke('permissions:disconnectSite', origin),
+  setSiteAccount: (origin: string, accountId: string) => ipcRenderer.invoke('permissions:setSiteAccount', origin, accountId),
+  updateRestrictions: (origin: string, restrictions: {
+    scopes?: Array<{ programId: string; functions?: string[]; autoApprove?: boolean; expiresAt?: number }> | null;
+    dailySpendLimit?: number | null;
+    expiresAt?: number | null;
+  }) => ipcRenderer.invoke('permissions:updateRestrictions', origin, restrictions),
   resolve: (requestId: string, granted: boolean) => ipcRenderer.invoke('permissions:resolve', requestId, granted)
 };
 
@@ -305,11 +407,38 @@ const eventsAPI = {
     ipcRenderer.on('window:focused', (_event, focused) => callback(focused));
   },
 
+  // Wallet events
+  onWalletBalanceChanged: (callback: (balance: { public: number; private: number; privatePending?: number }) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, balance: { public: number; private: number; privatePending?: number }) => callback(balance);
+    ipcRenderer.on('wallet:balanceChanged', listener);
+    return () => {
+      ipcRenderer.removeListener('wallet:balanceChanged', listener);
+    };
+  },
+
+  onWalletLocked: (callback: () => void) => {
+    const listener = () => callback();
+    ipcRenderer.on('wallet:locked', listener);
+    return () => {
+      ipcRenderer.removeListener('wallet:locked', listener);
+    };
+  },
+
   // Permission events
   onPermissionRequest: (callback: (data: any) => void) => {
     ipcRenderer.on('permission:request', (_event, data) => callback(data));
   },
 
+  // A login was submitted on a page and can be saved
+  onCredentialSavePrompt: (callback: (prompt: { promptId: string; origin: string; username: string; isUpdate: boolean }) => void) => {
+    ipcRenderer.on('credentials:savePrompt', (_event, prompt) => callback(prompt));
+  },
+
+  // Notes events
+  onNotesClip: (callback: (clip: { url: string; title: string; selection: string }) => void) => {
+    ipcRenderer.on('notes:clip', (_event, clip) => callback(clip));
+  },
+
   // Find in page events
   onFindInPageResult: (callback: (result: { matches: number; activeMatchOrdinal: number; finalUpdate: boolean }) => void) => {
     ipcRenderer.on('findInPage:result', (_event, result) => callback(result));
@@ -404,8 +533,14 @@ const eventsAPI = {
     // Window events
     ipcRenderer.removeAllListeners('window:maximized');
     ipcRenderer.removeAllListeners('window:focused');
+    // Wallet events
+    ipcRenderer.removeAllListeners('wallet:balanceChanged');
+    ipcRenderer.removeAllListeners('wallet:locked');
     // Permission events
     ipcRenderer.removeAllListeners('permission:request');
+    // Credential events
+    ipcRenderer.removeAllListeners('credentials:savePrompt');
+    ipcRenderer.removeAllListeners('notes:clip');
     // Find events
     ipcRenderer.removeAllListeners('findInPage:result');
     // Download events
@@ -460,7 +595,9 @@ contextBridge.exposeInMainWorld('electron', {
   wallet: walletAPI,
   bookmarks: bookmarksAPI,
   history: historyAPI,
+  suggestions: suggestionsAPI,
   notes: notesAPI,
+  credentials: credentialsAPI,
   browser: browserAPI,
   downloads: downloadsAPI,
   session: sessionAPI,
@@ -486,7 +623,9 @@ export interface ElectronAPI {
   wallet: typeof walletAPI;
   bookmarks: typeof bookmarksAPI;
   history: typeof historyAPI;
+  suggestions: typeof suggestionsAPI;
   notes: typeof notesAPI;
+  credentials: typeof credentialsAPI;
   browser: typeof browserAPI;
   downloads: typeof downloadsAPI;
   session: typeof sessionAPI;
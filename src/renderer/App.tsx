@@ -10,10 +10,13 @@ import { NewTabPage } from './components/browser/NewTabPage';
 import { ShieldsPanel } from './components/browser/ShieldsPanel';
 import { BookmarkBar } from './components/bookmarks/BookmarkBar';
 import { AddBookmarkModal } from './components/bookmarks/AddBookmarkModal';
-import { TransactionApproval, TransactionDetails } from './components/dapp';
+import { TransactionApproval, TransactionDetails, DeployApproval, DeploymentDetails } from './components/dapp';
 import { NotesPanel } from './components/notes';
+import { CredentialsPanel, SavePasswordPrompt } from './components/credentials';
+import { HistoryPanel } from './components/history';
 import { useBookmarkStore, useIsBookmarked } from './stores/bookmarkStore';
-import type { Bookmark, BookmarkFolder } from '../shared/types';
+import { useNotesStore } from './stores/notesStore';
+import type { Bookmark, PageClip } from '../shared/types';
 
 // Pending transaction request state
 interface PendingTransaction {
@@ -21,6 +24,12 @@ interface PendingTransaction {
   transaction: TransactionDetails;
 }
 
+// Pending program deployment request state
+interface PendingDeployment {
+  origin: string;
+  deployment: DeploymentDetails;
+}
+
 interface Tab {
   id: string;
   title: string;
@@ -48,17 +57,20 @@ const App: React.FC = () => {
   const [isDownloadBarOpen, setIsDownloadBarOpen] = useState(false);
   const [isShieldsPanelOpen, setIsShieldsPanelOpen] = useState(false);
   const [isNotesOpen, setIsNotesOpen] = useState(false);
+  const [isCredentialsOpen, setIsCredentialsOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [isBookmarkModalOpen, setIsBookmarkModalOpen] = useState(false);
   const [showBookmarkBar, setShowBookmarkBar] = useState(true);
 
   // Transaction approval state
   const [pendingTransaction, setPendingTransaction] = useState<PendingTransaction | null>(null);
+  const [pendingDeployment, setPendingDeployment] = useState<PendingDeployment | null>(null);
   const [walletBalance, setWalletBalance] = useState<number>(0);
 
   // Bookmark store
   const {
     bookmarks,
-    folders: bookmarkFolderNames,
+    folders: bookmarkFolders,
     loadBookmarks,
     addBookmark,
     deleteBookmark: removeBookmark,
@@ -98,13 +110,12 @@ const App: React.FC = () => {
     loadBookmarks();
   }, [loadBookmarks]);
 
-  // Convert folder names to BookmarkFolder objects for the modal
-  const bookmarkFolders: BookmarkFolder[] = bookmarkFolderNames.map((name, index) => ({
-    id: name,
-    name: name,
-    createdAt: Date.now(),
-    updatedAt: Date.now(),
-  }));
+  // Open history from the keyboard shortcut
+  useEffect(() => {
+    const showHistory = () => setIsHistoryOpen(true);
+    window.addEventListener('show-history', showHistory);
+    return () => window.removeEventListener('show-history', showHistory);
+  }, []);
 
   // Check if current URL is bookmarked
   const currentUrl = tabs.find(t => t.id === activeTabId)?.url || '';
@@ -311,9 +322,33 @@ const App: React.FC = () => {
           origin: data.origin || 'AleoBrowser',
           transaction: data.transaction,
         });
+      } else if (data.type === 'deploy' && data.deployment) {
+        // Deployment fees can only be paid from the public balance
+        window.electron.wallet.getBalance().then((result: { success: boolean; public?: number }) => {
+          if (result.success) {
+            setWalletBalance(result.public || 0);
+          }
+        });
+
+        setPendingDeployment({
+          origin: data.origin || 'AleoBrowser',
+          deployment: data.deployment,
+        });
       }
     });
 
+    // Approvals are rejected in main when the wallet locks; drop their modals
+    window.electron.events.onWalletLocked(() => {
+      setPendingTransaction(null);
+      setPendingDeployment(null);
+    });
+
+    // Page clipped from the context menu: open it in the notes panel
+    window.electron.events.onNotesClip((clip: PageClip) => {
+      useNotesStore.getState().setPendingClip(clip);
+      setIsNotesOpen(true);
+    });
+
     // Cleanup on unmount only
     return () => {
       window.electron.events.removeAllListeners();
@@ -494,10 +529,7 @@ const App: React.FC = () => {
     }
 
     // Wallet is ready - save bookmark and sync to Aleo
-    await addBookmark({
-      ...bookmarkData,
-      folder: bookmarkData.folderId || 'Other Bookmarks',
-    });
+    await addBookmark(bookmarkData);
     setIsBookmarkModalOpen(false);
   };
 
@@ -563,6 +595,21 @@ const App: React.FC = () => {
     setPendingTransaction(null);
   };
 
+  // Deployment approval handlers
+  const handleDeployApprove = async () => {
+    console.log('[App] Deployment approved');
+    const origin = pendingDeployment?.origin || 'browser:internal';
+    await window.electron.dapp.respondToPermission(true, origin);
+    setPendingDeployment(null);
+  };
+
+  const handleDeployReject = () => {
+    console.log('[App] Deployment rejected');
+    const origin = pendingDeployment?.origin || 'browser:internal';
+    window.electron.dapp.respondToPermission(false, origin);
+    setPendingDeployment(null);
+  };
+
   // Check if current URL is .aleo site
   const isAleoSite = activeTab?.url.includes('.aleo') || false;
   const isSecure = activeTab?.url.startsWith('https://') || false;
@@ -650,7 +697,9 @@ const App: React.FC = () => {
           isSecure={isSecure}
           isAleoSite={isAleoSite}
           isBookmarked={isCurrentPageBookmarked}
+          openTabs={tabs.filter(t => t.id !== activeTabId && !t.isNewTab)}
           onNavigate={handleNavigate}
+          onSwitchTab={handleTabClick}
           onToggleBookmark={handleToggleBookmark}
         />
 
@@ -716,6 +765,60 @@ const App: React.FC = () => {
           </svg>
         </button>
 
+        {/* History toggle button */}
+        <button
+          onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+          className={`
+            ml-2 w-9 h-9 rounded-lg flex items-center justify-center transition-all
+            ${isHistoryOpen
+              ? 'bg-[#00d4aa] text-[#0a0a0f] glow-accent'
+              : 'bg-[#1a1a24] text-[#a1a1aa] hover:bg-[#27272a]'
+            }
+          `}
+          title="History"
+        >
+          <svg
+            className="w-5 h-5"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+            />
+          </svg>
+        </button>
+
+        {/* Passwords toggle button */}
+        <button
+          onClick={() => setIsCredentialsOpen(!isCredentialsOpen)}
+          className={`
+            ml-2 w-9 h-9 rounded-lg flex items-center justify-center transition-all
+            ${isCredentialsOpen
+              ? 'bg-[#00d4aa] text-[#0a0a0f] glow-accent'
+              : 'bg-[#1a1a24] text-[#00d4aa] hover:bg-[#27272a]'
+            }
+          `}
+          title="Passwords"
+        >
+          <svg
+            className="w-5 h-5"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z"
+            />
+          </svg>
+        </button>
+
         {/* Wallet toggle button */}
         <button
           onClick={() => setIsWalletOpen(!isWalletOpen)}
@@ -760,11 +863,7 @@ const App: React.FC = () => {
       {/* Bookmark Bar */}
       {showBookmarkBar && (
         <BookmarkBar
-          bookmarks={bookmarks.map(b => ({
-            ...b,
-            createdAt: b.createdAt || Date.now(),
-            updatedAt: b.createdAt || Date.now(),
-          }))}
+          bookmarks={bookmarks}
           folders={bookmarkFolders}
           onBookmarkClick={handleBookmarkBarClick}
           onAddBookmark={handleAddBookmarkFromBar}
@@ -794,8 +893,25 @@ const App: React.FC = () => {
         <NotesPanel
           isOpen={isNotesOpen}
           onClose={() => setIsNotesOpen(false)}
+          onNavigate={handleNavigate}
+        />
+
+        {/* Passwords Panel */}
+        <CredentialsPanel
+          isOpen={isCredentialsOpen}
+          onClose={() => setIsCredentialsOpen(false)}
         />
 
+        {/* History Panel */}
+        <HistoryPanel
+          isOpen={isHistoryOpen}
+          onClose={() => setIsHistoryOpen(false)}
+          onNavigate={handleNavigate}
+        />
+
+        {/* Save Password Prompt */}
+        <SavePasswordPrompt />
+
         {/* Download Bar */}
         <DownloadBar
           isOpen={isDownloadBarOpen}
@@ -832,6 +948,19 @@ const App: React.FC = () => {
           walletBalance={walletBalance}
         />
       )}
+
+      {/* Deployment Approval Modal */}
+      {pendingDeployment && (
+        <DeployApproval
+          isOpen={true}
+          onClose={() => setPendingDeployment(null)}
+          onApprove={handleDeployApprove}
+          onReject={handleDeployReject}
+          origin={pendingDeployment.origin}
+          deployment={pendingDeployment.deployment}
+          walletBalance={walletBalance}
+        />
+      )}
     </div>
   );
 };
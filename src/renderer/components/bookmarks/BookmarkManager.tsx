@@ -1,5 +1,5 @@
 import React, { useState, useMemo } from 'react';
-import { Bookmark, BookmarkFolder } from '../../../shared/types';
+import { Bookmark, BookmarkFolder, BookmarkImportResult } from '../../../shared/types';
 import { BookmarkItem } from './BookmarkItem';
 import { FolderTree } from './FolderTree';
 import { AddBookmarkModal } from './AddBookmarkModal';
@@ -14,6 +14,9 @@ interface BookmarkManagerProps {
   onUpdateFolder: (id: string, folder: Partial<BookmarkFolder>) => void;
   onDeleteFolder: (id: string) => void;
   onSyncToAleo?: () => void;
+  onRestoreFromAleo?: () => void;
+  onImport?: () => Promise<BookmarkImportResult | null>;
+  onExport?: (format: 'html' | 'json') => void;
   onOpenUrl: (url: string) => void;
   isSyncing?: boolean;
 }
@@ -27,7 +30,8 @@ interface BookmarkManagerProps {
  * - Bookmark items display
  * - Add bookmark button
  * - Search/filter input
- * - Sync to Aleo button
+ * - Sync to Aleo / restore from Aleo buttons
+ * - Import (Netscape HTML or JSON) and export buttons, with an import report
  * - Empty state message
  *
  * Features:
@@ -61,6 +65,9 @@ export const BookmarkManager: React.FC<BookmarkManagerProps> = ({
   onUpdateFolder,
   onDeleteFolder,
   onSyncToAleo,
+  onRestoreFromAleo,
+  onImport,
+  onExport,
   onOpenUrl,
   isSyncing = false,
 }) => {
@@ -71,6 +78,8 @@ export const BookmarkManager: React.FC<BookmarkManagerProps> = ({
   const [showAddModal, setShowAddModal] = useState(false);
   const [editingBookmark, setEditingBookmark] = useState<Bookmark | undefined>();
   const [showSidebar, setShowSidebar] = useState(true);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [importReport, setImportReport] = useState<BookmarkImportResult | null>(null);
 
   // Filter and sort bookmarks
   const filteredBookmarks = useMemo(() => {
@@ -117,6 +126,19 @@ export const BookmarkManager: React.FC<BookmarkManagerProps> = ({
     setEditingBookmark(undefined);
   };
 
+  const handleImport = async () => {
+    if (!onImport) return;
+    const result = await onImport();
+    if (result) {
+      setImportReport(result);
+    }
+  };
+
+  const handleExport = (format: 'html' | 'json') => {
+    setShowExportMenu(false);
+    onExport?.(format);
+  };
+
   const handleEditBookmark = (bookmark: Bookmark) => {
     setEditingBookmark(bookmark);
     setShowAddModal(true);
@@ -245,9 +267,112 @@ export const BookmarkManager: React.FC<BookmarkManagerProps> = ({
               {isSyncing ? 'Syncing...' : 'Sync to Aleo'}
             </button>
           )}
+
+          {/* Restore from Aleo */}
+          {onRestoreFromAleo && (
+            <button
+              onClick={onRestoreFromAleo}
+              disabled={isSyncing}
+              className="px-4 py-2 bg-bg-elevated text-text-primary rounded-lg font-medium text-sm hover:bg-bg-elevated/80 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label="Restore from Aleo"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+              Restore from Aleo
+            </button>
+          )}
+
+          {/* Import */}
+          {onImport && (
+            <button
+              onClick={handleImport}
+              className="px-4 py-2 bg-bg-elevated text-text-primary rounded-lg font-medium text-sm hover:bg-bg-elevated/80 transition-colors flex items-center gap-2"
+              aria-label="Import bookmarks"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+              </svg>
+              Import
+            </button>
+          )}
+
+          {/* Export */}
+          {onExport && (
+            <div className="relative">
+              <button
+                onClick={() => setShowExportMenu(!showExportMenu)}
+                className="px-4 py-2 bg-bg-elevated text-text-primary rounded-lg font-medium text-sm hover:bg-bg-elevated/80 transition-colors flex items-center gap-2"
+                aria-label="Export bookmarks"
+                aria-expanded={showExportMenu}
+              >
+                Export
+                <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </button>
+              {showExportMenu && (
+                <div className="absolute right-0 mt-1 w-56 bg-bg-secondary border border-bg-elevated rounded-lg shadow-lg z-10 py-1">
+                  <button
+                    onClick={() => handleExport('html')}
+                    className="w-full px-3 py-2 text-left text-sm text-text-primary hover:bg-bg-elevated transition-colors"
+                  >
+                    HTML
+                    <span className="block text-xs text-text-muted">For Chrome, Firefox and other browsers</span>
+                  </button>
+                  <button
+                    onClick={() => handleExport('json')}
+                    className="w-full px-3 py-2 text-left text-sm text-text-primary hover:bg-bg-elevated transition-colors"
+                  >
+                    JSON
+                    <span className="block text-xs text-text-muted">Complete copy with tags and favorites</span>
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
+      {/* Import report */}
+      {importReport && (
+        <div className="px-6 py-3 border-b border-bg-elevated bg-bg-secondary">
+          <div className="flex items-start justify-between gap-4">
+            <div className="text-sm text-text-primary">
+              Imported {importReport.added} bookmark{importReport.added !== 1 ? 's' : ''}
+              {importReport.foldersCreated > 0 && ` into ${importReport.foldersCreated} new folder${importReport.foldersCreated !== 1 ? 's' : ''}`}
+              {importReport.skipped > 0 && (
+                <span className="text-text-muted"> ({importReport.skipped} unsupported skipped)</span>
+              )}
+              {importReport.duplicates.length > 0 && (
+                <details className="mt-1">
+                  <summary className="text-text-secondary cursor-pointer">
+                    {importReport.duplicates.length} duplicate{importReport.duplicates.length !== 1 ? 's' : ''} not imported
+                  </summary>
+                  <ul className="mt-1 max-h-40 overflow-y-auto text-xs text-text-muted space-y-0.5">
+                    {importReport.duplicates.map((duplicate, index) => (
+                      <li key={index} className="truncate">
+                        {duplicate.folder && <span className="text-text-secondary">{duplicate.folder} / </span>}
+                        {duplicate.title} - {duplicate.url}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+            <button
+              onClick={() => setImportReport(null)}
+              className="p-1 rounded text-text-muted hover:text-text-primary transition-colors"
+              aria-label="Dismiss import report"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Main content */}
       <div className="flex flex-1 overflow-hidden">
         {/* Sidebar */}
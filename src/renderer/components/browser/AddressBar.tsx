@@ -1,26 +1,49 @@
 import React, { useState, useEffect, FormEvent, forwardRef, useImperativeHandle, useRef } from 'react';
 import { ReaderButton } from './ReaderButton';
+import { ipc, type Suggestion } from '../../lib/ipc';
+import { useSettingsStore } from '../../stores/settingsStore';
+import type { OpenTabInfo } from '../../../shared/types';
 
 interface AddressBarProps {
   url: string;
   isSecure: boolean;
   isAleoSite: boolean;
   isBookmarked: boolean;
+  openTabs?: OpenTabInfo[];
   onNavigate: (url: string) => void;
+  onSwitchTab?: (tabId: string) => void;
   onToggleBookmark: () => void;
 }
 
+const SUGGESTION_LABELS: Record<Suggestion['type'], string> = {
+  typed: 'Go to',
+  search: 'Search',
+  keyword: 'Search',
+  tab: 'Switch to tab',
+  bookmark: 'Bookmark',
+  history: 'History'
+};
+
 export const AddressBar = forwardRef<HTMLInputElement, AddressBarProps>(({
   url,
   isSecure,
   isAleoSite,
   isBookmarked,
+  openTabs,
   onNavigate,
+  onSwitchTab,
   onToggleBookmark,
 }, ref) => {
   const [inputValue, setInputValue] = useState(url);
   const [isFocused, setIsFocused] = useState(false);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
+  const requestRef = useRef(0);
+  const wasOpenRef = useRef(false);
+  const searchEngine = useSettingsStore((state) => state.searchEngine);
+
+  const isDropdownOpen = isFocused && suggestions.length > 0;
 
   // Expose input ref methods to parent
   useImperativeHandle(ref, () => inputRef.current!, []);
@@ -31,9 +54,55 @@ export const AddressBar = forwardRef<HTMLInputElement, AddressBarProps>(({
     }
   }, [url, isFocused]);
 
+  // The dropdown is drawn over the page, so hide the BrowserView while it shows
+  useEffect(() => {
+    if (isDropdownOpen) {
+      window.electron.ui?.setBrowserViewVisible(false);
+    } else if (wasOpenRef.current) {
+      window.electron.ui?.setBrowserViewVisible(true);
+    }
+    wasOpenRef.current = isDropdownOpen;
+  }, [isDropdownOpen]);
+
+  const closeSuggestions = () => {
+    requestRef.current++;
+    setSuggestions([]);
+  };
+
+  const handleChange = async (value: string) => {
+    setInputValue(value);
+
+    if (!value.trim()) {
+      closeSuggestions();
+      return;
+    }
+
+    // Only the latest request may update the list
+    const request = ++requestRef.current;
+    const results = await ipc.getSuggestions(value, { openTabs, searchEngine });
+    if (request === requestRef.current) {
+      setSuggestions(results);
+      setSelectedIndex(0);
+    }
+  };
+
+  const chooseSuggestion = (suggestion: Suggestion) => {
+    closeSuggestions();
+    if (suggestion.tabId && onSwitchTab) {
+      onSwitchTab(suggestion.tabId);
+    } else {
+      onNavigate(suggestion.url);
+    }
+    inputRef.current?.blur();
+  };
+
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
-    if (inputValue.trim()) {
+    const selected = isDropdownOpen ? suggestions[selectedIndex] : undefined;
+    if (selected) {
+      chooseSuggestion(selected);
+    } else if (inputValue.trim()) {
+      closeSuggestions();
       onNavigate(inputValue);
       inputRef.current?.blur();
     }
@@ -50,12 +119,23 @@ export const AddressBar = forwardRef<HTMLInputElement, AddressBarProps>(({
   const handleBlur = () => {
     setIsFocused(false);
     setInputValue(url);
+    closeSuggestions();
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Escape') {
-      setInputValue(url);
-      inputRef.current?.blur();
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (!isDropdownOpen) return;
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSelectedIndex((index) => (index + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Escape') {
+      // First Escape closes the suggestions, the second restores the address
+      if (isDropdownOpen) {
+        closeSuggestions();
+      } else {
+        setInputValue(url);
+        inputRef.current?.blur();
+      }
     }
   };
 
@@ -63,7 +143,7 @@ export const AddressBar = forwardRef<HTMLInputElement, AddressBarProps>(({
     <form
       onSubmit={handleSubmit}
       className={`
-        flex-1 flex items-center gap-2 px-3 h-9 mx-2 rounded-lg
+        relative flex-1 flex items-center gap-2 px-3 h-9 mx-2 rounded-lg
         bg-[#111118] border transition-all
         ${isFocused
           ? 'border-[#00d4aa] glow-accent'
@@ -117,14 +197,68 @@ export const AddressBar = forwardRef<HTMLInputElement, AddressBarProps>(({
         ref={inputRef}
         type="text"
         value={inputValue}
-        onChange={(e) => setInputValue(e.target.value)}
+        onChange={(e) => handleChange(e.target.value)}
         onFocus={handleFocus}
         onBlur={handleBlur}
         onKeyDown={handleKeyDown}
         placeholder="Search or enter address..."
+        role="combobox"
+        aria-expanded={isDropdownOpen}
+        aria-controls="address-suggestions"
+        aria-activedescendant={isDropdownOpen ? `address-suggestion-${selectedIndex}` : undefined}
         className="flex-1 bg-transparent text-sm text-[#e4e4e7] placeholder-[#52525b] outline-none"
       />
 
+      {/* Suggestions dropdown */}
+      {isDropdownOpen && (
+        <ul
+          id="address-suggestions"
+          role="listbox"
+          className="absolute left-0 right-0 top-full mt-1 py-1 bg-[#111118] border border-[#27272a] rounded-lg shadow-2xl z-50 overflow-hidden"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={`${suggestion.type}:${suggestion.url}`}
+              id={`address-suggestion-${index}`}
+              role="option"
+              aria-selected={index === selectedIndex}
+              // Keep focus in the input so the click is not lost to blur
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => chooseSuggestion(suggestion)}
+              onMouseEnter={() => setSelectedIndex(index)}
+              className={`flex items-center gap-3 px-3 py-1.5 cursor-pointer ${
+                index === selectedIndex ? 'bg-[#1a1a24]' : ''
+              }`}
+            >
+              <div className="w-4 h-4 flex-shrink-0 flex items-center justify-center">
+                {suggestion.favicon ? (
+                  <img src={suggestion.favicon} alt="" className="w-4 h-4" />
+                ) : suggestion.type === 'search' || suggestion.type === 'keyword' ? (
+                  <svg className="w-4 h-4 text-[#71717a]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                  </svg>
+                ) : (
+                  <div className="w-3 h-3 rounded bg-[#27272a]" />
+                )}
+              </div>
+              <span className="flex-1 min-w-0 truncate text-sm text-[#e4e4e7]">
+                {suggestion.title}
+                {suggestion.type !== 'typed' && suggestion.type !== 'search' && suggestion.type !== 'keyword' && (
+                  <span className="ml-2 text-xs text-[#71717a]">{suggestion.url}</span>
+                )}
+              </span>
+              <span
+                className={`flex-shrink-0 text-xs ${
+                  suggestion.type === 'tab' ? 'text-[#00d4aa]' : 'text-[#52525b]'
+                }`}
+              >
+                {SUGGESTION_LABELS[suggestion.type]}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* Reader mode button */}
       <ReaderButton url={url} />
 
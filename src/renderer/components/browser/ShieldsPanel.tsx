@@ -1,11 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
+import type { ElementHidingRule, SiteShieldsStats, SiteShieldsOverrides, SiteShieldsSetting, BlockedRequest } from '../../../shared/types';
 
-interface ShieldsStats {
-  adsBlocked: number;
-  trackersBlocked: number;
-  fingerprintingAttempts: number;
-  httpsUpgrades: number;
-}
+const CATEGORY_LABELS: Record<BlockedRequest['category'], string> = {
+  ads: 'Ad',
+  trackers: 'Tracker',
+  fingerprinting: 'Fingerprinting',
+  custom: 'Custom',
+};
+
+const STATS_REFRESH_INTERVAL = 2000;
 
 interface ShieldsPanelProps {
   isOpen: boolean;
@@ -21,19 +24,18 @@ export const ShieldsPanel: React.FC<ShieldsPanelProps> = ({
   anchorRef,
 }) => {
   const [shieldsEnabled, setShieldsEnabled] = useState(true);
-  const [stats, setStats] = useState<ShieldsStats>({
-    adsBlocked: 0,
-    trackersBlocked: 0,
-    fingerprintingAttempts: 0,
-    httpsUpgrades: 0,
-  });
+  const [stats, setStats] = useState<SiteShieldsStats | null>(null);
+  const [overrides, setOverrides] = useState<SiteShieldsOverrides>({});
+  const [showBlocked, setShowBlocked] = useState(false);
   const [settings, setSettings] = useState({
     blockAds: true,
     blockTrackers: true,
     httpsEverywhere: true,
     blockFingerprinting: true,
+    fingerprintProtection: 'standard' as 'standard' | 'strict',
     blockCookies: 'third-party' as 'all' | 'third-party' | 'none',
   });
+  const [hidingRules, setHidingRules] = useState<ElementHidingRule[]>([]);
   const panelRef = useRef<HTMLDivElement>(null);
 
   // Get hostname from URL
@@ -45,43 +47,48 @@ export const ShieldsPanel: React.FC<ShieldsPanelProps> = ({
     }
   };
 
-  // Load stats for current site
+  // Shields settings and stats apply to web pages only
+  const site = /^https?:/.test(currentUrl) ? getHostname(currentUrl) : '';
+
+  // Load stats for current site, refreshed while the page keeps loading
   useEffect(() => {
     const loadStats = async () => {
       try {
-        const result = await window.electron.privacy.getStats();
-        if (result) {
-          setStats({
-            adsBlocked: result.adsBlocked || 0,
-            trackersBlocked: result.trackersBlocked || 0,
-            fingerprintingAttempts: result.fingerprintingAttempts || 0,
-            httpsUpgrades: result.httpsUpgrades || 0,
-          });
+        const result = await window.electron.privacy.getSiteStats(site);
+        if (result.success) {
+          setStats(result.stats);
         }
       } catch (error) {
         console.error('Failed to load privacy stats:', error);
       }
     };
 
-    if (isOpen) {
-      loadStats();
-    }
-  }, [isOpen, currentUrl]);
+    setStats(null);
+    if (!isOpen || !site) return;
+
+    loadStats();
+    const timer = setInterval(loadStats, STATS_REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [isOpen, site]);
 
-  // Load settings
+  // Load settings: the site's Shields settings, and global fingerprinting and cookie control
   useEffect(() => {
     const loadSettings = async () => {
       try {
         const result = await window.electron.privacy.getSettings();
+        const siteResult = site ? await window.electron.privacy.getSiteSettings(site) : null;
+        const siteSettings = siteResult?.success ? siteResult.settings : result;
         if (result) {
           setSettings({
-            blockAds: result.blockAds ?? true,
-            blockTrackers: result.blockTrackers ?? true,
-            httpsEverywhere: result.httpsEverywhere ?? true,
-            blockFingerprinting: result.blockFingerprinting ?? true,
+            blockAds: siteSettings.blockAds ?? true,
+            blockTrackers: siteSettings.blockTrackers ?? true,
+            httpsEverywhere: siteSettings.httpsEverywhere ?? true,
+            blockFingerprinting: siteSettings.blockFingerprinting ?? true,
+            fingerprintProtection: result.fingerprintProtection ?? 'standard',
             blockCookies: result.blockCookies ?? 'third-party',
           });
-          setShieldsEnabled(result.enabled ?? true);
+          setShieldsEnabled(siteSettings.enabled ?? true);
+          setOverrides(siteResult?.success ? siteResult.overrides || {} : {});
         }
       } catch (error) {
         console.error('Failed to load privacy settings:', error);
@@ -91,7 +98,25 @@ export const ShieldsPanel: React.FC<ShieldsPanelProps> = ({
     if (isOpen) {
       loadSettings();
     }
-  }, [isOpen]);
+  }, [isOpen, site]);
+
+  // Load elements hidden on this site
+  useEffect(() => {
+    const loadHidingRules = async () => {
+      try {
+        const result = await window.electron.privacy.getHidingRules(currentUrl);
+        setHidingRules(result.success ? result.rules || [] : []);
+      } catch (error) {
+        console.error('Failed to load hidden elements:', error);
+      }
+    };
+
+    if (isOpen && /^https?:/.test(currentUrl)) {
+      loadHidingRules();
+    } else {
+      setHidingRules([]);
+    }
+  }, [isOpen, currentUrl]);
 
   // Close on click outside
   useEffect(() => {
@@ -124,31 +149,86 @@ export const ShieldsPanel: React.FC<ShieldsPanelProps> = ({
     }
   }, [isOpen]);
 
-  // Toggle shields
-  const handleToggleShields = async () => {
-    const newValue = !shieldsEnabled;
-    setShieldsEnabled(newValue);
+  // Override a setting on this site, then reload the page so it applies
+  const setSiteOverride = async (key: SiteShieldsSetting, value: boolean) => {
     try {
-      await window.electron.privacy.setEnabled(newValue);
+      const result = await window.electron.privacy.setSiteOverride(site, key, value);
+      if (result.success) {
+        setOverrides(result.overrides || {});
+        window.electron.browser.reload();
+      }
     } catch (error) {
-      console.error('Failed to toggle shields:', error);
+      console.error('Failed to update site setting:', error);
     }
   };
 
-  // Update individual settings
+  // Toggle shields on this site
+  const handleToggleShields = async () => {
+    const newValue = !shieldsEnabled;
+    setShieldsEnabled(newValue);
+    await setSiteOverride('enabled', newValue);
+  };
+
+  // Update individual settings: Shields switches per site, fingerprinting level and cookie control globally
   const handleSettingChange = async (key: string, value: boolean | string) => {
     setSettings((prev) => ({ ...prev, [key]: value }));
+    if (typeof value === 'boolean') {
+      await setSiteOverride(key as SiteShieldsSetting, value);
+      return;
+    }
     try {
       await window.electron.privacy.updateSetting(key, value);
+      if (key === 'fingerprintProtection') {
+        window.electron.browser.reload();
+      }
     } catch (error) {
       console.error('Failed to update setting:', error);
     }
   };
 
+  // Make this site follow the global settings again
+  const handleResetSite = async () => {
+    try {
+      await window.electron.privacy.resetSiteOverrides(site);
+      const result = await window.electron.privacy.getSiteSettings(site);
+      if (result.success) {
+        setSettings((prev) => ({ ...prev, ...result.settings }));
+        setShieldsEnabled(result.settings.enabled);
+        setOverrides({});
+      }
+      window.electron.browser.reload();
+    } catch (error) {
+      console.error('Failed to reset site settings:', error);
+    }
+  };
+
+  // Close the panel so the page is visible, then let the user click an element to hide
+  const handlePickElement = async () => {
+    onClose();
+    try {
+      const result = await window.electron.privacy.pickElement();
+      if (!result.success && !result.canceled) {
+        console.error('Failed to hide element:', result.error);
+      }
+    } catch (error) {
+      console.error('Failed to hide element:', error);
+    }
+  };
+
+  const handleRemoveHidingRule = async (id: string) => {
+    setHidingRules((prev) => prev.filter((rule) => rule.id !== id));
+    try {
+      await window.electron.privacy.removeHidingRule(id);
+    } catch (error) {
+      console.error('Failed to remove hidden element:', error);
+    }
+  };
+
   if (!isOpen) return null;
 
   const hostname = getHostname(currentUrl);
-  const totalBlocked = stats.adsBlocked + stats.trackersBlocked;
+  const page = stats?.page;
+  const siteTotal = stats?.site.totalBlocked || 0;
 
   return (
     <div
@@ -164,8 +244,9 @@ export const ShieldsPanel: React.FC<ShieldsPanelProps> = ({
           </div>
           <button
             onClick={handleToggleShields}
+            disabled={!site}
             className={`
-              relative w-12 h-6 rounded-full transition-colors
+              relative w-12 h-6 rounded-full transition-colors disabled:opacity-50
               ${shieldsEnabled ? 'bg-[#00d4aa]' : 'bg-[#3f3f46]'}
             `}
           >
@@ -177,45 +258,117 @@ export const ShieldsPanel: React.FC<ShieldsPanelProps> = ({
             />
           </button>
         </div>
-        <p className="text-sm text-[#a1a1aa] truncate" title={hostname}>
-          {hostname}
-        </p>
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm text-[#a1a1aa] truncate" title={hostname}>
+            {hostname}
+          </p>
+          {Object.keys(overrides).length > 0 && (
+            <button
+              onClick={handleResetSite}
+              className="flex-shrink-0 text-xs text-[#71717a] hover:text-[#00d4aa] transition-colors"
+              title="This site has its own Shields settings"
+            >
+              Use defaults
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Stats Grid */}
       <div className="grid grid-cols-2 gap-3 p-4 border-b border-[#27272a]">
         <div className="text-center p-3 bg-[#0a0a0f] rounded-lg">
-          <div className="text-2xl font-bold text-[#00d4aa]">{stats.adsBlocked}</div>
+          <div className="text-2xl font-bold text-[#00d4aa]">{page?.adsBlocked || 0}</div>
           <div className="text-xs text-[#71717a]">Ads Blocked</div>
         </div>
         <div className="text-center p-3 bg-[#0a0a0f] rounded-lg">
-          <div className="text-2xl font-bold text-[#00d4aa]">{stats.trackersBlocked}</div>
+          <div className="text-2xl font-bold text-[#00d4aa]">{page?.trackersBlocked || 0}</div>
           <div className="text-xs text-[#71717a]">Trackers</div>
         </div>
         <div className="text-center p-3 bg-[#0a0a0f] rounded-lg">
-          <div className="text-2xl font-bold text-[#3b82f6]">{stats.httpsUpgrades}</div>
+          <div className="text-2xl font-bold text-[#3b82f6]">{page?.httpsUpgrades || 0}</div>
           <div className="text-xs text-[#71717a]">HTTPS Upgrades</div>
         </div>
         <div className="text-center p-3 bg-[#0a0a0f] rounded-lg">
-          <div className="text-2xl font-bold text-[#f59e0b]">{stats.fingerprintingAttempts}</div>
+          <div className="text-2xl font-bold text-[#f59e0b]">{page?.fingerprintingBlocked || 0}</div>
           <div className="text-xs text-[#71717a]">Fingerprint</div>
         </div>
       </div>
 
+      {/* Blocked Requests */}
+      {stats && stats.blocked.length > 0 && (
+        <div className="border-b border-[#27272a]">
+          <button
+            onClick={() => setShowBlocked(!showBlocked)}
+            className="w-full flex items-center justify-between px-4 py-2 text-xs text-[#a1a1aa] hover:text-[#e4e4e7] transition-colors"
+          >
+            <span>Blocked on this page ({stats.page.totalBlocked})</span>
+            <svg
+              className={`w-3 h-3 transition-transform ${showBlocked ? 'rotate-180' : ''}`}
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+          {showBlocked && (
+            <div className="max-h-48 overflow-y-auto px-4 pb-3 space-y-2">
+              {stats.blocked.map((request, index) => (
+                <div key={`${request.timestamp}-${index}`} className="text-xs">
+                  <div className="font-mono text-[#e4e4e7] truncate" title={request.url}>
+                    {request.url}
+                  </div>
+                  <div className="text-[#71717a] truncate" title={request.rule}>
+                    {CATEGORY_LABELS[request.category]}
+                    {request.list && ` · ${request.list}`}
+                    {request.rule && ` · ${request.rule}`}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Protection Settings */}
-      {shieldsEnabled && (
+      {shieldsEnabled && site && (
         <div className="p-4 space-y-3">
           <h3 className="text-xs font-semibold text-[#71717a] uppercase tracking-wider mb-3">
             Protection Settings
           </h3>
 
-          {/* Block Ads & Trackers */}
+          {/* Block Ads */}
           <div className="flex items-center justify-between py-2">
             <div className="flex items-center gap-2">
               <svg className="w-4 h-4 text-[#00d4aa]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
               </svg>
-              <span className="text-sm">Block Ads & Trackers</span>
+              <span className="text-sm">Block Ads</span>
+            </div>
+            <button
+              onClick={() => handleSettingChange('blockAds', !settings.blockAds)}
+              className={`
+                relative w-10 h-5 rounded-full transition-colors
+                ${settings.blockAds ? 'bg-[#00d4aa]' : 'bg-[#3f3f46]'}
+              `}
+            >
+              <div
+                className={`
+                  absolute top-0.5 w-4 h-4 rounded-full bg-white shadow-sm transition-transform
+                  ${settings.blockAds ? 'translate-x-5' : 'translate-x-0.5'}
+                `}
+              />
+            </button>
+          </div>
+
+          {/* Block Trackers */}
+          <div className="flex items-center justify-between py-2">
+            <div className="flex items-center gap-2">
+              <svg className="w-4 h-4 text-[#00d4aa]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+              </svg>
+              <span className="text-sm">Block Trackers</span>
             </div>
             <button
               onClick={() => handleSettingChange('blockTrackers', !settings.blockTrackers)}
@@ -280,6 +433,16 @@ export const ShieldsPanel: React.FC<ShieldsPanelProps> = ({
               />
             </button>
           </div>
+          {settings.blockFingerprinting && (
+            <select
+              value={settings.fingerprintProtection}
+              onChange={(e) => handleSettingChange('fingerprintProtection', e.target.value)}
+              className="w-full bg-[#0a0a0f] border border-[#27272a] rounded-lg px-3 py-2 text-sm text-[#e4e4e7] focus:outline-none focus:border-[#00d4aa]"
+            >
+              <option value="standard">Standard (all sites)</option>
+              <option value="strict">Strict, may break sites (all sites)</option>
+            </select>
+          )}
 
           {/* Cookie Control */}
           <div className="py-2">
@@ -299,11 +462,43 @@ export const ShieldsPanel: React.FC<ShieldsPanelProps> = ({
               <option value="all">Block All Cookies</option>
             </select>
           </div>
+
+          {/* Element Hiding */}
+          <div className="pt-3 border-t border-[#27272a]">
+            <button
+              onClick={handlePickElement}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-[#0a0a0f] border border-[#27272a] hover:border-[#00d4aa] rounded-lg text-sm text-[#e4e4e7] transition-colors"
+            >
+              <svg className="w-4 h-4 text-[#00d4aa]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 15l-2 5L9 9l11 4-5 2zm0 0l5 5M7.188 2.239l.777 2.897M5.136 7.965l-2.898-.777M13.95 4.05l-2.122 2.122m-5.657 5.656l-2.12 2.122" />
+              </svg>
+              Hide an element on this site
+            </button>
+
+            {hidingRules.length > 0 && (
+              <div className="mt-3 space-y-1">
+                <div className="text-xs text-[#71717a]">Hidden on this site</div>
+                {hidingRules.map((rule) => (
+                  <div key={rule.id} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="font-mono text-[#a1a1aa] truncate" title={rule.selector}>
+                      {rule.selector}
+                    </span>
+                    <button
+                      onClick={() => handleRemoveHidingRule(rule.id)}
+                      className="flex-shrink-0 text-[#71717a] hover:text-[#ef4444] transition-colors"
+                    >
+                      Show
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
       )}
 
       {/* Shields Disabled Message */}
-      {!shieldsEnabled && (
+      {!shieldsEnabled && site && (
         <div className="p-6 text-center">
           <svg className="w-12 h-12 mx-auto text-[#ef4444] mb-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
@@ -320,8 +515,8 @@ export const ShieldsPanel: React.FC<ShieldsPanelProps> = ({
       <div className="p-3 bg-[#0a0a0f] border-t border-[#27272a]">
         <div className="flex items-center justify-between text-xs text-[#71717a]">
           <span>
-            {totalBlocked > 0
-              ? `${totalBlocked} items blocked on this session`
+            {siteTotal > 0
+              ? `${siteTotal} items blocked on this site`
               : 'No items blocked yet'}
           </span>
           <button
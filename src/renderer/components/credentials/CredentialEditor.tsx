@@ -0,0 +1,276 @@
+import React, { useState, useEffect } from 'react';
+import type { Credential, PasswordGeneratorOptions } from '../../../shared/types';
+import { useCredentialsStore, PasswordStrength, CredentialInput } from '../../stores/credentialsStore';
+
+interface CredentialEditorProps {
+  isOpen: boolean;
+  credential: Credential | null;
+  onSave: (data: CredentialInput) => Promise<string | null>;
+  onClose: () => void;
+}
+
+const STRENGTH_LABELS = ['Very weak', 'Very weak', 'Weak', 'Fair', 'Good', 'Strong'];
+const STRENGTH_COLORS = ['bg-red-500', 'bg-red-500', 'bg-orange-500', 'bg-amber-400', 'bg-lime-400', 'bg-green-500'];
+
+export const CredentialEditor: React.FC<CredentialEditorProps> = ({ isOpen, credential, onSave, onClose }) => {
+  const { generatePassword } = useCredentialsStore();
+
+  const [origin, setOrigin] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [notes, setNotes] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [strength, setStrength] = useState<PasswordStrength | null>(null);
+  const [showGenerator, setShowGenerator] = useState(false);
+  const [generatorOptions, setGeneratorOptions] = useState<Required<PasswordGeneratorOptions>>({
+    length: 20,
+    uppercase: true,
+    lowercase: true,
+    numbers: true,
+    symbols: true,
+  });
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setOrigin(credential?.origin || '');
+      setUsername(credential?.username || '');
+      setPassword(credential?.password || '');
+      setNotes(credential?.notes || '');
+      setShowPassword(false);
+      setShowGenerator(false);
+      setError('');
+    }
+  }, [isOpen, credential]);
+
+  // Strength is computed in main with the same rules used for generated passwords
+  useEffect(() => {
+    if (!password) {
+      setStrength(null);
+      return;
+    }
+    let cancelled = false;
+    window.electron.credentials.checkStrength(password).then((result: PasswordStrength) => {
+      if (!cancelled) setStrength(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [password]);
+
+  const handleGenerate = async (options = generatorOptions) => {
+    const result = await generatePassword(options);
+    if (result) {
+      setPassword(result.password);
+      setShowPassword(true);
+    }
+  };
+
+  const updateGeneratorOption = (updates: Partial<PasswordGeneratorOptions>) => {
+    const next = { ...generatorOptions, ...updates };
+    if (!next.uppercase && !next.lowercase && !next.numbers && !next.symbols) {
+      return;
+    }
+    setGeneratorOptions(next);
+    handleGenerate(next);
+  };
+
+  const handleSave = async () => {
+    if (!origin.trim() || !password) {
+      setError('Website and password are required');
+      return;
+    }
+
+    setSaving(true);
+    const saveError = await onSave({
+      origin: origin.trim(),
+      username: username.trim(),
+      password,
+      notes: notes.trim() || undefined,
+    });
+    setSaving(false);
+
+    if (saveError) {
+      setError(saveError);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-lg mx-4 bg-[#111118] border border-[#27272a] rounded-xl shadow-2xl">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-[#27272a] flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-[#e4e4e7]">
+            {credential ? 'Edit Password' : 'Add Password'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-lg hover:bg-[#27272a] flex items-center justify-center transition-colors"
+          >
+            <svg className="w-5 h-5 text-[#71717a]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          {/* Website */}
+          <div>
+            <label className="block text-sm font-medium text-[#a1a1aa] mb-2">Website</label>
+            <input
+              type="text"
+              value={origin}
+              onChange={(e) => setOrigin(e.target.value)}
+              placeholder="https://example.com"
+              className="w-full h-10 px-4 bg-[#0a0a0f] border border-[#27272a] rounded-lg text-[#e4e4e7] placeholder-[#52525b] focus:outline-none focus:border-[#00d4aa]"
+            />
+          </div>
+
+          {/* Username */}
+          <div>
+            <label className="block text-sm font-medium text-[#a1a1aa] mb-2">Username</label>
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="Email or username"
+              className="w-full h-10 px-4 bg-[#0a0a0f] border border-[#27272a] rounded-lg text-[#e4e4e7] placeholder-[#52525b] focus:outline-none focus:border-[#00d4aa]"
+            />
+          </div>
+
+          {/* Password */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-[#a1a1aa]">Password</label>
+              <button
+                onClick={() => {
+                  setShowGenerator(!showGenerator);
+                  if (!showGenerator && !password) handleGenerate();
+                }}
+                className="text-xs text-[#00d4aa] hover:text-[#00f5c4]"
+              >
+                {showGenerator ? 'Hide generator' : 'Generate'}
+              </button>
+            </div>
+            <div className="flex gap-2">
+              <input
+                type={showPassword ? 'text' : 'password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="flex-1 h-10 px-4 bg-[#0a0a0f] border border-[#27272a] rounded-lg text-[#e4e4e7] font-mono placeholder-[#52525b] focus:outline-none focus:border-[#00d4aa]"
+              />
+              <button
+                onClick={() => setShowPassword(!showPassword)}
+                className="px-3 h-10 rounded-lg bg-[#1a1a24] hover:bg-[#27272a] text-[#a1a1aa] text-sm transition-colors"
+              >
+                {showPassword ? 'Hide' : 'Show'}
+              </button>
+            </div>
+
+            {/* Strength meter */}
+            {strength && (
+              <div className="mt-2 flex items-center gap-2">
+                <div className="flex-1 h-1.5 rounded-full bg-[#27272a] overflow-hidden">
+                  <div
+                    className={`h-full ${STRENGTH_COLORS[strength.score]} transition-all`}
+                    style={{ width: `${(strength.score / 5) * 100}%` }}
+                  />
+                </div>
+                <span className="text-xs text-[#71717a] w-16 text-right">
+                  {strength.isStrong ? 'Strong' : STRENGTH_LABELS[Math.min(strength.score, 4)]}
+                </span>
+              </div>
+            )}
+
+            {/* Generator */}
+            {showGenerator && (
+              <div className="mt-3 p-3 bg-[#0a0a0f] border border-[#27272a] rounded-lg space-y-3">
+                <div className="flex items-center gap-3">
+                  <span className="text-xs text-[#a1a1aa] w-14">Length</span>
+                  <input
+                    type="range"
+                    min={8}
+                    max={64}
+                    value={generatorOptions.length}
+                    onChange={(e) => updateGeneratorOption({ length: Number(e.target.value) })}
+                    className="flex-1 accent-[#00d4aa]"
+                  />
+                  <span className="text-xs text-[#e4e4e7] w-6 text-right">{generatorOptions.length}</span>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {([
+                    ['uppercase', 'A-Z'],
+                    ['lowercase', 'a-z'],
+                    ['numbers', '0-9'],
+                    ['symbols', '!@#'],
+                  ] as const).map(([key, label]) => (
+                    <label key={key} className="flex items-center gap-2 text-xs text-[#a1a1aa] cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={generatorOptions[key]}
+                        onChange={(e) => updateGeneratorOption({ [key]: e.target.checked })}
+                        className="accent-[#00d4aa]"
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+                <button
+                  onClick={() => handleGenerate()}
+                  className="w-full h-8 rounded-lg bg-[#1a1a24] hover:bg-[#27272a] text-[#a1a1aa] text-xs transition-colors"
+                >
+                  Regenerate
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Notes */}
+          <div>
+            <label className="block text-sm font-medium text-[#a1a1aa] mb-2">Notes</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Recovery codes, security questions..."
+              rows={3}
+              className="w-full px-4 py-3 bg-[#0a0a0f] border border-[#27272a] rounded-lg text-[#e4e4e7] placeholder-[#52525b] focus:outline-none focus:border-[#00d4aa] resize-none"
+            />
+          </div>
+
+          {error && (
+            <div className="px-4 py-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-[#27272a] flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 h-10 rounded-lg bg-[#1a1a24] hover:bg-[#27272a] text-[#a1a1aa] font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-6 h-10 rounded-lg bg-[#00d4aa] hover:bg-[#00f5c4] text-[#0a0a0f] font-medium transition-colors disabled:opacity-50"
+          >
+            {credential ? 'Save Changes' : 'Save Password'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CredentialEditor;
@@ -0,0 +1,316 @@
+import React, { useEffect, useState } from 'react';
+import type { Credential, CredentialSummary } from '../../../shared/types';
+import { useCredentialsStore, CredentialInput } from '../../stores/credentialsStore';
+import { CredentialEditor } from './CredentialEditor';
+
+interface CredentialsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const CredentialsPanel: React.FC<CredentialsPanelProps> = ({ isOpen, onClose }) => {
+  const {
+    isLoading,
+    error,
+    loadCredentials,
+    getCredential,
+    addCredential,
+    updateCredential,
+    deleteCredential,
+    syncToAleo,
+    restoreFromChain,
+    searchQuery,
+    setSearchQuery,
+    getFilteredCredentials,
+  } = useCredentialsStore();
+
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingCredential, setEditingCredential] = useState<Credential | null>(null);
+  const [revealed, setRevealed] = useState<Record<string, string>>({});
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [syncingId, setSyncingId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadCredentials();
+    } else {
+      setRevealed({});
+    }
+  }, [isOpen, loadCredentials]);
+
+  // Hide BrowserView when panel is open (so the password list is not covered)
+  useEffect(() => {
+    if (isOpen) {
+      window.electron.ui?.setBrowserViewVisible(false);
+    } else {
+      window.electron.ui?.setBrowserViewVisible(true);
+    }
+  }, [isOpen]);
+
+  const handleAdd = () => {
+    setEditingCredential(null);
+    setIsEditorOpen(true);
+  };
+
+  const handleEdit = async (summary: CredentialSummary) => {
+    const credential = await getCredential(summary.id);
+    if (credential) {
+      setEditingCredential(credential);
+      setIsEditorOpen(true);
+    }
+  };
+
+  const handleSave = async (input: CredentialInput): Promise<string | null> => {
+    const result = editingCredential
+      ? await updateCredential(editingCredential.id, input)
+      : await addCredential(input);
+
+    if (!result.success) {
+      return result.error || 'Failed to save password';
+    }
+
+    setIsEditorOpen(false);
+    setEditingCredential(null);
+    return null;
+  };
+
+  const handleToggleReveal = async (id: string) => {
+    if (revealed[id] !== undefined) {
+      const { [id]: _, ...rest } = revealed;
+      setRevealed(rest);
+      return;
+    }
+
+    const credential = await getCredential(id);
+    if (credential) {
+      setRevealed({ ...revealed, [id]: credential.password });
+    }
+  };
+
+  const handleCopy = async (id: string) => {
+    const credential = await getCredential(id);
+    if (!credential) return;
+
+    await navigator.clipboard.writeText(credential.password);
+    setCopiedId(id);
+    setTimeout(() => setCopiedId((current) => (current === id ? null : current)), 2000);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (confirm('Are you sure you want to delete this password?')) {
+      await deleteCredential(id);
+    }
+  };
+
+  const handleSync = async (id: string) => {
+    setSyncingId(id);
+    const result = await syncToAleo(id);
+    setSyncingId(null);
+    if (!result.success) {
+      alert(`Sync failed: ${result.error}`);
+    }
+  };
+
+  const handleRestore = async () => {
+    setIsRestoring(true);
+    const result = await restoreFromChain();
+    setIsRestoring(false);
+    if (!result.success) {
+      alert(`Restore failed: ${result.error}`);
+    } else {
+      alert(`Restored ${result.restored || 0} passwords from Aleo`);
+    }
+  };
+
+  const formatHost = (origin: string) => {
+    try {
+      return new URL(origin).host;
+    } catch {
+      return origin;
+    }
+  };
+
+  const filteredCredentials = getFilteredCredentials();
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      {/* Sidebar Panel */}
+      <div className="fixed top-0 right-0 h-full w-96 bg-[#111118] border-l border-[#27272a] shadow-2xl z-50">
+        {/* Header */}
+        <div className="h-14 px-4 flex items-center justify-between border-b border-[#27272a]">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 rounded-lg bg-[#00d4aa]/20 flex items-center justify-center">
+              <svg className="w-5 h-5 text-[#00d4aa]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+              </svg>
+            </div>
+            <h2 className="text-lg font-semibold text-[#e4e4e7]">Passwords</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-lg hover:bg-[#27272a] flex items-center justify-center transition-colors"
+          >
+            <svg className="w-5 h-5 text-[#71717a]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Search and Add */}
+        <div className="p-4 space-y-3 border-b border-[#27272a]">
+          <div className="relative">
+            <svg className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#52525b]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+            <input
+              type="text"
+              placeholder="Search passwords..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="w-full h-9 pl-10 pr-4 bg-[#0a0a0f] border border-[#27272a] rounded-lg text-sm text-[#e4e4e7] placeholder-[#52525b] focus:outline-none focus:border-[#00d4aa]"
+            />
+          </div>
+
+          <button
+            onClick={handleAdd}
+            disabled={!!error}
+            className="w-full h-10 rounded-lg bg-[#00d4aa]/20 hover:bg-[#00d4aa]/30 text-[#00d4aa] font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            Add Password
+          </button>
+
+          <button
+            onClick={handleRestore}
+            disabled={isRestoring || !!error}
+            className="w-full text-xs text-[#71717a] hover:text-[#a1a1aa] transition-colors disabled:opacity-50"
+          >
+            {isRestoring ? 'Restoring from Aleo...' : 'Restore passwords from Aleo'}
+          </button>
+        </div>
+
+        {/* Credentials List */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-3" style={{ height: 'calc(100vh - 200px)' }}>
+          {isLoading ? (
+            <div className="flex flex-col items-center justify-center py-12">
+              <div className="w-8 h-8 border-2 border-[#00d4aa]/30 border-t-[#00d4aa] rounded-full animate-spin" />
+              <p className="text-sm text-[#71717a] mt-3">Loading passwords...</p>
+            </div>
+          ) : error ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <h3 className="text-lg font-semibold text-[#e4e4e7] mb-1">Passwords Unavailable</h3>
+              <p className="text-sm text-[#71717a] max-w-xs">{error}</p>
+            </div>
+          ) : filteredCredentials.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <h3 className="text-lg font-semibold text-[#e4e4e7] mb-1">No Saved Passwords</h3>
+              <p className="text-sm text-[#71717a] max-w-xs">
+                {searchQuery
+                  ? 'No passwords match your search'
+                  : 'Passwords you save when signing in to sites will appear here'}
+              </p>
+            </div>
+          ) : (
+            filteredCredentials.map((credential) => (
+              <div
+                key={credential.id}
+                className="p-4 bg-[#0a0a0f] border border-[#27272a] rounded-lg hover:border-[#3f3f46] transition-colors cursor-pointer"
+                onClick={() => handleEdit(credential)}
+              >
+                <div className="flex items-start justify-between mb-1">
+                  <h3 className="text-sm font-semibold text-[#e4e4e7] truncate flex-1 mr-2">
+                    {formatHost(credential.origin)}
+                  </h3>
+                  {credential.syncedToAleo ? (
+                    <span className="px-2 py-0.5 text-xs font-medium rounded bg-green-500/10 text-green-400 flex-shrink-0">
+                      On-Chain
+                    </span>
+                  ) : (
+                    <span className="px-2 py-0.5 text-xs font-medium rounded bg-amber-500/10 text-amber-400 flex-shrink-0">
+                      Local
+                    </span>
+                  )}
+                </div>
+
+                <p className="text-xs text-[#a1a1aa] truncate">{credential.username || 'No username'}</p>
+                <p className="text-xs text-[#71717a] font-mono truncate mt-1">
+                  {revealed[credential.id] ?? '••••••••••••'}
+                </p>
+
+                {/* Actions */}
+                <div className="flex items-center justify-end gap-2 pt-2 mt-2 border-t border-[#27272a]/50">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleToggleReveal(credential.id);
+                    }}
+                    className="px-2 py-1 text-xs rounded bg-[#1a1a24] hover:bg-[#27272a] text-[#a1a1aa] transition-colors"
+                  >
+                    {revealed[credential.id] !== undefined ? 'Hide' : 'Show'}
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleCopy(credential.id);
+                    }}
+                    className="px-2 py-1 text-xs rounded bg-[#1a1a24] hover:bg-[#27272a] text-[#a1a1aa] transition-colors"
+                  >
+                    {copiedId === credential.id ? 'Copied' : 'Copy'}
+                  </button>
+                  {!credential.syncedToAleo && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleSync(credential.id);
+                      }}
+                      disabled={syncingId === credential.id}
+                      className="px-2 py-1 text-xs rounded bg-[#00d4aa]/20 hover:bg-[#00d4aa]/30 text-[#00d4aa] transition-colors disabled:opacity-50"
+                    >
+                      {syncingId === credential.id ? 'Syncing...' : 'Sync'}
+                    </button>
+                  )}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(credential.id);
+                    }}
+                    className="p-1 rounded hover:bg-red-500/20 text-[#71717a] hover:text-red-400 transition-colors"
+                  >
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Footer Info */}
+        <div className="px-4 py-3 border-t border-[#27272a] bg-[#0a0a0f]">
+          <p className="text-xs text-[#52525b] text-center">
+            Passwords are encrypted with your wallet key before they leave this device
+          </p>
+        </div>
+      </div>
+
+      {/* Credential Editor Modal */}
+      <CredentialEditor
+        isOpen={isEditorOpen}
+        credential={editingCredential}
+        onSave={handleSave}
+        onClose={() => {
+          setIsEditorOpen(false);
+          setEditingCredential(null);
+        }}
+      />
+    </>
+  );
+};
+
+export default CredentialsPanel;
@@ -0,0 +1,105 @@
+import React, { useState, useEffect } from 'react';
+
+interface SavePrompt {
+  promptId: string;
+  origin: string;
+  username: string;
+  isUpdate: boolean;
+}
+
+export const SavePasswordPrompt: React.FC = () => {
+  const [prompt, setPrompt] = useState<SavePrompt | null>(null);
+  const [error, setError] = useState('');
+
+  // Main process offers to save after a login form is submitted in a tab
+  useEffect(() => {
+    window.electron.events.onCredentialSavePrompt((next: SavePrompt) => {
+      setPrompt(next);
+      setError('');
+    });
+
+    return () => {
+      // Cleanup is handled by removeAllListeners
+    };
+  }, []);
+
+  // Hide BrowserView while the prompt is shown (so buttons are clickable)
+  useEffect(() => {
+    if (prompt) {
+      window.electron.ui?.setBrowserViewVisible(false);
+      return () => {
+        window.electron.ui?.setBrowserViewVisible(true);
+      };
+    }
+  }, [prompt]);
+
+  const respond = async (action: 'save' | 'never' | 'dismiss') => {
+    if (!prompt) return;
+
+    const result = await window.electron.credentials.respondSavePrompt(prompt.promptId, action);
+    if (!result.success && action === 'save') {
+      setError(result.error || 'Failed to save password');
+      return;
+    }
+    setPrompt(null);
+  };
+
+  if (!prompt) return null;
+
+  let host = prompt.origin;
+  try {
+    host = new URL(prompt.origin).host;
+  } catch {
+    // Keep the raw origin
+  }
+
+  return (
+    <div className="absolute top-2 right-4 z-50 w-80 bg-[#1a1a24] border border-[#27272a] rounded-lg shadow-lg p-4 animate-slide-down">
+      <div className="flex items-start gap-3">
+        <div className="w-8 h-8 rounded-lg bg-[#00d4aa]/20 flex items-center justify-center flex-shrink-0">
+          <svg className="w-5 h-5 text-[#00d4aa]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+          </svg>
+        </div>
+        <div className="flex-1 min-w-0">
+          <h3 className="text-sm font-semibold text-[#e4e4e7]">
+            {prompt.isUpdate ? 'Update password?' : 'Save password?'}
+          </h3>
+          <p className="text-xs text-[#a1a1aa] truncate mt-1">{host}</p>
+          {prompt.username && (
+            <p className="text-xs text-[#71717a] truncate">{prompt.username}</p>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-xs text-red-400 mt-3">{error}</p>
+      )}
+
+      <div className="flex justify-end gap-2 mt-4">
+        {!prompt.isUpdate && (
+          <button
+            onClick={() => respond('never')}
+            className="px-3 h-8 rounded-lg hover:bg-[#27272a] text-[#71717a] text-xs transition-colors"
+          >
+            Never for this site
+          </button>
+        )}
+        <button
+          onClick={() => respond('dismiss')}
+          className="px-3 h-8 rounded-lg bg-[#0a0a0f] hover:bg-[#27272a] text-[#a1a1aa] text-xs transition-colors"
+        >
+          Not now
+        </button>
+        <button
+          onClick={() => respond('save')}
+          className="px-3 h-8 rounded-lg bg-[#00d4aa] hover:bg-[#00f5c4] text-[#0a0a0f] text-xs font-medium transition-colors"
+        >
+          {prompt.isUpdate ? 'Update' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SavePasswordPrompt;
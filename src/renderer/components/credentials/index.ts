@@ -0,0 +1,3 @@
+export { CredentialsPanel } from './CredentialsPanel';
+export { CredentialEditor } from './CredentialEditor';
+export { SavePasswordPrompt } from './SavePasswordPrompt';
@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { Modal } from '../shared/Modal';
+import { Button } from '../shared/Button';
+
+export interface DeploymentDetails {
+  programId: string;
+  imports: string[];
+  estimatedFee: number;
+  priorityFee?: number;
+  source: string;
+  network?: string;
+}
+
+export interface DeployApprovalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onApprove: () => void;
+  onReject: () => void;
+  origin: string;
+  favicon?: string;
+  deployment: DeploymentDetails;
+  walletBalance?: number;
+}
+
+// Lines of program source shown before the preview is collapsed
+const PREVIEW_LINES = 40;
+
+/**
+ * Deployment Approval Modal
+ * Shown when a dApp calls window.aleo.requestDeploy()
+ */
+export const DeployApproval: React.FC<DeployApprovalProps> = ({
+  isOpen,
+  onClose,
+  onApprove,
+  onReject,
+  origin,
+  favicon,
+  deployment,
+  walletBalance,
+}) => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [showFullSource, setShowFullSource] = useState(false);
+
+  const handleApprove = async () => {
+    setIsLoading(true);
+    try {
+      await onApprove();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReject = () => {
+    onReject();
+    onClose();
+  };
+
+  // Extract domain from origin
+  const getDomain = (url: string): string => {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return url;
+    }
+  };
+
+  const sourceLines = deployment.source.split('\n');
+  const isTruncated = !showFullSource && sourceLines.length > PREVIEW_LINES;
+  const sourcePreview = isTruncated ? sourceLines.slice(0, PREVIEW_LINES).join('\n') : deployment.source;
+
+  const priorityFee = deployment.priorityFee || 0;
+  const totalFee = deployment.estimatedFee + priorityFee;
+  const hasInsufficientBalance = walletBalance !== undefined && walletBalance < totalFee;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleReject}
+      title="Deployment Request"
+      size="lg"
+      closeOnBackdrop={false}
+      closeOnEscape={false}
+      footer={
+        <div className="flex gap-3 w-full">
+          <Button
+            variant="ghost"
+            onClick={handleReject}
+            className="flex-1"
+            disabled={isLoading}
+          >
+            Reject
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleApprove}
+            className="flex-1"
+            loading={isLoading}
+            disabled={hasInsufficientBalance}
+          >
+            Deploy
+          </Button>
+        </div>
+      }
+    >
+      <div className="flex flex-col space-y-5">
+        {/* Site Info */}
+        <div className="flex items-center gap-3 p-3 bg-bg-primary rounded-lg border border-bg-elevated">
+          <div className="w-10 h-10 rounded-lg bg-bg-elevated flex items-center justify-center overflow-hidden">
+            {favicon ? (
+              <img
+                src={favicon}
+                alt={getDomain(origin)}
+                className="w-8 h-8 object-contain"
+              />
+            ) : (
+              <svg className="w-5 h-5 text-text-muted" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9" />
+              </svg>
+            )}
+          </div>
+          <div>
+            <p className="text-sm font-medium text-text-primary">{getDomain(origin)}</p>
+            <p className="text-xs text-text-muted">wants to deploy a program from your account</p>
+          </div>
+        </div>
+
+        {/* Program and Imports */}
+        <div className="bg-bg-primary rounded-lg border border-bg-elevated overflow-hidden">
+          <div className="px-4 py-3 border-b border-bg-elevated">
+            <p className="text-xs text-text-muted uppercase tracking-wide">Program</p>
+            <p className="text-sm font-mono text-accent-aleo mt-1">{deployment.programId}</p>
+            {deployment.network && (
+              <p className="text-xs text-text-muted mt-0.5">on {deployment.network}</p>
+            )}
+          </div>
+          <div className="px-4 py-3">
+            <p className="text-xs text-text-muted uppercase tracking-wide">Imports</p>
+            {deployment.imports.length > 0 ? (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {deployment.imports.map((programId) => (
+                  <span key={programId} className="px-2 py-0.5 text-xs font-mono rounded bg-bg-elevated text-text-primary">
+                    {programId}
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-text-muted mt-1">None</p>
+            )}
+          </div>
+        </div>
+
+        {/* Source Preview */}
+        <div className="bg-bg-primary rounded-lg border border-bg-elevated">
+          <div className="px-4 py-3 border-b border-bg-elevated flex items-center justify-between">
+            <p className="text-xs text-text-muted uppercase tracking-wide">Source</p>
+            <span className="text-xs text-text-muted">{sourceLines.length} lines</span>
+          </div>
+          <pre className="px-4 py-3 max-h-64 overflow-auto text-xs font-mono text-text-primary whitespace-pre">
+            {sourcePreview}
+          </pre>
+          {isTruncated && (
+            <button
+              onClick={() => setShowFullSource(true)}
+              className="w-full px-4 py-2 text-xs text-accent-aleo border-t border-bg-elevated hover:bg-bg-elevated transition-colors"
+            >
+              Show all {sourceLines.length} lines
+            </button>
+          )}
+        </div>
+
+        {/* Fee */}
+        <div className="bg-bg-primary rounded-lg border border-bg-elevated">
+          <div className="px-4 py-3 flex items-center justify-between">
+            <div>
+              <p className="text-xs text-text-muted uppercase tracking-wide">Estimated Fee</p>
+              <p className="text-sm text-text-primary mt-1">
+                <span className="font-medium">{totalFee.toFixed(6)}</span>
+                <span className="text-text-muted ml-1">ALEO</span>
+              </p>
+              {priorityFee > 0 && (
+                <p className="text-xs text-text-muted mt-0.5">
+                  Includes {priorityFee.toFixed(6)} ALEO priority fee
+                </p>
+              )}
+            </div>
+            {walletBalance !== undefined && (
+              <div className="text-right">
+                <p className="text-xs text-text-muted">Your Balance</p>
+                <p className={`text-sm ${hasInsufficientBalance ? 'text-red-500' : 'text-text-primary'}`}>
+                  {walletBalance.toFixed(6)} ALEO
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Insufficient Balance Warning */}
+        {hasInsufficientBalance && (
+          <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+            <svg className="w-5 h-5 text-red-500 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p className="text-sm text-red-400">
+              Insufficient public balance to cover the deployment fee
+            </p>
+          </div>
+        )}
+
+        {/* Warning */}
+        <div className="flex items-start gap-2 text-xs text-text-muted p-3 bg-yellow-500/5 border border-yellow-500/10 rounded-lg">
+          <svg className="w-4 h-4 text-yellow-500 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+          </svg>
+          <span>
+            Deployed programs are permanent and the fee is paid from your public balance.
+            Only deploy source you have reviewed and trust.
+          </span>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default DeployApproval;
@@ -9,5 +9,8 @@ export type { ConnectionRequestProps } from './ConnectionRequest';
 export { TransactionApproval } from './TransactionApproval';
 export type { TransactionApprovalProps, TransactionDetails } from './TransactionApproval';
 
+export { DeployApproval } from './DeployApproval';
+export type { DeployApprovalProps, DeploymentDetails } from './DeployApproval';
+
 export { SignMessageApproval } from './SignMessageApproval';
 export type { SignMessageApprovalProps } from './SignMessageApproval';
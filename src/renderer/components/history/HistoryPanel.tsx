@@ -0,0 +1,346 @@
+import React, { useEffect, useState } from 'react';
+import { useHistoryStore, HistorySettings } from '../../stores/historyStore';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onNavigate: (url: string) => void;
+}
+
+type DateRange = 'all' | 'today' | 'week' | 'month' | 'year';
+
+const DATE_RANGES: Array<{ value: DateRange; label: string }> = [
+  { value: 'all', label: 'Any time' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: 'Last 7 days' },
+  { value: 'month', label: 'Last 30 days' },
+  { value: 'year', label: 'Last year' },
+];
+
+const RETENTION_OPTIONS = [
+  { value: 30, label: '30 days' },
+  { value: 90, label: '90 days' },
+  { value: 365, label: '1 year' },
+  { value: 0, label: 'Forever' },
+];
+
+const SIZE_OPTIONS = [
+  { value: 10_000, label: '10,000 visits' },
+  { value: 100_000, label: '100,000 visits' },
+  { value: 1_000_000, label: '1,000,000 visits' },
+];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function rangeStart(range: DateRange): number | undefined {
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+
+  switch (range) {
+    case 'today': return startOfToday.getTime();
+    case 'week': return Date.now() - 7 * DAY;
+    case 'month': return Date.now() - 30 * DAY;
+    case 'year': return Date.now() - 365 * DAY;
+    default: return undefined;
+  }
+}
+
+function formatVisitTime(time: number): string {
+  const date = new Date(time);
+  const today = new Date();
+  if (date.toDateString() === today.toDateString()) {
+    return date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, onNavigate }) => {
+  const {
+    searchResults,
+    searchFacets,
+    searchTotal,
+    isSearching,
+    error,
+    settings,
+    search,
+    deleteEntry,
+    clearHistory,
+    loadSettings,
+    updateSettings,
+  } = useHistoryStore();
+
+  const [query, setQuery] = useState('');
+  const [range, setRange] = useState<DateRange>('all');
+  const [domain, setDomain] = useState<string | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadSettings();
+    }
+  }, [isOpen, loadSettings]);
+
+  // Search as the user types, once typing pauses
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const timer = setTimeout(() => {
+      search(query, { from: rangeStart(range), domain: domain || undefined, limit: 100 });
+    }, 200);
+    return () => clearTimeout(timer);
+  }, [isOpen, query, range, domain, search]);
+
+  // Hide BrowserView when panel is open (so the results are not covered)
+  useEffect(() => {
+    if (isOpen) {
+      window.electron.ui?.setBrowserViewVisible(false);
+    } else {
+      window.electron.ui?.setBrowserViewVisible(true);
+    }
+  }, [isOpen]);
+
+  const handleOpen = (url: string) => {
+    onNavigate(url);
+    onClose();
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteEntry(id);
+  };
+
+  const handleClear = async () => {
+    if (confirm('Clear all browsing history? This cannot be undone.')) {
+      await clearHistory();
+    }
+  };
+
+  const handleSettingChange = async (updates: Partial<HistorySettings>) => {
+    const saved = await updateSettings(updates);
+    if (saved) {
+      search(query, { from: rangeStart(range), domain: domain || undefined, limit: 100 });
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed top-0 right-0 h-full w-[28rem] bg-[#111118] border-l border-[#27272a] shadow-2xl z-50 flex flex-col">
+      {/* Header */}
+      <div className="h-14 px-4 flex items-center justify-between border-b border-[#27272a] flex-shrink-0">
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 rounded-lg bg-[#00d4aa]/20 flex items-center justify-center">
+            <svg className="w-5 h-5 text-[#00d4aa]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </div>
+          <h2 className="text-lg font-semibold text-[#e4e4e7]">History</h2>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            className={`w-8 h-8 rounded-lg flex items-center justify-center transition-colors ${showSettings ? 'bg-[#27272a]' : 'hover:bg-[#27272a]'}`}
+            title="History settings"
+          >
+            <svg className="w-5 h-5 text-[#71717a]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+            </svg>
+          </button>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-lg hover:bg-[#27272a] flex items-center justify-center transition-colors"
+          >
+            <svg className="w-5 h-5 text-[#71717a]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {/* Settings */}
+      {showSettings && settings && (
+        <div className="p-4 space-y-3 border-b border-[#27272a] bg-[#0a0a0f] flex-shrink-0">
+          <label className="flex items-center justify-between text-sm text-[#a1a1aa]">
+            Keep history for
+            <select
+              value={settings.retentionDays}
+              onChange={(e) => handleSettingChange({ retentionDays: Number(e.target.value) })}
+              className="h-8 px-2 bg-[#1a1a24] border border-[#27272a] rounded-lg text-sm text-[#e4e4e7] focus:outline-none focus:border-[#00d4aa]"
+            >
+              {RETENTION_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between text-sm text-[#a1a1aa]">
+            Keep at most
+            <select
+              value={settings.maxEntries}
+              onChange={(e) => handleSettingChange({ maxEntries: Number(e.target.value) })}
+              className="h-8 px-2 bg-[#1a1a24] border border-[#27272a] rounded-lg text-sm text-[#e4e4e7] focus:outline-none focus:border-[#00d4aa]"
+            >
+              {!SIZE_OPTIONS.some((option) => option.value === settings.maxEntries) && (
+                <option value={settings.maxEntries}>{settings.maxEntries.toLocaleString()} visits</option>
+              )}
+              {SIZE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-start gap-2 text-sm text-[#a1a1aa] cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.indexPageText}
+              onChange={(e) => handleSettingChange({ indexPageText: e.target.checked })}
+              className="mt-0.5 accent-[#00d4aa]"
+            />
+            <span>
+              Search page text
+              <span className="block text-xs text-[#52525b]">
+                Index the words on pages you visit, encrypted on this device
+              </span>
+            </span>
+          </label>
+          <button
+            onClick={handleClear}
+            className="w-full h-8 rounded-lg bg-red-500/10 hover:bg-red-500/20 text-red-400 text-xs font-medium transition-colors"
+          >
+            Clear all history
+          </button>
+        </div>
+      )}
+
+      {/* Search and filters */}
+      <div className="p-4 space-y-3 border-b border-[#27272a] flex-shrink-0">
+        <div className="relative">
+          <svg className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#52525b]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+          </svg>
+          <input
+            type="text"
+            placeholder="Search history..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            autoFocus
+            className="w-full h-9 pl-10 pr-4 bg-[#0a0a0f] border border-[#27272a] rounded-lg text-sm text-[#e4e4e7] placeholder-[#52525b] focus:outline-none focus:border-[#00d4aa]"
+          />
+        </div>
+
+        <div className="flex gap-1 flex-wrap">
+          {DATE_RANGES.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setRange(option.value)}
+              className={`px-2 py-1 text-xs rounded transition-colors ${
+                range === option.value
+                  ? 'bg-[#00d4aa]/20 text-[#00d4aa]'
+                  : 'bg-[#1a1a24] text-[#a1a1aa] hover:bg-[#27272a]'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Sites among the matches */}
+        {(searchFacets.length > 0 || domain) && (
+          <div className="flex gap-1 flex-wrap max-h-16 overflow-y-auto">
+            {domain && !searchFacets.some((facet) => facet.domain === domain) && (
+              <button
+                onClick={() => setDomain(null)}
+                className="px-2 py-1 text-xs rounded bg-[#00d4aa]/20 text-[#00d4aa]"
+              >
+                {domain} ×
+              </button>
+            )}
+            {searchFacets.map((facet) => (
+              <button
+                key={facet.domain}
+                onClick={() => setDomain(domain === facet.domain ? null : facet.domain)}
+                className={`px-2 py-1 text-xs rounded transition-colors ${
+                  domain === facet.domain
+                    ? 'bg-[#00d4aa]/20 text-[#00d4aa]'
+                    : 'bg-[#1a1a24] text-[#71717a] hover:bg-[#27272a]'
+                }`}
+              >
+                {facet.domain} <span className="opacity-60">{facet.count}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Results */}
+      <div className="flex-1 overflow-y-auto p-2">
+        {error ? (
+          <div className="flex flex-col items-center justify-center py-12 text-center">
+            <h3 className="text-lg font-semibold text-[#e4e4e7] mb-1">History Unavailable</h3>
+            <p className="text-sm text-[#71717a] max-w-xs">{error}</p>
+          </div>
+        ) : searchResults.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-center">
+            <h3 className="text-lg font-semibold text-[#e4e4e7] mb-1">
+              {isSearching ? 'Searching...' : 'No History Found'}
+            </h3>
+            {!isSearching && (
+              <p className="text-sm text-[#71717a] max-w-xs">
+                {query || domain || range !== 'all'
+                  ? 'No pages match your search'
+                  : 'Pages you visit will appear here'}
+              </p>
+            )}
+          </div>
+        ) : (
+          searchResults.map((result) => (
+            <div
+              key={result.id}
+              onClick={() => handleOpen(result.url)}
+              className="group flex items-center gap-3 px-2 py-2 rounded-lg hover:bg-[#1a1a24] cursor-pointer transition-colors"
+            >
+              <div className="w-4 h-4 flex-shrink-0">
+                {result.favicon ? (
+                  <img src={result.favicon} alt="" className="w-4 h-4" />
+                ) : (
+                  <div className="w-4 h-4 rounded bg-[#27272a]" />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-[#e4e4e7] truncate">{result.title || result.url}</p>
+                <p className="text-xs text-[#71717a] truncate">
+                  {result.domain}
+                  {result.visitCount > 1 && ` · ${result.visitCount} visits`}
+                </p>
+              </div>
+              <span className="text-xs text-[#52525b] flex-shrink-0 group-hover:hidden">
+                {formatVisitTime(result.visitedAt)}
+              </span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDelete(result.id);
+                }}
+                className="hidden group-hover:block p-1 rounded hover:bg-red-500/20 text-[#71717a] hover:text-red-400 transition-colors flex-shrink-0"
+                title="Remove from history"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Footer Info */}
+      <div className="px-4 py-3 border-t border-[#27272a] bg-[#0a0a0f] flex-shrink-0">
+        <p className="text-xs text-[#52525b] text-center">
+          {searchTotal > searchResults.length
+            ? `Showing ${searchResults.length} of ${searchTotal} pages`
+            : 'History is encrypted on this device'}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -1,18 +1,89 @@
-import React, { useState, useEffect } from 'react';
-import { Note } from '../../stores/notesStore';
+import React, { useState, useEffect, useRef } from 'react';
+import { Note, NoteAttachment, useNotesStore } from '../../stores/notesStore';
+import { renderMarkdown } from '../../lib/markdown';
 
 interface NoteEditorProps {
   isOpen: boolean;
   note: Note | null;
+  draft?: { title: string; content: string } | null; // Starting text for a new note
   onSave: (data: { title: string; content: string; tags: string[] }) => void;
   onClose: () => void;
+  onOpenNote?: (note: Note) => void;
+  onOpenWikiLink?: (title: string) => void;
+  onOpenLink?: (url: string) => void;
 }
 
-export const NoteEditor: React.FC<NoteEditorProps> = ({ isOpen, note, onSave, onClose }) => {
+type EditorMode = 'write' | 'split' | 'preview';
+
+const MODES: Array<{ value: EditorMode; label: string }> = [
+  { value: 'write', label: 'Write' },
+  { value: 'split', label: 'Split' },
+  { value: 'preview', label: 'Preview' },
+];
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Decrypted image attachment, loaded on demand
+ */
+const AttachmentImage: React.FC<{ noteId: string; attachment: NoteAttachment; alt: string }> = ({ noteId, attachment, alt }) => {
+  const getAttachmentUrl = useNotesStore((state) => state.getAttachmentUrl);
+  const [url, setUrl] = useState<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    let active = true;
+    getAttachmentUrl(noteId, attachment.id).then((dataUrl) => {
+      if (active) setUrl(dataUrl);
+    });
+    return () => {
+      active = false;
+    };
+  }, [noteId, attachment.id, getAttachmentUrl]);
+
+  if (url === undefined) {
+    return <span className="text-xs text-[#52525b]">Loading {attachment.name}...</span>;
+  }
+  if (url === null) {
+    return <span className="text-xs text-[#52525b]">Unlock your wallet to view {attachment.name}</span>;
+  }
+  return <img src={url} alt={alt || attachment.name} className="max-w-full max-h-80 rounded-lg my-2" />;
+};
+
+export const NoteEditor: React.FC<NoteEditorProps> = ({
+  isOpen,
+  note,
+  draft,
+  onSave,
+  onClose,
+  onOpenNote,
+  onOpenWikiLink,
+  onOpenLink,
+}) => {
+  const {
+    notes,
+    findNoteByTitle,
+    getBacklinks,
+    addAttachment,
+    removeAttachment,
+    saveAttachment,
+  } = useNotesStore();
+
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
   const [tagInput, setTagInput] = useState('');
   const [tags, setTags] = useState<string[]>([]);
+  const [mode, setMode] = useState<EditorMode>('split');
+  const [isAttaching, setIsAttaching] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // The note as it is now (attachments change while the editor is open)
+  const current = note ? notes.find((n) => n.id === note.id) || note : null;
+  const attachments = current?.attachments || [];
+  const backlinks = note ? getBacklinks(note.id) : [];
 
   useEffect(() => {
     if (isOpen) {
@@ -21,13 +92,17 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({ isOpen, note, onSave, on
         setContent(note.content);
         setTags(note.tags || []);
       } else {
-        setTitle('');
-        setContent('');
+        setTitle(draft?.title || '');
+        setContent(draft?.content || '');
         setTags([]);
       }
       setTagInput('');
     }
-  }, [isOpen, note]);
+  }, [isOpen, note, draft]);
+
+  const isDirty = note
+    ? title !== note.title || content !== note.content || tags.join(',') !== (note.tags || []).join(',')
+    : Boolean(title.trim() || content.trim());
 
   const handleAddTag = () => {
     const tag = tagInput.trim().toLowerCase();
@@ -60,6 +135,130 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({ isOpen, note, onSave, on
     });
   };
 
+  /**
+   * Wrap the selection (or a placeholder) in Markdown syntax
+   */
+  const wrapSelection = (before: string, after: string = before, placeholder: string = 'text') => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const { selectionStart, selectionEnd } = textarea;
+    const selected = content.slice(selectionStart, selectionEnd) || placeholder;
+    setContent(content.slice(0, selectionStart) + before + selected + after + content.slice(selectionEnd));
+
+    // Keep the wrapped text selected
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + before.length, selectionStart + before.length + selected.length);
+    });
+  };
+
+  /**
+   * Prefix the lines of the selection, e.g. with "- " for a list
+   */
+  const prefixLines = (prefix: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const start = content.lastIndexOf('\n', textarea.selectionStart - 1) + 1;
+    const end = textarea.selectionEnd;
+    const block = content.slice(start, end).split('\n').map((line) => prefix + line).join('\n');
+    setContent(content.slice(0, start) + block + content.slice(end));
+    requestAnimationFrame(() => textarea.focus());
+  };
+
+  const insertAtCursor = (text: string) => {
+    const textarea = textareaRef.current;
+    const position = textarea ? textarea.selectionEnd : content.length;
+    setContent(content.slice(0, position) + text + content.slice(position));
+  };
+
+  const handleContentKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(e.metaKey || e.ctrlKey)) return;
+    if (e.key === 'b') {
+      e.preventDefault();
+      wrapSelection('**');
+    } else if (e.key === 'i') {
+      e.preventDefault();
+      wrapSelection('*');
+    } else if (e.key === 'k') {
+      e.preventDefault();
+      wrapSelection('[[', ']]', 'Note title');
+    }
+  };
+
+  const handleWikiLink = (linkTitle: string) => {
+    if (isDirty && !confirm('Leave this note without saving your changes?')) {
+      return;
+    }
+    onOpenWikiLink?.(linkTitle);
+  };
+
+  const handleAttach = async () => {
+    if (!note) return;
+    setIsAttaching(true);
+    const result = await addAttachment(note.id);
+    setIsAttaching(false);
+    if (!result.success && result.error) {
+      alert(`Could not attach file: ${result.error}`);
+    }
+  };
+
+  const handleSaveAttachment = async (attachmentId: string) => {
+    if (!note) return;
+    const result = await saveAttachment(note.id, attachmentId);
+    if (!result.success) {
+      alert(`Could not save attachment: ${result.error}`);
+    }
+  };
+
+  const handleRemoveAttachment = async (attachment: NoteAttachment) => {
+    if (!note) return;
+    if (confirm(`Remove ${attachment.name} from this note?`)) {
+      await removeAttachment(note.id, attachment.id);
+      // Drop references to it from the text as well
+      setContent((text) => text.split(`(attachment:${attachment.id})`).join('()'));
+    }
+  };
+
+  const renderAttachment = (id: string, label: string, inline: boolean): React.ReactNode => {
+    const attachment = attachments.find((a) => a.id === id);
+    if (!note || !attachment) {
+      return <span className="text-xs text-[#52525b]">[missing attachment]</span>;
+    }
+    if (inline && attachment.mimeType.startsWith('image/')) {
+      return <AttachmentImage noteId={note.id} attachment={attachment} alt={label} />;
+    }
+    return (
+      <a
+        href="#"
+        onClick={(e) => {
+          e.preventDefault();
+          handleSaveAttachment(attachment.id);
+        }}
+        className="text-[#00d4aa] hover:underline"
+        title={`Save ${attachment.name}`}
+      >
+        {label || attachment.name}
+      </a>
+    );
+  };
+
+  const preview = (
+    <div className="h-80 overflow-y-auto px-4 py-3 bg-[#0a0a0f] border border-[#27272a] rounded-lg text-sm text-[#d4d4d8] leading-relaxed break-words">
+      {content.trim() ? (
+        renderMarkdown(content, {
+          onWikiLink: handleWikiLink,
+          hasNote: (linkTitle) => Boolean(findNoteByTitle(linkTitle)),
+          onLink: onOpenLink,
+          renderAttachment,
+        })
+      ) : (
+        <p className="text-[#52525b]">Nothing to preview</p>
+      )}
+    </div>
+  );
+
   if (!isOpen) return null;
 
   return (
@@ -68,9 +267,11 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({ isOpen, note, onSave, on
       <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
 
       {/* Modal */}
-      <div className="relative w-full max-w-2xl mx-4 bg-[#111118] border border-[#27272a] rounded-xl shadow-2xl">
+      <div
+        className={`relative w-full ${mode === 'split' ? 'max-w-5xl' : 'max-w-2xl'} mx-4 max-h-[90vh] flex flex-col bg-[#111118] border border-[#27272a] rounded-xl shadow-2xl`}
+      >
         {/* Header */}
-        <div className="px-6 py-4 border-b border-[#27272a] flex items-center justify-between">
+        <div className="px-6 py-4 border-b border-[#27272a] flex items-center justify-between flex-shrink-0">
           <h2 className="text-lg font-semibold text-[#e4e4e7]">
             {note ? 'Edit Note' : 'New Note'}
           </h2>
@@ -85,7 +286,7 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({ isOpen, note, onSave, on
         </div>
 
         {/* Content */}
-        <div className="p-6 space-y-4">
+        <div className="p-6 space-y-4 overflow-y-auto">
           {/* Title Input */}
           <div>
             <label className="block text-sm font-medium text-[#a1a1aa] mb-2">Title</label>
@@ -100,14 +301,48 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({ isOpen, note, onSave, on
 
           {/* Content Input */}
           <div>
-            <label className="block text-sm font-medium text-[#a1a1aa] mb-2">Content</label>
-            <textarea
-              value={content}
-              onChange={(e) => setContent(e.target.value)}
-              placeholder="Write your private note here..."
-              rows={10}
-              className="w-full px-4 py-3 bg-[#0a0a0f] border border-[#27272a] rounded-lg text-[#e4e4e7] placeholder-[#52525b] focus:outline-none focus:border-purple-500 resize-none"
-            />
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex items-center gap-1">
+                <label className="text-sm font-medium text-[#a1a1aa] mr-2">Content</label>
+                {mode !== 'preview' && (
+                  <>
+                    <button onClick={() => wrapSelection('**')} title="Bold (Ctrl+B)" className="w-7 h-7 rounded hover:bg-[#27272a] text-sm font-bold text-[#a1a1aa]">B</button>
+                    <button onClick={() => wrapSelection('*')} title="Italic (Ctrl+I)" className="w-7 h-7 rounded hover:bg-[#27272a] text-sm italic text-[#a1a1aa]">I</button>
+                    <button onClick={() => prefixLines('## ')} title="Heading" className="w-7 h-7 rounded hover:bg-[#27272a] text-sm text-[#a1a1aa]">H</button>
+                    <button onClick={() => prefixLines('- ')} title="List" className="w-7 h-7 rounded hover:bg-[#27272a] text-sm text-[#a1a1aa]">•</button>
+                    <button onClick={() => wrapSelection('`')} title="Code" className="w-7 h-7 rounded hover:bg-[#27272a] text-xs font-mono text-[#a1a1aa]">{'</>'}</button>
+                    <button onClick={() => wrapSelection('[[', ']]', 'Note title')} title="Link to a note (Ctrl+K)" className="px-1.5 h-7 rounded hover:bg-[#27272a] text-xs text-[#a1a1aa]">[[ ]]</button>
+                  </>
+                )}
+              </div>
+              <div className="flex rounded-lg bg-[#0a0a0f] border border-[#27272a] p-0.5">
+                {MODES.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setMode(option.value)}
+                    className={`px-2 h-6 text-xs rounded-md transition-colors ${
+                      mode === option.value ? 'bg-purple-500/20 text-purple-400' : 'text-[#71717a] hover:text-[#a1a1aa]'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className={mode === 'split' ? 'grid grid-cols-2 gap-4' : ''}>
+              {mode !== 'preview' && (
+                <textarea
+                  ref={textareaRef}
+                  value={content}
+                  onChange={(e) => setContent(e.target.value)}
+                  onKeyDown={handleContentKeyDown}
+                  placeholder="Write your private note here... Markdown and [[links to other notes]] are supported."
+                  className="w-full h-80 px-4 py-3 bg-[#0a0a0f] border border-[#27272a] rounded-lg text-sm font-mono text-[#e4e4e7] placeholder-[#52525b] focus:outline-none focus:border-purple-500 resize-none"
+                />
+              )}
+              {mode !== 'write' && preview}
+            </div>
           </div>
 
           {/* Tags */}
@@ -149,10 +384,92 @@ export const NoteEditor: React.FC<NoteEditorProps> = ({ isOpen, note, onSave, on
               </button>
             </div>
           </div>
+
+          {/* Attachments */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-[#a1a1aa]">Attachments</label>
+              {note && (
+                <button
+                  onClick={handleAttach}
+                  disabled={isAttaching}
+                  className="px-3 h-7 rounded-lg bg-[#1a1a24] hover:bg-[#27272a] text-[#a1a1aa] text-xs transition-colors disabled:opacity-50"
+                >
+                  {isAttaching ? 'Attaching...' : 'Attach image or PDF'}
+                </button>
+              )}
+            </div>
+            {!note ? (
+              <p className="text-xs text-[#52525b]">Save the note to attach files</p>
+            ) : attachments.length === 0 ? (
+              <p className="text-xs text-[#52525b]">
+                Images and PDFs up to 2 MB, encrypted with your wallet key and kept on this device
+              </p>
+            ) : (
+              <div className="space-y-1">
+                {attachments.map((attachment) => (
+                  <div key={attachment.id} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-[#0a0a0f] border border-[#27272a]">
+                    <span className="flex-1 min-w-0 truncate text-sm text-[#e4e4e7]">{attachment.name}</span>
+                    <span className="text-xs text-[#52525b]">{formatSize(attachment.size)}</span>
+                    <button
+                      onClick={() =>
+                        insertAtCursor(
+                          attachment.mimeType.startsWith('image/')
+                            ? `![${attachment.name}](attachment:${attachment.id})`
+                            : `[${attachment.name}](attachment:${attachment.id})`
+                        )
+                      }
+                      disabled={mode === 'preview'}
+                      className="px-2 py-0.5 text-xs rounded text-purple-400 hover:bg-purple-500/20 disabled:opacity-50"
+                    >
+                      Insert
+                    </button>
+                    <button
+                      onClick={() => handleSaveAttachment(attachment.id)}
+                      className="px-2 py-0.5 text-xs rounded text-[#a1a1aa] hover:bg-[#27272a]"
+                    >
+                      Save
+                    </button>
+                    <button
+                      onClick={() => handleRemoveAttachment(attachment)}
+                      className="p-1 rounded hover:bg-red-500/20 text-[#71717a] hover:text-red-400 transition-colors"
+                      title="Remove attachment"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Backlinks */}
+          {backlinks.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-[#a1a1aa] mb-2">Linked from</label>
+              <div className="flex flex-wrap gap-2">
+                {backlinks.map((linking) => (
+                  <button
+                    key={linking.id}
+                    onClick={() => {
+                      if (!isDirty || confirm('Leave this note without saving your changes?')) {
+                        onOpenNote?.(linking);
+                      }
+                    }}
+                    className="px-3 py-1 text-sm rounded-lg bg-[#1a1a24] hover:bg-[#27272a] text-purple-400 transition-colors"
+                  >
+                    {linking.title || 'Untitled'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Footer */}
-        <div className="px-6 py-4 border-t border-[#27272a] flex justify-end gap-3">
+        <div className="px-6 py-4 border-t border-[#27272a] flex justify-end gap-3 flex-shrink-0">
           <button
             onClick={onClose}
             className="px-4 h-10 rounded-lg bg-[#1a1a24] hover:bg-[#27272a] text-[#a1a1aa] font-medium transition-colors"
@@ -1,13 +1,32 @@
 import React, { useEffect, useState } from 'react';
-import { useNotesStore, Note } from '../../stores/notesStore';
+import { useNotesStore, Note, PageClip } from '../../stores/notesStore';
+import { markdownToPlainText } from '../../lib/markdown';
 import { NoteEditor } from './NoteEditor';
+import { ShareNoteModal, loadAddressBook, shortAddress } from './ShareNoteModal';
+
+// How often waiting shares are checked while the panel is open
+const SHARE_RETRY_INTERVAL = 30 * 1000;
 
 interface NotesPanelProps {
   isOpen: boolean;
   onClose: () => void;
+  onNavigate?: (url: string) => void;
+}
+
+/**
+ * Starting text for a note made from a page clip
+ */
+function clipToDraft(clip: PageClip): { title: string; content: string } {
+  const source = `[${clip.title || clip.url}](${clip.url})`;
+  if (!clip.selection) {
+    return { title: clip.title, content: source };
+  }
+
+  const quote = clip.selection.split('\n').map((line) => `> ${line}`).join('\n');
+  return { title: clip.title, content: `${quote}\n\n— ${source}` };
 }
 
-export const NotesPanel: React.FC<NotesPanelProps> = ({ isOpen, onClose }) => {
+export const NotesPanel: React.FC<NotesPanelProps> = ({ isOpen, onClose, onNavigate }) => {
   const {
     notes,
     isLoading,
@@ -16,14 +35,35 @@ export const NotesPanel: React.FC<NotesPanelProps> = ({ isOpen, onClose }) => {
     updateNote,
     deleteNote,
     syncToAleo,
+    restoreFromChain,
     searchQuery,
     setSearchQuery,
     getFilteredNotes,
+    pendingClip,
+    setPendingClip,
+    clipPage,
+    findNoteByTitle,
+    clearAttachmentCache,
+    shares,
+    inbox,
+    isInboxLoading,
+    inboxError,
+    loadShares,
+    loadInbox,
+    saveReceived,
+    removeReceived,
   } = useNotesStore();
 
   const [isEditorOpen, setIsEditorOpen] = useState(false);
   const [editingNote, setEditingNote] = useState<Note | null>(null);
+  const [draft, setDraft] = useState<{ title: string; content: string } | null>(null);
   const [syncingNoteId, setSyncingNoteId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [view, setView] = useState<'notes' | 'inbox'>('notes');
+  const [sharingNote, setSharingNote] = useState<Note | null>(null);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const pendingShares = shares.filter((share) => share.status === 'pending');
 
   useEffect(() => {
     if (isOpen) {
@@ -31,16 +71,86 @@ export const NotesPanel: React.FC<NotesPanelProps> = ({ isOpen, onClose }) => {
     }
   }, [isOpen, loadNotes]);
 
+  // Shared copies are transferred once confirmed, so check while any are waiting
+  useEffect(() => {
+    if (isOpen) {
+      loadShares();
+    }
+  }, [isOpen, loadShares]);
+
+  const hasPendingShares = pendingShares.length > 0;
+  useEffect(() => {
+    if (!isOpen || !hasPendingShares) return;
+    const timer = setInterval(loadShares, SHARE_RETRY_INTERVAL);
+    return () => clearInterval(timer);
+  }, [isOpen, hasPendingShares, loadShares]);
+
+  useEffect(() => {
+    if (isOpen && view === 'inbox') {
+      loadInbox();
+    }
+  }, [isOpen, view, loadInbox]);
+
+  // Decrypted attachments are only kept while the panel is open
+  useEffect(() => {
+    if (!isOpen) {
+      clearAttachmentCache();
+    }
+  }, [isOpen, clearAttachmentCache]);
+
+  // Clips sent from the page context menu
+  useEffect(() => {
+    if (isOpen && pendingClip) {
+      setEditingNote(null);
+      setDraft(clipToDraft(pendingClip));
+      setIsEditorOpen(true);
+      setPendingClip(null);
+    }
+  }, [isOpen, pendingClip, setPendingClip]);
+
   const handleCreateNote = () => {
     setEditingNote(null);
+    setDraft(null);
     setIsEditorOpen(true);
   };
 
   const handleEditNote = (note: Note) => {
     setEditingNote(note);
+    setDraft(null);
+    setIsEditorOpen(true);
+  };
+
+  const handleClipPage = async () => {
+    const result = await clipPage();
+    if (!result.success || !result.clip) {
+      alert(`Could not clip page: ${result.error}`);
+      return;
+    }
+    setEditingNote(null);
+    setDraft(clipToDraft(result.clip));
     setIsEditorOpen(true);
   };
 
+  // [[Title]] opens that note, or starts a new one with the title
+  const handleOpenWikiLink = (title: string) => {
+    const linked = findNoteByTitle(title);
+    if (linked) {
+      handleEditNote(linked);
+    } else {
+      setEditingNote(null);
+      setDraft({ title, content: '' });
+      setIsEditorOpen(true);
+    }
+  };
+
+  const handleOpenLink = (url: string) => {
+    if (onNavigate) {
+      setIsEditorOpen(false);
+      setEditingNote(null);
+      onNavigate(url);
+    }
+  };
+
   const handleSaveNote = async (noteData: { title: string; content: string; tags: string[] }) => {
     if (editingNote) {
       await updateNote(editingNote.id, noteData);
@@ -49,6 +159,7 @@ export const NotesPanel: React.FC<NotesPanelProps> = ({ isOpen, onClose }) => {
     }
     setIsEditorOpen(false);
     setEditingNote(null);
+    setDraft(null);
   };
 
   const handleDeleteNote = async (id: string) => {
@@ -66,6 +177,47 @@ export const NotesPanel: React.FC<NotesPanelProps> = ({ isOpen, onClose }) => {
     }
   };
 
+  const handleRestoreNotes = async () => {
+    setIsRestoring(true);
+    const result = await restoreFromChain();
+    setIsRestoring(false);
+    if (!result.success) {
+      alert(`Restore failed: ${result.error}`);
+    } else {
+      alert(`Restored ${result.restored || 0} notes from Aleo`);
+    }
+  };
+
+  const handleOpenReceived = (received: { title: string; content: string }) => {
+    setEditingNote(null);
+    setDraft({ title: received.title, content: received.content });
+    setIsEditorOpen(true);
+  };
+
+  const handleSaveReceived = async (received: Parameters<typeof saveReceived>[0]) => {
+    const saved = await saveReceived(received);
+    if (saved) {
+      setView('notes');
+    } else {
+      alert('Could not save the shared note');
+    }
+  };
+
+  const handleRemoveReceived = async (id: string) => {
+    if (!confirm('Remove this shared note? Its records are consumed on-chain (0.1 ALEO per part).')) {
+      return;
+    }
+    setRemovingId(id);
+    const result = await removeReceived(id);
+    setRemovingId(null);
+    if (!result.success) {
+      alert(`Remove failed: ${result.error}`);
+    }
+  };
+
+  const contactName = (address: string) =>
+    loadAddressBook().find((contact) => contact.address === address)?.name || shortAddress(address);
+
   const filteredNotes = getFilteredNotes();
 
   const formatDate = (timestamp: number) => {
@@ -114,171 +266,308 @@ export const NotesPanel: React.FC<NotesPanelProps> = ({ isOpen, onClose }) => {
           </button>
         </div>
 
-        {/* Search and Create */}
-        <div className="p-4 space-y-3 border-b border-[#27272a]">
-          {/* Search */}
-          <div className="relative">
-            <svg className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#52525b]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-            </svg>
-            <input
-              type="text"
-              placeholder="Search notes..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="w-full h-9 pl-10 pr-4 bg-[#0a0a0f] border border-[#27272a] rounded-lg text-sm text-[#e4e4e7] placeholder-[#52525b] focus:outline-none focus:border-[#00d4aa]"
-            />
-          </div>
-
-          {/* Create Button */}
-          <button
-            onClick={handleCreateNote}
-            className="w-full h-10 rounded-lg bg-purple-500/20 hover:bg-purple-500/30 text-purple-400 font-medium transition-colors flex items-center justify-center gap-2"
-          >
-            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-            Create New Note
-          </button>
+        {/* View Tabs */}
+        <div className="px-4 pt-3 flex gap-1 border-b border-[#27272a]">
+          {([
+            { value: 'notes', label: 'My Notes' },
+            { value: 'inbox', label: inbox.length ? `Shared with me (${inbox.length})` : 'Shared with me' },
+          ] as const).map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() => setView(tab.value)}
+              className={`px-3 pb-2 text-sm border-b-2 transition-colors ${
+                view === tab.value
+                  ? 'border-purple-500 text-[#e4e4e7]'
+                  : 'border-transparent text-[#71717a] hover:text-[#a1a1aa]'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
         </div>
 
-        {/* Notes List */}
-        <div className="flex-1 overflow-y-auto p-4 space-y-3" style={{ height: 'calc(100vh - 200px)' }}>
-          {isLoading ? (
-            <div className="flex flex-col items-center justify-center py-12">
-              <div className="w-8 h-8 border-2 border-purple-500/30 border-t-purple-500 rounded-full animate-spin" />
-              <p className="text-sm text-[#71717a] mt-3">Loading notes...</p>
-            </div>
-          ) : filteredNotes.length === 0 ? (
-            <div className="flex flex-col items-center justify-center py-12 text-center">
-              <div className="w-16 h-16 rounded-full bg-[#1a1a24] flex items-center justify-center mb-4">
-                <svg className="w-8 h-8 text-[#52525b]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+        {view === 'notes' ? (
+          <>
+            {/* Search and Create */}
+            <div className="p-4 space-y-3 border-b border-[#27272a]">
+              {/* Search */}
+              <div className="relative">
+                <svg className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#52525b]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                 </svg>
+                <input
+                  type="text"
+                  placeholder="Search notes..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="w-full h-9 pl-10 pr-4 bg-[#0a0a0f] border border-[#27272a] rounded-lg text-sm text-[#e4e4e7] placeholder-[#52525b] focus:outline-none focus:border-[#00d4aa]"
+                />
               </div>
-              <h3 className="text-lg font-semibold text-[#e4e4e7] mb-1">No Notes Yet</h3>
-              <p className="text-sm text-[#71717a] max-w-xs">
-                {searchQuery
-                  ? 'No notes match your search'
-                  : 'Create your first private note to store securely on the Aleo blockchain'}
-              </p>
-            </div>
-          ) : (
-            filteredNotes.map((note) => (
-              <div
-                key={note.id}
-                className="p-4 bg-[#0a0a0f] border border-[#27272a] rounded-lg hover:border-[#3f3f46] transition-colors cursor-pointer"
-                onClick={() => handleEditNote(note)}
+
+              {/* Create Buttons */}
+              <div className="flex gap-2">
+                <button
+                  onClick={handleCreateNote}
+                  className="flex-1 h-10 rounded-lg bg-purple-500/20 hover:bg-purple-500/30 text-purple-400 font-medium transition-colors flex items-center justify-center gap-2"
+                >
+                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                  </svg>
+                  Create New Note
+                </button>
+                <button
+                  onClick={handleClipPage}
+                  title="New note from the current page and selected text"
+                  className="px-3 h-10 rounded-lg bg-[#1a1a24] hover:bg-[#27272a] text-[#a1a1aa] text-sm font-medium transition-colors flex items-center gap-2"
+                >
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.121 14.121L19 19m-7-7l7-7m-7 7l-2.879 2.879M12 12L9.121 9.121m0 5.758a3 3 0 10-4.243 4.243 3 3 0 004.243-4.243zm0-5.758a3 3 0 10-4.243-4.243 3 3 0 004.243 4.243z" />
+                  </svg>
+                  Clip page
+                </button>
+              </div>
+
+              {/* Restore Button */}
+              <button
+                onClick={handleRestoreNotes}
+                disabled={isRestoring}
+                className="w-full text-xs text-[#71717a] hover:text-[#a1a1aa] transition-colors disabled:opacity-50"
               >
-                <div className="flex items-start justify-between mb-2">
-                  <h3 className="text-sm font-semibold text-[#e4e4e7] truncate flex-1 mr-2">
-                    {note.title || 'Untitled'}
-                  </h3>
-                  {/* Sync Status Badge */}
-                  {note.syncStatus === 'on-chain' || note.syncedToAleo ? (
-                    <span className="px-2 py-0.5 text-xs font-medium rounded bg-green-500/10 text-green-400 flex items-center gap-1 flex-shrink-0">
-                      <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                      </svg>
-                      On-Chain
-                    </span>
-                  ) : note.syncStatus === 'syncing' ? (
-                    <span className="px-2 py-0.5 text-xs font-medium rounded bg-blue-500/10 text-blue-400 flex items-center gap-1 flex-shrink-0">
-                      <div className="w-3 h-3 border border-blue-400/30 border-t-blue-400 rounded-full animate-spin" />
-                      Syncing
-                    </span>
-                  ) : note.syncStatus === 'failed' ? (
-                    <span className="px-2 py-0.5 text-xs font-medium rounded bg-red-500/10 text-red-400 flex items-center gap-1 flex-shrink-0">
-                      <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                      </svg>
-                      Failed
-                    </span>
-                  ) : (
-                    <span className="px-2 py-0.5 text-xs font-medium rounded bg-amber-500/10 text-amber-400 flex-shrink-0">
-                      Local
-                    </span>
-                  )}
+                {isRestoring ? 'Restoring from Aleo...' : 'Restore notes from Aleo'}
+              </button>
+            </div>
+
+            {/* Notes List */}
+            <div className="flex-1 overflow-y-auto p-4 space-y-3" style={{ height: 'calc(100vh - 240px)' }}>
+              {isLoading ? (
+                <div className="flex flex-col items-center justify-center py-12">
+                  <div className="w-8 h-8 border-2 border-purple-500/30 border-t-purple-500 rounded-full animate-spin" />
+                  <p className="text-sm text-[#71717a] mt-3">Loading notes...</p>
                 </div>
+              ) : filteredNotes.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-12 text-center">
+                  <div className="w-16 h-16 rounded-full bg-[#1a1a24] flex items-center justify-center mb-4">
+                    <svg className="w-8 h-8 text-[#52525b]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                    </svg>
+                  </div>
+                  <h3 className="text-lg font-semibold text-[#e4e4e7] mb-1">No Notes Yet</h3>
+                  <p className="text-sm text-[#71717a] max-w-xs">
+                    {searchQuery
+                      ? 'No notes match your search'
+                      : 'Create your first private note to store securely on the Aleo blockchain'}
+                  </p>
+                </div>
+              ) : (
+                filteredNotes.map((note) => (
+                  <div
+                    key={note.id}
+                    className="p-4 bg-[#0a0a0f] border border-[#27272a] rounded-lg hover:border-[#3f3f46] transition-colors cursor-pointer"
+                    onClick={() => handleEditNote(note)}
+                  >
+                    <div className="flex items-start justify-between mb-2">
+                      <h3 className="text-sm font-semibold text-[#e4e4e7] truncate flex-1 mr-2">
+                        {note.title || 'Untitled'}
+                      </h3>
+                      {/* Sync Status Badge */}
+                      {note.syncStatus === 'on-chain' || note.syncedToAleo ? (
+                        <span className="px-2 py-0.5 text-xs font-medium rounded bg-green-500/10 text-green-400 flex items-center gap-1 flex-shrink-0">
+                          <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                          </svg>
+                          On-Chain
+                        </span>
+                      ) : note.syncStatus === 'syncing' ? (
+                        <span className="px-2 py-0.5 text-xs font-medium rounded bg-blue-500/10 text-blue-400 flex items-center gap-1 flex-shrink-0">
+                          <div className="w-3 h-3 border border-blue-400/30 border-t-blue-400 rounded-full animate-spin" />
+                          Syncing
+                        </span>
+                      ) : note.syncStatus === 'failed' ? (
+                        <span className="px-2 py-0.5 text-xs font-medium rounded bg-red-500/10 text-red-400 flex items-center gap-1 flex-shrink-0">
+                          <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                          Failed
+                        </span>
+                      ) : (
+                        <span className="px-2 py-0.5 text-xs font-medium rounded bg-amber-500/10 text-amber-400 flex-shrink-0">
+                          Local
+                        </span>
+                      )}
+                    </div>
 
-                {/* Preview */}
-                <p className="text-xs text-[#71717a] line-clamp-2 mb-2">
-                  {note.content || 'No content'}
-                </p>
+                    {/* Preview */}
+                    <p className="text-xs text-[#71717a] line-clamp-2 mb-2">
+                      {markdownToPlainText(note.content) || 'No content'}
+                    </p>
 
-                {/* Tags */}
-                {note.tags && note.tags.length > 0 && (
-                  <div className="flex flex-wrap gap-1 mb-2">
-                    {note.tags.slice(0, 3).map((tag, i) => (
-                      <span
-                        key={i}
-                        className="px-2 py-0.5 text-xs rounded bg-[#1a1a24] text-[#a1a1aa]"
-                      >
-                        #{tag}
-                      </span>
-                    ))}
-                    {note.tags.length > 3 && (
-                      <span className="text-xs text-[#52525b]">+{note.tags.length - 3}</span>
+                    {/* Tags */}
+                    {note.tags && note.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mb-2">
+                        {note.tags.slice(0, 3).map((tag, i) => (
+                          <span
+                            key={i}
+                            className="px-2 py-0.5 text-xs rounded bg-[#1a1a24] text-[#a1a1aa]"
+                          >
+                            #{tag}
+                          </span>
+                        ))}
+                        {note.tags.length > 3 && (
+                          <span className="text-xs text-[#52525b]">+{note.tags.length - 3}</span>
+                        )}
+                      </div>
                     )}
+
+                    {/* Footer */}
+                    <div className="flex items-center justify-between pt-2 border-t border-[#27272a]/50">
+                      <span className="text-xs text-[#52525b]">
+                        {formatDate(note.updatedAt)}
+                        {note.attachments && note.attachments.length > 0 && (
+                          <> · {note.attachments.length} {note.attachments.length === 1 ? 'file' : 'files'}</>
+                        )}
+                      </span>
+
+                      <div className="flex items-center gap-2">
+                        {/* Sync Button - show for local or failed notes */}
+                        {!note.syncedToAleo && note.syncStatus !== 'on-chain' && note.syncStatus !== 'syncing' && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleSyncNote(note.id);
+                            }}
+                            disabled={syncingNoteId === note.id}
+                            className="px-2 py-1 text-xs rounded bg-purple-500/20 hover:bg-purple-500/30 text-purple-400 transition-colors disabled:opacity-50 flex items-center gap-1"
+                          >
+                            {syncingNoteId === note.id ? (
+                              <>
+                                <div className="w-3 h-3 border border-purple-400/30 border-t-purple-400 rounded-full animate-spin" />
+                                Syncing...
+                              </>
+                            ) : note.syncStatus === 'failed' ? (
+                              <>
+                                <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                                </svg>
+                                Retry
+                              </>
+                            ) : (
+                              <>
+                                <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4" />
+                                </svg>
+                                Sync
+                              </>
+                            )}
+                          </button>
+                        )}
+
+                        {/* Share Button */}
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setSharingNote(note);
+                          }}
+                          className="p-1 rounded hover:bg-purple-500/20 text-[#71717a] hover:text-purple-400 transition-colors"
+                          title="Share privately"
+                        >
+                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+                          </svg>
+                        </button>
+
+                        {/* Delete Button */}
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDeleteNote(note.id);
+                          }}
+                          className="p-1 rounded hover:bg-red-500/20 text-[#71717a] hover:text-red-400 transition-colors"
+                        >
+                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        </button>
+                      </div>
+                    </div>
                   </div>
-                )}
+                ))
+              )}
+            </div>
+          </>
+        ) : (
+          /* Shared With Me */
+          <div className="flex-1 overflow-y-auto p-4 space-y-3" style={{ height: 'calc(100vh - 150px)' }}>
+            {pendingShares.length > 0 && (
+              <div className="p-3 rounded-lg bg-amber-500/10 border border-amber-500/20 text-xs text-amber-400">
+                Sending {pendingShares.length} shared {pendingShares.length === 1 ? 'note' : 'notes'}. Each is transferred once its records are confirmed.
+              </div>
+            )}
 
-                {/* Footer */}
-                <div className="flex items-center justify-between pt-2 border-t border-[#27272a]/50">
-                  <span className="text-xs text-[#52525b]">{formatDate(note.updatedAt)}</span>
+            {isInboxLoading ? (
+              <div className="flex flex-col items-center justify-center py-12">
+                <div className="w-8 h-8 border-2 border-purple-500/30 border-t-purple-500 rounded-full animate-spin" />
+                <p className="text-sm text-[#71717a] mt-3">Looking for shared notes...</p>
+              </div>
+            ) : inboxError ? (
+              <p className="py-12 text-sm text-center text-[#71717a]">{inboxError}</p>
+            ) : inbox.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-center">
+                <h3 className="text-lg font-semibold text-[#e4e4e7] mb-1">Nothing Shared Yet</h3>
+                <p className="text-sm text-[#71717a] max-w-xs">
+                  Notes other Aleo addresses share with you privately appear here
+                </p>
+              </div>
+            ) : (
+              inbox.map((received) => (
+                <div
+                  key={received.id}
+                  className="p-4 bg-[#0a0a0f] border border-[#27272a] rounded-lg hover:border-[#3f3f46] transition-colors cursor-pointer"
+                  onClick={() => handleOpenReceived(received)}
+                >
+                  <h3 className="text-sm font-semibold text-[#e4e4e7] truncate mb-1">{received.title || 'Untitled'}</h3>
+                  <p className="text-xs text-purple-400 mb-2" title={received.from}>From {contactName(received.from)}</p>
+                  <p className="text-xs text-[#71717a] line-clamp-2 mb-2">
+                    {markdownToPlainText(received.content) || 'No content'}
+                  </p>
 
-                  <div className="flex items-center gap-2">
-                    {/* Sync Button - show for local or failed notes */}
-                    {!note.syncedToAleo && note.syncStatus !== 'on-chain' && note.syncStatus !== 'syncing' && (
+                  <div className="flex items-center justify-between pt-2 border-t border-[#27272a]/50">
+                    <span className="text-xs text-[#52525b]">{formatDate(received.updatedAt)}</span>
+                    <div className="flex items-center gap-2">
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
-                          handleSyncNote(note.id);
+                          handleSaveReceived(received);
                         }}
-                        disabled={syncingNoteId === note.id}
-                        className="px-2 py-1 text-xs rounded bg-purple-500/20 hover:bg-purple-500/30 text-purple-400 transition-colors disabled:opacity-50 flex items-center gap-1"
+                        className="px-2 py-1 text-xs rounded bg-purple-500/20 hover:bg-purple-500/30 text-purple-400 transition-colors"
                       >
-                        {syncingNoteId === note.id ? (
-                          <>
-                            <div className="w-3 h-3 border border-purple-400/30 border-t-purple-400 rounded-full animate-spin" />
-                            Syncing...
-                          </>
-                        ) : note.syncStatus === 'failed' ? (
-                          <>
-                            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                            </svg>
-                            Retry
-                          </>
-                        ) : (
-                          <>
-                            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4" />
-                            </svg>
-                            Sync
-                          </>
-                        )}
+                        Save copy
                       </button>
-                    )}
-
-                    {/* Delete Button */}
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleDeleteNote(note.id);
-                      }}
-                      className="p-1 rounded hover:bg-red-500/20 text-[#71717a] hover:text-red-400 transition-colors"
-                    >
-                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                      </svg>
-                    </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRemoveReceived(received.id);
+                        }}
+                        disabled={removingId === received.id}
+                        className="px-2 py-1 text-xs rounded text-[#71717a] hover:bg-red-500/20 hover:text-red-400 transition-colors disabled:opacity-50"
+                      >
+                        {removingId === received.id ? 'Removing...' : 'Remove'}
+                      </button>
+                    </div>
                   </div>
                 </div>
-              </div>
-            ))
-          )}
-        </div>
+              ))
+            )}
+
+            {!isInboxLoading && (
+              <button
+                onClick={() => loadInbox()}
+                className="w-full text-xs text-[#71717a] hover:text-[#a1a1aa] transition-colors"
+              >
+                Check for new shared notes
+              </button>
+            )}
+          </div>
+        )}
 
         {/* Footer Info */}
         <div className="px-4 py-3 border-t border-[#27272a] bg-[#0a0a0f]">
@@ -292,12 +581,20 @@ export const NotesPanel: React.FC<NotesPanelProps> = ({ isOpen, onClose }) => {
       <NoteEditor
         isOpen={isEditorOpen}
         note={editingNote}
+        draft={draft}
         onSave={handleSaveNote}
         onClose={() => {
           setIsEditorOpen(false);
           setEditingNote(null);
+          setDraft(null);
         }}
+        onOpenNote={handleEditNote}
+        onOpenWikiLink={handleOpenWikiLink}
+        onOpenLink={onNavigate ? handleOpenLink : undefined}
       />
+
+      {/* Share Modal */}
+      <ShareNoteModal note={sharingNote} onClose={() => setSharingNote(null)} />
     </>
   );
 };
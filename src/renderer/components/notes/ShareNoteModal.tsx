@@ -0,0 +1,204 @@
+import React, { useState, useEffect } from 'react';
+import { Note, useNotesStore } from '../../stores/notesStore';
+
+interface ShareNoteModalProps {
+  note: Note | null;
+  onClose: () => void;
+}
+
+interface SavedAddress {
+  id: string;
+  name: string;
+  address: string;
+}
+
+// localStorage key used by AddressBook.tsx
+const ADDRESS_BOOK_KEY = 'aleo_address_book';
+
+export const loadAddressBook = (): SavedAddress[] => {
+  try {
+    return JSON.parse(localStorage.getItem(ADDRESS_BOOK_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const shortAddress = (address: string) => `${address.slice(0, 10)}...${address.slice(-6)}`;
+
+const isValidAleoAddress = (address: string) => address.startsWith('aleo1') && address.length === 63;
+
+/**
+ * Send a private copy of a note to an address from the wallet address book
+ */
+export const ShareNoteModal: React.FC<ShareNoteModalProps> = ({ note, onClose }) => {
+  const { shares, shareNote } = useNotesStore();
+  const [contacts, setContacts] = useState<SavedAddress[]>([]);
+  const [recipient, setRecipient] = useState('');
+  const [filter, setFilter] = useState('');
+  const [isSharing, setIsSharing] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (note) {
+      setContacts(loadAddressBook());
+      setRecipient('');
+      setFilter('');
+      setError('');
+    }
+  }, [note]);
+
+  if (!note) return null;
+
+  const noteShares = shares.filter((share) => share.noteId === note.id);
+  const query = filter.trim().toLowerCase();
+  const visibleContacts = contacts.filter(
+    (c) => !query || c.name.toLowerCase().includes(query) || c.address.toLowerCase().includes(query)
+  );
+
+  const handleShare = async () => {
+    const address = recipient.trim();
+    if (!isValidAleoAddress(address)) {
+      setError('Enter a valid Aleo address (aleo1..., 63 characters)');
+      return;
+    }
+
+    setIsSharing(true);
+    setError('');
+    const result = await shareNote(note.id, address);
+    setIsSharing(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to share note');
+      return;
+    }
+
+    // Remember when a contact was last used, as the wallet does
+    const updated = loadAddressBook().map((c) => (c.address === address ? { ...c, lastUsed: Date.now() } : c));
+    localStorage.setItem(ADDRESS_BOOK_KEY, JSON.stringify(updated));
+    setRecipient('');
+  };
+
+  const nameFor = (address: string) => contacts.find((c) => c.address === address)?.name || shortAddress(address);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-md mx-4 bg-[#111118] border border-[#27272a] rounded-xl shadow-2xl">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-[#27272a] flex items-center justify-between">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-[#e4e4e7]">Share privately</h2>
+            <p className="text-xs text-[#71717a] truncate">{note.title || 'Untitled'}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-lg hover:bg-[#27272a] flex items-center justify-center transition-colors"
+          >
+            <svg className="w-5 h-5 text-[#71717a]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {/* Address book */}
+          <div>
+            <label className="block text-sm font-medium text-[#a1a1aa] mb-2">Address book</label>
+            {contacts.length === 0 ? (
+              <p className="text-xs text-[#52525b]">No saved addresses. Add contacts in the wallet, or paste an address below.</p>
+            ) : (
+              <>
+                {contacts.length > 5 && (
+                  <input
+                    type="text"
+                    value={filter}
+                    onChange={(e) => setFilter(e.target.value)}
+                    placeholder="Search contacts..."
+                    className="w-full h-8 px-3 mb-2 bg-[#0a0a0f] border border-[#27272a] rounded-lg text-sm text-[#e4e4e7] placeholder-[#52525b] focus:outline-none focus:border-purple-500"
+                  />
+                )}
+                <div className="max-h-40 overflow-y-auto space-y-1">
+                  {visibleContacts.map((contact) => (
+                    <button
+                      key={contact.id}
+                      onClick={() => setRecipient(contact.address)}
+                      className={`w-full px-3 py-2 rounded-lg text-left transition-colors ${
+                        recipient === contact.address
+                          ? 'bg-purple-500/20 border border-purple-500/50'
+                          : 'bg-[#0a0a0f] border border-[#27272a] hover:border-[#3f3f46]'
+                      }`}
+                    >
+                      <div className="text-sm text-[#e4e4e7]">{contact.name}</div>
+                      <div className="text-xs font-mono text-[#71717a]">{shortAddress(contact.address)}</div>
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* Recipient */}
+          <div>
+            <label className="block text-sm font-medium text-[#a1a1aa] mb-2">Recipient</label>
+            <input
+              type="text"
+              value={recipient}
+              onChange={(e) => setRecipient(e.target.value)}
+              placeholder="aleo1..."
+              className="w-full h-10 px-3 bg-[#0a0a0f] border border-[#27272a] rounded-lg text-sm font-mono text-[#e4e4e7] placeholder-[#52525b] focus:outline-none focus:border-purple-500"
+            />
+            {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+          </div>
+
+          <p className="text-xs text-[#52525b]">
+            The recipient gets a copy encrypted so only they can read it. Each part of the note is written and then
+            transferred, two 0.1 ALEO transactions per part. Attachments are not shared.
+          </p>
+
+          {/* Earlier shares */}
+          {noteShares.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-[#a1a1aa] mb-2">Shared with</label>
+              <div className="space-y-1">
+                {noteShares.map((share) => (
+                  <div key={share.id} className="flex items-center justify-between px-3 py-1.5 rounded-lg bg-[#0a0a0f] border border-[#27272a]">
+                    <span className="text-sm text-[#e4e4e7] truncate mr-2">{nameFor(share.recipient)}</span>
+                    {share.status === 'sent' ? (
+                      <span className="text-xs text-green-400 flex-shrink-0">Sent</span>
+                    ) : (
+                      <span className="text-xs text-amber-400 flex-shrink-0" title={share.error}>
+                        {share.error ? 'Retrying' : 'Waiting for confirmation'}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-[#27272a] flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 h-10 rounded-lg bg-[#1a1a24] hover:bg-[#27272a] text-[#a1a1aa] font-medium transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleShare}
+            disabled={isSharing || !recipient.trim()}
+            className="px-6 h-10 rounded-lg bg-purple-500 hover:bg-purple-600 text-white font-medium transition-colors disabled:opacity-50"
+          >
+            {isSharing ? 'Sharing...' : 'Share'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareNoteModal;
@@ -1,2 +1,3 @@
 export { NotesPanel } from './NotesPanel';
 export { NoteEditor } from './NoteEditor';
+export { ShareNoteModal } from './ShareNoteModal';
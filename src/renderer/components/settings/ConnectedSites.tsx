@@ -1,16 +1,205 @@
 import React, { useEffect, useState } from 'react';
 import { Button } from '../shared/Button';
 
+interface PermissionScope {
+  programId: string;
+  functions?: string[];
+  autoApprove?: boolean;
+  expiresAt?: number;
+}
+
 interface ConnectedSite {
   origin: string;
   permissions: string[];
   connectedAt: number;
   lastAccessedAt: number;
   address: string;
+  accountId?: string;
   favicon?: string;
   title?: string;
+  scopes?: PermissionScope[];
+  dailySpendLimit?: number;
+  spentToday?: number;
+  expiresAt?: number;
+}
+
+interface WalletAccount {
+  id: string;
+  name: string;
+  address: string;
+}
+
+interface SiteRestrictions {
+  scopes: PermissionScope[] | null;
+  dailySpendLimit: number | null;
+  expiresAt?: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface SiteRestrictionsEditorProps {
+  site: ConnectedSite;
+  saving: boolean;
+  onSave: (restrictions: SiteRestrictions) => void;
+  onCancel: () => void;
 }
 
+/**
+ * Inline editor for a site's program scopes, spending cap and expiry
+ */
+const SiteRestrictionsEditor: React.FC<SiteRestrictionsEditorProps> = ({ site, saving, onSave, onCancel }) => {
+  const [restrictPrograms, setRestrictPrograms] = useState(!!site.scopes);
+  const [scopes, setScopes] = useState<PermissionScope[]>(site.scopes || []);
+  const [programId, setProgramId] = useState('');
+  const [functions, setFunctions] = useState('');
+  const [autoApprove, setAutoApprove] = useState(false);
+  const [dailyLimit, setDailyLimit] = useState(site.dailySpendLimit !== undefined ? String(site.dailySpendLimit) : '');
+  const [expiry, setExpiry] = useState<string>(site.expiresAt ? 'keep' : 'never');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAddScope = () => {
+    const id = programId.trim();
+    if (!/^[a-zA-Z][a-zA-Z0-9_]*\.aleo$/.test(id)) {
+      setError('Enter a program ID like token.aleo');
+      return;
+    }
+    const fnList = functions.split(',').map(f => f.trim()).filter(Boolean);
+    setScopes([
+      ...scopes.filter(scope => scope.programId !== id),
+      { programId: id, functions: fnList.length > 0 ? fnList : undefined, autoApprove },
+    ]);
+    setProgramId('');
+    setFunctions('');
+    setAutoApprove(false);
+    setError(null);
+  };
+
+  const handleSave = () => {
+    const limit = dailyLimit.trim() ? parseFloat(dailyLimit) : null;
+    if (limit !== null && (isNaN(limit) || limit < 0)) {
+      setError('Daily limit must be a positive number of credits');
+      return;
+    }
+
+    onSave({
+      scopes: restrictPrograms ? scopes : null,
+      dailySpendLimit: limit,
+      expiresAt: expiry === 'keep' ? undefined : expiry === 'never' ? null : Date.now() + parseInt(expiry) * DAY_MS,
+    });
+  };
+
+  return (
+    <div className="space-y-4 pt-3 border-t border-bg-elevated">
+      {/* Program scopes */}
+      <div>
+        <label className="flex items-center gap-2 text-sm text-text-primary">
+          <input
+            type="checkbox"
+            checked={restrictPrograms}
+            onChange={(e) => setRestrictPrograms(e.target.checked)}
+          />
+          Only allow specific programs
+        </label>
+
+        {restrictPrograms && (
+          <div className="mt-3 space-y-2">
+            {scopes.length === 0 && (
+              <p className="text-xs text-text-muted">No programs allowed yet. All transaction requests will be refused.</p>
+            )}
+            {scopes.map((scope) => (
+              <div key={scope.programId} className="flex items-center justify-between px-3 py-2 bg-bg-elevated rounded text-xs">
+                <div>
+                  <span className="font-mono text-text-primary">{scope.programId}</span>
+                  <span className="text-text-muted ml-2">
+                    {scope.functions?.length ? scope.functions.join(', ') : 'all functions'}
+                  </span>
+                  {scope.autoApprove && <span className="ml-2 text-accent-aleo">auto-approve</span>}
+                </div>
+                <button
+                  onClick={() => setScopes(scopes.filter(s => s.programId !== scope.programId))}
+                  className="text-text-muted hover:text-red-400"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <input
+                type="text"
+                placeholder="program.aleo"
+                value={programId}
+                onChange={(e) => setProgramId(e.target.value)}
+                className="flex-1 bg-bg-secondary border border-bg-elevated rounded px-3 py-2 text-sm text-text-primary placeholder-text-muted"
+              />
+              <input
+                type="text"
+                placeholder="functions (optional, comma separated)"
+                value={functions}
+                onChange={(e) => setFunctions(e.target.value)}
+                className="flex-1 bg-bg-secondary border border-bg-elevated rounded px-3 py-2 text-sm text-text-primary placeholder-text-muted"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-xs text-text-muted">
+                <input
+                  type="checkbox"
+                  checked={autoApprove}
+                  onChange={(e) => setAutoApprove(e.target.checked)}
+                />
+                Approve automatically (within the daily limit)
+              </label>
+              <Button variant="secondary" size="sm" onClick={handleAddScope}>
+                Add Program
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Spending cap and expiry */}
+      <div className="flex items-center gap-4">
+        <label className="flex-1 text-sm text-text-primary">
+          Daily limit (credits)
+          <input
+            type="number"
+            min="0"
+            step="0.000001"
+            placeholder="No limit"
+            value={dailyLimit}
+            onChange={(e) => setDailyLimit(e.target.value)}
+            className="mt-1 w-full bg-bg-secondary border border-bg-elevated rounded px-3 py-2 text-sm text-text-primary placeholder-text-muted"
+          />
+        </label>
+        <label className="flex-1 text-sm text-text-primary">
+          Access expires
+          <select
+            value={expiry}
+            onChange={(e) => setExpiry(e.target.value)}
+            className="mt-1 w-full bg-bg-secondary border border-bg-elevated rounded px-3 py-2 text-sm text-text-primary"
+          >
+            {site.expiresAt && <option value="keep">Keep current</option>}
+            <option value="never">Never</option>
+            <option value="1">In 1 day</option>
+            <option value="7">In 7 days</option>
+            <option value="30">In 30 days</option>
+          </select>
+        </label>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button variant="primary" size="sm" onClick={handleSave} loading={saving}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
+
 /**
  * Connected Sites Settings
  * Manage dApp permissions and connected sites
@@ -19,6 +208,9 @@ export const ConnectedSites: React.FC = () => {
   const [sites, setSites] = useState<ConnectedSite[]>([]);
   const [loading, setLoading] = useState(true);
   const [disconnecting, setDisconnecting] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [accounts, setAccounts] = useState<WalletAccount[]>([]);
+  const [saving, setSaving] = useState(false);
 
   // Fetch connected sites
   useEffect(() => {
@@ -36,6 +228,10 @@ export const ConnectedSites: React.FC = () => {
       // Get connected sites from permissions
       const response = await (window as any).electron?.permissions?.getConnectedSites?.() || { sites: [] };
       setSites(response.sites || []);
+
+      // Accounts are only listed while the wallet is unlocked
+      const accountsResult = await window.electron.wallet.getAccounts();
+      setAccounts(accountsResult.success ? accountsResult.accounts || [] : []);
     } catch (error) {
       console.error('Failed to fetch connected sites:', error);
     } finally {
@@ -69,6 +265,32 @@ export const ConnectedSites: React.FC = () => {
     }
   };
 
+  const handleAccountChange = async (origin: string, accountId: string) => {
+    try {
+      const result = await (window as any).electron?.permissions?.setSiteAccount?.(origin, accountId);
+      if (result?.success) {
+        await fetchSites();
+      }
+    } catch (error) {
+      console.error('Failed to change site account:', error);
+    }
+  };
+
+  const handleSaveRestrictions = async (origin: string, restrictions: SiteRestrictions) => {
+    setSaving(true);
+    try {
+      const result = await (window as any).electron?.permissions?.updateRestrictions?.(origin, restrictions);
+      if (result?.success) {
+        setEditing(null);
+        await fetchSites();
+      }
+    } catch (error) {
+      console.error('Failed to update site restrictions:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
   // Format date
   const formatDate = (timestamp: number): string => {
     return new Date(timestamp).toLocaleDateString('en-US', {
@@ -101,6 +323,7 @@ export const ConnectedSites: React.FC = () => {
       connect: 'View address',
       sign: 'Sign messages',
       transaction: 'Send transactions',
+      deploy: 'Deploy programs',
       records: 'View records',
       viewKey: 'View key access',
       decrypt: 'Decrypt data',
@@ -200,7 +423,21 @@ export const ConnectedSites: React.FC = () => {
                 {/* Connected Address */}
                 <div className="flex items-center justify-between text-sm">
                   <span className="text-text-muted">Connected wallet</span>
-                  <span className="font-mono text-accent-aleo">{truncateAddress(site.address)}</span>
+                  {accounts.length > 1 ? (
+                    <select
+                      value={accounts.find(a => a.address === site.address)?.id || ''}
+                      onChange={(e) => handleAccountChange(site.origin, e.target.value)}
+                      className="bg-bg-secondary border border-bg-elevated rounded px-2 py-1 text-sm text-text-primary"
+                    >
+                      {accounts.map((account) => (
+                        <option key={account.id} value={account.id}>
+                          {account.name} ({truncateAddress(account.address)})
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="font-mono text-accent-aleo">{truncateAddress(site.address)}</span>
+                  )}
                 </div>
 
                 {/* Permissions */}
@@ -218,6 +455,47 @@ export const ConnectedSites: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Restrictions */}
+                {editing === site.origin ? (
+                  <SiteRestrictionsEditor
+                    site={site}
+                    saving={saving}
+                    onSave={(restrictions) => handleSaveRestrictions(site.origin, restrictions)}
+                    onCancel={() => setEditing(null)}
+                  />
+                ) : (
+                  <div className="space-y-1 text-xs">
+                    <div className="flex items-center justify-between">
+                      <span className="text-text-muted">Allowed programs</span>
+                      <span className="text-text-secondary">
+                        {site.scopes
+                          ? site.scopes.map(scope => scope.programId).join(', ') || 'None'
+                          : 'Any (asks every time)'}
+                      </span>
+                    </div>
+                    {site.dailySpendLimit !== undefined && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-text-muted">Spent today</span>
+                        <span className="text-text-secondary">
+                          {(site.spentToday || 0).toFixed(2)} / {site.dailySpendLimit} credits
+                        </span>
+                      </div>
+                    )}
+                    {site.expiresAt && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-text-muted">Access expires</span>
+                        <span className="text-text-secondary">{formatDate(site.expiresAt)}</span>
+                      </div>
+                    )}
+                    <button
+                      onClick={() => setEditing(site.origin)}
+                      className="text-accent-aleo hover:underline"
+                    >
+                      Edit restrictions
+                    </button>
+                  </div>
+                )}
+
                 {/* Timestamps */}
                 <div className="flex items-center justify-between text-xs text-text-muted pt-2 border-t border-bg-elevated">
                   <span>Connected: {formatDate(site.connectedAt)}</span>
@@ -239,7 +517,8 @@ export const ConnectedSites: React.FC = () => {
             <p className="font-medium text-text-secondary mb-1">About Connected Sites</p>
             <p>
               Connected sites can view your wallet address and request transactions.
-              They cannot access your private keys or make transactions without your approval.
+              They cannot access your private keys or make transactions without your approval,
+              unless you allow a program to auto-approve within a daily limit.
               Disconnect any site you no longer use or trust.
             </p>
           </div>
@@ -0,0 +1,234 @@
+import React, { useState, useEffect } from 'react';
+import type { FilterList, FilterListCategory } from '../../../shared/types';
+
+const CATEGORY_LABELS: Record<FilterListCategory, string> = {
+  ads: 'Ads',
+  trackers: 'Trackers',
+  fingerprinting: 'Fingerprinting',
+};
+
+const formatDate = (timestamp?: number): string =>
+  timestamp ? new Date(timestamp).toLocaleString() : 'Never';
+
+/**
+ * Filter List Settings Component
+ * Adblock Plus / uBlock lists that Shields blocks requests with: subscribe by
+ * URL, import from a file, switch lists on and off and set how often they update
+ */
+export const FilterListSettings: React.FC = () => {
+  const [lists, setLists] = useState<FilterList[]>([]);
+  const [updateInterval, setUpdateInterval] = useState(24);
+  const [newUrl, setNewUrl] = useState('');
+  const [newCategory, setNewCategory] = useState<FilterListCategory>('ads');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editUrl, setEditUrl] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadLists();
+  }, []);
+
+  const loadLists = async () => {
+    const result = await window.electron.privacy.getFilterLists();
+    if (result.success) {
+      setLists(result.lists || []);
+      setUpdateInterval(result.updateIntervalHours || 24);
+    } else {
+      setError(result.error || 'Failed to load filter lists');
+    }
+  };
+
+  // Run an action that changes lists, then reload them
+  const run = async (action: () => Promise<{ success: boolean; canceled?: boolean; error?: string }>) => {
+    setIsBusy(true);
+    setError('');
+    try {
+      const result = await action();
+      if (!result.success && !result.canceled) {
+        setError(result.error || 'Filter list update failed');
+      }
+      await loadLists();
+      return result.success;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newUrl.trim()) return;
+    if (await run(() => window.electron.privacy.addFilterList(newUrl.trim(), newCategory))) {
+      setNewUrl('');
+    }
+  };
+
+  const handleSaveUrl = async (id: string) => {
+    if (await run(() => window.electron.privacy.updateFilterList(id, { url: editUrl.trim() }))) {
+      setEditingId(null);
+    }
+  };
+
+  const handleIntervalChange = async (hours: number) => {
+    setUpdateInterval(hours);
+    await window.electron.privacy.setFilterUpdateInterval(hours);
+  };
+
+  const totalRules = lists.filter((l) => l.enabled).reduce((sum, l) => sum + l.ruleCount, 0);
+
+  return (
+    <div className="bg-bg-secondary border border-bg-elevated rounded-xl p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-text-primary">Filter Lists</h3>
+          <p className="text-sm text-text-muted">
+            {totalRules.toLocaleString()} rules from {lists.filter((l) => l.enabled).length} lists
+          </p>
+        </div>
+        <button
+          onClick={() => run(() => window.electron.privacy.refreshFilterLists())}
+          disabled={isBusy}
+          className="px-3 py-1.5 text-sm bg-accent-aleo/20 hover:bg-accent-aleo/30 text-accent-aleo rounded transition-colors disabled:opacity-50"
+        >
+          {isBusy ? 'Updating...' : 'Update now'}
+        </button>
+      </div>
+
+      {/* Lists */}
+      <div className="divide-y divide-bg-elevated">
+        {lists.map((list) => (
+          <div key={list.id} className="py-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-text-primary truncate">{list.title}</span>
+                  <span className="px-1.5 py-0.5 text-xs rounded bg-bg-elevated text-text-muted">
+                    {CATEGORY_LABELS[list.category]}
+                  </span>
+                </div>
+                <div className="text-xs text-text-muted">
+                  {list.builtin
+                    ? `Built in · ${list.ruleCount} rules`
+                    : `${list.ruleCount.toLocaleString()} rules · Updated ${formatDate(list.lastUpdated)}`}
+                </div>
+                {list.lastError && (
+                  <div className="text-xs text-red-400">Last update failed: {list.lastError}</div>
+                )}
+              </div>
+              <div className="flex items-center gap-3 flex-shrink-0">
+                {!list.builtin && (
+                  <>
+                    <button
+                      onClick={() => {
+                        setEditingId(editingId === list.id ? null : list.id);
+                        setEditUrl(list.url || '');
+                      }}
+                      className="text-xs text-text-muted hover:text-text-primary"
+                    >
+                      URL
+                    </button>
+                    <button
+                      onClick={() => run(() => window.electron.privacy.removeFilterList(list.id))}
+                      className="text-xs text-red-400 hover:text-red-300"
+                    >
+                      Remove
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() => run(() => window.electron.privacy.updateFilterList(list.id, { enabled: !list.enabled }))}
+                  className={`relative w-10 h-5 rounded-full transition-colors ${
+                    list.enabled ? 'bg-accent-aleo' : 'bg-bg-elevated'
+                  }`}
+                >
+                  <span
+                    className={`absolute top-0.5 w-4 h-4 rounded-full bg-white transition-transform ${
+                      list.enabled ? 'translate-x-5' : 'translate-x-0.5'
+                    }`}
+                  />
+                </button>
+              </div>
+            </div>
+
+            {editingId === list.id && (
+              <div className="flex gap-2 mt-2">
+                <input
+                  type="text"
+                  value={editUrl}
+                  onChange={(e) => setEditUrl(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSaveUrl(list.id)}
+                  placeholder="https://... (leave empty to stop updates)"
+                  className="flex-1 bg-bg-primary border border-bg-elevated rounded px-3 py-1.5 text-sm text-text-primary placeholder-text-muted"
+                />
+                <button
+                  onClick={() => handleSaveUrl(list.id)}
+                  disabled={isBusy}
+                  className="px-3 py-1.5 text-sm bg-accent-aleo/20 hover:bg-accent-aleo/30 text-accent-aleo rounded transition-colors disabled:opacity-50"
+                >
+                  Save
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Add a list */}
+      <div className="pt-4 border-t border-bg-elevated">
+        <div className="font-medium text-text-primary mb-3">Add a list</div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            placeholder="https://example.com/filters.txt"
+            value={newUrl}
+            onChange={(e) => setNewUrl(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            className="flex-1 bg-bg-primary border border-bg-elevated rounded px-3 py-2 text-sm text-text-primary placeholder-text-muted"
+          />
+          <select
+            value={newCategory}
+            onChange={(e) => setNewCategory(e.target.value as FilterListCategory)}
+            className="bg-bg-primary border border-bg-elevated rounded px-3 py-2 text-sm text-text-primary"
+          >
+            {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleAdd}
+            disabled={isBusy || !newUrl.trim()}
+            className="px-4 py-2 bg-accent-aleo/20 hover:bg-accent-aleo/30 text-accent-aleo rounded transition-colors disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+        <button
+          onClick={() => run(() => window.electron.privacy.importFilterList(newCategory))}
+          disabled={isBusy}
+          className="mt-2 text-sm text-text-muted hover:text-text-primary disabled:opacity-50"
+        >
+          Import from file...
+        </button>
+      </div>
+
+      {/* Update interval */}
+      <div className="flex items-center gap-4 pt-4 mt-4 border-t border-bg-elevated">
+        <span className="text-text-primary">Check for updates every</span>
+        <select
+          value={updateInterval}
+          onChange={(e) => handleIntervalChange(parseInt(e.target.value))}
+          className="bg-bg-primary border border-bg-elevated rounded px-3 py-1 text-text-primary"
+        >
+          <option value={6}>6 hours</option>
+          <option value={12}>12 hours</option>
+          <option value={24}>Day</option>
+          <option value={96}>4 days</option>
+          <option value={168}>Week</option>
+        </select>
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default FilterListSettings;
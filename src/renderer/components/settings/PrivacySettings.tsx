@@ -1,5 +1,13 @@
 import React from 'react';
 import { Toggle } from '../shared';
+import type { WebRTCIPPolicy } from '../../../shared/types';
+
+// Policies WebRTC IP protection can use; turning it off allows every interface
+const WEBRTC_POLICIES: Array<{ value: WebRTCIPPolicy; label: string }> = [
+  { value: 'default_public_and_private_interfaces', label: 'Hide other network interfaces' },
+  { value: 'default_public_interface_only', label: 'Show only the public IP address' },
+  { value: 'disable_non_proxied_udp', label: 'Only connect through a proxy (may break calls)' },
+];
 
 export interface PrivacySettingsData {
   trackerBlocking: boolean;
@@ -7,6 +15,7 @@ export interface PrivacySettingsData {
   clearCookiesOnExit: boolean;
   fingerprintProtection: boolean;
   webRTCProtection: boolean;
+  webRTCPolicy: WebRTCIPPolicy;  // Applied while webRTCProtection is on
 }
 
 export interface PrivacyStats {
@@ -167,6 +176,21 @@ export const PrivacySettings: React.FC<PrivacySettingsProps> = ({
           label="WebRTC IP Protection"
           description="Prevent websites from detecting your real IP address via WebRTC"
         />
+
+        {settings.webRTCProtection && (
+          <select
+            aria-label="WebRTC IP handling policy"
+            value={settings.webRTCPolicy}
+            onChange={(e) => onChange({ ...settings, webRTCPolicy: e.target.value as WebRTCIPPolicy })}
+            className="w-full bg-bg-secondary border border-bg-elevated rounded-lg px-4 py-2.5 text-text-primary focus:outline-none focus:ring-2 focus:ring-accent-aleo focus:border-accent-aleo transition-all"
+          >
+            {WEBRTC_POLICIES.map((policy) => (
+              <option key={policy.value} value={policy.value}>
+                {policy.label}
+              </option>
+            ))}
+          </select>
+        )}
       </div>
 
       {/* Info Box */}
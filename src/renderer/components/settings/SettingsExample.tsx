@@ -1,8 +1,9 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { SettingsPage, SettingsData } from './SettingsPage';
 import { PrivacyStats } from './PrivacySettings';
 import { AboutInfo } from './AboutSettings';
 import { Button } from '../shared';
+import type { WebRTCIPPolicy } from '../../../shared/types';
 
 /**
  * Example implementation of SettingsPage
@@ -25,6 +26,7 @@ export const SettingsExample: React.FC = () => {
       clearCookiesOnExit: false,
       fingerprintProtection: true,
       webRTCProtection: true,
+      webRTCPolicy: 'default_public_interface_only',
     },
     wallet: {
       autoLockTimeout: 15,
@@ -32,6 +34,31 @@ export const SettingsExample: React.FC = () => {
     },
   });
 
+  // Auto-lock is enforced by the main process, so read its timeout from there
+  useEffect(() => {
+    window.electron.wallet.getAutoLockTimeout().then((result: { success: boolean; minutes: number }) => {
+      if (result.success) {
+        setSettings((prev) => ({ ...prev, wallet: { ...prev.wallet, autoLockTimeout: result.minutes } }));
+      }
+    });
+  }, []);
+
+  // So is the WebRTC IP handling policy of tabs; 'default' means protection is off
+  useEffect(() => {
+    window.electron.privacy.getWebRTCPolicy().then((result: { success: boolean; policy: WebRTCIPPolicy }) => {
+      if (result.success) {
+        setSettings((prev) => ({
+          ...prev,
+          privacy: {
+            ...prev.privacy,
+            webRTCProtection: result.policy !== 'default',
+            webRTCPolicy: result.policy === 'default' ? prev.privacy.webRTCPolicy : result.policy,
+          },
+        }));
+      }
+    });
+  }, []);
+
   // Mock privacy stats (in real app, these would come from IPC)
   const privacyStats: PrivacyStats = {
     trackersBlocked: 12547,
@@ -50,6 +77,17 @@ export const SettingsExample: React.FC = () => {
 
   // Settings handlers
   const handleSettingsChange = (newSettings: SettingsData) => {
+    if (newSettings.wallet.autoLockTimeout !== settings.wallet.autoLockTimeout) {
+      window.electron.wallet.setAutoLockTimeout(newSettings.wallet.autoLockTimeout);
+    }
+    if (
+      newSettings.privacy.webRTCProtection !== settings.privacy.webRTCProtection ||
+      newSettings.privacy.webRTCPolicy !== settings.privacy.webRTCPolicy
+    ) {
+      window.electron.privacy.setWebRTCPolicy(
+        newSettings.privacy.webRTCProtection ? newSettings.privacy.webRTCPolicy : 'default'
+      );
+    }
     setSettings(newSettings);
     console.log('Settings updated:', newSettings);
     // In real app, save to storage via IPC:
@@ -74,13 +112,9 @@ export const SettingsExample: React.FC = () => {
     currentPassword: string,
     newPassword: string
   ): Promise<void> => {
-    console.log('Changing password...');
-    // In real app, call IPC:
-    // await window.electron.ipcRenderer.invoke('change-password', currentPassword, newPassword);
-
-    // Simulate validation
-    if (currentPassword !== 'current') {
-      throw new Error('Current password is incorrect');
+    const result = await window.electron.wallet.changePassword(currentPassword, newPassword);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to change password');
     }
 
     alert('Password changed successfully!');
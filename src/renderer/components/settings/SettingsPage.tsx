@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { GeneralSettings, GeneralSettingsData } from './GeneralSettings';
 import { PrivacySettings, PrivacySettingsData, PrivacyStats } from './PrivacySettings';
+import { FilterListSettings } from './FilterListSettings';
 import { WalletSettings, WalletSettingsData } from './WalletSettings';
 import { PerformanceSettings } from './PerformanceSettings';
 import { AboutSettings, AboutInfo } from './AboutSettings';
@@ -292,11 +293,14 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({
               />
             )}
             {activeSection === 'privacy' && (
-              <PrivacySettings
-                settings={localSettings.privacy}
-                stats={privacyStats}
-                onChange={handlePrivacyChange}
-              />
+              <div className="space-y-8">
+                <PrivacySettings
+                  settings={localSettings.privacy}
+                  stats={privacyStats}
+                  onChange={handlePrivacyChange}
+                />
+                <FilterListSettings />
+              </div>
             )}
             {activeSection === 'wallet' && (
               <WalletSettings
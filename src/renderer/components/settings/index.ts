@@ -7,6 +7,8 @@ export type { GeneralSettingsProps, GeneralSettingsData } from './GeneralSetting
 export { PrivacySettings } from './PrivacySettings';
 export type { PrivacySettingsProps, PrivacySettingsData, PrivacyStats } from './PrivacySettings';
 
+export { FilterListSettings } from './FilterListSettings';
+
 export { WalletSettings } from './WalletSettings';
 export type { WalletSettingsProps, WalletSettingsData } from './WalletSettings';
 
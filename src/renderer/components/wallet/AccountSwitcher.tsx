@@ -0,0 +1,219 @@
+import React, { useState, useEffect, useRef } from 'react';
+
+interface WalletAccount {
+  id: string;
+  name: string;
+  address: string;
+  source: 'derived' | 'imported';
+  index?: number;
+}
+
+interface AccountSwitcherProps {
+  onAccountChanged: () => void;
+}
+
+type AddMode = 'menu' | 'derive' | 'import';
+
+/**
+ * Account switcher dropdown for the wallet panel
+ * Lists keyring accounts and lets the user derive or import more
+ */
+export const AccountSwitcher: React.FC<AccountSwitcherProps> = ({ onAccountChanged }) => {
+  const [accounts, setAccounts] = useState<WalletAccount[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [addMode, setAddMode] = useState<AddMode>('menu');
+  const [name, setName] = useState('');
+  const [privateKey, setPrivateKey] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const loadAccounts = async () => {
+    try {
+      const result = await window.electron.wallet.getAccounts();
+      if (result.success) {
+        setAccounts(result.accounts || []);
+        setSelectedId(result.selectedAccountId || null);
+      }
+    } catch (err) {
+      console.error('Failed to load accounts:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadAccounts();
+  }, []);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        closeMenu();
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const closeMenu = () => {
+    setIsOpen(false);
+    setAddMode('menu');
+    setName('');
+    setPrivateKey('');
+    setError('');
+  };
+
+  const handleSelect = async (accountId: string) => {
+    if (accountId === selectedId) {
+      closeMenu();
+      return;
+    }
+
+    try {
+      const result = await window.electron.wallet.selectAccount(accountId);
+      if (result.success) {
+        setSelectedId(accountId);
+        closeMenu();
+        onAccountChanged();
+      } else {
+        setError(result.error || 'Failed to switch account');
+      }
+    } catch (err) {
+      console.error('Failed to switch account:', err);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      const result = addMode === 'import'
+        ? await window.electron.wallet.importAccount(privateKey.trim(), name || undefined)
+        : await window.electron.wallet.addAccount(name || undefined);
+
+      if (!result.success) {
+        setError(result.error || 'Failed to add account');
+        return;
+      }
+
+      await loadAccounts();
+      await handleSelect(result.account.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add account');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const truncateAddress = (address: string): string => {
+    return `${address.slice(0, 10)}...${address.slice(-6)}`;
+  };
+
+  const selected = accounts.find(a => a.id === selectedId);
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => (isOpen ? closeMenu() : setIsOpen(true))}
+        className="flex items-center gap-2 px-2 py-1 rounded hover:bg-[#1a1a24] transition-colors"
+      >
+        <div className="w-6 h-6 rounded-full bg-gradient-to-br from-[#00d4aa] to-[#a855f7]"></div>
+        <span className="text-lg font-semibold text-[#e4e4e7]">{selected?.name || 'Aleo Wallet'}</span>
+        <svg className="w-4 h-4 text-[#71717a]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-72 bg-[#1a1a24] border border-[#27272a] rounded-lg shadow-xl z-50">
+          <div className="max-h-64 overflow-y-auto py-1">
+            {accounts.map((account) => (
+              <button
+                key={account.id}
+                onClick={() => handleSelect(account.id)}
+                className="w-full px-4 py-2.5 text-left hover:bg-[#27272a] transition-colors flex items-center justify-between"
+              >
+                <div>
+                  <div className="text-sm text-[#e4e4e7] flex items-center gap-2">
+                    {account.name}
+                    {account.source === 'imported' && (
+                      <span className="px-1.5 py-0.5 text-[10px] rounded bg-[#27272a] text-[#a1a1aa]">Imported</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-[#71717a] font-mono">{truncateAddress(account.address)}</div>
+                </div>
+                {account.id === selectedId && (
+                  <svg className="w-4 h-4 text-[#00d4aa]" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                  </svg>
+                )}
+              </button>
+            ))}
+          </div>
+
+          <div className="border-t border-[#27272a]">
+            {addMode === 'menu' ? (
+              <div className="py-1">
+                <button
+                  onClick={() => setAddMode('derive')}
+                  className="w-full px-4 py-2.5 text-left text-sm text-[#e4e4e7] hover:bg-[#27272a] transition-colors"
+                >
+                  + Add Account
+                </button>
+                <button
+                  onClick={() => setAddMode('import')}
+                  className="w-full px-4 py-2.5 text-left text-sm text-[#e4e4e7] hover:bg-[#27272a] transition-colors"
+                >
+                  Import Private Key
+                </button>
+              </div>
+            ) : (
+              <form onSubmit={handleAdd} className="p-3 space-y-2">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Account name (optional)"
+                  className="w-full px-3 py-2 bg-[#0a0a0f] border border-[#27272a] rounded-lg text-sm text-[#e4e4e7] placeholder-[#71717a] focus:outline-none focus:border-[#00d4aa]"
+                />
+                {addMode === 'import' && (
+                  <input
+                    type="password"
+                    value={privateKey}
+                    onChange={(e) => setPrivateKey(e.target.value)}
+                    placeholder="APrivateKey1..."
+                    className="w-full px-3 py-2 bg-[#0a0a0f] border border-[#27272a] rounded-lg text-sm text-[#e4e4e7] font-mono placeholder-[#71717a] focus:outline-none focus:border-[#00d4aa]"
+                  />
+                )}
+                {error && <p className="text-xs text-red-400">{error}</p>}
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => { setAddMode('menu'); setError(''); }}
+                    className="flex-1 px-3 py-2 text-sm text-[#a1a1aa] hover:text-[#e4e4e7] rounded-lg hover:bg-[#27272a] transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={loading || (addMode === 'import' && !privateKey.trim())}
+                    className="flex-1 px-3 py-2 text-sm bg-[#00d4aa] hover:bg-[#00f5c4] text-[#0a0a0f] font-semibold rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {loading ? 'Adding...' : addMode === 'import' ? 'Import' : 'Add'}
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccountSwitcher;
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+
+interface MergeCount {
+  added: number;
+  skipped: number;
+}
+
+interface RestoreReport {
+  accounts: MergeCount;
+  addressBook: MergeCount;
+  sites: MergeCount;
+  transactions: MergeCount;
+  conflicts: string[];
+}
+
+interface BackupModalProps {
+  mode: 'export' | 'import';
+  onClose: () => void;
+  onRestored?: () => void;
+}
+
+// localStorage key used by AddressBook.tsx
+const ADDRESS_BOOK_KEY = 'aleo_address_book';
+
+const loadAddressBook = (): any[] => {
+  try {
+    return JSON.parse(localStorage.getItem(ADDRESS_BOOK_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Export or restore a password-encrypted wallet backup file
+ * Backups hold accounts, address book, connected sites and transaction history
+ */
+export const BackupModal: React.FC<BackupModalProps> = ({ mode, onClose, onRestored }) => {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [savedPath, setSavedPath] = useState('');
+  const [report, setReport] = useState<RestoreReport | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
+    if (mode === 'export' && password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      if (mode === 'export') {
+        const result = await window.electron.wallet.exportBackup(password, loadAddressBook());
+        if (result.success) {
+          setSavedPath(result.filePath);
+        } else if (!result.canceled) {
+          setError(result.error || 'Failed to export backup');
+        }
+      } else {
+        const result = await window.electron.wallet.importBackup(password, loadAddressBook());
+        if (result.success) {
+          localStorage.setItem(ADDRESS_BOOK_KEY, JSON.stringify(result.addressBook || []));
+          setReport(result.report);
+          onRestored?.();
+        } else if (!result.canceled) {
+          setError(result.error || 'Failed to restore backup');
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Backup failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderCount = (label: string, count: MergeCount) => (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-[#a1a1aa]">{label}</span>
+      <span className="text-[#e4e4e7]">
+        {count.added} added{count.skipped > 0 && <span className="text-[#71717a]"> · {count.skipped} already present</span>}
+      </span>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-[#111118] border border-[#27272a] rounded-lg p-6 max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-[#e4e4e7]">
+            {mode === 'export' ? 'Export Backup' : 'Restore Backup'}
+          </h3>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 flex items-center justify-center rounded hover:bg-[#1a1a24] text-[#a1a1aa] hover:text-[#e4e4e7]"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {savedPath ? (
+          <div className="space-y-4">
+            <p className="text-sm text-[#a1a1aa]">Backup saved to:</p>
+            <div className="p-3 bg-[#0a0a0f] border border-[#27272a] rounded-lg">
+              <code className="text-xs text-[#e4e4e7] font-mono break-all">{savedPath}</code>
+            </div>
+            <p className="text-xs text-[#71717a]">
+              Keep this file and its password safe. Both are needed to restore your accounts.
+            </p>
+          </div>
+        ) : report ? (
+          <div className="space-y-3">
+            {renderCount('Accounts', report.accounts)}
+            {renderCount('Address book', report.addressBook)}
+            {renderCount('Connected sites', report.sites)}
+            {renderCount('Transactions', report.transactions)}
+            {report.conflicts.length > 0 && (
+              <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+                <p className="text-sm text-yellow-400 mb-2">Kept existing data for:</p>
+                <ul className="space-y-1">
+                  {report.conflicts.map((conflict, i) => (
+                    <li key={i} className="text-xs text-[#a1a1aa] break-all">{conflict}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-[#a1a1aa]">
+              {mode === 'export'
+                ? 'Choose a password to encrypt the backup. It contains your private keys, so use a strong one.'
+                : 'Enter the password the backup was encrypted with. Existing accounts and settings are kept; only missing entries are added.'}
+            </p>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Backup password"
+              className="w-full px-4 py-3 bg-[#0a0a0f] border border-[#27272a] rounded-lg text-[#e4e4e7] placeholder-[#71717a] focus:outline-none focus:border-[#00d4aa]"
+            />
+            {mode === 'export' && (
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                placeholder="Confirm password"
+                className="w-full px-4 py-3 bg-[#0a0a0f] border border-[#27272a] rounded-lg text-[#e4e4e7] placeholder-[#71717a] focus:outline-none focus:border-[#00d4aa]"
+              />
+            )}
+
+            {error && (
+              <div className="px-4 py-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                {error}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={loading || !password}
+              className="w-full px-4 py-3 bg-[#00d4aa] hover:bg-[#00f5c4] text-[#0a0a0f] font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading
+                ? (mode === 'export' ? 'Encrypting...' : 'Restoring...')
+                : (mode === 'export' ? 'Choose File and Export' : 'Choose File and Restore')}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackupModal;
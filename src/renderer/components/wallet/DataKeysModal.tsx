@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import type { KeyPurpose, KeyVersionInfo, KeyRotationResult } from '../../../shared/types';
+
+interface DataKeysModalProps {
+  onClose: () => void;
+}
+
+const PURPOSE_LABELS: Record<KeyPurpose, { title: string; description: string }> = {
+  notes: { title: 'Notes', description: 'Notes, attachments and their on-chain copies' },
+  bookmarks: { title: 'Bookmarks', description: 'Bookmarks pinned to Aleo' },
+  history: { title: 'History', description: 'History data bound to this account' },
+  credentials: { title: 'Passwords', description: 'Saved logins and their on-chain copies' }
+};
+
+/**
+ * Show and rotate the account's data encryption keys
+ * Each kind of data has its own key derived from the account, separate from
+ * the key that spends funds
+ */
+export const DataKeysModal: React.FC<DataKeysModalProps> = ({ onClose }) => {
+  const [keys, setKeys] = useState<KeyVersionInfo[]>([]);
+  const [selected, setSelected] = useState<KeyPurpose[]>([]);
+  const [results, setResults] = useState<KeyRotationResult[] | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const loadKeys = async () => {
+    const result = await window.electron.wallet.getDataKeys();
+    if (result.success) {
+      setKeys(result.keys || []);
+    } else {
+      setError(result.error || 'Failed to load data keys');
+    }
+  };
+
+  useEffect(() => {
+    loadKeys();
+  }, []);
+
+  const toggle = (purpose: KeyPurpose) => {
+    setSelected((current) =>
+      current.includes(purpose) ? current.filter((p) => p !== purpose) : [...current, purpose]
+    );
+  };
+
+  const handleRotate = async () => {
+    setError('');
+    setLoading(true);
+    try {
+      const result = await window.electron.wallet.rotateDataKeys(selected);
+      if (result.success) {
+        setResults(result.results || []);
+        setSelected([]);
+        await loadKeys();
+      } else {
+        setError(result.error || 'Failed to rotate data keys');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Key rotation failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-[#111118] border border-[#27272a] rounded-lg p-6 max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-[#e4e4e7]">Data Encryption Keys</h3>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 flex items-center justify-center rounded hover:bg-[#1a1a24] text-[#a1a1aa] hover:text-[#e4e4e7]"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <p className="text-sm text-[#a1a1aa]">
+            Your data is encrypted with keys derived from this account, one per kind of data. Rotate a key to
+            re-encrypt what is stored on this device with a new one.
+          </p>
+
+          <div className="space-y-2">
+            {keys.map((key) => (
+              <label
+                key={key.purpose}
+                className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                  selected.includes(key.purpose)
+                    ? 'bg-[#00d4aa]/10 border-[#00d4aa]/50'
+                    : 'bg-[#0a0a0f] border-[#27272a] hover:border-[#3f3f46]'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(key.purpose)}
+                  onChange={() => toggle(key.purpose)}
+                  className="mt-1 accent-[#00d4aa]"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-[#e4e4e7]">{PURPOSE_LABELS[key.purpose].title}</span>
+                    <span className="text-xs font-mono text-[#71717a]">v{key.version}</span>
+                  </div>
+                  <p className="text-xs text-[#71717a]">{PURPOSE_LABELS[key.purpose].description}</p>
+                  {key.rotatedAt && (
+                    <p className="text-xs text-[#52525b]">Rotated {new Date(key.rotatedAt).toLocaleDateString()}</p>
+                  )}
+                </div>
+              </label>
+            ))}
+          </div>
+
+          {results && results.length > 0 && (
+            <div className="p-3 bg-[#00d4aa]/10 border border-[#00d4aa]/30 rounded-lg space-y-1">
+              {results.map((result) => (
+                <p key={result.purpose} className="text-xs text-[#a1a1aa]">
+                  <span className="text-[#e4e4e7]">{PURPOSE_LABELS[result.purpose].title}</span> now on v{result.version}
+                  {result.reencrypted > 0 && ` · ${result.reencrypted} re-encrypted`}
+                  {result.needsSync > 0 && ` · ${result.needsSync} to sync again`}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <p className="text-xs text-[#71717a]">
+            On-chain copies are rewritten with the new key the next time they sync. Data encrypted with older keys
+            can still be restored.
+          </p>
+
+          {error && (
+            <div className="px-4 py-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          <button
+            onClick={handleRotate}
+            disabled={loading || selected.length === 0}
+            className="w-full px-4 py-3 bg-[#00d4aa] hover:bg-[#00f5c4] text-[#0a0a0f] font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Rotating...' : 'Rotate Selected Keys'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataKeysModal;
@@ -4,10 +4,26 @@ interface SendFormProps {
   onClose: () => void;
   onSuccess: () => void;
   currentBalance: number;
+  publicBalance?: number;
+  privateBalance?: number;
+  ownAddress?: string;
 }
 
 type SendStep = 'input' | 'review' | 'sending' | 'success' | 'error';
 type FeeLevel = 'low' | 'medium' | 'high';
+type TransferKind =
+  | 'transfer_public'
+  | 'transfer_private'
+  | 'transfer_public_to_private'
+  | 'transfer_private_to_public'
+  | 'transfer_public_as_signer';
+
+interface TransferOption {
+  kind: TransferKind;
+  label: string;
+  description: string;
+  fromPrivate: boolean;
+}
 
 interface FeeOption {
   level: FeeLevel;
@@ -22,15 +38,27 @@ const FEE_OPTIONS: FeeOption[] = [
   { level: 'high', amount: 0.01, label: 'High', estimatedTime: '~30 sec' },
 ];
 
+const TRANSFER_OPTIONS: TransferOption[] = [
+  { kind: 'transfer_public', label: 'Public', description: 'Public balance to public balance', fromPrivate: false },
+  { kind: 'transfer_private', label: 'Private', description: 'Private record to private record', fromPrivate: true },
+  { kind: 'transfer_public_to_private', label: 'Shield', description: 'Public balance to private record', fromPrivate: false },
+  { kind: 'transfer_private_to_public', label: 'Unshield', description: 'Private record to public balance', fromPrivate: true },
+  { kind: 'transfer_public_as_signer', label: 'As Signer', description: 'Public transfer debited from the signer', fromPrivate: false },
+];
+
 export const SendForm: React.FC<SendFormProps> = ({
   onClose,
   onSuccess,
   currentBalance,
+  publicBalance,
+  privateBalance,
+  ownAddress,
 }) => {
   const [step, setStep] = useState<SendStep>('input');
   const [recipient, setRecipient] = useState('');
   const [amount, setAmount] = useState('');
   const [selectedFee, setSelectedFee] = useState<FeeLevel>('medium');
+  const [transferKind, setTransferKind] = useState<TransferKind>('transfer_public');
   const [error, setError] = useState('');
   const [txHash, setTxHash] = useState('');
 
@@ -47,8 +75,13 @@ export const SendForm: React.FC<SendFormProps> = ({
   }, []);
 
   const selectedFeeOption = FEE_OPTIONS.find((f) => f.level === selectedFee)!;
+  const selectedTransfer = TRANSFER_OPTIONS.find((t) => t.kind === transferKind)!;
   const totalAmount = parseFloat(amount || '0') + selectedFeeOption.amount;
 
+  // The amount comes from the private or public balance; the fee is always public
+  const availablePublic = publicBalance ?? currentBalance;
+  const availableBalance = selectedTransfer.fromPrivate ? (privateBalance ?? 0) : availablePublic;
+
   // NOTE: BrowserView visibility is managed by the parent (App.tsx/WalletSidebar)
   // Do NOT manage BrowserView here to avoid race conditions with parent components
 
@@ -66,7 +99,9 @@ export const SendForm: React.FC<SendFormProps> = ({
   };
 
   const handleMaxClick = () => {
-    const maxAmount = Math.max(0, currentBalance - selectedFeeOption.amount);
+    const maxAmount = selectedTransfer.fromPrivate
+      ? availableBalance
+      : Math.max(0, availableBalance - selectedFeeOption.amount);
     setAmount(maxAmount.toFixed(6));
   };
 
@@ -91,7 +126,16 @@ export const SendForm: React.FC<SendFormProps> = ({
       return;
     }
 
-    if (totalAmount > currentBalance) {
+    if (selectedTransfer.fromPrivate) {
+      if (amountNum > availableBalance) {
+        setError('Insufficient private balance');
+        return;
+      }
+      if (selectedFeeOption.amount > availablePublic) {
+        setError('Insufficient public balance for the network fee');
+        return;
+      }
+    } else if (totalAmount > availableBalance) {
       setError('Insufficient balance (including fee)');
       return;
     }
@@ -107,7 +151,9 @@ export const SendForm: React.FC<SendFormProps> = ({
       const result = await window.electron.wallet.send(
         recipient,
         parseFloat(amount),
-        selectedFeeOption.amount  // Pass the user-selected fee
+        selectedFeeOption.amount,  // Pass the user-selected fee
+        undefined,
+        transferKind
       );
 
       if (result.success) {
@@ -159,11 +205,48 @@ export const SendForm: React.FC<SendFormProps> = ({
         {/* Input Step */}
         {step === 'input' && (
           <div className="p-6 space-y-5">
-            {/* Recipient Address */}
+            {/* Visibility Selector */}
             <div>
               <label className="block text-sm font-medium text-[#e4e4e7] mb-2">
-                Recipient Address
+                Visibility
               </label>
+              <div className="grid grid-cols-5 gap-2">
+                {TRANSFER_OPTIONS.map((option) => (
+                  <button
+                    key={option.kind}
+                    onClick={() => {
+                      setTransferKind(option.kind);
+                      setError('');
+                    }}
+                    title={option.description}
+                    className={`px-2 py-2 rounded-lg border-2 text-xs font-semibold transition-all ${
+                      transferKind === option.kind
+                        ? 'border-[#00d4aa] bg-[#00d4aa]/10 text-[#e4e4e7]'
+                        : 'border-[#27272a] bg-[#0a0a0f] text-[#a1a1aa] hover:border-[#3f3f46]'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <p className="mt-1.5 text-xs text-[#71717a]">{selectedTransfer.description}</p>
+            </div>
+
+            {/* Recipient Address */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-[#e4e4e7]">
+                  Recipient Address
+                </label>
+                {ownAddress && (transferKind === 'transfer_public_to_private' || transferKind === 'transfer_private_to_public') && (
+                  <button
+                    onClick={() => setRecipient(ownAddress)}
+                    className="text-xs text-[#00d4aa] hover:text-[#00f5c4] transition-colors"
+                  >
+                    Use my address
+                  </button>
+                )}
+              </div>
               <input
                 type="text"
                 value={recipient}
@@ -183,7 +266,7 @@ export const SendForm: React.FC<SendFormProps> = ({
                   Amount
                 </label>
                 <span className="text-xs text-[#71717a]">
-                  Balance: <span className="text-[#e4e4e7] font-mono">{currentBalance.toFixed(6)}</span> ALEO
+                  {selectedTransfer.fromPrivate ? 'Private' : 'Public'} balance: <span className="text-[#e4e4e7] font-mono">{availableBalance.toFixed(6)}</span> ALEO
                 </span>
               </div>
               <div className="relative">
@@ -284,6 +367,14 @@ export const SendForm: React.FC<SendFormProps> = ({
                 </div>
               </div>
 
+              {/* Visibility */}
+              <div>
+                <div className="text-sm text-[#a1a1aa] mb-2">Visibility</div>
+                <div className="px-4 py-3 bg-[#0a0a0f] border border-[#27272a] rounded-lg text-[#e4e4e7] text-sm">
+                  {selectedTransfer.label} <span className="text-[#71717a]">({selectedTransfer.description})</span>
+                </div>
+              </div>
+
               {/* To */}
               <div>
                 <div className="text-sm text-[#a1a1aa] mb-2">To</div>
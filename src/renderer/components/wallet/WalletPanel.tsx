@@ -1,5 +1,8 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { TransactionList } from './TransactionList';
+import { AccountSwitcher } from './AccountSwitcher';
+import { BackupModal } from './BackupModal';
+import { DataKeysModal } from './DataKeysModal';
 
 interface WalletPanelProps {
   onSendClick: () => void;
@@ -13,6 +16,8 @@ interface WalletData {
   address: string;
   publicBalance: number;
   privateBalance: number;
+  privatePending: number;
+  privateSyncing: boolean;
 }
 
 interface Transaction {
@@ -50,6 +55,8 @@ export const WalletPanel: React.FC<WalletPanelProps> = ({
   const [showExportModal, setShowExportModal] = useState(false);
   const [exportType, setExportType] = useState<'privateKey' | 'viewKey'>('privateKey');
   const [exportedKey, setExportedKey] = useState('');
+  const [backupMode, setBackupMode] = useState<'export' | 'import' | null>(null);
+  const [showDataKeys, setShowDataKeys] = useState(false);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loadingTx, setLoadingTx] = useState(false);
 
@@ -59,10 +66,23 @@ export const WalletPanel: React.FC<WalletPanelProps> = ({
   useEffect(() => {
     checkWalletState();
 
+    // Keep the private balance current as new blocks are scanned
+    const unsubscribeBalance = window.electron.events?.onWalletBalanceChanged?.((balance: { public: number; private: number; privatePending?: number; privateSyncing?: boolean }) => {
+      if (!isMountedRef.current) return;
+      setWalletData(prev => prev ? {
+        ...prev,
+        publicBalance: balance.public || 0,
+        privateBalance: balance.private || 0,
+        privatePending: balance.privatePending || 0,
+        privateSyncing: !!balance.privateSyncing,
+      } : null);
+    });
+
     // Set mounted ref and return cleanup that only runs on unmount
     isMountedRef.current = true;
     return () => {
       isMountedRef.current = false;
+      unsubscribeBalance?.();
       // Only restore BrowserView on actual unmount
       window.electron.ui?.setBrowserViewVisible(true);
     };
@@ -74,16 +94,18 @@ export const WalletPanel: React.FC<WalletPanelProps> = ({
       state === 'locked' ||
       state === 'no-wallet' ||
       showImportModal ||
-      showExportModal;
+      showExportModal ||
+      backupMode !== null ||
+      showDataKeys;
 
-    console.log('[WalletPanel] BrowserView visibility:', !shouldHideBrowserView, { state, showImportModal, showExportModal });
+    console.log('[WalletPanel] BrowserView visibility:', !shouldHideBrowserView, { state, showImportModal, showExportModal, backupMode, showDataKeys });
 
     // Always hide BrowserView when wallet panel is active (to prevent it from blocking input)
     // Only show it when wallet is unlocked AND no modals are open
     window.electron.ui?.setBrowserViewVisible(!shouldHideBrowserView);
 
     // No cleanup here - the mount useEffect handles unmount cleanup
-  }, [state, showImportModal, showExportModal]);
+  }, [state, showImportModal, showExportModal, backupMode, showDataKeys]);
 
   const checkWalletState = async () => {
     try {
@@ -126,6 +148,8 @@ export const WalletPanel: React.FC<WalletPanelProps> = ({
           address,
           publicBalance: balanceRes.public || 0,
           privateBalance: balanceRes.private || 0,
+          privatePending: balanceRes.privatePending || 0,
+          privateSyncing: !!balanceRes.privateSyncing,
         });
         return address;
       }
@@ -158,7 +182,7 @@ export const WalletPanel: React.FC<WalletPanelProps> = ({
         const txs: Transaction[] = result.transactions.map((tx: any) => ({
           id: tx.id,
           txId: tx.txId,
-          type: tx.type === 'send' ? 'sent' : tx.type === 'execute' ? 'execute' : 'received',
+          type: tx.type === 'send' ? 'sent' : tx.type === 'execute' || tx.type === 'deploy' ? 'execute' : 'received',
           amount: tx.amount,
           address: tx.type === 'send' ? (tx.to || '') : (tx.from || ''),
           programId: tx.programId,
@@ -307,6 +331,14 @@ export const WalletPanel: React.FC<WalletPanelProps> = ({
     }
   };
 
+  const handleAccountChanged = async () => {
+    setTransactions([]);
+    const address = await loadWalletData();
+    if (address) {
+      await loadTransactions(address);
+    }
+  };
+
   const handleRefreshBalance = async () => {
     setRefreshing(true);
     try {
@@ -316,6 +348,8 @@ export const WalletPanel: React.FC<WalletPanelProps> = ({
           ...prev,
           publicBalance: result.public || 0,
           privateBalance: result.private || 0,
+          privatePending: result.privatePending || 0,
+          privateSyncing: !!result.privateSyncing,
         } : null);
       }
     } catch (err) {
@@ -447,6 +481,12 @@ export const WalletPanel: React.FC<WalletPanelProps> = ({
                 >
                   Import Existing Wallet
                 </button>
+                <button
+                  onClick={() => setBackupMode('import')}
+                  className="w-full mt-2 px-4 py-2 text-sm text-[#a1a1aa] hover:text-[#e4e4e7] transition-colors"
+                >
+                  Restore from Backup File
+                </button>
               </div>
 
               {/* Import Modal */}
@@ -603,6 +643,16 @@ export const WalletPanel: React.FC<WalletPanelProps> = ({
             </div>
           )}
         </div>
+
+        {backupMode && (
+          <BackupModal
+            mode="import"
+            onClose={() => {
+              setBackupMode(null);
+              checkWalletState();
+            }}
+          />
+        )}
       </div>
     );
   }
@@ -658,7 +708,7 @@ export const WalletPanel: React.FC<WalletPanelProps> = ({
     <div className="flex flex-col h-full bg-[#111118]">
       {/* Header with settings menu */}
       <div className="px-4 py-3 border-b border-[#27272a] flex items-center justify-between">
-        <h2 className="text-lg font-semibold text-[#e4e4e7]">Aleo Wallet</h2>
+        <AccountSwitcher onAccountChanged={handleAccountChanged} />
         <div className="relative">
           <button
             onClick={() => setShowSettingsMenu(!showSettingsMenu)}
@@ -692,6 +742,34 @@ export const WalletPanel: React.FC<WalletPanelProps> = ({
                 Export View Key
               </button>
               <div className="border-t border-[#27272a] my-1"></div>
+              <button
+                onClick={() => { setBackupMode('export'); setShowSettingsMenu(false); }}
+                className="w-full px-4 py-2.5 text-left text-sm text-[#e4e4e7] hover:bg-[#27272a] transition-colors flex items-center gap-2"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                </svg>
+                Export Backup
+              </button>
+              <button
+                onClick={() => { setBackupMode('import'); setShowSettingsMenu(false); }}
+                className="w-full px-4 py-2.5 text-left text-sm text-[#e4e4e7] hover:bg-[#27272a] transition-colors flex items-center gap-2"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                </svg>
+                Restore Backup
+              </button>
+              <button
+                onClick={() => { setShowDataKeys(true); setShowSettingsMenu(false); }}
+                className="w-full px-4 py-2.5 text-left text-sm text-[#e4e4e7] hover:bg-[#27272a] transition-colors flex items-center gap-2"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+                Data Encryption Keys
+              </button>
+              <div className="border-t border-[#27272a] my-1"></div>
               <button
                 onClick={handleLock}
                 className="w-full px-4 py-2.5 text-left text-sm text-[#e4e4e7] hover:bg-[#27272a] transition-colors flex items-center gap-2"
@@ -768,6 +846,16 @@ export const WalletPanel: React.FC<WalletPanelProps> = ({
             <span className="text-[#e4e4e7] font-mono">{walletData?.privateBalance.toFixed(6) || '0.000000'}</span>
           </div>
         </div>
+        {(walletData?.privatePending || 0) > 0 && (
+          <div className="mt-2 text-xs text-[#71717a]">
+            {walletData?.privatePending.toFixed(6)} ALEO private pending spend
+          </div>
+        )}
+        {walletData?.privateSyncing && (
+          <div className="mt-2 text-xs text-[#71717a]">
+            Scanning blocks for private records...
+          </div>
+        )}
       </div>
 
       {/* ZK Privacy Indicator - Shows what AleoBrowser does vs Chrome */}
@@ -900,6 +988,16 @@ export const WalletPanel: React.FC<WalletPanelProps> = ({
         </div>
       )}
 
+      {backupMode && (
+        <BackupModal
+          mode={backupMode}
+          onClose={() => setBackupMode(null)}
+          onRestored={handleAccountChanged}
+        />
+      )}
+
+      {showDataKeys && <DataKeysModal onClose={() => setShowDataKeys(false)} />}
+
       {/* Click outside to close settings menu */}
       {showSettingsMenu && (
         <div
@@ -15,6 +15,8 @@ export const WalletSidebar: React.FC<WalletSidebarProps> = ({
   const [view, setView] = useState<'main' | 'send' | 'receive'>('main');
   const [walletAddress, setWalletAddress] = useState('');
   const [walletBalance, setWalletBalance] = useState(0);
+  const [publicBalance, setPublicBalance] = useState(0);
+  const [privateBalance, setPrivateBalance] = useState(0);
 
   // Load wallet data when sidebar opens
   useEffect(() => {
@@ -35,6 +37,8 @@ export const WalletSidebar: React.FC<WalletSidebarProps> = ({
       }
       if (balanceRes.success) {
         setWalletBalance((balanceRes.public || 0) + (balanceRes.private || 0));
+        setPublicBalance(balanceRes.public || 0);
+        setPrivateBalance(balanceRes.private || 0);
       }
     } catch (err) {
       console.error('Failed to load wallet info:', err);
@@ -66,8 +70,15 @@ export const WalletSidebar: React.FC<WalletSidebarProps> = ({
       {/* Main Wallet Panel */}
       {view === 'main' && (
         <WalletPanel
-          onSendClick={() => setView('send')}
-          onReceiveClick={() => setView('receive')}
+          onSendClick={() => {
+            // The active account may have changed in the panel
+            loadWalletInfo();
+            setView('send');
+          }}
+          onReceiveClick={() => {
+            loadWalletInfo();
+            setView('receive');
+          }}
         />
       )}
 
@@ -77,6 +88,9 @@ export const WalletSidebar: React.FC<WalletSidebarProps> = ({
           onClose={() => setView('main')}
           onSuccess={handleSendSuccess}
           currentBalance={walletBalance}
+          publicBalance={publicBalance}
+          privateBalance={privateBalance}
+          ownAddress={walletAddress}
         />
       )}
 
@@ -4,6 +4,9 @@
 
 export { WalletPanel } from './WalletPanel';
 export { WalletSidebar } from './WalletSidebar';
+export { AccountSwitcher } from './AccountSwitcher';
+export { BackupModal } from './BackupModal';
+export { DataKeysModal } from './DataKeysModal';
 export { SendForm } from './SendForm';
 export { ReceiveModal } from './ReceiveModal';
 export { TransactionList } from './TransactionList';
@@ -3,6 +3,19 @@
  * Wraps window.electron with error handling and type safety
  */
 
+import type {
+  Bookmark,
+  BookmarkFolder,
+  BookmarkCollection,
+  BookmarkImportResult,
+  HistorySearchOptions,
+  HistorySearchResult,
+  HistorySearchResponse,
+  HistorySettings,
+  Suggestion,
+  SuggestionContext
+} from '../../shared/types';
+
 export interface IPCResponse<T = unknown> {
   success: boolean;
   error?: string;
@@ -20,6 +33,8 @@ export interface WalletBalanceResponse {
   balance?: number;
   public?: number;
   private?: number;
+  privatePending?: number;
+  privateSyncing?: boolean;
   error?: string;
 }
 
@@ -34,16 +49,18 @@ export interface WalletLockStatusResponse {
   hasWallet: boolean;
 }
 
-export interface Bookmark {
-  id: string;
-  url: string;
-  title: string;
-  favicon?: string;
-  createdAt: number;
-  folder?: string;
-  tags?: string[];
-  aleoPinned?: boolean;
-}
+export type {
+  Bookmark,
+  BookmarkFolder,
+  BookmarkCollection,
+  BookmarkImportResult,
+  HistorySearchOptions,
+  HistorySearchResult,
+  HistorySearchResponse,
+  HistorySettings,
+  Suggestion,
+  SuggestionContext
+};
 
 export interface BookmarkAddResponse {
   success: boolean;
@@ -51,17 +68,56 @@ export interface BookmarkAddResponse {
   error?: string;
 }
 
+export interface BookmarkFolderResponse {
+  success: boolean;
+  folder?: BookmarkFolder;
+  error?: string;
+}
+
+export interface BookmarkImportResponse {
+  success: boolean;
+  result?: BookmarkImportResult;
+  canceled?: boolean;
+  error?: string;
+}
+
+export interface BookmarkExportResponse {
+  success: boolean;
+  filePath?: string;
+  canceled?: boolean;
+  error?: string;
+}
+
 export interface HistoryEntry {
   id: string;
   url: string;
   title: string;
   visitedAt: number;
   favicon?: string;
+  visitCount?: number;
 }
 
 export interface SyncToAleoResponse {
   success: boolean;
   txHash?: string;
+  result?: {
+    added: number;
+    updated: number;
+    deleted: number;
+    unchanged: number;
+    pending: number;
+    failed: Array<{ bookmarkId: string; error: string }>;
+    txIds: string[];
+  };
+  error?: string;
+}
+
+export interface RestoreFromChainResponse {
+  success: boolean;
+  restored?: number;
+  skipped?: number;
+  incomplete?: number;
+  scanComplete?: boolean;
   error?: string;
 }
 
@@ -171,16 +227,16 @@ class IPCClient {
   // BOOKMARKS METHODS
   // ============================================
 
-  async getAllBookmarks(): Promise<Bookmark[]> {
+  async getAllBookmarks(): Promise<BookmarkCollection> {
     try {
       return await this.api.bookmarks.getAll();
     } catch (error) {
       console.error('Failed to get bookmarks:', error);
-      return [];
+      return { bookmarks: [], folders: [] };
     }
   }
 
-  async addBookmark(bookmark: Omit<Bookmark, 'id' | 'createdAt'>): Promise<BookmarkAddResponse> {
+  async addBookmark(bookmark: Omit<Bookmark, 'id' | 'createdAt' | 'updatedAt'>): Promise<BookmarkAddResponse> {
     try {
       return await this.api.bookmarks.add(bookmark);
     } catch (error) {
@@ -194,7 +250,7 @@ class IPCClient {
   async updateBookmark(
     id: string,
     updates: Partial<Bookmark>
-  ): Promise<{ success: boolean; error?: string }> {
+  ): Promise<BookmarkAddResponse> {
     try {
       return await this.api.bookmarks.update(id, updates);
     } catch (error) {
@@ -216,9 +272,67 @@ class IPCClient {
     }
   }
 
-  async syncBookmarksToAleo(): Promise<SyncToAleoResponse> {
+  async moveBookmark(id: string, folderId: string, index?: number): Promise<{ success: boolean; error?: string }> {
+    try {
+      return await this.api.bookmarks.move(id, folderId, index);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to move bookmark'
+      };
+    }
+  }
+
+  async createBookmarkFolder(name: string, parentId?: string): Promise<BookmarkFolderResponse> {
+    try {
+      return await this.api.bookmarks.createFolder(name, parentId);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create folder'
+      };
+    }
+  }
+
+  async updateBookmarkFolder(
+    id: string,
+    updates: { name?: string; isExpanded?: boolean }
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      return await this.api.bookmarks.updateFolder(id, updates);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update folder'
+      };
+    }
+  }
+
+  async moveBookmarkFolder(id: string, parentId?: string, index?: number): Promise<{ success: boolean; error?: string }> {
+    try {
+      return await this.api.bookmarks.moveFolder(id, parentId, index);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to move folder'
+      };
+    }
+  }
+
+  async deleteBookmarkFolder(id: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      return await this.api.bookmarks.deleteFolder(id);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete folder'
+      };
+    }
+  }
+
+  async syncBookmarksToAleo(bookmarkId?: string): Promise<SyncToAleoResponse> {
     try {
-      return await this.api.bookmarks.syncToAleo();
+      return await this.api.bookmarks.syncToAleo(bookmarkId);
     } catch (error) {
       return {
         success: false,
@@ -227,6 +341,50 @@ class IPCClient {
     }
   }
 
+  async restoreBookmarksFromChain(): Promise<RestoreFromChainResponse> {
+    try {
+      return await this.api.bookmarks.restoreFromChain();
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to restore bookmarks'
+      };
+    }
+  }
+
+  async pinBookmarkToAleo(id: string, pinned: boolean): Promise<{ success: boolean; error?: string }> {
+    try {
+      return await this.api.bookmarks.pinToAleo(id, pinned);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to pin bookmark'
+      };
+    }
+  }
+
+  async importBookmarks(): Promise<BookmarkImportResponse> {
+    try {
+      return await this.api.bookmarks.import();
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to import bookmarks'
+      };
+    }
+  }
+
+  async exportBookmarks(format: 'html' | 'json'): Promise<BookmarkExportResponse> {
+    try {
+      return await this.api.bookmarks.export(format);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to export bookmarks'
+      };
+    }
+  }
+
   // ============================================
   // HISTORY METHODS
   // ============================================
@@ -267,6 +425,50 @@ class IPCClient {
     }
   }
 
+  async searchHistory(query: string, options?: HistorySearchOptions): Promise<{ success: boolean; response?: HistorySearchResponse; error?: string }> {
+    try {
+      return await this.api.history.search(query, options);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to search history'
+      };
+    }
+  }
+
+  async getHistorySettings(): Promise<HistorySettings | null> {
+    try {
+      return await this.api.history.getSettings();
+    } catch (error) {
+      console.error('Failed to get history settings:', error);
+      return null;
+    }
+  }
+
+  async updateHistorySettings(updates: Partial<HistorySettings>): Promise<{ success: boolean; settings?: HistorySettings; error?: string }> {
+    try {
+      return await this.api.history.updateSettings(updates);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update history settings'
+      };
+    }
+  }
+
+  // ============================================
+  // SUGGESTION METHODS
+  // ============================================
+
+  async getSuggestions(input: string, context?: SuggestionContext): Promise<Suggestion[]> {
+    try {
+      return await this.api.suggestions.get(input, context);
+    } catch (error) {
+      console.error('Failed to get suggestions:', error);
+      return [];
+    }
+  }
+
   // ============================================
   // BROWSER METHODS
   // ============================================
@@ -0,0 +1,282 @@
+/**
+ * Minimal Markdown renderer for notes
+ * Produces React elements directly (never HTML strings), so note content
+ * cannot inject markup or scripts into the browser UI.
+ *
+ * Supports headings, paragraphs, bullet, numbered and task lists, block quotes,
+ * fenced code, rules, **bold**, *italic*, ~~strike~~, `code`, links,
+ * `[[wiki links]]` between notes and `attachment:` images and files.
+ */
+
+import React from 'react';
+
+export interface MarkdownOptions {
+  // [[Title]] or [[Title|label]] was clicked
+  onWikiLink?: (title: string) => void;
+  // Whether a note with this title exists (unresolved links are dimmed)
+  hasNote?: (title: string) => boolean;
+  // http(s) or mailto link was clicked
+  onLink?: (url: string) => void;
+  // ![alt](attachment:id) or [label](attachment:id)
+  renderAttachment?: (id: string, label: string, inline: boolean) => React.ReactNode;
+}
+
+const WIKI_LINK = /\[\[([^\]|\n]+)(?:\|([^\]\n]+))?\]\]/g;
+
+const INLINE = new RegExp([
+  '`([^`]+)`',                                  // 1 code
+  '!\\[([^\\]]*)\\]\\(([^)\\s]+)\\)',           // 2,3 image
+  '\\[\\[([^\\]|\\n]+)(?:\\|([^\\]\\n]+))?\\]\\]', // 4,5 wiki link
+  '\\[([^\\]]+)\\]\\(([^)\\s]+)\\)',            // 6,7 link
+  '\\*\\*(.+?)\\*\\*',                          // 8 bold
+  '__(.+?)__',                                  // 9 bold
+  '~~(.+?)~~',                                  // 10 strike
+  '\\*([^*\\s](?:[^*]*[^*\\s])?)\\*',           // 11 italic
+  '\\b_([^_\\s](?:[^_]*[^_\\s])?)_\\b',         // 12 italic
+  '(https?:\\/\\/[^\\s<]*[^\\s<.,;:!?)\\]\'"])' // 13 bare URL
+].join('|'), 'g');
+
+const SAFE_LINK = /^(https?:|mailto:)/i;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+
+/**
+ * Titles linked with [[...]] in a note, in order, without duplicates
+ */
+export function extractWikiLinks(content: string): string[] {
+  const titles = new Map<string, string>();
+  for (const match of content.matchAll(WIKI_LINK)) {
+    const title = match[1].trim();
+    if (title && !titles.has(title.toLowerCase())) {
+      titles.set(title.toLowerCase(), title);
+    }
+  }
+  return Array.from(titles.values());
+}
+
+/**
+ * Rough plain text of a note, for list previews
+ */
+export function markdownToPlainText(content: string): string {
+  return content
+    .replace(/```[\s\S]*?(```|$)/g, ' ')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(WIKI_LINK, (_match, title: string, label?: string) => label || title)
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+[.)])\s+(\[[ xX]\]\s+)?/gm, '')
+    .replace(/(\*\*|__|~~|[*_`])/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function renderMarkdown(source: string, options: MarkdownOptions = {}): React.ReactNode[] {
+  return renderBlocks(source.replace(/\r\n?/g, '\n').split('\n'), options, 'md');
+}
+
+function renderBlocks(lines: string[], options: MarkdownOptions, keyPrefix: string): React.ReactNode[] {
+  const blocks: React.ReactNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = `${keyPrefix}-${i}`;
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code
+    if (/^\s*```/.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !/^\s*```/.test(lines[i])) {
+        code.push(lines[i++]);
+      }
+      i++;
+      blocks.push(
+        <pre key={key} className="my-2 p-3 rounded-lg bg-[#0a0a0f] border border-[#27272a] overflow-x-auto text-xs">
+          <code>{code.join('\n')}</code>
+        </pre>
+      );
+      continue;
+    }
+
+    const heading = /^\s{0,3}(#{1,6})\s+(.*)$/.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      const sizes = ['text-xl', 'text-lg', 'text-base', 'text-sm', 'text-sm', 'text-sm'];
+      blocks.push(React.createElement(
+        `h${level}`,
+        { key, className: `${sizes[level - 1]} font-semibold text-[#e4e4e7] mt-3 mb-1` },
+        renderInline(heading[2].replace(/\s+#+\s*$/, ''), options, key)
+      ));
+      i++;
+      continue;
+    }
+
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      blocks.push(<hr key={key} className="my-3 border-[#27272a]" />);
+      i++;
+      continue;
+    }
+
+    if (/^\s{0,3}>/.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && /^\s{0,3}>/.test(lines[i])) {
+        quoted.push(lines[i++].replace(/^\s{0,3}>\s?/, ''));
+      }
+      blocks.push(
+        <blockquote key={key} className="my-2 pl-3 border-l-2 border-purple-500/50 text-[#a1a1aa]">
+          {renderBlocks(quoted, options, key)}
+        </blockquote>
+      );
+      continue;
+    }
+
+    const firstItem = LIST_ITEM.exec(line);
+    if (firstItem) {
+      const ordered = /\d/.test(firstItem[1]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const item = LIST_ITEM.exec(lines[i]);
+        if (item && /\d/.test(item[1]) === ordered) {
+          items.push(item[2]);
+        } else if (items.length && lines[i].trim() && /^\s+/.test(lines[i])) {
+          // Indented continuation of the previous item
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+
+      const children = items.map((item, index) => {
+        const task = /^\[([ xX])\]\s+(.*)$/.exec(item);
+        return (
+          <li key={`${key}-${index}`} className={task ? 'list-none -ml-5' : undefined}>
+            {task && (
+              <input type="checkbox" checked={task[1] !== ' '} readOnly className="mr-2 accent-purple-500 align-middle" />
+            )}
+            {renderInline(task ? task[2] : item, options, `${key}-${index}`)}
+          </li>
+        );
+      });
+      blocks.push(ordered
+        ? <ol key={key} className="my-2 pl-5 list-decimal space-y-0.5">{children}</ol>
+        : <ul key={key} className="my-2 pl-5 list-disc space-y-0.5">{children}</ul>);
+      continue;
+    }
+
+    // Paragraph: lines up to the next blank line or block
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !/^\s*```|^\s{0,3}(#{1,6}\s|>)/.test(lines[i]) &&
+      !(paragraph.length && LIST_ITEM.test(lines[i]))
+    ) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push(
+      <p key={key} className="my-2">
+        {paragraph.map((text, index) => (
+          <React.Fragment key={index}>
+            {index > 0 && <br />}
+            {renderInline(text, options, `${key}-${index}`)}
+          </React.Fragment>
+        ))}
+      </p>
+    );
+  }
+
+  return blocks;
+}
+
+function renderInline(text: string, options: MarkdownOptions, keyPrefix: string): React.ReactNode[] {
+  const nodes: React.ReactNode[] = [];
+  let last = 0;
+  let n = 0;
+
+  for (const match of text.matchAll(INLINE)) {
+    const index = match.index ?? 0;
+    if (index > last) {
+      nodes.push(text.slice(last, index));
+    }
+    last = index + match[0].length;
+    const key = `${keyPrefix}-${n++}`;
+
+    if (match[1] !== undefined) {
+      nodes.push(<code key={key} className="px-1 rounded bg-[#27272a] text-purple-300 text-[0.85em]">{match[1]}</code>);
+    } else if (match[3] !== undefined) {
+      nodes.push(renderTarget(match[3], match[2], true, options, key));
+    } else if (match[4] !== undefined) {
+      const title = match[4].trim();
+      const exists = options.hasNote ? options.hasNote(title) : true;
+      nodes.push(
+        <a
+          key={key}
+          href="#"
+          onClick={(e) => {
+            e.preventDefault();
+            options.onWikiLink?.(title);
+          }}
+          className={exists ? 'text-purple-400 hover:underline' : 'text-purple-400/50 border-b border-dashed border-purple-400/50'}
+          title={exists ? title : `Create "${title}"`}
+        >
+          {(match[5] || match[4]).trim()}
+        </a>
+      );
+    } else if (match[7] !== undefined) {
+      nodes.push(renderTarget(match[7], match[6], false, options, key));
+    } else if (match[8] !== undefined || match[9] !== undefined) {
+      nodes.push(<strong key={key}>{renderInline(match[8] ?? match[9], options, key)}</strong>);
+    } else if (match[10] !== undefined) {
+      nodes.push(<del key={key}>{renderInline(match[10], options, key)}</del>);
+    } else if (match[11] !== undefined || match[12] !== undefined) {
+      nodes.push(<em key={key}>{renderInline(match[11] ?? match[12], options, key)}</em>);
+    } else if (match[13] !== undefined) {
+      nodes.push(renderTarget(match[13], match[13], false, options, key));
+    }
+  }
+
+  if (last < text.length) {
+    nodes.push(text.slice(last));
+  }
+  return nodes;
+}
+
+/**
+ * Link or image target. Remote images are shown as links so opening a note
+ * never contacts a server.
+ */
+function renderTarget(target: string, label: string, isImage: boolean, options: MarkdownOptions, key: string): React.ReactNode {
+  if (target.startsWith('attachment:')) {
+    return (
+      <React.Fragment key={key}>
+        {options.renderAttachment
+          ? options.renderAttachment(target.slice('attachment:'.length), label, isImage)
+          : label}
+      </React.Fragment>
+    );
+  }
+
+  if (!SAFE_LINK.test(target)) {
+    return <React.Fragment key={key}>{label}</React.Fragment>;
+  }
+
+  return (
+    <a
+      key={key}
+      href={target}
+      onClick={(e) => {
+        // Never navigate the browser UI itself; open in a tab instead
+        e.preventDefault();
+        options.onLink?.(target);
+      }}
+      className="text-[#00d4aa] hover:underline break-all"
+      title={target}
+    >
+      {label || target}
+    </a>
+  );
+}
@@ -105,7 +105,11 @@ describe('BookmarkStore', () => {
     // Reset store state
     useBookmarkStore.setState({
       bookmarks: [],
-      folders: ['Bookmarks Bar', 'Other Bookmarks', 'Aleo Apps'],
+      folders: [
+        { id: 'bookmarks-bar', name: 'Bookmarks Bar', createdAt: 0, updatedAt: 0, order: 0 },
+        { id: 'other-bookmarks', name: 'Other Bookmarks', createdAt: 0, updatedAt: 0, order: 1 },
+        { id: 'aleo-apps', name: 'Aleo Apps', createdAt: 0, updatedAt: 0, order: 2 }
+      ],
       isLoading: false,
       error: null,
       lastSyncTime: null,
@@ -123,15 +127,17 @@ describe('BookmarkStore', () => {
           id: '1',
           url: 'https://example.com',
           title: 'Example',
-          folder: 'Bookmarks Bar',
-          createdAt: Date.now()
+          folderId: 'bookmarks-bar',
+          createdAt: Date.now(),
+          updatedAt: Date.now()
         },
         {
           id: '2',
           url: 'https://test.com',
           title: 'Test Site',
-          folder: 'Other Bookmarks',
-          createdAt: Date.now()
+          folderId: 'other-bookmarks',
+          createdAt: Date.now(),
+          updatedAt: Date.now()
         }
       ]
     });
@@ -148,25 +154,41 @@ describe('BookmarkStore', () => {
           id: '1',
           url: 'https://example.com',
           title: 'Example',
-          folder: 'Bookmarks Bar',
-          createdAt: Date.now()
+          folderId: 'bookmarks-bar',
+          createdAt: Date.now(),
+          updatedAt: Date.now()
         },
         {
           id: '2',
           url: 'https://test.com',
           title: 'Test',
-          folder: 'Other Bookmarks',
-          createdAt: Date.now()
+          folderId: 'other-bookmarks',
+          createdAt: Date.now(),
+          updatedAt: Date.now()
         }
       ]
     });
 
     const state = useBookmarkStore.getState();
-    const barBookmarks = state.getBookmarksByFolder('Bookmarks Bar');
+    const barBookmarks = state.getBookmarksByFolder('bookmarks-bar');
 
     expect(barBookmarks.length).toBe(1);
     expect(barBookmarks[0].title).toBe('Example');
   });
+
+  it('should list child folders in order', () => {
+    useBookmarkStore.setState({
+      folders: [
+        { id: 'b', name: 'Second', parentId: 'bookmarks-bar', createdAt: 0, updatedAt: 0, order: 1 },
+        { id: 'a', name: 'First', parentId: 'bookmarks-bar', createdAt: 0, updatedAt: 0, order: 0 },
+        { id: 'bookmarks-bar', name: 'Bookmarks Bar', createdAt: 0, updatedAt: 0, order: 0 }
+      ]
+    });
+
+    const state = useBookmarkStore.getState();
+    expect(state.getChildFolders('bookmarks-bar').map(f => f.name)).toEqual(['First', 'Second']);
+    expect(state.getChildFolders().map(f => f.id)).toEqual(['bookmarks-bar']);
+  });
 });
 
 describe('SettingsStore', () => {
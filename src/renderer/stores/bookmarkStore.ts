@@ -1,12 +1,7 @@
 import { create } from 'zustand';
-import { ipc, type Bookmark as IPCBookmark } from '../lib/ipc';
+import { ipc, type Bookmark, type BookmarkFolder, type BookmarkImportResult } from '../lib/ipc';
 
-/**
- * Bookmark Interface (extends IPC Bookmark)
- */
-export interface Bookmark extends IPCBookmark {
-  folder: string;
-}
+export type { Bookmark, BookmarkFolder, BookmarkImportResult };
 
 /**
  * Bookmark Store Interface
@@ -14,7 +9,7 @@ export interface Bookmark extends IPCBookmark {
 export interface BookmarkStore {
   // State
   bookmarks: Bookmark[];
-  folders: string[];
+  folders: BookmarkFolder[];
   isLoading: boolean;
   error: string | null;
   lastSyncTime: number | null;
@@ -22,26 +17,34 @@ export interface BookmarkStore {
 
   // Actions
   loadBookmarks: () => Promise<void>;
-  addBookmark: (bookmark: Omit<Bookmark, 'id' | 'createdAt'>) => Promise<void>;
+  addBookmark: (bookmark: Omit<Bookmark, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
   updateBookmark: (id: string, updates: Partial<Bookmark>) => Promise<void>;
   deleteBookmark: (id: string) => Promise<void>;
+  moveBookmark: (id: string, folderId: string, index?: number) => Promise<void>;
+  toggleFavorite: (id: string) => Promise<void>;
   syncToAleo: () => Promise<void>;
+  restoreFromChain: () => Promise<number>;
+  pinToAleo: (id: string, pinned: boolean) => Promise<void>;
+  importBookmarks: () => Promise<BookmarkImportResult | null>;
+  exportBookmarks: (format: 'html' | 'json') => Promise<void>;
 
   // Folder management
-  addFolder: (name: string) => void;
-  deleteFolder: (name: string) => Promise<void>;
-  renameFolder: (oldName: string, newName: string) => Promise<void>;
+  addFolder: (name: string, parentId?: string) => Promise<BookmarkFolder | null>;
+  deleteFolder: (id: string) => Promise<void>;
+  renameFolder: (id: string, name: string) => Promise<void>;
+  moveFolder: (id: string, parentId?: string, index?: number) => Promise<void>;
+  toggleFolderExpanded: (id: string) => Promise<void>;
 
   // Utility
-  getBookmarksByFolder: (folder: string) => Bookmark[];
+  getBookmarksByFolder: (folderId: string) => Bookmark[];
+  getChildFolders: (parentId?: string) => BookmarkFolder[];
+  getFavorites: () => Bookmark[];
   searchBookmarks: (query: string) => Bookmark[];
   clearError: () => void;
 }
 
-/**
- * Default folder names
- */
-const DEFAULT_FOLDERS = ['Bookmarks Bar', 'Other Bookmarks', 'Aleo Apps'];
+const byOrder = (a: { order?: number }, b: { order?: number }) =>
+  (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER);
 
 /**
  * Bookmark Store
@@ -50,7 +53,7 @@ const DEFAULT_FOLDERS = ['Bookmarks Bar', 'Other Bookmarks', 'Aleo Apps'];
 export const useBookmarkStore = create<BookmarkStore>((set, get) => ({
   // Initial state
   bookmarks: [],
-  folders: DEFAULT_FOLDERS,
+  folders: [],
   isLoading: false,
   error: null,
   lastSyncTime: null,
@@ -63,23 +66,11 @@ export const useBookmarkStore = create<BookmarkStore>((set, get) => ({
     set({ isLoading: true, error: null });
 
     try {
-      const bookmarks = await ipc.getAllBookmarks();
-
-      // Ensure all bookmarks have a folder
-      const normalizedBookmarks: Bookmark[] = bookmarks.map(b => ({
-        ...b,
-        folder: b.folder || 'Other Bookmarks'
-      }));
-
-      // Extract unique folders
-      const folders = new Set(DEFAULT_FOLDERS);
-      normalizedBookmarks.forEach(b => {
-        if (b.folder) folders.add(b.folder);
-      });
+      const { bookmarks, folders } = await ipc.getAllBookmarks();
 
       set({
-        bookmarks: normalizedBookmarks,
-        folders: Array.from(folders),
+        bookmarks,
+        folders,
         isLoading: false,
         error: null
       });
@@ -93,9 +84,9 @@ export const useBookmarkStore = create<BookmarkStore>((set, get) => ({
 
   /**
    * Add a new bookmark
-   * @param bookmark - Bookmark data (without id and createdAt)
+   * @param bookmark - Bookmark data (without id and timestamps)
    */
-  addBookmark: async (bookmark: Omit<Bookmark, 'id' | 'createdAt'>) => {
+  addBookmark: async (bookmark: Omit<Bookmark, 'id' | 'createdAt' | 'updatedAt'>) => {
     set({ error: null });
 
     try {
@@ -113,21 +104,13 @@ export const useBookmarkStore = create<BookmarkStore>((set, get) => ({
       }
 
       if (result.bookmark) {
-        const newBookmark: Bookmark = {
-          ...result.bookmark,
-          folder: result.bookmark.folder || 'Other Bookmarks'
-        };
+        const newBookmark = result.bookmark;
 
         set((state) => ({
           bookmarks: [...state.bookmarks, newBookmark],
           error: null
         }));
 
-        // Add folder if it doesn't exist
-        if (newBookmark.folder && !get().folders.includes(newBookmark.folder)) {
-          get().addFolder(newBookmark.folder);
-        }
-
         // Auto-sync to Aleo blockchain - triggers transaction approval UI
         console.log('[Bookmark] Bookmark added. Syncing to Aleo blockchain...');
         // Don't await - let user see the transaction approval while bookmark is saved locally
@@ -161,15 +144,10 @@ export const useBookmarkStore = create<BookmarkStore>((set, get) => ({
 
       set((state) => ({
         bookmarks: state.bookmarks.map(b =>
-          b.id === id ? { ...b, ...updates } : b
+          b.id === id ? result.bookmark || { ...b, ...updates } : b
         ),
         error: null
       }));
-
-      // Add folder if it doesn't exist
-      if (updates.folder && !get().folders.includes(updates.folder)) {
-        get().addFolder(updates.folder);
-      }
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : 'Failed to update bookmark'
@@ -204,73 +182,47 @@ export const useBookmarkStore = create<BookmarkStore>((set, get) => ({
   },
 
   /**
-   * Sync bookmarks to Aleo blockchain
-   * Shows transaction approval UI for user to sign
+   * Move a bookmark into a folder
+   * @param id - Bookmark ID
+   * @param folderId - Target folder ID
+   * @param index - Position within the folder (end when omitted)
    */
-  syncToAleo: async () => {
-    set({ isSyncing: true, error: null });
+  moveBookmark: async (id: string, folderId: string, index?: number) => {
+    const result = await ipc.moveBookmark(id, folderId, index);
 
-    try {
-      const bookmarks = get().bookmarks;
-
-      if (bookmarks.length === 0) {
-        console.log('[Bookmark Sync] No bookmarks to sync');
-        set({ isSyncing: false });
-        return;
-      }
-
-      // Create a hash of bookmarks data for on-chain storage
-      const bookmarkData = JSON.stringify(bookmarks.map(b => ({
-        url: b.url,
-        title: b.title,
-        timestamp: b.createdAt
-      })));
-
-      // Simple hash function to create a field-compatible value
-      let hash = 0;
-      for (let i = 0; i < bookmarkData.length; i++) {
-        const char = bookmarkData.charCodeAt(i);
-        hash = ((hash << 5) - hash) + char;
-        hash = hash & hash;
-      }
-      const bookmarkHash = Math.abs(hash) % 1000000000;
-
-      console.log(`[Bookmark Sync] Syncing ${bookmarks.length} bookmarks to Aleo blockchain`);
-      console.log(`[Bookmark Sync] Bookmark hash: ${bookmarkHash}`);
-
-      // Generate proper inputs for add_bookmark function:
-      // add_bookmark takes: bookmark_id, encrypted_url, encrypted_title, created_at
-      const timestamp = Math.floor(Date.now() / 1000);
+    if (!result.success) {
+      set({ error: result.error || 'Failed to move bookmark' });
+      return;
+    }
 
-      // Check if dapp API is available
-      console.log('[Bookmark Sync] Checking dapp API:', !!window.electron?.dapp?.requestTransaction);
+    // Sibling positions change too, so reload the ordered list
+    await get().loadBookmarks();
+  },
 
-      if (!window.electron?.dapp?.requestTransaction) {
-        console.error('[Bookmark Sync] dapp.requestTransaction not available!');
-        set({ error: 'Transaction API not available', isSyncing: false });
-        return;
-      }
+  /**
+   * Add a bookmark to favorites or remove it
+   * @param id - Bookmark ID
+   */
+  toggleFavorite: async (id: string) => {
+    const bookmark = get().bookmarks.find(b => b.id === id);
+    if (bookmark) {
+      await get().updateBookmark(id, { isFavorite: !bookmark.isFavorite });
+    }
+  },
 
-      console.log('[Bookmark Sync] Calling requestTransaction...');
-
-      // Request transaction with approval UI
-      const result = await window.electron.dapp.requestTransaction({
-        programId: 'bookmark_v1.aleo',
-        functionName: 'add_bookmark',
-        inputs: [
-          `${bookmarkHash}field`,           // bookmark_id
-          `${bookmarkHash % 100000000}field`, // encrypted_url (hash)
-          `${(bookmarkHash >> 8) % 100000000}field`, // encrypted_title (hash)
-          `${timestamp}u32`                 // created_at
-        ],
-        fee: 0.1,
-        origin: 'AleoBrowser Bookmarks'
-      });
+  /**
+   * Sync Aleo-pinned bookmarks to the blockchain
+   * Each pinned bookmark is encrypted into its own bookmark_v1.aleo records;
+   * unchanged bookmarks cost nothing to re-sync
+   */
+  syncToAleo: async () => {
+    set({ isSyncing: true, error: null });
 
-      console.log('[Bookmark Sync] requestTransaction result:', result);
+    try {
+      const result = await ipc.syncBookmarksToAleo();
 
       if (!result.success) {
-        console.error('[Bookmark Sync] Transaction failed:', result.error);
+        console.error('[Bookmark Sync] Sync failed:', result.error);
         set({
           error: result.error || 'Failed to sync bookmarks',
           isSyncing: false
@@ -284,7 +236,7 @@ export const useBookmarkStore = create<BookmarkStore>((set, get) => ({
         error: null
       });
 
-      console.log('[Bookmark Sync] Transaction submitted:', result.transactionId);
+      console.log('[Bookmark Sync] Sync complete:', result.result);
     } catch (error) {
       console.error('[Bookmark Sync] Error:', error);
       set({
@@ -295,83 +247,201 @@ export const useBookmarkStore = create<BookmarkStore>((set, get) => ({
   },
 
   /**
-   * Add a new folder
-   * @param name - Folder name
+   * Restore bookmarks from the wallet's on-chain Bookmark records
+   * @returns Number of bookmarks added
    */
-  addFolder: (name: string) => {
-    set((state) => {
-      if (state.folders.includes(name)) {
-        return state;
+  restoreFromChain: async () => {
+    set({ isSyncing: true, error: null });
+
+    try {
+      const result = await ipc.restoreBookmarksFromChain();
+
+      if (!result.success) {
+        set({
+          error: result.error || 'Failed to restore bookmarks',
+          isSyncing: false
+        });
+        return 0;
       }
 
-      return {
-        folders: [...state.folders, name]
-      };
-    });
+      await get().loadBookmarks();
+      set({ isSyncing: false });
+      return result.restored || 0;
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to restore bookmarks',
+        isSyncing: false
+      });
+      return 0;
+    }
   },
 
   /**
-   * Delete a folder (moves bookmarks to "Other Bookmarks")
-   * @param name - Folder name
+   * Mark a bookmark for on-chain sync (or stop syncing it)
+   * @param id - Bookmark ID
+   * @param pinned - Whether the bookmark should be kept on-chain
    */
-  deleteFolder: async (name: string) => {
-    // Don't delete default folders
-    if (DEFAULT_FOLDERS.includes(name)) {
-      set({ error: 'Cannot delete default folders' });
-      return;
+  pinToAleo: async (id: string, pinned: boolean) => {
+    try {
+      const result = await ipc.pinBookmarkToAleo(id, pinned);
+
+      if (!result.success) {
+        set({ error: result.error || 'Failed to pin bookmark' });
+        return;
+      }
+
+      set((state) => ({
+        bookmarks: state.bookmarks.map(b => (b.id === id ? { ...b, aleoPinned: pinned } : b)),
+        error: null
+      }));
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to pin bookmark'
+      });
+    }
+  },
+
+  /**
+   * Import a bookmark file chosen by the user (Netscape HTML or JSON export)
+   * @returns Import report, or null when cancelled or failed
+   */
+  importBookmarks: async () => {
+    set({ error: null });
+
+    const response = await ipc.importBookmarks();
+
+    if (!response.success || !response.result) {
+      if (!response.canceled) {
+        set({ error: response.error || 'Failed to import bookmarks' });
+      }
+      return null;
     }
 
-    // Move all bookmarks in this folder to "Other Bookmarks"
-    const state = get();
-    const bookmarksInFolder = state.bookmarks.filter(b => b.folder === name);
+    await get().loadBookmarks();
+    return response.result;
+  },
+
+  /**
+   * Export all bookmarks to a file chosen by the user
+   * @param format - 'html' for other browsers, 'json' for a lossless copy
+   */
+  exportBookmarks: async (format: 'html' | 'json') => {
+    const response = await ipc.exportBookmarks(format);
 
-    for (const bookmark of bookmarksInFolder) {
-      await get().updateBookmark(bookmark.id, { folder: 'Other Bookmarks' });
+    if (!response.success && !response.canceled) {
+      set({ error: response.error || 'Failed to export bookmarks' });
     }
+  },
 
+  /**
+   * Create a folder
+   * @param name - Folder name
+   * @param parentId - Parent folder ID (root when omitted)
+   */
+  addFolder: async (name: string, parentId?: string) => {
+    const result = await ipc.createBookmarkFolder(name, parentId);
+
+    if (!result.success || !result.folder) {
+      set({ error: result.error || 'Failed to create folder' });
+      return null;
+    }
+
+    const folder = result.folder;
     set((state) => ({
-      folders: state.folders.filter(f => f !== name),
+      folders: [...state.folders, folder],
       error: null
     }));
+    return folder;
   },
 
   /**
-   * Rename a folder
-   * @param oldName - Current folder name
-   * @param newName - New folder name
+   * Delete a folder (its bookmarks and subfolders move up to the parent,
+   * or to "Other Bookmarks" for a top-level folder)
+   * @param id - Folder ID
    */
-  renameFolder: async (oldName: string, newName: string) => {
-    // Don't rename default folders
-    if (DEFAULT_FOLDERS.includes(oldName)) {
-      set({ error: 'Cannot rename default folders' });
+  deleteFolder: async (id: string) => {
+    const result = await ipc.deleteBookmarkFolder(id);
+
+    if (!result.success) {
+      set({ error: result.error || 'Failed to delete folder' });
       return;
     }
 
-    if (get().folders.includes(newName)) {
-      set({ error: 'Folder already exists' });
+    await get().loadBookmarks();
+  },
+
+  /**
+   * Rename a folder
+   * @param id - Folder ID
+   * @param name - New folder name
+   */
+  renameFolder: async (id: string, name: string) => {
+    const result = await ipc.updateBookmarkFolder(id, { name });
+
+    if (!result.success) {
+      set({ error: result.error || 'Failed to rename folder' });
       return;
     }
 
-    // Update all bookmarks in this folder
-    const state = get();
-    const bookmarksInFolder = state.bookmarks.filter(b => b.folder === oldName);
+    set((state) => ({
+      folders: state.folders.map(f => (f.id === id ? { ...f, name: name.trim() } : f)),
+      error: null
+    }));
+  },
 
-    for (const bookmark of bookmarksInFolder) {
-      await get().updateBookmark(bookmark.id, { folder: newName });
+  /**
+   * Move a folder under another folder
+   * @param id - Folder ID
+   * @param parentId - New parent folder ID (root when omitted)
+   * @param index - Position among the new siblings (end when omitted)
+   */
+  moveFolder: async (id: string, parentId?: string, index?: number) => {
+    const result = await ipc.moveBookmarkFolder(id, parentId, index);
+
+    if (!result.success) {
+      set({ error: result.error || 'Failed to move folder' });
+      return;
     }
 
+    await get().loadBookmarks();
+  },
+
+  /**
+   * Expand or collapse a folder in the tree
+   * @param id - Folder ID
+   */
+  toggleFolderExpanded: async (id: string) => {
+    const folder = get().folders.find(f => f.id === id);
+    if (!folder) return;
+
+    const isExpanded = !folder.isExpanded;
     set((state) => ({
-      folders: state.folders.map(f => f === oldName ? newName : f),
-      error: null
+      folders: state.folders.map(f => (f.id === id ? { ...f, isExpanded } : f))
     }));
+    await ipc.updateBookmarkFolder(id, { isExpanded });
+  },
+
+  /**
+   * Get bookmarks directly inside a folder, in order
+   * @param folderId - Folder ID
+   */
+  getBookmarksByFolder: (folderId: string) => {
+    return get().bookmarks.filter(b => b.folderId === folderId).sort(byOrder);
+  },
+
+  /**
+   * Get the subfolders of a folder, in order
+   * @param parentId - Parent folder ID (root folders when omitted)
+   */
+  getChildFolders: (parentId?: string) => {
+    return get().folders.filter(f => f.parentId === parentId).sort(byOrder);
   },
 
   /**
-   * Get bookmarks by folder
-   * @param folder - Folder name
+   * Get favorite bookmarks
    */
-  getBookmarksByFolder: (folder: string) => {
-    return get().bookmarks.filter(b => b.folder === folder);
+  getFavorites: () => {
+    return get().bookmarks.filter(b => b.isFavorite).sort(byOrder);
   },
 
   /**
@@ -418,11 +488,11 @@ export function useBookmarkByUrl(url: string): Bookmark | undefined {
 
 /**
  * Hook: Get bookmarks count by folder
- * Usage: const count = useBookmarkCountByFolder('Bookmarks Bar');
+ * Usage: const count = useBookmarkCountByFolder(folderId);
  */
-export function useBookmarkCountByFolder(folder: string): number {
+export function useBookmarkCountByFolder(folderId: string): number {
   return useBookmarkStore((state) =>
-    state.bookmarks.filter(b => b.folder === folder).length
+    state.bookmarks.filter(b => b.folderId === folderId).length
   );
 }
 
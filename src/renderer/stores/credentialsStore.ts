@@ -0,0 +1,175 @@
+import { create } from 'zustand';
+import type { Credential, CredentialSummary, PasswordGeneratorOptions } from '../../shared/types';
+
+export interface PasswordStrength {
+  isStrong: boolean;
+  requirements: {
+    minLength: boolean;
+    hasUpperCase: boolean;
+    hasLowerCase: boolean;
+    hasNumber: boolean;
+    hasSpecialChar: boolean;
+  };
+  score: number;
+}
+
+export interface CredentialInput {
+  origin: string;
+  username: string;
+  password: string;
+  notes?: string;
+}
+
+interface CredentialsState {
+  credentials: CredentialSummary[];
+  isLoading: boolean;
+  error: string | null;
+  searchQuery: string;
+}
+
+interface CredentialsActions {
+  loadCredentials: () => Promise<void>;
+  getCredential: (id: string) => Promise<Credential | null>;
+  addCredential: (input: CredentialInput) => Promise<{ success: boolean; error?: string }>;
+  updateCredential: (id: string, updates: Partial<CredentialInput>) => Promise<{ success: boolean; error?: string }>;
+  deleteCredential: (id: string) => Promise<boolean>;
+  syncToAleo: (id: string) => Promise<{ success: boolean; txHash?: string; error?: string }>;
+  restoreFromChain: () => Promise<{ success: boolean; restored?: number; error?: string }>;
+  generatePassword: (options?: PasswordGeneratorOptions) => Promise<{ password: string; strength: PasswordStrength } | null>;
+  setSearchQuery: (query: string) => void;
+  getFilteredCredentials: () => CredentialSummary[];
+}
+
+type CredentialsStore = CredentialsState & CredentialsActions;
+
+export const useCredentialsStore = create<CredentialsStore>((set, get) => ({
+  // State
+  credentials: [],
+  isLoading: false,
+  error: null,
+  searchQuery: '',
+
+  // Actions
+  loadCredentials: async () => {
+    set({ isLoading: true });
+    try {
+      const result = await window.electron.credentials.list();
+      if (result.success) {
+        set({ credentials: result.credentials || [], error: null, isLoading: false });
+      } else {
+        set({ credentials: [], error: result.error || 'Failed to load passwords', isLoading: false });
+      }
+    } catch (error) {
+      console.error('Failed to load credentials:', error);
+      set({ error: 'Failed to load passwords', isLoading: false });
+    }
+  },
+
+  getCredential: async (id) => {
+    try {
+      const result = await window.electron.credentials.get(id);
+      return result.success ? result.credential : null;
+    } catch (error) {
+      console.error('Failed to load credential:', error);
+      return null;
+    }
+  },
+
+  addCredential: async (input) => {
+    try {
+      const result = await window.electron.credentials.add(input);
+      if (result.success) {
+        await get().loadCredentials();
+      }
+      return result;
+    } catch (error) {
+      console.error('Failed to add credential:', error);
+      return { success: false, error: 'Failed to save password' };
+    }
+  },
+
+  updateCredential: async (id, updates) => {
+    try {
+      const result = await window.electron.credentials.update(id, updates);
+      if (result.success) {
+        await get().loadCredentials();
+      }
+      return result;
+    } catch (error) {
+      console.error('Failed to update credential:', error);
+      return { success: false, error: 'Failed to update password' };
+    }
+  },
+
+  deleteCredential: async (id) => {
+    try {
+      const result = await window.electron.credentials.delete(id);
+      if (result.success) {
+        set((state) => ({
+          credentials: state.credentials.filter((c) => c.id !== id),
+        }));
+        return true;
+      }
+      return false;
+    } catch (error) {
+      console.error('Failed to delete credential:', error);
+      return false;
+    }
+  },
+
+  syncToAleo: async (id) => {
+    try {
+      const result = await window.electron.credentials.syncToAleo(id);
+      if (result.success) {
+        set((state) => ({
+          credentials: state.credentials.map((c) =>
+            c.id === id ? { ...c, syncedToAleo: true } : c
+          ),
+        }));
+      }
+      return result;
+    } catch (error) {
+      console.error('Failed to sync credential to Aleo:', error);
+      return { success: false, error: 'Sync failed' };
+    }
+  },
+
+  restoreFromChain: async () => {
+    try {
+      const result = await window.electron.credentials.restoreFromChain();
+      if (result.success) {
+        await get().loadCredentials();
+      }
+      return result;
+    } catch (error) {
+      console.error('Failed to restore credentials from Aleo:', error);
+      return { success: false, error: 'Restore failed' };
+    }
+  },
+
+  generatePassword: async (options) => {
+    try {
+      const result = await window.electron.credentials.generatePassword(options);
+      return result.success ? { password: result.password, strength: result.strength } : null;
+    } catch (error) {
+      console.error('Failed to generate password:', error);
+      return null;
+    }
+  },
+
+  setSearchQuery: (query) => {
+    set({ searchQuery: query });
+  },
+
+  getFilteredCredentials: () => {
+    const { credentials, searchQuery } = get();
+    if (!searchQuery.trim()) return credentials;
+
+    const query = searchQuery.toLowerCase();
+    return credentials.filter(
+      (c) =>
+        c.origin.toLowerCase().includes(query) ||
+        c.username.toLowerCase().includes(query)
+    );
+  },
+}));
@@ -1,5 +1,13 @@
 import { create } from 'zustand';
-import { ipc, type HistoryEntry as IPCHistoryEntry } from '../lib/ipc';
+import {
+  ipc,
+  type HistoryEntry as IPCHistoryEntry,
+  type HistorySearchOptions,
+  type HistorySearchResult,
+  type HistorySettings
+} from '../lib/ipc';
+
+export type { HistorySearchOptions, HistorySearchResult, HistorySettings };
 
 /**
  * History Entry Interface (extends IPC HistoryEntry)
@@ -18,11 +26,21 @@ export interface HistoryStore {
   isLoading: boolean;
   error: string | null;
 
+  // Full-text search (runs against the index in the main process)
+  searchResults: HistorySearchResult[];
+  searchFacets: Array<{ domain: string; count: number }>;
+  searchTotal: number;
+  isSearching: boolean;
+  settings: HistorySettings | null;
+
   // Actions
   loadHistory: (limit?: number) => Promise<void>;
   addEntry: (url: string, title: string, favicon?: string) => Promise<void>;
   deleteEntry: (id: string) => Promise<void>;
   clearHistory: () => Promise<void>;
+  search: (query: string, options?: HistorySearchOptions) => Promise<void>;
+  loadSettings: () => Promise<void>;
+  updateSettings: (updates: Partial<HistorySettings>) => Promise<boolean>;
 
   // Utility
   searchHistory: (query: string) => HistoryEntry[];
@@ -38,11 +56,14 @@ export interface HistoryStore {
 function toHistoryEntry(entry: IPCHistoryEntry): HistoryEntry {
   return {
     ...entry,
-    visitCount: 1, // Will be updated when we track visit counts
+    visitCount: entry.visitCount ?? 1,
     lastVisited: entry.visitedAt
   };
 }
 
+// Only the latest search may update results
+let searchSequence = 0;
+
 /**
  * History Store
  * Manages browser history
@@ -52,6 +73,11 @@ export const useHistoryStore = create<HistoryStore>((set, get) => ({
   history: [],
   isLoading: false,
   error: null,
+  searchResults: [],
+  searchFacets: [],
+  searchTotal: 0,
+  isSearching: false,
+  settings: null,
 
   /**
    * Load history from storage
@@ -70,8 +96,10 @@ export const useHistoryStore = create<HistoryStore>((set, get) => ({
         const existing = historyMap.get(entry.url);
 
         if (existing) {
-          // Increment visit count and update last visited
-          existing.visitCount++;
+          // Count loaded visits only when the total is not known
+          if (entry.visitCount === undefined) {
+            existing.visitCount++;
+          }
           if (entry.visitedAt > existing.lastVisited) {
             existing.lastVisited = entry.visitedAt;
             existing.title = entry.title; // Use most recent title
@@ -181,6 +209,7 @@ export const useHistoryStore = create<HistoryStore>((set, get) => ({
 
       set((state) => ({
         history: state.history.filter(h => h.id !== id),
+        searchResults: state.searchResults.filter(r => r.id !== id),
         error: null
       }));
     } catch (error) {
@@ -209,6 +238,9 @@ export const useHistoryStore = create<HistoryStore>((set, get) => ({
 
       set({
         history: [],
+        searchResults: [],
+        searchFacets: [],
+        searchTotal: 0,
         isLoading: false,
         error: null
       });
@@ -221,7 +253,60 @@ export const useHistoryStore = create<HistoryStore>((set, get) => ({
   },
 
   /**
-   * Search history
+   * Ranked full-text search over all history
+   * @param query - Search words; empty lists pages by last visit
+   * @param options - Date range, site filter and result limit
+   */
+  search: async (query: string, options?: HistorySearchOptions) => {
+    const sequence = ++searchSequence;
+    set({ isSearching: true, error: null });
+
+    const result = await ipc.searchHistory(query, options);
+    if (sequence !== searchSequence) return;
+
+    if (!result.success || !result.response) {
+      set({ isSearching: false, error: result.error || 'Failed to search history' });
+      return;
+    }
+
+    set({
+      searchResults: result.response.results,
+      searchFacets: result.response.facets,
+      searchTotal: result.response.total,
+      isSearching: false
+    });
+  },
+
+  /**
+   * Load retention and page text indexing settings
+   */
+  loadSettings: async () => {
+    const settings = await ipc.getHistorySettings();
+    if (settings) {
+      set({ settings });
+    }
+  },
+
+  /**
+   * Update retention or page text indexing
+   * @returns Whether the settings were saved
+   */
+  updateSettings: async (updates: Partial<HistorySettings>) => {
+    const result = await ipc.updateHistorySettings(updates);
+
+    if (!result.success || !result.settings) {
+      set({ error: result.error || 'Failed to update history settings' });
+      return false;
+    }
+
+    set({ settings: result.settings, error: null });
+    // Shorter retention may have removed visits
+    await get().loadHistory(1000);
+    return true;
+  },
+
+  /**
+   * Filter the loaded (most recent) entries; use search for all history
    * @param query - Search query
    */
   searchHistory: (query: string) => {
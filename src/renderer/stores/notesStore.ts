@@ -1,4 +1,8 @@
 import { create } from 'zustand';
+import type { NoteAttachment, PageClip, NoteShare, ReceivedNote } from '../../shared/types';
+import { extractWikiLinks } from '../lib/markdown';
+
+export type { NoteAttachment, PageClip, NoteShare, ReceivedNote };
 
 export interface EncryptedData {
   encrypted: string;
@@ -24,6 +28,8 @@ export interface Note {
     tags: EncryptedData;
   };
   isEncrypted?: boolean;
+  keyVersion?: number;
+  attachments?: NoteAttachment[];
 }
 
 interface NotesState {
@@ -31,6 +37,13 @@ interface NotesState {
   isLoading: boolean;
   selectedNoteId: string | null;
   searchQuery: string;
+  // Page clipped from the context menu, waiting for the notes panel to open it
+  pendingClip: PageClip | null;
+  // Notes shared by and with this account
+  shares: NoteShare[];
+  inbox: ReceivedNote[];
+  isInboxLoading: boolean;
+  inboxError: string | null;
 }
 
 interface NotesActions {
@@ -39,19 +52,42 @@ interface NotesActions {
   updateNote: (id: string, updates: Partial<Note>) => Promise<boolean>;
   deleteNote: (id: string) => Promise<boolean>;
   syncToAleo: (noteId: string) => Promise<{ success: boolean; txHash?: string; error?: string }>;
+  restoreFromChain: () => Promise<{ success: boolean; restored?: number; error?: string }>;
+  addAttachment: (noteId: string) => Promise<{ success: boolean; attachment?: NoteAttachment; error?: string }>;
+  removeAttachment: (noteId: string, attachmentId: string) => Promise<boolean>;
+  getAttachmentUrl: (noteId: string, attachmentId: string) => Promise<string | null>;
+  saveAttachment: (noteId: string, attachmentId: string) => Promise<{ success: boolean; error?: string }>;
+  clearAttachmentCache: () => void;
+  clipPage: () => Promise<{ success: boolean; clip?: PageClip; error?: string }>;
+  setPendingClip: (clip: PageClip | null) => void;
+  shareNote: (noteId: string, recipient: string) => Promise<{ success: boolean; error?: string }>;
+  loadShares: () => Promise<void>;
+  loadInbox: () => Promise<void>;
+  saveReceived: (received: ReceivedNote) => Promise<Note | null>;
+  removeReceived: (id: string) => Promise<{ success: boolean; error?: string }>;
   setSelectedNote: (id: string | null) => void;
   setSearchQuery: (query: string) => void;
   getFilteredNotes: () => Note[];
+  findNoteByTitle: (title: string) => Note | undefined;
+  getBacklinks: (noteId: string) => Note[];
 }
 
 type NotesStore = NotesState & NotesActions;
 
+// Decrypted attachments shown in previews, by `${noteId}:${attachmentId}`
+const attachmentUrls = new Map<string, string>();
+
 export const useNotesStore = create<NotesStore>((set, get) => ({
   // State
   notes: [],
   isLoading: false,
   selectedNoteId: null,
   searchQuery: '',
+  pendingClip: null,
+  shares: [],
+  inbox: [],
+  isInboxLoading: false,
+  inboxError: null,
 
   // Actions
   loadNotes: async () => {
@@ -153,6 +189,173 @@ export const useNotesStore = create<NotesStore>((set, get) => ({
     }
   },
 
+  restoreFromChain: async () => {
+    try {
+      const result = await window.electron.notes.restoreFromChain();
+      if (result.success) {
+        await get().loadNotes();
+      }
+      return result;
+    } catch (error) {
+      console.error('Failed to restore notes from Aleo:', error);
+      return { success: false, error: 'Restore failed' };
+    }
+  },
+
+  addAttachment: async (noteId) => {
+    try {
+      const result = await window.electron.notes.addAttachment(noteId);
+      if (result.success && result.attachment) {
+        set((state) => ({
+          notes: state.notes.map((note) =>
+            note.id === noteId
+              ? { ...note, attachments: [...(note.attachments || []), result.attachment], updatedAt: Date.now() }
+              : note
+          ),
+        }));
+      }
+      return result;
+    } catch (error) {
+      console.error('Failed to attach file:', error);
+      return { success: false, error: 'Failed to attach file' };
+    }
+  },
+
+  removeAttachment: async (noteId, attachmentId) => {
+    try {
+      const result = await window.electron.notes.removeAttachment(noteId, attachmentId);
+      if (result.success) {
+        attachmentUrls.delete(`${noteId}:${attachmentId}`);
+        set((state) => ({
+          notes: state.notes.map((note) =>
+            note.id === noteId
+              ? { ...note, attachments: (note.attachments || []).filter((a) => a.id !== attachmentId), updatedAt: Date.now() }
+              : note
+          ),
+        }));
+        return true;
+      }
+      return false;
+    } catch (error) {
+      console.error('Failed to remove attachment:', error);
+      return false;
+    }
+  },
+
+  getAttachmentUrl: async (noteId, attachmentId) => {
+    const key = `${noteId}:${attachmentId}`;
+    const cached = attachmentUrls.get(key);
+    if (cached) return cached;
+
+    try {
+      const result = await window.electron.notes.getAttachment(noteId, attachmentId);
+      if (result.success && result.dataUrl) {
+        attachmentUrls.set(key, result.dataUrl);
+        return result.dataUrl;
+      }
+      return null;
+    } catch (error) {
+      console.error('Failed to load attachment:', error);
+      return null;
+    }
+  },
+
+  saveAttachment: async (noteId, attachmentId) => {
+    try {
+      const result = await window.electron.notes.saveAttachment(noteId, attachmentId);
+      return result.canceled ? { success: true } : result;
+    } catch (error) {
+      console.error('Failed to save attachment:', error);
+      return { success: false, error: 'Failed to save attachment' };
+    }
+  },
+
+  /**
+   * Forget decrypted attachments (when the notes panel closes)
+   */
+  clearAttachmentCache: () => {
+    attachmentUrls.clear();
+  },
+
+  clipPage: async () => {
+    try {
+      return await window.electron.notes.clipPage();
+    } catch (error) {
+      console.error('Failed to clip page:', error);
+      return { success: false, error: 'Failed to clip page' };
+    }
+  },
+
+  setPendingClip: (clip) => {
+    set({ pendingClip: clip });
+  },
+
+  shareNote: async (noteId, recipient) => {
+    try {
+      const result = await window.electron.notes.share(noteId, recipient);
+      if (result.success && result.share) {
+        set((state) => ({ shares: [result.share, ...state.shares] }));
+      }
+      return result;
+    } catch (error) {
+      console.error('Failed to share note:', error);
+      return { success: false, error: 'Failed to share note' };
+    }
+  },
+
+  /**
+   * Load shared notes; copies whose records are confirmed are sent on the way
+   */
+  loadShares: async () => {
+    try {
+      const result = await window.electron.notes.getShares();
+      if (result.success) {
+        set({ shares: result.shares || [] });
+      }
+    } catch (error) {
+      console.error('Failed to load shared notes:', error);
+    }
+  },
+
+  loadInbox: async () => {
+    set({ isInboxLoading: true, inboxError: null });
+    try {
+      const result = await window.electron.notes.getInbox();
+      if (result.success) {
+        set({ inbox: result.notes || [], isInboxLoading: false });
+      } else {
+        set({ isInboxLoading: false, inboxError: result.error || 'Failed to load shared notes' });
+      }
+    } catch (error) {
+      console.error('Failed to load shared notes:', error);
+      set({ isInboxLoading: false, inboxError: 'Failed to load shared notes' });
+    }
+  },
+
+  /**
+   * Keep a copy of a received note with the account's own notes
+   */
+  saveReceived: async (received) => {
+    return get().addNote({
+      title: received.title,
+      content: received.content,
+      tags: received.tags,
+    });
+  },
+
+  removeReceived: async (id) => {
+    try {
+      const result = await window.electron.notes.removeReceived(id);
+      if (result.success) {
+        set((state) => ({ inbox: state.inbox.filter((note) => note.id !== id) }));
+      }
+      return result;
+    } catch (error) {
+      console.error('Failed to remove shared note:', error);
+      return { success: false, error: 'Failed to remove shared note' };
+    }
+  },
+
   setSelectedNote: (id) => {
     set({ selectedNoteId: id });
   },
@@ -173,4 +376,25 @@ export const useNotesStore = create<NotesStore>((set, get) => ({
         note.tags.some((tag) => tag.toLowerCase().includes(query))
     );
   },
+
+  findNoteByTitle: (title) => {
+    const wanted = title.trim().toLowerCase();
+    return get().notes.find((note) => note.title.trim().toLowerCase() === wanted);
+  },
+
+  /**
+   * Notes that link to this one with [[its title]]
+   */
+  getBacklinks: (noteId) => {
+    const { notes } = get();
+    const target = notes.find((note) => note.id === noteId);
+    if (!target) return [];
+
+    const title = target.title.trim().toLowerCase();
+    return notes.filter(
+      (note) =>
+        note.id !== noteId &&
+        extractWikiLinks(note.content).some((link) => link.toLowerCase() === title)
+    );
+  },
 }));
@@ -149,6 +149,11 @@ export const useSettingsStore = create<SettingsStore>()(
             }
           }
 
+          // Auto-lock runs in the main process
+          if (updates.autoLockMinutes !== undefined) {
+            await window.electron?.wallet?.setAutoLockTimeout?.(updates.autoLockMinutes);
+          }
+
           // Update state (automatically persisted to localStorage)
           set((state) => ({
             ...updates,
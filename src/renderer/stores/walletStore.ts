@@ -7,6 +7,8 @@ import { ipc } from '../lib/ipc';
 export interface WalletBalance {
   public: number;
   private: number;
+  privatePending?: number;
+  privateSyncing?: boolean;
 }
 
 /**
@@ -239,7 +241,9 @@ export const useWalletStore = create<WalletStore>((set, get) => ({
         set({
           balance: {
             public: result.public ?? 0,
-            private: result.private ?? 0
+            private: result.private ?? 0,
+            privatePending: result.privatePending ?? 0,
+            privateSyncing: result.privateSyncing ?? false
           },
           error: null
         });
@@ -356,6 +360,23 @@ export function useFormattedBalance(): string {
  */
 export function initWalletStore() {
   useWalletStore.getState().checkWalletStatus();
+
+  // Private balance changes are pushed as the record scanner sees new blocks
+  window.electron?.events?.onWalletBalanceChanged?.((balance: WalletBalance) => {
+    if (!useWalletStore.getState().isLocked) {
+      useWalletStore.setState({ balance });
+    }
+  });
+
+  // Main process locks on idle, system suspend and screen lock
+  window.electron?.events?.onWalletLocked?.(() => {
+    useWalletStore.setState({
+      address: null,
+      balance: null,
+      isLocked: true,
+      error: null
+    });
+  });
 }
 
 /**
@@ -3,6 +3,8 @@
  * Central location for all settings-related types
  */
 
+import type { WebRTCIPPolicy } from '../../shared/types';
+
 // ============================================================================
 // General Settings Types
 // ============================================================================
@@ -30,6 +32,7 @@ export interface PrivacySettingsData {
   clearCookiesOnExit: boolean;
   fingerprintProtection: boolean;
   webRTCProtection: boolean;
+  webRTCPolicy: WebRTCIPPolicy;  // Applied while webRTCProtection is on
 }
 
 export interface PrivacyStats {
@@ -159,6 +162,7 @@ export const DEFAULT_SETTINGS: SettingsData = {
     clearCookiesOnExit: false,
     fingerprintProtection: true,
     webRTCProtection: true,
+    webRTCPolicy: 'default_public_interface_only',
   },
   wallet: {
     autoLockTimeout: 15,
@@ -147,7 +147,7 @@ export declare const CONSTANTS: {
     readonly APP_NAME: "AleoBrowser";
     readonly MIN_PASSWORD_LENGTH: 8;
     readonly AUTO_LOCK_DURATION: number;
-    readonly MAX_HISTORY_ENTRIES: 1000;
+    readonly MAX_HISTORY_ENTRIES: 100000;
     readonly DEFAULT_HOME_PAGE: "https://aleo.org";
     readonly ALEO_ADDRESS_PREFIX: "aleo1";
     readonly ALEO_TX_PREFIX: "at1";
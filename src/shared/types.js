@@ -11,7 +11,7 @@ exports.CONSTANTS = {
     APP_NAME: 'AleoBrowser',
     MIN_PASSWORD_LENGTH: 8,
     AUTO_LOCK_DURATION: 15 * 60 * 1000, // 15 minutes
-    MAX_HISTORY_ENTRIES: 1000,
+    MAX_HISTORY_ENTRIES: 100000,
     DEFAULT_HOME_PAGE: 'https://aleo.org',
     ALEO_ADDRESS_PREFIX: 'aleo1',
     ALEO_TX_PREFIX: 'at1'
@@ -8,9 +8,33 @@ export interface AleoWallet {
   viewKey: string;
 }
 
+export type WalletAccountSource = 'derived' | 'imported';
+
+// Account metadata that is safe to hand to the renderer
+export interface WalletAccount {
+  id: string;
+  name: string;
+  address: string;
+  source: WalletAccountSource;
+  index?: number; // HD index for derived accounts
+}
+
+export interface KeyringAccount extends WalletAccount, AleoWallet {}
+
+// Decrypted contents of the wallet vault
+export interface Keyring {
+  mnemonic?: string;
+  accounts: KeyringAccount[];
+  selectedAccountId: string;
+  createdAt: number;
+  storageKey?: string; // Hex key for encrypted browser data, kept across password changes
+}
+
 export interface AleoBalance {
   public: number;
   private: number;
+  privatePending?: number; // Private credits held by unconfirmed spends
+  privateSyncing?: boolean; // Record index is still catching up with the chain
 }
 
 export interface AleoRecord {
@@ -18,6 +42,11 @@ export interface AleoRecord {
   owner: string;
   data: Record<string, unknown>;
   nonce: string;
+  programId?: string;
+  recordName?: string;
+  plaintext?: string;
+  spent?: boolean;
+  blockHeight?: number;
 }
 
 export interface AleoTransaction {
@@ -40,6 +69,8 @@ export interface Bookmark {
   tags?: string[];
   folderId?: string;
   isFavorite?: boolean;
+  aleoPinned?: boolean; // Kept on-chain by bookmark sync
+  order?: number;       // Position within its folder
 }
 
 export interface BookmarkFolder {
@@ -49,6 +80,20 @@ export interface BookmarkFolder {
   createdAt: number;
   updatedAt: number;
   isExpanded?: boolean;
+  order?: number;       // Position among its sibling folders
+}
+
+export interface BookmarkCollection {
+  bookmarks: Bookmark[];
+  folders: BookmarkFolder[];
+}
+
+export interface BookmarkImportResult {
+  added: number;
+  foldersCreated: number;
+  // URLs already bookmarked (or repeated in the file); not imported
+  duplicates: Array<{ url: string; title: string; folder: string }>;
+  skipped: number;      // Unsupported entries such as javascript: bookmarklets
 }
 
 export interface HistoryEntry {
@@ -57,6 +102,154 @@ export interface HistoryEntry {
   title: string;
   visitedAt: number;
   favicon?: string;
+  visitCount?: number;  // Visits to this URL, when known
+}
+
+// Visit count and recency for one URL, used to rank address bar suggestions
+export interface PageStats {
+  url: string;
+  title: string;
+  favicon?: string;
+  visitCount: number;
+  lastVisitedAt: number;
+  recentVisits: number[];   // Latest visit times, newest first
+}
+
+export interface HistorySearchOptions {
+  from?: number;        // Visited at or after (ms)
+  to?: number;          // Visited at or before (ms)
+  domain?: string;      // Only this site and its subdomains
+  limit?: number;
+}
+
+// One page in search results; visits to the same URL are folded together
+export interface HistorySearchResult extends HistoryEntry {
+  domain: string;
+  visitCount: number;
+  score: number;
+}
+
+export interface HistorySearchResponse {
+  results: HistorySearchResult[];
+  total: number;
+  // Matching pages per site, ignoring the domain filter
+  facets: Array<{ domain: string; count: number }>;
+}
+
+export interface HistorySettings {
+  retentionDays: number;    // 0 keeps history until maxEntries is reached
+  maxEntries: number;
+  indexPageText: boolean;   // Also index the visible text of visited pages
+}
+
+/**
+ * Address bar suggestions
+ */
+export type SuggestionType = 'typed' | 'search' | 'keyword' | 'tab' | 'bookmark' | 'history';
+
+export interface Suggestion {
+  type: SuggestionType;
+  url: string;          // Where choosing the suggestion navigates
+  title: string;
+  favicon?: string;
+  tabId?: string;       // Open tab to switch to instead of navigating
+  score: number;
+}
+
+export interface OpenTabInfo {
+  id: string;
+  url: string;
+  title: string;
+  favicon?: string;
+}
+
+export interface SuggestionContext {
+  openTabs?: OpenTabInfo[];
+  searchEngine?: string;    // Default engine for plain text: duckduckgo, google or brave
+  limit?: number;
+}
+
+// File kept with a note, encrypted on this device
+export interface NoteAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;         // Bytes before encryption
+  createdAt: number;
+}
+
+// Selection or address clipped from a web page into a note
+export interface PageClip {
+  url: string;
+  title: string;
+  selection: string;
+}
+
+// Copy of a note sent to another address with transfer_note
+export interface NoteShare {
+  id: string;           // Chain ID of the shared copy
+  noteId: string;
+  title: string;
+  recipient: string;
+  chunks: number;
+  transferred: number;  // Chunk records handed to the recipient so far
+  status: 'pending' | 'sent';
+  error?: string;       // Last transfer failure, retried on the next check
+  createdAt: number;
+  sentAt?: number;
+}
+
+// Note another address shared with this account
+export interface ReceivedNote {
+  id: string;           // Chain ID of the shared copy
+  from: string;
+  title: string;
+  content: string;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Data encrypted with its own key from the account's key hierarchy
+export type KeyPurpose = 'notes' | 'bookmarks' | 'history' | 'credentials';
+
+export interface KeyVersionInfo {
+  purpose: KeyPurpose;
+  version: number;
+  rotatedAt?: number;
+}
+
+// Outcome of rotating one data key
+export interface KeyRotationResult {
+  purpose: KeyPurpose;
+  version: number;
+  reencrypted: number;  // Local items re-encrypted with the new key
+  needsSync: number;    // On-chain copies rewritten on the next sync
+}
+
+// Saved website login
+export interface Credential {
+  id: string;
+  origin: string; // e.g. https://example.com
+  username: string;
+  password: string;
+  notes?: string;
+  createdAt: number;
+  updatedAt: number;
+  lastUsedAt?: number;
+}
+
+// Credential as listed in the UI; secrets are only sent when requested
+export interface CredentialSummary extends Omit<Credential, 'password' | 'notes'> {
+  syncedToAleo: boolean;
+}
+
+export interface PasswordGeneratorOptions {
+  length?: number;
+  uppercase?: boolean;
+  lowercase?: boolean;
+  numbers?: boolean;
+  symbols?: boolean;
 }
 
 export interface PrivacyStats {
@@ -67,6 +260,67 @@ export interface PrivacyStats {
   totalBlocked: number;
 }
 
+// What the rules of a filter list block; Shields settings switch each on or off
+export type FilterListCategory = 'ads' | 'trackers' | 'fingerprinting';
+
+// Shields settings a site can set apart from the global ones; unset keys follow them
+export interface SiteShieldsOverrides {
+  enabled?: boolean;
+  blockAds?: boolean;
+  blockTrackers?: boolean;
+  blockFingerprinting?: boolean;
+  httpsEverywhere?: boolean;
+}
+
+export type SiteShieldsSetting = keyof SiteShieldsOverrides;
+
+// Request Shields blocked, and why
+export interface BlockedRequest {
+  url: string;
+  resourceType: string;   // Electron webRequest resource type
+  category: FilterListCategory | 'custom';
+  rule?: string;          // Filter rule that matched
+  list?: string;          // Title of the list the rule is from
+  timestamp: number;
+}
+
+// Shields activity on a site, for the Shields panel
+export interface SiteShieldsStats {
+  hostname: string;
+  page: PrivacyStats;          // The active tab's current page
+  site: PrivacyStats;          // Every page of the site since stats were reset
+  blocked: BlockedRequest[];   // Requests blocked on the current page, newest first
+}
+
+// Which local IP addresses WebRTC may expose, from most to least revealing
+// (Chromium's WebRTC IP handling policies)
+export type WebRTCIPPolicy =
+  | 'default'                                // Every interface
+  | 'default_public_and_private_interfaces'  // The default route's public and private addresses
+  | 'default_public_interface_only'          // The default route's public address only
+  | 'disable_non_proxied_udp';               // No UDP unless a proxy carries it; TCP through the proxy only
+
+// Adblock Plus / uBlock filter list used by Shields
+export interface FilterList {
+  id: string;
+  title: string;
+  category: FilterListCategory;
+  url?: string;           // Update URL; lists without one are kept as imported
+  builtin?: boolean;      // Ships with the browser and cannot be removed
+  enabled: boolean;
+  ruleCount: number;
+  lastUpdated?: number;
+  lastError?: string;     // Last failed update
+}
+
+// Element hidden on a site with the Shields element picker
+export interface ElementHidingRule {
+  id: string;
+  hostname: string;
+  selector: string;
+  createdAt: number;
+}
+
 export interface WalletState {
   isUnlocked: boolean;
   hasWallet: boolean;
@@ -93,13 +347,45 @@ export interface ExecuteProgramParams {
   inputs: string[];
   fee: number;
   privateKey: string;
+  // Indexed records the inputs spend, held back from other spends meanwhile
+  consumes?: { viewKey: string; recordIds: string[] };
 }
 
+export interface DeployProgramParams {
+  program: string;      // Aleo instructions source
+  priorityFee?: number; // In ALEO, on top of the base deployment fee
+  privateKey: string;
+  network?: string;     // Network the deployment was prepared for; refused on any other
+}
+
+/**
+ * Summary of a program deployment shown for approval
+ */
+export interface DeploymentPreview {
+  programId: string;
+  imports: string[];
+  estimatedFee: number; // Base deployment fee in ALEO
+  source: string;
+  network: string;      // Network the program is checked against and deployed to
+}
+
+/**
+ * credits.aleo transfer functions
+ */
+export type TransferKind =
+  | 'transfer_public'
+  | 'transfer_private'
+  | 'transfer_public_to_private'
+  | 'transfer_private_to_public'
+  | 'transfer_public_as_signer';
+
 export interface TransferParams {
   privateKey: string;
   to: string;
   amount: number;
   fee?: number;
+  transferKind?: TransferKind; // Defaults to transfer_public
+  viewKey?: string; // Required when spending a private record
 }
 
 /**
@@ -170,7 +456,7 @@ export const CONSTANTS = {
   APP_NAME: 'AleoBrowser',
   MIN_PASSWORD_LENGTH: 8,
   AUTO_LOCK_DURATION: 15 * 60 * 1000, // 15 minutes
-  MAX_HISTORY_ENTRIES: 1000,
+  MAX_HISTORY_ENTRIES: 100000, // Default; configurable in history settings
   DEFAULT_HOME_PAGE: 'https://aleo.org',
   ALEO_ADDRESS_PREFIX: 'aleo1',
   ALEO_TX_PREFIX: 'at1'